@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "public"."AvailabilityBlockReason" AS ENUM ('MAINTENANCE', 'OWNER_STAY', 'EXTERNAL_BOOKING', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "public"."property_availability_blocks" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" "public"."AvailabilityBlockReason" NOT NULL DEFAULT 'OTHER',
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "property_availability_blocks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "property_availability_blocks_propertyId_idx" ON "public"."property_availability_blocks"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "property_availability_blocks_propertyId_startDate_endDate_idx" ON "public"."property_availability_blocks"("propertyId", "startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."property_availability_blocks" ADD CONSTRAINT "property_availability_blocks_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."property_availability_blocks" ADD CONSTRAINT "property_availability_blocks_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: move legacy zero-priced "blocked dates" bookings into availability blocks.
+-- Placeholders that picked up payments or guest-facing records (reviews,
+-- disputes, refund requests, messages) are left as bookings for manual review.
+INSERT INTO "public"."property_availability_blocks" ("id", "propertyId", "startDate", "endDate", "reason", "note", "createdById", "createdAt", "updatedAt")
+SELECT
+    'blk_' || b."id",
+    b."propertyId",
+    b."checkInDate",
+    b."checkOutDate",
+    'OTHER',
+    NULLIF(TRIM(REPLACE(REPLACE(b."specialRequests", '[SYSTEM_BLOCKED_DATES]', ''), 'SYSTEM:BLOCKED_DATES', '')), ''),
+    b."guestId",
+    b."createdAt",
+    b."updatedAt"
+FROM "public"."bookings" b
+WHERE (b."specialRequests" LIKE '[SYSTEM_BLOCKED_DATES]%' OR b."specialRequests" LIKE 'SYSTEM:BLOCKED_DATES%')
+  AND b."status" = 'ACTIVE'
+  AND NOT EXISTS (SELECT 1 FROM "public"."payments" p WHERE p."bookingId" = b."id")
+  AND NOT EXISTS (SELECT 1 FROM "public"."reviews" r WHERE r."bookingId" = b."id")
+  AND NOT EXISTS (SELECT 1 FROM "public"."disputes" d WHERE d."bookingId" = b."id")
+  AND NOT EXISTS (SELECT 1 FROM "public"."refund_requests" rr WHERE rr."bookingId" = b."id")
+  AND NOT EXISTS (SELECT 1 FROM "public"."messages" m WHERE m."bookingId" = b."id");
+
+-- Remove the placeholder bookings that were copied into blocks so they stop
+-- leaking into revenue, escrow and booking lists. Their remaining dependents
+-- are system bookkeeping and go first, rather than through cascades.
+DELETE FROM "public"."escrow_events"
+WHERE "bookingId" IN (
+    SELECT b."id" FROM "public"."bookings" b
+    JOIN "public"."property_availability_blocks" a ON a."id" = 'blk_' || b."id"
+);
+
+DELETE FROM "public"."escrows"
+WHERE "bookingId" IN (
+    SELECT b."id" FROM "public"."bookings" b
+    JOIN "public"."property_availability_blocks" a ON a."id" = 'blk_' || b."id"
+);
+
+DELETE FROM "public"."notifications"
+WHERE "bookingId" IN (
+    SELECT b."id" FROM "public"."bookings" b
+    JOIN "public"."property_availability_blocks" a ON a."id" = 'blk_' || b."id"
+);
+
+DELETE FROM "public"."bookings" b
+USING "public"."property_availability_blocks" a
+WHERE a."id" = 'blk_' || b."id";
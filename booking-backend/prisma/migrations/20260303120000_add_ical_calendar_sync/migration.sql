@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "public"."CalendarSyncStatus" AS ENUM ('PENDING', 'SUCCESS', 'CONFLICT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."properties" ADD COLUMN "icalFeedNonce" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."property_availability_blocks"
+ADD COLUMN "sourceId" TEXT,
+ADD COLUMN "externalUid" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."external_calendar_sources" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "syncStatus" "public"."CalendarSyncStatus" NOT NULL DEFAULT 'PENDING',
+    "lastSyncAttemptAt" TIMESTAMP(3),
+    "lastSyncedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "lastEventCount" INTEGER NOT NULL DEFAULT 0,
+    "conflictCount" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "external_calendar_sources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "property_availability_blocks_sourceId_externalUid_key" ON "public"."property_availability_blocks"("sourceId", "externalUid");
+
+-- CreateIndex
+CREATE INDEX "external_calendar_sources_propertyId_idx" ON "public"."external_calendar_sources"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "external_calendar_sources_isActive_lastSyncAttemptAt_idx" ON "public"."external_calendar_sources"("isActive", "lastSyncAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "external_calendar_sources_propertyId_url_key" ON "public"."external_calendar_sources"("propertyId", "url");
+
+-- AddForeignKey
+ALTER TABLE "public"."property_availability_blocks" ADD CONSTRAINT "property_availability_blocks_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "public"."external_calendar_sources"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."external_calendar_sources" ADD CONSTRAINT "external_calendar_sources_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."properties" ADD COLUMN "pricingRules" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."bookings"
+ADD COLUMN "pricingRulesSnapshot" JSONB,
+ADD COLUMN "nightlyBreakdown" JSONB;
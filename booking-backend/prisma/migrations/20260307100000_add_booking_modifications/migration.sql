@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "public"."BookingModificationStatus" AS ENUM ('PENDING_REALTOR_APPROVAL', 'COMPLETED', 'DECLINED', 'CANCELLED', 'EXPIRED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."booking_modifications" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "requestedById" TEXT NOT NULL,
+    "status" "public"."BookingModificationStatus" NOT NULL DEFAULT 'PENDING_REALTOR_APPROVAL',
+    "reason" TEXT,
+    "previousCheckInDate" TIMESTAMP(3) NOT NULL,
+    "previousCheckOutDate" TIMESTAMP(3) NOT NULL,
+    "previousTotalGuests" INTEGER NOT NULL,
+    "newCheckInDate" TIMESTAMP(3) NOT NULL,
+    "newCheckOutDate" TIMESTAMP(3) NOT NULL,
+    "newTotalGuests" INTEGER NOT NULL,
+    "previousRoomFee" DECIMAL(10,2) NOT NULL,
+    "newRoomFee" DECIMAL(10,2) NOT NULL,
+    "newPlatformFee" DECIMAL(10,2) NOT NULL,
+    "additionalServiceFee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "amountDue" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "refundAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "quote" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedById" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "responseNote" TEXT,
+    "settlementReference" TEXT,
+    "failureReason" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_modifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "booking_modifications_bookingId_idx" ON "public"."booking_modifications"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "booking_modifications_status_idx" ON "public"."booking_modifications"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."booking_modifications" ADD CONSTRAINT "booking_modifications_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "public"."bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."booking_modifications" ADD CONSTRAINT "booking_modifications_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."booking_modifications" ADD CONSTRAINT "booking_modifications_respondedById_fkey" FOREIGN KEY ("respondedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
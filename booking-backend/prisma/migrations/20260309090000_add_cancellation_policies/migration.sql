@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."properties" ADD COLUMN "cancellationPolicy" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."bookings" ADD COLUMN "cancellationPolicySnapshot" JSONB;
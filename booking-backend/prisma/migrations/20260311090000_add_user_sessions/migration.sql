@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."SessionRevokeReason" AS ENUM ('LOGOUT', 'SIGNED_OUT_REMOTELY', 'SIGN_OUT_EVERYWHERE', 'TOKEN_REUSE', 'PASSWORD_CHANGED', 'ACCOUNT_SUSPENDED', 'ACCOUNT_DELETED');
+
+-- CreateTable
+CREATE TABLE "public"."user_sessions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "refreshTokenHash" TEXT NOT NULL,
+    "previousTokenHash" TEXT,
+    "rotatedAt" TIMESTAMP(3),
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revokedReason" "public"."SessionRevokeReason",
+
+    CONSTRAINT "user_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_sessions_refreshTokenHash_key" ON "public"."user_sessions"("refreshTokenHash");
+
+-- CreateIndex
+CREATE INDEX "user_sessions_userId_revokedAt_idx" ON "public"."user_sessions"("userId", "revokedAt");
+
+-- CreateIndex
+CREATE INDEX "user_sessions_expiresAt_idx" ON "public"."user_sessions"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_sessions" ADD CONSTRAINT "user_sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,116 @@
+-- CreateEnum
+CREATE TYPE "public"."SupportTicketCategory" AS ENUM ('GUEST_ISSUE', 'PROPERTY_DAMAGE', 'NO_SHOW', 'PAYMENT_ISSUE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "public"."SupportTicketPriority" AS ENUM ('LOW', 'MEDIUM', 'HIGH');
+
+-- CreateEnum
+CREATE TYPE "public"."SupportTicketStatus" AS ENUM ('OPEN', 'IN_PROGRESS', 'RESOLVED', 'CLOSED');
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'SUPPORT_TICKET_UPDATE';
+
+-- CreateTable
+CREATE TABLE "public"."support_tickets" (
+    "id" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "category" "public"."SupportTicketCategory" NOT NULL,
+    "priority" "public"."SupportTicketPriority" NOT NULL DEFAULT 'MEDIUM',
+    "status" "public"."SupportTicketStatus" NOT NULL DEFAULT 'OPEN',
+    "requesterId" TEXT NOT NULL,
+    "assignedAdminId" TEXT,
+    "bookingId" TEXT,
+    "disputeId" TEXT,
+    "firstResponseDueAt" TIMESTAMP(3) NOT NULL,
+    "resolutionDueAt" TIMESTAMP(3) NOT NULL,
+    "firstRespondedAt" TIMESTAMP(3),
+    "firstResponseBreachedAt" TIMESTAMP(3),
+    "resolutionBreachedAt" TIMESTAMP(3),
+    "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "support_tickets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."support_messages" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "isFromUser" BOOLEAN NOT NULL,
+    "isInternal" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "support_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."support_attachments" (
+    "id" TEXT NOT NULL,
+    "ticketId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "uploadedById" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "support_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "support_tickets_requesterId_status_idx" ON "public"."support_tickets"("requesterId", "status");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_status_priority_idx" ON "public"."support_tickets"("status", "priority");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_assignedAdminId_status_idx" ON "public"."support_tickets"("assignedAdminId", "status");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_bookingId_idx" ON "public"."support_tickets"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "support_tickets_disputeId_idx" ON "public"."support_tickets"("disputeId");
+
+-- CreateIndex
+CREATE INDEX "support_messages_ticketId_createdAt_idx" ON "public"."support_messages"("ticketId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "support_attachments_ticketId_idx" ON "public"."support_attachments"("ticketId");
+
+-- CreateIndex
+CREATE INDEX "support_attachments_messageId_idx" ON "public"."support_attachments"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "public"."support_tickets" ADD CONSTRAINT "support_tickets_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."support_tickets" ADD CONSTRAINT "support_tickets_assignedAdminId_fkey" FOREIGN KEY ("assignedAdminId") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."support_tickets" ADD CONSTRAINT "support_tickets_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "public"."bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."support_tickets" ADD CONSTRAINT "support_tickets_disputeId_fkey" FOREIGN KEY ("disputeId") REFERENCES "public"."disputes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."support_messages" ADD CONSTRAINT "support_messages_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "public"."support_tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."support_messages" ADD CONSTRAINT "support_messages_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."support_attachments" ADD CONSTRAINT "support_attachments_ticketId_fkey" FOREIGN KEY ("ticketId") REFERENCES "public"."support_tickets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."support_attachments" ADD CONSTRAINT "support_attachments_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."support_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."support_attachments" ADD CONSTRAINT "support_attachments_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
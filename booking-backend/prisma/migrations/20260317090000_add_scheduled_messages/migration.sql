@@ -0,0 +1,54 @@
+-- CreateEnum
+CREATE TYPE "public"."ScheduledMessageType" AS ENUM ('BOOKING_CONFIRMED', 'PAYMENT_CONFIRMED', 'HOUSE_RULES', 'CHECKIN_INSTRUCTIONS', 'CHECKOUT_REMINDER', 'CHECKOUT_INSTRUCTIONS');
+
+-- CreateEnum
+CREATE TYPE "public"."ScheduledMessageStatus" AS ENUM ('PENDING', 'SENT', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."scheduled_messages" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "type" "public"."ScheduledMessageType" NOT NULL,
+    "status" "public"."ScheduledMessageStatus" NOT NULL DEFAULT 'PENDING',
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "lastError" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_messages_bookingId_type_key" ON "public"."scheduled_messages"("bookingId", "type");
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_status_dueAt_idx" ON "public"."scheduled_messages"("status", "dueAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_messages" ADD CONSTRAINT "scheduled_messages_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "public"."bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: queue the not-yet-due messages of paid upcoming bookings that were
+-- previously only held in in-process timers
+INSERT INTO "public"."scheduled_messages" ("id", "bookingId", "type", "status", "dueAt", "createdAt", "updatedAt")
+SELECT
+    'smsg_' || b."id" || '_' || LOWER(m."type"),
+    b."id",
+    m."type"::"public"."ScheduledMessageType",
+    'PENDING',
+    m."dueAt",
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM "public"."bookings" b
+CROSS JOIN LATERAL (
+    VALUES
+        ('CHECKIN_INSTRUCTIONS', b."checkInDate" - INTERVAL '24 hours'),
+        ('CHECKOUT_REMINDER', b."checkOutDate" - INTERVAL '24 hours'),
+        ('CHECKOUT_INSTRUCTIONS', b."checkOutDate")
+) AS m("type", "dueAt")
+WHERE b."status" IN ('PENDING', 'ACTIVE')
+  AND b."paymentStatus" IN ('HELD', 'PARTIALLY_RELEASED', 'SETTLED')
+  AND m."dueAt" > CURRENT_TIMESTAMP;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."properties" ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "longitude" DOUBLE PRECISION,
+ADD COLUMN     "publicLatitude" DOUBLE PRECISION,
+ADD COLUMN     "publicLongitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "properties_publicLatitude_publicLongitude_idx" ON "public"."properties"("publicLatitude", "publicLongitude");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."notifications" ADD COLUMN     "emailHeld" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "notifications_emailHeld_userId_createdAt_idx" ON "public"."notifications"("emailHeld", "userId", "createdAt");
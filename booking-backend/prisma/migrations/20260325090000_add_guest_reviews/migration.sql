@@ -0,0 +1,47 @@
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'GUEST_REVIEW_RECEIVED';
+
+-- AlterTable
+ALTER TABLE "public"."reviews" ADD COLUMN     "revealedAt" TIMESTAMP(3);
+
+-- Existing reviews were published before double-blind reviews
+UPDATE "public"."reviews" SET "revealedAt" = "createdAt";
+
+-- CreateTable
+CREATE TABLE "public"."guest_reviews" (
+    "id" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "guestId" TEXT NOT NULL,
+    "realtorId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "cleanlinessRating" INTEGER NOT NULL,
+    "communicationRating" INTEGER NOT NULL,
+    "houseRulesRating" INTEGER NOT NULL,
+    "comment" TEXT,
+    "revealedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "guest_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "guest_reviews_bookingId_key" ON "public"."guest_reviews"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "guest_reviews_guestId_revealedAt_idx" ON "public"."guest_reviews"("guestId", "revealedAt");
+
+-- CreateIndex
+CREATE INDEX "guest_reviews_realtorId_idx" ON "public"."guest_reviews"("realtorId");
+
+-- AddForeignKey
+ALTER TABLE "public"."guest_reviews" ADD CONSTRAINT "guest_reviews_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "public"."bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."guest_reviews" ADD CONSTRAINT "guest_reviews_guestId_fkey" FOREIGN KEY ("guestId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."guest_reviews" ADD CONSTRAINT "guest_reviews_realtorId_fkey" FOREIGN KEY ("realtorId") REFERENCES "public"."realtors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."guest_reviews" ADD CONSTRAINT "guest_reviews_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
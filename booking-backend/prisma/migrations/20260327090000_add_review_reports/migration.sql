@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."ReviewReportKind" AS ENUM ('FLAG', 'REMOVAL_REQUEST');
+
+-- CreateEnum
+CREATE TYPE "public"."ReviewReportReason" AS ENUM ('SPAM', 'OFFENSIVE', 'HARASSMENT', 'PERSONAL_INFORMATION', 'NOT_ABOUT_STAY', 'FALSE_INFORMATION', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "public"."ReviewReportStatus" AS ENUM ('PENDING', 'UPHELD', 'DISMISSED');
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'REVIEW_MODERATION';
+
+-- CreateTable
+CREATE TABLE "public"."review_reports" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "kind" "public"."ReviewReportKind" NOT NULL DEFAULT 'FLAG',
+    "reason" "public"."ReviewReportReason" NOT NULL,
+    "details" TEXT,
+    "status" "public"."ReviewReportStatus" NOT NULL DEFAULT 'PENDING',
+    "resolvedById" TEXT,
+    "resolutionNote" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "review_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "review_reports_status_createdAt_idx" ON "public"."review_reports"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "review_reports_reviewId_reporterId_key" ON "public"."review_reports"("reviewId", "reporterId");
+
+-- AddForeignKey
+ALTER TABLE "public"."review_reports" ADD CONSTRAINT "review_reports_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "public"."reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."review_reports" ADD CONSTRAINT "review_reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."review_reports" ADD CONSTRAINT "review_reports_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
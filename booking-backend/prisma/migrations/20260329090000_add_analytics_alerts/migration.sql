@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "public"."AnalyticsAlertType" AS ENUM ('LOW_OCCUPANCY', 'RATING_DROP', 'CANCELLATION_SPIKE', 'UNANSWERED_INQUIRIES');
+
+-- CreateEnum
+CREATE TYPE "public"."AnalyticsAlertSeverity" AS ENUM ('WARNING', 'CRITICAL');
+
+-- CreateEnum
+CREATE TYPE "public"."AnalyticsAlertStatus" AS ENUM ('ACTIVE', 'RESOLVED');
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'ANALYTICS_ALERT';
+
+-- CreateTable
+CREATE TABLE "public"."analytics_alert_rules" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "type" "public"."AnalyticsAlertType" NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "windowDays" INTEGER NOT NULL,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "analytics_alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."analytics_alerts" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "type" "public"."AnalyticsAlertType" NOT NULL,
+    "severity" "public"."AnalyticsAlertSeverity" NOT NULL,
+    "status" "public"."AnalyticsAlertStatus" NOT NULL DEFAULT 'ACTIVE',
+    "value" DOUBLE PRECISION NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "message" TEXT NOT NULL,
+    "triggeredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastEvaluatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "readAt" TIMESTAMP(3),
+    "mutedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "analytics_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "analytics_alert_rules_propertyId_type_key" ON "public"."analytics_alert_rules"("propertyId", "type");
+
+-- CreateIndex
+CREATE INDEX "analytics_alerts_ruleId_status_idx" ON "public"."analytics_alerts"("ruleId", "status");
+
+-- CreateIndex
+CREATE INDEX "analytics_alerts_propertyId_status_triggeredAt_idx" ON "public"."analytics_alerts"("propertyId", "status", "triggeredAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."analytics_alert_rules" ADD CONSTRAINT "analytics_alert_rules_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."analytics_alerts" ADD CONSTRAINT "analytics_alerts_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "public"."analytics_alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."analytics_alerts" ADD CONSTRAINT "analytics_alerts_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "public"."properties"("id") ON DELETE CASCADE ON UPDATE CASCADE;
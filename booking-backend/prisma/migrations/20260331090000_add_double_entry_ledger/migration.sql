@@ -0,0 +1,106 @@
+-- CreateEnum
+CREATE TYPE "public"."LedgerAccount" AS ENUM ('GUEST_RECEIVABLE', 'GATEWAY_BALANCE', 'ESCROW', 'REALTOR_PAYABLE', 'PAYOUT_CLEARING', 'PLATFORM_REVENUE', 'PROCESSING_FEES');
+
+-- CreateEnum
+CREATE TYPE "public"."JournalDirection" AS ENUM ('DEBIT', 'CREDIT');
+
+-- CreateEnum
+CREATE TYPE "public"."JournalEntryType" AS ENUM ('OPENING_BALANCE', 'PAYMENT_CAPTURED', 'PAYMENT_SETTLED', 'WALLET_CREDIT', 'WALLET_DEBIT', 'ESCROW_REFUND', 'ESCROW_TRANSFER', 'BOOKING_MODIFICATION', 'WITHDRAWAL_LOCKED', 'WITHDRAWAL_COMPLETED', 'WITHDRAWAL_RELEASED');
+
+-- CreateTable
+CREATE TABLE "public"."journal_entries" (
+    "id" TEXT NOT NULL,
+    "type" "public"."JournalEntryType" NOT NULL,
+    "reference" TEXT,
+    "bookingId" TEXT,
+    "description" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."journal_lines" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "account" "public"."LedgerAccount" NOT NULL,
+    "subledgerId" TEXT,
+    "direction" "public"."JournalDirection" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journal_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "journal_entries_bookingId_idx" ON "public"."journal_entries"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_reference_idx" ON "public"."journal_entries"("reference");
+
+-- CreateIndex
+CREATE INDEX "journal_entries_type_createdAt_idx" ON "public"."journal_entries"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_entryId_idx" ON "public"."journal_lines"("entryId");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_account_subledgerId_idx" ON "public"."journal_lines"("account", "subledgerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."journal_lines" ADD CONSTRAINT "journal_lines_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "public"."journal_entries"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Opening balances: carry existing wallet and escrow balances into the
+-- journal, funded from the gateway balance
+INSERT INTO "public"."journal_entries" ("id", "type", "description")
+VALUES ('opening_balance', 'OPENING_BALANCE', 'Opening balances from wallets and escrows');
+
+WITH "balances" AS (
+    SELECT
+        CASE WHEN "ownerType" = 'PLATFORM' THEN 'PLATFORM_REVENUE' ELSE 'REALTOR_PAYABLE' END AS "account",
+        "ownerId" AS "subledgerId",
+        "balanceAvailable" AS "amount"
+    FROM "public"."wallets"
+    UNION ALL
+    SELECT 'PAYOUT_CLEARING', "ownerId", "balancePending" FROM "public"."wallets"
+    UNION ALL
+    SELECT 'ESCROW', "bookingId", "roomFeeHeld" + "depositHeld" FROM "public"."escrows"
+)
+INSERT INTO "public"."journal_lines" ("id", "entryId", "account", "subledgerId", "direction", "amount")
+SELECT
+    gen_random_uuid()::TEXT,
+    'opening_balance',
+    "account"::"public"."LedgerAccount",
+    "subledgerId",
+    (CASE WHEN "amount" > 0 THEN 'CREDIT' ELSE 'DEBIT' END)::"public"."JournalDirection",
+    ABS("amount")
+FROM "balances"
+WHERE "amount" <> 0
+UNION ALL
+SELECT
+    gen_random_uuid()::TEXT,
+    'opening_balance',
+    'GATEWAY_BALANCE'::"public"."LedgerAccount",
+    NULL,
+    (CASE WHEN SUM("amount") > 0 THEN 'DEBIT' ELSE 'CREDIT' END)::"public"."JournalDirection",
+    ABS(SUM("amount"))
+FROM "balances"
+HAVING SUM("amount") <> 0;
+
+DELETE FROM "public"."journal_entries"
+WHERE "id" = 'opening_balance'
+  AND NOT EXISTS (SELECT 1 FROM "public"."journal_lines" WHERE "entryId" = 'opening_balance');
+
+-- Append-only: posted entries and lines can never be changed or removed
+CREATE FUNCTION "public"."journal_append_only"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'The journal is append-only: % on % is not allowed', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "journal_entries_append_only" BEFORE UPDATE OR DELETE ON "public"."journal_entries"
+FOR EACH ROW EXECUTE FUNCTION "public"."journal_append_only"();
+
+CREATE TRIGGER "journal_lines_append_only" BEFORE UPDATE OR DELETE ON "public"."journal_lines"
+FOR EACH ROW EXECUTE FUNCTION "public"."journal_append_only"();
@@ -0,0 +1,66 @@
+-- AlterEnum
+ALTER TYPE "public"."JournalEntryType" ADD VALUE 'RECONCILIATION_ADJUSTMENT';
+
+-- CreateEnum
+CREATE TYPE "public"."ReconciliationRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "public"."ReconciliationMismatchType" AS ENUM ('PAYMENT_NOT_RECORDED', 'PAYMENT_UNKNOWN', 'PAYMENT_STATUS_MISMATCH', 'AMOUNT_MISMATCH', 'PROCESSING_FEE_DRIFT', 'TRANSFER_REVERSED', 'TRANSFER_STATUS_MISMATCH', 'WEBHOOK_MISSING');
+
+-- CreateEnum
+CREATE TYPE "public"."ReconciliationItemStatus" AS ENUM ('OPEN', 'RESOLVED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "public"."reconciliation_runs" (
+    "id" TEXT NOT NULL,
+    "status" "public"."ReconciliationRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "triggeredById" TEXT,
+    "transactionCount" INTEGER NOT NULL DEFAULT 0,
+    "transferCount" INTEGER NOT NULL DEFAULT 0,
+    "mismatchCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "reconciliation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."reconciliation_items" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "type" "public"."ReconciliationMismatchType" NOT NULL,
+    "status" "public"."ReconciliationItemStatus" NOT NULL DEFAULT 'OPEN',
+    "reference" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "withdrawalRequestId" TEXT,
+    "providerStatus" TEXT,
+    "localStatus" TEXT,
+    "providerAmount" DECIMAL(12,2),
+    "localAmount" DECIMAL(12,2),
+    "remediable" BOOLEAN NOT NULL DEFAULT false,
+    "details" JSONB,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "resolutionNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reconciliation_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_runs_startedAt_idx" ON "public"."reconciliation_runs"("startedAt");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_items_runId_status_idx" ON "public"."reconciliation_items"("runId", "status");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_items_reference_idx" ON "public"."reconciliation_items"("reference");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_items_type_status_idx" ON "public"."reconciliation_items"("type", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."reconciliation_items" ADD CONSTRAINT "reconciliation_items_runId_fkey" FOREIGN KEY ("runId") REFERENCES "public"."reconciliation_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
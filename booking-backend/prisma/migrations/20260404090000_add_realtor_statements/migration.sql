@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "public"."StatementPeriodType" AS ENUM ('MONTHLY', 'ANNUAL');
+
+-- CreateTable
+CREATE TABLE "public"."realtor_statements" (
+    "id" TEXT NOT NULL,
+    "realtorId" TEXT NOT NULL,
+    "periodType" "public"."StatementPeriodType" NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "openingBalance" DECIMAL(12,2) NOT NULL,
+    "closingBalance" DECIMAL(12,2) NOT NULL,
+    "summary" JSONB NOT NULL,
+    "pdf" BYTEA NOT NULL,
+    "csv" TEXT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "generatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "emailedAt" TIMESTAMP(3),
+
+    CONSTRAINT "realtor_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "realtor_statements_realtorId_periodType_periodStart_key" ON "public"."realtor_statements"("realtorId", "periodType", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "realtor_statements_realtorId_generatedAt_idx" ON "public"."realtor_statements"("realtorId", "generatedAt");
+
+-- Immutable: statements can never be removed, and only emailedAt may be set
+CREATE FUNCTION "public"."realtor_statements_immutable"() RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND (to_jsonb(NEW) - 'emailedAt') = (to_jsonb(OLD) - 'emailedAt') THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Realtor statements are immutable: % on % is not allowed', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "realtor_statements_immutable" BEFORE UPDATE OR DELETE ON "public"."realtor_statements"
+FOR EACH ROW EXECUTE FUNCTION "public"."realtor_statements_immutable"();
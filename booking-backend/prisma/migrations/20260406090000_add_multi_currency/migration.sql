@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "public"."realtors" ADD COLUMN "payoutCurrency" TEXT NOT NULL DEFAULT 'NGN';
+
+-- AlterTable
+ALTER TABLE "public"."bookings" ADD COLUMN "displayCurrency" TEXT,
+ADD COLUMN "fxRate" DECIMAL(18,8),
+ADD COLUMN "fxRateSource" TEXT,
+ADD COLUMN "fxRateLockedAt" TIMESTAMP(3),
+ADD COLUMN "displayTotalPrice" DECIMAL(14,2);
+
+-- AlterTable
+ALTER TABLE "public"."wallets" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'NGN';
+
+-- AlterTable
+ALTER TABLE "public"."journal_lines" ADD COLUMN "currency" TEXT NOT NULL DEFAULT 'NGN';
+
+-- DropIndex
+DROP INDEX "public"."wallets_ownerType_ownerId_key";
+
+-- DropIndex
+DROP INDEX "public"."journal_lines_account_subledgerId_idx";
+
+-- DropIndex
+DROP INDEX "public"."realtor_statements_realtorId_periodType_periodStart_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wallets_ownerType_ownerId_currency_key" ON "public"."wallets"("ownerType", "ownerId", "currency");
+
+-- CreateIndex
+CREATE INDEX "journal_lines_account_subledgerId_currency_idx" ON "public"."journal_lines"("account", "subledgerId", "currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "realtor_statements_realtorId_periodType_periodStart_currency_key" ON "public"."realtor_statements"("realtorId", "periodType", "periodStart", "currency");
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."AdminRole" AS ENUM ('SUPER_ADMIN', 'FINANCE', 'TRUST_AND_SAFETY', 'SUPPORT', 'ANALYST');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN "adminRole" "public"."AdminRole";
+
+-- Existing admins keep full access
+UPDATE "public"."users" SET "adminRole" = 'SUPER_ADMIN' WHERE "role" = 'ADMIN';
+
+-- CreateTable
+CREATE TABLE "public"."admin_invites" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "adminRole" "public"."AdminRole" NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "acceptedById" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "admin_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "admin_invites_tokenHash_key" ON "public"."admin_invites"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "admin_invites_acceptedById_key" ON "public"."admin_invites"("acceptedById");
+
+-- CreateIndex
+CREATE INDEX "admin_invites_email_idx" ON "public"."admin_invites"("email");
+
+-- AddForeignKey
+ALTER TABLE "public"."admin_invites" ADD CONSTRAINT "admin_invites_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."admin_invites" ADD CONSTRAINT "admin_invites_acceptedById_fkey" FOREIGN KEY ("acceptedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,77 @@
+-- AlterEnum
+ALTER TYPE "public"."SessionRevokeReason" ADD VALUE 'TEAM_ACCESS_REMOVED';
+
+-- CreateEnum
+CREATE TYPE "public"."RealtorTeamRole" AS ENUM ('MANAGER', 'FRONT_DESK', 'FINANCE', 'CLEANER');
+
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN "sentById" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."realtor_team_members" (
+    "id" TEXT NOT NULL,
+    "realtorId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "public"."RealtorTeamRole" NOT NULL,
+    "addedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "realtor_team_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."realtor_team_invites" (
+    "id" TEXT NOT NULL,
+    "realtorId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "public"."RealtorTeamRole" NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "acceptedById" TEXT,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "realtor_team_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "realtor_team_members_userId_key" ON "public"."realtor_team_members"("userId");
+
+-- CreateIndex
+CREATE INDEX "realtor_team_members_realtorId_idx" ON "public"."realtor_team_members"("realtorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "realtor_team_invites_tokenHash_key" ON "public"."realtor_team_invites"("tokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "realtor_team_invites_acceptedById_key" ON "public"."realtor_team_invites"("acceptedById");
+
+-- CreateIndex
+CREATE INDEX "realtor_team_invites_realtorId_idx" ON "public"."realtor_team_invites"("realtorId");
+
+-- CreateIndex
+CREATE INDEX "realtor_team_invites_email_idx" ON "public"."realtor_team_invites"("email");
+
+-- AddForeignKey
+ALTER TABLE "public"."realtor_team_members" ADD CONSTRAINT "realtor_team_members_realtorId_fkey" FOREIGN KEY ("realtorId") REFERENCES "public"."realtors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."realtor_team_members" ADD CONSTRAINT "realtor_team_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."realtor_team_members" ADD CONSTRAINT "realtor_team_members_addedById_fkey" FOREIGN KEY ("addedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."realtor_team_invites" ADD CONSTRAINT "realtor_team_invites_realtorId_fkey" FOREIGN KEY ("realtorId") REFERENCES "public"."realtors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."realtor_team_invites" ADD CONSTRAINT "realtor_team_invites_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."realtor_team_invites" ADD CONSTRAINT "realtor_team_invites_acceptedById_fkey" FOREIGN KEY ("acceptedById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
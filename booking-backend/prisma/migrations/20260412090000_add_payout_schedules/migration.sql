@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."PayoutScheduleFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY', 'THRESHOLD');
+
+-- AlterTable
+ALTER TABLE "public"."withdrawal_requests" ADD COLUMN "payoutScheduleId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."payout_schedules" (
+    "id" TEXT NOT NULL,
+    "realtorId" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "frequency" "public"."PayoutScheduleFrequency" NOT NULL,
+    "weekday" INTEGER,
+    "dayOfMonth" INTEGER,
+    "thresholdAmount" DECIMAL(12,2),
+    "minimumReserve" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "pausedReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "withdrawal_requests_payoutScheduleId_idx" ON "public"."withdrawal_requests"("payoutScheduleId");
+
+-- CreateIndex
+CREATE INDEX "payout_schedules_isActive_nextRunAt_idx" ON "public"."payout_schedules"("isActive", "nextRunAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_schedules_realtorId_currency_key" ON "public"."payout_schedules"("realtorId", "currency");
+
+-- AddForeignKey
+ALTER TABLE "public"."withdrawal_requests" ADD CONSTRAINT "withdrawal_requests_payoutScheduleId_fkey" FOREIGN KEY ("payoutScheduleId") REFERENCES "public"."payout_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payout_schedules" ADD CONSTRAINT "payout_schedules_realtorId_fkey" FOREIGN KEY ("realtorId") REFERENCES "public"."realtors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
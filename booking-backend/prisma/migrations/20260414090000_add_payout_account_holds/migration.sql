@@ -0,0 +1,49 @@
+-- AlterEnum
+ALTER TYPE "public"."WithdrawalRequestStatus" ADD VALUE 'ON_HOLD';
+
+-- AlterEnum
+ALTER TYPE "public"."SessionRevokeReason" ADD VALUE 'PAYOUTS_FROZEN';
+
+-- AlterTable
+ALTER TABLE "public"."realtors" ADD COLUMN     "payoutHoldUntil" TIMESTAMP(3),
+ADD COLUMN     "payoutsFrozenAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."withdrawal_requests" ADD COLUMN     "heldAt" TIMESTAMP(3),
+ADD COLUMN     "holdReason" TEXT,
+ADD COLUMN     "holdReleasedAt" TIMESTAMP(3),
+ADD COLUMN     "holdReleasedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."payout_account_changes" (
+    "id" TEXT NOT NULL,
+    "realtorId" TEXT NOT NULL,
+    "changedById" TEXT NOT NULL,
+    "previousBankName" TEXT,
+    "previousAccountNumber" TEXT,
+    "previousAccountName" TEXT,
+    "previousCurrency" TEXT,
+    "newBankName" TEXT NOT NULL,
+    "newAccountNumber" TEXT NOT NULL,
+    "newAccountName" TEXT NOT NULL,
+    "newCurrency" TEXT NOT NULL,
+    "notifiedEmail" TEXT,
+    "notifiedPhone" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "holdUntil" TIMESTAMP(3),
+    "freezeTokenHash" TEXT NOT NULL,
+    "frozenAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payout_account_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_account_changes_freezeTokenHash_key" ON "public"."payout_account_changes"("freezeTokenHash");
+
+-- CreateIndex
+CREATE INDEX "payout_account_changes_realtorId_createdAt_idx" ON "public"."payout_account_changes"("realtorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."payout_account_changes" ADD CONSTRAINT "payout_account_changes_realtorId_fkey" FOREIGN KEY ("realtorId") REFERENCES "public"."realtors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
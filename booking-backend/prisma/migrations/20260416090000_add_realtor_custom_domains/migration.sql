@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."CustomDomainStatus" AS ENUM ('PENDING', 'VERIFIED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."realtor_custom_domains" (
+    "id" TEXT NOT NULL,
+    "realtorId" TEXT NOT NULL,
+    "hostname" TEXT NOT NULL,
+    "verificationToken" TEXT NOT NULL,
+    "status" "public"."CustomDomainStatus" NOT NULL DEFAULT 'PENDING',
+    "verifiedAt" TIMESTAMP(3),
+    "lastCheckedAt" TIMESTAMP(3),
+    "lastCheckError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "realtor_custom_domains_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "realtor_custom_domains_realtorId_key" ON "public"."realtor_custom_domains"("realtorId");
+
+-- CreateIndex
+CREATE INDEX "realtor_custom_domains_hostname_status_idx" ON "public"."realtor_custom_domains"("hostname", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."realtor_custom_domains" ADD CONSTRAINT "realtor_custom_domains_realtorId_fkey" FOREIGN KEY ("realtorId") REFERENCES "public"."realtors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
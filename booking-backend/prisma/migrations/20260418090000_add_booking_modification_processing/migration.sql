@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."BookingModificationStatus" ADD VALUE 'PROCESSING';
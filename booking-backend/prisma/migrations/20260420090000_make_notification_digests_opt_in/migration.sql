@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."notification_preferences" ALTER COLUMN "digestFrequency" SET DEFAULT 'never';
+
+-- Digests are opt-in. Rows the preferences page created with the defaults
+-- and never saved move back to immediate email; users who saved their
+-- preferences keep the frequency they chose.
+UPDATE "public"."notification_preferences"
+SET "digestFrequency" = 'never'
+WHERE "digestFrequency" = 'daily'
+  AND "updatedAt" - "createdAt" < INTERVAL '1 second';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."realtors" ADD COLUMN     "flutterwaveTransferRecipientCode" TEXT;
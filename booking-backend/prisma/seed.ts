@@ -1,4 +1,5 @@
 import {
+  AdminRole,
   PrismaClient,
   UserRole,
   RealtorStatus,
@@ -33,6 +34,7 @@ async function main() {
       firstName: "System",
       lastName: "Administrator",
       role: UserRole.ADMIN,
+      adminRole: AdminRole.SUPER_ADMIN,
       isEmailVerified: true,
     },
   });
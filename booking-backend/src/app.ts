@@ -4,8 +4,7 @@ import cors from "cors";
 import helmet from "helmet";
 import compression from "compression";
 import swaggerUi from "swagger-ui-express";
-import cron from "node-cron";
-import { UserRole } from "@prisma/client";
+import { AdminRole, UserRole } from "@prisma/client";
 import { config } from "@/config";
 import { prisma } from "@/config/database";
 import {
@@ -16,14 +15,15 @@ import {
 import { apiLimiter } from "@/middleware/rateLimiter";
 import { swaggerSpec } from "@/config/swagger";
 import { logger } from "@/utils/logger";
+import { isCustomDomainOrigin } from "@/utils/domains";
 import { NotificationService } from "@/services/notificationService";
 import { startUnpaidBookingCron } from "@/jobs/unpaidBookingCron";
 import { initializeScheduledJobs } from "@/jobs/scheduler";
-import { SystemMessageService } from "@/services/systemMessage";
 import {
   getFinanceConfigHealth,
-  loadFinanceConfig,
+  loadFinanceConfigs,
 } from "@/services/financeConfig";
+import { getPaymentGatewayHealth } from "@/services/paymentGateway";
 
 // Import routes
 import authRoutes from "@/routes/auth.routes";
@@ -48,6 +48,18 @@ import favoritesRoutes from "@/routes/favorites.routes";
 import escrowRoutes from "@/routes/escrow.routes";
 import walletRoutes from "@/routes/wallet.routes";
 import waitlistRoutes from "@/routes/waitlist.routes";
+import calendarSyncRoutes from "@/routes/calendarSync.routes";
+import supportRoutes from "@/routes/support.routes";
+import adminSupportRoutes from "@/routes/admin.support.routes";
+import adminReviewRoutes from "@/routes/admin.review.routes";
+import adminLedgerRoutes from "@/routes/admin.ledger.routes";
+import adminReconciliationRoutes from "@/routes/admin.reconciliation.routes";
+import adminTeamRoutes from "@/routes/admin.team.routes";
+import realtorTeamRoutes from "@/routes/realtor.team.routes";
+import realtorDomainRoutes from "@/routes/realtor.domain.routes";
+import analyticsAlertRoutes from "@/routes/analyticsAlert.routes";
+import statementRoutes from "@/routes/statement.routes";
+import currencyRoutes from "@/routes/currency.routes";
 import testRoutes from "@/routes/test.routes";
 
 const app = express();
@@ -96,6 +108,7 @@ const bootstrapAdminIfConfigured = async () => {
         lastName: adminLastName,
         fullName,
         role: UserRole.ADMIN,
+        adminRole: AdminRole.SUPER_ADMIN,
         isEmailVerified: true,
       },
     });
@@ -111,6 +124,7 @@ const bootstrapAdminIfConfigured = async () => {
     data: {
       password: hashedPassword,
       role: UserRole.ADMIN,
+      adminRole: AdminRole.SUPER_ADMIN,
       firstName: adminFirstName,
       lastName: adminLastName,
       fullName,
@@ -126,7 +140,7 @@ app.set("trust proxy", 1);
 
 // Webhook routes (BEFORE express.json to preserve raw payload for signature verification)
 app.use(
-  "/api/webhooks/paystack",
+  ["/api/webhooks/paystack", "/api/webhooks/flutterwave"],
   express.raw({ type: "application/json", limit: "2mb" }),
 );
 app.use("/api/webhooks", express.json({ limit: "2mb" }), webhookRoutes);
@@ -168,10 +182,16 @@ const corsOptions = {
     );
 
     if (isAllowed) {
-      callback(null, true);
-    } else {
-      callback(new Error("Not allowed by CORS"), false);
+      return callback(null, true);
     }
+
+    // Realtor booking websites on their own verified domains (the lookup
+    // never rejects; failures count as not allowed)
+    isCustomDomainOrigin(origin).then((isCustomDomain) =>
+      isCustomDomain
+        ? callback(null, true)
+        : callback(new Error("Not allowed by CORS"), false),
+    );
   },
   credentials: true,
   methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
@@ -229,7 +249,7 @@ app.get("/health", async (req, res) => {
   }
 
   try {
-    await loadFinanceConfig();
+    await loadFinanceConfigs();
     health.services.financeConfig = getFinanceConfigHealth();
     if (health.services.financeConfig.status === "unhealthy") {
       health.status = "unhealthy";
@@ -245,6 +265,14 @@ app.get("/health", async (req, res) => {
     health.status = "unhealthy";
   }
 
+  health.services.paymentGateways = getPaymentGatewayHealth();
+  if (
+    health.services.paymentGateways.status === "degraded" &&
+    health.status === "healthy"
+  ) {
+    health.status = "degraded";
+  }
+
   const memUsage = process.memoryUsage();
   health.system.memory = {
     used: Math.round(memUsage.rss / 1024 / 1024),
@@ -299,7 +327,7 @@ app.get("/health/detailed", async (req, res) => {
   }
 
   try {
-    await loadFinanceConfig();
+    await loadFinanceConfigs();
     const financeConfigHealth = getFinanceConfigHealth();
     checks.push({
       service: "finance-config",
@@ -329,6 +357,23 @@ app.get("/health/detailed", async (req, res) => {
     overallStatus = "unhealthy";
   }
 
+  const paymentGatewayHealth = getPaymentGatewayHealth();
+  checks.push({
+    service: "payment-gateways",
+    status: paymentGatewayHealth.status,
+    message:
+      paymentGatewayHealth.status === "healthy"
+        ? "Payment providers are responding"
+        : "A payment provider is degraded; new payments fail over",
+    details: paymentGatewayHealth,
+  });
+  if (
+    paymentGatewayHealth.status === "degraded" &&
+    overallStatus === "healthy"
+  ) {
+    overallStatus = "degraded";
+  }
+
   const requiredEnvVars = [
     "DATABASE_URL",
     "JWT_SECRET",
@@ -422,6 +467,9 @@ app.use("/api-docs", swaggerUi.serve, swaggerUi.setup(swaggerSpec));
 
 // API routes
 app.use("/api/auth", authRoutes);
+// Before /api/realtors so these paths are not read as a realtor slug
+app.use("/api/realtors/team", realtorTeamRoutes);
+app.use("/api/realtors/custom-domain", realtorDomainRoutes);
 app.use("/api/realtors", realtorRoutes);
 app.use("/api/admin", adminRoutes);
 app.use("/api/properties", propertyRoutes);
@@ -442,6 +490,16 @@ app.use("/api/favorites", favoritesRoutes);
 app.use("/api/escrow", escrowRoutes);
 app.use("/api/wallets", walletRoutes);
 app.use("/api/waitlist", waitlistRoutes);
+app.use("/api/calendar-sync", calendarSyncRoutes);
+app.use("/api/support", supportRoutes);
+app.use("/api/admin/support", adminSupportRoutes);
+app.use("/api/admin/reviews", adminReviewRoutes);
+app.use("/api/admin/ledger", adminLedgerRoutes);
+app.use("/api/admin/reconciliation", adminReconciliationRoutes);
+app.use("/api/admin/team", adminTeamRoutes);
+app.use("/api/analytics-alerts", analyticsAlertRoutes);
+app.use("/api/statements", statementRoutes);
+app.use("/api/currencies", currencyRoutes);
 
 // Development-only test routes
 if (config.NODE_ENV === "development") {
@@ -462,7 +520,7 @@ if (require.main === module) {
   setupGlobalErrorHandlers();
   const bootstrap = async () => {
     await bootstrapAdminIfConfigured();
-    await loadFinanceConfig();
+    await loadFinanceConfigs();
 
     const server = app.listen(PORT, () => {
       logger.info(`Server started on port ${PORT}`);
@@ -476,20 +534,6 @@ if (require.main === module) {
 
     // Start escrow job scheduler
     initializeScheduledJobs();
-
-    // Rehydrate scheduled booking message automation after restart
-    SystemMessageService.rehydrateScheduledMessages().catch((error) => {
-      logger.error("System message rehydration failed", { error });
-    });
-
-    // Rehydrate periodically to cover runtime restarts/timeouts
-    cron.schedule("*/30 * * * *", async () => {
-      try {
-        await SystemMessageService.rehydrateScheduledMessages();
-      } catch (error) {
-        logger.error("System message periodic rehydration failed", { error });
-      }
-    });
   };
 
   bootstrap().catch((error) => {
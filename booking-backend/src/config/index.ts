@@ -25,6 +25,16 @@ export const config = {
   PAYSTACK_PUBLIC_KEY: process.env.PAYSTACK_PUBLIC_KEY!,
   PAYSTACK_WEBHOOK_SECRET: process.env.PAYSTACK_WEBHOOK_SECRET!,
 
+  // Flutterwave (optional second payment provider)
+  FLUTTERWAVE_SECRET_KEY: process.env.FLUTTERWAVE_SECRET_KEY || "",
+  FLUTTERWAVE_PUBLIC_KEY: process.env.FLUTTERWAVE_PUBLIC_KEY || "",
+  FLUTTERWAVE_WEBHOOK_HASH: process.env.FLUTTERWAVE_WEBHOOK_HASH || "",
+
+  // Provider used for new payments unless the booking asks for another
+  DEFAULT_PAYMENT_PROVIDER: (
+    process.env.DEFAULT_PAYMENT_PROVIDER || "PAYSTACK"
+  ).toUpperCase(),
+
   // Cloudinary
   CLOUDINARY_CLOUD_NAME: process.env.CLOUDINARY_CLOUD_NAME!,
   CLOUDINARY_API_KEY: process.env.CLOUDINARY_API_KEY!,
@@ -65,9 +75,59 @@ export const config = {
   EMAIL_MAX_RETRIES: parseInt(process.env.EMAIL_MAX_RETRIES || "5", 10),
   RESEND_API_KEY: process.env.RESEND_API_KEY, // Optional - will fallback to SMTP if not provided
 
+  // SMS. "local" keeps messages in memory (development and tests).
+  SMS_PROVIDER: process.env.SMS_PROVIDER || "local",
+  TERMII_API_KEY: process.env.TERMII_API_KEY,
+  TERMII_SENDER_ID: process.env.TERMII_SENDER_ID || "Stayza",
+  TERMII_BASE_URL: process.env.TERMII_BASE_URL || "https://api.ng.termii.com",
+
+  // Custom domains. Realtors point a CNAME at CUSTOM_DOMAIN_TARGET and prove
+  // ownership with a TXT record. DNS_RESOLVER "local" answers TXT lookups
+  // from DNS_LOCAL_TXT_RECORDS (JSON, name -> values); DNS_RESOLVER_SERVERS
+  // (comma separated, e.g. 127.0.0.1:5353) points system lookups elsewhere.
+  CUSTOM_DOMAIN_TARGET: process.env.CUSTOM_DOMAIN_TARGET || "sites.stayza.pro",
+  DNS_RESOLVER: process.env.DNS_RESOLVER || "system",
+  DNS_RESOLVER_SERVERS: process.env.DNS_RESOLVER_SERVERS,
+  DNS_LOCAL_TXT_RECORDS: process.env.DNS_LOCAL_TXT_RECORDS,
+
+  // Web Push. Keys are base64url encoded (see generateVapidKeys); push is
+  // disabled until both are set.
+  VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY,
+  VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
+  VAPID_SUBJECT: process.env.VAPID_SUBJECT || "mailto:support@stayza.pro",
+
+  NOTIFICATION_DELIVERY_MAX_ATTEMPTS: parseInt(
+    process.env.NOTIFICATION_DELIVERY_MAX_ATTEMPTS || "5",
+    10,
+  ),
+
   // Frontend
   FRONTEND_URL: process.env.FRONTEND_URL || "http://localhost:3000",
 
+  // Public base URL of this API (used for links handed to third parties, e.g. iCal feeds)
+  API_PUBLIC_URL: process.env.API_PUBLIC_URL || "http://localhost:5050",
+
+  // Two-factor auth. The key encrypts stored TOTP secrets; changing it
+  // invalidates every enrolled authenticator.
+  TWO_FACTOR_ENCRYPTION_KEY:
+    process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET!,
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || "Stayza",
+  TWO_FACTOR_STEP_UP_MINUTES: parseInt(
+    process.env.TWO_FACTOR_STEP_UP_MINUTES || "10",
+    10,
+  ),
+
+  // iCal calendar sync
+  ICAL_FEED_SECRET: process.env.ICAL_FEED_SECRET || process.env.JWT_SECRET!,
+  ICAL_SYNC_INTERVAL_MINUTES: parseInt(
+    process.env.ICAL_SYNC_INTERVAL_MINUTES || "30",
+    10,
+  ),
+  ICAL_FETCH_TIMEOUT_MS: parseInt(
+    process.env.ICAL_FETCH_TIMEOUT_MS || "15000",
+    10,
+  ),
+
   // Domain Configuration
   MAIN_DOMAIN: process.env.MAIN_DOMAIN || "stayza.pro",
   DEV_DOMAIN: process.env.DEV_DOMAIN || "localhost:3000",
@@ -99,6 +159,10 @@ export const config = {
     process.env.ESCROW_RELEASE_OFFSET_HOURS || "0",
     10,
   ), // If >0, delay payout release this many hours after check-in
+  PAYOUT_ACCOUNT_CHANGE_HOLD_HOURS: parseInt(
+    process.env.PAYOUT_ACCOUNT_CHANGE_HOLD_HOURS || "48",
+    10,
+  ), // Withdrawals are held this long after a realtor changes their payout account
   FINANCIAL_ENGINE_V2_STRICT: toBoolean(
     process.env.FINANCIAL_ENGINE_V2_STRICT,
     (process.env.NODE_ENV || "development") === "production",
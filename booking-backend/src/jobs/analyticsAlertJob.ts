@@ -0,0 +1,34 @@
+import { logger } from "@/utils/logger";
+import { evaluateAnalyticsAlerts } from "@/services/analyticsAlerts";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Evaluate realtors' analytics alert rules, opening, escalating and
+ * resolving alerts. Runs every hour.
+ */
+export const runAnalyticsAlertJob = async (): Promise<void> => {
+  const lock = new JobLock("analytics_alerts");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Analytics Alert Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const { evaluated, triggered, escalated, resolved } =
+      await evaluateAnalyticsAlerts();
+
+    logger.info(
+      `[Analytics Alert Job] ${evaluated} rule(s) evaluated: ${triggered} triggered, ${escalated} escalated, ${resolved} resolved`,
+    );
+  } catch (error) {
+    logger.error("[Analytics Alert Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
@@ -1,6 +1,7 @@
 import { prisma } from "@/config/database";
 import { logger } from "@/utils/logger";
 import escrowService from "@/services/escrowService";
+import { formatMoney } from "@/services/currency";
 
 /**
  * Deposit Refund Job
@@ -29,6 +30,7 @@ export const processDepositRefunds = async (): Promise<void> => {
         id: true,
         guestId: true,
         securityDeposit: true,
+        currency: true,
         payment: true,
         property: {
           select: {
@@ -92,10 +94,9 @@ export const processDepositRefunds = async (): Promise<void> => {
  */
 const processBookingDepositRefund = async (booking: any): Promise<void> => {
   const { payment, securityDeposit } = booking;
+  const depositAmount = formatMoney(Number(securityDeposit), booking.currency);
 
-  logger.info(
-    `Refunding deposit for booking ${booking.id}: ₦${securityDeposit}`,
-  );
+  logger.info(`Refunding deposit for booking ${booking.id}: ${depositAmount}`);
 
   try {
     // ✅ USE ESCROW SERVICE FOR PROPER REFUND HANDLING
@@ -128,7 +129,7 @@ const processBookingDepositRefund = async (booking: any): Promise<void> => {
           userId: booking.guestId,
           type: "PAYMENT_COMPLETED",
           title: "Security Deposit Refunded",
-          message: `Your security deposit of ₦${securityDeposit} has been refunded.`,
+          message: `Your security deposit of ${depositAmount} has been refunded.`,
           bookingId: booking.id,
           priority: "high",
           isRead: false,
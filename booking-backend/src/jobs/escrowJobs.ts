@@ -2,6 +2,7 @@ import { logger } from "@/utils/logger";
 import escrowService from "../services/escrowService";
 import { NotificationService } from "../services/notificationService";
 import { JobLock } from "../utils/jobLock";
+import { formatMoney } from "../services/currency";
 
 /**
  * Job to automatically release room fee split after 1-hour user dispute window
@@ -56,7 +57,13 @@ export const processEscrowReleases = async () => {
         );
 
         logger.info(
-          `[Escrow Release Job] Released room fee for booking ${booking.id}: ₦${result.realtorAmount} to realtor, ₦${result.platformAmount} to platform`
+          `[Escrow Release Job] Released room fee for booking ${booking.id}: ${formatMoney(
+            result.realtorAmount,
+            booking.payment.currency
+          )} to realtor, ${formatMoney(
+            result.platformAmount,
+            booking.payment.currency
+          )} to platform`
         );
 
         // Send notifications
@@ -68,8 +75,9 @@ export const processEscrowReleases = async () => {
             userId: booking.property.realtor.userId,
             type: "PAYOUT_COMPLETED",
             title: "Room Fee Released",
-            message: `Room fee of ₦${result.realtorAmount.toFixed(
-              2
+            message: `Room fee of ${formatMoney(
+              result.realtorAmount,
+              booking.payment.currency
             )} has been released for booking at ${booking.property.title}`,
             bookingId: booking.id,
             propertyId: booking.propertyId,
@@ -159,7 +167,10 @@ export const processDepositReturns = async () => {
 
         if (result.depositReturned > 0) {
           logger.info(
-            `[Deposit Return Job] Returned deposit for booking ${booking.id}: ₦${result.depositReturned} to customer`
+            `[Deposit Return Job] Returned deposit for booking ${booking.id}: ${formatMoney(
+              result.depositReturned,
+              booking.payment.currency
+            )} to customer`
           );
 
           // Send notification to guest
@@ -170,8 +181,9 @@ export const processDepositReturns = async () => {
               userId: booking.guestId,
               type: "SYSTEM_ALERT",
               title: "Security Deposit Returned",
-              message: `Your security deposit of ₦${result.depositReturned.toFixed(
-                2
+              message: `Your security deposit of ${formatMoney(
+                result.depositReturned,
+                booking.payment.currency
               )} has been returned. The realtor's dispute window has closed.`,
               bookingId: booking.id,
               propertyId: booking.propertyId,
@@ -0,0 +1,72 @@
+import { logger } from "@/utils/logger";
+import { prisma } from "@/config/database";
+import { config } from "@/config";
+import { syncExternalCalendarSource } from "@/services/icalSync";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Pull every active external iCal feed that has not been attempted within
+ * ICAL_SYNC_INTERVAL_MINUTES. Runs every 15 minutes.
+ */
+export const runICalSyncJob = async (): Promise<void> => {
+  const lock = new JobLock("ical_sync");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info("[iCal Sync Job] Already running on another instance, skipping");
+      return;
+    }
+
+    const dueBefore = new Date(
+      Date.now() - config.ICAL_SYNC_INTERVAL_MINUTES * 60 * 1000,
+    );
+
+    const dueSources = await prisma.externalCalendarSource.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { lastSyncAttemptAt: null },
+          { lastSyncAttemptAt: { lt: dueBefore } },
+        ],
+      },
+      select: { id: true },
+      orderBy: { lastSyncAttemptAt: { sort: "asc", nulls: "first" } },
+    });
+
+    if (dueSources.length === 0) {
+      logger.info("[iCal Sync Job] No calendar sources due for sync");
+      return;
+    }
+
+    let failed = 0;
+    let conflicted = 0;
+
+    for (const source of dueSources) {
+      try {
+        const result = await syncExternalCalendarSource(source.id);
+        if (result.status === "FAILED") {
+          failed += 1;
+        } else if (result.status === "CONFLICT") {
+          conflicted += 1;
+        }
+      } catch (error) {
+        failed += 1;
+        logger.error(
+          `[iCal Sync Job] Failed to sync calendar source ${source.id}:`,
+          error,
+        );
+      }
+    }
+
+    logger.info(
+      `[iCal Sync Job] Synced ${dueSources.length} source(s): ${failed} failed, ${conflicted} with conflicts`,
+    );
+  } catch (error) {
+    logger.error("[iCal Sync Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
@@ -0,0 +1,57 @@
+import { logger } from "@/utils/logger";
+import { checkLedgerInvariants } from "@/services/ledgerService";
+import { createAdminNotification } from "@/services/notificationService";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Check that the journal balances and agrees with wallet and escrow
+ * balances, alerting admins when it does not. Runs daily.
+ */
+export const runLedgerInvariantJob = async (): Promise<void> => {
+  const lock = new JobLock("ledger_invariants");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Ledger Invariant Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const report = await checkLedgerInvariants();
+
+    if (report.healthy) {
+      logger.info(
+        `[Ledger Invariant Job] Journal balanced at ${report.totals.debits.toFixed(2)}; wallets and escrows agree`,
+      );
+      return;
+    }
+
+    logger.error("[Ledger Invariant Job] Ledger invariants violated", {
+      totals: report.totals,
+      unbalancedEntries: report.unbalancedEntries.slice(0, 20),
+      discrepancies: report.discrepancies.slice(0, 20),
+    });
+
+    await createAdminNotification({
+      type: "SYSTEM_ALERT",
+      title: "Ledger Out of Balance",
+      message: `${report.unbalancedEntries.length} unbalanced journal entr${
+        report.unbalancedEntries.length === 1 ? "y" : "ies"
+      } and ${report.discrepancies.length} balance mismatch(es) found.`,
+      data: {
+        totals: report.totals,
+        unbalancedEntries: report.unbalancedEntries.slice(0, 20),
+        discrepancies: report.discrepancies.slice(0, 20),
+      },
+      priority: "high",
+    });
+  } catch (error) {
+    logger.error("[Ledger Invariant Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
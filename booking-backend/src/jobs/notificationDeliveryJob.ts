@@ -0,0 +1,38 @@
+import { logger } from "@/utils/logger";
+import { processNotificationDeliveries } from "@/services/notificationDelivery";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Retry push and SMS notification deliveries whose backoff has elapsed.
+ * Runs every 2 minutes.
+ */
+export const runNotificationDeliveryJob = async (): Promise<void> => {
+  const lock = new JobLock("notification_deliveries");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Notification Delivery Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const { sent, skipped, retried, failed } =
+      await processNotificationDeliveries({ limit: 200 });
+
+    if (sent + skipped + retried + failed === 0) {
+      return;
+    }
+
+    logger.info(
+      `[Notification Delivery Job] ${sent} sent, ${skipped} skipped, ${retried} retrying, ${failed} failed`,
+    );
+  } catch (error) {
+    logger.error("[Notification Delivery Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
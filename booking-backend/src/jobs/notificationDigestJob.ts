@@ -0,0 +1,37 @@
+import { logger } from "@/utils/logger";
+import { processNotificationDigests } from "@/services/notificationDigest";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Send notification digests and emails held over quiet hours.
+ * Runs every 5 minutes.
+ */
+export const runNotificationDigestJob = async (): Promise<void> => {
+  const lock = new JobLock("notification_digests");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Notification Digest Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const { digests, emails, dropped } = await processNotificationDigests();
+
+    if (digests + emails + dropped === 0) {
+      return;
+    }
+
+    logger.info(
+      `[Notification Digest Job] ${digests} digests, ${emails} released emails, ${dropped} dropped as read`,
+    );
+  } catch (error) {
+    logger.error("[Notification Digest Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
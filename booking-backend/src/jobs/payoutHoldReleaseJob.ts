@@ -0,0 +1,33 @@
+import { logger } from "@/utils/logger";
+import { releaseLapsedWithdrawalHolds } from "@/services/payoutAccountChanges";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Send withdrawals held after a payout account change once the cooling-off
+ * period is over. Withdrawals held by a freeze wait for an admin.
+ */
+export const runPayoutHoldReleaseJob = async (): Promise<void> => {
+  const lock = new JobLock("payout_hold_release");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Payout Hold Release Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const result = await releaseLapsedWithdrawalHolds(new Date());
+
+    logger.info(
+      `[Payout Hold Release Job] ${result.checked} held withdrawal(s) checked: ${result.released} released, ${result.failed} failed to process`,
+    );
+  } catch (error) {
+    logger.error("[Payout Hold Release Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
@@ -0,0 +1,34 @@
+import { logger } from "@/utils/logger";
+import { runDuePayoutSchedules } from "@/services/payoutSchedules";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Create withdrawals for realtors' due payout schedules. Schedules held
+ * back by a suspension, a payout account hold or an open deposit dispute
+ * stay due and are picked up by the first run after the hold lifts.
+ */
+export const runPayoutScheduleJob = async (): Promise<void> => {
+  const lock = new JobLock("realtor_payout_schedules");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Payout Schedule Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const result = await runDuePayoutSchedules(new Date());
+
+    logger.info(
+      `[Payout Schedule Job] ${result.checked} schedule(s) checked: ${result.created} payout(s) created, ${result.paused} paused, ${result.skipped} skipped, ${result.failed} failed`,
+    );
+  } catch (error) {
+    logger.error("[Payout Schedule Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
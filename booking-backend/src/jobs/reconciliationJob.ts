@@ -0,0 +1,57 @@
+import { logger } from "@/utils/logger";
+import { runReconciliation } from "@/services/reconciliation";
+import { createAdminNotification } from "@/services/notificationService";
+import { JobLock } from "@/utils/jobLock";
+
+// Overlap consecutive runs so late settlements are not missed
+const LOOKBACK_HOURS = 48;
+
+/**
+ * Reconcile Paystack transactions and transfers from the last two days
+ * against local records, alerting admins when mismatches are found.
+ * Runs daily.
+ */
+export const runReconciliationJob = async (): Promise<void> => {
+  const lock = new JobLock("paystack_reconciliation");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Reconciliation Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const to = new Date();
+    const from = new Date(to.getTime() - LOOKBACK_HOURS * 60 * 60 * 1000);
+    const run = await runReconciliation({ from, to });
+
+    logger.info(
+      `[Reconciliation Job] Checked ${run.transactionCount} transactions and ${run.transferCount} transfers; ${run.mismatchCount} mismatch(es)`,
+    );
+
+    if (run.mismatchCount === 0) {
+      return;
+    }
+
+    await createAdminNotification({
+      type: "SYSTEM_ALERT",
+      title: "Paystack Reconciliation Mismatches",
+      message: `${run.mismatchCount} mismatch(es) between Paystack and local records need review.`,
+      data: {
+        runId: run.id,
+        periodStart: run.periodStart,
+        periodEnd: run.periodEnd,
+        mismatchCount: run.mismatchCount,
+      },
+      priority: "high",
+    });
+  } catch (error) {
+    logger.error("[Reconciliation Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
@@ -0,0 +1,35 @@
+import { logger } from "@/utils/logger";
+import { revealExpiredReviewWindows } from "@/services/guestReviews";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Publish double-blind reviews whose 14-day review window has closed.
+ * Runs every hour.
+ */
+export const runReviewRevealJob = async (): Promise<void> => {
+  const lock = new JobLock("review_reveal");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Review Reveal Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const revealed = await revealExpiredReviewWindows();
+
+    if (revealed > 0) {
+      logger.info(
+        `[Review Reveal Job] Revealed reviews for ${revealed} bookings`,
+      );
+    }
+  } catch (error) {
+    logger.error("[Review Reveal Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
@@ -0,0 +1,39 @@
+import { logger } from "@/utils/logger";
+import { SystemMessageService } from "@/services/systemMessage";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Deliver queued booking system messages (check-in instructions, checkout
+ * reminders, ...) that have reached their due time. Runs every 5 minutes.
+ */
+export const runScheduledMessageJob = async (): Promise<void> => {
+  const lock = new JobLock("scheduled_messages");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Scheduled Message Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const { sent, rescheduled, cancelled, failed } =
+      await SystemMessageService.processDueMessages({ limit: 200 });
+
+    if (sent + rescheduled + cancelled + failed === 0) {
+      logger.info("[Scheduled Message Job] No messages due");
+      return;
+    }
+
+    logger.info(
+      `[Scheduled Message Job] ${sent} sent, ${rescheduled} rescheduled, ${cancelled} cancelled, ${failed} failed`,
+    );
+  } catch (error) {
+    logger.error("[Scheduled Message Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
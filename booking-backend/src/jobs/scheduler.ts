@@ -6,6 +6,18 @@ import { startEmailWorker } from "@/services/emailWorker";
 import { runDisputeSlaJob } from "./disputeSlaJob";
 import { processCheckinFallbacks } from "./checkinFallbackJob";
 import { runEvidenceReminderJob } from "./evidenceReminderJob";
+import { runICalSyncJob } from "./icalSyncJob";
+import { runSupportSlaJob } from "./supportSlaJob";
+import { runScheduledMessageJob } from "./scheduledMessageJob";
+import { runNotificationDeliveryJob } from "./notificationDeliveryJob";
+import { runNotificationDigestJob } from "./notificationDigestJob";
+import { runReviewRevealJob } from "./reviewRevealJob";
+import { runAnalyticsAlertJob } from "./analyticsAlertJob";
+import { runLedgerInvariantJob } from "./ledgerInvariantJob";
+import { runReconciliationJob } from "./reconciliationJob";
+import { runStatementJob } from "./statementJob";
+import { runPayoutScheduleJob } from "./payoutScheduleJob";
+import { runPayoutHoldReleaseJob } from "./payoutHoldReleaseJob";
 
 /**
  * Initialize all scheduled jobs
@@ -36,6 +48,34 @@ export const initializeScheduledJobs = () => {
     }
   });
 
+  // Deliver queued booking system messages every 5 minutes
+  cron.schedule("*/5 * * * *", async () => {
+    logger.info("[Job Scheduler] Running scheduled message job...");
+    try {
+      await runScheduledMessageJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Scheduled message job failed:", error);
+    }
+  });
+
+  // Retry failed push/SMS notification deliveries every 2 minutes
+  cron.schedule("*/2 * * * *", async () => {
+    try {
+      await runNotificationDeliveryJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Notification delivery job failed:", error);
+    }
+  });
+
+  // Send notification digests and quiet-hour emails every 5 minutes
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      await runNotificationDigestJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Notification digest job failed:", error);
+    }
+  });
+
   // Run evidence reminder emails every 10 minutes
   cron.schedule("*/10 * * * *", async () => {
     logger.info("[Job Scheduler] Running evidence reminder job...");
@@ -46,10 +86,49 @@ export const initializeScheduledJobs = () => {
     }
   });
 
+  // Pull external iCal feeds every 15 minutes (each source is re-synced per
+  // ICAL_SYNC_INTERVAL_MINUTES)
+  cron.schedule("*/15 * * * *", async () => {
+    logger.info("[Job Scheduler] Running iCal sync job...");
+    try {
+      await runICalSyncJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] iCal sync job failed:", error);
+    }
+  });
+
+  // Support ticket SLA timers and auto-close every 15 minutes
+  cron.schedule("*/15 * * * *", async () => {
+    logger.info("[Job Scheduler] Running support SLA job...");
+    try {
+      await runSupportSlaJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Support SLA job failed:", error);
+    }
+  });
+
   // Start withdrawal retry job
   startWithdrawalRetryJob();
   startEmailWorker();
 
+  // Send withdrawals whose payout account cooling-off has ended
+  cron.schedule("10 * * * *", async () => {
+    try {
+      await runPayoutHoldReleaseJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Payout hold release job failed:", error);
+    }
+  });
+
+  // Create withdrawals for realtors' automatic payout schedules
+  cron.schedule("20 * * * *", async () => {
+    try {
+      await runPayoutScheduleJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Payout schedule job failed:", error);
+    }
+  });
+
   // Dispute SLA enforcement: auto-resolve escalated disputes past 48h admin deadline
   cron.schedule("0 * * * *", async () => {
     logger.info("[Job Scheduler] Running dispute SLA check...");
@@ -60,15 +139,82 @@ export const initializeScheduledJobs = () => {
     }
   });
 
+  // Publish double-blind reviews once their review window closes
+  cron.schedule("30 * * * *", async () => {
+    try {
+      await runReviewRevealJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Review reveal job failed:", error);
+    }
+  });
+
+  // Evaluate realtor analytics alert rules
+  cron.schedule("45 * * * *", async () => {
+    try {
+      await runAnalyticsAlertJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Analytics alert job failed:", error);
+    }
+  });
+
+  // Reconcile Paystack transactions and transfers with local records
+  cron.schedule("30 2 * * *", async () => {
+    try {
+      await runReconciliationJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Reconciliation job failed:", error);
+    }
+  });
+
+  // Verify the double-entry journal against wallets and escrows
+  cron.schedule("0 3 * * *", async () => {
+    try {
+      await runLedgerInvariantJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Ledger invariant job failed:", error);
+    }
+  });
+
+  // Archive and email realtor statements once a month has closed
+  cron.schedule("0 4 1-3 * *", async () => {
+    try {
+      await runStatementJob();
+    } catch (error) {
+      logger.error("[Job Scheduler] Statement job failed:", error);
+    }
+  });
+
   logger.info("[Job Scheduler] Scheduled jobs initialized successfully");
   logger.info("[Job Scheduler] - Escrow release jobs: Every 5 minutes");
   logger.info(
     "[Job Scheduler] - Booking lifecycle automation: Every 5 minutes",
   );
+  logger.info("[Job Scheduler] - Booking system messages: Every 5 minutes");
+  logger.info(
+    "[Job Scheduler] - Push/SMS notification retries: Every 2 minutes",
+  );
+  logger.info(
+    "[Job Scheduler] - Notification digests and quiet hours: Every 5 minutes",
+  );
   logger.info("[Job Scheduler] - Evidence reminder emails: Every 10 minutes");
+  logger.info("[Job Scheduler] - External iCal sync: Every 15 minutes");
+  logger.info("[Job Scheduler] - Support ticket SLA check: Every 15 minutes");
+  logger.info(
+    "[Job Scheduler] - Payout account hold release: Every hour at :10",
+  );
   logger.info("[Job Scheduler] - Withdrawal retry jobs: Every hour at :15");
+  logger.info("[Job Scheduler] - Scheduled realtor payouts: Every hour at :20");
   logger.info("[Job Scheduler] - Email worker: queued delivery with retries");
   logger.info("[Job Scheduler] - Dispute SLA check: Every hour at :00");
+  logger.info(
+    "[Job Scheduler] - Double-blind review reveal: Every hour at :30",
+  );
+  logger.info("[Job Scheduler] - Analytics alert rules: Every hour at :45");
+  logger.info("[Job Scheduler] - Paystack reconciliation: Daily at 02:30");
+  logger.info("[Job Scheduler] - Ledger invariant check: Daily at 03:00");
+  logger.info(
+    "[Job Scheduler] - Monthly realtor statements: 1st-3rd of the month at 04:00",
+  );
 };
 
 export default {
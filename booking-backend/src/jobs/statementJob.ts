@@ -0,0 +1,37 @@
+import { logger } from "@/utils/logger";
+import { generateMonthlyStatements } from "@/services/statements";
+import { previousMonthPeriod } from "@/services/statementRules";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Archive last month's statement for every realtor with wallet activity
+ * and email it to them. Runs on the first days of each month; statements
+ * already generated and emailed are skipped, so later runs only retry
+ * failures.
+ */
+export const runStatementJob = async (): Promise<void> => {
+  const lock = new JobLock("realtor_monthly_statements");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info(
+        "[Statement Job] Already running on another instance, skipping",
+      );
+      return;
+    }
+
+    const period = previousMonthPeriod(new Date());
+    const result = await generateMonthlyStatements(period);
+
+    logger.info(
+      `[Statement Job] ${period.label}: ${result.generated} generated, ${result.emailed} emailed, ${result.failed} failed for ${result.realtors} realtor(s)`,
+    );
+  } catch (error) {
+    logger.error("[Statement Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
@@ -0,0 +1,31 @@
+import { logger } from "@/utils/logger";
+import { enforceSupportSlas } from "@/services/supportTickets";
+import { JobLock } from "@/utils/jobLock";
+
+/**
+ * Flag support tickets that missed their first-response or resolution
+ * deadline and auto-close quiet resolved tickets. Runs every 15 minutes.
+ */
+export const runSupportSlaJob = async (): Promise<void> => {
+  const lock = new JobLock("support_sla");
+
+  try {
+    await JobLock.cleanupExpiredLocks();
+
+    const acquired = await lock.acquire();
+    if (!acquired) {
+      logger.info("[Support SLA Job] Already running on another instance, skipping");
+      return;
+    }
+
+    const { breached, autoClosed } = await enforceSupportSlas();
+
+    logger.info(
+      `[Support SLA Job] ${breached} ticket(s) newly past SLA, ${autoClosed} resolved ticket(s) auto-closed`,
+    );
+  } catch (error) {
+    logger.error("[Support SLA Job] Job failed:", error);
+  } finally {
+    await lock.release();
+  }
+};
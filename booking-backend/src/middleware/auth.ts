@@ -4,6 +4,20 @@ import { UserRole } from "@prisma/client";
 import { prisma } from "@/config/database";
 import { config } from "@/config";
 import { AuthenticatedRequest, JWTPayload } from "@/types";
+import { isSessionActive } from "@/services/authSessions";
+import { hasRecentStepUp, isTwoFactorRequired } from "@/services/twoFactor";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  AdminPermission,
+  getAdminPermissions,
+  hasAdminPermission,
+} from "@/services/adminPermissionRules";
+import {
+  ADMIN_PERMISSION_FOR_REALTOR_ACTION,
+  RealtorTeamPermission,
+  hasRealtorTeamPermission,
+} from "@/services/realtorTeamRules";
+import { resolveRealtorAccess } from "@/services/realtorTeam";
 
 // Re-export types for convenience
 export { AuthenticatedRequest };
@@ -38,8 +52,10 @@ export const authenticate = async (
         lastName: true,
         phone: true,
         role: true,
+        adminRole: true,
         avatar: true,
         isEmailVerified: true,
+        twoFactorEnabled: true,
         referralSource: true,
         createdAt: true,
         updatedAt: true,
@@ -59,7 +75,7 @@ export const authenticate = async (
       },
     });
 
-    if (!user) {
+    if (!user || !(await isSessionActive(decoded.sid, user.id))) {
       res.status(401).json({
         success: false,
         message: "Your session is no longer valid. Please sign in again.",
@@ -68,6 +84,7 @@ export const authenticate = async (
     }
 
     req.user = user as any;
+    req.sessionId = decoded.sid;
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -124,6 +141,7 @@ export const optionalAuthenticate = async (
           lastName: true,
           phone: true,
           role: true,
+          adminRole: true,
           avatar: true,
           isEmailVerified: true,
           referralSource: true,
@@ -145,8 +163,9 @@ export const optionalAuthenticate = async (
         },
       });
 
-      if (user) {
+      if (user && (await isSessionActive(decoded.sid, user.id))) {
         req.user = user as any;
+        req.sessionId = decoded.sid;
       }
     } catch (error) {
       // Token invalid or expired - continue without user
@@ -184,6 +203,145 @@ export const authorize = (...roles: UserRole[]) => {
   };
 };
 
+const denyAdminAccess = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  permission: AdminPermission | null,
+): Promise<void> => {
+  const user = req.user!;
+  await auditLogger.log("PERMISSION_DENIED", "PERMISSION", {
+    entityId: permission || "admin",
+    userId: user.id,
+    adminId: user.role === UserRole.ADMIN ? user.id : null,
+    details: {
+      permission,
+      role: user.role,
+      adminRole: user.adminRole ?? null,
+      method: req.method,
+      path: req.originalUrl,
+    },
+    req,
+  });
+
+  res.status(403).json({
+    success: false,
+    message: permission
+      ? "You do not have permission to perform this action"
+      : "Admin access required",
+    statusCode: "PERMISSION_DENIED",
+    permission,
+  });
+};
+
+/**
+ * Gate for admin routers: the user must be an admin with an admin role.
+ * Refusals are written to the audit log. Use requirePermission on each
+ * route for what the admin may actually do.
+ * Should be used after authenticate middleware
+ */
+export const requireAdmin = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      message: "Authentication required",
+    });
+    return;
+  }
+
+  if (getAdminPermissions(req.user).length === 0) {
+    await denyAdminAccess(req, res, null);
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Allow the request only if the admin's role grants the permission. Pass a
+ * function to pick the permission from the request, e.g. by setting key.
+ * Should be used after authenticate middleware
+ */
+export const requirePermission = (
+  permission:
+    AdminPermission | ((req: AuthenticatedRequest) => AdminPermission),
+) => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+      return;
+    }
+
+    const required =
+      typeof permission === "function" ? permission(req) : permission;
+    if (!hasAdminPermission(req.user, required)) {
+      await denyAdminAccess(req, res, required);
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Sensitive actions (payout details, withdrawals, finance settings) need a
+ * recent authenticator code on top of the session. Accounts without 2FA pass
+ * through unless their role makes it mandatory.
+ * Should be used after authenticate middleware
+ */
+export const requireStepUp = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+      return;
+    }
+
+    if (!req.user.twoFactorEnabled) {
+      if (isTwoFactorRequired(req.user.role)) {
+        res.status(403).json({
+          success: false,
+          message:
+            "Set up two-factor authentication before making this change",
+          statusCode: "TWO_FACTOR_SETUP_REQUIRED",
+        });
+        return;
+      }
+      next();
+      return;
+    }
+
+    if (!(await hasRecentStepUp(req.sessionId))) {
+      res.status(403).json({
+        success: false,
+        message: "Enter a code from your authenticator app to continue",
+        statusCode: "STEP_UP_REQUIRED",
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Helper function for single role requirements
 export const requireRole = (role: UserRole) => {
   return authorize(role);
@@ -213,6 +371,7 @@ export const optionalAuth = async (
         lastName: true,
         phone: true,
         role: true,
+        adminRole: true,
         avatar: true,
         isEmailVerified: true,
         referralSource: true,
@@ -234,8 +393,9 @@ export const optionalAuth = async (
       },
     });
 
-    if (user) {
+    if (user && (await isSessionActive(decoded.sid, user.id))) {
       req.user = user as any;
+      req.sessionId = decoded.sid;
     }
   } catch (error) {
     // Ignore authentication errors in optional auth
@@ -270,19 +430,25 @@ export const requireApprovedRealtor = async (
       return;
     }
 
+    // Team members work on the realtor account they belong to
+    const access =
+      req.realtorAccess ?? (await resolveRealtorAccess(req.user.id));
+
     // Get realtor profile with status and CAC status
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
-      select: {
-        id: true,
-        status: true,
-        businessName: true,
-        cacStatus: true,
-        suspendedAt: true,
-        suspensionExpiresAt: true,
-        canAppeal: true,
-      },
-    });
+    const realtor = access
+      ? await prisma.realtor.findUnique({
+          where: { id: access.realtorId },
+          select: {
+            id: true,
+            status: true,
+            businessName: true,
+            cacStatus: true,
+            suspendedAt: true,
+            suspensionExpiresAt: true,
+            canAppeal: true,
+          },
+        })
+      : null;
 
     if (!realtor) {
       res.status(404).json({
@@ -373,6 +539,7 @@ export const requireApprovedRealtor = async (
 
     // Add realtor info to request for use in controllers
     req.realtor = realtor;
+    req.realtorAccess = access!;
     next();
   } catch (error) {
     res.status(500).json({
@@ -408,20 +575,25 @@ export const requireRealtorDashboardAccess = async (
       return;
     }
 
+    const access =
+      req.realtorAccess ?? (await resolveRealtorAccess(req.user.id));
+
     // Get realtor profile with minimal checks for dashboard access
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
-      select: {
-        id: true,
-        status: true,
-        businessName: true,
-        cacStatus: true,
-        suspendedAt: true,
-        suspensionExpiresAt: true,
-        canAppeal: true,
-        cacRejectionReason: true,
-      },
-    });
+    const realtor = access
+      ? await prisma.realtor.findUnique({
+          where: { id: access.realtorId },
+          select: {
+            id: true,
+            status: true,
+            businessName: true,
+            cacStatus: true,
+            suspendedAt: true,
+            suspensionExpiresAt: true,
+            canAppeal: true,
+            cacRejectionReason: true,
+          },
+        })
+      : null;
 
     if (!realtor) {
       res.status(404).json({
@@ -459,6 +631,7 @@ export const requireRealtorDashboardAccess = async (
         realtor.cacStatus === "APPROVED" &&
         !realtor.suspendedAt,
     } as any;
+    req.realtorAccess = access!;
 
     next();
   } catch (error) {
@@ -469,3 +642,78 @@ export const requireRealtorDashboardAccess = async (
     });
   }
 };
+
+/**
+ * Allow the request only if the caller owns the realtor account or is on its
+ * team with a role that grants the permission. Admins need the matching
+ * admin permission on shared realtor/admin routes. Refusals are written to
+ * the audit log.
+ * Should be used after authenticate middleware
+ */
+export const requireRealtorPermission = (permission: RealtorTeamPermission) => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: "Authentication required",
+      });
+      return;
+    }
+
+    if (req.user.role === UserRole.ADMIN) {
+      const required = ADMIN_PERMISSION_FOR_REALTOR_ACTION[permission];
+      if (!hasAdminPermission(req.user, required)) {
+        await denyAdminAccess(req, res, required);
+        return;
+      }
+      next();
+      return;
+    }
+
+    try {
+      const access =
+        req.realtorAccess ?? (await resolveRealtorAccess(req.user.id));
+      if (!access) {
+        res.status(404).json({
+          success: false,
+          message: "Realtor profile not found",
+        });
+        return;
+      }
+      req.realtorAccess = access;
+
+      if (!hasRealtorTeamPermission(access, permission)) {
+        await auditLogger.log("PERMISSION_DENIED", "PERMISSION", {
+          entityId: permission,
+          userId: req.user.id,
+          details: {
+            permission,
+            method: req.method,
+            path: req.originalUrl,
+          },
+          req,
+        });
+
+        res.status(403).json({
+          success: false,
+          message: "Your team role does not allow this action",
+          statusCode: "PERMISSION_DENIED",
+          permission,
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        message:
+          "Unable to verify your account status right now. Please try again.",
+      });
+    }
+  };
+};
@@ -2,8 +2,11 @@ import express, { Response } from "express";
 import { prisma } from "@/config/database";
 import { AuthenticatedRequest } from "@/types";
 import { asyncHandler } from "@/middleware/errorHandler";
+import { requirePermission } from "@/middleware/auth";
 import { PaymentStatus, Prisma } from "@prisma/client";
 import { loadFinanceConfig } from "@/services/financeConfig";
+import { DEFAULT_CURRENCY } from "@/services/currency";
+import { parseSettlementCurrency } from "@/services/currencyService";
 
 const router = express.Router();
 
@@ -225,6 +228,7 @@ const generateRealtorReport = async (
  */
 router.get(
   "/",
+  requirePermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { timeRange = "30d" } = req.query;
 
@@ -610,6 +614,7 @@ router.get(
  */
 router.get(
   "/commission/platform-report",
+  requirePermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { startDate, endDate } = req.query;
 
@@ -673,6 +678,7 @@ router.get(
  */
 router.get(
   "/commission/realtor/:realtorId",
+  requirePermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { realtorId } = req.params;
     const { startDate, endDate } = req.query;
@@ -735,6 +741,7 @@ router.get(
  */
 router.get(
   "/commission/pending-payouts",
+  requirePermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { page = 1, limit = 20, realtorId } = req.query;
 
@@ -860,6 +867,7 @@ router.get(
  */
 router.post(
   "/commission/payout/:paymentId",
+  requirePermission("payouts.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     res.status(400).json({
       success: false,
@@ -886,6 +894,7 @@ router.post(
  */
 router.post(
   "/payouts/process",
+  requirePermission("payouts.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     res.status(400).json({
       success: false,
@@ -904,6 +913,14 @@ router.post(
  *     tags: [Admin - Analytics]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [NGN, GHS, KES]
+ *           default: NGN
+ *         description: Settlement currency whose finance config to return
  *     responses:
  *       200:
  *         description: Commission settings retrieved
@@ -926,13 +943,19 @@ router.post(
  */
 router.get(
   "/commission/settings",
+  requirePermission("settings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    const financeConfig = await loadFinanceConfig();
+    const financeConfig = await loadFinanceConfig(
+      req.query.currency === undefined
+        ? DEFAULT_CURRENCY
+        : parseSettlementCurrency(req.query.currency)
+    );
     const defaultTierRate = financeConfig.commission.tiers[0]?.rate ?? 0.1;
 
     return res.json({
       success: true,
       data: {
+        currency: financeConfig.currency,
         platformCommissionRate: defaultTierRate,
         guestServiceFeeRate:
           financeConfig.serviceFee.stayza.percent +
@@ -987,6 +1010,7 @@ router.get(
  */
 router.patch(
   "/commission/settings",
+  requirePermission("settings.finance"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     return res.status(400).json({
       success: false,
@@ -1011,6 +1035,7 @@ router.patch(
  */
 router.get(
   "/commission/history",
+  requirePermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const history = await prisma.auditLog.findMany({
       where: {
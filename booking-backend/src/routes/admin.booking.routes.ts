@@ -8,6 +8,7 @@ import {
 import { prisma } from "@/config/database";
 import { AuthenticatedRequest } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import { requirePermission } from "@/middleware/auth";
 import { auditLogger } from "@/services/auditLogger";
 import { logger } from "@/utils/logger";
 import disputeService from "@/services/disputeService";
@@ -169,6 +170,7 @@ const getStaleUnpaidBookingFilter = (): Prisma.BookingWhereInput => {
  */
 router.get(
   "/",
+  requirePermission("bookings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const {
       page = "1",
@@ -390,6 +392,7 @@ router.get(
  */
 router.get(
   "/stats",
+  requirePermission("bookings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { period = "30" } = req.query;
     const daysBack = parseInt(period as string, 10);
@@ -539,6 +542,7 @@ router.get(
  */
 router.get(
   "/:id",
+  requirePermission("bookings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
 
@@ -637,6 +641,7 @@ router.get(
  */
 router.put(
   "/:id/status",
+  requirePermission("bookings.manage"),
   asyncHandler(async (_req: AuthenticatedRequest, _res: Response) => {
     throw new AppError(
       "Manual admin booking status updates are disabled. Booking state is managed automatically by payment, stay, and dispute flows.",
@@ -705,6 +710,7 @@ router.put(
  */
 router.post(
   "/:id/cancel",
+  requirePermission("bookings.manage"),
   asyncHandler(async (_req: AuthenticatedRequest, _res: Response) => {
     throw new AppError(
       "Manual admin booking cancellations are disabled. Use refund and dispute workflows instead.",
@@ -741,6 +747,7 @@ router.post(
  */
 router.get(
   "/disputes/all",
+  requirePermission("disputes.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.user?.id;
     const userRole = req.user?.role;
@@ -809,6 +816,7 @@ router.get(
  */
 router.get(
   "/refunds/pending",
+  requirePermission("refunds.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { page = 1, limit = 10, status } = req.query;
 
@@ -937,6 +945,7 @@ router.get(
  */
 router.post(
   "/refunds/:id/process",
+  requirePermission("refunds.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const { actualRefundAmount, adminNotes } = req.body;
@@ -1,15 +1,26 @@
 import { Router, Response } from "express";
-import { AdminDisputeDecision, UserRole } from "@prisma/client";
+import { AdminDisputeDecision } from "@prisma/client";
 import { logger } from "@/utils/logger";
 import { AuthenticatedRequest } from "@/types";
-import { authenticate, authorize } from "@/middleware/auth";
+import {
+  authenticate,
+  requireAdmin,
+  requirePermission,
+  requireStepUp,
+} from "@/middleware/auth";
 import disputeService from "@/services/disputeService";
 
 const router = Router();
 
-// All routes require authentication and admin role
+// All routes require authentication and admin role; reading disputes and
+// resolving them are separate permissions
 router.use(authenticate);
-router.use(authorize(UserRole.ADMIN));
+router.use(requireAdmin);
+router.use(
+  requirePermission((req) =>
+    req.method === "GET" ? "disputes.read" : "disputes.resolve",
+  ),
+);
 
 /**
  * @swagger
@@ -114,6 +125,7 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response) => {
  */
 router.post(
   "/:id/resolve",
+  requireStepUp,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { id } = req.params;
@@ -0,0 +1,214 @@
+import express, { Response } from "express";
+import { JournalEntryType } from "@prisma/client";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireAdmin,
+  requirePermission,
+} from "@/middleware/auth";
+import {
+  checkLedgerInvariants,
+  getLedgerBalances,
+  listJournalEntries,
+  parseLedgerAccount,
+} from "@/services/ledgerService";
+import { LEDGER_ACCOUNT_LABELS, roundMoney } from "@/services/ledgerRules";
+import { parseSettlementCurrency } from "@/services/currencyService";
+import { DEFAULT_CURRENCY } from "@/services/currency";
+
+const router = express.Router();
+
+// All routes require authentication and admin role
+router.use(authenticate, requireAdmin);
+
+const parseEntryType = (value: unknown): JournalEntryType => {
+  const key = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (!Object.values(JournalEntryType).includes(key as JournalEntryType)) {
+    throw new AppError(
+      `Type must be one of: ${Object.values(JournalEntryType).join(", ")}`,
+      400,
+    );
+  }
+  return key as JournalEntryType;
+};
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+/**
+ * @swagger
+ * /api/admin/ledger/balances:
+ *   get:
+ *     summary: Account balances derived from the journal (Admin only)
+ *     description: Returns per-subledger balances and a trial balance per account.
+ *     tags: [Admin - Ledger]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: account
+ *         schema:
+ *           type: string
+ *           enum: [GUEST_RECEIVABLE, GATEWAY_BALANCE, ESCROW, REALTOR_PAYABLE, PAYOUT_CLEARING, PLATFORM_REVENUE, PROCESSING_FEES]
+ *       - in: query
+ *         name: subledgerId
+ *         description: Realtor ID, booking ID or `platform`
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: currency
+ *         description: Accounts are balanced per currency
+ *         schema:
+ *           type: string
+ *           enum: [NGN, GHS, KES]
+ *           default: NGN
+ *     responses:
+ *       200:
+ *         description: Balances and per-account totals in one currency
+ */
+router.get(
+  "/balances",
+  requirePermission("ledger.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const balances = await getLedgerBalances({
+      account: req.query.account
+        ? parseLedgerAccount(req.query.account)
+        : undefined,
+      subledgerId: optionalString(req.query.subledgerId),
+      currency: req.query.currency
+        ? parseSettlementCurrency(req.query.currency)
+        : DEFAULT_CURRENCY,
+    });
+
+    const accounts = Object.values(
+      balances.reduce<
+        Record<
+          string,
+          {
+            account: string;
+            label: string;
+            debits: number;
+            credits: number;
+            balance: number;
+          }
+        >
+      >((totals, balance) => {
+        const current = totals[balance.account] ?? {
+          account: balance.account,
+          label: LEDGER_ACCOUNT_LABELS[balance.account],
+          debits: 0,
+          credits: 0,
+          balance: 0,
+        };
+        current.debits = roundMoney(current.debits + balance.debits);
+        current.credits = roundMoney(current.credits + balance.credits);
+        current.balance = roundMoney(current.balance + balance.balance);
+        totals[balance.account] = current;
+        return totals;
+      }, {}),
+    );
+
+    res.json({ success: true, data: { accounts, balances } });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/ledger/entries:
+ *   get:
+ *     summary: Journal entries with their lines (Admin only)
+ *     tags: [Admin - Ledger]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: account
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: subledgerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: bookingId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Paginated journal entries, newest first
+ */
+router.get(
+  "/entries",
+  requirePermission("ledger.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 50, 1),
+      200,
+    );
+
+    const { entries, total } = await listJournalEntries({
+      account: req.query.account
+        ? parseLedgerAccount(req.query.account)
+        : undefined,
+      subledgerId: optionalString(req.query.subledgerId),
+      bookingId: optionalString(req.query.bookingId),
+      type: req.query.type ? parseEntryType(req.query.type) : undefined,
+      page,
+      limit,
+    });
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: entries,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/ledger/invariants:
+ *   get:
+ *     summary: Run the ledger invariant check (Admin only)
+ *     description: Verifies every entry balances and that wallet and escrow balances match the journal.
+ *     tags: [Admin - Ledger]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invariant report; `healthy` is false when any check fails
+ */
+router.get(
+  "/invariants",
+  requirePermission("ledger.read"),
+  asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+    const report = await checkLedgerInvariants();
+
+    res.json({ success: true, data: report });
+  }),
+);
+
+export default router;
@@ -1,7 +1,9 @@
 import express, { Request, Response } from "express";
+import { SessionRevokeReason } from "@prisma/client";
 import { prisma } from "@/config/database";
 import { AuthenticatedRequest } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import { requirePermission } from "@/middleware/auth";
 import * as emailService from "@/services/email";
 import {
   logRealtorApproval,
@@ -15,6 +17,7 @@ import { config } from "@/config";
 import { sendCacApprovalEmail, sendCacRejectionEmail } from "@/services/email";
 import { getDashboardUrl } from "@/utils/domains";
 import { buildApprovedRealtorUpdate } from "@/services/realtorApproval";
+import { revokeUserSessions } from "@/services/authSessions";
 
 const router = express.Router();
 
@@ -106,6 +109,7 @@ const router = express.Router();
  */
 router.get(
   "/",
+  requirePermission("realtors.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { status, page = 1, limit = 20, search } = req.query;
 
@@ -242,6 +246,7 @@ router.get(
  */
 router.patch(
   "/:id/status",
+  requirePermission("realtors.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const { action, reason, notes } = req.body;
@@ -433,6 +438,11 @@ router.patch(
           data: { isActive: false },
         });
 
+        await revokeUserSessions(
+          realtor.userId,
+          SessionRevokeReason.ACCOUNT_SUSPENDED,
+        );
+
         if (activeBookings.length > 0) {
           const bookingIds = activeBookings.map((booking) => booking.id);
           const { batchUpdateBookingStatus } = await import(
@@ -657,6 +667,7 @@ router.patch(
  */
 router.put(
   "/batch-suspend-bookings",
+  requirePermission("realtors.manage"),
   asyncHandler(
     async (req: AuthenticatedRequest, res: Response): Promise<void> => {
       const { realtorId, reason } = req.body;
@@ -842,6 +853,7 @@ router.put(
  */
 router.patch(
   "/:realtorId/cac",
+  requirePermission("realtors.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { realtorId } = req.params;
     const { action, reason } = req.body;
@@ -1093,6 +1105,7 @@ router.patch(
  */
 router.get(
   "/all",
+  requirePermission("realtors.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { page = "1", limit = "10", status, cacStatus } = req.query;
     const pageNum = parseInt(page as string, 10);
@@ -0,0 +1,405 @@
+import express, { Response } from "express";
+import {
+  ReconciliationItemStatus,
+  ReconciliationMismatchType,
+} from "@prisma/client";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireAdmin,
+  requirePermission,
+} from "@/middleware/auth";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  dismissReconciliationItem,
+  exportReconciliationRunCsv,
+  getReconciliationRun,
+  listReconciliationRuns,
+  remediateReconciliationItem,
+  runReconciliation,
+} from "@/services/reconciliation";
+import { RECONCILIATION_MISMATCH_LABELS } from "@/services/reconciliationRules";
+import {
+  resolveReconciliationItemSchema,
+  startReconciliationRunSchema,
+} from "@/utils/validation";
+
+const router = express.Router();
+
+// All routes require authentication and admin role
+router.use(authenticate, requireAdmin);
+
+const DEFAULT_PERIOD_HOURS = 48;
+const MAX_PERIOD_DAYS = 31;
+
+const parseEnumValue = <T extends string>(
+  value: unknown,
+  values: Record<string, T>,
+  label: string,
+): T | undefined => {
+  if (value === undefined || value === "" || value === "all") {
+    return undefined;
+  }
+  const key = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (!Object.values(values).includes(key as T)) {
+    throw new AppError(
+      `${label} must be one of: ${Object.values(values).join(", ")}`,
+      400,
+    );
+  }
+  return key as T;
+};
+
+const parseResolutionNote = (body: unknown): string | undefined => {
+  const { error, value } = resolveReconciliationItemSchema.validate(body ?? {});
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+  return value.note || undefined;
+};
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/runs:
+ *   get:
+ *     summary: Paystack reconciliation runs, newest first (Admin only)
+ *     tags: [Admin - Reconciliation]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated runs with their open item counts
+ */
+router.get(
+  "/runs",
+  requirePermission("reconciliation.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 20, 1),
+      100,
+    );
+
+    const { runs, total } = await listReconciliationRuns({ page, limit });
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: runs,
+      labels: RECONCILIATION_MISMATCH_LABELS,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/runs:
+ *   post:
+ *     summary: Run a Paystack reconciliation now (Admin only)
+ *     description: Defaults to the last 48 hours. Periods are limited to 31 days.
+ *     tags: [Admin - Reconciliation]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               from:
+ *                 type: string
+ *                 format: date-time
+ *               to:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Completed run
+ *       400:
+ *         description: Invalid period
+ *       502:
+ *         description: Paystack could not be reached; the run is recorded as failed
+ */
+router.post(
+  "/runs",
+  requirePermission("reconciliation.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = startReconciliationRunSchema.validate(
+      req.body ?? {},
+    );
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const to: Date = value.to ?? new Date();
+    const from: Date =
+      value.from ??
+      new Date(to.getTime() - DEFAULT_PERIOD_HOURS * 60 * 60 * 1000);
+    if (to.getTime() - from.getTime() > MAX_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new AppError(
+        `Reconciliation period cannot exceed ${MAX_PERIOD_DAYS} days`,
+        400,
+      );
+    }
+
+    let run;
+    try {
+      run = await runReconciliation({ from, to, triggeredById: req.user!.id });
+    } catch (runError) {
+      throw new AppError(
+        runError instanceof Error
+          ? `Reconciliation failed: ${runError.message}`
+          : "Reconciliation failed",
+        502,
+      );
+    }
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "RECONCILIATION_RUN",
+        "RECONCILIATION",
+        run.id,
+        { from, to, mismatchCount: run.mismatchCount },
+        req,
+      )
+      .catch(() => {});
+
+    res.status(201).json({
+      success: true,
+      message: `Reconciliation found ${run.mismatchCount} mismatch(es)`,
+      data: run,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/runs/{id}:
+ *   get:
+ *     summary: Reconciliation run with its mismatches (Admin only)
+ *     tags: [Admin - Reconciliation]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, RESOLVED, DISMISSED, all]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [PAYMENT_NOT_RECORDED, PAYMENT_UNKNOWN, PAYMENT_STATUS_MISMATCH, AMOUNT_MISMATCH, PROCESSING_FEE_DRIFT, TRANSFER_REVERSED, TRANSFER_STATUS_MISMATCH, WEBHOOK_MISSING]
+ *     responses:
+ *       200:
+ *         description: Run and items; remediable items first
+ *       404:
+ *         description: Run not found
+ */
+router.get(
+  "/runs/:id",
+  requirePermission("reconciliation.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const run = await getReconciliationRun(req.params.id, {
+      status: parseEnumValue(
+        req.query.status,
+        ReconciliationItemStatus,
+        "Status",
+      ),
+      type: parseEnumValue(req.query.type, ReconciliationMismatchType, "Type"),
+    });
+
+    res.json({
+      success: true,
+      data: run,
+      labels: RECONCILIATION_MISMATCH_LABELS,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/runs/{id}/export:
+ *   get:
+ *     summary: Download a reconciliation run as CSV (Admin only)
+ *     tags: [Admin - Reconciliation]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: CSV file of every item in the run
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Run not found
+ */
+router.get(
+  "/runs/:id/export",
+  requirePermission("reconciliation.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const csv = await exportReconciliationRunCsv(req.params.id);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="reconciliation-${req.params.id}.csv"`,
+    );
+    res.send(csv);
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/items/{id}/remediate:
+ *   post:
+ *     summary: Apply the fix for a remediable mismatch (Admin only)
+ *     description: >
+ *       Re-checks Paystack before acting. Finalizes payments stuck as
+ *       INITIATED, corrects processing fee drift with a ledger adjustment, or
+ *       returns reversed withdrawals to the realtor wallet.
+ *     tags: [Admin - Reconciliation]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Item resolved
+ *       400:
+ *         description: Mismatch type cannot be fixed automatically
+ *       404:
+ *         description: Item not found
+ *       409:
+ *         description: Item already closed or Paystack state has changed
+ */
+router.post(
+  "/items/:id/remediate",
+  requirePermission("reconciliation.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const note = parseResolutionNote(req.body);
+
+    const { item, outcome } = await remediateReconciliationItem(
+      req.params.id,
+      req.user!.id,
+      note,
+    );
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "RECONCILIATION_REMEDIATE",
+        "RECONCILIATION",
+        item.id,
+        { type: item.type, reference: item.reference, outcome, note },
+        req,
+      )
+      .catch(() => {});
+
+    res.json({ success: true, message: outcome, data: item });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/reconciliation/items/{id}/dismiss:
+ *   post:
+ *     summary: Dismiss a mismatch without changing any records (Admin only)
+ *     tags: [Admin - Reconciliation]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Item dismissed
+ *       404:
+ *         description: Item not found
+ *       409:
+ *         description: Item already closed
+ */
+router.post(
+  "/items/:id/dismiss",
+  requirePermission("reconciliation.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const note = parseResolutionNote(req.body);
+
+    const item = await dismissReconciliationItem(
+      req.params.id,
+      req.user!.id,
+      note,
+    );
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "RECONCILIATION_DISMISS",
+        "RECONCILIATION",
+        item.id,
+        { type: item.type, reference: item.reference, note },
+        req,
+      )
+      .catch(() => {});
+
+    res.json({ success: true, message: "Item dismissed", data: item });
+  }),
+);
+
+export default router;
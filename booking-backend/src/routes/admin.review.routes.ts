@@ -0,0 +1,225 @@
+import express, { Response } from "express";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireAdmin,
+  requirePermission,
+} from "@/middleware/auth";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  dismissReviewReport,
+  listReviewReports,
+  parseReviewReportKind,
+  parseReviewReportReason,
+  parseReviewReportStatus,
+  upholdReviewReport,
+} from "@/services/reviewModeration";
+import { resolveReviewReportSchema } from "@/utils/validation";
+
+const router = express.Router();
+
+// All routes require authentication and admin role
+router.use(authenticate, requireAdmin);
+
+const parseResolutionNote = (body: unknown): string | undefined => {
+  const { error, value } = resolveReviewReportSchema.validate(body ?? {});
+  if (error) {
+    throw new AppError(error.details[0].message, 400);
+  }
+  return value.note || undefined;
+};
+
+/**
+ * @swagger
+ * /api/admin/reviews/reports:
+ *   get:
+ *     summary: Review moderation queue (Admin only)
+ *     description: Pending reports are listed oldest first. Includes queue-wide counts.
+ *     tags: [Admin - Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         description: Defaults to PENDING; `all` lists every report
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, UPHELD, DISMISSED, all]
+ *       - in: query
+ *         name: kind
+ *         schema:
+ *           type: string
+ *           enum: [FLAG, REMOVAL_REQUEST]
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated reports with stats
+ */
+router.get(
+  "/reports",
+  requirePermission("reviews.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 20, 1),
+      100,
+    );
+    const status = req.query.status ?? "PENDING";
+
+    const { reports, total, stats } = await listReviewReports({
+      status: status === "all" ? undefined : parseReviewReportStatus(status),
+      kind: req.query.kind ? parseReviewReportKind(req.query.kind) : undefined,
+      reason: req.query.reason
+        ? parseReviewReportReason(req.query.reason)
+        : undefined,
+      page,
+      limit,
+    });
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: reports,
+      stats,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/reviews/reports/{id}/uphold:
+ *   post:
+ *     summary: Uphold a review report (Admin only)
+ *     description: Hides the review, recomputes property and realtor ratings and resolves every pending report on the same review.
+ *     tags: [Admin - Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Report upheld and review hidden
+ *       404:
+ *         description: Report not found
+ *       409:
+ *         description: Report already resolved
+ */
+router.post(
+  "/reports/:id/uphold",
+  requirePermission("reviews.moderate"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const note = parseResolutionNote(req.body);
+
+    const { report, resolvedCount } = await upholdReviewReport(
+      req.params.id,
+      req.user!.id,
+      note,
+    );
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "REVIEW_REPORT_UPHOLD",
+        "REVIEW",
+        report.reviewId,
+        { reportId: report.id, reason: report.reason, resolvedCount, note },
+        req,
+      )
+      .catch(() => {});
+
+    res.json({
+      success: true,
+      message: "Report upheld and review hidden",
+      data: report,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/reviews/reports/{id}/dismiss:
+ *   post:
+ *     summary: Dismiss a review report (Admin only)
+ *     description: The review stays published.
+ *     tags: [Admin - Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Report dismissed
+ *       404:
+ *         description: Report not found
+ *       409:
+ *         description: Report already resolved
+ */
+router.post(
+  "/reports/:id/dismiss",
+  requirePermission("reviews.moderate"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const note = parseResolutionNote(req.body);
+
+    const report = await dismissReviewReport(req.params.id, req.user!.id, note);
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "REVIEW_REPORT_DISMISS",
+        "REVIEW",
+        report.reviewId,
+        { reportId: report.id, reason: report.reason, note },
+        req,
+      )
+      .catch(() => {});
+
+    res.json({ success: true, message: "Report dismissed", data: report });
+  }),
+);
+
+export default router;
@@ -1,5 +1,5 @@
 import express from "express";
-import { authenticate, requireRole } from "@/middleware/auth";
+import { authenticate, requireAdmin } from "@/middleware/auth";
 import realtorRoutes from "./admin.realtor.routes";
 import bookingRoutes from "./admin.booking.routes";
 import analyticsRoutes from "./admin.analytics.routes";
@@ -53,8 +53,9 @@ const router = express.Router();
  *             type: object
  */
 
-// Apply admin authentication to all routes
-router.use(authenticate, requireRole("ADMIN"));
+// Apply admin authentication to all routes; each route then checks the
+// permission it needs
+router.use(authenticate, requireAdmin);
 
 /**
  * Admin Routes Structure:
@@ -0,0 +1,412 @@
+import express, { Response } from "express";
+import { AuthenticatedRequest } from "@/types";
+import { asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireAdmin,
+  requirePermission,
+} from "@/middleware/auth";
+import { auditLogger } from "@/services/auditLogger";
+import { uploadSupportAttachments } from "@/services/photoUpload";
+import {
+  assignSupportTicket,
+  getAdminSupportTicket,
+  listAdminSupportTickets,
+  listSupportAgents,
+  parseSupportCategory,
+  parseSupportPriority,
+  parseSupportStatus,
+  replyToSupportTicket,
+  updateSupportTicketDetails,
+  updateSupportTicketStatus,
+} from "@/services/supportTickets";
+
+const router = express.Router();
+
+// All routes require authentication and admin role
+router.use(authenticate, requireAdmin);
+
+/**
+ * @swagger
+ * /api/admin/support/tickets:
+ *   get:
+ *     summary: Support ticket queue (Admin only)
+ *     description: Sorted by status, then nearest resolution deadline. Includes queue-wide counts.
+ *     tags: [Admin - Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, IN_PROGRESS, RESOLVED, CLOSED]
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *           enum: [LOW, MEDIUM, HIGH]
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: assignedTo
+ *         description: "`me`, `unassigned` or an admin user id"
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: breached
+ *         description: Only tickets that missed an SLA deadline
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: search
+ *         description: Ticket id, booking id, subject or requester email
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated queue with stats
+ */
+router.get(
+  "/tickets",
+  requirePermission("support.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 20, 1),
+      100,
+    );
+    const search =
+      typeof req.query.search === "string" ? req.query.search.trim() : "";
+
+    const { tickets, total, stats } = await listAdminSupportTickets(
+      req.user!.id,
+      {
+        status: req.query.status
+          ? parseSupportStatus(req.query.status)
+          : undefined,
+        priority: req.query.priority
+          ? parseSupportPriority(req.query.priority)
+          : undefined,
+        category: req.query.category
+          ? parseSupportCategory(req.query.category)
+          : undefined,
+        assignedTo:
+          typeof req.query.assignedTo === "string" && req.query.assignedTo
+            ? req.query.assignedTo
+            : undefined,
+        breachedOnly: req.query.breached === "true",
+        search: search || undefined,
+        page,
+        limit,
+      },
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: tickets,
+      stats,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/support/agents:
+ *   get:
+ *     summary: Admins that tickets can be assigned to
+ *     tags: [Admin - Support]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Admin users
+ */
+router.get(
+  "/agents",
+  requirePermission("support.read"),
+  asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+    const agents = await listSupportAgents();
+
+    res.json({ success: true, data: agents });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/support/tickets/{id}:
+ *   get:
+ *     summary: Get a support ticket with internal notes (Admin only)
+ *     tags: [Admin - Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ticket details
+ *       404:
+ *         description: Ticket not found
+ */
+router.get(
+  "/tickets/:id",
+  requirePermission("support.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const ticket = await getAdminSupportTicket(req.params.id);
+
+    res.json({ success: true, data: ticket });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/support/tickets/{id}/reply:
+ *   post:
+ *     summary: Reply to a ticket or add an internal note (Admin only)
+ *     description: The first public reply stops the first-response SLA timer and moves an open ticket to IN_PROGRESS.
+ *     tags: [Admin - Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [message]
+ *             properties:
+ *               message:
+ *                 type: string
+ *               isInternal:
+ *                 type: boolean
+ *                 description: Hidden from the requester
+ *     responses:
+ *       201:
+ *         description: Reply added
+ */
+router.post(
+  "/tickets/:id/reply",
+  requirePermission("support.manage"),
+  uploadSupportAttachments,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const message = await replyToSupportTicket(
+      req.params.id,
+      { id: req.user!.id, role: req.user!.role },
+      { message: req.body.message, isInternal: req.body.isInternal },
+      req.files as Express.Multer.File[] | undefined,
+    );
+
+    res.status(201).json({ success: true, data: message });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/support/tickets/{id}/assign:
+ *   patch:
+ *     summary: Assign a ticket to an admin, or unassign it (Admin only)
+ *     tags: [Admin - Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               adminId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Ticket assignment updated
+ *       400:
+ *         description: Assignee is not an admin
+ */
+router.patch(
+  "/tickets/:id/assign",
+  requirePermission("support.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const adminId =
+      typeof req.body.adminId === "string" && req.body.adminId.trim()
+        ? req.body.adminId.trim()
+        : null;
+
+    const ticket = await assignSupportTicket(req.params.id, adminId);
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "SUPPORT_TICKET_ASSIGN",
+        "SUPPORT_TICKET",
+        ticket.id,
+        { assignedAdminId: adminId },
+        req,
+      )
+      .catch(() => {});
+
+    res.json({ success: true, message: "Ticket assignment updated", data: ticket });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/support/tickets/{id}/status:
+ *   patch:
+ *     summary: Change a ticket's status (Admin only)
+ *     tags: [Admin - Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [OPEN, IN_PROGRESS, RESOLVED, CLOSED]
+ *     responses:
+ *       200:
+ *         description: Status updated
+ *       400:
+ *         description: Transition not allowed
+ */
+router.patch(
+  "/tickets/:id/status",
+  requirePermission("support.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const status = parseSupportStatus(req.body.status);
+
+    const ticket = await updateSupportTicketStatus(
+      req.params.id,
+      { id: req.user!.id, role: req.user!.role },
+      status,
+    );
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "SUPPORT_TICKET_STATUS_UPDATE",
+        "SUPPORT_TICKET",
+        ticket.id,
+        { status },
+        req,
+      )
+      .catch(() => {});
+
+    res.json({ success: true, message: "Ticket status updated", data: ticket });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/support/tickets/{id}:
+ *   patch:
+ *     summary: Update ticket priority, category or booking/dispute links (Admin only)
+ *     description: Changing priority moves the SLA deadlines.
+ *     tags: [Admin - Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               priority:
+ *                 type: string
+ *                 enum: [LOW, MEDIUM, HIGH]
+ *               category:
+ *                 type: string
+ *                 enum: [GUEST_ISSUE, PROPERTY_DAMAGE, NO_SHOW, PAYMENT_ISSUE, OTHER]
+ *               bookingId:
+ *                 type: string
+ *                 nullable: true
+ *               disputeId:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Ticket updated
+ */
+router.patch(
+  "/tickets/:id",
+  requirePermission("support.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { priority, category, bookingId, disputeId } = req.body;
+
+    const ticket = await updateSupportTicketDetails(
+      req.params.id,
+      { id: req.user!.id, role: req.user!.role },
+      { priority, category, bookingId, disputeId },
+    );
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "SUPPORT_TICKET_UPDATE",
+        "SUPPORT_TICKET",
+        ticket.id,
+        { priority, category, bookingId, disputeId },
+        req,
+      )
+      .catch(() => {});
+
+    res.json({ success: true, message: "Ticket updated", data: ticket });
+  }),
+);
+
+export default router;
@@ -2,6 +2,7 @@ import express, { Response } from "express";
 import { prisma } from "@/config/database";
 import { AuthenticatedRequest } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import { requirePermission } from "@/middleware/auth";
 
 const router = express.Router();
 
@@ -78,6 +79,7 @@ router.get(
           "BOOKING_CANCELLED",
           "REVIEW_FLAGGED",
           "DISPUTE_OPENED",
+          "SUPPORT_TICKET_UPDATE",
         ],
       },
     };
@@ -206,6 +208,7 @@ router.patch(
               "BOOKING_CANCELLED",
               "REVIEW_FLAGGED",
               "DISPUTE_OPENED",
+              "SUPPORT_TICKET_UPDATE",
             ],
           },
           isRead: false,
@@ -316,6 +319,7 @@ router.patch(
  */
 router.get(
   "/audit-logs",
+  requirePermission("audit.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { page = 1, limit = 20, action, entityType, adminId } = req.query;
 
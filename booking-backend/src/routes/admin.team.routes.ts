@@ -0,0 +1,262 @@
+import express, { Response } from "express";
+import { AdminRole } from "@prisma/client";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireAdmin,
+  requirePermission,
+  requireStepUp,
+} from "@/middleware/auth";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  ADMIN_ROLE_LABELS,
+  ADMIN_ROLE_PERMISSIONS,
+  getAdminPermissions,
+} from "@/services/adminPermissionRules";
+import {
+  createAdminInvite,
+  listAdminTeam,
+  revokeAdminInvite,
+  updateAdminRole,
+} from "@/services/adminTeam";
+import {
+  createAdminInviteSchema,
+  updateAdminRoleSchema,
+} from "@/utils/validation";
+
+const router = express.Router();
+
+// All routes require authentication and admin role
+router.use(authenticate, requireAdmin);
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Admin - Team
+ *     description: Admin roles, permissions and invites
+ */
+
+/**
+ * @swagger
+ * /api/admin/team/permissions:
+ *   get:
+ *     summary: The signed-in admin's role and permissions
+ *     description: Also lists every admin role with the permissions it grants.
+ *     tags: [Admin - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Role and permissions
+ */
+router.get(
+  "/permissions",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: {
+        adminRole: req.user!.adminRole,
+        permissions: getAdminPermissions(req.user!),
+        roles: (Object.keys(ADMIN_ROLE_PERMISSIONS) as AdminRole[]).map(
+          (role) => ({
+            role,
+            label: ADMIN_ROLE_LABELS[role],
+            permissions: ADMIN_ROLE_PERMISSIONS[role],
+          }),
+        ),
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/team:
+ *   get:
+ *     summary: Admin team members and pending invites
+ *     tags: [Admin - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Members and pending invites
+ *       403:
+ *         description: Requires the admins.manage permission
+ */
+router.get(
+  "/",
+  requirePermission("admins.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({ success: true, data: await listAdminTeam() });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/team/invites:
+ *   post:
+ *     summary: Invite a new admin
+ *     description: Emails a single-use link that creates an admin account with the given role. Replaces any pending invite for the same email.
+ *     tags: [Admin - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, adminRole]
+ *             properties:
+ *               email:
+ *                 type: string
+ *               adminRole:
+ *                 type: string
+ *                 enum: [SUPER_ADMIN, FINANCE, TRUST_AND_SAFETY, SUPPORT, ANALYST]
+ *     responses:
+ *       201:
+ *         description: Invite sent
+ *       403:
+ *         description: Requires the admins.manage permission, or 2FA re-verification (statusCode STEP_UP_REQUIRED)
+ *       409:
+ *         description: An account with this email already exists
+ */
+router.post(
+  "/invites",
+  requirePermission("admins.manage"),
+  requireStepUp,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = createAdminInviteSchema.validate(req.body ?? {});
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const invite = await createAdminInvite({
+      email: value.email,
+      adminRole: value.adminRole,
+      invitedBy: req.user!,
+    });
+
+    await auditLogger.logAdminAction(
+      req.user!.id,
+      "ADMIN_INVITE_CREATE",
+      "ADMIN_INVITE",
+      invite.id,
+      { email: invite.email, adminRole: invite.adminRole },
+      req,
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation sent to ${invite.email}`,
+      data: invite,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/team/invites/{id}:
+ *   delete:
+ *     summary: Revoke a pending admin invite
+ *     tags: [Admin - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite revoked
+ *       404:
+ *         description: Invite not found or no longer pending
+ */
+router.delete(
+  "/invites/:id",
+  requirePermission("admins.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const invite = await revokeAdminInvite(req.params.id);
+
+    await auditLogger.logAdminAction(
+      req.user!.id,
+      "ADMIN_INVITE_REVOKE",
+      "ADMIN_INVITE",
+      invite.id,
+      { email: invite.email, adminRole: invite.adminRole },
+      req,
+    );
+
+    res.json({ success: true, message: "Invite revoked", data: invite });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/admin/team/members/{userId}/role:
+ *   patch:
+ *     summary: Change an admin's role
+ *     tags: [Admin - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [adminRole]
+ *             properties:
+ *               adminRole:
+ *                 type: string
+ *                 enum: [SUPER_ADMIN, FINANCE, TRUST_AND_SAFETY, SUPPORT, ANALYST]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       404:
+ *         description: Admin not found
+ *       409:
+ *         description: Would leave the team without a super admin
+ */
+router.patch(
+  "/members/:userId/role",
+  requirePermission("admins.manage"),
+  requireStepUp,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = updateAdminRoleSchema.validate(req.body ?? {});
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { member, previousRole } = await updateAdminRole(
+      req.params.userId,
+      value.adminRole,
+    );
+
+    await auditLogger.logAdminAction(
+      req.user!.id,
+      "ADMIN_ROLE_UPDATE",
+      "USER",
+      member.id,
+      { email: member.email, from: previousRole, to: member.adminRole },
+      req,
+    );
+
+    res.json({
+      success: true,
+      message: `${member.email} is now ${ADMIN_ROLE_LABELS[value.adminRole as AdminRole]}`,
+      data: member,
+    });
+  }),
+);
+
+export default router;
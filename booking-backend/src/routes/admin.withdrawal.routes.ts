@@ -2,43 +2,49 @@
  * Admin Withdrawal Management Routes
  *
  * Endpoints for administrators to manage and manually process withdrawals.
- * This includes viewing pending/failed withdrawals and manually processing them.
+ * This includes viewing pending/failed withdrawals and manually processing them,
+ * and reviewing withdrawals held after a payout account change.
  */
 
 import express from "express";
+import { AuthenticatedRequest } from "@/types";
 import { AppError } from "@/middleware/errorHandler";
-import { authenticate } from "@/middleware/auth";
-import { UserRole } from "@prisma/client";
+import {
+  authenticate,
+  requireAdmin,
+  requirePermission,
+  requireStepUp,
+} from "@/middleware/auth";
+import { JournalEntryType, LedgerAccount } from "@prisma/client";
 import * as withdrawalService from "@/services/withdrawalService";
+import {
+  liftPayoutFreeze,
+  listPayoutAccountChanges,
+  releaseHeldWithdrawal,
+} from "@/services/payoutAccountChanges";
+import { auditLogger } from "@/services/auditLogger";
 import { prisma } from "@/config/database";
 import { logger } from "@/utils/logger";
-import { AuthenticatedRequest } from "@/types";
+import { postJournalEntry } from "@/services/ledgerService";
+import { credit, debit } from "@/services/ledgerRules";
 
 const router = express.Router();
 
-// All routes require admin authentication
+// All routes require admin authentication; anything that moves money needs
+// withdrawals.manage
 router.use(authenticate);
-
-// Helper to check if user is admin
-const requireAdmin = (
-  req: AuthenticatedRequest,
-  res: express.Response,
-  next: express.NextFunction
-) => {
-  const user = req.user;
-  if (!user || user.role !== UserRole.ADMIN) {
-    throw new AppError("Admin access required", 403);
-  }
-  next();
-};
-
 router.use(requireAdmin);
+router.use(
+  requirePermission((req) =>
+    req.method === "GET" ? "withdrawals.read" : "withdrawals.manage"
+  )
+);
 
 /**
  * GET /api/admin/withdrawals
- * List pending and failed withdrawals
+ * List withdrawals that need attention
  * Query params:
- * - status: Filter by status (PENDING, FAILED, COMPLETED) - defaults to PENDING,FAILED
+ * - status: Filter by status (PENDING, ON_HOLD, FAILED, COMPLETED) - defaults to PENDING,ON_HOLD,FAILED
  * - realtorId: Filter by specific realtor
  * - page: Page number (default 1)
  * - limit: Items per page (default 20)
@@ -66,14 +72,14 @@ router.get("/", async (req, res, next) => {
       limit: limitNum,
     };
 
-    // If no status specified, default to PENDING and FAILED
+    // If no status specified, default to everything awaiting action
     if (status) {
       const statusList = Array.isArray(status)
         ? status
         : String(status).split(",");
       filters.status = statusList;
     } else {
-      filters.status = ["PENDING", "FAILED"];
+      filters.status = ["PENDING", "ON_HOLD", "FAILED"];
     }
 
     if (realtorId) {
@@ -98,12 +104,17 @@ router.get("/", async (req, res, next) => {
  */
 router.get("/stats", async (req, res, next) => {
   try {
-    const [pending, failed, completed, totalAmount] = await Promise.all([
+    const [pending, held, failed, completed, totalAmount] = await Promise.all([
       // Count pending withdrawals
       prisma.withdrawalRequest.count({
         where: { status: "PENDING" },
       }),
 
+      // Count withdrawals held after a payout account change
+      prisma.withdrawalRequest.count({
+        where: { status: "ON_HOLD" },
+      }),
+
       // Count failed withdrawals
       prisma.withdrawalRequest.count({
         where: { status: "FAILED" },
@@ -122,7 +133,7 @@ router.get("/stats", async (req, res, next) => {
       // Sum of pending amounts
       prisma.withdrawalRequest.aggregate({
         where: {
-          status: { in: ["PENDING", "FAILED"] },
+          status: { in: ["PENDING", "ON_HOLD", "FAILED"] },
         },
         _sum: {
           amount: true,
@@ -134,10 +145,11 @@ router.get("/stats", async (req, res, next) => {
       success: true,
       data: {
         pendingCount: pending,
+        onHoldCount: held,
         failedCount: failed,
         completedTodayCount: completed,
         pendingAmount: totalAmount._sum.amount || 0,
-        requiresAttention: pending + failed,
+        requiresAttention: pending + held + failed,
       },
     });
   } catch (error) {
@@ -145,6 +157,78 @@ router.get("/stats", async (req, res, next) => {
   }
 });
 
+/**
+ * GET /api/admin/withdrawals/payout-account-changes
+ * Payout account change history for reviewing held withdrawals
+ * Query params:
+ * - realtorId: Filter by specific realtor
+ * - frozen: "true" for changes reported with a "this wasn't me" link
+ * - page: Page number (default 1)
+ * - limit: Items per page (default 20)
+ */
+router.get("/payout-account-changes", async (req, res, next) => {
+  try {
+    const {
+      realtorId,
+      frozen,
+      page = "1",
+      limit = "20",
+    } = req.query as {
+      realtorId?: string;
+      frozen?: string;
+      page?: string;
+      limit?: string;
+    };
+
+    const result = await listPayoutAccountChanges({
+      realtorId,
+      frozenOnly: frozen === "true",
+      page: Math.max(parseInt(page, 10) || 1, 1),
+      limit: Math.min(Math.max(parseInt(limit, 10) || 20, 1), 100),
+    });
+
+    res.json({
+      success: true,
+      data: result.changes,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/admin/withdrawals/realtors/:realtorId/unfreeze
+ * Lift a realtor's payout freeze after checking their account. Withdrawals
+ * held by the freeze still need releasing one by one.
+ */
+router.post(
+  "/realtors/:realtorId/unfreeze",
+  requireStepUp,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const result = await liftPayoutFreeze(req.params.realtorId);
+
+      await auditLogger.logAdminAction(
+        req.user!.id,
+        "PAYOUT_FREEZE_LIFT",
+        "REALTOR",
+        result.realtorId,
+        { frozenAt: result.frozenAt },
+        req
+      );
+
+      res.json({
+        success: true,
+        message: "Payout freeze lifted",
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * GET /api/admin/withdrawals/:id
  * Get detailed information about a specific withdrawal
@@ -188,7 +272,7 @@ router.get("/:id", async (req, res, next) => {
  * POST /api/admin/withdrawals/:id/process
  * Manually process a pending or failed withdrawal
  */
-router.post("/:id/process", async (req, res, next) => {
+router.post("/:id/process", requireStepUp, async (req, res, next) => {
   try {
     const { id } = req.params;
     const adminUser = (req as any).user;
@@ -219,6 +303,13 @@ router.post("/:id/process", async (req, res, next) => {
       throw new AppError("This withdrawal has already been completed", 400);
     }
 
+    if (withdrawal.status === "ON_HOLD") {
+      throw new AppError(
+        "This withdrawal is on hold. Release it before processing.",
+        400
+      );
+    }
+
     // Process the withdrawal with manual retry flag
     const result = await withdrawalService.processWithdrawal(id, true);
 
@@ -253,6 +344,46 @@ router.post("/:id/process", async (req, res, next) => {
   }
 });
 
+/**
+ * POST /api/admin/withdrawals/:id/release
+ * Release a withdrawal held after a payout account change and send it
+ */
+router.post(
+  "/:id/release",
+  requireStepUp,
+  async (req: AuthenticatedRequest, res, next) => {
+    try {
+      const { id } = req.params;
+      const released = await releaseHeldWithdrawal(id, req.user!.id);
+
+      await auditLogger.logAdminAction(
+        req.user!.id,
+        "WITHDRAWAL_HOLD_RELEASE",
+        "WITHDRAWAL",
+        id,
+        { holdReason: released.holdReason },
+        req
+      );
+
+      const result = await withdrawalService.processWithdrawal(id, true);
+
+      res.json({
+        success: true,
+        message: result.success
+          ? "Hold released and withdrawal processed"
+          : `Hold released, but processing failed: ${result.message}`,
+        data: {
+          withdrawalId: id,
+          processed: result.success,
+          transferReference: result.transferReference,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /api/admin/withdrawals/retry-failed
  * Batch retry all failed withdrawals
@@ -317,20 +448,32 @@ router.put("/:id/cancel", async (req, res, next) => {
       throw new AppError("Cannot cancel a completed withdrawal", 400);
     }
 
+    if (withdrawal.status === "CANCELLED") {
+      throw new AppError("Withdrawal is already cancelled", 400);
+    }
+
+    // A failed withdrawal may already have returned its funds
+    const metadata = (withdrawal.metadata as Record<string, unknown>) || {};
+    const fundsLocked = metadata.fundsRestored !== true;
+
     // Release locked funds back to available balance
-    await prisma.$transaction([
+    await prisma.$transaction(async (tx) => {
       // Update withdrawal status
-      prisma.withdrawalRequest.update({
+      await tx.withdrawalRequest.update({
         where: { id },
         data: {
           status: "CANCELLED" as any, // Add CANCELLED to enum if needed
           failureReason: `Cancelled by admin: ${reason}`,
           completedAt: new Date(),
         },
-      }),
+      });
+
+      if (!fundsLocked) {
+        return;
+      }
 
       // Release funds
-      prisma.wallet.update({
+      await tx.wallet.update({
         where: { id: withdrawal.walletId },
         data: {
           balancePending: {
@@ -340,8 +483,28 @@ router.put("/:id/cancel", async (req, res, next) => {
             increment: withdrawal.amount,
           },
         },
-      }),
-    ]);
+      });
+
+      await postJournalEntry(tx, {
+        type: JournalEntryType.WITHDRAWAL_RELEASED,
+        reference: id,
+        description: "Cancelled withdrawal returned to wallet",
+        metadata: { withdrawalRequestId: id, adminId: adminUser.userId },
+        currency: withdrawal.wallet.currency,
+        lines: [
+          debit(
+            LedgerAccount.PAYOUT_CLEARING,
+            withdrawal.amount.toNumber(),
+            withdrawal.wallet.ownerId
+          ),
+          credit(
+            LedgerAccount.REALTOR_PAYABLE,
+            withdrawal.amount.toNumber(),
+            withdrawal.wallet.ownerId
+          ),
+        ],
+      });
+    });
 
     logger.info("Admin cancelled withdrawal", {
       withdrawalId: id,
@@ -0,0 +1,346 @@
+import express, { Response } from "express";
+import { AnalyticsAlertStatus } from "@prisma/client";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireApprovedRealtor,
+  requireRealtorPermission,
+  requireRole,
+} from "@/middleware/auth";
+import {
+  listAlertRules,
+  listAnalyticsAlerts,
+  markAllAnalyticsAlertsRead,
+  markAnalyticsAlertRead,
+  parseAnalyticsAlertType,
+  saveAlertRule,
+  setAnalyticsAlertMuted,
+} from "@/services/analyticsAlerts";
+
+const router = express.Router();
+
+router.use(
+  authenticate,
+  requireRole("REALTOR"),
+  requireApprovedRealtor,
+  requireRealtorPermission("analytics.read"),
+);
+
+const getRealtorId = (req: AuthenticatedRequest) => {
+  const realtorId = req.realtor?.id;
+  if (!realtorId) {
+    throw new AppError("Realtor profile not found", 404);
+  }
+  return realtorId;
+};
+
+const parseAlertStatus = (value: unknown): AnalyticsAlertStatus | undefined => {
+  if (value === undefined || value === "all") {
+    return undefined;
+  }
+
+  const key = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (
+    !Object.values(AnalyticsAlertStatus).includes(key as AnalyticsAlertStatus)
+  ) {
+    throw new AppError(
+      `Status must be one of: ${Object.values(AnalyticsAlertStatus).join(", ")}, all`,
+      400,
+    );
+  }
+  return key as AnalyticsAlertStatus;
+};
+
+/**
+ * @swagger
+ * /api/analytics-alerts/properties/{propertyId}/rules:
+ *   get:
+ *     summary: Alert rules for a property (owner only)
+ *     description: Returns every rule type. Types never configured are disabled and carry their defaults.
+ *     tags: [Analytics Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert rules with allowed ranges
+ *       404:
+ *         description: Property not found
+ */
+router.get(
+  "/properties/:propertyId/rules",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const rules = await listAlertRules(
+      req.params.propertyId,
+      getRealtorId(req),
+    );
+
+    res.json({ success: true, data: rules });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/analytics-alerts/properties/{propertyId}/rules/{type}:
+ *   put:
+ *     summary: Configure an alert rule (owner only)
+ *     description: Creates or updates the rule. Disabling a rule resolves its active alert.
+ *     tags: [Analytics Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [LOW_OCCUPANCY, RATING_DROP, CANCELLATION_SPIKE, UNANSWERED_INQUIRIES]
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               threshold:
+ *                 type: number
+ *               windowDays:
+ *                 type: integer
+ *               isEnabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Rule saved
+ *       400:
+ *         description: Threshold or window out of range
+ *       404:
+ *         description: Property not found
+ */
+router.put(
+  "/properties/:propertyId/rules/:type",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const rule = await saveAlertRule(
+      req.params.propertyId,
+      getRealtorId(req),
+      parseAnalyticsAlertType(req.params.type),
+      req.body ?? {},
+    );
+
+    res.json({ success: true, message: "Alert rule saved", data: rule });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/analytics-alerts:
+ *   get:
+ *     summary: List analytics alerts across the realtor's properties
+ *     tags: [Analytics Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: propertyId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         description: Defaults to ACTIVE; `all` includes resolved alerts
+ *         schema:
+ *           type: string
+ *           enum: [ACTIVE, RESOLVED, all]
+ *       - in: query
+ *         name: includeMuted
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: unreadOnly
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated alerts with the unread active count
+ */
+router.get(
+  "/",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 20, 1),
+      100,
+    );
+
+    const { alerts, total, unread } = await listAnalyticsAlerts(
+      getRealtorId(req),
+      {
+        propertyId:
+          typeof req.query.propertyId === "string"
+            ? req.query.propertyId
+            : undefined,
+        status: parseAlertStatus(
+          req.query.status ?? AnalyticsAlertStatus.ACTIVE,
+        ),
+        includeMuted: req.query.includeMuted === "true",
+        unreadOnly: req.query.unreadOnly === "true",
+        page,
+        limit,
+      },
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: alerts,
+      unread,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/analytics-alerts/read-all:
+ *   patch:
+ *     summary: Mark all alerts as read
+ *     tags: [Analytics Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: propertyId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alerts marked as read
+ */
+router.patch(
+  "/read-all",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const count = await markAllAnalyticsAlertsRead(
+      getRealtorId(req),
+      typeof req.query.propertyId === "string"
+        ? req.query.propertyId
+        : undefined,
+    );
+
+    res.json({
+      success: true,
+      message: `${count} alert(s) marked as read`,
+      data: { count },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/analytics-alerts/{id}/read:
+ *   patch:
+ *     summary: Mark an alert as read
+ *     tags: [Analytics Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert marked as read
+ *       404:
+ *         description: Alert not found
+ */
+router.patch(
+  "/:id/read",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const alert = await markAnalyticsAlertRead(
+      req.params.id,
+      getRealtorId(req),
+    );
+
+    res.json({ success: true, message: "Alert marked as read", data: alert });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/analytics-alerts/{id}/mute:
+ *   patch:
+ *     summary: Mute or unmute an alert
+ *     description: Muted alerts are hidden by default and do not notify when they escalate.
+ *     tags: [Analytics Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [muted]
+ *             properties:
+ *               muted:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Alert updated
+ *       404:
+ *         description: Alert not found
+ */
+router.patch(
+  "/:id/mute",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { muted } = req.body ?? {};
+    if (typeof muted !== "boolean") {
+      throw new AppError("muted must be a boolean", 400);
+    }
+
+    const alert = await setAnalyticsAlertMuted(
+      req.params.id,
+      getRealtorId(req),
+      muted,
+    );
+
+    res.json({
+      success: true,
+      message: muted ? "Alert muted" : "Alert unmuted",
+      data: alert,
+    });
+  }),
+);
+
+export default router;
@@ -1,21 +1,47 @@
 import express, { Request, Response } from "express";
+import { Prisma, SessionRevokeReason } from "@prisma/client";
 import { prisma } from "@/config/database";
 import { AuthenticatedRequest } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
 import {
-  generateTokens,
   hashPassword,
   comparePassword,
   generateRandomToken,
-  verifyRefreshToken,
 } from "@/utils/auth";
+import {
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  rotateSession,
+  startSession,
+} from "@/services/authSessions";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  createTwoFactorChallenge,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  isTwoFactorRequired,
+  markStepUpVerified,
+  readTwoFactorChallenge,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "@/services/twoFactor";
 import {
   registerSchema,
   loginSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
   updateProfileSchema,
+  acceptAdminInviteSchema,
+  acceptRealtorTeamInviteSchema,
 } from "@/utils/validation";
+import { acceptAdminInvite, getAdminInvite } from "@/services/adminTeam";
+import {
+  acceptRealtorTeamInvite,
+  getRealtorTeamInvite,
+} from "@/services/realtorTeam";
 import {
   sendWelcomeEmail,
   sendEmailVerification,
@@ -61,6 +87,110 @@ const normalizeEmail = (value: unknown): string =>
     .trim()
     .toLowerCase();
 
+const LOGIN_USER_SELECT = {
+  id: true,
+  email: true,
+  password: true,
+  firstName: true,
+  lastName: true,
+  fullName: true,
+  role: true,
+  avatar: true,
+  phone: true,
+  isEmailVerified: true,
+  twoFactorEnabled: true,
+  createdAt: true,
+  updatedAt: true,
+  realtor: {
+    select: {
+      id: true,
+      businessName: true,
+      slug: true,
+      status: true,
+    },
+  },
+} satisfies Prisma.UserSelect;
+
+type LoginUser = Prisma.UserGetPayload<{ select: typeof LOGIN_USER_SELECT }>;
+
+/**
+ * Starts the session and sends the password-login response, with the
+ * dashboard the user should land on. Shared by /login and the 2FA
+ * challenge that finishes it; a code entered at sign-in also counts as
+ * step-up verification for the new session.
+ */
+async function sendLoginSuccess(
+  req: Request,
+  res: Response,
+  user: LoginUser,
+  options: {
+    stepUpVerified?: boolean;
+    extraData?: Record<string, unknown>;
+  } = {},
+) {
+  const { accessToken, refreshToken, sessionId } = await startSession(
+    user,
+    req,
+  );
+
+  if (options.stepUpVerified) {
+    await markStepUpVerified(sessionId);
+  }
+
+  logger.info("✅ Login successful:", {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    hasRealtor: !!user.realtor,
+    realtorSlug: user.realtor?.slug,
+  });
+
+  let dashboardUrl = "/";
+  let loginRedirectUrl = "/";
+
+  if (user.role === "REALTOR" && user.realtor && user.isEmailVerified) {
+    dashboardUrl = getDashboardUrl(
+      "realtor",
+      user.realtor.slug,
+      true,
+      req.headers.host,
+    );
+    loginRedirectUrl = dashboardUrl;
+  } else if (
+    user.role === "REALTOR" &&
+    user.realtor &&
+    !user.isEmailVerified
+  ) {
+    const checkEmailPath = `/realtor/check-email?email=${encodeURIComponent(
+      user.email,
+    )}`;
+    loginRedirectUrl = buildMainDomainUrl(checkEmailPath, req.headers.host);
+  } else if (user.role === "ADMIN") {
+    dashboardUrl = getDashboardUrl("admin", undefined, false, req.headers.host);
+    loginRedirectUrl = dashboardUrl;
+  } else {
+    loginRedirectUrl = buildMainDomainUrl("/", req.headers.host);
+  }
+
+  const { password: _, ...userWithoutPassword } = user;
+
+  res.json({
+    success: true,
+    message: "Login successful",
+    data: {
+      user: userWithoutPassword,
+      accessToken,
+      refreshToken,
+      redirectUrl: loginRedirectUrl,
+      ...options.extraData,
+    },
+    redirectUrls: {
+      dashboard: dashboardUrl,
+      primary: loginRedirectUrl,
+    },
+  });
+}
+
 /**
  * @swagger
  * components:
@@ -272,7 +402,10 @@ const normalizeEmail = (value: unknown): string =>
  *             $ref: '#/components/schemas/LoginRequest'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: >
+ *           Login successful, or a 2FA challenge (data.twoFactorRequired) when
+ *           the account uses an authenticator app or must enroll one (admins).
+ *           Finish the challenge with /api/auth/2fa/challenge.
  *         content:
  *           application/json:
  *             schema:
@@ -295,7 +428,6 @@ router.post(
     const { email, password } = value;
     const normalizedEmail = String(email).trim().toLowerCase();
 
-    // Optimize query - only fetch realtor data if user role is REALTOR
     const user = await prisma.user.findFirst({
       where: {
         email: {
@@ -303,28 +435,7 @@ router.post(
           mode: "insensitive",
         },
       },
-      select: {
-        id: true,
-        email: true,
-        password: true,
-        firstName: true,
-        lastName: true,
-        fullName: true,
-        role: true,
-        avatar: true,
-        phone: true,
-        isEmailVerified: true,
-        createdAt: true,
-        updatedAt: true,
-        realtor: {
-          select: {
-            id: true,
-            businessName: true,
-            slug: true,
-            status: true,
-          },
-        },
-      },
+      select: LOGIN_USER_SELECT,
     });
 
     if (!user) {
@@ -335,68 +446,17 @@ router.post(
       throw new AppError("Incorrect password. Please try again.", 401);
     }
 
-    const { accessToken, refreshToken } = generateTokens({
-      id: user.id,
-      email: user.email,
-      role: user.role,
-    });
-
-    logger.info("✅ Login successful:", {
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-      hasRealtor: !!user.realtor,
-      realtorSlug: user.realtor?.slug,
-    });
-
-    let dashboardUrl = "/";
-    let loginRedirectUrl = "/";
-
-    if (user.role === "REALTOR" && user.realtor && user.isEmailVerified) {
-      dashboardUrl = getDashboardUrl(
-        "realtor",
-        user.realtor.slug,
-        true,
-        req.headers.host,
-      );
-      loginRedirectUrl = dashboardUrl;
-    } else if (
-      user.role === "REALTOR" &&
-      user.realtor &&
-      !user.isEmailVerified
-    ) {
-      const checkEmailPath = `/realtor/check-email?email=${encodeURIComponent(
-        user.email,
-      )}`;
-      loginRedirectUrl = buildMainDomainUrl(checkEmailPath, req.headers.host);
-    } else if (user.role === "ADMIN") {
-      dashboardUrl = getDashboardUrl(
-        "admin",
-        undefined,
-        false,
-        req.headers.host,
-      );
-      loginRedirectUrl = dashboardUrl;
-    } else {
-      loginRedirectUrl = buildMainDomainUrl("/", req.headers.host);
+    if (user.twoFactorEnabled || isTwoFactorRequired(user.role)) {
+      return res.json({
+        success: true,
+        message: user.twoFactorEnabled
+          ? "Enter the code from your authenticator app to finish signing in"
+          : "Set up two-factor authentication to finish signing in",
+        data: createTwoFactorChallenge(user),
+      });
     }
 
-    const { password: _, ...userWithoutPassword } = user;
-
-    res.json({
-      success: true,
-      message: "Login successful",
-      data: {
-        user: userWithoutPassword,
-        accessToken,
-        refreshToken,
-        redirectUrl: loginRedirectUrl,
-      },
-      redirectUrls: {
-        dashboard: dashboardUrl,
-        primary: loginRedirectUrl,
-      },
-    });
+    await sendLoginSuccess(req, res, user);
   }),
 );
 
@@ -428,106 +488,602 @@ router.post(
  *       401:
  *         description: Unauthorized
  */
-router.get(
-  "/me",
+router.get(
+  "/me",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      message: "User profile retrieved successfully",
+      data: { user: req.user },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/profile:
+ *   put:
+ *     summary: Update user profile
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateProfileRequest'
+ *     responses:
+ *       200:
+ *         description: Profile updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.put(
+  "/profile",
+  authenticate,
+  uploadSinglePhoto.single("avatar"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = updateProfileSchema.validate(req.body);
+
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const updateData: any = { ...value };
+    if (req.file) {
+      updateData.avatar = req.file.path;
+    }
+    if (updateData.firstName || updateData.lastName) {
+      const nextFirstName = updateData.firstName || req.user!.firstName;
+      const nextLastName = updateData.lastName || req.user!.lastName;
+      updateData.fullName = `${nextFirstName} ${nextLastName}`.trim();
+    }
+
+    const user = await prisma.user.update({
+      where: { id: req.user!.id },
+      data: updateData,
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        fullName: true,
+        phone: true,
+        role: true,
+        avatar: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    res.json({
+      success: true,
+      message: "Profile updated successfully",
+      data: { user },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Logout user
+ *     description: Ends the current device session; its refresh token stops working immediately.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ */
+router.post(
+  "/logout",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (req.sessionId) {
+      await revokeSession(req.sessionId, SessionRevokeReason.LOGOUT);
+    }
+
+    auditLogger
+      .log("USER_LOGOUT", "USER", {
+        entityId: req.user!.id,
+        userId: req.user!.id,
+        details: { sessionId: req.sessionId },
+        req,
+      })
+      .catch(() => {});
+
+    res.json({
+      success: true,
+      message: "Logged out successfully",
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     summary: Sign out everywhere
+ *     description: Ends every session of the current user, including this one.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All sessions ended
+ */
+router.post(
+  "/logout-all",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const revoked = await revokeUserSessions(
+      req.user!.id,
+      SessionRevokeReason.SIGN_OUT_EVERYWHERE,
+    );
+
+    auditLogger
+      .log("SESSION_REVOKE_ALL", "USER", {
+        entityId: req.user!.id,
+        userId: req.user!.id,
+        details: { revoked },
+        req,
+      })
+      .catch(() => {});
+
+    res.json({
+      success: true,
+      message: "Signed out of all devices",
+      data: { revoked },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List signed-in devices
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions, most recently used first; the caller's own session has current=true
+ */
+router.get(
+  "/sessions",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const sessions = await listActiveSessions(req.user!.id, req.sessionId);
+
+    res.json({
+      success: true,
+      message: "Sessions retrieved successfully",
+      data: { sessions },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Sign out a device
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session ended
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+  "/sessions/:sessionId",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { sessionId } = req.params;
+
+    const session = await prisma.userSession.findFirst({
+      where: { id: sessionId, userId: req.user!.id, revokedAt: null },
+      select: { id: true },
+    });
+
+    if (!session) {
+      throw new AppError("Session not found", 404);
+    }
+
+    await revokeSession(
+      session.id,
+      session.id === req.sessionId
+        ? SessionRevokeReason.LOGOUT
+        : SessionRevokeReason.SIGNED_OUT_REMOTELY,
+    );
+
+    auditLogger
+      .log("SESSION_REVOKE", "USER", {
+        entityId: req.user!.id,
+        userId: req.user!.id,
+        details: { sessionId: session.id },
+        req,
+      })
+      .catch(() => {});
+
+    res.json({
+      success: true,
+      message: "Device signed out",
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/status:
+ *   get:
+ *     summary: Two-factor authentication status
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether 2FA is enabled, required for the role, and how many recovery codes remain
+ */
+router.get(
+  "/2fa/status",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const status = await getTwoFactorStatus(req.user!);
+
+    res.json({
+      success: true,
+      message: "Two-factor status retrieved successfully",
+      data: status,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start authenticator app enrollment
+ *     description: Returns a new secret as a QR code and otpauth URL. It is not active until confirmed with /api/auth/2fa/confirm.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Enrollment secret created
+ *       403:
+ *         description: 2FA is not available for this role
+ *       409:
+ *         description: 2FA already enabled
+ */
+router.post(
+  "/2fa/setup",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const enrollment = await beginTwoFactorEnrollment(req.user!);
+
+    res.json({
+      success: true,
+      message: "Scan the QR code with your authenticator app",
+      data: enrollment,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/confirm:
+ *   post:
+ *     summary: Finish authenticator app enrollment
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: 2FA enabled; returns one-time recovery codes (shown only once)
+ *       400:
+ *         description: Code does not match
+ */
+router.post(
+  "/2fa/confirm",
+  authenticate,
+  authLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const recoveryCodes = await confirmTwoFactorEnrollment(
+      req.user!.id,
+      String(req.body.code ?? ""),
+      req,
+    );
+
+    if (req.sessionId) {
+      await markStepUpVerified(req.sessionId);
+    }
+
+    res.json({
+      success: true,
+      message: "Two-factor authentication enabled",
+      data: { recoveryCodes },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     description: Not available to admins, for whom 2FA is mandatory.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Authenticator or recovery code
+ *     responses:
+ *       200:
+ *         description: 2FA disabled
+ *       400:
+ *         description: Invalid code
+ *       403:
+ *         description: 2FA is mandatory for this role
+ */
+router.post(
+  "/2fa/disable",
+  authenticate,
+  authLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await disableTwoFactor(req.user!, String(req.body.code ?? ""), req);
+
+    res.json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace recovery codes
+ *     description: Invalidates every previous recovery code.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes (shown only once)
+ *       400:
+ *         description: Invalid code
+ */
+router.post(
+  "/2fa/recovery-codes",
+  authenticate,
+  authLimiter,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const recoveryCodes = await regenerateRecoveryCodes(
+      req.user!.id,
+      String(req.body.code ?? ""),
+      req,
+    );
+
+    res.json({
+      success: true,
+      message: "New recovery codes generated",
+      data: { recoveryCodes },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/step-up:
+ *   post:
+ *     summary: Re-verify before a sensitive action
+ *     description: >
+ *       Payout account changes, withdrawals and platform finance settings
+ *       answer 403 with statusCode STEP_UP_REQUIRED until the session has
+ *       been re-verified here within the last few minutes.
+ *     tags: [Authentication]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Authenticator or recovery code
+ *     responses:
+ *       200:
+ *         description: Session verified; data.stepUpExpiresAt says until when
+ *       400:
+ *         description: Invalid code
+ */
+router.post(
+  "/2fa/step-up",
   authenticate,
+  authLimiter,
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await verifySecondFactor(req.user!.id, String(req.body.code ?? ""), req);
+    const stepUpExpiresAt = await markStepUpVerified(req.sessionId!);
+
     res.json({
       success: true,
-      message: "User profile retrieved successfully",
-      data: { user: req.user },
+      message: "Verified",
+      data: { stepUpExpiresAt },
     });
   }),
 );
 
 /**
  * @swagger
- * /api/auth/profile:
- *   put:
- *     summary: Update user profile
+ * /api/auth/2fa/challenge/setup:
+ *   post:
+ *     summary: Enroll an authenticator app during sign-in
+ *     description: For accounts that must use 2FA (admins) but have not set it up yet; the login response has setupRequired=true.
  *     tags: [Authentication]
- *     security:
- *       - BearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
- *         multipart/form-data:
+ *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/UpdateProfileRequest'
+ *             type: object
+ *             required: [challengeToken]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
  *     responses:
  *       200:
- *         description: Profile updated successfully
- *       400:
- *         description: Validation error
+ *         description: Enrollment secret created
  *       401:
- *         description: Unauthorized
+ *         description: Challenge expired
  */
-router.put(
-  "/profile",
-  authenticate,
-  uploadSinglePhoto.single("avatar"),
-  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    const { error, value } = updateProfileSchema.validate(req.body);
+router.post(
+  "/2fa/challenge/setup",
+  authLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { userId } = readTwoFactorChallenge(
+      String(req.body.challengeToken ?? ""),
+    );
 
-    if (error) {
-      throw new AppError(error.details[0].message, 400);
-    }
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, role: true, twoFactorEnabled: true },
+    });
 
-    const updateData: any = { ...value };
-    if (req.file) {
-      updateData.avatar = req.file.path;
-    }
-    if (updateData.firstName || updateData.lastName) {
-      const nextFirstName = updateData.firstName || req.user!.firstName;
-      const nextLastName = updateData.lastName || req.user!.lastName;
-      updateData.fullName = `${nextFirstName} ${nextLastName}`.trim();
+    if (!user) {
+      throw new AppError(
+        "Your sign-in attempt has expired. Please sign in again.",
+        401,
+      );
     }
 
-    const user = await prisma.user.update({
-      where: { id: req.user!.id },
-      data: updateData,
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        fullName: true,
-        phone: true,
-        role: true,
-        avatar: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+    const enrollment = await beginTwoFactorEnrollment(user);
 
     res.json({
       success: true,
-      message: "Profile updated successfully",
-      data: { user },
+      message: "Scan the QR code with your authenticator app",
+      data: enrollment,
     });
   }),
 );
 
 /**
  * @swagger
- * /api/auth/logout:
+ * /api/auth/2fa/challenge:
  *   post:
- *     summary: Logout user
+ *     summary: Finish signing in with a 2FA code
+ *     description: >
+ *       Exchanges the challenge token from /login or /verify-login and an
+ *       authenticator (or recovery) code for a session. During first-time
+ *       enrollment the code confirms the new authenticator and the response
+ *       also carries the recovery codes.
  *     tags: [Authentication]
- *     security:
- *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken, code]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
  *     responses:
  *       200:
- *         description: Logged out successfully
+ *         description: Login successful
+ *       400:
+ *         description: Invalid code
+ *       401:
+ *         description: Challenge expired
  */
 router.post(
-  "/logout",
-  authenticate,
-  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    res.json({
-      success: true,
-      message: "Logged out successfully",
+  "/2fa/challenge",
+  authLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { challengeToken, code } = req.body;
+    const { userId } = readTwoFactorChallenge(String(challengeToken ?? ""));
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: LOGIN_USER_SELECT,
     });
+
+    if (!user) {
+      throw new AppError(
+        "Your sign-in attempt has expired. Please sign in again.",
+        401,
+      );
+    }
+
+    if (user.twoFactorEnabled) {
+      await verifySecondFactor(user.id, String(code ?? ""), req);
+      await sendLoginSuccess(req, res, user, { stepUpVerified: true });
+      return;
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrollment(
+      user.id,
+      String(code ?? ""),
+      req,
+    );
+
+    await sendLoginSuccess(
+      req,
+      res,
+      { ...user, twoFactorEnabled: true },
+      { stepUpVerified: true, extraData: { recoveryCodes } },
+    );
   }),
 );
 
@@ -536,6 +1092,7 @@ router.post(
  * /api/auth/refresh:
  *   post:
  *     summary: Refresh access token
+ *     description: Returns a new access and refresh token. The presented refresh token is spent; presenting it again later ends the session on every device that shares it.
  *     tags: [Authentication]
  *     requestBody:
  *       required: true
@@ -549,7 +1106,7 @@ router.post(
  *       400:
  *         description: Refresh token required
  *       401:
- *         description: Invalid or expired refresh token
+ *         description: Invalid, expired, revoked or reused refresh token
  */
 router.post(
   "/refresh",
@@ -560,23 +1117,10 @@ router.post(
       throw new AppError("Refresh token required", 400);
     }
 
-    let userId, userEmail, userRole;
-
-    try {
-      const decoded = verifyRefreshToken(refreshToken);
-      userId = decoded.id;
-      userEmail = decoded.email;
-      userRole = decoded.role;
-    } catch (error) {
-      logger.error("❌ Refresh token verification failed:", error);
-      throw new AppError("Invalid or expired refresh token", 401);
-    }
-
-    const { accessToken, refreshToken: newRefreshToken } = generateTokens({
-      id: userId,
-      email: userEmail,
-      role: userRole,
-    });
+    const { accessToken, refreshToken: newRefreshToken } = await rotateSession(
+      String(refreshToken),
+      req,
+    );
 
     res.json({
       success: true,
@@ -704,11 +1248,10 @@ router.get(
       },
     });
 
-    const { accessToken, refreshToken } = generateTokens({
-      id: verifiedUser.id,
-      email: verifiedUser.email,
-      role: verifiedUser.role,
-    });
+    const { accessToken, refreshToken } = await startSession(
+      verifiedUser,
+      req,
+    );
 
     sendWelcomeEmail(
       verifiedUser.email,
@@ -983,6 +1526,8 @@ router.post(
       },
     });
 
+    await revokeUserSessions(user.id, SessionRevokeReason.PASSWORD_CHANGED);
+
     res.json({
       success: true,
       message: "Password reset successfully",
@@ -1303,7 +1848,7 @@ router.post(
       where: { id: pendingReg.id },
     });
 
-    const { accessToken, refreshToken } = generateTokens(user);
+    const { accessToken, refreshToken } = await startSession(user, req);
 
     try {
       await sendWelcomeEmail(
@@ -1355,7 +1900,7 @@ router.post(
  *             $ref: '#/components/schemas/OTPVerifyRequest'
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a 2FA challenge (data.twoFactorRequired)
  *       400:
  *         description: Invalid or expired OTP
  */
@@ -1438,7 +1983,16 @@ router.post(
       },
     });
 
-    const { accessToken, refreshToken } = generateTokens(user);
+    if (user.twoFactorEnabled || isTwoFactorRequired(user.role)) {
+      return res.json({
+        success: true,
+        message:
+          "Enter the code from your authenticator app to finish signing in",
+        data: createTwoFactorChallenge(user),
+      });
+    }
+
+    const { accessToken, refreshToken } = await startSession(user, req);
 
     res.json({
       success: true,
@@ -1532,11 +2086,19 @@ router.patch(
       data: { password: hashedPassword },
     });
 
-    logger.info("Password changed", { userId });
+    // Keep this device signed in; everything else must sign in again
+    const revokedSessions = await revokeUserSessions(
+      userId,
+      SessionRevokeReason.PASSWORD_CHANGED,
+      { exceptSessionId: req.sessionId },
+    );
+
+    logger.info("Password changed", { userId, revokedSessions });
 
     res.json({
       success: true,
-      message: "Password updated successfully",
+      message: "Password updated successfully. Other devices have been signed out.",
+      data: { revokedSessions },
     });
   }),
 );
@@ -1614,6 +2176,8 @@ const completeAccountDeletion = async (userId: string, reason?: string) => {
     },
   });
 
+  await revokeUserSessions(userId, SessionRevokeReason.ACCOUNT_DELETED);
+
   logger.info("Account deleted", {
     userId,
     details: { reason },
@@ -1807,4 +2371,187 @@ router.delete(
   }),
 );
 
+/**
+ * @swagger
+ * /api/auth/admin-invites/{token}:
+ *   get:
+ *     summary: Look up an admin invitation
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invited email and role
+ *       404:
+ *         description: Invitation not valid
+ *       410:
+ *         description: Invitation already used or expired
+ */
+router.get(
+  "/admin-invites/:token",
+  authLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({ success: true, data: await getAdminInvite(req.params.token) });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/admin-invites/accept:
+ *   post:
+ *     summary: Create an admin account from an invitation
+ *     description: The account gets the role chosen when the invite was sent. Sign in afterwards as usual.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, firstName, lastName, password]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Admin account created
+ *       409:
+ *         description: An account with this email already exists
+ *       410:
+ *         description: Invitation already used or expired
+ */
+router.post(
+  "/admin-invites/accept",
+  authLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = acceptAdminInviteSchema.validate(req.body);
+
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { user, inviteId, invitedById } = await acceptAdminInvite(value);
+
+    await auditLogger.log("ADMIN_INVITE_ACCEPT", "ADMIN_INVITE", {
+      entityId: inviteId,
+      userId: user.id,
+      adminId: invitedById,
+      details: { email: user.email, adminRole: user.adminRole },
+      req,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Your admin account is ready. Sign in to continue.",
+      data: { user },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/team-invites/{token}:
+ *   get:
+ *     summary: Look up a realtor team invitation
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invited email, team role and business name
+ *       404:
+ *         description: Invitation not valid
+ *       410:
+ *         description: Invitation already used or expired
+ */
+router.get(
+  "/team-invites/:token",
+  authLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    res.json({
+      success: true,
+      data: await getRealtorTeamInvite(req.params.token),
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/auth/team-invites/accept:
+ *   post:
+ *     summary: Create a team member account from a realtor's invitation
+ *     description: The account works on the inviting realtor's dashboard with the role chosen when the invite was sent. Sign in afterwards as usual.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, firstName, lastName, password]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               firstName:
+ *                 type: string
+ *               lastName:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Team member account created
+ *       409:
+ *         description: An account with this email already exists
+ *       410:
+ *         description: Invitation already used or expired
+ */
+router.post(
+  "/team-invites/accept",
+  authLimiter,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { error, value } = acceptRealtorTeamInviteSchema.validate(req.body);
+
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { user, member, realtorId, inviteId, invitedById } =
+      await acceptRealtorTeamInvite(value);
+
+    await auditLogger.log("REALTOR_TEAM_INVITE_ACCEPT", "REALTOR_TEAM_INVITE", {
+      entityId: inviteId,
+      userId: user.id,
+      details: {
+        email: user.email,
+        realtorId,
+        memberId: member.id,
+        role: member.role,
+        invitedById,
+      },
+      req,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Your team account is ready. Sign in to continue.",
+      data: { user, role: member.role },
+    });
+  }),
+);
+
 export default router;
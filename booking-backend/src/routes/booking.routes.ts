@@ -1,17 +1,15 @@
 import express, { Response } from "express";
-import {
-  BookingStatus,
-  Prisma,
-  PaymentStatus,
-  PaymentMethod,
-} from "@prisma/client";
+import { BookingStatus, Prisma, PaymentStatus } from "@prisma/client";
 import { prisma } from "@/config/database";
 import { AuthenticatedRequest, BookingSearchQuery } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
 import { createBookingSchema } from "@/utils/validation";
-import { refundPolicyService } from "@/services/refundPolicy";
+import {
+  describeCancellationPolicy,
+  readCancellationPolicy,
+  refundPolicyService,
+} from "@/services/refundPolicy";
 import { processAutomaticCancellationRefund } from "@/services/cancellationRefund";
-import { paystackService } from "@/services/paystack";
 import { sendBookingCancellation } from "@/services/email";
 import { auditLogger } from "@/services/auditLogger";
 import {
@@ -27,17 +25,52 @@ import {
   applyGuestBookingAccessControl,
   isBookingPaymentConfirmed,
   buildBookingVerificationCode,
-  isBlockedDatesSpecialRequest,
-  buildBlockedDatesSpecialRequest,
 } from "@/services/bookingAccessControl";
+import {
+  buildBlockOverlapFilter,
+  createAvailabilityBlock,
+  expandBlockedNights,
+  listAvailabilityBlocks,
+  parseAvailabilityBlockInput,
+} from "@/services/availabilityBlocks";
 import { loadFinanceConfig } from "@/services/financeConfig";
+import { getStayLengthViolation, quoteBooking } from "@/services/pricingEngine";
+import {
+  SettlementCurrency,
+  getLocalMonthBounds,
+  settlementCurrencyOf,
+} from "@/services/currency";
 import {
-  computeGuestServiceFee,
-  getCurrentLagosMonthBounds,
-  quoteBooking,
-} from "@/services/pricingEngine";
+  convertWithSnapshot,
+  fxSnapshotBookingData,
+  lockFxRate,
+  parseDisplayCurrency,
+} from "@/services/currencyService";
+import { readPricingRules } from "@/services/pricingRules";
+import {
+  approveBookingModification,
+  cancelBookingModification,
+  declineBookingModification,
+  listBookingModifications,
+  previewBookingModification,
+  requestBookingModification,
+} from "@/services/bookingModification";
+import { SystemMessageService } from "@/services/systemMessage";
+import {
+  actsForRealtor,
+  assertRealtorPermission,
+} from "@/services/realtorTeam";
+import { realtorAccessWhere } from "@/services/realtorTeamRules";
+import { getGuestRatingSummaries } from "@/services/guestReviews";
+import { getReviewWindowClosesAt } from "@/services/reviewWindow";
 import { logger } from "@/utils/logger";
-import { authenticate, authorize } from "@/middleware/auth";
+import { buildSnapshotDateTime } from "@/utils/timezone";
+import {
+  authenticate,
+  authorize,
+  requireRealtorPermission,
+} from "@/middleware/auth";
+import { hasAdminPermission } from "@/services/adminPermissionRules";
 import { bookingLimiter } from "@/middleware/rateLimiter";
 import { config } from "@/config";
 
@@ -52,38 +85,6 @@ const CONFIRMED_PAYMENT_STATUSES: PaymentStatus[] = [
 const BOOKING_PAYMENT_TIMEOUT_MS =
   config.BOOKING_PAYMENT_TIMEOUT_MINUTES * 60 * 1000;
 
-const buildSnapshotDateTime = (
-  baseDate: Date,
-  propertyTime: string | null | undefined,
-  fallbackHour: number,
-  fallbackMinute: number,
-): Date => {
-  const snapshot = new Date(baseDate);
-  snapshot.setHours(fallbackHour, fallbackMinute, 0, 0);
-
-  if (!propertyTime) {
-    return snapshot;
-  }
-
-  const normalized = propertyTime.trim();
-  const matched = normalized.match(/^(\d{1,2}):(\d{2})$/);
-  if (!matched) {
-    return snapshot;
-  }
-
-  const hour = Number(matched[1]);
-  const minute = Number(matched[2]);
-  if (!Number.isFinite(hour) || !Number.isFinite(minute)) {
-    return snapshot;
-  }
-  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
-    return snapshot;
-  }
-
-  snapshot.setHours(hour, minute, 0, 0);
-  return snapshot;
-};
-
 const BOOKING_CREATE_COMPAT_FIELDS = [
   "checkInAtSnapshot",
   "checkOutAtSnapshot",
@@ -94,6 +95,14 @@ const BOOKING_CREATE_COMPAT_FIELDS = [
   "serviceFeeStayza",
   "serviceFeeProcessing",
   "processingFeeMode",
+  "pricingRulesSnapshot",
+  "nightlyBreakdown",
+  "cancellationPolicySnapshot",
+  "displayCurrency",
+  "fxRate",
+  "fxRateSource",
+  "fxRateLockedAt",
+  "displayTotalPrice",
 ] as const;
 
 const resolveMissingCreateField = (
@@ -162,11 +171,13 @@ const getStaleUnpaidBookingFilter = (): Prisma.BookingWhereInput => {
   };
 };
 
+// Volume discounts count bookings in the property's currency only
 const getMonthlyConfirmedRoomFeeVolume = async (
   realtorId: string,
+  currency: SettlementCurrency,
   db: Pick<typeof prisma, "booking"> = prisma,
 ): Promise<number> => {
-  const { start, end } = getCurrentLagosMonthBounds();
+  const { start, end } = getLocalMonthBounds(currency);
   try {
     const aggregate = await db.booking.aggregate({
       _sum: {
@@ -176,6 +187,7 @@ const getMonthlyConfirmedRoomFeeVolume = async (
         property: {
           realtorId,
         },
+        currency,
         status: {
           in: [
             BookingStatus.ACTIVE,
@@ -293,7 +305,7 @@ const getMonthlyConfirmedRoomFeeVolume = async (
  * /api/bookings/calculate:
  *   post:
  *     summary: Calculate booking price
- *     description: Calculate total booking price including fees and commission breakdown
+ *     description: Calculate total booking price including fees, commission breakdown and per-night rates from the property pricing rules
  *     tags: [Bookings]
  *     requestBody:
  *       required: true
@@ -316,6 +328,13 @@ const getMonthlyConfirmedRoomFeeVolume = async (
  *                 format: date
  *               guests:
  *                 type: integer
+ *               displayCurrency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES, USD, EUR, XOF]
+ *                 description: >
+ *                   Also return the amounts converted into this currency at
+ *                   the current rate. The guest is still charged in the
+ *                   property's currency.
  *     responses:
  *       200:
  *         description: Booking calculation successful
@@ -366,9 +385,17 @@ router.post(
     const nights = Math.ceil(
       (checkOut.getTime() - checkIn.getTime()) / (1000 * 60 * 60 * 24),
     );
-    const financeConfig = await loadFinanceConfig();
+    const pricingRules = readPricingRules(property.pricingRules);
+    const stayLengthViolation = getStayLengthViolation(pricingRules, nights);
+    if (stayLengthViolation) {
+      throw new AppError(stayLengthViolation, 400);
+    }
+
+    const currency = settlementCurrencyOf(property.currency);
+    const financeConfig = await loadFinanceConfig(currency);
     const monthlyVolume = await getMonthlyConfirmedRoomFeeVolume(
       property.realtorId,
+      currency,
     );
     const quote = quoteBooking(
       {
@@ -380,9 +407,17 @@ router.post(
           : 0,
         monthlyVolume,
         paystackMode: "LOCAL",
+        checkInDate: checkIn,
+        pricingRules,
       },
       financeConfig,
     );
+    const fxSnapshot = req.body.displayCurrency
+      ? await lockFxRate(
+          currency,
+          parseDisplayCurrency(req.body.displayCurrency),
+        )
+      : null;
 
     res.json({
       success: true,
@@ -398,6 +433,7 @@ router.post(
         total: quote.totalPayable,
         currency: property.currency,
         nights,
+        nightlyBreakdown: quote.nightlyBreakdown,
         serviceFeeBreakdown: quote.serviceFeeBreakdown,
         realtorPreview: {
           baseRate: quote.commissionSnapshot.baseRate,
@@ -407,6 +443,21 @@ router.post(
           estimatedNetPayout: quote.estimatedNetPayout,
         },
         monthlyVolumeProgress: quote.monthlyVolumeProgress,
+        display: fxSnapshot
+          ? {
+              currency: fxSnapshot.displayCurrency,
+              rate: fxSnapshot.rate,
+              rateSource: fxSnapshot.source,
+              lockedAt: fxSnapshot.lockedAt,
+              ...convertWithSnapshot(fxSnapshot, {
+                roomFee: quote.roomFee,
+                cleaningFee: quote.cleaningFee,
+                serviceFee: quote.serviceFee,
+                securityDeposit: quote.securityDeposit,
+                total: quote.totalPayable,
+              }),
+            }
+          : null,
         breakdown: {
           pricePerNight: Number(Number(property.pricePerNight).toFixed(2)),
           roomFee: quote.roomFee,
@@ -541,7 +592,15 @@ router.get(
       },
     });
 
-    const unavailableDates: string[] = [];
+    const blocks = await listAvailabilityBlocks(propertyId, {
+      from: checkInDate,
+      to: checkOutDate,
+    });
+    const unavailableDates = expandBlockedNights(
+      blocks,
+      checkInDate,
+      checkOutDate,
+    );
 
     const isAvailable =
       conflictingBookings.length === 0 && unavailableDates.length === 0;
@@ -593,6 +652,13 @@ router.get(
  *                 type: integer
  *               specialRequests:
  *                 type: string
+ *               displayCurrency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES, USD, EUR, XOF]
+ *                 description: >
+ *                   Currency the guest sees prices in. The exchange rate is
+ *                   locked and stored on the booking; the guest is charged
+ *                   in the property's currency.
  *     responses:
  *       201:
  *         description: Booking created successfully
@@ -619,6 +685,7 @@ router.post(
       checkOutDate,
       totalGuests,
       specialRequests,
+      displayCurrency,
     } = value;
 
     const property = await prisma.property.findUnique({
@@ -667,7 +734,9 @@ router.post(
       throw new AppError("Check-in date must be at least tomorrow", 400);
     }
 
-    const financeConfig = await loadFinanceConfig();
+    const currency = settlementCurrencyOf(property.currency);
+    const financeConfig = await loadFinanceConfig(currency);
+    const fxSnapshot = await lockFxRate(currency, displayCurrency ?? currency);
     const result = await prisma.$transaction(async (tx) => {
       const conflictingBookings = await tx.booking.findMany({
         where: {
@@ -707,9 +776,14 @@ router.post(
         throw new AppError("Property is not available for selected dates", 400);
       }
 
-      const unavailableDates: string[] = [];
+      const blockedRanges = await tx.propertyAvailabilityBlock.count({
+        where: {
+          propertyId,
+          ...buildBlockOverlapFilter(checkIn, checkOut),
+        },
+      });
 
-      if (unavailableDates.length > 0) {
+      if (blockedRanges > 0) {
         throw new AppError("Property is not available for selected dates", 400);
       }
 
@@ -718,6 +792,11 @@ router.post(
       );
 
       const pricePerNight = Number(property.pricePerNight);
+      const pricingRules = readPricingRules(property.pricingRules);
+      const stayLengthViolation = getStayLengthViolation(pricingRules, nights);
+      if (stayLengthViolation) {
+        throw new AppError(stayLengthViolation, 400);
+      }
 
       const cleaningFee = property.cleaningFee
         ? Number(property.cleaningFee)
@@ -727,6 +806,7 @@ router.post(
         : 0;
       const monthlyVolume = await getMonthlyConfirmedRoomFeeVolume(
         property.realtor.id,
+        currency,
         tx,
       );
       const quote = quoteBooking(
@@ -737,6 +817,8 @@ router.post(
           securityDeposit,
           monthlyVolume,
           paystackMode: "LOCAL",
+          checkInDate: checkIn,
+          pricingRules,
         },
         financeConfig,
       );
@@ -766,7 +848,8 @@ router.post(
         checkOutAtSnapshot,
         totalGuests,
         totalPrice: new Prisma.Decimal(totalPrice.toFixed(2)),
-        currency: property.currency,
+        currency,
+        ...fxSnapshotBookingData(fxSnapshot, totalPrice),
         specialRequests: specialRequests || "",
         refundCutoffTime,
         payoutEligibleAt,
@@ -791,6 +874,13 @@ router.post(
           quote.serviceFeeBreakdown.processing,
         ),
         processingFeeMode: quote.serviceFeeBreakdown.processingMode,
+        pricingRulesSnapshot:
+          quote.pricingRulesSnapshot as unknown as Prisma.InputJsonValue,
+        nightlyBreakdown:
+          quote.nightlyBreakdown as unknown as Prisma.InputJsonValue,
+        cancellationPolicySnapshot: readCancellationPolicy(
+          property.cancellationPolicy,
+        ) as unknown as Prisma.InputJsonValue,
         guestId: req.user!.id,
         propertyId,
       };
@@ -1117,6 +1207,7 @@ router.get(
   "/realtor-bookings",
   authenticate,
   authorize("REALTOR"),
+  requireRealtorPermission("bookings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const {
       page = "1",
@@ -1131,9 +1222,9 @@ router.get(
     const limitNum = parseInt(limit, 10);
     const skip = (pageNum - 1) * limitNum;
 
-    // Get realtor record from user ID
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user!.id },
+    // Get the realtor record the user owns or works for
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user!.id),
     });
 
     if (!realtor) {
@@ -1205,6 +1296,23 @@ router.get(
               paidAt: true,
             },
           },
+          review: {
+            select: {
+              id: true,
+              revealedAt: true,
+            },
+          },
+          guestReview: {
+            select: {
+              id: true,
+              cleanlinessRating: true,
+              communicationRating: true,
+              houseRulesRating: true,
+              comment: true,
+              revealedAt: true,
+              createdAt: true,
+            },
+          },
         },
         orderBy: {
           [sortBy]: sortOrder,
@@ -1215,10 +1323,18 @@ router.get(
       prisma.booking.count({ where }),
     ]);
 
+    const guestRatings = await getGuestRatingSummaries(
+      bookings.map((booking) => booking.guestId),
+    );
+
     res.json({
       success: true,
       message: "Host bookings retrieved successfully",
-      data: bookings,
+      data: bookings.map((booking) => ({
+        ...booking,
+        guestRating: guestRatings.get(booking.guestId),
+        reviewWindowClosesAt: getReviewWindowClosesAt(booking.checkOutDate),
+      })),
       pagination: {
         page: pageNum,
         limit: limitNum,
@@ -1264,11 +1380,7 @@ router.get(
             title: true,
             city: true,
             state: true,
-            realtor: {
-              select: {
-                userId: true,
-              },
-            },
+            realtorId: true,
           },
         },
         guest: {
@@ -1284,8 +1396,14 @@ router.get(
       throw new AppError("Booking not found for this verification code", 404);
     }
 
-    const isAdmin = req.user!.role === "ADMIN";
-    const isAssignedRealtor = booking.property.realtor.userId === req.user!.id;
+    const isAdmin = hasAdminPermission(req.user!, "bookings.read");
+    const isAssignedRealtor =
+      !isAdmin &&
+      (await actsForRealtor(
+        req.user!.id,
+        booking.property.realtorId,
+        "checkins.manage",
+      ));
     if (!isAdmin && !isAssignedRealtor) {
       throw new AppError("Not authorized to verify this booking", 403);
     }
@@ -1424,10 +1542,22 @@ router.get(
             id: true,
             rating: true,
             comment: true,
+            revealedAt: true,
             createdAt: true,
             updatedAt: true,
           },
         },
+        guestReview: {
+          select: {
+            id: true,
+            cleanlinessRating: true,
+            communicationRating: true,
+            houseRulesRating: true,
+            comment: true,
+            revealedAt: true,
+            createdAt: true,
+          },
+        },
       },
     });
 
@@ -1436,16 +1566,43 @@ router.get(
     }
 
     const isOwner = booking.guestId === req.user!.id;
-    const isHost = booking.property.realtor.userId === req.user!.id;
-    const isAdmin = req.user!.role === "ADMIN";
+    const isHost =
+      !isOwner &&
+      (await actsForRealtor(
+        req.user!.id,
+        booking.property.realtor.id,
+        "bookings.read",
+      ));
+    const isAdmin = hasAdminPermission(req.user!, "bookings.read");
 
     if (!isOwner && !isHost && !isAdmin) {
       throw new AppError("Not authorized to view this booking", 403);
     }
 
     const isGuestOwner = isOwner && req.user!.role === "GUEST";
+    const guestRatings =
+      isHost || isAdmin
+        ? await getGuestRatingSummaries([booking.guestId])
+        : null;
     const bookingWithAccessControl = applyGuestBookingAccessControl(
-      booking as Record<string, unknown>,
+      {
+        ...booking,
+        // Double-blind reviews: each side sees the other's review only once
+        // it is revealed
+        review:
+          booking.review && (booking.review.revealedAt || isOwner || isAdmin)
+            ? booking.review
+            : null,
+        guestReview:
+          booking.guestReview &&
+          (booking.guestReview.revealedAt || isHost || isAdmin)
+            ? booking.guestReview
+            : null,
+        reviewWindowClosesAt: getReviewWindowClosesAt(booking.checkOutDate),
+        ...(guestRatings
+          ? { guestRating: guestRatings.get(booking.guestId) }
+          : {}),
+      } as Record<string, unknown>,
       isGuestOwner,
     );
 
@@ -1516,11 +1673,7 @@ router.put(
         },
         property: {
           select: {
-            realtor: {
-              select: {
-                userId: true,
-              },
-            },
+            realtorId: true,
           },
         },
       },
@@ -1530,8 +1683,12 @@ router.put(
       throw new AppError("Booking not found", 404);
     }
 
-    const isHost = booking.property.realtor.userId === req.user!.id;
-    const isAdmin = req.user!.role === "ADMIN";
+    const isHost = await actsForRealtor(
+      req.user!.id,
+      booking.property.realtorId,
+      "bookings.manage",
+    );
+    const isAdmin = hasAdminPermission(req.user!, "bookings.manage");
 
     if (!isHost && !isAdmin) {
       throw new AppError("Not authorized to update this booking", 403);
@@ -1542,11 +1699,8 @@ router.put(
         booking.payment?.status ?? null,
         booking.paymentStatus ?? null,
       );
-      const isBlockedDatesBooking = isBlockedDatesSpecialRequest(
-        booking.specialRequests,
-      );
 
-      if (!paymentConfirmed && !isBlockedDatesBooking) {
+      if (!paymentConfirmed) {
         throw new AppError(
           "Booking can only be activated after successful payment verification",
           400,
@@ -1574,6 +1728,15 @@ router.put(
       },
     });
 
+    if (status === BookingStatus.CANCELLED) {
+      SystemMessageService.cancelBookingMessages(id).catch((error) => {
+        logger.error("Failed to cancel booking system messages", {
+          bookingId: id,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    }
+
     try {
       const notificationService = NotificationService.getInstance();
       let notification = null;
@@ -1707,11 +1870,21 @@ router.get(
       booking,
     });
 
-    let tierPercentages = { customer: 90, realtor: 7, platform: 3 };
+    const toRoomFeePercent = (amount: number) =>
+      refundCalc.roomFee > 0
+        ? Math.round((amount / refundCalc.roomFee) * 1000) / 10
+        : 0;
+    const tierPercentages = {
+      customer: toRoomFeePercent(refundCalc.customerRoomRefund),
+      realtor: toRoomFeePercent(refundCalc.realtorRoomPortion),
+      platform: toRoomFeePercent(refundCalc.platformRoomPortion),
+    };
     let warning = null;
 
-    if (refundCalc.tier !== "EARLY") {
+    if (refundCalc.tier === "NONE") {
       warning = "❌ Cancellation not allowed within 24 hours of check-in.";
+    } else if (refundCalc.customerRoomRefund === 0) {
+      warning = `Under the ${refundCalc.policy.name} policy the room fee is no longer refundable. Only the security deposit will be returned.`;
     }
 
     const refundInfo = {
@@ -1753,6 +1926,12 @@ router.get(
         platformPortion: refundCalc.totalPlatformPortion,
       },
 
+      // Schedule the guest agreed to when booking
+      policy: {
+        ...refundCalc.policy,
+        schedule: describeCancellationPolicy(refundCalc.policy),
+      },
+
       currency: booking.currency,
       reason: refundCalc.reason,
       warning,
@@ -1878,6 +2057,13 @@ router.put(
       );
     }
 
+    SystemMessageService.cancelBookingMessages(id).catch((error) => {
+      logger.error("Failed to cancel booking system messages", {
+        bookingId: id,
+        error: error instanceof Error ? error.message : error,
+      });
+    });
+
     let refundInfo: {
       amount?: number;
       eligible?: boolean;
@@ -1969,7 +2155,7 @@ router.put(
       if (refundInfo?.eligible && refundInfo?.totalCustomerRefund > 0) {
         realtorMessage += `. Refund automatically processed - guest receives ${refundInfo.totalCustomerRefund} ${booking.currency}, you receive ${refundInfo.totalRealtorPortion} ${booking.currency}.`;
       } else if (refundInfo?.tier === "LATE") {
-        realtorMessage += `. Late cancellation - guest receives no refund, you receive 80% of payment.`;
+        realtorMessage += `. Late cancellation under your cancellation policy - guest receives no room fee refund, you receive ${refundInfo.totalRealtorPortion} ${booking.currency}.`;
       }
 
       const realtorNotification = {
@@ -2042,11 +2228,7 @@ router.get(
         guestId: true,
         property: {
           select: {
-            realtor: {
-              select: {
-                userId: true,
-              },
-            },
+            realtorId: true,
           },
         },
       },
@@ -2064,8 +2246,12 @@ router.get(
 
     const isAuthorized =
       user.id === booking.guestId ||
-      user.id === booking.property?.realtor.userId ||
-      user.role === "ADMIN";
+      hasAdminPermission(user, "bookings.read") ||
+      (await actsForRealtor(
+        user.id,
+        booking.property.realtorId,
+        "bookings.read",
+      ));
 
     if (!isAuthorized) {
       throw new AppError(
@@ -2112,7 +2298,7 @@ router.get(
  * /api/bookings/{id}/modify:
  *   post:
  *     summary: Request booking modification
- *     description: Request to modify booking dates or guest count. Cannot modify within 48 hours of check-in.
+ *     description: Ask the host to move a confirmed booking to new dates or change the guest count. The stay is re-quoted with the property's current pricing rules; on approval the difference is charged to the guest's saved card or refunded from escrow. Only available until 24 hours before check-in.
  *     tags: [Bookings]
  *     security:
  *       - BearerAuth: []
@@ -2141,21 +2327,55 @@ router.get(
  *               reason:
  *                 type: string
  *     responses:
- *       200:
- *         description: Modification request submitted
+ *       201:
+ *         description: Modification request submitted for host approval
  *       400:
- *         description: Cannot modify (too close to check-in or invalid data)
+ *         description: Cannot modify (too close to check-in, unavailable dates or invalid data)
+ *       409:
+ *         description: Another modification is already awaiting a response
  */
 router.post(
   "/:id/modify",
   authenticate,
+  authorize("GUEST"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    return res.status(410).json({
-      success: false,
-      message:
-        "Booking modification is no longer available. Use Book Again to rebook with new dates.",
-      error: {
-        code: "BOOKING_MODIFICATION_DISABLED",
+    const { id } = req.params;
+    const { modification, quote } = await requestBookingModification(
+      id,
+      req.user!.id,
+      {
+        newCheckInDate: req.body?.newCheckInDate,
+        newCheckOutDate: req.body?.newCheckOutDate,
+        newGuestCount: req.body?.newGuestCount,
+        reason: req.body?.reason,
+      },
+    );
+
+    auditLogger
+      .log("BOOKING_MODIFICATION_REQUEST", "BOOKING", {
+        entityId: id,
+        userId: req.user!.id,
+        details: {
+          modificationId: modification.id,
+          newCheckInDate: quote.newCheckInDate,
+          newCheckOutDate: quote.newCheckOutDate,
+          newTotalGuests: quote.newTotalGuests,
+          amountDue: quote.amountDue,
+          refundAmount: quote.refundAmount,
+        },
+        req,
+      })
+      .catch(() => {});
+
+    res.status(201).json({
+      success: true,
+      message: "Modification request sent to the host",
+      data: {
+        modification,
+        priceDifference: quote.amountDue - quote.refundAmount,
+        requiresPayment: quote.requiresPayment,
+        amountDue: quote.amountDue,
+        refundAmount: quote.refundAmount,
       },
     });
   }),
@@ -2166,7 +2386,7 @@ router.post(
  * /api/bookings/{id}/modification-options:
  *   get:
  *     summary: Calculate modification costs
- *     description: Calculate price difference for potential booking modifications
+ *     description: Re-quote the booking for new dates and report availability and the amount that would be charged or refunded
  *     tags: [Bookings]
  *     security:
  *       - BearerAuth: []
@@ -2186,31 +2406,84 @@ router.post(
  *         schema:
  *           type: string
  *           format: date
+ *       - in: query
+ *         name: newGuestCount
+ *         schema:
+ *           type: integer
  *     responses:
  *       200:
  *         description: Cost calculation retrieved
+ *       400:
+ *         description: Booking cannot be modified or the new dates are invalid
  */
 router.get(
   "/:id/modification-options",
   authenticate,
+  authorize("GUEST"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    return res.status(410).json({
-      success: false,
-      message:
-        "Booking modification options are no longer available. Use Book Again to rebook with new dates.",
-      error: {
-        code: "BOOKING_MODIFICATION_DISABLED",
+    const { newCheckIn, newCheckOut, newGuestCount } = req.query;
+    const quote = await previewBookingModification(
+      req.params.id,
+      req.user!.id,
+      {
+        newCheckInDate: newCheckIn ? String(newCheckIn) : undefined,
+        newCheckOutDate: newCheckOut ? String(newCheckOut) : undefined,
+        newGuestCount: newGuestCount ? Number(newGuestCount) : undefined,
       },
+    );
+
+    res.json({
+      success: true,
+      message: "Modification options calculated",
+      data: quote,
     });
   }),
 );
 
 /**
  * @swagger
- * /api/bookings/{id}/extend:
+ * /api/bookings/{id}/modifications:
+ *   get:
+ *     summary: List booking modification requests
+ *     description: Date change requests for a booking, newest first (guest, host or admin)
+ *     tags: [Bookings]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Modification requests retrieved
+ *       403:
+ *         description: Not authorized
+ */
+router.get(
+  "/:id/modifications",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const modifications = await listBookingModifications(
+      req.params.id,
+      req.user!,
+    );
+
+    res.json({
+      success: true,
+      message: "Modification requests retrieved",
+      data: modifications,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/bookings/{id}/modifications/{modificationId}/approve:
  *   post:
- *     summary: Extend booking
- *     description: Add additional nights to an existing booking
+ *     summary: Approve a modification request
+ *     description: Host approves new dates. The price difference is charged to the guest's saved card or refunded from escrow, then the booking, escrow and lifecycle snapshots are updated.
  *     tags: [Bookings]
  *     security:
  *       - BearerAuth: []
@@ -2220,457 +2493,252 @@ router.get(
  *         required: true
  *         schema:
  *           type: string
+ *       - in: path
+ *         name: modificationId
+ *         required: true
+ *         schema:
+ *           type: string
  *     requestBody:
- *       required: true
  *       content:
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - additionalNights
  *             properties:
- *               additionalNights:
- *                 type: integer
- *                 minimum: 1
+ *               note:
+ *                 type: string
  *     responses:
  *       200:
- *         description: Booking extended successfully
- *       400:
- *         description: Cannot extend (conflicts or invalid data)
+ *         description: Booking moved to the new dates
+ *       402:
+ *         description: The guest could not be charged; the request is marked failed
+ *       409:
+ *         description: Request no longer pending or the dates are no longer available
  */
 router.post(
-  "/:id/extend",
+  "/:id/modifications/:modificationId/approve",
   authenticate,
+  authorize("REALTOR"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    return res.status(400).json({
-      success: false,
-      message:
-        "Stay extension is disabled. To stay longer, create a new booking.",
-    });
-
-    const { id } = req.params;
-    const parsedAdditionalNights = Number(req.body?.additionalNights);
-    const userId = req.user!.id;
+    const { id, modificationId } = req.params;
+    const result = await approveBookingModification(
+      id,
+      modificationId,
+      req.user!.id,
+      typeof req.body?.note === "string" ? req.body.note : undefined,
+    );
 
-    const booking = await prisma.booking.findUnique({
-      where: { id },
-      include: {
-        property: {
-          include: {
-            realtor: {
-              select: {
-                userId: true,
-              },
-            },
-          },
-        },
-        guest: {
-          select: {
-            email: true,
-          },
-        },
-        payment: {
-          select: {
-            id: true,
-            status: true,
-            method: true,
-            roomFeeInEscrow: true,
-            amount: true,
-            commissionEffectiveRate: true,
-            serviceFeeStayzaAmount: true,
-            serviceFeeProcessingQuotedAmount: true,
-            metadata: true,
-          },
-        },
-        escrow: {
-          select: {
-            id: true,
-          },
+    auditLogger
+      .log("BOOKING_MODIFICATION_APPROVE", "BOOKING", {
+        entityId: id,
+        userId: req.user!.id,
+        details: {
+          modificationId,
+          amountDue: result.amountDue,
+          refundAmount: result.refundAmount,
         },
-      },
-    });
+        req,
+      })
+      .catch(() => {});
 
-    if (!booking) {
-      throw new AppError("Booking not found", 404);
-    }
+    res.json({
+      success: true,
+      message: "Booking dates updated",
+      data: result,
+    });
+  }),
+);
 
-    if (booking.guestId !== userId) {
-      throw new AppError("Only the guest can extend their booking", 403);
-    }
+/**
+ * @swagger
+ * /api/bookings/{id}/modifications/{modificationId}/decline:
+ *   post:
+ *     summary: Decline a modification request
+ *     tags: [Bookings]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: modificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Request declined; the booking is unchanged
+ */
+router.post(
+  "/:id/modifications/:modificationId/decline",
+  authenticate,
+  authorize("REALTOR"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, modificationId } = req.params;
+    const modification = await declineBookingModification(
+      id,
+      modificationId,
+      req.user!.id,
+      typeof req.body?.note === "string" ? req.body.note : undefined,
+    );
 
-    if (booking.status !== BookingStatus.ACTIVE) {
-      throw new AppError(
-        "Can only extend confirmed or checked-in bookings",
-        400,
-      );
-    }
+    auditLogger
+      .log("BOOKING_MODIFICATION_DECLINE", "BOOKING", {
+        entityId: id,
+        userId: req.user!.id,
+        details: { modificationId },
+        req,
+      })
+      .catch(() => {});
 
-    if (!booking.payment) {
-      throw new AppError("No payment found for this booking", 400);
-    }
-
-    if (booking.payment.method !== PaymentMethod.PAYSTACK) {
-      throw new AppError(
-        "Only Paystack extensions are currently supported",
-        400,
-      );
-    }
-
-    if (
-      booking.payment.status !== PaymentStatus.HELD ||
-      !booking.payment.roomFeeInEscrow
-    ) {
-      throw new AppError(
-        "Booking extension is only available while payment is held in escrow",
-        400,
-      );
-    }
-
-    // Calculate new check-out date
-    const newCheckOut = new Date(booking.checkOutDate);
-    newCheckOut.setDate(newCheckOut.getDate() + parsedAdditionalNights);
-
-    // Check for conflicts
-    const conflicts = await prisma.booking.findMany({
-      where: {
-        propertyId: booking.propertyId,
-        id: { not: id },
-        status: { in: ["ACTIVE", "PENDING"] },
-        AND: [
-          {
-            checkInDate: {
-              lt: newCheckOut,
-            },
-          },
-          {
-            checkOutDate: {
-              gt: booking.checkOutDate,
-            },
-          },
-        ],
-      },
+    res.json({
+      success: true,
+      message: "Modification request declined",
+      data: modification,
     });
+  }),
+);
 
-    if (conflicts.length > 0) {
-      throw new AppError(
-        "Cannot extend: Property is booked for the requested dates",
-        400,
-      );
-    }
-
-    const additionalRoomFee =
-      parsedAdditionalNights * Number(booking.property.pricePerNight);
-    const financeConfig = await loadFinanceConfig();
-    const serviceFeeBreakdown = computeGuestServiceFee(
-      additionalRoomFee,
-      "LOCAL",
-      financeConfig,
-      "QUOTED",
-    );
-    const additionalServiceFee = Number(serviceFeeBreakdown.total.toFixed(2));
-    const effectiveRate = Number(
-      booking.commissionEffectiveRate ??
-        booking.payment?.commissionEffectiveRate ??
-        0.1,
-    );
-    const additionalPlatformFee = Number(
-      (additionalRoomFee * effectiveRate).toFixed(2),
-    );
-    const totalAdditionalCost = Number(
-      (additionalRoomFee + additionalServiceFee).toFixed(2),
+/**
+ * @swagger
+ * /api/bookings/{id}/modifications/{modificationId}/cancel:
+ *   post:
+ *     summary: Withdraw a modification request
+ *     tags: [Bookings]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: modificationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Request withdrawn
+ */
+router.post(
+  "/:id/modifications/:modificationId/cancel",
+  authenticate,
+  authorize("GUEST"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, modificationId } = req.params;
+    const modification = await cancelBookingModification(
+      id,
+      modificationId,
+      req.user!.id,
     );
 
-    const paymentMetadata =
-      booking.payment.metadata &&
-      typeof booking.payment.metadata === "object" &&
-      !Array.isArray(booking.payment.metadata)
-        ? (booking.payment.metadata as Record<string, unknown>)
-        : {};
-    const providerResponse =
-      paymentMetadata.providerResponse &&
-      typeof paymentMetadata.providerResponse === "object" &&
-      !Array.isArray(paymentMetadata.providerResponse)
-        ? (paymentMetadata.providerResponse as Record<string, unknown>)
-        : {};
-    const authorizationData =
-      providerResponse.authorization &&
-      typeof providerResponse.authorization === "object" &&
-      !Array.isArray(providerResponse.authorization)
-        ? (providerResponse.authorization as Record<string, unknown>)
-        : {};
-    const authorizationCode: string | undefined =
-      (typeof authorizationData.authorization_code === "string"
-        ? String(authorizationData.authorization_code)
-        : undefined) ||
-      (typeof paymentMetadata.authorizationCode === "string"
-        ? String(paymentMetadata.authorizationCode)
-        : undefined);
-
-    if (!authorizationCode || typeof authorizationCode !== "string") {
-      throw new AppError(
-        "Unable to charge extension automatically for this booking",
-        400,
-      );
-    }
-
-    const extensionReference = `EXT-${booking.id.slice(-6)}-${Date.now()}`;
-    const chargeResult = await paystackService.chargeAuthorization({
-      authorizationCode,
-      email: booking.guest.email,
-      amount: Math.round(totalAdditionalCost * 100), // Paystack expects kobo
-      reference: extensionReference,
-      metadata: {
-        bookingId: id,
-        additionalNights: parsedAdditionalNights,
-        additionalRoomFee,
-        additionalServiceFee,
-      },
+    res.json({
+      success: true,
+      message: "Modification request withdrawn",
+      data: modification,
     });
+  }),
+);
 
-    const chargeData = chargeResult?.data || {};
-    const paymentSuccessful =
-      chargeResult?.status === true && chargeData?.status === "success";
+/**
+ * @swagger
+ * /api/bookings/{id}/extend:
+ *   post:
+ *     summary: Extend booking
+ *     description: Ask the host to add nights to a booking, before or during the stay. Creates a modification request that moves the check-out date.
+ *     tags: [Bookings]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - additionalNights
+ *             properties:
+ *               additionalNights:
+ *                 type: integer
+ *                 minimum: 1
+ *     responses:
+ *       201:
+ *         description: Extension request submitted for host approval
+ *       400:
+ *         description: Cannot extend (conflicts or invalid data)
+ */
+router.post(
+  "/:id/extend",
+  authenticate,
+  authorize("GUEST"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const additionalNights = Number(req.body?.additionalNights);
 
-    if (!paymentSuccessful) {
+    if (!Number.isInteger(additionalNights) || additionalNights < 1) {
       throw new AppError(
-        `Extension payment failed: ${
-          chargeResult?.message ||
-          chargeData?.gateway_response ||
-          "unknown error"
-        }`,
+        "additionalNights must be a whole number of at least 1",
         400,
       );
     }
 
-    const extensionChargeEntry = {
-      reference: extensionReference,
-      amount: totalAdditionalCost,
-      roomFee: additionalRoomFee,
-      serviceFee: additionalServiceFee,
-      serviceFeeStayza: serviceFeeBreakdown.stayza,
-      serviceFeeProcessing: serviceFeeBreakdown.processing,
-      serviceFeeProcessingMode: serviceFeeBreakdown.processingMode,
-      platformFee: additionalPlatformFee,
-      additionalNights: parsedAdditionalNights,
-      chargedAt: new Date().toISOString(),
-      providerId: chargeData?.id?.toString?.() || null,
-    };
-
-    const existingExtensionCharges: Array<Record<string, unknown>> =
-      Array.isArray(paymentMetadata.extensionCharges)
-        ? (paymentMetadata.extensionCharges as Array<Record<string, unknown>>)
-        : [];
-
-    const updatedBooking = await prisma.$transaction(async (tx) => {
-      const bookingUpdate = await tx.booking.update({
-        where: { id },
-        data: {
-          checkOutDate: newCheckOut,
-          totalPrice: {
-            increment: totalAdditionalCost,
-          },
-          roomFee: {
-            increment: additionalRoomFee,
-          },
-          serviceFee: {
-            increment: additionalServiceFee,
-          },
-          serviceFeeStayza: new Prisma.Decimal(
-            (
-              Number(booking.serviceFeeStayza || 0) + serviceFeeBreakdown.stayza
-            ).toFixed(2),
-          ),
-          serviceFeeProcessing: new Prisma.Decimal(
-            (
-              Number(booking.serviceFeeProcessing || 0) +
-              serviceFeeBreakdown.processing
-            ).toFixed(2),
-          ),
-          processingFeeMode: serviceFeeBreakdown.processingMode,
-          platformFee: {
-            increment: additionalPlatformFee,
-          },
-        },
-      });
-
-      await tx.payment.update({
-        where: { id: booking.payment!.id },
-        data: {
-          amount: {
-            increment: totalAdditionalCost,
-          },
-          roomFeeAmount: {
-            increment: additionalRoomFee,
-          },
-          serviceFeeAmount: {
-            increment: additionalServiceFee,
-          },
-          serviceFeeStayzaAmount: new Prisma.Decimal(
-            (
-              Number(booking.payment!.serviceFeeStayzaAmount || 0) +
-              serviceFeeBreakdown.stayza
-            ).toFixed(2),
-          ),
-          serviceFeeProcessingQuotedAmount: new Prisma.Decimal(
-            (
-              Number(booking.payment!.serviceFeeProcessingQuotedAmount || 0) +
-              serviceFeeBreakdown.processing
-            ).toFixed(2),
-          ),
-          processingFeeModeQuoted: serviceFeeBreakdown.processingMode,
-          platformFeeAmount: {
-            increment: additionalPlatformFee,
-          },
-          metadata: {
-            ...paymentMetadata,
-            extensionCharges: [
-              ...existingExtensionCharges,
-              extensionChargeEntry,
-            ],
-            lastExtensionCharge: extensionChargeEntry,
-          } as Prisma.InputJsonValue,
-        },
-      });
-
-      if (additionalServiceFee > 0) {
-        const platformWallet = await tx.wallet.upsert({
-          where: {
-            ownerType_ownerId: {
-              ownerType: "PLATFORM",
-              ownerId: "platform",
-            },
-          },
-          update: {
-            balanceAvailable: {
-              increment: new Prisma.Decimal(additionalServiceFee),
-            },
-          },
-          create: {
-            ownerType: "PLATFORM",
-            ownerId: "platform",
-            balanceAvailable: new Prisma.Decimal(additionalServiceFee),
-            balancePending: new Prisma.Decimal(0),
-          },
-        });
-
-        await tx.walletTransaction.create({
-          data: {
-            walletId: platformWallet.id,
-            type: "CREDIT",
-            source: "SERVICE_FEE",
-            amount: new Prisma.Decimal(additionalServiceFee),
-            referenceId: id,
-            status: "COMPLETED",
-            metadata: {
-              bookingId: id,
-              paymentId: booking.payment!.id,
-              extensionReference,
-            },
-          },
-        });
-
-        await tx.escrowEvent.create({
-          data: {
-            bookingId: id,
-            eventType: "COLLECT_SERVICE_FEE",
-            amount: new Prisma.Decimal(additionalServiceFee),
-            fromParty: "CUSTOMER",
-            toParty: "PLATFORM_WALLET",
-            transactionReference: extensionReference,
-            notes: `Service fee of ${additionalServiceFee.toFixed(
-              2,
-            )} collected immediately for extension (${serviceFeeBreakdown.processingMode})`,
-            triggeredBy: userId,
-            providerResponse: chargeData,
-          },
-        });
-      }
-
-      if (booking.escrow) {
-        await tx.escrow.update({
-          where: { bookingId: id },
-          data: {
-            roomFeeHeld: {
-              increment: additionalRoomFee,
-            },
-          },
-        });
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      select: { checkOutDate: true },
+    });
 
-        await tx.escrowEvent.create({
-          data: {
-            bookingId: id,
-            eventType: "HOLD_ROOM_FEE",
-            amount: new Prisma.Decimal(additionalRoomFee),
-            fromParty: "CUSTOMER",
-            toParty: "ESCROW",
-            transactionReference: extensionReference,
-            notes: `Additional room fee of ${additionalRoomFee.toFixed(
-              2,
-            )} held in escrow for extension`,
-            triggeredBy: userId,
-            providerResponse: chargeData,
-          },
-        });
-      }
+    if (!booking) {
+      throw new AppError("Booking not found", 404);
+    }
 
-      return bookingUpdate;
-    });
+    const newCheckOut = new Date(booking.checkOutDate);
+    newCheckOut.setDate(newCheckOut.getDate() + additionalNights);
 
-    // Notify realtor
-    await prisma.notification.create({
-      data: {
-        userId: booking.property.realtor.userId,
-        type: "BOOKING_CONFIRMED",
-        title: "Booking Extended",
-        message: `Guest extended booking #${booking.id.slice(
-          -6,
-        )} by ${parsedAdditionalNights} night(s)`,
-        bookingId: id,
-        priority: "normal",
-        isRead: false,
-        data: {
-          bookingId: id,
-          additionalNights: parsedAdditionalNights,
-          additionalCost: totalAdditionalCost,
-          paymentReference: extensionReference,
-          newCheckOut,
-        },
-      },
-    });
+    const { modification, quote } = await requestBookingModification(
+      id,
+      req.user!.id,
+      { newCheckOutDate: newCheckOut, reason: req.body?.reason },
+    );
 
-    // Log extension
-    await prisma.auditLog.create({
-      data: {
-        action: "BOOKING_EXTENDED",
-        userId,
+    auditLogger
+      .log("BOOKING_MODIFICATION_REQUEST", "BOOKING", {
         entityId: id,
-        entityType: "Booking",
+        userId: req.user!.id,
         details: {
-          additionalNights: parsedAdditionalNights,
-          oldCheckOut: booking.checkOutDate,
-          newCheckOut,
-          additionalCost: totalAdditionalCost,
-          paymentReference: extensionReference,
-          providerTransactionId: chargeData?.id?.toString?.() || null,
+          modificationId: modification.id,
+          additionalNights,
+          newCheckOutDate: quote.newCheckOutDate,
+          amountDue: quote.amountDue,
         },
-      },
-    });
-
-    logger.info("Booking extended", {
-      bookingId: id,
-      additionalNights: parsedAdditionalNights,
-      newCheckOut,
-      paymentReference: extensionReference,
-    });
+        req,
+      })
+      .catch(() => {});
 
-    return res.json({
+    res.status(201).json({
       success: true,
-      message: `Booking extended by ${parsedAdditionalNights} night(s)`,
+      message: "Extension request sent to the host",
       data: {
-        newCheckOutDate: newCheckOut,
-        additionalCost: totalAdditionalCost,
-        paymentReference: extensionReference,
-        booking: updatedBooking,
+        modification,
+        newCheckOutDate: quote.newCheckOutDate,
+        additionalCost: quote.amountDue,
       },
     });
   }),
@@ -2732,19 +2800,22 @@ router.get(
     const endDate = new Date();
     endDate.setMonth(endDate.getMonth() + monthsNum);
 
-    const bookings = await prisma.booking.findMany({
-      where: {
-        propertyId,
-        status: { in: ["ACTIVE"] },
-        checkOutDate: { gte: startDate },
-        checkInDate: { lte: endDate },
-      },
-      select: {
-        checkInDate: true,
-        checkOutDate: true,
-        status: true,
-      },
-    });
+    const [bookings, blocks] = await Promise.all([
+      prisma.booking.findMany({
+        where: {
+          propertyId,
+          status: { in: ["ACTIVE"] },
+          checkOutDate: { gte: startDate },
+          checkInDate: { lte: endDate },
+        },
+        select: {
+          checkInDate: true,
+          checkOutDate: true,
+          status: true,
+        },
+      }),
+      listAvailabilityBlocks(propertyId, { from: startDate, to: endDate }),
+    ]);
 
     if (format === "ical") {
       // Generate iCal format
@@ -2773,6 +2844,20 @@ router.get(
         );
       });
 
+      blocks.forEach((block) => {
+        ical.push(
+          "BEGIN:VEVENT",
+          `UID:block-${block.id}@stayza.com`,
+          `DTSTART:${
+            block.startDate.toISOString().replace(/[-:]/g, "").split(".")[0]
+          }Z`,
+          `DTEND:${block.endDate.toISOString().replace(/[-:]/g, "").split(".")[0]}Z`,
+          `SUMMARY:Blocked`,
+          "STATUS:CONFIRMED",
+          "END:VEVENT",
+        );
+      });
+
       ical.push("END:VCALENDAR");
 
       res.setHeader("Content-Type", "text/calendar");
@@ -2788,6 +2873,7 @@ router.get(
       date: string;
       available: boolean;
       status?: string;
+      blockReason?: string;
     }[] = [];
 
     const currentDate = new Date(startDate);
@@ -2799,11 +2885,17 @@ router.get(
         const checkOut = new Date(b.checkOutDate);
         return currentDate >= checkIn && currentDate < checkOut;
       });
+      const block = booking
+        ? undefined
+        : blocks.find(
+            (b) => currentDate >= b.startDate && currentDate < b.endDate,
+          );
 
       calendar.push({
         date: dateStr,
-        available: !booking,
-        status: booking?.status,
+        available: !booking && !block,
+        status: booking?.status ?? (block ? "BLOCKED" : undefined),
+        blockReason: block?.reason,
       });
 
       currentDate.setDate(currentDate.getDate() + 1);
@@ -2825,7 +2917,7 @@ router.get(
  * /api/bookings/properties/{propertyId}/block-dates:
  *   post:
  *     summary: Block dates (Realtor only)
- *     description: Manually block dates to prevent bookings (e.g., maintenance, personal use)
+ *     description: Compatibility alias for POST /api/properties/{id}/availability-blocks. Free-text reasons are stored as the block note.
  *     tags: [Bookings]
  *     security:
  *       - BearerAuth: []
@@ -2844,7 +2936,6 @@ router.get(
  *             required:
  *               - startDate
  *               - endDate
- *               - reason
  *             properties:
  *               startDate:
  *                 type: string
@@ -2854,11 +2945,13 @@ router.get(
  *                 format: date
  *               reason:
  *                 type: string
+ *               note:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Dates blocked successfully
  *       400:
- *         description: Cannot block (existing bookings)
+ *         description: Cannot block (existing bookings or blocks)
  *       403:
  *         description: Only property owner can block dates
  */
@@ -2867,23 +2960,17 @@ router.post(
   authenticate,
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { propertyId } = req.params;
-    const { startDate, endDate, reason } = req.body;
     const userId = req.user!.id;
 
-    if (!startDate || !endDate || !reason) {
-      throw new AppError("startDate, endDate, and reason are required", 400);
+    if (!req.body?.startDate || !req.body?.endDate) {
+      throw new AppError("startDate and endDate are required", 400);
     }
 
     const property = await prisma.property.findUnique({
       where: { id: propertyId },
       select: {
         id: true,
-        currency: true,
-        realtor: {
-          select: {
-            userId: true,
-          },
-        },
+        realtorId: true,
       },
     });
 
@@ -2891,103 +2978,43 @@ router.post(
       throw new AppError("Property not found", 404);
     }
 
-    if (property.realtor.userId !== userId) {
-      throw new AppError("Only property owner can block dates", 403);
-    }
-
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    const reasonText = String(reason).trim();
-
-    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
-      throw new AppError("Invalid startDate or endDate", 400);
-    }
-
-    if (!reasonText) {
-      throw new AppError("Reason is required", 400);
-    }
-
-    if (end <= start) {
-      throw new AppError("End date must be after start date", 400);
-    }
-
-    // Check for existing bookings
-    const conflicts = await prisma.booking.findMany({
-      where: {
-        propertyId,
-        status: { in: ["ACTIVE", "PENDING"] },
-        AND: [
-          {
-            checkInDate: { lt: end },
-          },
-          {
-            checkOutDate: { gt: start },
-          },
-        ],
-      },
-    });
-
-    if (conflicts.length > 0) {
-      throw new AppError(
-        "Cannot block dates: There are existing bookings during this period",
-        400,
-      );
-    }
+    await assertRealtorPermission(
+      req.user!,
+      property.realtorId,
+      "properties.manage",
+      "Only property owner can block dates",
+    );
 
-    const blockedBooking = await prisma.booking.create({
-      data: {
-        propertyId,
-        guestId: userId,
-        checkInDate: start,
-        checkOutDate: end,
-        totalGuests: 1,
-        totalPrice: new Prisma.Decimal(0),
-        currency: property.currency,
-        status: BookingStatus.ACTIVE,
-        paymentStatus: null,
-        roomFee: new Prisma.Decimal(0),
-        cleaningFee: new Prisma.Decimal(0),
-        securityDeposit: new Prisma.Decimal(0),
-        serviceFee: new Prisma.Decimal(0),
-        platformFee: new Prisma.Decimal(0),
-        specialRequests: buildBlockedDatesSpecialRequest(reasonText),
-      },
-      select: {
-        id: true,
-        checkInDate: true,
-        checkOutDate: true,
-        status: true,
-      },
-    });
+    const input = parseAvailabilityBlockInput(req.body);
+    const availabilityBlock = await createAvailabilityBlock(
+      propertyId,
+      input,
+      userId,
+    );
 
-    await prisma.auditLog.create({
-      data: {
-        action: "DATES_BLOCKED",
-        userId,
-        entityId: propertyId,
-        entityType: "Property",
-        details: {
-          startDate,
-          endDate,
-          reason: reasonText,
-          blockedBookingId: blockedBooking.id,
-        },
+    await auditLogger.log("AVAILABILITY_BLOCK_CREATE", "PROPERTY", {
+      entityId: propertyId,
+      userId,
+      details: {
+        blockId: availabilityBlock.id,
+        startDate: availabilityBlock.startDate,
+        endDate: availabilityBlock.endDate,
+        reason: availabilityBlock.reason,
       },
+      req,
     });
 
     logger.info("Dates blocked", {
       propertyId,
-      startDate,
-      endDate,
-      reason: reasonText,
-      blockedBookingId: blockedBooking.id,
+      blockId: availabilityBlock.id,
+      reason: availabilityBlock.reason,
     });
 
     return res.json({
       success: true,
       message: "Dates blocked successfully",
       data: {
-        blockedBooking,
+        availabilityBlock,
       },
     });
   }),
@@ -3034,7 +3061,11 @@ router.post(
       confirmationType = "GUEST_CONFIRMED";
     } else if (
       userRole === "REALTOR" &&
-      booking.property.realtor.userId === userId
+      (await actsForRealtor(
+        userId,
+        booking.property.realtor.id,
+        "checkins.manage",
+      ))
     ) {
       // Realtor confirming
       confirmationType = "REALTOR_CONFIRMED";
@@ -3,10 +3,129 @@ import { AuthenticatedRequest } from "@/types";
 import { prisma } from "@/config/database";
 import { asyncHandler, AppError } from "@/middleware/errorHandler";
 import { authenticate } from "@/middleware/auth";
-import { BookingStatus } from "@prisma/client";
+import { BookingStatus, CustomDomainStatus, Prisma } from "@prisma/client";
+import { REVEALED_REVIEW_FILTER } from "@/services/reviewWindow";
+import { realtorAccessWhere } from "@/services/realtorTeamRules";
+import { normalizeCustomHostname } from "@/services/customDomainRules";
 
 const router = express.Router();
 
+/**
+ * Public branding and stats for a realtor's booking website
+ */
+const loadPublicBranding = async (
+  where: Prisma.RealtorWhereInput,
+  notFoundMessage: string,
+) => {
+  const realtor = await prisma.realtor.findFirst({
+    where,
+    select: {
+      id: true,
+      userId: true,
+      businessName: true,
+      tagline: true,
+      description: true,
+      slug: true,
+      logoUrl: true,
+      primaryColor: true,
+      secondaryColor: true,
+      accentColor: true,
+      websiteUrl: true,
+      customDomain: { select: { hostname: true, status: true } },
+      status: true,
+      isActive: true,
+      user: {
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+        },
+      },
+    },
+  });
+
+  if (!realtor) {
+    throw new AppError(notFoundMessage, 404);
+  }
+
+  if (!realtor.isActive || realtor.status !== "APPROVED") {
+    throw new AppError("This realtor's website is not available", 403);
+  }
+
+  const properties = await prisma.property.findMany({
+    where: {
+      realtorId: realtor.id,
+      status: "ACTIVE",
+      isActive: true,
+    },
+    select: {
+      id: true,
+      reviews: {
+        where: REVEALED_REVIEW_FILTER,
+        select: {
+          rating: true,
+        },
+      },
+    },
+  });
+
+  const propertyIds = properties.map((p) => p.id);
+
+  const uniqueGuests = await prisma.booking.groupBy({
+    by: ["guestId"],
+    where: {
+      propertyId: { in: propertyIds },
+      status: { in: [BookingStatus.ACTIVE, BookingStatus.COMPLETED] },
+    },
+    _count: {
+      guestId: true,
+    },
+  });
+
+  let totalReviews = 0;
+  let totalRatingSum = 0;
+
+  properties.forEach((property) => {
+    totalReviews += property.reviews.length;
+    property.reviews.forEach((review) => {
+      totalRatingSum += review.rating;
+    });
+  });
+
+  const avgRating = totalReviews > 0 ? totalRatingSum / totalReviews : 0;
+
+  const branding = {
+    id: realtor.id,
+    userId: realtor.userId,
+    businessName: realtor.businessName,
+    businessEmail: realtor.user.email,
+    subdomain: realtor.slug,
+    logo: realtor.logoUrl,
+    tagline: realtor.tagline,
+    description: realtor.description,
+    colors: {
+      primary: realtor.primaryColor,
+      secondary: realtor.secondaryColor || "#10B981",
+      accent: realtor.accentColor || "#F59E0B",
+    },
+    websiteUrl: realtor.websiteUrl,
+    customDomain:
+      realtor.customDomain?.status === "VERIFIED"
+        ? realtor.customDomain.hostname
+        : null,
+    stats: {
+      totalProperties: properties.length,
+      totalGuests: uniqueGuests.length,
+      totalReviews: totalReviews,
+      averageRating: avgRating,
+    },
+    user: realtor.user,
+  };
+
+  return branding;
+};
+
 /**
  * @swagger
  * tags:
@@ -60,6 +179,10 @@ const router = express.Router();
  *         websiteUrl:
  *           type: string
  *           description: Public business website URL
+ *         customDomain:
+ *           type: string
+ *           nullable: true
+ *           description: Verified custom domain serving the booking website
  *         stats:
  *           type: object
  *           properties:
@@ -117,113 +240,69 @@ router.get(
       throw new AppError("Subdomain is required", 400);
     }
 
-    const realtor = await prisma.realtor.findUnique({
-      where: {
-        slug: subdomain,
-      },
-      select: {
-        id: true,
-        userId: true,
-        businessName: true,
-        tagline: true,
-        description: true,
-        slug: true,
-        logoUrl: true,
-        primaryColor: true,
-        secondaryColor: true,
-        accentColor: true,
-        websiteUrl: true,
-        status: true,
-        isActive: true,
-        user: {
-          select: {
-            id: true,
-            email: true,
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
-    });
-
-    if (!realtor) {
-      throw new AppError("Realtor not found with this subdomain", 404);
-    }
-
-    if (!realtor.isActive || realtor.status !== "APPROVED") {
-      throw new AppError("This realtor's website is not available", 403);
-    }
+    const branding = await loadPublicBranding(
+      { slug: subdomain },
+      "Realtor not found with this subdomain",
+    );
 
-    const properties = await prisma.property.findMany({
-      where: {
-        realtorId: realtor.id,
-        status: "ACTIVE",
-        isActive: true,
-      },
-      select: {
-        id: true,
-        reviews: {
-          select: {
-            rating: true,
-          },
-        },
-      },
-    });
-
-    const propertyIds = properties.map((p) => p.id);
-
-    const uniqueGuests = await prisma.booking.groupBy({
-      by: ["guestId"],
-      where: {
-        propertyId: { in: propertyIds },
-        status: { in: [BookingStatus.ACTIVE, BookingStatus.COMPLETED] },
-      },
-      _count: {
-        guestId: true,
-      },
-    });
-
-    let totalReviews = 0;
-    let totalRatingSum = 0;
-
-    properties.forEach((property) => {
-      totalReviews += property.reviews.length;
-      property.reviews.forEach((review) => {
-        totalRatingSum += review.rating;
-      });
+    res.status(200).json({
+      success: true,
+      data: branding,
     });
+  })
+);
 
-    const avgRating = totalReviews > 0 ? totalRatingSum / totalReviews : 0;
+/**
+ * @swagger
+ * /api/branding/domain/{hostname}:
+ *   get:
+ *     summary: Get realtor branding by custom domain
+ *     description: Resolves a verified custom domain (e.g. book.example.com) to the realtor's branding. Used by the frontend to serve booking websites on custom domains (public endpoint)
+ *     tags: [Branding]
+ *     parameters:
+ *       - in: path
+ *         name: hostname
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: book.example.com
+ *     responses:
+ *       200:
+ *         description: Branding retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/RealtorBranding'
+ *       403:
+ *         description: Realtor website is not available (inactive or not approved)
+ *       404:
+ *         description: No verified custom domain with this hostname
+ */
+router.get(
+  "/domain/:hostname",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const hostname = normalizeCustomHostname(req.params.hostname);
 
-    const branding = {
-      id: realtor.id,
-      userId: realtor.userId,
-      businessName: realtor.businessName,
-      businessEmail: realtor.user.email,
-      subdomain: realtor.slug,
-      logo: realtor.logoUrl,
-      tagline: realtor.tagline,
-      description: realtor.description,
-      colors: {
-        primary: realtor.primaryColor,
-        secondary: realtor.secondaryColor || "#10B981",
-        accent: realtor.accentColor || "#F59E0B",
-      },
-      websiteUrl: realtor.websiteUrl,
-      stats: {
-        totalProperties: properties.length,
-        totalGuests: uniqueGuests.length,
-        totalReviews: totalReviews,
-        averageRating: avgRating,
+    const branding = await loadPublicBranding(
+      {
+        customDomain: {
+          is: { hostname, status: CustomDomainStatus.VERIFIED },
+        },
       },
-      user: realtor.user,
-    };
+      "No booking website is connected to this domain",
+    );
 
     res.status(200).json({
       success: true,
       data: branding,
     });
-  })
+  }),
 );
 
 /**
@@ -293,10 +372,9 @@ router.get(
       throw new AppError("User not authenticated", 401);
     }
 
-    const realtor = await prisma.realtor.findUnique({
-      where: {
-        userId: userId,
-      },
+    // Team members get their realtor's branding
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(userId),
       select: {
         id: true,
         userId: true,
@@ -0,0 +1,487 @@
+import express, { Request, Response } from "express";
+import crypto from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import { authenticate, authorize } from "@/middleware/auth";
+import { auditLogger } from "@/services/auditLogger";
+import { assertRealtorPermission } from "@/services/realtorTeam";
+import {
+  buildCalendarFeedUrl,
+  buildPropertyCalendarFeed,
+  syncExternalCalendarSource,
+  validateCalendarUrl,
+} from "@/services/icalSync";
+import { verifyCalendarFeedToken } from "@/utils/ical";
+
+const router = express.Router();
+
+const MAX_SOURCE_NAME_LENGTH = 100;
+const MAX_SOURCES_PER_PROPERTY = 10;
+
+const loadOwnedProperty = async (
+  propertyId: string,
+  user: NonNullable<AuthenticatedRequest["user"]>,
+) => {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: {
+      id: true,
+      title: true,
+      icalFeedNonce: true,
+      realtorId: true,
+    },
+  });
+
+  if (!property) {
+    throw new AppError("Property not found", 404);
+  }
+
+  await assertRealtorPermission(
+    user,
+    property.realtorId,
+    "properties.manage",
+    "Only property owner can manage calendar sync",
+  );
+
+  return property;
+};
+
+const loadOwnedSource = async (
+  sourceId: string,
+  user: NonNullable<AuthenticatedRequest["user"]>,
+) => {
+  const source = await prisma.externalCalendarSource.findUnique({
+    where: { id: sourceId },
+  });
+
+  if (!source) {
+    throw new AppError("Calendar source not found", 404);
+  }
+
+  await loadOwnedProperty(source.propertyId, user);
+  return source;
+};
+
+const normalizeSourceName = (value: unknown): string => {
+  const name = typeof value === "string" ? value.trim() : "";
+  if (!name) {
+    throw new AppError("Calendar name is required", 400);
+  }
+  if (name.length > MAX_SOURCE_NAME_LENGTH) {
+    throw new AppError(
+      `Calendar name cannot exceed ${MAX_SOURCE_NAME_LENGTH} characters`,
+      400,
+    );
+  }
+  return name;
+};
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002";
+
+/**
+ * @swagger
+ * /api/calendar-sync/feeds/{propertyId}.ics:
+ *   get:
+ *     summary: Export a property's availability as an iCal feed
+ *     description: Public, token-protected feed for Airbnb, Booking.com and other channels. Contains confirmed and pending bookings plus manual blocks.
+ *     tags: [Calendar Sync]
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: iCalendar document
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown property or invalid token
+ */
+router.get(
+  "/feeds/:propertyId.ics",
+  asyncHandler(async (req: Request, res: Response) => {
+    const { propertyId } = req.params;
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+
+    const feed = await buildPropertyCalendarFeed(propertyId);
+
+    // Same response for unknown properties and bad tokens
+    if (
+      !feed ||
+      !verifyCalendarFeedToken(propertyId, feed.property.icalFeedNonce, token)
+    ) {
+      throw new AppError("Calendar feed not found", 404);
+    }
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader(
+      "Content-Disposition",
+      `inline; filename="${propertyId}.ics"`,
+    );
+    res.send(feed.ics);
+  }),
+);
+
+/**
+ * @swagger
+ * /api/calendar-sync/properties/{propertyId}:
+ *   get:
+ *     summary: Get the export feed URL and imported calendars (owner only)
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Feed URL and calendar sources
+ *       403:
+ *         description: Not authorized
+ */
+router.get(
+  "/properties/:propertyId",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const property = await loadOwnedProperty(req.params.propertyId, req.user!);
+
+    const sources = await prisma.externalCalendarSource.findMany({
+      where: { propertyId: property.id },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        propertyId: property.id,
+        feedUrl: buildCalendarFeedUrl(property.id, property.icalFeedNonce),
+        sources,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/calendar-sync/properties/{propertyId}/feed/rotate:
+ *   post:
+ *     summary: Rotate the export feed URL (owner only)
+ *     description: Invalidates the previous feed URL. Channels using it must be given the new one.
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: New feed URL
+ */
+router.post(
+  "/properties/:propertyId/feed/rotate",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const property = await loadOwnedProperty(req.params.propertyId, req.user!);
+
+    const nonce = crypto.randomBytes(16).toString("hex");
+    await prisma.property.update({
+      where: { id: property.id },
+      data: { icalFeedNonce: nonce },
+    });
+
+    await auditLogger.log("CALENDAR_FEED_ROTATE", "PROPERTY", {
+      entityId: property.id,
+      userId: req.user!.id,
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: "Calendar feed URL rotated",
+      data: { feedUrl: buildCalendarFeedUrl(property.id, nonce) },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/calendar-sync/properties/{propertyId}/sources:
+ *   post:
+ *     summary: Import an external iCal calendar (owner only)
+ *     description: Adds the feed and runs a first sync immediately. Imported events block the property as EXTERNAL_BOOKING.
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: propertyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, url]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Airbnb
+ *               url:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Calendar source added
+ *       400:
+ *         description: Invalid name or URL
+ *       409:
+ *         description: Calendar already imported
+ */
+router.post(
+  "/properties/:propertyId/sources",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const property = await loadOwnedProperty(req.params.propertyId, req.user!);
+    const name = normalizeSourceName(req.body?.name);
+    const url = validateCalendarUrl(req.body?.url);
+
+    const existingCount = await prisma.externalCalendarSource.count({
+      where: { propertyId: property.id },
+    });
+    if (existingCount >= MAX_SOURCES_PER_PROPERTY) {
+      throw new AppError(
+        `A property can import at most ${MAX_SOURCES_PER_PROPERTY} calendars`,
+        400,
+      );
+    }
+
+    let source;
+    try {
+      source = await prisma.externalCalendarSource.create({
+        data: {
+          propertyId: property.id,
+          name,
+          url,
+          createdById: req.user!.id,
+        },
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new AppError("This calendar is already imported", 409);
+      }
+      throw error;
+    }
+
+    await auditLogger.log("CALENDAR_SOURCE_CREATE", "PROPERTY", {
+      entityId: property.id,
+      userId: req.user!.id,
+      details: { sourceId: source.id, name },
+      req,
+    });
+
+    const sync = await syncExternalCalendarSource(source.id);
+    const refreshed = await prisma.externalCalendarSource.findUnique({
+      where: { id: source.id },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Calendar source added",
+      data: { source: refreshed, sync },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/calendar-sync/sources/{sourceId}:
+ *   patch:
+ *     summary: Rename, change URL, or pause an imported calendar (owner only)
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Calendar source updated
+ */
+router.patch(
+  "/sources/:sourceId",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const source = await loadOwnedSource(req.params.sourceId, req.user!);
+    const { name, url, isActive } = req.body || {};
+
+    const data: Prisma.ExternalCalendarSourceUpdateInput = {};
+    if (name !== undefined) {
+      data.name = normalizeSourceName(name);
+    }
+    if (url !== undefined) {
+      data.url = validateCalendarUrl(url);
+      // Force the next job run to pick up the new URL
+      data.lastSyncAttemptAt = null;
+      data.syncStatus = "PENDING";
+    }
+    if (isActive !== undefined) {
+      if (typeof isActive !== "boolean") {
+        throw new AppError("isActive must be a boolean", 400);
+      }
+      data.isActive = isActive;
+    }
+
+    let updated;
+    try {
+      updated = await prisma.externalCalendarSource.update({
+        where: { id: source.id },
+        data,
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new AppError("This calendar is already imported", 409);
+      }
+      throw error;
+    }
+
+    await auditLogger.log("CALENDAR_SOURCE_UPDATE", "PROPERTY", {
+      entityId: source.propertyId,
+      userId: req.user!.id,
+      details: { sourceId: source.id, changes: Object.keys(data) },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: "Calendar source updated",
+      data: updated,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/calendar-sync/sources/{sourceId}:
+ *   delete:
+ *     summary: Stop importing a calendar (owner only)
+ *     description: Removes the source and unblocks every night it imported.
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Calendar source removed
+ */
+router.delete(
+  "/sources/:sourceId",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const source = await loadOwnedSource(req.params.sourceId, req.user!);
+
+    // Imported blocks cascade with the source
+    await prisma.externalCalendarSource.delete({ where: { id: source.id } });
+
+    await auditLogger.log("CALENDAR_SOURCE_DELETE", "PROPERTY", {
+      entityId: source.propertyId,
+      userId: req.user!.id,
+      details: { sourceId: source.id, name: source.name },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: "Calendar source removed",
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/calendar-sync/sources/{sourceId}/sync:
+ *   post:
+ *     summary: Sync an imported calendar now (owner only)
+ *     tags: [Calendar Sync]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sync result, including conflicts with existing bookings
+ */
+router.post(
+  "/sources/:sourceId/sync",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const source = await loadOwnedSource(req.params.sourceId, req.user!);
+
+    const sync = await syncExternalCalendarSource(source.id);
+    const refreshed = await prisma.externalCalendarSource.findUnique({
+      where: { id: source.id },
+    });
+
+    res.json({
+      success: true,
+      message:
+        sync.status === "FAILED"
+          ? "Calendar sync failed"
+          : "Calendar synced successfully",
+      data: { source: refreshed, sync },
+    });
+  }),
+);
+
+export default router;
@@ -0,0 +1,70 @@
+import express, { Request, Response } from "express";
+import { asyncHandler } from "@/middleware/errorHandler";
+import {
+  CURRENCY_DEFINITIONS,
+  DEFAULT_CURRENCY,
+  DISPLAY_CURRENCIES,
+  crossRate,
+  isSettlementCurrency,
+} from "@/services/currency";
+import {
+  getFxRateTable,
+  parseSettlementCurrency,
+} from "@/services/currencyService";
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/currencies:
+ *   get:
+ *     summary: List supported currencies and current display rates
+ *     description: >
+ *       Settlement currencies can be used for listings, payments and payouts.
+ *       Display currencies are only used to show converted prices; the rate
+ *       used for a booking is locked when it is created.
+ *     tags: [Currencies]
+ *     parameters:
+ *       - in: query
+ *         name: base
+ *         schema:
+ *           type: string
+ *           enum: [NGN, GHS, KES]
+ *           default: NGN
+ *         description: Settlement currency the rates convert from
+ *     responses:
+ *       200:
+ *         description: Currencies with rates from the base currency, or null rates when none are configured
+ */
+router.get(
+  "/",
+  asyncHandler(async (req: Request, res: Response) => {
+    const base =
+      req.query.base === undefined
+        ? DEFAULT_CURRENCY
+        : parseSettlementCurrency(req.query.base);
+    const table = await getFxRateTable();
+
+    res.json({
+      success: true,
+      data: {
+        base,
+        ratesUpdatedAt: table?.updatedAt ?? null,
+        currencies: DISPLAY_CURRENCIES.map((code) => ({
+          code,
+          name: CURRENCY_DEFINITIONS[code].name,
+          symbol: CURRENCY_DEFINITIONS[code].symbol,
+          decimals: CURRENCY_DEFINITIONS[code].decimals,
+          settlement: isSettlementCurrency(code),
+          rate: table
+            ? crossRate(table.rates, base, code)
+            : code === base
+              ? 1
+              : null,
+        })),
+      },
+    });
+  }),
+);
+
+export default router;
@@ -7,9 +7,11 @@ import {
 } from "@prisma/client";
 import { logger } from "@/utils/logger";
 import { AuthenticatedRequest } from "@/types";
-import { authenticate } from "@/middleware/auth";
+import { authenticate, requireRealtorPermission } from "@/middleware/auth";
 import * as disputeService from "@/services/disputeService";
 import * as evidenceService from "@/services/evidenceService";
+import { resolveRealtorAccess } from "@/services/realtorTeam";
+import { hasRealtorTeamPermission } from "@/services/realtorTeamRules";
 import { disputeUpload, uploadDisputeEvidence } from "@/utils/upload";
 
 const router = Router();
@@ -278,6 +280,7 @@ router.get(
  */
 router.get(
   "/realtor/disputes",
+  requireRealtorPermission("disputes.manage"),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.id;
@@ -312,6 +315,7 @@ router.get(
  */
 router.get(
   "/realtor/stats",
+  requireRealtorPermission("disputes.manage"),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const userId = req.user?.id;
@@ -464,14 +468,10 @@ router.post("/deposit", async (req: AuthenticatedRequest, res: Response) => {
       return;
     }
 
-    // Get realtor ID from user
-    const { prisma } = await import("@/config/database");
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId },
-      select: { id: true },
-    });
+    // Get the realtor account the user owns or works for
+    const access = await resolveRealtorAccess(userId);
 
-    if (!realtor) {
+    if (!access || !hasRealtorTeamPermission(access, "disputes.manage")) {
       res
         .status(403)
         .json({ message: "Only realtors can open deposit disputes" });
@@ -480,7 +480,7 @@ router.post("/deposit", async (req: AuthenticatedRequest, res: Response) => {
 
     const dispute = await disputeService.openDepositDispute(
       bookingId,
-      realtor.id,
+      access.realtorId,
       category as DisputeCategory,
       parseFloat(claimedAmount),
       writeup,
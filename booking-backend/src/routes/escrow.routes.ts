@@ -3,6 +3,7 @@ import { AuthenticatedRequest } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
 import { prisma } from "@/config/database";
 import { authenticate } from "@/middleware/auth";
+import { actsForRealtor } from "@/services/realtorTeam";
 import {
   addHours,
   isPast,
@@ -116,7 +117,13 @@ router.get(
 
     // Check authorization - guest or realtor only
     const isGuest = booking.guestId === userId;
-    const isRealtor = booking.property.realtor.userId === userId;
+    const isRealtor =
+      !isGuest &&
+      (await actsForRealtor(
+        userId,
+        booking.property.realtor.id,
+        "finance.read",
+      ));
 
     if (!isGuest && !isRealtor) {
       throw new AppError("Not authorized to view this escrow status", 403);
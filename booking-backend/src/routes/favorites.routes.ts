@@ -24,6 +24,10 @@ const sanitizeFavoriteProperty = <T extends Record<string, unknown>>(
     wifiName: null,
     wifiPassword: null,
     parkingInstructions: null,
+    latitude: property.publicLatitude ?? null,
+    longitude: property.publicLongitude ?? null,
+    publicLatitude: undefined,
+    publicLongitude: undefined,
     sensitiveDetailsUnlocked: false as const,
   };
 };
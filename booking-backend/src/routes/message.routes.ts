@@ -14,19 +14,22 @@
 
 import { Router, Response } from "express";
 import "multer";
-import { PrismaClient, UserRole } from "@prisma/client";
+import { PrismaClient, User, UserRole } from "@prisma/client";
 import {
   authenticate,
   AuthenticatedRequest,
   authorize,
-  requireRole,
+  requirePermission,
 } from "@/middleware/auth";
+import { hasAdminPermission } from "@/services/adminPermissionRules";
 import { config } from "@/config";
 import { sendMessageActivityEmail } from "@/services/email";
 import { MessageFilterService } from "@/services/messageFilter";
 import { SystemMessageService } from "@/services/systemMessage";
 import { uploadMessageAttachments } from "@/services/photoUpload";
 import { NotificationService } from "@/services/notificationService";
+import { resolveRealtorAccess } from "@/services/realtorTeam";
+import { hasRealtorTeamPermission } from "@/services/realtorTeamRules";
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -70,6 +73,37 @@ const getMessagePreview = (
   return "New message";
 };
 
+/**
+ * Realtor team members with messaging access work out of the realtor's own
+ * inbox, so conversations read and send as the realtor's user. Returns null
+ * when the member's role does not include messaging.
+ */
+const resolveInboxUserId = async (user: User): Promise<string | null> => {
+  if (user.role !== UserRole.REALTOR) {
+    return user.id;
+  }
+
+  const access = await resolveRealtorAccess(user.id);
+  if (!access?.teamRole) {
+    return user.id;
+  }
+  if (!hasRealtorTeamPermission(access, "messages.manage")) {
+    return null;
+  }
+
+  const realtor = await prisma.realtor.findUnique({
+    where: { id: access.realtorId },
+    select: { userId: true },
+  });
+  return realtor?.userId ?? null;
+};
+
+const denyInboxAccess = (res: Response) =>
+  res.status(403).json({
+    success: false,
+    error: "Your team role does not allow messaging",
+  });
+
 const canDirectMessage = (senderRole: UserRole, recipientRole: UserRole) => {
   return (
     (senderRole === "GUEST" && recipientRole === "REALTOR") ||
@@ -205,7 +239,10 @@ router.post(
     try {
       const { otherUserId } = req.params;
       const { content, taggedPropertyId } = req.body;
-      const senderId = req.user!.id;
+      const senderId = await resolveInboxUserId(req.user!);
+      if (!senderId) {
+        return denyInboxAccess(res);
+      }
       const senderRole = req.user!.role as UserRole;
       const files = req.files as {
         files?: Express.Multer.File[];
@@ -315,6 +352,7 @@ router.post(
         data: {
           senderId,
           recipientId: recipient.id,
+          sentById: req.user!.id,
           content: filteredContent,
           type: "BOOKING_MESSAGE",
           wasFiltered: filterResult.violations.length > 0,
@@ -403,7 +441,10 @@ router.get(
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { otherUserId } = req.params;
-      const userId = req.user!.id;
+      const userId = await resolveInboxUserId(req.user!);
+      if (!userId) {
+        return denyInboxAccess(res);
+      }
       const userRole = req.user!.role as UserRole;
 
       if (otherUserId === userId) {
@@ -514,7 +555,10 @@ router.post(
     try {
       const { propertyId } = req.params;
       const { content, recipientId: rawRecipientId } = req.body;
-      const userId = req.user!.id;
+      const userId = await resolveInboxUserId(req.user!);
+      if (!userId) {
+        return denyInboxAccess(res);
+      }
       const requestedRecipientId =
         typeof rawRecipientId === "string" ? rawRecipientId.trim() : "";
       const files = req.files as {
@@ -653,6 +697,7 @@ router.post(
         data: {
           propertyId,
           senderId: userId,
+          sentById: req.user!.id,
           recipientId,
           content: filteredContent,
           type: "INQUIRY",
@@ -763,7 +808,10 @@ router.get(
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { propertyId } = req.params;
-      const userId = req.user!.id;
+      const userId = await resolveInboxUserId(req.user!);
+      if (!userId) {
+        return denyInboxAccess(res);
+      }
       const otherUserId =
         typeof req.query.otherUserId === "string"
           ? req.query.otherUserId.trim()
@@ -891,7 +939,10 @@ router.post(
     try {
       const { bookingId } = req.params;
       const { content } = req.body;
-      const userId = req.user!.id;
+      const userId = await resolveInboxUserId(req.user!);
+      if (!userId) {
+        return denyInboxAccess(res);
+      }
       const files = req.files as {
         files?: Express.Multer.File[];
         voiceNote?: Express.Multer.File[];
@@ -994,6 +1045,7 @@ router.post(
         data: {
           bookingId,
           senderId: userId,
+          sentById: req.user!.id,
           recipientId,
           content: filteredContent,
           type: "BOOKING_MESSAGE",
@@ -1107,8 +1159,11 @@ router.get(
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { bookingId } = req.params;
-      const userId = req.user!.id;
-      const isAdmin = req.user!.role === "ADMIN";
+      const userId = await resolveInboxUserId(req.user!);
+      if (!userId) {
+        return denyInboxAccess(res);
+      }
+      const isAdmin = hasAdminPermission(req.user!, "messages.read");
 
       // Verify booking and user access
       const booking = await prisma.booking.findUnique({
@@ -1207,7 +1262,10 @@ const handleMarkConversationRead = async (
   res: Response,
 ) => {
   try {
-    const userId = req.user!.id;
+    const userId = await resolveInboxUserId(req.user!);
+    if (!userId) {
+      return denyInboxAccess(res);
+    }
     const propertyId =
       typeof req.query.propertyId === "string" ? req.query.propertyId : "";
     const bookingId =
@@ -1277,7 +1335,10 @@ router.get(
   authenticate,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = await resolveInboxUserId(req.user!);
+      if (!userId) {
+        return denyInboxAccess(res);
+      }
 
       // Fetch all messages for user
       const messages = await prisma.message.findMany({
@@ -1378,7 +1439,10 @@ router.get(
   authenticate,
   async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
+      const userId = await resolveInboxUserId(req.user!);
+      if (!userId) {
+        return denyInboxAccess(res);
+      }
 
       // Count unread messages
       const unreadCount = await prisma.message.count({
@@ -1414,7 +1478,7 @@ router.get(
 router.get(
   "/admin/booking/:bookingId/messages",
   authenticate,
-  requireRole("ADMIN"),
+  requirePermission("messages.read"),
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { bookingId } = req.params;
@@ -3,6 +3,15 @@ import { AuthenticatedRequest } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
 import { prisma } from "@/config/database";
 import { authenticate } from "@/middleware/auth";
+import {
+  getVapidConfig,
+  removePushSubscription,
+  savePushSubscription,
+} from "@/services/notificationDelivery";
+import {
+  notificationPreferencesSchema,
+  pushSubscriptionSchema,
+} from "@/utils/validation";
 
 const router = express.Router();
 
@@ -279,6 +288,240 @@ router.get(
   })
 );
 
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   get:
+ *     summary: Get notification preferences
+ *     description: Channel and category toggles for the authenticated user. Defaults are returned (and stored) on first access.
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Preferences retrieved successfully
+ *       401:
+ *         description: Authentication required
+ */
+router.get(
+  "/preferences",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError("Authentication required", 401);
+    }
+
+    const preferences = await prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId },
+      update: {},
+    });
+
+    res.json({
+      success: true,
+      data: preferences,
+    });
+  })
+);
+
+/**
+ * @swagger
+ * /api/notifications/preferences:
+ *   put:
+ *     summary: Update notification preferences
+ *     description: Partial update of email, push and SMS toggles, digest frequency, quiet hours and timezone
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Preferences updated successfully
+ *       400:
+ *         description: Invalid preference values
+ *       401:
+ *         description: Authentication required
+ */
+router.put(
+  "/preferences",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError("Authentication required", 401);
+    }
+
+    const { error, value } = notificationPreferencesSchema.validate(req.body);
+
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const preferences = await prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...value },
+      update: value,
+    });
+
+    res.json({
+      success: true,
+      message: "Notification preferences updated",
+      data: preferences,
+    });
+  })
+);
+
+/**
+ * @swagger
+ * /api/notifications/push/public-key:
+ *   get:
+ *     summary: Get the Web Push VAPID public key
+ *     description: Browsers need this key to create a push subscription
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Public key retrieved
+ *       503:
+ *         description: Push notifications are not configured
+ */
+router.get(
+  "/push/public-key",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const vapid = getVapidConfig();
+
+    if (!vapid) {
+      throw new AppError("Push notifications are not available", 503);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        publicKey: vapid.publicKey,
+      },
+    });
+  })
+);
+
+/**
+ * @swagger
+ * /api/notifications/push/subscriptions:
+ *   post:
+ *     summary: Register a push subscription for this device
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [endpoint, keys]
+ *             properties:
+ *               endpoint:
+ *                 type: string
+ *               expirationTime:
+ *                 type: number
+ *                 nullable: true
+ *               keys:
+ *                 type: object
+ *                 properties:
+ *                   p256dh:
+ *                     type: string
+ *                   auth:
+ *                     type: string
+ *     responses:
+ *       201:
+ *         description: Subscription saved
+ *       400:
+ *         description: Invalid subscription
+ *       503:
+ *         description: Push notifications are not configured
+ *   delete:
+ *     summary: Remove the push subscription for this device
+ *     tags: [Notifications]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [endpoint]
+ *             properties:
+ *               endpoint:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Subscription removed
+ */
+router.post(
+  "/push/subscriptions",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError("Authentication required", 401);
+    }
+
+    const { error, value } = pushSubscriptionSchema.validate(req.body);
+
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const subscription = await savePushSubscription(userId, {
+      ...value,
+      userAgent: req.get("user-agent"),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Push notifications enabled on this device",
+      data: {
+        id: subscription.id,
+        endpoint: subscription.endpoint,
+        createdAt: subscription.createdAt,
+      },
+    });
+  })
+);
+
+router.delete(
+  "/push/subscriptions",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const userId = req.user?.id;
+    const endpoint = req.body?.endpoint;
+
+    if (!userId) {
+      throw new AppError("Authentication required", 401);
+    }
+
+    if (typeof endpoint !== "string" || !endpoint) {
+      throw new AppError("endpoint is required", 400);
+    }
+
+    const removed = await removePushSubscription(userId, endpoint);
+
+    res.json({
+      success: true,
+      message: "Push notifications disabled on this device",
+      data: {
+        removed,
+      },
+    });
+  })
+);
+
 /**
  * @swagger
  * /api/notifications/{id}/read:
@@ -7,7 +7,24 @@ import {
 } from "@prisma/client";
 import { prisma } from "@/config/database";
 import { AuthenticatedRequest } from "@/types";
-import { paystackService } from "@/services/paystack";
+import {
+  getDefaultPaymentProvider,
+  getGatewayForPayment,
+  getPaymentGateway,
+  trackGatewayCall,
+  withGatewayFailover,
+} from "@/services/paymentGateway";
+import {
+  GatewayTransaction,
+  PAYMENT_PROVIDERS,
+  PaymentProvider,
+  isPaymentProvider,
+} from "@/services/paymentGatewayRules";
+import {
+  formatMoney,
+  settlementCurrencyOf,
+  toMinorUnits,
+} from "@/services/currency";
 import { sendEmail } from "@/services/email";
 import { ReceiptGenerator } from "@/services/receiptGenerator";
 import {
@@ -15,13 +32,17 @@ import {
   extractPaystackAuthorization,
   getMetadataObject,
 } from "@/services/savedPaymentMethods";
-import { finalizePaystackPayment } from "@/services/paymentFinalization";
+import { finalizeGatewayPayment } from "@/services/paymentFinalization";
+import { actsForRealtor, resolveRealtorAccess } from "@/services/realtorTeam";
+import { hasRealtorTeamPermission } from "@/services/realtorTeamRules";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
 import {
   authenticate,
   authorize,
   optionalAuthenticate,
+  requirePermission,
 } from "@/middleware/auth";
+import { hasAdminPermission } from "@/services/adminPermissionRules";
 import { config } from "@/config/index";
 
 const router = express.Router();
@@ -108,20 +129,20 @@ const extractCheckoutBookingKey = (
  * @swagger
  * tags:
  *   - name: Payments
- *     description: Payment processing with Paystack
+ *     description: Payment processing with Paystack or Flutterwave
  */
 
 /**
  * GET /api/payments/callback
- * Handles payment gateway redirects (Paystack)
+ * Handles payment gateway redirects (Paystack, Flutterwave)
  * Extracts reference from query params and auto-verifies payment
  */
 router.get(
   "/callback",
   asyncHandler(async (req, res) => {
-    const { reference, trxref, transaction_id } = req.query;
+    const { reference, trxref, tx_ref, transaction_id } = req.query;
 
-    // Paystack sends 'reference' or 'trxref'
+    // Paystack sends 'reference' or 'trxref'; Flutterwave sends 'tx_ref'
     // Handle arrays (duplicate query params) by taking first element
     const getFirstParam = (param: unknown): string | undefined => {
       if (Array.isArray(param)) {
@@ -132,7 +153,10 @@ router.get(
       return undefined;
     };
 
-    const paymentRef = getFirstParam(reference) || getFirstParam(trxref);
+    const paymentRef =
+      getFirstParam(reference) ||
+      getFirstParam(trxref) ||
+      getFirstParam(tx_ref);
     const txId = getFirstParam(transaction_id);
 
     if (!paymentRef && !txId) {
@@ -192,7 +216,7 @@ router.get(
  *           enum: [INITIATED, PENDING, ESCROW_HELD, ROOM_FEE_SPLIT_RELEASED, RELEASED_TO_REALTOR, REFUNDED_TO_CUSTOMER, PARTIAL_PAYOUT_REALTOR, COMPLETED, FAILED]
  *         method:
  *           type: string
- *           enum: [PAYSTACK]
+ *           enum: [PAYSTACK, FLUTTERWAVE]
  *         reference:
  *           type: string
  *         providerId:
@@ -227,7 +251,7 @@ router.get(
  *           type: string
  *           format: date-time
  *
- *     InitializePaystackRequest:
+ *     InitializePaymentRequest:
  *       type: object
  *       required:
  *         - bookingId
@@ -235,8 +259,12 @@ router.get(
  *         bookingId:
  *           type: string
  *           description: ID of the booking to pay for
+ *         provider:
+ *           type: string
+ *           enum: [PAYSTACK, FLUTTERWAVE]
+ *           description: Preferred provider; another is used if it is degraded
  *
- *     InitializePaystackResponse:
+ *     InitializePaymentResponse:
  *       type: object
  *       properties:
  *         success:
@@ -246,10 +274,14 @@ router.get(
  *         data:
  *           type: object
  *           properties:
+ *             provider:
+ *               type: string
+ *               enum: [PAYSTACK, FLUTTERWAVE]
  *             authorizationUrl:
  *               type: string
  *             accessCode:
  *               type: string
+ *               nullable: true
  *             reference:
  *               type: string
  *             paymentId:
@@ -301,14 +333,33 @@ router.get(
  *           type: number
  *         provider:
  *           type: string
- *           enum: [PAYSTACK]
+ *           enum: [PAYSTACK, FLUTTERWAVE]
  */
 
+const parsePaymentProvider = (value: unknown): PaymentProvider | undefined => {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const provider = String(value).toUpperCase();
+  if (!isPaymentProvider(provider)) {
+    throw new AppError(
+      `Invalid payment provider. Valid providers: ${PAYMENT_PROVIDERS.join(", ")}`,
+      400,
+    );
+  }
+  return provider;
+};
+
 /**
  * @swagger
- * /api/payments/initialize-paystack:
+ * /api/payments/initialize:
  *   post:
- *     summary: Initialize Paystack payment (PRIMARY GATEWAY)
+ *     summary: Initialize a payment with the booking's chosen provider
+ *     description: >
+ *       Uses the requested provider, or the default one, and fails over to
+ *       the other provider for the booking currency when it is degraded.
+ *       The provider actually used is returned and recorded on the payment.
+ *       /api/payments/initialize-paystack is kept as an alias.
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
@@ -317,25 +368,26 @@ router.get(
  *       content:
  *         application/json:
  *           schema:
- *             $ref: '#/components/schemas/InitializePaystackRequest'
+ *             $ref: '#/components/schemas/InitializePaymentRequest'
  *     responses:
  *       200:
  *         description: Payment initialized successfully
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/InitializePaystackResponse'
+ *               $ref: '#/components/schemas/InitializePaymentResponse'
  *       400:
  *         description: Invalid request or booking already paid
  *       404:
  *         description: Booking not found
  */
 router.post(
-  "/initialize-paystack",
+  ["/initialize", "/initialize-paystack"],
   authenticate,
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const { bookingId, originUrl } = req.body;
     const userId = req.user!.id;
+    const preferredProvider = parsePaymentProvider(req.body.provider);
 
     if (!bookingId) {
       throw new AppError("Booking ID is required", 400);
@@ -390,27 +442,39 @@ router.post(
       paymentId: string,
       reference: string,
     ) => {
-      const paystackResponse =
-        await paystackService.initializePaystackTransaction({
-          email: booking.guest.email,
-          amount: Math.round(Number(booking.totalPrice) * 100),
-          reference,
-          callback_url: `${callbackBaseUrl}/api/payments/callback?reference=${reference}`,
-          metadata: {
-            bookingId: booking.id,
-            paymentId,
-            guestId: booking.guestId,
-            propertyId: booking.propertyId,
-            ...(originUrl ? { originUrl } : {}),
-          },
-        });
+      const { result } = await withGatewayFailover(
+        { currency: booking.currency, preferred: preferredProvider },
+        (gateway) =>
+          gateway.initializeTransaction({
+            email: booking.guest.email,
+            customerName: `${booking.guest.firstName} ${booking.guest.lastName}`,
+            amount: Number(booking.totalPrice),
+            currency: booking.currency,
+            reference,
+            callbackUrl: `${callbackBaseUrl}/api/payments/callback?reference=${reference}`,
+            metadata: {
+              bookingId: booking.id,
+              paymentId,
+              guestId: booking.guestId,
+              propertyId: booking.propertyId,
+              ...(originUrl ? { originUrl } : {}),
+            },
+          }),
+      );
+
+      // The payment belongs to whichever provider issued the checkout
+      await prisma.payment.update({
+        where: { id: paymentId },
+        data: { method: result.provider, providerId: result.provider },
+      });
 
       return {
-        authorizationUrl: paystackResponse.data.authorization_url,
-        accessCode: paystackResponse.data.access_code,
+        provider: result.provider,
+        authorizationUrl: result.authorizationUrl,
+        accessCode: result.accessCode,
         reference,
         paymentId,
-        publicKey: config.PAYSTACK_PUBLIC_KEY,
+        publicKey: result.publicKey,
       };
     };
 
@@ -448,11 +512,15 @@ router.post(
       )
         .then((result) => result)
         .catch(() => ({
+          provider: existingPayment.method as PaymentProvider,
           authorizationUrl: undefined as string | undefined,
-          accessCode: undefined as string | undefined,
+          accessCode: undefined as string | null | undefined,
           reference,
           paymentId: existingPayment.id,
-          publicKey: config.PAYSTACK_PUBLIC_KEY,
+          publicKey:
+            existingPayment.method === PaymentMethod.FLUTTERWAVE
+              ? config.FLUTTERWAVE_PUBLIC_KEY
+              : config.PAYSTACK_PUBLIC_KEY,
         }));
 
       const existingMetadata =
@@ -497,7 +565,7 @@ router.post(
         amount: booking.totalPrice,
         currency: booking.currency,
         status: PaymentStatus.INITIATED,
-        method: PaymentMethod.PAYSTACK,
+        method: preferredProvider ?? getDefaultPaymentProvider(),
         reference,
         roomFeeAmount: booking.roomFee,
         cleaningFeeAmount: booking.cleaningFee,
@@ -535,11 +603,51 @@ router.post(
   }),
 );
 
+const verificationFailureReason = (transaction: GatewayTransaction): string =>
+  transaction.gatewayResponse || transaction.status;
+
+const recordVerificationFailure = async (
+  payment: {
+    id: string;
+    metadata: Prisma.JsonValue;
+    booking: { id: string; guestId: string };
+  },
+  transaction: GatewayTransaction,
+): Promise<void> => {
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: PaymentStatus.FAILED,
+      metadata: {
+        ...((payment.metadata as object) || {}),
+        failureReason:
+          transaction.gatewayResponse || "Payment verification failed",
+        verificationResponse: transaction.raw,
+      },
+    },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      action: "PAYMENT_VERIFICATION_FAILED",
+      userId: payment.booking.guestId,
+      entityType: "PAYMENT",
+      entityId: payment.id,
+      details: {
+        bookingId: payment.booking.id,
+        provider: transaction.provider,
+        reason: verificationFailureReason(transaction),
+      },
+    },
+  });
+};
+
 /**
  * @swagger
- * /api/payments/verify-paystack:
+ * /api/payments/verify:
  *   post:
- *     summary: Verify Paystack payment and hold in escrow
+ *     summary: Verify a payment with its provider and hold in escrow
+ *     description: /api/payments/verify-paystack is kept as an alias.
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
@@ -558,7 +666,7 @@ router.post(
  *         description: Payment not found
  */
 router.post(
-  "/verify-paystack",
+  ["/verify", "/verify-paystack"],
   optionalAuthenticate,
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const { reference } = req.body;
@@ -603,13 +711,16 @@ router.post(
       });
     }
 
-    const verificationResult =
-      await paystackService.verifyPaystackTransaction(reference);
-    const txData = verificationResult.data || {};
-    const isApiSuccess = verificationResult.status === true;
-    const isTransactionSuccess = txData.status === "success";
-    const expectedAmount = Math.round(Number(payment.amount) * 100);
-    const actualAmount = txData.amount || 0;
+    const transaction = await trackGatewayCall(
+      getGatewayForPayment(payment),
+      (gateway) => gateway.verifyTransaction(reference),
+    );
+    const currency = settlementCurrencyOf(payment.currency);
+    const expectedAmount = toMinorUnits(Number(payment.amount), currency);
+    const actualAmount =
+      transaction.currency === currency
+        ? toMinorUnits(transaction.amount, currency)
+        : 0;
 
     if (actualAmount !== expectedAmount) {
       await prisma.payment.update({
@@ -618,8 +729,11 @@ router.post(
           status: PaymentStatus.FAILED,
           metadata: {
             ...((payment.metadata as object) || {}),
-            failureReason: `Amount mismatch: expected ${expectedAmount} kobo, got ${actualAmount} kobo`,
-            verificationResponse: txData,
+            failureReason: `Amount mismatch: expected ${formatMoney(
+              Number(payment.amount),
+              currency,
+            )}, got ${formatMoney(transaction.amount, transaction.currency)}`,
+            verificationResponse: transaction.raw,
           },
         },
       });
@@ -640,39 +754,16 @@ router.post(
       });
 
       throw new AppError(
-        `Payment amount mismatch: expected NGN ${Number(
-          payment.amount,
-        ).toLocaleString()}, got NGN ${(actualAmount / 100).toLocaleString()}`,
+        `Payment amount mismatch: expected ${formatMoney(
+          Number(payment.amount),
+          currency,
+        )}, got ${formatMoney(transaction.amount, transaction.currency)}`,
         400,
       );
     }
 
-    if (!isApiSuccess || !isTransactionSuccess) {
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          status: PaymentStatus.FAILED,
-          metadata: {
-            ...((payment.metadata as object) || {}),
-            failureReason:
-              verificationResult.message || "Payment verification failed",
-            verificationResponse: txData,
-          },
-        },
-      });
-
-      await prisma.auditLog.create({
-        data: {
-          action: "PAYMENT_VERIFICATION_FAILED",
-          userId: payment.booking.guestId,
-          entityType: "PAYMENT",
-          entityId: payment.id,
-          details: {
-            bookingId: payment.booking.id,
-            reason: verificationResult.message || txData.status || "UNKNOWN",
-          },
-        },
-      });
+    if (transaction.status !== "success") {
+      await recordVerificationFailure(payment, transaction);
 
       sendEmail(payment.booking.guest.email, {
         subject: "Payment Failed",
@@ -680,17 +771,15 @@ router.post(
       }).catch(() => undefined);
 
       throw new AppError(
-        `Payment verification failed: ${
-          verificationResult.message || txData.status || "Unknown error"
-        }`,
+        `Payment verification failed: ${verificationFailureReason(transaction)}`,
         400,
       );
     }
 
-    const finalized = await finalizePaystackPayment({
+    const finalized = await finalizeGatewayPayment({
       paymentId: payment.id,
-      source: "VERIFY_PAYSTACK",
-      providerData: txData,
+      source: "VERIFY_PAYMENT",
+      transaction,
     });
 
     return res.status(200).json({
@@ -710,7 +799,7 @@ router.post(
  * @swagger
  * /api/payments/verify-by-booking:
  *   post:
- *     summary: Verify Paystack payment by booking ID
+ *     summary: Verify a payment by booking ID with its provider
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
@@ -779,59 +868,24 @@ router.post(
       });
     }
 
-    if (payment.method !== PaymentMethod.PAYSTACK) {
-      throw new AppError(
-        `Unsupported payment provider: ${payment.method}`,
-        400,
-      );
-    }
-
-    const verificationResult = await paystackService.verifyPaystackTransaction(
-      payment.reference!,
+    const transaction = await trackGatewayCall(
+      getGatewayForPayment(payment),
+      (gateway) => gateway.verifyTransaction(payment.reference!),
     );
-    const txData = verificationResult.data || {};
-    const isApiSuccess = verificationResult.status === true;
-    const isTransactionSuccess = txData.status === "success";
 
-    if (!isApiSuccess || !isTransactionSuccess) {
-      await prisma.payment.update({
-        where: { id: payment.id },
-        data: {
-          status: PaymentStatus.FAILED,
-          metadata: {
-            ...((payment.metadata as object) || {}),
-            failureReason:
-              verificationResult.message || "Payment verification failed",
-            verificationResponse: txData,
-          },
-        },
-      });
-
-      await prisma.auditLog.create({
-        data: {
-          action: "PAYMENT_VERIFICATION_FAILED",
-          userId: payment.booking.guestId,
-          entityType: "PAYMENT",
-          entityId: payment.id,
-          details: {
-            bookingId: payment.booking.id,
-            reason: verificationResult.message || txData.status || "UNKNOWN",
-          },
-        },
-      });
+    if (transaction.status !== "success") {
+      await recordVerificationFailure(payment, transaction);
 
       throw new AppError(
-        `Payment verification failed: ${
-          verificationResult.message || txData.status
-        }`,
+        `Payment verification failed: ${verificationFailureReason(transaction)}`,
         400,
       );
     }
 
-    const finalized = await finalizePaystackPayment({
+    const finalized = await finalizeGatewayPayment({
       paymentId: payment.id,
       source: "VERIFY_BY_BOOKING",
-      providerData: txData,
+      transaction,
     });
 
     return res.status(200).json({
@@ -890,7 +944,11 @@ router.get(
     if (userRole === "GUEST") {
       where.booking = { guestId: userId };
     } else if (userRole === "REALTOR") {
-      where.booking = { property: { realtor: { userId } } };
+      const access = await resolveRealtorAccess(userId);
+      if (!access || !hasRealtorTeamPermission(access, "finance.read")) {
+        throw new AppError("Your team role does not allow this action", 403);
+      }
+      where.booking = { property: { realtorId: access.realtorId } };
     }
     // ADMIN sees all payments (no filter)
 
@@ -995,7 +1053,7 @@ router.post(
 router.get(
   "/leakage-metrics",
   authenticate,
-  authorize("ADMIN"),
+  requirePermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     const parsedWindowDays = Number(req.query.windowDays ?? 30);
     const windowDays =
@@ -1019,20 +1077,17 @@ router.get(
       prisma.payment.count({
         where: {
           createdAt: { gte: windowStart },
-          method: PaymentMethod.PAYSTACK,
         },
       }),
       prisma.payment.count({
         where: {
           createdAt: { gte: windowStart },
-          method: PaymentMethod.PAYSTACK,
           status: { in: SAVED_METHOD_ELIGIBLE_STATUSES },
         },
       }),
       prisma.payment.count({
         where: {
           createdAt: { gte: windowStart, lte: abandonmentCutoff },
-          method: PaymentMethod.PAYSTACK,
           status: { in: [PaymentStatus.INITIATED] },
           booking: {
             status: BookingStatus.PENDING,
@@ -1423,24 +1478,37 @@ router.post(
       });
     }
 
-    const chargeResult = await paystackService.chargeAuthorization({
-      authorizationCode: authorization.authorizationCode,
-      email: booking.guest.email,
-      amount: Math.round(Number(booking.totalPrice) * 100),
-      reference: chargeReference,
-      metadata: {
-        bookingId: booking.id,
-        paymentId: payment.id,
-        reusedFromPaymentId: sourcePayment.id,
-        paymentMode: "SAVED_METHOD",
-      },
-    });
+    // Saved cards are Paystack authorizations, so the charge is Paystack's
+    // even if an earlier checkout for this booking was started elsewhere
+    if (payment.method !== PaymentMethod.PAYSTACK) {
+      payment = await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+          method: PaymentMethod.PAYSTACK,
+          providerId: PaymentMethod.PAYSTACK,
+        },
+      });
+    }
 
-    const chargeData = chargeResult?.data || {};
-    const paymentSuccessful =
-      chargeResult?.status === true && chargeData?.status === "success";
+    const charge = await trackGatewayCall(
+      getPaymentGateway(PaymentMethod.PAYSTACK),
+      (gateway) =>
+        gateway.chargeAuthorization({
+          authorizationCode: authorization.authorizationCode!,
+          email: booking.guest.email,
+          amount: Number(booking.totalPrice),
+          reference: chargeReference!,
+          currency: booking.currency,
+          metadata: {
+            bookingId: booking.id,
+            paymentId: payment!.id,
+            reusedFromPaymentId: sourcePayment.id,
+            paymentMode: "SAVED_METHOD",
+          },
+        }),
+    );
 
-    if (!paymentSuccessful) {
+    if (charge.status !== "success") {
       await prisma.payment.update({
         where: { id: payment.id },
         data: {
@@ -1448,10 +1516,8 @@ router.post(
           metadata: {
             ...getMetadataObject(payment.metadata),
             failureReason:
-              chargeResult?.message ||
-              chargeData?.gateway_response ||
-              "Saved method charge failed",
-            providerResponse: chargeData,
+              charge.gatewayResponse || "Saved method charge failed",
+            providerResponse: charge.raw,
           },
         },
       });
@@ -1472,17 +1538,15 @@ router.post(
 
       throw new AppError(
         `Payment failed: ${
-          chargeResult?.message ||
-          chargeData?.gateway_response ||
-          "Could not complete payment"
+          charge.gatewayResponse || "Could not complete payment"
         }`,
         400,
       );
     }
-    const finalized = await finalizePaystackPayment({
+    const finalized = await finalizeGatewayPayment({
       paymentId: payment.id,
       source: "SAVED_METHOD",
-      providerData: chargeData,
+      transaction: charge,
       extraMetadata: {
         authorizationCode: authorization.authorizationCode,
         savedMethodPayment: true,
@@ -1592,8 +1656,12 @@ router.get(
     const isGuest = userRole === "GUEST" && payment.booking.guestId === userId;
     const isRealtor =
       userRole === "REALTOR" &&
-      payment.booking.property.realtor.userId === userId;
-    const isAdmin = userRole === "ADMIN";
+      (await actsForRealtor(
+        userId,
+        payment.booking.property.realtorId,
+        "finance.read",
+      ));
+    const isAdmin = hasAdminPermission(req.user!, "bookings.read");
 
     if (!isGuest && !isRealtor && !isAdmin) {
       throw new AppError("Unauthorized to download this receipt", 403);
@@ -1695,8 +1763,12 @@ router.get(
     const isGuest = userRole === "GUEST" && payment.booking.guestId === userId;
     const isRealtor =
       userRole === "REALTOR" &&
-      payment.booking.property.realtor.userId === userId;
-    const isAdmin = userRole === "ADMIN";
+      (await actsForRealtor(
+        userId,
+        payment.booking.property.realtorId,
+        "finance.read",
+      ));
+    const isAdmin = hasAdminPermission(req.user!, "bookings.read");
 
     if (!isGuest && !isRealtor && !isAdmin) {
       throw new AppError("Unauthorized", 403);
@@ -1803,7 +1875,7 @@ router.post(
 router.post(
   "/:id/refund",
   authenticate,
-  authorize("ADMIN"),
+  requirePermission("refunds.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
     res.status(410).json({
       success: false,
@@ -14,12 +14,43 @@ import {
   authenticate,
   authorize,
   requireApprovedRealtor,
+  requireRealtorPermission,
 } from "@/middleware/auth";
 import { upload } from "@/utils/upload";
+import { auditLogger } from "@/services/auditLogger";
+import { assertRealtorPermission } from "@/services/realtorTeam";
+import { RealtorTeamPermission } from "@/services/realtorTeamRules";
+import { parsePricingRulesInput, readPricingRules } from "@/services/pricingRules";
+import { parseCancellationPolicyInput } from "@/services/cancellationPolicy";
+import {
+  describeCancellationPolicy,
+  readCancellationPolicy,
+} from "@/services/refundPolicy";
+import {
+  buildBoundingBoxFilter,
+  fuzzCoordinates,
+  GeoPoint,
+  getRadiusBoundingBox,
+  haversineDistanceKm,
+  isValidLatitude,
+  isValidLongitude,
+  MAX_SEARCH_RADIUS_KM,
+  parseBoundingBox,
+} from "@/services/geo";
+import {
+  AVAILABILITY_BLOCK_REASONS,
+  buildBlockOverlapFilter,
+  createAvailabilityBlock,
+  expandBlockedNights,
+  listAvailabilityBlocks,
+  parseAvailabilityBlockInput,
+  updateAvailabilityBlock,
+} from "@/services/availabilityBlocks";
 
 const router = express.Router();
 
 const MAX_PROPERTY_IMAGES = 8;
+const DEFAULT_SEARCH_RADIUS_KM = 10;
 
 const normalizeCustomAmenities = (
   customAmenities: unknown,
@@ -49,6 +80,11 @@ const sanitizePublicProperty = <T extends Record<string, unknown>>(
     wifiName: null,
     wifiPassword: null,
     parkingInstructions: null,
+    // Like the address, the exact pin is only revealed after payment
+    latitude: property.publicLatitude ?? null,
+    longitude: property.publicLongitude ?? null,
+    publicLatitude: undefined,
+    publicLongitude: undefined,
     // Deprecated: service fee is quote-driven by finance engine, not property-level.
     serviceFee: null,
     sensitiveDetailsUnlocked: false as const,
@@ -60,6 +96,39 @@ const sanitizePublicProperty = <T extends Record<string, unknown>>(
   };
 };
 
+/**
+ * Exact and fuzzed coordinate columns for a validated create/update body.
+ * The public pair is only regenerated when the real location moves.
+ */
+const buildLocationData = (
+  value: { latitude?: number; longitude?: number },
+  existing?: { latitude: number | null; longitude: number | null },
+) => {
+  if (value.latitude === undefined || value.longitude === undefined) {
+    return {};
+  }
+
+  if (
+    existing &&
+    existing.latitude === value.latitude &&
+    existing.longitude === value.longitude
+  ) {
+    return {};
+  }
+
+  const publicLocation = fuzzCoordinates({
+    latitude: value.latitude,
+    longitude: value.longitude,
+  });
+
+  return {
+    latitude: value.latitude,
+    longitude: value.longitude,
+    publicLatitude: publicLocation.latitude,
+    publicLongitude: publicLocation.longitude,
+  };
+};
+
 /**
  * @swagger
  * tags:
@@ -97,6 +166,7 @@ const sanitizePublicProperty = <T extends Record<string, unknown>>(
  *           type: number
  *         currency:
  *           type: string
+ *           enum: [NGN, GHS, KES]
  *         bedrooms:
  *           type: integer
  *         bathrooms:
@@ -158,6 +228,7 @@ const sanitizePublicProperty = <T extends Record<string, unknown>>(
  *         schema:
  *           type: string
  *           default: createdAt
+ *         description: Field to sort by, or "distance" for radius searches
  *       - in: query
  *         name: sortOrder
  *         schema:
@@ -204,6 +275,28 @@ const sanitizePublicProperty = <T extends Record<string, unknown>>(
  *         schema:
  *           type: string
  *         description: Comma-separated list of amenities
+ *       - in: query
+ *         name: lat
+ *         schema:
+ *           type: number
+ *         description: Latitude of the radius search center (requires lng)
+ *       - in: query
+ *         name: lng
+ *         schema:
+ *           type: number
+ *         description: Longitude of the radius search center (requires lat)
+ *       - in: query
+ *         name: radiusKm
+ *         schema:
+ *           type: number
+ *           default: 10
+ *           maximum: 100
+ *         description: Search radius around lat/lng. Results include distanceKm and are sorted by distance unless sortBy is set.
+ *       - in: query
+ *         name: bbox
+ *         schema:
+ *           type: string
+ *         description: Map viewport as "south,west,north,east" in decimal degrees
  *     responses:
  *       200:
  *         description: Properties retrieved successfully
@@ -249,6 +342,10 @@ router.get(
       checkIn,
       checkOut,
       amenities,
+      lat,
+      lng,
+      radiusKm,
+      bbox,
     } = req.query as PropertySearchQuery;
 
     const pageNum = parseInt(page, 10);
@@ -258,6 +355,46 @@ router.get(
     const where: Record<string, unknown> = {
       isActive: true,
     };
+    const andFilters: Prisma.PropertyWhereInput[] = [];
+
+    let radiusSearch: { center: GeoPoint; radiusKm: number } | null = null;
+    if (lat !== undefined || lng !== undefined || radiusKm !== undefined) {
+      const center = { latitude: Number(lat), longitude: Number(lng) };
+      const radius =
+        radiusKm === undefined ? DEFAULT_SEARCH_RADIUS_KM : Number(radiusKm);
+
+      if (
+        lat === undefined ||
+        lng === undefined ||
+        !isValidLatitude(center.latitude) ||
+        !isValidLongitude(center.longitude)
+      ) {
+        throw new AppError("lat and lng must be valid coordinates", 400);
+      }
+
+      if (!(radius > 0 && radius <= MAX_SEARCH_RADIUS_KM)) {
+        throw new AppError(
+          `radiusKm must be greater than 0 and at most ${MAX_SEARCH_RADIUS_KM}`,
+          400,
+        );
+      }
+
+      radiusSearch = { center, radiusKm: radius };
+      andFilters.push(
+        buildBoundingBoxFilter(getRadiusBoundingBox(center, radius)),
+      );
+    }
+
+    if (bbox) {
+      const box = parseBoundingBox(bbox);
+      if (!box) {
+        throw new AppError(
+          'bbox must be "south,west,north,east" in decimal degrees',
+          400,
+        );
+      }
+      andFilters.push(buildBoundingBoxFilter(box));
+    }
 
     if (city) where.city = { contains: city, mode: "insensitive" };
     if (country) where.country = { contains: country, mode: "insensitive" };
@@ -278,7 +415,7 @@ router.get(
       const checkInDate = new Date(checkIn);
       const checkOutDate = new Date(checkOut);
 
-      where.AND = [
+      andFilters.push(
         {
           bookings: {
             none: {
@@ -311,47 +448,104 @@ router.get(
           },
         },
         {
-          unavailableDates: {
-            none: {
-              date: {
-                gte: checkInDate,
-                lt: checkOutDate,
-              },
-            },
+          availabilityBlocks: {
+            none: buildBlockOverlapFilter(checkInDate, checkOutDate),
           },
         },
-      ];
+      );
     }
 
-    const [properties, total] = await Promise.all([
-      prisma.property.findMany({
-        where: where as Prisma.PropertyWhereInput,
-        include: {
-          images: {
-            orderBy: {
-              order: "asc",
-            },
-          },
-          realtor: {
-            select: {
-              id: true,
-            },
-          },
-          reviews: false,
-          _count: {
-            select: {
-              reviews: true,
-            },
-          },
-        },
+    if (andFilters.length > 0) {
+      where.AND = andFilters;
+    }
+
+    const propertyInclude = {
+      images: {
         orderBy: {
-          [sortBy]: sortOrder,
+          order: "asc",
         },
-        skip,
-        take: limitNum,
-      }),
-      prisma.property.count({ where: where as Prisma.PropertyWhereInput }),
-    ]);
+      },
+      realtor: {
+        select: {
+          id: true,
+        },
+      },
+      reviews: false,
+      _count: {
+        select: {
+          reviews: true,
+        },
+      },
+    } satisfies Prisma.PropertyInclude;
+
+    // Radius searches rank by distance unless the caller picked a sort
+    const sortByDistance =
+      radiusSearch !== null &&
+      ((req.query as PropertySearchQuery).sortBy === undefined ||
+        sortBy === "distance");
+    const orderBy = {
+      [sortBy === "distance" ? "createdAt" : sortBy]: sortOrder,
+    };
+
+    let properties: Prisma.PropertyGetPayload<{
+      include: typeof propertyInclude;
+    }>[];
+    let total: number;
+    const distanceById = new Map<string, number>();
+
+    if (radiusSearch) {
+      // The bounding box pre-filter is a square; trim its corners by exact
+      // distance, then paginate the matching ids
+      const search = radiusSearch;
+      const candidates = await prisma.property.findMany({
+        where: where as Prisma.PropertyWhereInput,
+        select: { id: true, publicLatitude: true, publicLongitude: true },
+        orderBy,
+      });
+
+      const matches = candidates
+        .map((candidate) => ({
+          id: candidate.id,
+          distanceKm: haversineDistanceKm(search.center, {
+            latitude: candidate.publicLatitude ?? 0,
+            longitude: candidate.publicLongitude ?? 0,
+          }),
+        }))
+        .filter((candidate) => candidate.distanceKm <= search.radiusKm);
+
+      if (sortByDistance) {
+        matches.sort((a, b) => a.distanceKm - b.distanceKm);
+      }
+
+      const pageMatches = matches.slice(skip, skip + limitNum);
+      pageMatches.forEach((match) =>
+        distanceById.set(match.id, Math.round(match.distanceKm * 10) / 10),
+      );
+
+      const pageOrder = new Map(
+        pageMatches.map((match, index) => [match.id, index]),
+      );
+      const pageProperties = await prisma.property.findMany({
+        where: { id: { in: pageMatches.map((match) => match.id) } },
+        include: propertyInclude,
+      });
+
+      properties = pageProperties.sort(
+        (a, b) => (pageOrder.get(a.id) ?? 0) - (pageOrder.get(b.id) ?? 0),
+      );
+      total = matches.length;
+    } else {
+      [properties, total] = await Promise.all([
+        prisma.property.findMany({
+          where: where as Prisma.PropertyWhereInput,
+          include: propertyInclude,
+          orderBy,
+          skip,
+          take: limitNum,
+        }),
+        prisma.property.count({ where: where as Prisma.PropertyWhereInput }),
+      ]);
+    }
 
     const propertiesWithRatings = properties.map((property) => ({
       ...sanitizePublicProperty(property),
@@ -366,6 +560,9 @@ router.get(
         ? Number(property.averageRating)
         : 0,
       reviewCount: property.reviewCount,
+      ...(radiusSearch
+        ? { distanceKm: distanceById.get(property.id) ?? null }
+        : {}),
     }));
 
     const response: ApiResponse = {
@@ -441,20 +638,26 @@ router.get(
     const endDate = new Date();
     endDate.setMonth(endDate.getMonth() + monthsNum);
 
-    const bookings = await prisma.booking.findMany({
-      where: {
-        propertyId: id,
-        status: { in: ["ACTIVE"] },
-        checkOutDate: { gte: startDate },
-        checkInDate: { lte: endDate },
-      },
-      select: {
-        checkInDate: true,
-        checkOutDate: true,
-      },
-    });
+    const [bookings, blocks] = await Promise.all([
+      prisma.booking.findMany({
+        where: {
+          propertyId: id,
+          status: { in: ["ACTIVE"] },
+          checkOutDate: { gte: startDate },
+          checkInDate: { lte: endDate },
+        },
+        select: {
+          checkInDate: true,
+          checkOutDate: true,
+        },
+      }),
+      listAvailabilityBlocks(id, { from: startDate, to: endDate }),
+    ]);
 
     // Build a list of unavailable dates
+    const blockedNights = new Set(
+      expandBlockedNights(blocks, startDate, endDate),
+    );
     const unavailableDates: string[] = [];
     const current = new Date(startDate);
     while (current <= endDate) {
@@ -464,7 +667,7 @@ router.get(
         const co = new Date(b.checkOutDate);
         return current >= ci && current < co;
       });
-      if (isBooked) {
+      if (isBooked || blockedNights.has(dateStr)) {
         unavailableDates.push(dateStr);
       }
       current.setDate(current.getDate() + 1);
@@ -481,6 +684,589 @@ router.get(
   }),
 );
 
+const loadPropertyForAvailabilityChange = async (
+  propertyId: string,
+  user: NonNullable<AuthenticatedRequest["user"]>,
+  action = "manage availability",
+  permission: RealtorTeamPermission = "properties.manage",
+) => {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: {
+      id: true,
+      realtorId: true,
+    },
+  });
+
+  if (!property) {
+    throw new AppError("Property not found", 404);
+  }
+
+  await assertRealtorPermission(
+    user,
+    property.realtorId,
+    permission,
+    `Only property owner can ${action}`,
+  );
+
+  return property;
+};
+
+const loadAvailabilityBlock = async (propertyId: string, blockId: string) => {
+  const block = await prisma.propertyAvailabilityBlock.findFirst({
+    where: { id: blockId, propertyId },
+  });
+
+  if (!block) {
+    throw new AppError("Availability block not found", 404);
+  }
+
+  // Imported blocks are rewritten on every sync, so local edits would be lost
+  if (block.sourceId) {
+    throw new AppError(
+      "This block is imported from an external calendar. Change it there or remove the calendar source.",
+      409,
+    );
+  }
+
+  return block;
+};
+
+/**
+ * @swagger
+ * /api/properties/{id}/availability-blocks:
+ *   get:
+ *     summary: List availability blocks (owner only)
+ *     description: Returns dates the realtor has blocked for maintenance, owner stays or external bookings.
+ *     tags: [Properties]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Availability blocks retrieved
+ *       403:
+ *         description: Not authorized
+ *       404:
+ *         description: Property not found
+ */
+router.get(
+  "/:id/availability-blocks",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+    const { from, to } = req.query as { from?: string; to?: string };
+
+    await loadPropertyForAvailabilityChange(
+      id,
+      req.user!,
+      "view availability",
+      "properties.read",
+    );
+
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if (
+      (fromDate && Number.isNaN(fromDate.getTime())) ||
+      (toDate && Number.isNaN(toDate.getTime()))
+    ) {
+      throw new AppError("Invalid from or to date", 400);
+    }
+
+    const blocks = await listAvailabilityBlocks(id, {
+      from: fromDate,
+      to: toDate,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        propertyId: id,
+        reasons: AVAILABILITY_BLOCK_REASONS,
+        blocks,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/properties/{id}/availability-blocks:
+ *   post:
+ *     summary: Block dates (owner only)
+ *     description: Blocks a date range so guests cannot book it. endDate is exclusive, like a check-out date.
+ *     tags: [Properties]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *                 enum: [MAINTENANCE, OWNER_STAY, EXTERNAL_BOOKING, OTHER]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Dates blocked successfully
+ *       400:
+ *         description: Invalid range or overlaps a booking or block
+ *       403:
+ *         description: Not authorized
+ */
+router.post(
+  "/:id/availability-blocks",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    await loadPropertyForAvailabilityChange(id, req.user!);
+
+    const input = parseAvailabilityBlockInput(req.body);
+    const block = await createAvailabilityBlock(id, input, req.user!.id);
+
+    await auditLogger.log("AVAILABILITY_BLOCK_CREATE", "PROPERTY", {
+      entityId: id,
+      userId: req.user!.id,
+      details: {
+        blockId: block.id,
+        startDate: block.startDate,
+        endDate: block.endDate,
+        reason: block.reason,
+      },
+      req,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Dates blocked successfully",
+      data: block,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/properties/{id}/availability-blocks/{blockId}:
+ *   patch:
+ *     summary: Update an availability block (owner only)
+ *     tags: [Properties]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: blockId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               reason:
+ *                 type: string
+ *                 enum: [MAINTENANCE, OWNER_STAY, EXTERNAL_BOOKING, OTHER]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Availability block updated
+ *       400:
+ *         description: Invalid range or overlaps a booking or block
+ *       404:
+ *         description: Availability block not found
+ */
+router.patch(
+  "/:id/availability-blocks/:blockId",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, blockId } = req.params;
+
+    await loadPropertyForAvailabilityChange(id, req.user!);
+    const existing = await loadAvailabilityBlock(id, blockId);
+
+    const block = await updateAvailabilityBlock(existing, req.body || {});
+
+    await auditLogger.log("AVAILABILITY_BLOCK_UPDATE", "PROPERTY", {
+      entityId: id,
+      userId: req.user!.id,
+      details: {
+        blockId,
+        previous: {
+          startDate: existing.startDate,
+          endDate: existing.endDate,
+          reason: existing.reason,
+        },
+        startDate: block.startDate,
+        endDate: block.endDate,
+        reason: block.reason,
+      },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: "Availability block updated",
+      data: block,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/properties/{id}/availability-blocks/{blockId}:
+ *   delete:
+ *     summary: Remove an availability block (owner only)
+ *     tags: [Properties]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: blockId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dates unblocked
+ *       404:
+ *         description: Availability block not found
+ */
+router.delete(
+  "/:id/availability-blocks/:blockId",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id, blockId } = req.params;
+
+    await loadPropertyForAvailabilityChange(id, req.user!);
+    const existing = await loadAvailabilityBlock(id, blockId);
+
+    await prisma.propertyAvailabilityBlock.delete({
+      where: { id: existing.id },
+    });
+
+    await auditLogger.log("AVAILABILITY_BLOCK_DELETE", "PROPERTY", {
+      entityId: id,
+      userId: req.user!.id,
+      details: {
+        blockId,
+        startDate: existing.startDate,
+        endDate: existing.endDate,
+        reason: existing.reason,
+      },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: "Dates unblocked successfully",
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/properties/{id}/pricing-rules:
+ *   get:
+ *     summary: Get nightly pricing rules (owner only)
+ *     tags: [Properties]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pricing rules retrieved (null when the flat nightly price applies)
+ *       403:
+ *         description: Not authorized
+ */
+router.get(
+  "/:id/pricing-rules",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    await loadPropertyForAvailabilityChange(
+      id,
+      req.user!,
+      "view pricing",
+      "properties.read",
+    );
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+      select: { pricePerNight: true, currency: true, pricingRules: true },
+    });
+
+    res.json({
+      success: true,
+      data: {
+        propertyId: id,
+        pricePerNight: Number(property!.pricePerNight),
+        currency: property!.currency,
+        rules: readPricingRules(property!.pricingRules),
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/properties/{id}/pricing-rules:
+ *   put:
+ *     summary: Replace nightly pricing rules (owner only)
+ *     description: Weekend and weekday rates, seasonal overrides, weekly/monthly discounts, last-minute and early-bird adjustments, and minimum/maximum nights. Rates are fractions (0.1 = 10%). Send null to go back to the flat nightly price. Existing bookings keep the prices they were quoted.
+ *     tags: [Properties]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rules:
+ *                 type: object
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Pricing rules updated
+ *       400:
+ *         description: Invalid rules
+ *       403:
+ *         description: Not authorized
+ */
+router.put(
+  "/:id/pricing-rules",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    await loadPropertyForAvailabilityChange(id, req.user!, "manage pricing");
+
+    const rawRules = req.body?.rules;
+    const rules =
+      rawRules === null || rawRules === undefined
+        ? null
+        : parsePricingRulesInput(rawRules);
+
+    await prisma.property.update({
+      where: { id },
+      data: {
+        pricingRules: rules
+          ? (rules as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+      },
+    });
+
+    await auditLogger.log("PROPERTY_PRICING_UPDATE", "PROPERTY", {
+      entityId: id,
+      userId: req.user!.id,
+      details: { rules },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: "Pricing rules updated",
+      data: { propertyId: id, rules },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/properties/{id}/cancellation-policy:
+ *   get:
+ *     summary: Get the cancellation policy (owner only)
+ *     tags: [Properties]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Cancellation policy retrieved (Flexible when none is set)
+ *       403:
+ *         description: Not authorized
+ */
+router.get(
+  "/:id/cancellation-policy",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    await loadPropertyForAvailabilityChange(
+      id,
+      req.user!,
+      "view cancellation policy",
+      "properties.read",
+    );
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+      select: { cancellationPolicy: true },
+    });
+    const policy = readCancellationPolicy(property!.cancellationPolicy);
+
+    res.json({
+      success: true,
+      data: {
+        propertyId: id,
+        policy,
+        schedule: describeCancellationPolicy(policy),
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/properties/{id}/cancellation-policy:
+ *   put:
+ *     summary: Set the cancellation policy (owner only)
+ *     description: Choose FLEXIBLE, MODERATE, STRICT or NON_REFUNDABLE, or send type CUSTOM with tiers of minHoursBeforeCheckIn (24 or more) and refundRate (fraction of the room fee). Existing bookings keep the policy they were booked under.
+ *     tags: [Properties]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               policy:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Cancellation policy updated
+ *       400:
+ *         description: Invalid policy
+ *       403:
+ *         description: Not authorized
+ */
+router.put(
+  "/:id/cancellation-policy",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { id } = req.params;
+
+    await loadPropertyForAvailabilityChange(
+      id,
+      req.user!,
+      "manage cancellation policy",
+    );
+
+    const policy = parseCancellationPolicyInput(req.body?.policy);
+
+    await prisma.property.update({
+      where: { id },
+      data: {
+        cancellationPolicy: policy as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    await auditLogger.log("PROPERTY_CANCELLATION_POLICY_UPDATE", "PROPERTY", {
+      entityId: id,
+      userId: req.user!.id,
+      details: { policy },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: "Cancellation policy updated",
+      data: {
+        propertyId: id,
+        policy,
+        schedule: describeCancellationPolicy(policy),
+      },
+    });
+  }),
+);
+
 /**
  * @swagger
  * /api/properties/{id}:
@@ -552,6 +1338,7 @@ router.get(
         ? Number(property.averageRating)
         : 0,
       reviewCount: property.reviewCount,
+      cancellationPolicy: readCancellationPolicy(property.cancellationPolicy),
     };
 
     res.json({
@@ -610,7 +1397,9 @@ router.get(
  *                 type: number
  *               currency:
  *                 type: string
+ *                 enum: [NGN, GHS, KES]
  *                 default: NGN
+ *                 description: Currency the listing is priced, paid and paid out in
  *               bedrooms:
  *                 type: integer
  *               bathrooms:
@@ -634,6 +1423,7 @@ router.post(
   authenticate,
   authorize("REALTOR", "ADMIN"),
   requireApprovedRealtor,
+  requireRealtorPermission("properties.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { error, value } = createPropertySchema.validate(req.body);
 
@@ -649,7 +1439,7 @@ router.post(
     const property = await prisma.property.create({
       data: {
         ...value,
-        currency: "NGN",
+        ...buildLocationData(value),
         ...(normalizedCustomAmenities !== undefined
           ? { customAmenities: normalizedCustomAmenities }
           : {}),
@@ -724,6 +1514,7 @@ router.put(
   authenticate,
   authorize("REALTOR", "ADMIN"),
   requireApprovedRealtor,
+  requireRealtorPermission("properties.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const { error, value } = updatePropertySchema.validate(req.body);
@@ -752,6 +1543,7 @@ router.put(
       where: { id },
       data: {
         ...value,
+        ...buildLocationData(value, existingProperty),
         ...(normalizedCustomAmenities !== undefined
           ? { customAmenities: normalizedCustomAmenities }
           : {}),
@@ -815,6 +1607,7 @@ router.patch(
   authenticate,
   authorize("REALTOR", "ADMIN"),
   requireApprovedRealtor,
+  requireRealtorPermission("properties.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const { status } = req.body;
@@ -935,6 +1728,7 @@ router.post(
   authenticate,
   authorize("REALTOR", "ADMIN"),
   requireApprovedRealtor,
+  requireRealtorPermission("properties.manage"),
   upload.array("images", MAX_PROPERTY_IMAGES),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
@@ -1030,6 +1824,7 @@ router.delete(
   authenticate,
   authorize("REALTOR", "ADMIN"),
   requireApprovedRealtor,
+  requireRealtorPermission("properties.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id, imageId } = req.params;
 
@@ -1125,6 +1920,7 @@ router.put(
   authenticate,
   authorize("REALTOR", "ADMIN"),
   requireApprovedRealtor,
+  requireRealtorPermission("properties.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const { imageOrder } = req.body as { imageOrder?: string[] };
@@ -1213,6 +2009,7 @@ router.delete(
   authenticate,
   authorize("REALTOR", "ADMIN"),
   requireApprovedRealtor,
+  requireRealtorPermission("properties.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
 
@@ -1389,13 +2186,8 @@ router.get(
           },
         },
         {
-          unavailableDates: {
-            none: {
-              date: {
-                gte: checkInDate,
-                lt: checkOutDate,
-              },
-            },
+          availabilityBlocks: {
+            none: buildBlockOverlapFilter(checkInDate, checkOutDate),
           },
         },
       ];
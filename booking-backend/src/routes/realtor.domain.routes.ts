@@ -0,0 +1,195 @@
+import express, { Response } from "express";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireRealtorDashboardAccess,
+  requireRealtorPermission,
+  requireRole,
+} from "@/middleware/auth";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  claimCustomDomain,
+  getCustomDomainSettings,
+  removeCustomDomain,
+  verifyCustomDomain,
+} from "@/services/customDomains";
+import { customDomainSchema } from "@/utils/validation";
+
+const router = express.Router();
+
+router.use(
+  authenticate,
+  requireRole("REALTOR"),
+  requireRealtorDashboardAccess,
+  requireRealtorPermission("profile.manage"),
+);
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Realtor - Custom Domain
+ *     description: Serve the realtor's booking website on their own domain
+ */
+
+/**
+ * @swagger
+ * /api/realtors/custom-domain:
+ *   get:
+ *     summary: Custom domain and the DNS records it needs
+ *     description: Also suggests a hostname based on the realtor's website URL.
+ *     tags: [Realtor - Custom Domain]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current custom domain (or null) and suggested hostname
+ *       403:
+ *         description: Requires the profile.manage permission
+ */
+router.get(
+  "/",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: await getCustomDomainSettings(req.realtorAccess!.realtorId),
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/custom-domain:
+ *   put:
+ *     summary: Add or replace the custom domain
+ *     description: A new hostname starts unverified with a fresh TXT token. The booking website is only served on it once verified.
+ *     tags: [Realtor - Custom Domain]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [hostname]
+ *             properties:
+ *               hostname:
+ *                 type: string
+ *                 example: book.example.com
+ *     responses:
+ *       200:
+ *         description: Domain saved with the DNS records to publish
+ *       400:
+ *         description: Invalid hostname, or a hostname on the platform domain
+ *       409:
+ *         description: Hostname is verified by another realtor
+ */
+router.put(
+  "/",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = customDomainSchema.validate(req.body ?? {});
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const realtorId = req.realtorAccess!.realtorId;
+    const { domain, previousHostname } = await claimCustomDomain(
+      realtorId,
+      value.hostname,
+    );
+
+    await auditLogger.log("CUSTOM_DOMAIN_ADD", "CUSTOM_DOMAIN", {
+      entityId: realtorId,
+      userId: req.user!.id,
+      details: { hostname: domain.hostname, previousHostname },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: `Publish the TXT record, then verify ${domain.hostname}`,
+      data: domain,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/custom-domain/verify:
+ *   post:
+ *     summary: Check the verification TXT record
+ *     description: Looks up the TXT record and marks the domain VERIFIED or FAILED. Re-checking a verified domain whose record is gone takes it offline.
+ *     tags: [Realtor - Custom Domain]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Check result (see status and lastCheckError)
+ *       404:
+ *         description: No custom domain added
+ */
+router.post(
+  "/verify",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const realtorId = req.realtorAccess!.realtorId;
+    const domain = await verifyCustomDomain(realtorId);
+
+    await auditLogger.log("CUSTOM_DOMAIN_VERIFY", "CUSTOM_DOMAIN", {
+      entityId: realtorId,
+      userId: req.user!.id,
+      details: {
+        hostname: domain.hostname,
+        status: domain.status,
+        error: domain.lastCheckError,
+      },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message:
+        domain.status === "VERIFIED"
+          ? `${domain.hostname} is verified. Your booking website is live on it once the CNAME record points to ${domain.cnameTarget}.`
+          : domain.lastCheckError,
+      data: domain,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/custom-domain:
+ *   delete:
+ *     summary: Remove the custom domain
+ *     description: The booking website stays available on the realtor's subdomain.
+ *     tags: [Realtor - Custom Domain]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Domain removed
+ *       404:
+ *         description: No custom domain to remove
+ */
+router.delete(
+  "/",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const realtorId = req.realtorAccess!.realtorId;
+    const domain = await removeCustomDomain(realtorId);
+
+    await auditLogger.log("CUSTOM_DOMAIN_REMOVE", "CUSTOM_DOMAIN", {
+      entityId: realtorId,
+      userId: req.user!.id,
+      details: { hostname: domain.hostname },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: `${domain.hostname} was removed`,
+    });
+  }),
+);
+
+export default router;
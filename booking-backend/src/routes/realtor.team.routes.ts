@@ -0,0 +1,400 @@
+import express, { Response } from "express";
+import { RealtorTeamRole } from "@prisma/client";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireRealtorDashboardAccess,
+  requireRealtorPermission,
+  requireRole,
+  requireStepUp,
+} from "@/middleware/auth";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  REALTOR_TEAM_ROLE_LABELS,
+  REALTOR_TEAM_ROLE_PERMISSIONS,
+  getRealtorTeamPermissions,
+} from "@/services/realtorTeamRules";
+import {
+  createRealtorTeamInvite,
+  getRealtorTeamSchedule,
+  listRealtorTeam,
+  removeRealtorTeamMember,
+  revokeRealtorTeamInvite,
+  updateRealtorTeamMemberRole,
+} from "@/services/realtorTeam";
+import {
+  createRealtorTeamInviteSchema,
+  updateRealtorTeamRoleSchema,
+} from "@/utils/validation";
+
+const router = express.Router();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SCHEDULE_DAYS = 14;
+const MAX_SCHEDULE_DAYS = 90;
+
+// Team members reach the dashboard in every approval state, like the owner
+router.use(authenticate, requireRole("REALTOR"), requireRealtorDashboardAccess);
+
+const parseScheduleDate = (value: unknown, fallback: Date): Date => {
+  if (value === undefined || value === "") {
+    return fallback;
+  }
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new AppError("from and to must be valid dates", 400);
+  }
+  return date;
+};
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Realtor - Team
+ *     description: Team members, roles and invites for a realtor account
+ */
+
+/**
+ * @swagger
+ * /api/realtors/team/permissions:
+ *   get:
+ *     summary: The signed-in user's team role and permissions
+ *     description: teamRole is null for the realtor's own login. Also lists every team role with the permissions it grants.
+ *     tags: [Realtor - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Role and permissions
+ */
+router.get(
+  "/permissions",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const access = req.realtorAccess!;
+
+    res.json({
+      success: true,
+      data: {
+        realtorId: access.realtorId,
+        teamRole: access.teamRole,
+        permissions: getRealtorTeamPermissions(access.teamRole),
+        roles: (
+          Object.keys(REALTOR_TEAM_ROLE_PERMISSIONS) as RealtorTeamRole[]
+        ).map((role) => ({
+          role,
+          label: REALTOR_TEAM_ROLE_LABELS[role],
+          permissions: REALTOR_TEAM_ROLE_PERMISSIONS[role],
+        })),
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/team/schedule:
+ *   get:
+ *     summary: Upcoming stays across the realtor's properties
+ *     description: Check-in and check-out dates without guest contact or price details. Defaults to the next 14 days; at most 90 days per request.
+ *     tags: [Realtor - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Stays overlapping the range
+ *       403:
+ *         description: Requires the schedule.read permission
+ */
+router.get(
+  "/schedule",
+  requireRealtorPermission("schedule.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const from = parseScheduleDate(req.query.from, new Date());
+    const to = parseScheduleDate(
+      req.query.to,
+      new Date(from.getTime() + DEFAULT_SCHEDULE_DAYS * DAY_MS),
+    );
+    if (to < from) {
+      throw new AppError("to must be after from", 400);
+    }
+    if (to.getTime() - from.getTime() > MAX_SCHEDULE_DAYS * DAY_MS) {
+      throw new AppError(
+        `The schedule covers at most ${MAX_SCHEDULE_DAYS} days`,
+        400,
+      );
+    }
+
+    const stays = await getRealtorTeamSchedule(req.realtorAccess!.realtorId, {
+      from,
+      to,
+    });
+
+    res.json({ success: true, data: { from, to, stays } });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/team:
+ *   get:
+ *     summary: Team members and pending invites
+ *     tags: [Realtor - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Owner, members and pending invites
+ *       403:
+ *         description: Requires the team.manage permission
+ */
+router.get(
+  "/",
+  requireRealtorPermission("team.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: await listRealtorTeam(req.realtorAccess!.realtorId),
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/team/invites:
+ *   post:
+ *     summary: Invite a team member
+ *     description: Emails a single-use link that creates the member's own login with the given role. Replaces any pending invite for the same email.
+ *     tags: [Realtor - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, role]
+ *             properties:
+ *               email:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [MANAGER, FRONT_DESK, FINANCE, CLEANER]
+ *     responses:
+ *       201:
+ *         description: Invite sent
+ *       403:
+ *         description: Requires the team.manage permission, or 2FA re-verification (statusCode STEP_UP_REQUIRED)
+ *       409:
+ *         description: An account with this email already exists
+ */
+router.post(
+  "/invites",
+  requireRealtorPermission("team.manage"),
+  requireStepUp,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = createRealtorTeamInviteSchema.validate(
+      req.body ?? {},
+    );
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const invite = await createRealtorTeamInvite({
+      realtorId: req.realtorAccess!.realtorId,
+      email: value.email,
+      role: value.role,
+      invitedBy: req.user!,
+    });
+
+    await auditLogger.log("REALTOR_TEAM_INVITE_CREATE", "REALTOR_TEAM_INVITE", {
+      entityId: invite.id,
+      userId: req.user!.id,
+      details: {
+        realtorId: req.realtorAccess!.realtorId,
+        email: invite.email,
+        role: invite.role,
+      },
+      req,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Invitation sent to ${invite.email}`,
+      data: invite,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/team/invites/{id}:
+ *   delete:
+ *     summary: Revoke a pending team invite
+ *     tags: [Realtor - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite revoked
+ *       404:
+ *         description: Invite not found or no longer pending
+ */
+router.delete(
+  "/invites/:id",
+  requireRealtorPermission("team.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const invite = await revokeRealtorTeamInvite(
+      req.realtorAccess!.realtorId,
+      req.params.id,
+    );
+
+    await auditLogger.log("REALTOR_TEAM_INVITE_REVOKE", "REALTOR_TEAM_INVITE", {
+      entityId: invite.id,
+      userId: req.user!.id,
+      details: {
+        realtorId: req.realtorAccess!.realtorId,
+        email: invite.email,
+        role: invite.role,
+      },
+      req,
+    });
+
+    res.json({ success: true, message: "Invite revoked", data: invite });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/team/members/{memberId}/role:
+ *   patch:
+ *     summary: Change a team member's role
+ *     tags: [Realtor - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [MANAGER, FRONT_DESK, FINANCE, CLEANER]
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       404:
+ *         description: Team member not found
+ */
+router.patch(
+  "/members/:memberId/role",
+  requireRealtorPermission("team.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = updateRealtorTeamRoleSchema.validate(
+      req.body ?? {},
+    );
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { member, previousRole } = await updateRealtorTeamMemberRole(
+      req.realtorAccess!.realtorId,
+      req.params.memberId,
+      value.role,
+    );
+
+    await auditLogger.log("REALTOR_TEAM_ROLE_UPDATE", "REALTOR_TEAM_MEMBER", {
+      entityId: member.id,
+      userId: req.user!.id,
+      details: {
+        realtorId: req.realtorAccess!.realtorId,
+        memberUserId: member.user.id,
+        email: member.user.email,
+        from: previousRole,
+        to: member.role,
+      },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message: `${member.user.email} is now ${REALTOR_TEAM_ROLE_LABELS[member.role]}`,
+      data: member,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/realtors/team/members/{memberId}:
+ *   delete:
+ *     summary: Remove a team member
+ *     description: Ends the member's access straight away. Their login stays as a guest account.
+ *     tags: [Realtor - Team]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: memberId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed
+ *       404:
+ *         description: Team member not found
+ */
+router.delete(
+  "/members/:memberId",
+  requireRealtorPermission("team.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const member = await removeRealtorTeamMember(
+      req.realtorAccess!.realtorId,
+      req.params.memberId,
+    );
+
+    await auditLogger.log("REALTOR_TEAM_MEMBER_REMOVE", "REALTOR_TEAM_MEMBER", {
+      entityId: member.id,
+      userId: req.user!.id,
+      details: {
+        realtorId: req.realtorAccess!.realtorId,
+        memberUserId: member.user.id,
+        email: member.user.email,
+        role: member.role,
+      },
+      req,
+    });
+
+    res.json({ success: true, message: "Team member removed", data: member });
+  }),
+);
+
+export default router;
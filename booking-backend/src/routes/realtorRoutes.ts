@@ -13,24 +13,34 @@ import {
   sendPayoutAccountOtpEmail,
   sendRealtorWelcomeEmail,
 } from "@/services/email";
-import {
-  hashPassword,
-  generateTokens,
-  generateRandomToken,
-} from "@/utils/auth";
+import { hashPassword, generateRandomToken } from "@/utils/auth";
+import { startSession } from "@/services/authSessions";
 import { createAdminNotification } from "@/services/notificationService";
+import { REVEALED_REVIEW_FILTER } from "@/services/reviewWindow";
 import {
   getEmailVerificationUrl,
   getRegistrationSuccessUrl,
   getDashboardUrl,
 } from "@/utils/domains";
 import {
-  ensureRealtorTransferRecipientCode,
   hasConfiguredPayoutAccount,
   maskAccountNumber,
+  transferToRealtor,
   upsertRealtorPayoutAccount,
 } from "@/services/payoutAccountService";
-import { initiateTransfer } from "@/services/paystack";
+import {
+  freezePayoutsWithLink,
+  recordPayoutAccountChange,
+} from "@/services/payoutAccountChanges";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  DEFAULT_CURRENCY,
+  SettlementCurrency,
+  accountNumberError,
+  formatMoney,
+  settlementCurrencyOf,
+} from "@/services/currency";
+import { parseSettlementCurrency } from "@/services/currencyService";
 import axios from "axios";
 import jwt from "jsonwebtoken";
 import { logger } from "@/utils/logger";
@@ -40,16 +50,19 @@ import {
   requireRole,
   requireApprovedRealtor,
   requireRealtorDashboardAccess,
+  requireRealtorPermission,
+  requireStepUp,
 } from "@/middleware/auth";
+import { resolveRealtorAccess } from "@/services/realtorTeam";
+import {
+  hasRealtorTeamPermission,
+  realtorAccessWhere,
+} from "@/services/realtorTeamRules";
 import {
   cacSubmissionLimiter,
   cacAppealLimiter,
 } from "@/middleware/rateLimiter";
 import { realtorRegisterSchema } from "@/utils/validation";
-import {
-  BLOCKED_DATES_MARKER,
-  LEGACY_BLOCKED_DATES_MARKER,
-} from "@/services/bookingAccessControl";
 import { MessageFilterService } from "@/services/messageFilter";
 
 // Configure Cloudinary
@@ -91,11 +104,6 @@ const PAYOUT_ACCOUNT_OTP_MAX_ATTEMPTS = 5;
 const PAYOUT_ACCOUNT_OTP_ACTION = "PAYOUT_ACCOUNT_OTP_REQUESTED";
 const PAYOUT_ACCOUNT_OTP_ENTITY_TYPE = "PAYOUT_ACCOUNT_OTP";
 
-const BLOCKED_DATES_SPECIAL_REQUEST_OR_FILTER = [
-  { specialRequests: { startsWith: BLOCKED_DATES_MARKER } },
-  { specialRequests: { startsWith: LEGACY_BLOCKED_DATES_MARKER } },
-];
-
 type PayoutAccountOtpDetails = {
   otpHash: string;
   otpExpiresAt: string;
@@ -134,10 +142,12 @@ const hashPayoutAccountPayload = (params: {
   bankName: string;
   accountNumber: string;
   accountName: string;
+  currency: SettlementCurrency;
 }) =>
   createHash("sha256")
     .update(
       [
+        params.currency,
         getPreferredBankCode(params.bankCode),
         params.bankName.trim().toLowerCase(),
         params.accountNumber.trim(),
@@ -147,6 +157,15 @@ const hashPayoutAccountPayload = (params: {
     )
     .digest("hex");
 
+// A payout account keeps its currency unless the realtor picks another
+const resolvePayoutCurrency = (
+  value: unknown,
+  realtor: { payoutCurrency: string },
+): SettlementCurrency =>
+  value === undefined || value === null || value === ""
+    ? settlementCurrencyOf(realtor.payoutCurrency)
+    : parseSettlementCurrency(value);
+
 const maskEmailAddress = (email: string): string => {
   const [localPart, domainPart] = email.split("@");
   if (!localPart || !domainPart) return email;
@@ -268,6 +287,25 @@ const verifyAndConsumePayoutAccountOtp = async (params: {
 // ===========================
 
 // Configure multer for logo upload
+// Listings on the public profile page get the same treatment as public
+// property search: no address or access details and only the fuzzed pin
+const sanitizePublicProperty = <T extends Record<string, unknown>>(
+  property: T,
+): T & { sensitiveDetailsUnlocked: false; serviceFee: null } => ({
+  ...property,
+  address: null,
+  accessInstructions: null,
+  wifiName: null,
+  wifiPassword: null,
+  parkingInstructions: null,
+  latitude: property.publicLatitude ?? null,
+  longitude: property.publicLongitude ?? null,
+  publicLatitude: undefined,
+  publicLongitude: undefined,
+  serviceFee: null,
+  sensitiveDetailsUnlocked: false as const,
+});
+
 const uploadMiddleware = multer({
   storage: multer.memoryStorage(),
   limits: {
@@ -638,15 +676,27 @@ router.post(
               return;
             }
 
-            const realtor = await prisma.realtor.findUnique({
-              where: { userId: (req as AuthenticatedRequest).user!.id },
-            });
+            const access = await resolveRealtorAccess(
+              (req as AuthenticatedRequest).user!.id,
+            );
+            const realtor = access
+              ? await prisma.realtor.findUnique({
+                  where: { id: access.realtorId },
+                })
+              : null;
 
             if (!realtor) {
               reject(new AppError("Realtor profile not found", 404));
               return;
             }
 
+            if (!hasRealtorTeamPermission(access!, "profile.manage")) {
+              reject(
+                new AppError("Your team role does not allow this action", 403),
+              );
+              return;
+            }
+
             config = {
               resource_type: "image",
               folder: "realtor-logos",
@@ -709,8 +759,8 @@ router.post(
 
           // For permanent logo, update realtor record
           if (type === "logo") {
-            const realtor = await prisma.realtor.findUnique({
-              where: { userId: (req as AuthenticatedRequest).user!.id },
+            const realtor = await prisma.realtor.findFirst({
+              where: realtorAccessWhere((req as AuthenticatedRequest).user!.id),
             });
 
             await prisma.realtor.update({
@@ -1093,11 +1143,7 @@ router.post(
     });
 
     // Generate tokens for the new user
-    const { accessToken, refreshToken } = generateTokens({
-      id: result.user.id,
-      email: result.user.email,
-      role: result.user.role,
-    });
+    const { accessToken, refreshToken } = await startSession(result.user, req);
 
     // Generate domain-aware URLs for email verification and dashboard
     const verificationUrl = getEmailVerificationUrl(
@@ -1195,6 +1241,17 @@ router.post(
       throw new AppError("Realtor profile already exists", 400);
     }
 
+    const teamMembership = await prisma.realtorTeamMember.findUnique({
+      where: { userId: req.user!.id },
+    });
+
+    if (teamMembership) {
+      throw new AppError(
+        "Team members work on their realtor's profile and cannot create their own",
+        400,
+      );
+    }
+
     // Generate unique slug
     const slug = await generateUniqueSlug(businessName);
 
@@ -1308,8 +1365,8 @@ router.get(
   authenticate,
   requireRole("REALTOR"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user!.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user!.id),
       include: {
         user: {
           select: {
@@ -1355,6 +1412,7 @@ router.put(
   "/profile",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("profile.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const {
       businessName,
@@ -1369,8 +1427,8 @@ router.put(
       websiteUrl,
     } = req.body;
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user!.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user!.id),
     });
 
     if (!realtor) {
@@ -1493,8 +1551,8 @@ router.get(
       throw new AppError("Realtor access required", 403);
     }
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user.id),
       select: {
         id: true,
         status: true,
@@ -1703,6 +1761,7 @@ router.get(
   authenticate,
   requireRole("REALTOR"),
   requireRealtorDashboardAccess,
+  requireRealtorPermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.user?.id;
     if (!userId) {
@@ -1710,8 +1769,8 @@ router.get(
     }
 
     // Get realtor profile
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(userId),
       include: {
         properties: {
           include: {
@@ -1800,9 +1859,6 @@ router.get(
         property: {
           realtorId: realtor.id,
         },
-        NOT: {
-          OR: BLOCKED_DATES_SPECIAL_REQUEST_OR_FILTER,
-        },
         status: {
           in: [BookingStatus.ACTIVE, BookingStatus.COMPLETED],
         },
@@ -1883,9 +1939,6 @@ router.get(
         property: {
           realtorId: realtor.id,
         },
-        NOT: {
-          OR: BLOCKED_DATES_SPECIAL_REQUEST_OR_FILTER,
-        },
         status: {
           in: [BookingStatus.ACTIVE, BookingStatus.COMPLETED],
         },
@@ -1900,9 +1953,6 @@ router.get(
         property: {
           realtorId: realtor.id,
         },
-        NOT: {
-          OR: BLOCKED_DATES_SPECIAL_REQUEST_OR_FILTER,
-        },
         status: {
           in: [BookingStatus.ACTIVE, BookingStatus.COMPLETED],
         },
@@ -1935,6 +1985,7 @@ router.get(
     // Calculate ratings
     const allReviews = await prisma.review.findMany({
       where: {
+        ...REVEALED_REVIEW_FILTER,
         booking: {
           property: {
             realtorId: realtor.id,
@@ -1954,6 +2005,7 @@ router.get(
 
     const currentPeriodReviews = await prisma.review.findMany({
       where: {
+        ...REVEALED_REVIEW_FILTER,
         booking: {
           property: {
             realtorId: realtor.id,
@@ -1970,6 +2022,7 @@ router.get(
 
     const previousPeriodReviews = await prisma.review.findMany({
       where: {
+        ...REVEALED_REVIEW_FILTER,
         booking: {
           property: {
             realtorId: realtor.id,
@@ -2008,9 +2061,6 @@ router.get(
         property: {
           realtorId: realtor.id,
         },
-        NOT: {
-          OR: BLOCKED_DATES_SPECIAL_REQUEST_OR_FILTER,
-        },
         createdAt: {
           gte: today,
           lt: tomorrow,
@@ -2023,9 +2073,6 @@ router.get(
         property: {
           realtorId: realtor.id,
         },
-        NOT: {
-          OR: BLOCKED_DATES_SPECIAL_REQUEST_OR_FILTER,
-        },
         checkInDate: {
           gte: today,
           lt: tomorrow,
@@ -2035,7 +2082,7 @@ router.get(
 
     const unreadMessages = await prisma.message.count({
       where: {
-        recipientId: userId,
+        recipientId: realtor.userId,
         isRead: false,
       },
     });
@@ -2085,6 +2132,7 @@ router.get(
   authenticate,
   requireRole("REALTOR"),
   requireRealtorDashboardAccess,
+  requireRealtorPermission("bookings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.user?.id;
     if (!userId) {
@@ -2093,8 +2141,8 @@ router.get(
 
     const limit = parseInt(req.query.limit as string) || 5;
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(userId),
     });
 
     if (!realtor) {
@@ -2106,9 +2154,6 @@ router.get(
         property: {
           realtorId: realtor.id,
         },
-        NOT: {
-          OR: BLOCKED_DATES_SPECIAL_REQUEST_OR_FILTER,
-        },
       },
       include: {
         guest: {
@@ -2631,6 +2676,7 @@ router.get(
   authenticate,
   requireRole("REALTOR"),
   requireRealtorDashboardAccess,
+  requireRealtorPermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const realtorId = req.realtor?.id;
     if (!realtorId) {
@@ -2757,12 +2803,14 @@ router.get(
       // Reviews
       prisma.review.count({
         where: {
+          ...REVEALED_REVIEW_FILTER,
           propertyId: { in: propertyIds },
           createdAt: { gte: startDate },
         },
       }),
       prisma.review.aggregate({
         where: {
+          ...REVEALED_REVIEW_FILTER,
           propertyId: { in: propertyIds },
           createdAt: { gte: startDate },
         },
@@ -2785,12 +2833,12 @@ router.get(
                   createdAt: { gte: startDate },
                 },
               },
-              reviews: true,
+              reviews: { where: REVEALED_REVIEW_FILTER },
             },
           },
           reviews: {
             select: { rating: true },
-            where: { createdAt: { gte: startDate } },
+            where: { createdAt: { gte: startDate }, ...REVEALED_REVIEW_FILTER },
           },
         },
         orderBy: {
@@ -2990,6 +3038,7 @@ router.get(
   authenticate,
   requireRole("REALTOR"),
   requireApprovedRealtor,
+  requireRealtorPermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id: propertyId } = req.params;
     const realtorId = req.realtor?.id;
@@ -3073,12 +3122,14 @@ router.get(
       }),
       prisma.review.count({
         where: {
+          ...REVEALED_REVIEW_FILTER,
           propertyId,
           createdAt: { gte: startDate },
         },
       }),
       prisma.review.aggregate({
         where: {
+          ...REVEALED_REVIEW_FILTER,
           propertyId,
           createdAt: { gte: startDate },
         },
@@ -3086,6 +3137,7 @@ router.get(
       }),
       prisma.review.findMany({
         where: {
+          ...REVEALED_REVIEW_FILTER,
           propertyId,
           createdAt: { gte: startDate },
         },
@@ -3219,14 +3271,15 @@ router.get(
   authenticate,
   requireRole("REALTOR"),
   requireRealtorDashboardAccess,
+  requireRealtorPermission("analytics.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.user?.id;
     if (!userId) {
       throw new AppError("User not authenticated", 401);
     }
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(userId),
     });
 
     if (!realtor) {
@@ -3619,10 +3672,11 @@ router.get(
             },
             _count: {
               select: {
-                reviews: true,
+                reviews: { where: REVEALED_REVIEW_FILTER },
               },
             },
             reviews: {
+              where: REVEALED_REVIEW_FILTER,
               select: {
                 rating: true,
               },
@@ -3653,7 +3707,7 @@ router.get(
         property.reviews.length > 0 ? totalRating / property.reviews.length : 0;
 
       return {
-        ...property,
+        ...sanitizePublicProperty(property),
         averageRating: Math.round(averageRating * 10) / 10,
         reviews: undefined, // Remove individual reviews from response
       };
@@ -3680,10 +3734,17 @@ router.get(
  * @swagger
  * /api/realtors/payout/banks:
  *   get:
- *     summary: Get list of Nigerian banks
+ *     summary: Get list of banks for a payout currency
  *     tags: [Realtors]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [NGN, GHS, KES]
+ *           default: NGN
  *     responses:
  *       200:
  *         description: Banks list retrieved successfully
@@ -3692,9 +3753,16 @@ router.get(
   "/payout/banks",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("payouts.account"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const currency =
+      req.query.currency === undefined
+        ? DEFAULT_CURRENCY
+        : parseSettlementCurrency(req.query.currency);
+
     try {
       const response = await axios.get("https://api.paystack.co/bank", {
+        params: { currency },
         headers: {
           Authorization: `Bearer ${config.PAYSTACK_SECRET_KEY}`,
         },
@@ -3749,6 +3817,10 @@ router.get(
  *                 type: string
  *               bankCode:
  *                 type: string
+ *               currency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES]
+ *                 default: NGN
  *     responses:
  *       200:
  *         description: Account verified successfully
@@ -3759,6 +3831,7 @@ router.post(
   "/payout/verify",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("payouts.account"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { accountNumber, bankCode } = req.body;
 
@@ -3766,11 +3839,19 @@ router.post(
       throw new AppError("Account number and bank code are required", 400);
     }
 
+    const currency =
+      req.body.currency === undefined
+        ? DEFAULT_CURRENCY
+        : parseSettlementCurrency(req.body.currency);
     const normalizedAccountNumber = String(accountNumber).trim();
     const bankCodeCandidates = getBankCodeCandidates(bankCode);
 
-    if (!/^\d{10}$/.test(normalizedAccountNumber)) {
-      throw new AppError("Account number must be 10 digits", 400);
+    const accountNumberProblem = accountNumberError(
+      normalizedAccountNumber,
+      currency,
+    );
+    if (accountNumberProblem) {
+      throw new AppError(accountNumberProblem, 400);
     }
 
     if (bankCodeCandidates.length === 0) {
@@ -3886,6 +3967,7 @@ router.post(
   "/payout/account/request-otp",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("payouts.account"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { bankCode, bankName, accountNumber, accountName } = req.body;
 
@@ -3904,14 +3986,10 @@ router.post(
       throw new AppError("Bank code is invalid", 400);
     }
 
-    if (!/^\d{10}$/.test(normalizedAccountNumber)) {
-      throw new AppError("Account number must be 10 digits", 400);
-    }
-
     logger.info(`OTP request for realtor: ${req.user.id}`);
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user.id),
       include: {
         user: {
           select: {
@@ -3926,6 +4004,15 @@ router.post(
       throw new AppError("Realtor profile not found", 404);
     }
 
+    const currency = resolvePayoutCurrency(req.body.currency, realtor);
+    const accountNumberProblem = accountNumberError(
+      normalizedAccountNumber,
+      currency,
+    );
+    if (accountNumberProblem) {
+      throw new AppError(accountNumberProblem, 400);
+    }
+
     // First-time setup does not require OTP.
     if (!hasConfiguredPayoutAccount(realtor)) {
       logger.info(
@@ -3945,6 +4032,7 @@ router.post(
       bankName: String(bankName),
       accountNumber: normalizedAccountNumber,
       accountName: String(accountName),
+      currency,
     });
 
     const otp = Math.floor(1000 + Math.random() * 9000).toString();
@@ -4034,16 +4122,28 @@ router.post(
  *                 type: string
  *               accountName:
  *                 type: string
+ *               currency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES]
+ *                 description: >
+ *                   Currency the account receives. Only wallet funds in this
+ *                   currency can be withdrawn to it. Defaults to the current
+ *                   payout currency.
  *     responses:
  *       200:
- *         description: Bank account set up successfully
+ *         description: >
+ *           Bank account set up successfully. Replacing an account starts a
+ *           cooling-off period (holdUntil) during which withdrawals are held,
+ *           and warns the realtor's email and phone with a freeze link.
  *       403:
- *         description: CAC verification required
+ *         description: CAC verification required, or 2FA re-verification needed (statusCode STEP_UP_REQUIRED)
  */
 router.post(
   "/payout/account",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("payouts.account"),
+  requireStepUp,
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { bankCode, bankName, accountNumber, accountName, otp } = req.body;
 
@@ -4067,13 +4167,9 @@ router.post(
       throw new AppError("Bank code is invalid", 400);
     }
 
-    if (!/^\d{10}$/.test(normalizedAccountNumber)) {
-      throw new AppError("Account number must be 10 digits", 400);
-    }
-
     // Get realtor record
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user.id),
       include: { user: true },
     });
 
@@ -4081,6 +4177,15 @@ router.post(
       throw new AppError("Realtor profile not found", 404);
     }
 
+    const currency = resolvePayoutCurrency(req.body.currency, realtor);
+    const accountNumberProblem = accountNumberError(
+      normalizedAccountNumber,
+      currency,
+    );
+    if (accountNumberProblem) {
+      throw new AppError(accountNumberProblem, 400);
+    }
+
     // NOTE: Payout setup is allowed for all registered realtors (PENDING or APPROVED)
     // Only property listing requires CAC approval (handled by requireApprovedRealtor middleware)
 
@@ -4104,6 +4209,7 @@ router.post(
           bankName: String(bankName),
           accountNumber: normalizedAccountNumber,
           accountName: String(accountName),
+          currency,
         }),
       });
     }
@@ -4117,12 +4223,42 @@ router.post(
         bankName: String(bankName),
         accountNumber: normalizedAccountNumber,
         accountName: String(accountName),
+        currency,
+      });
+
+      const change = await recordPayoutAccountChange({
+        realtor,
+        isUpdate,
+        next: {
+          bankName: String(bankName),
+          accountNumber: normalizedAccountNumber,
+          accountName: String(accountName),
+          currency,
+        },
+        changedById: req.user.id,
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      await auditLogger.log("PAYOUT_ACCOUNT_CHANGE", "PAYOUT_ACCOUNT", {
+        entityId: change.id,
+        userId: req.user.id,
+        details: {
+          realtorId: realtor.id,
+          previousAccountNumber: change.previousAccountNumber,
+          newAccountNumber: change.newAccountNumber,
+          currency,
+          holdUntil: change.holdUntil,
+        },
+        req,
       });
 
       res.status(200).json({
         success: true,
         message: isUpdate
-          ? "Payout account updated successfully"
+          ? change.holdUntil
+            ? `Payout account updated. Withdrawals are on hold until ${change.holdUntil.toUTCString()}.`
+            : "Payout account updated successfully"
           : "Bank account set up successfully",
         data: {
           subAccountCode: payoutAccount.subAccountCode,
@@ -4131,6 +4267,8 @@ router.post(
           accountNumber: normalizedAccountNumber,
           maskedAccountNumber: maskAccountNumber(normalizedAccountNumber),
           accountName,
+          currency,
+          holdUntil: change.holdUntil,
         },
       });
     } catch (error: any) {
@@ -4143,6 +4281,63 @@ router.post(
   }),
 );
 
+/**
+ * @swagger
+ * /api/realtors/payout/account/freeze:
+ *   post:
+ *     summary: Freeze payouts from a "this wasn't me" link
+ *     description: >
+ *       Public. Holds every withdrawal that hasn't been sent, pauses automatic
+ *       payouts and signs the realtor out everywhere. Only an admin can lift
+ *       the freeze.
+ *     tags: [Realtors]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payouts frozen
+ *       404:
+ *         description: Link not valid
+ *       410:
+ *         description: Link already used or expired
+ */
+router.post(
+  "/payout/account/freeze",
+  asyncHandler(async (req: Request, res: Response) => {
+    const token = String(req.body?.token || "").trim();
+    if (!token) {
+      throw new AppError("Freeze token is required", 400);
+    }
+
+    const result = await freezePayoutsWithLink(token);
+
+    await auditLogger.log("PAYOUT_FREEZE", "PAYOUT_ACCOUNT", {
+      entityId: result.payoutAccountChangeId,
+      userId: result.userId,
+      details: {
+        realtorId: result.realtorId,
+        heldWithdrawals: result.heldWithdrawals,
+      },
+      req,
+    });
+
+    res.json({
+      success: true,
+      message:
+        "Payouts are frozen and you have been signed out everywhere. Our team will contact you to secure your account.",
+      data: { heldWithdrawals: result.heldWithdrawals },
+    });
+  }),
+);
+
 /**
  * @swagger
  * /api/realtors/payout/settings:
@@ -4159,6 +4354,7 @@ router.get(
   "/payout/settings",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("finance.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       throw new AppError("Authentication required", 401);
@@ -4168,8 +4364,8 @@ router.get(
       throw new AppError("Access denied", 403);
     }
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user.id),
     });
 
     if (!realtor) {
@@ -4187,6 +4383,7 @@ router.get(
         accountNumber: realtor.payoutAccountNumber,
         maskedAccountNumber: maskAccountNumber(realtor.payoutAccountNumber),
         accountName: realtor.payoutAccountName,
+        currency: settlementCurrencyOf(realtor.payoutCurrency),
         otpRequiredForEdit: hasConfiguredPayoutAccount(realtor),
       },
     });
@@ -4209,13 +4406,14 @@ router.get(
   "/payouts/pending",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("finance.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       throw new AppError("Authentication required", 401);
     }
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user.id),
     });
 
     if (!realtor) {
@@ -4274,6 +4472,7 @@ router.get(
         bookingId: event.booking.id,
         propertyTitle: event.booking.property.title,
         amount: Math.round(Number(event.amount) * 100) / 100,
+        currency: event.currency,
         releaseDate: event.executedAt,
         eventType: event.eventType,
       };
@@ -4308,13 +4507,14 @@ router.get(
   "/payouts/history",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("finance.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       throw new AppError("Authentication required", 401);
     }
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user.id),
     });
 
     if (!realtor) {
@@ -4429,6 +4629,7 @@ router.post(
   "/payouts/request",
   authenticate,
   requireRole("REALTOR"),
+  requireRealtorPermission("payouts.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { amount } = req.body;
 
@@ -4436,8 +4637,8 @@ router.post(
       throw new AppError("Authentication required", 401);
     }
 
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: req.user.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user.id),
     });
 
     if (!realtor) {
@@ -4470,6 +4671,7 @@ router.post(
         toParty: {
           in: ["REALTOR", "REALTOR_WALLET"],
         },
+        currency: realtor.payoutCurrency,
       },
       include: {
         booking: {
@@ -4505,26 +4707,19 @@ router.post(
 
     if (amount > totalAvailable) {
       throw new AppError(
-        `Requested amount (₦${amount}) exceeds available balance (₦${totalAvailable.toFixed(
-          2,
-        )})`,
+        `Requested amount (${formatMoney(amount, realtor.payoutCurrency)}) exceeds available balance (${formatMoney(totalAvailable, realtor.payoutCurrency)})`,
         400,
       );
     }
 
-    // Initiate actual Paystack transfer (semi-automatic payout)
+    // Transfer to the realtor's bank account (semi-automatic payout)
     const paymentIds = untransferred.map((e: any) => e.booking!.payment!.id);
     const transferReference = `manual_payout_${realtor.id}_${Date.now()}`;
 
     try {
-      const recipientCode = await ensureRealtorTransferRecipientCode(
-        realtor.id,
-      );
-
-      // Initiate Paystack transfer to realtor's bank account
-      const transferResult = await initiateTransfer({
+      const transferResult = await transferToRealtor(realtor.id, {
         amount: amount,
-        recipient: recipientCode,
+        currency: realtor.payoutCurrency,
         reason: `Manual payout withdrawal`,
         reference: transferReference,
       });
@@ -4533,7 +4728,8 @@ router.post(
         realtorId: realtor.id,
         amount,
         reference: transferReference,
-        transferId: transferResult.id,
+        provider: transferResult.provider,
+        transferId: transferResult.transferId,
       });
 
       // Mark payments as transferred
@@ -4555,7 +4751,7 @@ router.post(
           userId: req.user.id,
           type: "PAYMENT_COMPLETED",
           title: "Payout Initiated",
-          message: `Your payout of ₦${amount.toFixed(2)} is being processed`,
+          message: `Your payout of ${formatMoney(amount, realtor.payoutCurrency)} is being processed`,
           priority: "medium",
         },
       });
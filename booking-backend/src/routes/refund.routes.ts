@@ -3,7 +3,14 @@ import { prisma } from "@/config/database";
 import { logger } from "@/utils/logger";
 import { AuthenticatedRequest } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
-import { authenticate, authorize } from "@/middleware/auth";
+import {
+  authenticate,
+  authorize,
+  requireRealtorPermission,
+} from "@/middleware/auth";
+import { hasAdminPermission } from "@/services/adminPermissionRules";
+import { actsForRealtor } from "@/services/realtorTeam";
+import { realtorAccessWhere } from "@/services/realtorTeamRules";
 import { RefundRequestStatus, PaymentStatus } from "@prisma/client";
 
 const router = express.Router();
@@ -226,6 +233,7 @@ router.post(
 router.get(
   "/realtor/pending",
   authorize("REALTOR"),
+  requireRealtorPermission("refunds.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const user = req.user!;
     const { page = 1, limit = 10, status } = req.query;
@@ -234,9 +242,9 @@ router.get(
     const limitNum = parseInt(limit as string, 10);
     const skip = (pageNum - 1) * limitNum;
 
-    // Get realtor record
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: user.id },
+    // Get the realtor record the user owns or works for
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(user.id),
     });
 
     if (!realtor) {
@@ -344,14 +352,15 @@ router.get(
 router.patch(
   "/:id/realtor-decision",
   authorize("REALTOR"),
+  requireRealtorPermission("refunds.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const { approved, realtorReason, realtorNotes } = req.body;
     const user = req.user!;
 
-    // Get realtor record
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: user.id },
+    // Get the realtor record the user owns or works for
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(user.id),
     });
 
     if (!realtor) {
@@ -540,9 +549,14 @@ router.get(
 
     // Check authorization
     const canView =
-      user.role === "ADMIN" ||
+      hasAdminPermission(user, "refunds.read") ||
       refundRequest.requestedBy === user.id ||
-      (user.role === "REALTOR" && refundRequest.realtor?.userId === user.id);
+      (user.role === "REALTOR" &&
+        (await actsForRealtor(
+          user.id,
+          refundRequest.realtorId,
+          "refunds.manage",
+        )));
 
     if (!canView) {
       throw new AppError("Unauthorized to view this refund request", 403);
@@ -7,13 +7,34 @@ import {
   NotificationService,
   notificationHelpers,
 } from "@/services/notificationService";
+import {
+  createGuestReview,
+  listGuestReviews,
+  revealBookingReviews,
+} from "@/services/guestReviews";
+import { REVEALED_REVIEW_FILTER } from "@/services/reviewWindow";
+import { reportReview, setReviewVisibility } from "@/services/reviewModeration";
+import { auditLogger } from "@/services/auditLogger";
+import { actsForRealtor } from "@/services/realtorTeam";
+import { realtorAccessWhere } from "@/services/realtorTeamRules";
 import { updateAllRatings } from "@/utils/ratingCalculator";
-import { authenticate, authorize, optionalAuth } from "@/middleware/auth";
+import {
+  authenticate,
+  authorize,
+  optionalAuth,
+  requirePermission,
+  requireRealtorPermission,
+} from "@/middleware/auth";
+import { hasAdminPermission } from "@/services/adminPermissionRules";
 import {
   uploadReviewPhotos,
   processReviewPhotos,
 } from "@/services/photoUpload";
 import { logger } from "@/utils/logger";
+import {
+  createGuestReviewSchema,
+  reportReviewSchema,
+} from "@/utils/validation";
 
 const router = express.Router();
 
@@ -259,7 +280,8 @@ router.post(
 
     // Create review with transaction
     const review = await prisma.$transaction(async (tx) => {
-      // Create the review (auto-published)
+      // Reviews are double-blind: hidden until the host reviews the guest
+      // or the review window closes
       const newReview = await tx.review.create({
         data: {
           bookingId,
@@ -274,7 +296,7 @@ router.post(
           locationRating,
           valueRating,
           isVerified: true, // Mark as verified since booking is completed
-          isVisible: true, // Auto-publish reviews without moderation
+          isVisible: false,
         },
       });
 
@@ -340,36 +362,41 @@ router.post(
       },
     });
 
+    // Publishes the review (and updates ratings) right away when the host
+    // already reviewed the guest or the review window has closed
+    const revealedAt = new Date();
+    const revealed = await revealBookingReviews(bookingId, revealedAt);
+
     // Send notification to realtor about new review
     try {
       const notificationService = NotificationService.getInstance();
-      const realtorNotification = notificationHelpers.reviewReceived(
-        completeReview!.property.realtor.userId,
-        completeReview!.id,
-        completeReview!.property.title,
-        rating,
-      );
+      const realtorNotification = revealed
+        ? notificationHelpers.reviewReceived(
+            completeReview!.property.realtor.userId,
+            completeReview!.id,
+            completeReview!.property.title,
+            rating,
+          )
+        : notificationHelpers.reviewAwaitingGuestReview(
+            completeReview!.property.realtor.userId,
+            completeReview!.id,
+            bookingId,
+            completeReview!.property.title,
+          );
       await notificationService.createAndSendNotification(realtorNotification);
     } catch (notificationError) {
       logger.error("Failed to send review notification:", notificationError);
       // Don't fail the review creation if notifications fail
     }
 
-    // Update property and realtor ratings
-    try {
-      await updateAllRatings(
-        booking.propertyId,
-        completeReview!.property.realtor.id,
-      );
-    } catch (ratingError) {
-      logger.error("Failed to update ratings:", ratingError);
-      // Don't fail the review creation if rating calculation fails
-    }
-
     res.status(201).json({
       success: true,
-      message: "Review created successfully",
-      data: completeReview,
+      message: revealed
+        ? "Review created successfully"
+        : "Review submitted. It will be published once the host reviews your stay or the review window closes.",
+      data: revealed
+        ? { ...completeReview, isVisible: true, revealedAt }
+        : completeReview,
     });
   }),
 );
@@ -625,6 +652,213 @@ router.get(
   }),
 );
 
+/**
+ * @swagger
+ * /api/reviews/guests:
+ *   post:
+ *     summary: Review a guest
+ *     description: Rate a guest after checkout. Double-blind - hidden from the guest until they review the stay or the 14-day review window closes.
+ *     tags: [Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bookingId
+ *               - cleanlinessRating
+ *               - communicationRating
+ *               - houseRulesRating
+ *             properties:
+ *               bookingId:
+ *                 type: string
+ *               cleanlinessRating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               communicationRating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               houseRulesRating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Guest review submitted
+ *       400:
+ *         description: Validation error or review window closed
+ *       403:
+ *         description: Not the realtor for this booking
+ *       409:
+ *         description: Guest already reviewed for this booking
+ */
+router.post(
+  "/guests",
+  authenticate,
+  authorize("REALTOR"),
+  requireRealtorPermission("reviews.manage"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = createGuestReviewSchema.validate(req.body);
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(req.user!.id),
+      select: { id: true },
+    });
+
+    if (!realtor) {
+      throw new AppError("Realtor profile not found", 404);
+    }
+
+    // Credit the review to the team member who wrote it
+    const guestReview = await createGuestReview(
+      { id: realtor.id, userId: req.user!.id },
+      value,
+    );
+
+    res.status(201).json({
+      success: true,
+      message: guestReview.revealedAt
+        ? "Guest review published"
+        : "Guest review submitted. It will be published once the guest reviews their stay or the review window closes.",
+      data: guestReview,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/reviews/guests/me:
+ *   get:
+ *     summary: Get reviews about me
+ *     description: Published reviews realtors left about the current user as a guest
+ *     tags: [Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Guest reviews retrieved successfully
+ */
+router.get(
+  "/guests/me",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = Math.max(parseInt(String(req.query.page || "1"), 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(String(req.query.limit || "10"), 10) || 10, 1),
+      50,
+    );
+
+    const { summary, reviews, pagination } = await listGuestReviews(
+      req.user!.id,
+      page,
+      limit,
+    );
+
+    res.json({
+      success: true,
+      message: "Guest reviews retrieved successfully",
+      data: { summary, reviews },
+      pagination,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/reviews/guests/{guestId}:
+ *   get:
+ *     summary: Get a guest's reviews
+ *     description: Rating summary and published reviews of a guest who has booked one of the realtor's properties
+ *     tags: [Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: guestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Guest reviews retrieved successfully
+ *       403:
+ *         description: Guest has no bookings with this realtor
+ */
+router.get(
+  "/guests/:guestId",
+  authenticate,
+  authorize("REALTOR", "ADMIN"),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { guestId } = req.params;
+    const page = Math.max(parseInt(String(req.query.page || "1"), 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(String(req.query.limit || "10"), 10) || 10, 1),
+      50,
+    );
+
+    if (!hasAdminPermission(req.user!, "reviews.read")) {
+      const hasBooking = await prisma.booking.findFirst({
+        where: {
+          guestId,
+          property: { realtor: realtorAccessWhere(req.user!.id) },
+        },
+        select: { id: true },
+      });
+
+      if (!hasBooking) {
+        throw new AppError(
+          "You can only view reviews of guests who booked your properties",
+          403,
+        );
+      }
+    }
+
+    const { summary, reviews, pagination } = await listGuestReviews(
+      guestId,
+      page,
+      limit,
+    );
+
+    res.json({
+      success: true,
+      message: "Guest reviews retrieved successfully",
+      data: { summary, reviews },
+      pagination,
+    });
+  }),
+);
+
 /**
  * @swagger
  * /api/reviews/host-reviews:
@@ -673,6 +907,7 @@ router.get(
       property: {
         realtorId,
       },
+      ...REVEALED_REVIEW_FILTER,
     };
 
     if (propertyId) {
@@ -716,6 +951,17 @@ router.get(
               },
             },
           },
+          // Removal requests this realtor has filed
+          reports: {
+            where: { reporterId: req.user!.id },
+            select: {
+              id: true,
+              reason: true,
+              status: true,
+              createdAt: true,
+              resolvedAt: true,
+            },
+          },
         },
         orderBy: { createdAt: "desc" },
         skip,
@@ -942,7 +1188,6 @@ router.delete(
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
     const userId = req.user?.id;
-    const userRole = req.user?.role;
 
     if (!userId) {
       throw new AppError("Authentication required", 401);
@@ -969,7 +1214,7 @@ router.delete(
     const canDelete =
       review.authorId === userId ||
       review.property.realtorId === req.realtor?.id ||
-      userRole === "ADMIN";
+      hasAdminPermission(req.user!, "reviews.moderate");
 
     if (!canDelete) {
       throw new AppError("Permission denied", 403);
@@ -1092,6 +1337,10 @@ router.post(
       );
     }
 
+    if (!review.revealedAt) {
+      throw new AppError("You can respond once this review is published", 409);
+    }
+
     if (review.hostResponse) {
       throw new AppError("Response already exists for this review", 409);
     }
@@ -1181,6 +1430,7 @@ router.get(
           property: {
             realtorId,
           },
+          ...REVEALED_REVIEW_FILTER,
         },
       }),
 
@@ -1190,6 +1440,7 @@ router.get(
           property: {
             realtorId,
           },
+          ...REVEALED_REVIEW_FILTER,
         },
         _avg: {
           rating: true,
@@ -1199,19 +1450,39 @@ router.get(
       // Rating distribution
       prisma.$transaction([
         prisma.review.count({
-          where: { property: { realtorId }, rating: 5 },
+          where: {
+            property: { realtorId },
+            ...REVEALED_REVIEW_FILTER,
+            rating: 5,
+          },
         }),
         prisma.review.count({
-          where: { property: { realtorId }, rating: 4 },
+          where: {
+            property: { realtorId },
+            ...REVEALED_REVIEW_FILTER,
+            rating: 4,
+          },
         }),
         prisma.review.count({
-          where: { property: { realtorId }, rating: 3 },
+          where: {
+            property: { realtorId },
+            ...REVEALED_REVIEW_FILTER,
+            rating: 3,
+          },
         }),
         prisma.review.count({
-          where: { property: { realtorId }, rating: 2 },
+          where: {
+            property: { realtorId },
+            ...REVEALED_REVIEW_FILTER,
+            rating: 2,
+          },
         }),
         prisma.review.count({
-          where: { property: { realtorId }, rating: 1 },
+          where: {
+            property: { realtorId },
+            ...REVEALED_REVIEW_FILTER,
+            rating: 1,
+          },
         }),
       ]),
 
@@ -1221,6 +1492,7 @@ router.get(
           property: {
             realtorId,
           },
+          ...REVEALED_REVIEW_FILTER,
         },
         include: {
           author: {
@@ -1247,11 +1519,13 @@ router.get(
         prisma.review.count({
           where: {
             property: { realtorId },
+            ...REVEALED_REVIEW_FILTER,
           },
         }),
         prisma.review.count({
           where: {
             property: { realtorId },
+            ...REVEALED_REVIEW_FILTER,
             hostResponse: {
               isNot: null,
             },
@@ -1290,8 +1564,8 @@ router.get(
  * @swagger
  * /api/reviews/{id}/visibility:
  *   patch:
- *     summary: Toggle review visibility
- *     description: Toggle visibility of a review (realtor only)
+ *     summary: Show or hide a review (Admin only)
+ *     description: Realtors cannot hide reviews; they file a removal request via POST /api/reviews/{id}/report instead. Property and realtor ratings are recomputed.
  *     tags: [Reviews]
  *     security:
  *       - BearerAuth: []
@@ -1312,6 +1586,8 @@ router.get(
  *             properties:
  *               isVisible:
  *                 type: boolean
+ *               reason:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Visibility updated successfully
@@ -1321,102 +1597,58 @@ router.get(
  *         description: Not authorized
  *       404:
  *         description: Review not found
+ *       409:
+ *         description: Review has not been revealed yet
  */
 router.patch(
   "/:id/visibility",
   authenticate,
-  authorize("REALTOR", "ADMIN"),
+  requirePermission("reviews.moderate"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { id } = req.params;
-    const { isVisible } = req.body;
-    const user = req.user!;
+    const { isVisible, reason } = req.body;
 
     if (typeof isVisible !== "boolean") {
       throw new AppError("isVisible must be a boolean value", 400);
     }
 
-    // Find the review and check if it belongs to realtor's property
     const review = await prisma.review.findUnique({
       where: { id },
-      include: {
-        property: {
-          include: {
-            realtor: {
-              select: {
-                id: true,
-                userId: true,
-                businessName: true,
-              },
-            },
-          },
-        },
-        author: {
-          select: {
-            firstName: true,
-            lastName: true,
-            email: true,
-          },
-        },
-      },
+      select: { id: true, isVisible: true, revealedAt: true },
     });
 
     if (!review) {
       throw new AppError("Review not found", 404);
     }
 
-    // Check if the user is the realtor who owns the property
-    if (review.property.realtor.userId !== user.id) {
+    if (!review.revealedAt) {
       throw new AppError(
-        "You can only moderate reviews for your own properties",
-        403,
+        "This review stays hidden until both sides have reviewed or the review window closes",
+        409,
       );
     }
 
-    // Update review visibility
-    const updatedReview = await prisma.review.update({
-      where: { id },
-      data: { isVisible },
-      include: {
-        author: {
-          select: {
-            firstName: true,
-            lastName: true,
-          },
-        },
-        property: {
-          select: {
-            title: true,
-          },
-        },
-      },
-    });
-
-    // Send notification to guest about visibility change
-    try {
-      const notificationService = NotificationService.getInstance();
-      const action = isVisible ? "made visible" : "hidden";
-      const notification =
-        notificationHelpers.createReviewModerationNotification(
-          updatedReview.property.title,
-          action,
-          review.property.realtor.businessName,
-        );
-
-      await notificationService.createAndSendNotification({
-        userId: updatedReview.authorId,
-        type: notification.type,
-        title: notification.title,
-        message: notification.message,
-        reviewId: updatedReview.id,
-        priority: notification.priority,
-      });
-    } catch (notificationError) {
-      logger.error(
-        "Failed to send review moderation notification:",
-        notificationError,
-      );
-      // Don't fail the visibility update if notification fails
-    }
+    const updatedReview =
+      review.isVisible === isVisible
+        ? await prisma.review.findUniqueOrThrow({
+            where: { id },
+            include: {
+              author: { select: { firstName: true, lastName: true } },
+              property: { select: { title: true, realtorId: true } },
+            },
+          })
+        : await setReviewVisibility(id, isVisible);
+
+    auditLogger
+      .logAdminAction(
+        req.user!.id,
+        "REVIEW_VISIBILITY_UPDATE",
+        "REVIEW",
+        id,
+        { isVisible, reason: typeof reason === "string" ? reason : undefined },
+        req,
+      )
+      .catch(() => {});
 
     res.json({
       success: true,
@@ -1434,6 +1666,73 @@ router.patch(
   }),
 );
 
+/**
+ * @swagger
+ * /api/reviews/{id}/report:
+ *   post:
+ *     summary: Report a review
+ *     description: Any signed-in user except the author can report a review to the admin moderation queue. A report from the realtor who owns the property is recorded as a removal request.
+ *     tags: [Reviews]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [SPAM, OFFENSIVE, HARASSMENT, PERSONAL_INFORMATION, NOT_ABOUT_STAY, FALSE_INFORMATION, OTHER]
+ *               details:
+ *                 type: string
+ *                 maxLength: 1000
+ *                 description: Required when reason is OTHER
+ *     responses:
+ *       201:
+ *         description: Report submitted
+ *       400:
+ *         description: Validation error or own review
+ *       404:
+ *         description: Review not found
+ *       409:
+ *         description: Already reported or already hidden
+ */
+router.post(
+  "/:id/report",
+  authenticate,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = reportReviewSchema.validate(req.body);
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const report = await reportReview(
+      { id: req.user!.id, role: req.user!.role },
+      req.params.id,
+      value,
+    );
+
+    res.status(201).json({
+      success: true,
+      message:
+        report.kind === "REMOVAL_REQUEST"
+          ? "Removal request sent to our moderation team"
+          : "Thanks, our moderation team will review this report",
+      data: report,
+    });
+  }),
+);
+
 /**
  * @swagger
  * /api/reviews/realtor/manage:
@@ -1486,6 +1785,7 @@ router.get(
   "/realtor/manage",
   authenticate,
   authorize("REALTOR", "ADMIN"),
+  requireRealtorPermission("reviews.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const user = req.user!;
     const {
@@ -1502,8 +1802,8 @@ router.get(
     const skip = (pageNum - 1) * limitNum;
 
     // Get realtor record
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: user.id },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(user.id),
       select: { id: true },
     });
 
@@ -1515,6 +1815,7 @@ router.get(
       property: {
         realtorId: realtor.id,
       },
+      ...REVEALED_REVIEW_FILTER,
     };
 
     // Filter by visibility
@@ -1557,6 +1858,17 @@ router.get(
               createdAt: true,
             },
           },
+          // Removal requests this realtor has filed
+          reports: {
+            where: { reporterId: user.id },
+            select: {
+              id: true,
+              reason: true,
+              status: true,
+              createdAt: true,
+              resolvedAt: true,
+            },
+          },
         },
         orderBy: {
           [sortBy as string]: sortOrder,
@@ -1671,14 +1983,24 @@ router.post(
       );
     }
 
-    // Verify user is the property owner
-    if (review.property.realtor.userId !== userId) {
+    // Verify user is the property owner or on their team
+    if (
+      !(await actsForRealtor(
+        userId,
+        review.property.realtorId,
+        "reviews.manage",
+      ))
+    ) {
       throw new AppError(
         "You can only respond to reviews on your properties",
         403,
       );
     }
 
+    if (!review.revealedAt) {
+      throw new AppError("You can respond once this review is published", 409);
+    }
+
     // Create response
     const response = await prisma.reviewResponse.create({
       data: {
@@ -1802,10 +2124,14 @@ router.put(
       );
     }
 
-    // Verify user is the property owner or the response author
+    // Verify user is the property owner, on their team, or the response author
     if (
-      review.property.realtor.userId !== userId &&
-      review.hostResponse.authorId !== userId
+      review.hostResponse.authorId !== userId &&
+      !(await actsForRealtor(
+        userId,
+        review.property.realtorId,
+        "reviews.manage",
+      ))
     ) {
       throw new AppError("You can only update your own responses", 403);
     }
@@ -1886,10 +2212,14 @@ router.delete(
       throw new AppError("No response exists for this review", 404);
     }
 
-    // Verify user is the property owner or the response author
+    // Verify user is the property owner, on their team, or the response author
     if (
-      review.property.realtor.userId !== userId &&
-      review.hostResponse.authorId !== userId
+      review.hostResponse.authorId !== userId &&
+      !(await actsForRealtor(
+        userId,
+        review.property.realtorId,
+        "reviews.manage",
+      ))
     ) {
       throw new AppError("You can only delete your own responses", 403);
     }
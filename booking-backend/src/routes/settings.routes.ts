@@ -3,18 +3,44 @@ import { prisma } from "@/config/database";
 import { AuthenticatedRequest } from "@/types";
 import { AppError, asyncHandler } from "@/middleware/errorHandler";
 import { logSettingUpdate } from "@/services/auditLogger";
-import { authenticate, requireRole } from "@/middleware/auth";
 import {
-  FINANCE_SETTING_KEYS,
+  authenticate,
+  requireAdmin,
+  requirePermission,
+  requireStepUp,
+} from "@/middleware/auth";
+import { AdminPermission } from "@/services/adminPermissionRules";
+import {
+  parseFinanceSettingKey,
   validateFinanceSettingValue,
 } from "@/services/financeConfig";
-import { UserRole } from "@prisma/client";
+import { validateUsdRates } from "@/services/currency";
+import { FX_RATES_SETTING_KEY } from "@/services/currencyService";
 
 const router = express.Router();
 
 // Apply authentication and admin role requirement to all routes
 router.use(authenticate);
-router.use(requireRole(UserRole.ADMIN));
+router.use(requireAdmin);
+
+// Older keys that also drive commission and payouts
+const LEGACY_FINANCE_KEYS = [
+  "commission_rate",
+  "payout_threshold",
+  "auto_payout_enabled",
+];
+
+/**
+ * Commission, fee, payout and FX settings need settings.finance; everything
+ * else needs settings.write.
+ */
+const settingWritePermission = (key: unknown): AdminPermission =>
+  typeof key === "string" &&
+  (parseFinanceSettingKey(key) !== null ||
+    key === FX_RATES_SETTING_KEY ||
+    LEGACY_FINANCE_KEYS.includes(key))
+    ? "settings.finance"
+    : "settings.write";
 
 /**
  * @swagger
@@ -30,7 +56,8 @@ function validateSettingValue(
   key: string,
   value: any
 ): { isValid: boolean; message: string } {
-  if (Object.values(FINANCE_SETTING_KEYS).includes(key as any)) {
+  // Finance keys for every settlement currency, e.g. finance.ghs.*
+  if (parseFinanceSettingKey(key)) {
     const financeErrors = validateFinanceSettingValue(key, value);
     if (financeErrors.length > 0) {
       return {
@@ -41,6 +68,13 @@ function validateSettingValue(
     return { isValid: true, message: "" };
   }
 
+  if (key === FX_RATES_SETTING_KEY) {
+    const rateErrors = validateUsdRates(value);
+    return rateErrors.length > 0
+      ? { isValid: false, message: rateErrors.join("; ") }
+      : { isValid: true, message: "" };
+  }
+
   switch (key) {
     case "commission_rate":
       return {
@@ -125,6 +159,7 @@ function validateSettingValue(
  */
 router.get(
   "/",
+  requirePermission("settings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { category } = req.query;
 
@@ -208,10 +243,12 @@ router.get(
  *       400:
  *         description: Invalid input or setting already exists
  *       403:
- *         description: Admin access required
+ *         description: Admin access required, or 2FA re-verification needed (statusCode STEP_UP_REQUIRED)
  */
 router.post(
   "/",
+  requirePermission((req) => settingWritePermission(req.body?.key)),
+  requireStepUp,
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { key, value, description, category = "general" } = req.body;
     const adminId = req.user?.id;
@@ -259,6 +296,9 @@ router.post(
       },
     });
 
+    // Log the change for audit trail
+    await logSettingUpdate(adminId, key, null, value, description || "");
+
     res.status(201).json({
       success: true,
       data: newSetting,
@@ -290,6 +330,7 @@ router.post(
  */
 router.get(
   "/category/:category",
+  requirePermission("settings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { category } = req.params;
 
@@ -347,6 +388,7 @@ router.get(
  */
 router.get(
   "/:key",
+  requirePermission("settings.read"),
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { key } = req.params;
 
@@ -419,10 +461,12 @@ router.get(
  *       404:
  *         description: Setting not found
  *       403:
- *         description: Admin access required
+ *         description: Admin access required, or 2FA re-verification needed (statusCode STEP_UP_REQUIRED)
  */
 router.put(
   "/:key",
+  requirePermission((req) => settingWritePermission(req.params.key)),
+  requireStepUp,
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     const { key } = req.params;
     const { value, description } = req.body;
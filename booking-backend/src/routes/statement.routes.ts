@@ -0,0 +1,263 @@
+import express, { Response } from "express";
+import { StatementPeriodType } from "@prisma/client";
+import { AuthenticatedRequest } from "@/types";
+import { AppError, asyncHandler } from "@/middleware/errorHandler";
+import {
+  authenticate,
+  requireRealtorDashboardAccess,
+  requireRealtorPermission,
+  requireRole,
+} from "@/middleware/auth";
+import {
+  generateRealtorStatement,
+  getRealtorStatementFile,
+  listRealtorStatements,
+} from "@/services/statements";
+import { statementPeriod } from "@/services/statementRules";
+import { parseSettlementCurrency } from "@/services/currencyService";
+import { generateStatementSchema } from "@/utils/validation";
+
+const router = express.Router();
+
+// Statements stay available to realtors in every approval state
+router.use(
+  authenticate,
+  requireRole("REALTOR"),
+  requireRealtorDashboardAccess,
+  requireRealtorPermission("finance.read"),
+);
+
+const getRealtorId = (req: AuthenticatedRequest) => {
+  const realtorId = req.realtor?.id;
+  if (!realtorId) {
+    throw new AppError("Realtor profile not found", 404);
+  }
+  return realtorId;
+};
+
+const parsePeriodType = (value: unknown): StatementPeriodType | undefined => {
+  if (value === undefined || value === "" || value === "all") {
+    return undefined;
+  }
+  const key = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (
+    !Object.values(StatementPeriodType).includes(key as StatementPeriodType)
+  ) {
+    throw new AppError(
+      `Period type must be one of: ${Object.values(StatementPeriodType).join(", ")}`,
+      400,
+    );
+  }
+  return key as StatementPeriodType;
+};
+
+/**
+ * @swagger
+ * /api/statements:
+ *   get:
+ *     summary: List the realtor's archived statements
+ *     tags: [Statements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: periodType
+ *         schema:
+ *           type: string
+ *           enum: [MONTHLY, ANNUAL, all]
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [NGN, GHS, KES]
+ *         description: Only statements for this wallet currency
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Paginated statements with balances and totals
+ */
+router.get(
+  "/",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 20, 1),
+      100,
+    );
+
+    const { statements, total } = await listRealtorStatements(
+      getRealtorId(req),
+      {
+        periodType: parsePeriodType(req.query.periodType),
+        currency:
+          req.query.currency === undefined || req.query.currency === ""
+            ? undefined
+            : parseSettlementCurrency(req.query.currency),
+        page,
+        limit,
+      },
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: statements,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/statements:
+ *   post:
+ *     summary: Generate a statement for a closed month or year
+ *     description: >
+ *       Statements are archived and never regenerated. Requesting a period
+ *       that already has a statement returns the archived copy.
+ *     tags: [Statements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [periodType, year]
+ *             properties:
+ *               periodType:
+ *                 type: string
+ *                 enum: [MONTHLY, ANNUAL]
+ *               year:
+ *                 type: integer
+ *               month:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 12
+ *                 description: Required for monthly statements
+ *               currency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES]
+ *                 default: NGN
+ *                 description: Wallet currency the statement covers
+ *     responses:
+ *       200:
+ *         description: Statement already archived
+ *       201:
+ *         description: Statement generated
+ *       400:
+ *         description: Invalid period or the period has not closed
+ */
+router.post(
+  "/",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { error, value } = generateStatementSchema.validate(req.body ?? {});
+    if (error) {
+      throw new AppError(error.details[0].message, 400);
+    }
+
+    const { statement, created } = await generateRealtorStatement(
+      getRealtorId(req),
+      statementPeriod(value.periodType, value.year, value.month),
+      value.currency,
+    );
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      message: created ? "Statement generated" : "Statement already archived",
+      data: statement,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/statements/{id}/pdf:
+ *   get:
+ *     summary: Download a statement as PDF
+ *     tags: [Statements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The archived PDF
+ *         content:
+ *           application/pdf: {}
+ *       404:
+ *         description: Statement not found
+ */
+router.get(
+  "/:id/pdf",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { filename, content } = await getRealtorStatementFile(
+      getRealtorId(req),
+      req.params.id,
+      "pdf",
+    );
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(content);
+  }),
+);
+
+/**
+ * @swagger
+ * /api/statements/{id}/csv:
+ *   get:
+ *     summary: Download a statement as CSV
+ *     tags: [Statements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The archived CSV
+ *         content:
+ *           text/csv: {}
+ *       404:
+ *         description: Statement not found
+ */
+router.get(
+  "/:id/csv",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { filename, content } = await getRealtorStatementFile(
+      getRealtorId(req),
+      req.params.id,
+      "csv",
+    );
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(content);
+  }),
+);
+
+export default router;
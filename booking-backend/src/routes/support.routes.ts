@@ -0,0 +1,336 @@
+import express, { Response } from "express";
+import { SupportTicketStatus } from "@prisma/client";
+import { AuthenticatedRequest } from "@/types";
+import { asyncHandler } from "@/middleware/errorHandler";
+import { authenticate, authorize } from "@/middleware/auth";
+import { uploadSupportAttachments } from "@/services/photoUpload";
+import {
+  addSupportTicketAttachments,
+  createSupportTicket,
+  getRequesterSupportTicket,
+  listRequesterSupportTickets,
+  parseSupportStatus,
+  replyToSupportTicket,
+  updateSupportTicketStatus,
+} from "@/services/supportTickets";
+
+const router = express.Router();
+
+router.use(authenticate, authorize("GUEST", "REALTOR"));
+
+/**
+ * @swagger
+ * /api/support/tickets:
+ *   get:
+ *     summary: List the current user's support tickets
+ *     tags: [Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, IN_PROGRESS, RESOLVED, CLOSED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Paginated tickets with messages and attachments
+ */
+router.get(
+  "/tickets",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || 10, 1),
+      50,
+    );
+    const status = req.query.status
+      ? parseSupportStatus(req.query.status)
+      : undefined;
+
+    const { tickets, total } = await listRequesterSupportTickets(
+      req.user!.id,
+      { status, page, limit },
+    );
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: tickets,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/support/tickets:
+ *   post:
+ *     summary: Open a support ticket
+ *     description: Optionally linked to one of the user's bookings or a dispute on it. Up to 5 files (images, PDF, Word, text; 10MB each) can be sent as `attachments`.
+ *     tags: [Support]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [subject, description, category]
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               category:
+ *                 type: string
+ *                 enum: [GUEST_ISSUE, PROPERTY_DAMAGE, NO_SHOW, PAYMENT_ISSUE, OTHER]
+ *               priority:
+ *                 type: string
+ *                 enum: [LOW, MEDIUM, HIGH]
+ *               bookingId:
+ *                 type: string
+ *               disputeId:
+ *                 type: string
+ *               attachments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Ticket created
+ *       400:
+ *         description: Invalid ticket details
+ *       403:
+ *         description: Booking belongs to another user
+ */
+router.post(
+  "/tickets",
+  uploadSupportAttachments,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const ticket = await createSupportTicket(
+      { id: req.user!.id, role: req.user!.role },
+      req.body,
+      req.files as Express.Multer.File[] | undefined,
+    );
+
+    res.status(201).json({
+      success: true,
+      message: "Support ticket created",
+      data: ticket,
+    });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/support/tickets/{id}:
+ *   get:
+ *     summary: Get a support ticket with its conversation
+ *     tags: [Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ticket details
+ *       404:
+ *         description: Ticket not found
+ */
+router.get(
+  "/tickets/:id",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const ticket = await getRequesterSupportTicket(req.params.id, req.user!.id);
+
+    res.json({ success: true, data: ticket });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/support/tickets/{id}/reply:
+ *   post:
+ *     summary: Reply to a support ticket
+ *     description: Replying to a resolved ticket reopens it. Closed tickets must be reopened first.
+ *     tags: [Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [message]
+ *             properties:
+ *               message:
+ *                 type: string
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               message:
+ *                 type: string
+ *               attachments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Reply added
+ *       400:
+ *         description: Empty reply or ticket is closed
+ */
+router.post(
+  "/tickets/:id/reply",
+  uploadSupportAttachments,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const message = await replyToSupportTicket(
+      req.params.id,
+      { id: req.user!.id, role: req.user!.role },
+      { message: req.body.message },
+      req.files as Express.Multer.File[] | undefined,
+    );
+
+    res.status(201).json({ success: true, data: message });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/support/tickets/{id}/attachments:
+ *   post:
+ *     summary: Attach files to a support ticket
+ *     tags: [Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               attachments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Files attached; returns all ticket-level attachments
+ */
+router.post(
+  "/tickets/:id/attachments",
+  uploadSupportAttachments,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const attachments = await addSupportTicketAttachments(
+      req.params.id,
+      { id: req.user!.id, role: req.user!.role },
+      req.files as Express.Multer.File[] | undefined,
+    );
+
+    res.status(201).json({ success: true, data: attachments });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/support/tickets/{id}/close:
+ *   patch:
+ *     summary: Close a support ticket
+ *     tags: [Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ticket closed
+ */
+router.patch(
+  "/tickets/:id/close",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const ticket = await updateSupportTicketStatus(
+      req.params.id,
+      { id: req.user!.id, role: req.user!.role },
+      SupportTicketStatus.CLOSED,
+    );
+
+    res.json({ success: true, message: "Ticket closed", data: ticket });
+  }),
+);
+
+/**
+ * @swagger
+ * /api/support/tickets/{id}/reopen:
+ *   patch:
+ *     summary: Reopen a resolved or closed support ticket
+ *     description: The ticket gets a fresh resolution deadline.
+ *     tags: [Support]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Ticket reopened (unchanged if it is still active)
+ */
+router.patch(
+  "/tickets/:id/reopen",
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const ticket = await updateSupportTicketStatus(
+      req.params.id,
+      { id: req.user!.id, role: req.user!.role },
+      SupportTicketStatus.OPEN,
+    );
+
+    res.json({ success: true, message: "Ticket reopened", data: ticket });
+  }),
+);
+
+export default router;
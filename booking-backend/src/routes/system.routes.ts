@@ -4,13 +4,17 @@ import { config } from "@/config";
 import { logger } from "@/utils/logger";
 import { AuthenticatedRequest } from "@/types";
 import { asyncHandler } from "@/middleware/errorHandler";
-import { authenticate, authorize } from "@/middleware/auth";
+import {
+  authenticate,
+  requireAdmin,
+  requirePermission,
+} from "@/middleware/auth";
 
 const router = express.Router();
 
 // All system routes require authentication and admin role
 router.use(authenticate);
-router.use(authorize("ADMIN"));
+router.use(requireAdmin);
 
 /**
  * @swagger
@@ -28,14 +32,9 @@ router.use(authorize("ADMIN"));
  */
 router.get(
   "/job-locks",
+  requirePermission("system.read"),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const user = req.user;
-    if (!user || user.role !== "ADMIN") {
-      return res.status(403).json({
-        success: false,
-        message: "Admin access required",
-      });
-    }
+    const user = req.user!;
 
     const locks = await prisma.jobLock.findMany({
       where: {
@@ -80,14 +79,9 @@ router.get(
  */
 router.get(
   "/health-stats",
+  requirePermission("system.read"),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const user = req.user;
-    if (!user || user.role !== "ADMIN") {
-      return res.status(403).json({
-        success: false,
-        message: "Admin access required",
-      });
-    }
+    const user = req.user!;
 
     const now = new Date();
     const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
@@ -253,14 +247,9 @@ router.get(
  */
 router.get(
   "/email-worker-health",
+  requirePermission("system.read"),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const user = req.user;
-    if (!user || user.role !== "ADMIN") {
-      return res.status(403).json({
-        success: false,
-        message: "Admin access required",
-      });
-    }
+    const user = req.user!;
 
     try {
       const now = new Date();
@@ -374,6 +363,92 @@ router.get(
   }),
 );
 
+/**
+ * @swagger
+ * /api/admin/system/scheduled-messages-health:
+ *   get:
+ *     summary: Get booking system message queue health
+ *     tags: [System]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled message queue health retrieved successfully
+ *       403:
+ *         description: Admin access required
+ */
+router.get(
+  "/scheduled-messages-health",
+  requirePermission("system.read"),
+  asyncHandler(async (req: AuthenticatedRequest, res) => {
+    const now = new Date();
+    // The job runs every 5 minutes; anything pending well past that is lagging
+    const overdueBefore = new Date(now.getTime() - 15 * 60 * 1000);
+    const messageSelect = {
+      id: true,
+      bookingId: true,
+      type: true,
+      dueAt: true,
+      attempts: true,
+      maxAttempts: true,
+      lastError: true,
+    };
+
+    const [
+      pendingCount,
+      overdueCount,
+      sentCount,
+      failedCount,
+      cancelledCount,
+      nextPendingMessages,
+      recentFailedMessages,
+      latestSentMessage,
+    ] = await Promise.all([
+      prisma.scheduledMessage.count({ where: { status: "PENDING" } }),
+      prisma.scheduledMessage.count({
+        where: { status: "PENDING", dueAt: { lt: overdueBefore } },
+      }),
+      prisma.scheduledMessage.count({ where: { status: "SENT" } }),
+      prisma.scheduledMessage.count({ where: { status: "FAILED" } }),
+      prisma.scheduledMessage.count({ where: { status: "CANCELLED" } }),
+      prisma.scheduledMessage.findMany({
+        where: { status: "PENDING" },
+        orderBy: { dueAt: "asc" },
+        take: 5,
+        select: messageSelect,
+      }),
+      prisma.scheduledMessage.findMany({
+        where: { status: "FAILED" },
+        orderBy: { updatedAt: "desc" },
+        take: 10,
+        select: { ...messageSelect, updatedAt: true },
+      }),
+      prisma.scheduledMessage.findFirst({
+        where: { status: "SENT" },
+        orderBy: { sentAt: "desc" },
+        select: { id: true, bookingId: true, type: true, sentAt: true },
+      }),
+    ]);
+
+    return res.json({
+      success: true,
+      data: {
+        queue: {
+          pending: pendingCount,
+          overdue: overdueCount,
+          sent: sentCount,
+          failed: failedCount,
+          cancelled: cancelledCount,
+        },
+        latestSentMessage,
+        nextPendingMessages,
+        recentFailedMessages,
+        checkedAt: now.toISOString(),
+      },
+    });
+  }),
+);
+
 /**
  * @swagger
  * /api/admin/system/job-locks/{id}:
@@ -398,14 +473,9 @@ router.get(
  */
 router.delete(
   "/job-locks/:id",
+  requirePermission("system.manage"),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const user = req.user;
-    if (!user || user.role !== "ADMIN") {
-      return res.status(403).json({
-        success: false,
-        message: "Admin access required",
-      });
-    }
+    const user = req.user!;
 
     const { id } = req.params;
 
@@ -466,14 +536,9 @@ router.delete(
  */
 router.get(
   "/webhooks/booking/:id",
+  requirePermission("system.read"),
   asyncHandler(async (req: AuthenticatedRequest, res) => {
-    const user = req.user;
-    if (!user || user.role !== "ADMIN") {
-      return res.status(403).json({
-        success: false,
-        message: "Admin access required",
-      });
-    }
+    const user = req.user!;
 
     const { id } = req.params;
 
@@ -1,11 +1,14 @@
 import { Router, Response, NextFunction } from "express";
-import { authenticate, authorize } from "@/middleware/auth";
+import {
+  authenticate,
+  authorize,
+  requireRealtorPermission,
+  requireStepUp,
+} from "@/middleware/auth";
+import { realtorAccessWhere } from "@/services/realtorTeamRules";
 import * as walletService from "@/services/walletService";
 import * as withdrawalService from "@/services/withdrawalService";
-import {
-  sendWithdrawalOtpEmail,
-  sendWithdrawalRequestedEmail,
-} from "@/services/email";
+import { sendWithdrawalOtpEmail } from "@/services/email";
 import { WalletOwnerType, UserRole } from "@prisma/client";
 import { prisma } from "@/config/database";
 import { config } from "@/config";
@@ -15,6 +18,20 @@ import { createHash } from "crypto";
 import { hasConfiguredPayoutAccount } from "@/services/payoutAccountService";
 import { loadFinanceConfig } from "@/services/financeConfig";
 import { computeWithdrawalFee } from "@/services/pricingEngine";
+import { SettlementCurrency, settlementCurrencyOf } from "@/services/currency";
+import { parseSettlementCurrency } from "@/services/currencyService";
+import {
+  disablePayoutSchedule,
+  getPayoutSchedulePreview,
+  savePayoutSchedule,
+} from "@/services/payoutSchedules";
+import {
+  WITHDRAWAL_HOLD_MESSAGES,
+  WithdrawalHoldReason,
+  withdrawalHoldReason,
+} from "@/services/payoutHoldRules";
+import { auditLogger } from "@/services/auditLogger";
+import { payoutScheduleSchema } from "@/utils/validation";
 
 const router = Router();
 
@@ -27,11 +44,12 @@ class AppError extends Error {
 }
 
 /**
- * Helper to get realtorId from authenticated request
+ * Helper to get realtorId from authenticated request; team members get the
+ * realtor they work for
  */
 const getRealtorId = async (userId: string): Promise<string> => {
-  const realtor = await prisma.realtor.findUnique({
-    where: { userId },
+  const realtor = await prisma.realtor.findFirst({
+    where: realtorAccessWhere(userId),
     select: { id: true },
   });
 
@@ -42,6 +60,26 @@ const getRealtorId = async (userId: string): Promise<string> => {
   return realtor.id;
 };
 
+/**
+ * Wallet currency a request refers to: the `currency` query or body field,
+ * defaulting to the realtor's payout currency
+ */
+const getRequestedCurrency = async (
+  req: AuthenticatedRequest,
+  realtorId: string
+): Promise<SettlementCurrency> => {
+  const requested = req.query.currency ?? req.body?.currency;
+  if (requested !== undefined && requested !== "") {
+    return parseSettlementCurrency(requested);
+  }
+
+  const realtor = await prisma.realtor.findUnique({
+    where: { id: realtorId },
+    select: { payoutCurrency: true },
+  });
+  return settlementCurrencyOf(realtor?.payoutCurrency);
+};
+
 const WITHDRAWAL_OTP_EXPIRY_MINUTES = 10;
 const WITHDRAWAL_OTP_MAX_ATTEMPTS = 5;
 const WITHDRAWAL_OTP_AUDIT_ACTION = "WITHDRAWAL_OTP_REQUESTED";
@@ -49,6 +87,7 @@ const WITHDRAWAL_OTP_ENTITY_TYPE = "WITHDRAWAL_OTP";
 
 type WithdrawalOtpDetails = {
   amount: number;
+  currency?: string;
   otpHash: string;
   otpExpiresAt: string;
   attempts: number;
@@ -59,10 +98,13 @@ type WithdrawalOtpDetails = {
 const normalizeAmount = (value: number): number =>
   Math.round(Number(value) * 100) / 100;
 
-const formatCurrency = (value: number): string =>
+const formatCurrency = (
+  value: number,
+  currency: SettlementCurrency = "NGN"
+): string =>
   new Intl.NumberFormat("en-NG", {
     style: "currency",
-    currency: "NGN",
+    currency,
   }).format(value);
 
 const hashWithdrawalOtp = (otp: string): string =>
@@ -77,13 +119,8 @@ const maskEmail = (email: string): string => {
   return `${localPart.slice(0, 2)}***@${domainPart}`;
 };
 
-const getWithdrawalContext = async (userId: string) => {
-  const realtorId = await getRealtorId(userId);
-
-  const wallet = await walletService.getOrCreateWallet(
-    WalletOwnerType.REALTOR,
-    realtorId
-  );
+const getWithdrawalContext = async (req: AuthenticatedRequest) => {
+  const realtorId = await getRealtorId(req.user!.id);
 
   const realtor = await prisma.realtor.findUnique({
     where: { id: realtorId },
@@ -93,6 +130,7 @@ const getWithdrawalContext = async (userId: string) => {
       paystackTransferRecipientCode: true,
       paystackSubAccountCode: true,
       payoutAccountNumber: true,
+      payoutCurrency: true,
       user: {
         select: {
           email: true,
@@ -113,31 +151,56 @@ const getWithdrawalContext = async (userId: string) => {
     );
   }
 
-  return { realtorId, wallet, realtor };
+  // Each wallet can only be paid out to an account in its own currency
+  const currency = await getRequestedCurrency(req, realtorId);
+  const payoutCurrency = settlementCurrencyOf(realtor.payoutCurrency);
+  if (currency !== payoutCurrency) {
+    throw new AppError(
+      `Your payout account receives ${payoutCurrency}. Add a ${currency} payout account to withdraw your ${currency} balance.`,
+      400
+    );
+  }
+
+  const wallet = await walletService.getOrCreateWallet(
+    WalletOwnerType.REALTOR,
+    realtorId,
+    undefined,
+    currency
+  );
+
+  return { realtorId, wallet, realtor, currency };
 };
 
 const ensureSufficientWalletBalance = async (
   walletId: string,
-  amount: number
+  amount: number,
+  currency: SettlementCurrency
 ) => {
   const currentBalance = await walletService.getWalletBalance(walletId);
   if (currentBalance.available < amount) {
     throw new AppError(
       `Insufficient balance. Available: ${formatCurrency(
-        currentBalance.available
-      )}, Requested: ${formatCurrency(amount)}`,
+        currentBalance.available,
+        currency
+      )}, Requested: ${formatCurrency(amount, currency)}`,
       400
     );
   }
 };
 
-const getWithdrawalFeePreview = async (amount: number) => {
-  const financeConfig = await loadFinanceConfig();
+const getWithdrawalFeePreview = async (
+  amount: number,
+  currency: SettlementCurrency
+) => {
+  const financeConfig = await loadFinanceConfig(currency);
   const preview = computeWithdrawalFee(amount, financeConfig);
 
   if (preview.requestedAmount < preview.minimumWithdrawal) {
     throw new AppError(
-      `Minimum withdrawal is ${formatCurrency(preview.minimumWithdrawal)}`,
+      `Minimum withdrawal is ${formatCurrency(
+        preview.minimumWithdrawal,
+        currency
+      )}`,
       400
     );
   }
@@ -156,6 +219,7 @@ const saveWithdrawalOtpChallenge = async (
   userId: string,
   realtorId: string,
   amount: number,
+  currency: SettlementCurrency,
   otp: string
 ) => {
   const otpExpiresAt = new Date(
@@ -164,6 +228,7 @@ const saveWithdrawalOtpChallenge = async (
 
   const details: WithdrawalOtpDetails = {
     amount,
+    currency,
     otpHash: hashWithdrawalOtp(otp),
     otpExpiresAt: otpExpiresAt.toISOString(),
     attempts: 0,
@@ -203,6 +268,7 @@ const getLatestWithdrawalOtpChallenge = async (userId: string) => {
 const verifyAndConsumeWithdrawalOtp = async (
   userId: string,
   amount: number,
+  currency: SettlementCurrency,
   otp: string
 ) => {
   const otpAuditLog = await getLatestWithdrawalOtpChallenge(userId);
@@ -219,7 +285,10 @@ const verifyAndConsumeWithdrawalOtp = async (
     );
   }
 
-  if (Math.abs(normalizeAmount(details.amount) - amount) > 0.009) {
+  if (
+    Math.abs(normalizeAmount(details.amount) - amount) > 0.009 ||
+    settlementCurrencyOf(details.currency) !== currency
+  ) {
     throw new AppError(
       "OTP code was generated for a different amount. Request a new code.",
       400
@@ -275,63 +344,18 @@ const verifyAndConsumeWithdrawalOtp = async (
   });
 };
 
-const createWithdrawalRequest = async ({
-  walletId,
-  realtorId,
-  amount,
-  feeAmount,
-  netAmount,
-  feeConfigVersion,
-  email,
-  displayName,
-}: {
-  walletId: string;
-  realtorId: string;
-  amount: number;
-  feeAmount: number;
-  netAmount: number;
-  feeConfigVersion?: string;
-  email: string;
-  displayName: string;
-}) => {
-  const withdrawalReference = `WITHDRAWAL_${Date.now()}_${realtorId.slice(-8)}`;
-
-  await walletService.lockFundsForWithdrawal(walletId, amount, withdrawalReference);
-
-  const withdrawalRequest = await prisma.withdrawalRequest.create({
-    data: {
-      walletId,
-      realtorId,
-      amount,
-      feeAmount,
-      netAmount,
-      feeConfigVersion,
-      status: "PENDING",
-      requestedAt: new Date(),
-      metadata: {
-        reference: withdrawalReference,
-        grossAmount: amount,
-        feeAmount,
-        netAmount,
-      },
-    },
-  });
-
-  logger.info("Withdrawal request created", {
-    realtorId,
-    amount,
-    withdrawalRequestId: withdrawalRequest.id,
-  });
-
-  await sendWithdrawalRequestedEmail(
-    email,
-    displayName,
-    amount,
-    withdrawalReference
-  ).catch((error) =>
-    logger.error("Failed to send withdrawal requested email", error)
+const createWithdrawalRequest = async (
+  params: withdrawalService.CreateWithdrawalRequestParams
+) => {
+  const withdrawalRequest = await withdrawalService.createWithdrawalRequest(
+    params
   );
 
+  // Held withdrawals go out when the cooling-off ends or an admin releases them
+  if (withdrawalRequest.status === "ON_HOLD") {
+    return withdrawalRequest;
+  }
+
   logger.info("Attempting automatic withdrawal processing", {
     withdrawalRequestId: withdrawalRequest.id,
   });
@@ -364,6 +388,25 @@ const createWithdrawalRequest = async ({
   return withdrawalRequest;
 };
 
+const submittedWithdrawalMessages = (withdrawalRequest: {
+  holdReason: string | null;
+}) => {
+  const holdReason =
+    withdrawalRequest.holdReason as WithdrawalHoldReason | null;
+  if (holdReason) {
+    return {
+      message: "Withdrawal request submitted and placed on hold.",
+      note: WITHDRAWAL_HOLD_MESSAGES[holdReason],
+    };
+  }
+
+  return {
+    message:
+      "Withdrawal request submitted successfully. Processing automatically...",
+    note: "Your withdrawal is being processed automatically. You'll receive an email notification once completed (usually within minutes). If automatic processing fails, our team will process it manually within 24 hours.",
+  };
+};
+
 /**
  * GET /api/wallets/balance
  * Get authenticated realtor's wallet balance
@@ -372,17 +415,39 @@ router.get(
   "/balance",
   authenticate,
   authorize(UserRole.REALTOR),
+  requireRealtorPermission("finance.read"),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const realtorId = await getRealtorId(req.user!.id);
+      const currency = await getRequestedCurrency(req, realtorId);
 
       // Get or create wallet
       const wallet = await walletService.getOrCreateWallet(
         WalletOwnerType.REALTOR,
-        realtorId
+        realtorId,
+        undefined,
+        currency
       );
 
-      const balance = await walletService.getWalletBalance(wallet.id);
+      const [balance, wallets, realtor] = await Promise.all([
+        walletService.getWalletBalance(wallet.id),
+        prisma.wallet.findMany({
+          where: { ownerType: WalletOwnerType.REALTOR, ownerId: realtorId },
+          select: { currency: true },
+          orderBy: { createdAt: "asc" },
+        }),
+        prisma.realtor.findUnique({
+          where: { id: realtorId },
+          select: {
+            payoutCurrency: true,
+            payoutHoldUntil: true,
+            payoutsFrozenAt: true,
+          },
+        }),
+      ]);
+      const holdReason = realtor
+        ? withdrawalHoldReason(realtor, new Date())
+        : null;
 
       // Calculate pending escrow funds (money held in escrow for realtor)
       const escrowFunds = await prisma.payment.findMany({
@@ -397,6 +462,7 @@ router.get(
             in: ["HELD", "PARTIALLY_RELEASED"],
           },
           roomFeeInEscrow: true, // Room fee still in escrow
+          currency,
         },
         select: {
           roomFeeAmount: true,
@@ -437,7 +503,21 @@ router.get(
           availableBalance: balance.available,
           pendingBalance: realtorShareInEscrow, // Show escrow funds as pending
           totalBalance: balance.available + realtorShareInEscrow,
-          currency: "NGN",
+          currency,
+          currencies: wallets.map((item) => item.currency),
+          // Only this wallet can be withdrawn from
+          payoutCurrency: settlementCurrencyOf(realtor?.payoutCurrency),
+          // New withdrawals are held while this is set
+          payoutHold: holdReason
+            ? {
+                reason: holdReason,
+                message: WITHDRAWAL_HOLD_MESSAGES[holdReason],
+                until:
+                  holdReason === "PAYOUT_ACCOUNT_CHANGED"
+                    ? realtor?.payoutHoldUntil
+                    : null,
+              }
+            : null,
         },
       });
     } catch (error) {
@@ -454,6 +534,7 @@ router.get(
   "/transactions",
   authenticate,
   authorize(UserRole.REALTOR),
+  requireRealtorPermission("finance.read"),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const realtorId = await getRealtorId(req.user!.id);
@@ -461,7 +542,9 @@ router.get(
       // Get wallet
       const wallet = await walletService.getOrCreateWallet(
         WalletOwnerType.REALTOR,
-        realtorId
+        realtorId,
+        undefined,
+        await getRequestedCurrency(req, realtorId)
       );
 
       // Parse pagination params
@@ -498,6 +581,7 @@ router.post(
   "/withdraw/preview",
   authenticate,
   authorize(UserRole.REALTOR),
+  requireRealtorPermission("payouts.manage"),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const amount = normalizeAmount(Number(req.body?.amount));
@@ -505,11 +589,15 @@ router.post(
         throw new AppError("Invalid withdrawal amount", 400);
       }
 
-      const { preview } = await getWithdrawalFeePreview(amount);
+      const currency = await getRequestedCurrency(
+        req,
+        await getRealtorId(req.user!.id)
+      );
+      const { preview } = await getWithdrawalFeePreview(amount, currency);
 
       res.status(200).json({
         success: true,
-        data: preview,
+        data: { ...preview, currency },
       });
     } catch (error) {
       next(error);
@@ -525,6 +613,7 @@ router.post(
   "/withdraw/request-otp",
   authenticate,
   authorize(UserRole.REALTOR),
+  requireRealtorPermission("payouts.manage"),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const amount = normalizeAmount(Number(req.body?.amount));
@@ -532,21 +621,27 @@ router.post(
         throw new AppError("Invalid withdrawal amount", 400);
       }
 
-      const { realtorId, wallet, realtor } = await getWithdrawalContext(
-        req.user!.id
-      );
-      const { preview } = await getWithdrawalFeePreview(amount);
-      await ensureSufficientWalletBalance(wallet.id, amount);
+      const { realtorId, wallet, realtor, currency } =
+        await getWithdrawalContext(req);
+      const { preview } = await getWithdrawalFeePreview(amount, currency);
+      await ensureSufficientWalletBalance(wallet.id, amount, currency);
 
       const otp = Math.floor(1000 + Math.random() * 9000).toString();
-      await saveWithdrawalOtpChallenge(req.user!.id, realtorId, amount, otp);
+      await saveWithdrawalOtpChallenge(
+        req.user!.id,
+        realtorId,
+        amount,
+        currency,
+        otp
+      );
 
       await sendWithdrawalOtpEmail(
         realtor.user.email,
         realtor.user.firstName || realtor.businessName,
         otp,
         amount,
-        WITHDRAWAL_OTP_EXPIRY_MINUTES
+        WITHDRAWAL_OTP_EXPIRY_MINUTES,
+        currency
       );
 
       res.status(200).json({
@@ -554,6 +649,7 @@ router.post(
         message: "OTP sent to your email. Enter the 4-digit code to continue.",
         data: {
           amount,
+          currency,
           fee: preview,
           maskedEmail: maskEmail(realtor.user.email),
           expiresInMinutes: WITHDRAWAL_OTP_EXPIRY_MINUTES,
@@ -573,6 +669,8 @@ router.post(
   "/withdraw/confirm",
   authenticate,
   authorize(UserRole.REALTOR),
+  requireRealtorPermission("payouts.manage"),
+  requireStepUp,
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const amount = normalizeAmount(Number(req.body?.amount));
@@ -586,12 +684,14 @@ router.post(
         throw new AppError("A valid 4-digit OTP is required", 400);
       }
 
-      const { wallet, realtorId, realtor } = await getWithdrawalContext(
-        req.user!.id
+      const { wallet, realtorId, realtor, currency } =
+        await getWithdrawalContext(req);
+      const { preview, configVersion } = await getWithdrawalFeePreview(
+        amount,
+        currency
       );
-      const { preview, configVersion } = await getWithdrawalFeePreview(amount);
-      await ensureSufficientWalletBalance(wallet.id, amount);
-      await verifyAndConsumeWithdrawalOtp(req.user!.id, amount, otp);
+      await ensureSufficientWalletBalance(wallet.id, amount, currency);
+      await verifyAndConsumeWithdrawalOtp(req.user!.id, amount, currency, otp);
 
       const withdrawalRequest = await createWithdrawalRequest({
         walletId: wallet.id,
@@ -600,22 +700,25 @@ router.post(
         feeAmount: preview.feeAmount,
         netAmount: preview.netAmount,
         feeConfigVersion: configVersion,
+        currency,
         email: realtor.user.email,
         displayName: realtor.user.firstName || realtor.businessName,
       });
 
+      const { message, note } = submittedWithdrawalMessages(withdrawalRequest);
+
       res.status(201).json({
         success: true,
-        message:
-          "Withdrawal request submitted successfully. Processing automatically...",
+        message,
         data: {
           withdrawalRequestId: withdrawalRequest.id,
           amount: preview.requestedAmount,
+          currency,
           fee: preview,
           netAmount: preview.netAmount,
-          status: "PENDING",
+          status: withdrawalRequest.status,
           requestedAt: withdrawalRequest.requestedAt,
-          note: "Your withdrawal is being processed automatically. You'll receive an email notification once completed (usually within minutes). If automatic processing fails, our team will process it manually within 24 hours.",
+          note,
         },
       });
     } catch (error) {
@@ -632,6 +735,7 @@ router.post(
   "/withdraw",
   authenticate,
   authorize(UserRole.REALTOR),
+  requireRealtorPermission("payouts.manage"),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const amount = normalizeAmount(Number(req.body?.amount));
@@ -648,12 +752,14 @@ router.post(
         );
       }
 
-      const { wallet, realtorId, realtor } = await getWithdrawalContext(
-        req.user!.id
+      const { wallet, realtorId, realtor, currency } =
+        await getWithdrawalContext(req);
+      const { preview, configVersion } = await getWithdrawalFeePreview(
+        amount,
+        currency
       );
-      const { preview, configVersion } = await getWithdrawalFeePreview(amount);
-      await ensureSufficientWalletBalance(wallet.id, amount);
-      await verifyAndConsumeWithdrawalOtp(req.user!.id, amount, otp);
+      await ensureSufficientWalletBalance(wallet.id, amount, currency);
+      await verifyAndConsumeWithdrawalOtp(req.user!.id, amount, currency, otp);
 
       const withdrawalRequest = await createWithdrawalRequest({
         walletId: wallet.id,
@@ -662,22 +768,25 @@ router.post(
         feeAmount: preview.feeAmount,
         netAmount: preview.netAmount,
         feeConfigVersion: configVersion,
+        currency,
         email: realtor.user.email,
         displayName: realtor.user.firstName || realtor.businessName,
       });
 
+      const { message, note } = submittedWithdrawalMessages(withdrawalRequest);
+
       res.status(201).json({
         success: true,
-        message:
-          "Withdrawal request submitted successfully. Processing automatically...",
+        message,
         data: {
           withdrawalRequestId: withdrawalRequest.id,
           amount: preview.requestedAmount,
+          currency,
           fee: preview,
           netAmount: preview.netAmount,
-          status: "PENDING",
+          status: withdrawalRequest.status,
           requestedAt: withdrawalRequest.requestedAt,
-          note: "Your withdrawal is being processed automatically. You'll receive an email notification once completed (usually within minutes). If automatic processing fails, our team will process it manually within 24 hours.",
+          note,
         },
       });
     } catch (error) {
@@ -694,6 +803,7 @@ router.get(
   "/withdrawals",
   authenticate,
   authorize(UserRole.REALTOR),
+  requireRealtorPermission("finance.read"),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const realtorId = await getRealtorId(req.user!.id);
@@ -705,6 +815,7 @@ router.get(
       const [withdrawals, total] = await Promise.all([
         prisma.withdrawalRequest.findMany({
           where: { realtorId },
+          include: { wallet: { select: { currency: true } } },
           orderBy: { requestedAt: "desc" },
           skip,
           take: limit,
@@ -738,6 +849,7 @@ router.get(
   "/earnings-summary",
   authenticate,
   authorize(UserRole.REALTOR),
+  requireRealtorPermission("finance.read"),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const realtorId = await getRealtorId(req.user!.id);
@@ -745,7 +857,9 @@ router.get(
       // Get wallet
       const wallet = await walletService.getOrCreateWallet(
         WalletOwnerType.REALTOR,
-        realtorId
+        realtorId,
+        undefined,
+        await getRequestedCurrency(req, realtorId)
       );
 
       // Aggregate earnings by source
@@ -784,4 +898,118 @@ router.get(
   }
 );
 
+/**
+ * GET /api/wallets/payout-schedule
+ * Automatic payout schedule for a wallet with a preview of upcoming payouts
+ */
+router.get(
+  "/payout-schedule",
+  authenticate,
+  authorize(UserRole.REALTOR),
+  requireRealtorPermission("finance.read"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const realtorId = await getRealtorId(req.user!.id);
+      const currency = await getRequestedCurrency(req, realtorId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          currency,
+          ...(await getPayoutSchedulePreview(realtorId, currency)),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/wallets/payout-schedule
+ * Turn on or change automatic payouts (daily, weekly, monthly or above a
+ * balance threshold), keeping a minimum reserve in the wallet
+ */
+router.put(
+  "/payout-schedule",
+  authenticate,
+  authorize(UserRole.REALTOR),
+  requireRealtorPermission("payouts.manage"),
+  requireStepUp,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { error, value } = payoutScheduleSchema.validate(req.body ?? {});
+      if (error) {
+        throw new AppError(error.details[0].message, 400);
+      }
+
+      const realtorId = await getRealtorId(req.user!.id);
+      const currency = await getRequestedCurrency(req, realtorId);
+      const schedule = await savePayoutSchedule(realtorId, {
+        ...value,
+        currency,
+      });
+
+      await auditLogger.log("PAYOUT_SCHEDULE_UPDATE", "PAYOUT_SCHEDULE", {
+        entityId: schedule.id,
+        userId: req.user!.id,
+        details: {
+          realtorId,
+          currency,
+          frequency: schedule.frequency,
+          weekday: schedule.weekday,
+          dayOfMonth: schedule.dayOfMonth,
+          thresholdAmount: schedule.thresholdAmount?.toString() ?? null,
+          minimumReserve: schedule.minimumReserve.toString(),
+        },
+        req,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Automatic payouts updated",
+        data: {
+          currency,
+          ...(await getPayoutSchedulePreview(realtorId, currency)),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/wallets/payout-schedule
+ * Turn off automatic payouts for a wallet
+ */
+router.delete(
+  "/payout-schedule",
+  authenticate,
+  authorize(UserRole.REALTOR),
+  requireRealtorPermission("payouts.manage"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const realtorId = await getRealtorId(req.user!.id);
+      const currency = await getRequestedCurrency(req, realtorId);
+      const schedule = await disablePayoutSchedule(realtorId, currency);
+
+      await auditLogger.log("PAYOUT_SCHEDULE_DISABLE", "PAYOUT_SCHEDULE", {
+        entityId: schedule.id,
+        userId: req.user!.id,
+        details: { realtorId, currency },
+        req,
+      });
+
+      res.status(200).json({
+        success: true,
+        message: "Automatic payouts turned off",
+        data: schedule,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -1,14 +1,19 @@
 import express from "express";
-import crypto from "crypto";
 import { PaymentStatus, BookingStatus, Prisma } from "@prisma/client";
 import { prisma } from "@/config/database";
-import { config } from "@/config";
 import { asyncHandler } from "@/middleware/errorHandler";
 import { logger } from "@/utils/logger";
 import { createAdminNotification } from "@/services/notificationService";
-import { ensureRealtorTransferRecipientCode } from "@/services/payoutAccountService";
-import { initiateTransfer, verifyTransfer } from "@/services/paystack";
-import { finalizePaystackPayment } from "@/services/paymentFinalization";
+import { transferToRealtor } from "@/services/payoutAccountService";
+import { paystackGateway } from "@/services/paystack";
+import { finalizeGatewayPayment } from "@/services/paymentFinalization";
+import { flutterwaveGateway } from "@/services/flutterwave";
+import { trackGatewayCall } from "@/services/paymentGateway";
+import {
+  GatewayWebhookEvent,
+  PaymentGateway,
+  gatewayTransactionMismatch,
+} from "@/services/paymentGatewayRules";
 
 const router = express.Router();
 
@@ -70,154 +75,89 @@ const finalizeWebhookEvent = async (params: {
   });
 };
 
-const isValidPaystackSignature = (
-  rawBody: Buffer,
-  signatureHeader: unknown
-): boolean => {
-  if (typeof signatureHeader !== "string") {
-    return false;
-  }
-
-  const expectedSignature = crypto
-    .createHmac("sha512", config.PAYSTACK_WEBHOOK_SECRET)
-    .update(rawBody)
-    .digest("hex");
-
-  try {
-    const providedBuffer = Buffer.from(signatureHeader, "hex");
-    const expectedBuffer = Buffer.from(expectedSignature, "hex");
-    return (
-      providedBuffer.length === expectedBuffer.length &&
-      crypto.timingSafeEqual(providedBuffer, expectedBuffer)
-    );
-  } catch {
-    return false;
-  }
-};
-
-const parsePaystackPayload = (
-  rawBody: Buffer
-): { event: string; data: Record<string, any>; payload: Record<string, any> } => {
-  const parsed = JSON.parse(rawBody.toString("utf8")) as Record<string, any>;
-  const event = typeof parsed.event === "string" ? parsed.event : "";
-  const data =
-    parsed.data && typeof parsed.data === "object" && !Array.isArray(parsed.data)
-      ? (parsed.data as Record<string, any>)
-      : {};
-
-  if (!event) {
-    throw new Error("Webhook payload missing event type");
-  }
-
-  return { event, data, payload: parsed };
-};
-
 /**
  * @swagger
  * tags:
  *   - name: Webhooks
- *     description: Payment gateway webhook handlers (Paystack)
+ *     description: Payment gateway webhook handlers (Paystack, Flutterwave)
  */
 
 /**
- * @swagger
- * /api/webhooks/paystack:
- *   post:
- *     summary: Paystack webhook handler (HMAC SHA512 verification)
- *     tags: [Webhooks]
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *     responses:
- *       200:
- *         description: Webhook processed successfully
- *       401:
- *         description: Invalid signature
+ * Verify, de-duplicate and dispatch a gateway webhook. Both providers'
+ * events are normalized by their gateway, so the handlers below do not
+ * care which one sent it.
  */
-router.post(
-  "/paystack",
+const handleGatewayWebhook = (gateway: PaymentGateway) =>
   asyncHandler(async (req, res) => {
+    const label = gateway.provider === "PAYSTACK" ? "Paystack" : "Flutterwave";
     const rawBody = getRawBodyBuffer(req.body);
     if (!rawBody) {
       logger.error(
-        "Paystack webhook: expected raw Buffer body but received parsed payload"
+        `${label} webhook: expected raw Buffer body but received parsed payload`
       );
       return res.status(400).json({ error: "Invalid webhook payload format" });
     }
 
-    const signature = req.headers["x-paystack-signature"];
-    if (!signature || typeof signature !== "string") {
-      logger.warn("Paystack webhook: Missing signature");
-      return res.status(401).json({ error: "Missing signature" });
-    }
-
-    if (!isValidPaystackSignature(rawBody, signature)) {
-      logger.warn("Paystack webhook: Invalid signature");
+    if (!gateway.verifyWebhookSignature(rawBody, req.headers)) {
+      logger.warn(`${label} webhook: Missing or invalid signature`);
       return res.status(401).json({ error: "Invalid signature" });
     }
 
-    let event = "";
-    let data: Record<string, any> = {};
-    let payload: Record<string, any> = {};
-
+    let event: GatewayWebhookEvent;
     try {
-      const parsed = parsePaystackPayload(rawBody);
-      event = parsed.event;
-      data = parsed.data;
-      payload = parsed.payload;
+      event = gateway.parseWebhookEvent(rawBody);
     } catch (error) {
-      logger.warn("Paystack webhook: Invalid payload", {
+      logger.warn(`${label} webhook: Invalid payload`, {
         error: error instanceof Error ? error.message : error,
       });
       return res.status(400).json({ error: "Invalid webhook payload" });
     }
 
-    const eventId = `paystack-${event}-${data.reference || data.id}`;
+    const { eventId, reference, data } = event;
 
     // Database-backed idempotency guard with unique event lock.
     const reserved = await reserveWebhookEvent({
-      provider: "PAYSTACK",
+      provider: gateway.provider,
       eventId,
-      eventType: event,
-      payload,
+      eventType: event.eventType,
+      payload: event.payload,
     });
     if (!reserved) {
-      logger.info(`Paystack webhook: Duplicate event ${eventId}, skipping`);
+      logger.info(`${label} webhook: Duplicate event ${eventId}, skipping`);
       return res.status(200).json({ message: "Event already processed" });
     }
 
-    logger.info(`Paystack webhook received: ${event}`, {
-      reference: data.reference,
+    logger.info(`${label} webhook received: ${event.eventType}`, {
+      reference,
     });
 
     try {
       // Route to appropriate handler
-      switch (event) {
-        case "charge.success":
-          await handleChargeCompleted(data.reference, data);
+      switch (event.kind) {
+        case "CHARGE_SUCCESS":
+          await handleChargeCompleted(gateway, reference, event);
           break;
 
-        case "charge.failed":
-          await handleChargeFailed(data.reference, data);
+        case "CHARGE_FAILED":
+          await handleChargeFailed(gateway, reference, event);
           break;
 
-        case "transfer.success":
-          await handleTransferSuccess(data.reference, data);
+        case "TRANSFER_SUCCESS":
+          await handleTransferSuccess(reference, data);
           break;
 
-        case "transfer.failed":
-          await handleTransferFailed(data.reference, data);
+        case "TRANSFER_FAILED":
+          await handleTransferFailed(gateway, reference, data);
           break;
 
-        case "transfer.reversed":
-          await handleTransferReversed(data.reference, data);
+        case "TRANSFER_REVERSED":
+          await handleTransferReversed(gateway, reference, data);
           break;
 
         default:
-          logger.info(`Paystack webhook: Unhandled event type ${event}`);
+          logger.info(
+            `${label} webhook: Unhandled event type ${event.eventType}`
+          );
       }
 
       // Mark as processed in database
@@ -225,15 +165,15 @@ router.post(
         eventId,
         status: "PROCESSED",
         metadata: {
-        reference: data.reference,
+          reference,
         },
       });
 
       return res.status(200).json({ message: "Webhook processed" });
     } catch (error: any) {
-      logger.error(`Paystack webhook error: ${error.message}`, {
-        event,
-        reference: data.reference,
+      logger.error(`${label} webhook error: ${error.message}`, {
+        event: event.eventType,
+        reference,
         error: error.stack,
       });
       // Mark as failed
@@ -244,8 +184,47 @@ router.post(
       });
       return res.status(500).json({ error: "Webhook processing failed" });
     }
-  })
-);
+  });
+
+/**
+ * @swagger
+ * /api/webhooks/paystack:
+ *   post:
+ *     summary: Paystack webhook handler (HMAC SHA512 verification)
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Webhook processed successfully
+ *       401:
+ *         description: Invalid signature
+ */
+router.post("/paystack", handleGatewayWebhook(paystackGateway));
+
+/**
+ * @swagger
+ * /api/webhooks/flutterwave:
+ *   post:
+ *     summary: Flutterwave webhook handler (verif-hash header verification)
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Webhook processed successfully
+ *       401:
+ *         description: Invalid signature
+ */
+router.post("/flutterwave", handleGatewayWebhook(flutterwaveGateway));
 
 /**
  * @swagger
@@ -302,9 +281,38 @@ router.post(
 // ============================================================================
 
 /**
- * Handle successful charge completion
+ * Whether a charge event came from the gateway that collected the payment.
+ * Payments made before a method was recorded were all taken by Paystack.
+ */
+function isFromPaymentGateway(
+  gateway: PaymentGateway,
+  payment: { id: string; method: string | null },
+  paymentRef: string
+): boolean {
+  const method = payment.method || "PAYSTACK";
+  if (method === gateway.provider) {
+    return true;
+  }
+
+  logger.warn(`Charge webhook ignored: sent by a different gateway`, {
+    paymentId: payment.id,
+    reference: paymentRef,
+    method,
+    provider: gateway.provider,
+  });
+  return false;
+}
+
+/**
+ * Handle successful charge completion. The event only tells us which
+ * payment to look at; the charge itself is re-verified with the gateway
+ * before the payment is finalized.
  */
-async function handleChargeCompleted(paymentRef: string, data: any) {
+async function handleChargeCompleted(
+  gateway: PaymentGateway,
+  paymentRef: string,
+  event: GatewayWebhookEvent
+) {
   const payment = await prisma.payment.findUnique({
     where: { reference: paymentRef },
   });
@@ -316,6 +324,10 @@ async function handleChargeCompleted(paymentRef: string, data: any) {
     return;
   }
 
+  if (!isFromPaymentGateway(gateway, payment, paymentRef)) {
+    return;
+  }
+
   // Skip if already completed
   if (
     (payment.status === PaymentStatus.HELD && Boolean(payment.paidAt)) ||
@@ -326,14 +338,30 @@ async function handleChargeCompleted(paymentRef: string, data: any) {
     return;
   }
 
-  const finalized = await finalizePaystackPayment({
+  const transaction = await trackGatewayCall(gateway, (verifier) =>
+    verifier.verifyTransaction(paymentRef)
+  );
+  const mismatch = gatewayTransactionMismatch(
+    { amount: Number(payment.amount), currency: payment.currency },
+    transaction
+  );
+  if (mismatch) {
+    logger.warn(`Charge webhook not confirmed by ${gateway.provider}`, {
+      paymentId: payment.id,
+      reference: paymentRef,
+      reason: mismatch,
+    });
+    return;
+  }
+
+  const finalized = await finalizeGatewayPayment({
     paymentId: payment.id,
     source: "WEBHOOK",
-    providerData: data,
+    transaction,
     extraMetadata: {
       webhookProcessedAt: new Date().toISOString(),
       webhookReference: paymentRef,
-      webhookEvent: "charge.success",
+      webhookEvent: event.eventType,
     },
   });
 
@@ -348,7 +376,15 @@ async function handleChargeCompleted(paymentRef: string, data: any) {
 /**
  * Handle failed charge
  */
-async function handleChargeFailed(paymentRef: string, data: any) {
+async function handleChargeFailed(
+  gateway: PaymentGateway,
+  paymentRef: string,
+  event: GatewayWebhookEvent
+) {
+  const reason =
+    event.data.message ||
+    event.transaction?.gatewayResponse ||
+    "Payment failed";
   const payment = await prisma.payment.findUnique({
     where: { reference: paymentRef },
   });
@@ -358,6 +394,10 @@ async function handleChargeFailed(paymentRef: string, data: any) {
     return;
   }
 
+  if (!isFromPaymentGateway(gateway, payment, paymentRef)) {
+    return;
+  }
+
   if (
     payment.status === PaymentStatus.HELD ||
     payment.status === PaymentStatus.PARTIALLY_RELEASED ||
@@ -376,9 +416,8 @@ async function handleChargeFailed(paymentRef: string, data: any) {
       status: PaymentStatus.FAILED,
       metadata: {
         ...((payment.metadata as object) || {}),
-        failureReason:
-          data.message || data.gateway_response || "Payment failed",
-        webhookData: data,
+        failureReason: reason,
+        webhookData: event.data,
       },
     },
   });
@@ -395,7 +434,7 @@ async function handleChargeFailed(paymentRef: string, data: any) {
   logger.info(`Charge failed`, {
     paymentId: payment.id,
     reference: paymentRef,
-    reason: data.message || data.gateway_response,
+    reason,
   });
 }
 
@@ -438,7 +477,11 @@ async function handleTransferSuccess(transferReference: string, data: any) {
 /**
  * Handle failed transfer (escrow payout)
  */
-async function handleTransferFailed(transferReference: string, data: any) {
+async function handleTransferFailed(
+  gateway: PaymentGateway,
+  transferReference: string,
+  data: any
+) {
   // Find escrow event
   const escrowEvent = await prisma.escrowEvent.findFirst({
     where: { transactionReference: transferReference },
@@ -479,7 +522,13 @@ async function handleTransferFailed(transferReference: string, data: any) {
       reference: transferReference,
       reason: data.message,
     });
-    await retryOrEscalateCriticalTransfer(escrowEvent.id, transferReference, data, "FAILED");
+    await retryOrEscalateCriticalTransfer(
+      gateway,
+      escrowEvent.id,
+      transferReference,
+      data,
+      "FAILED"
+    );
   } else {
     logger.warn(`Transfer failed`, {
       bookingId: escrowEvent.bookingId,
@@ -492,7 +541,11 @@ async function handleTransferFailed(transferReference: string, data: any) {
 /**
  * Handle reversed transfer
  */
-async function handleTransferReversed(transferReference: string, data: any) {
+async function handleTransferReversed(
+  gateway: PaymentGateway,
+  transferReference: string,
+  data: any
+) {
   // Find escrow event
   const escrowEvent = await prisma.escrowEvent.findFirst({
     where: { transactionReference: transferReference },
@@ -526,7 +579,13 @@ async function handleTransferReversed(transferReference: string, data: any) {
     reason: data.message,
   });
 
-  await retryOrEscalateCriticalTransfer(escrowEvent.id, transferReference, data, "REVERSED");
+  await retryOrEscalateCriticalTransfer(
+    gateway,
+    escrowEvent.id,
+    transferReference,
+    data,
+    "REVERSED"
+  );
 }
 
 async function notifyAdminsTransferIncident(params: {
@@ -555,6 +614,7 @@ async function notifyAdminsTransferIncident(params: {
 }
 
 async function retryOrEscalateCriticalTransfer(
+  gateway: PaymentGateway,
   escrowEventId: string,
   originalReference: string,
   data: any,
@@ -605,10 +665,12 @@ async function retryOrEscalateCriticalTransfer(
   });
 
   try {
-    const verification = await verifyTransfer(originalReference);
-    const verificationStatus = String(verification?.status || "").toLowerCase();
+    // The provider that reported the incident is the one that sent it
+    const verification = await trackGatewayCall(gateway, (transferGateway) =>
+      transferGateway.verifyTransfer(originalReference)
+    );
 
-    if (verificationStatus === "success") {
+    if (verification.status === "success") {
       await prisma.escrowEvent.update({
         where: { id: escrowEvent.id },
         data: {
@@ -617,7 +679,7 @@ async function retryOrEscalateCriticalTransfer(
             transferConfirmed: true,
             transferConfirmedAt: new Date().toISOString(),
             verificationRecovered: true,
-            verificationPayload: verification,
+            verificationPayload: verification.raw,
           },
         },
       });
@@ -681,11 +743,10 @@ async function retryOrEscalateCriticalTransfer(
     return;
   }
 
-  const recipient = await ensureRealtorTransferRecipientCode(realtorId);
   const retryReference = `${originalReference}_retry_${retryAttempts + 1}`;
-  const retryResult = await initiateTransfer({
+  const retryResult = await transferToRealtor(realtorId, {
     amount: Number(escrowEvent.amount),
-    recipient,
+    currency: escrowEvent.currency,
     reason: `Retry payout for ${escrowEvent.eventType} (${escrowEvent.bookingId})`,
     reference: retryReference,
   });
@@ -700,8 +761,9 @@ async function retryOrEscalateCriticalTransfer(
         lastRetryAt: new Date().toISOString(),
         previousReference: originalReference,
         retryReference,
-        retryTransferId: retryResult?.id || retryResult?.transfer_code,
-        retryPayload: retryResult,
+        retryTransferId: retryResult.transferId,
+        retryProvider: retryResult.provider,
+        retryPayload: retryResult.raw,
       },
     },
   });
@@ -1,6 +1,6 @@
 import "dotenv/config";
 import bcrypt from "bcrypt";
-import { UserRole } from "@prisma/client";
+import { AdminRole, UserRole } from "@prisma/client";
 import { prisma } from "@/config/database";
 
 const ADMIN_EMAIL =
@@ -42,6 +42,7 @@ async function main() {
         lastName: ADMIN_LAST_NAME,
         fullName,
         role: UserRole.ADMIN,
+        adminRole: AdminRole.SUPER_ADMIN,
         isEmailVerified: true,
       },
       select: {
@@ -60,6 +61,7 @@ async function main() {
     data: {
       password: hashedPassword,
       role: UserRole.ADMIN,
+      adminRole: AdminRole.SUPER_ADMIN,
       firstName: ADMIN_FIRST_NAME,
       lastName: ADMIN_LAST_NAME,
       fullName,
@@ -0,0 +1,8 @@
+import { generateVapidKeys } from "@/utils/webPush";
+
+// Prints a fresh VAPID key pair for the Web Push configuration. Rotating
+// keys invalidates every stored browser subscription.
+const keys = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${keys.publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${keys.privateKey}`);
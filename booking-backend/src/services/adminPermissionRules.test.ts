@@ -0,0 +1,87 @@
+import { AdminRole, UserRole } from "@prisma/client";
+import {
+  ADMIN_PERMISSIONS,
+  adminRolesWithPermission,
+  getAdminPermissions,
+  hasAdminPermission,
+  isAdminRole,
+  wouldRemoveLastSuperAdmin,
+} from "./adminPermissionRules";
+
+const admin = (adminRole: AdminRole | null) => ({
+  role: UserRole.ADMIN,
+  adminRole,
+});
+
+describe("adminPermissionRules", () => {
+  it("gives super admins every permission", () => {
+    expect(getAdminPermissions(admin(AdminRole.SUPER_ADMIN))).toEqual(
+      ADMIN_PERMISSIONS
+    );
+  });
+
+  it("keeps finance settings away from support staff", () => {
+    expect(
+      hasAdminPermission(admin(AdminRole.FINANCE), "settings.finance")
+    ).toBe(true);
+    expect(
+      hasAdminPermission(admin(AdminRole.SUPPORT), "settings.finance")
+    ).toBe(false);
+    expect(hasAdminPermission(admin(AdminRole.SUPPORT), "support.manage")).toBe(
+      true
+    );
+  });
+
+  it("limits analysts to read permissions without guest messages", () => {
+    const permissions = getAdminPermissions(admin(AdminRole.ANALYST));
+
+    expect(
+      permissions.every((permission) => permission.endsWith(".read"))
+    ).toBe(true);
+    expect(permissions).toContain("ledger.read");
+    expect(permissions).not.toContain("messages.read");
+  });
+
+  it("grants nothing to non-admins or admins without a role", () => {
+    expect(
+      getAdminPermissions({
+        role: UserRole.REALTOR,
+        adminRole: AdminRole.SUPER_ADMIN,
+      })
+    ).toEqual([]);
+    expect(getAdminPermissions(admin(null))).toEqual([]);
+  });
+
+  it("lists the roles that hold a permission", () => {
+    expect(adminRolesWithPermission("disputes.resolve")).toEqual([
+      AdminRole.SUPER_ADMIN,
+      AdminRole.TRUST_AND_SAFETY,
+    ]);
+    expect(isAdminRole("FINANCE")).toBe(true);
+    expect(isAdminRole("ADMIN")).toBe(false);
+  });
+
+  it("refuses to demote the last super admin", () => {
+    expect(
+      wouldRemoveLastSuperAdmin({
+        currentRole: AdminRole.SUPER_ADMIN,
+        nextRole: AdminRole.FINANCE,
+        superAdminCount: 1,
+      })
+    ).toBe(true);
+    expect(
+      wouldRemoveLastSuperAdmin({
+        currentRole: AdminRole.SUPER_ADMIN,
+        nextRole: AdminRole.FINANCE,
+        superAdminCount: 2,
+      })
+    ).toBe(false);
+    expect(
+      wouldRemoveLastSuperAdmin({
+        currentRole: AdminRole.SUPPORT,
+        nextRole: AdminRole.FINANCE,
+        superAdminCount: 1,
+      })
+    ).toBe(false);
+  });
+});
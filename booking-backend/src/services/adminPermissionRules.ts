@@ -0,0 +1,144 @@
+import { AdminRole, UserRole } from "@prisma/client";
+
+/**
+ * Everything an admin can be allowed to do. Read permissions cover listing
+ * and viewing; the others cover changes.
+ */
+export const ADMIN_PERMISSIONS = [
+  "realtors.read",
+  "realtors.manage",
+  "bookings.read",
+  "bookings.manage",
+  "refunds.read",
+  "refunds.manage",
+  "disputes.read",
+  "disputes.resolve",
+  "reviews.read",
+  "reviews.moderate",
+  "messages.read",
+  "support.read",
+  "support.manage",
+  "analytics.read",
+  "payouts.manage",
+  "withdrawals.read",
+  "withdrawals.manage",
+  "ledger.read",
+  "reconciliation.read",
+  "reconciliation.manage",
+  "settings.read",
+  "settings.write",
+  "settings.finance",
+  "audit.read",
+  "system.read",
+  "system.manage",
+  "admins.manage",
+] as const;
+
+export type AdminPermission = (typeof ADMIN_PERMISSIONS)[number];
+
+const READ_PERMISSIONS = ADMIN_PERMISSIONS.filter((permission) =>
+  permission.endsWith(".read"),
+);
+
+export const ADMIN_ROLE_PERMISSIONS: Record<
+  AdminRole,
+  readonly AdminPermission[]
+> = {
+  [AdminRole.SUPER_ADMIN]: ADMIN_PERMISSIONS,
+  [AdminRole.FINANCE]: [
+    "realtors.read",
+    "bookings.read",
+    "refunds.read",
+    "refunds.manage",
+    "disputes.read",
+    "analytics.read",
+    "payouts.manage",
+    "withdrawals.read",
+    "withdrawals.manage",
+    "ledger.read",
+    "reconciliation.read",
+    "reconciliation.manage",
+    "settings.read",
+    "settings.finance",
+    "audit.read",
+  ],
+  [AdminRole.TRUST_AND_SAFETY]: [
+    "realtors.read",
+    "realtors.manage",
+    "bookings.read",
+    "refunds.read",
+    "disputes.read",
+    "disputes.resolve",
+    "reviews.read",
+    "reviews.moderate",
+    "messages.read",
+    "support.read",
+    "audit.read",
+  ],
+  [AdminRole.SUPPORT]: [
+    "realtors.read",
+    "bookings.read",
+    "refunds.read",
+    "disputes.read",
+    "reviews.read",
+    "messages.read",
+    "support.read",
+    "support.manage",
+  ],
+  // Guest and host conversations stay out of the analyst's reach
+  [AdminRole.ANALYST]: READ_PERMISSIONS.filter(
+    (permission) => permission !== "messages.read",
+  ),
+};
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  [AdminRole.SUPER_ADMIN]: "Super admin",
+  [AdminRole.FINANCE]: "Finance",
+  [AdminRole.TRUST_AND_SAFETY]: "Trust & safety",
+  [AdminRole.SUPPORT]: "Support",
+  [AdminRole.ANALYST]: "Read-only analyst",
+};
+
+// Invite links stop working after this long
+export const ADMIN_INVITE_TTL_DAYS = 7;
+
+export const isAdminRole = (value: unknown): value is AdminRole =>
+  typeof value === "string" &&
+  (Object.values(AdminRole) as string[]).includes(value);
+
+/**
+ * Permissions held by a user. Only ADMIN users hold any, and an admin
+ * without an admin role holds none until one is assigned.
+ */
+export const getAdminPermissions = (user: {
+  role: UserRole;
+  adminRole?: AdminRole | null;
+}): readonly AdminPermission[] =>
+  user.role === UserRole.ADMIN && user.adminRole
+    ? ADMIN_ROLE_PERMISSIONS[user.adminRole]
+    : [];
+
+export const hasAdminPermission = (
+  user: { role: UserRole; adminRole?: AdminRole | null },
+  permission: AdminPermission,
+): boolean => getAdminPermissions(user).includes(permission);
+
+export const adminRolesWithPermission = (
+  permission: AdminPermission,
+): AdminRole[] =>
+  (Object.keys(ADMIN_ROLE_PERMISSIONS) as AdminRole[]).filter((role) =>
+    ADMIN_ROLE_PERMISSIONS[role].includes(permission),
+  );
+
+/**
+ * Whether changing an admin's role would leave nobody able to manage
+ * admins, which would lock the team out of its own settings.
+ */
+export const wouldRemoveLastSuperAdmin = (params: {
+  currentRole: AdminRole | null;
+  nextRole: AdminRole | null;
+  superAdminCount: number;
+}): boolean =>
+  params.currentRole === AdminRole.SUPER_ADMIN &&
+  params.nextRole !== AdminRole.SUPER_ADMIN &&
+  params.superAdminCount <= 1;
@@ -0,0 +1,257 @@
+import { createHash, randomBytes } from "crypto";
+import { AdminRole, Prisma, UserRole } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { config } from "@/config";
+import { AppError } from "@/middleware/errorHandler";
+import { sendAdminInviteEmail } from "@/services/email";
+import {
+  ADMIN_INVITE_TTL_DAYS,
+  ADMIN_ROLE_LABELS,
+  wouldRemoveLastSuperAdmin,
+} from "@/services/adminPermissionRules";
+import { hashPassword } from "@/utils/auth";
+import { logger } from "@/utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hashInviteToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+const inviteSelect = {
+  id: true,
+  email: true,
+  adminRole: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.AdminInviteSelect;
+
+const pendingInviteWhere = (now: Date): Prisma.AdminInviteWhereInput => ({
+  acceptedAt: null,
+  revokedAt: null,
+  expiresAt: { gt: now },
+});
+
+export const listAdminTeam = async (now: Date = new Date()) => {
+  const [members, invites] = await Promise.all([
+    prisma.user.findMany({
+      where: { role: UserRole.ADMIN },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        adminRole: true,
+        twoFactorEnabled: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.adminInvite.findMany({
+      where: pendingInviteWhere(now),
+      select: inviteSelect,
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  return { members, invites };
+};
+
+/**
+ * Invite someone to the admin team. A new invite for the same email
+ * replaces any that are still pending.
+ */
+export const createAdminInvite = async (params: {
+  email: string;
+  adminRole: AdminRole;
+  invitedBy: { id: string; firstName: string; lastName: string };
+  now?: Date;
+}) => {
+  const now = params.now ?? new Date();
+  const email = params.email.trim().toLowerCase();
+
+  const existingUser = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: "insensitive" } },
+    select: { id: true },
+  });
+  if (existingUser) {
+    throw new AppError("An account with this email already exists", 409);
+  }
+
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(now.getTime() + ADMIN_INVITE_TTL_DAYS * DAY_MS);
+
+  const invite = await prisma.$transaction(async (tx) => {
+    await tx.adminInvite.updateMany({
+      where: { email, ...pendingInviteWhere(now) },
+      data: { revokedAt: now },
+    });
+
+    return tx.adminInvite.create({
+      data: {
+        email,
+        adminRole: params.adminRole,
+        tokenHash: hashInviteToken(token),
+        invitedById: params.invitedBy.id,
+        expiresAt,
+      },
+      select: inviteSelect,
+    });
+  });
+
+  try {
+    await sendAdminInviteEmail({
+      to: email,
+      inviterName:
+        `${params.invitedBy.firstName} ${params.invitedBy.lastName}`.trim(),
+      roleLabel: ADMIN_ROLE_LABELS[params.adminRole],
+      inviteUrl: `${config.FRONTEND_URL}/admin/invite?token=${token}`,
+      expiresAt,
+    });
+  } catch (error) {
+    logger.error("Failed to send admin invite email", {
+      inviteId: invite.id,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+
+  return invite;
+};
+
+export const revokeAdminInvite = async (
+  inviteId: string,
+  now: Date = new Date(),
+) => {
+  const revoked = await prisma.adminInvite.updateMany({
+    where: { id: inviteId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: now },
+  });
+  if (revoked.count === 0) {
+    throw new AppError("Invite not found or no longer pending", 404);
+  }
+
+  return prisma.adminInvite.findUniqueOrThrow({
+    where: { id: inviteId },
+    select: inviteSelect,
+  });
+};
+
+const loadPendingInvite = async (token: string, now: Date) => {
+  const invite = await prisma.adminInvite.findUnique({
+    where: { tokenHash: hashInviteToken(token) },
+  });
+  if (!invite || invite.revokedAt) {
+    throw new AppError("This invitation is not valid", 404);
+  }
+  if (invite.acceptedAt) {
+    throw new AppError("This invitation has already been used", 410);
+  }
+  if (invite.expiresAt <= now) {
+    throw new AppError("This invitation has expired", 410);
+  }
+  return invite;
+};
+
+export const getAdminInvite = async (token: string, now: Date = new Date()) => {
+  const invite = await loadPendingInvite(token, now);
+  return {
+    email: invite.email,
+    adminRole: invite.adminRole,
+    roleLabel: ADMIN_ROLE_LABELS[invite.adminRole],
+    expiresAt: invite.expiresAt,
+  };
+};
+
+/**
+ * Create the admin account for an invite. The invite is claimed in the
+ * same transaction so a token can only ever create one account.
+ */
+export const acceptAdminInvite = async (params: {
+  token: string;
+  firstName: string;
+  lastName: string;
+  password: string;
+  now?: Date;
+}) => {
+  const now = params.now ?? new Date();
+  const invite = await loadPendingInvite(params.token, now);
+  const password = await hashPassword(params.password);
+
+  return prisma.$transaction(async (tx) => {
+    const existingUser = await tx.user.findFirst({
+      where: { email: { equals: invite.email, mode: "insensitive" } },
+      select: { id: true },
+    });
+    if (existingUser) {
+      throw new AppError("An account with this email already exists", 409);
+    }
+
+    const user = await tx.user.create({
+      data: {
+        email: invite.email,
+        password,
+        firstName: params.firstName,
+        lastName: params.lastName,
+        fullName: `${params.firstName} ${params.lastName}`.trim(),
+        role: UserRole.ADMIN,
+        adminRole: invite.adminRole,
+        isEmailVerified: true,
+      },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+        adminRole: true,
+      },
+    });
+
+    const claimed = await tx.adminInvite.updateMany({
+      where: { id: invite.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: now, acceptedById: user.id },
+    });
+    if (claimed.count === 0) {
+      throw new AppError("This invitation has already been used", 410);
+    }
+
+    return { user, inviteId: invite.id, invitedById: invite.invitedById };
+  });
+};
+
+export const updateAdminRole = async (userId: string, adminRole: AdminRole) => {
+  const member = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, role: true, adminRole: true },
+  });
+  if (!member || member.role !== UserRole.ADMIN) {
+    throw new AppError("Admin not found", 404);
+  }
+
+  const superAdminCount = await prisma.user.count({
+    where: { role: UserRole.ADMIN, adminRole: AdminRole.SUPER_ADMIN },
+  });
+  if (
+    wouldRemoveLastSuperAdmin({
+      currentRole: member.adminRole,
+      nextRole: adminRole,
+      superAdminCount,
+    })
+  ) {
+    throw new AppError("The team needs at least one super admin", 409);
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { adminRole },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      adminRole: true,
+    },
+  });
+
+  return { member: updated, previousRole: member.adminRole };
+};
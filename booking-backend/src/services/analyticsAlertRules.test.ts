@@ -0,0 +1,152 @@
+import {
+  AnalyticsAlertSeverity,
+  AnalyticsAlertType,
+  BookingStatus,
+} from "@prisma/client";
+import {
+  computeCancellationRate,
+  computeOccupancyRate,
+  computeRatingDrop,
+  countUnansweredInquiries,
+  evaluateAlertRule,
+  resolveAlertRuleSettings,
+} from "./analyticsAlertRules";
+
+describe("analyticsAlertRules", () => {
+  const today = new Date("2026-04-01T00:00:00.000Z");
+
+  it("computes occupancy over open nights only", () => {
+    const bookings = [
+      {
+        checkInDate: new Date("2026-04-01T00:00:00.000Z"),
+        checkOutDate: new Date("2026-04-03T00:00:00.000Z"),
+      },
+    ];
+
+    expect(computeOccupancyRate(bookings, [], today, 4)).toBe(50);
+    expect(
+      computeOccupancyRate(bookings, ["2026-04-03", "2026-04-04"], today, 4)
+    ).toBe(100);
+    expect(
+      computeOccupancyRate([], ["2026-04-01", "2026-04-02"], today, 2)
+    ).toBeNull();
+  });
+
+  it("needs enough reviews before reporting a rating drop", () => {
+    expect(computeRatingDrop([3], [5, 5, 5])).toBeNull();
+    expect(computeRatingDrop([3, 4], [5, 5])).toBeNull();
+    expect(computeRatingDrop([3, 4], [5, 5, 5])).toBe(1.5);
+    expect(computeRatingDrop([5, 5], [4, 4, 4])).toBe(0);
+  });
+
+  it("ignores unpaid bookings in the cancellation rate", () => {
+    expect(
+      computeCancellationRate([
+        BookingStatus.CANCELLED,
+        BookingStatus.EXPIRED,
+        BookingStatus.PENDING,
+        BookingStatus.ACTIVE,
+      ])
+    ).toBeNull();
+    expect(
+      computeCancellationRate([
+        BookingStatus.CANCELLED,
+        BookingStatus.ACTIVE,
+        BookingStatus.COMPLETED,
+        BookingStatus.EXPIRED,
+      ])
+    ).toBeCloseTo(33.33, 1);
+  });
+
+  it("counts guests still waiting on a reply past the cutoff", () => {
+    const realtor = "realtor-user";
+    const cutoff = new Date("2026-03-31T00:00:00.000Z");
+    const messages = [
+      // Answered
+      {
+        senderId: "guest-a",
+        recipientId: realtor,
+        createdAt: new Date("2026-03-29T08:00:00.000Z"),
+      },
+      {
+        senderId: realtor,
+        recipientId: "guest-a",
+        createdAt: new Date("2026-03-29T09:00:00.000Z"),
+      },
+      // Follow-up after the reply is unanswered
+      {
+        senderId: "guest-b",
+        recipientId: realtor,
+        createdAt: new Date("2026-03-28T08:00:00.000Z"),
+      },
+      {
+        senderId: realtor,
+        recipientId: "guest-b",
+        createdAt: new Date("2026-03-28T09:00:00.000Z"),
+      },
+      {
+        senderId: "guest-b",
+        recipientId: realtor,
+        createdAt: new Date("2026-03-30T08:00:00.000Z"),
+      },
+      // Too recent to count yet
+      {
+        senderId: "guest-c",
+        recipientId: realtor,
+        createdAt: new Date("2026-03-31T12:00:00.000Z"),
+      },
+    ];
+
+    expect(countUnansweredInquiries(messages, realtor, cutoff)).toBe(1);
+  });
+
+  it("marks breaches twice past the threshold as critical", () => {
+    expect(evaluateAlertRule(AnalyticsAlertType.LOW_OCCUPANCY, 40, 45)).toEqual(
+      { breached: false }
+    );
+    expect(evaluateAlertRule(AnalyticsAlertType.LOW_OCCUPANCY, 40, 30)).toEqual(
+      { breached: true, severity: AnalyticsAlertSeverity.WARNING }
+    );
+    expect(evaluateAlertRule(AnalyticsAlertType.LOW_OCCUPANCY, 40, 10)).toEqual(
+      { breached: true, severity: AnalyticsAlertSeverity.CRITICAL }
+    );
+    expect(
+      evaluateAlertRule(AnalyticsAlertType.UNANSWERED_INQUIRIES, 1, 1)
+    ).toEqual({ breached: true, severity: AnalyticsAlertSeverity.WARNING });
+    expect(
+      evaluateAlertRule(AnalyticsAlertType.CANCELLATION_SPIKE, 25, null)
+    ).toEqual({ breached: false });
+  });
+
+  it("validates rule settings against the type's ranges", () => {
+    expect(
+      resolveAlertRuleSettings(AnalyticsAlertType.LOW_OCCUPANCY, {})
+    ).toEqual({
+      settings: { threshold: 40, windowDays: 14 },
+      error: null,
+    });
+    expect(
+      resolveAlertRuleSettings(
+        AnalyticsAlertType.RATING_DROP,
+        { threshold: "1" },
+        { threshold: 0.5, windowDays: 60 }
+      )
+    ).toEqual({
+      settings: { threshold: 1, windowDays: 60 },
+      error: null,
+    });
+    expect(
+      resolveAlertRuleSettings(AnalyticsAlertType.LOW_OCCUPANCY, {
+        threshold: 120,
+      })
+    ).toEqual({
+      settings: null,
+      error: "Low occupancy threshold must be between 1 and 100",
+    });
+    expect(
+      resolveAlertRuleSettings(AnalyticsAlertType.UNANSWERED_INQUIRIES, {
+        windowDays: 1.5,
+      })
+    ).toMatchObject({ settings: null });
+  });
+});
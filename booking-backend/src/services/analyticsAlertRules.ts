@@ -0,0 +1,294 @@
+import {
+  AnalyticsAlertSeverity,
+  AnalyticsAlertType,
+  BookingStatus,
+} from "@prisma/client";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AlertRuleSettings {
+  threshold: number;
+  windowDays: number;
+}
+
+interface AlertRuleDefinition {
+  label: string;
+  // "below" breaches when the metric drops under the threshold, "above" when
+  // it reaches it
+  direction: "below" | "above";
+  defaults: AlertRuleSettings;
+  thresholdRange: [number, number];
+  windowRange: [number, number];
+}
+
+/**
+ * What each rule measures:
+ * - LOW_OCCUPANCY: % of open nights booked over the next `windowDays`
+ * - RATING_DROP: stars the average of reviews from the last `windowDays`
+ *   sits below the average of all earlier reviews
+ * - CANCELLATION_SPIKE: % of paid bookings made in the last `windowDays`
+ *   that were cancelled
+ * - UNANSWERED_INQUIRIES: guests whose inquiry has waited longer than
+ *   `windowDays` for a reply
+ */
+export const ANALYTICS_ALERT_RULES: Record<
+  AnalyticsAlertType,
+  AlertRuleDefinition
+> = {
+  [AnalyticsAlertType.LOW_OCCUPANCY]: {
+    label: "Low occupancy",
+    direction: "below",
+    defaults: { threshold: 40, windowDays: 14 },
+    thresholdRange: [1, 100],
+    windowRange: [1, 90],
+  },
+  [AnalyticsAlertType.RATING_DROP]: {
+    label: "Rating drop",
+    direction: "above",
+    defaults: { threshold: 0.5, windowDays: 30 },
+    thresholdRange: [0.1, 4],
+    windowRange: [7, 365],
+  },
+  [AnalyticsAlertType.CANCELLATION_SPIKE]: {
+    label: "Cancellation spike",
+    direction: "above",
+    defaults: { threshold: 25, windowDays: 30 },
+    thresholdRange: [1, 100],
+    windowRange: [7, 365],
+  },
+  [AnalyticsAlertType.UNANSWERED_INQUIRIES]: {
+    label: "Unanswered inquiries",
+    direction: "above",
+    defaults: { threshold: 1, windowDays: 1 },
+    thresholdRange: [1, 50],
+    windowRange: [1, 14],
+  },
+};
+
+// Below these sample sizes a single booking or review swings the metric
+export const RATING_DROP_MIN_RECENT_REVIEWS = 2;
+export const RATING_DROP_MIN_PRIOR_REVIEWS = 3;
+export const CANCELLATION_SPIKE_MIN_BOOKINGS = 3;
+
+// Paid bookings; PENDING and EXPIRED ones never reached the realtor
+const CANCELLATION_BASE_STATUSES: BookingStatus[] = [
+  BookingStatus.ACTIVE,
+  BookingStatus.DISPUTED,
+  BookingStatus.COMPLETED,
+  BookingStatus.CANCELLED,
+];
+
+export interface AlertRuleSettingsResult {
+  settings: AlertRuleSettings | null;
+  error: string | null;
+}
+
+/**
+ * Validates realtor input against the type's ranges. Missing fields fall
+ * back to `current`, or the type's defaults for a new rule.
+ */
+export const resolveAlertRuleSettings = (
+  type: AnalyticsAlertType,
+  body: { threshold?: unknown; windowDays?: unknown },
+  current?: AlertRuleSettings,
+): AlertRuleSettingsResult => {
+  const definition = ANALYTICS_ALERT_RULES[type];
+  const base = current ?? definition.defaults;
+
+  const threshold =
+    body.threshold === undefined ? base.threshold : Number(body.threshold);
+  const [minThreshold, maxThreshold] = definition.thresholdRange;
+  if (
+    !Number.isFinite(threshold) ||
+    threshold < minThreshold ||
+    threshold > maxThreshold
+  ) {
+    return {
+      settings: null,
+      error: `${definition.label} threshold must be between ${minThreshold} and ${maxThreshold}`,
+    };
+  }
+
+  const windowDays =
+    body.windowDays === undefined ? base.windowDays : Number(body.windowDays);
+  const [minWindow, maxWindow] = definition.windowRange;
+  if (
+    !Number.isInteger(windowDays) ||
+    windowDays < minWindow ||
+    windowDays > maxWindow
+  ) {
+    return {
+      settings: null,
+      error: `${definition.label} window must be a whole number of days between ${minWindow} and ${maxWindow}`,
+    };
+  }
+
+  return { settings: { threshold, windowDays }, error: null };
+};
+
+/**
+ * Percentage of nights in [from, from + days) covered by a booking. Nights
+ * the realtor blocked are not for sale and are left out of the total.
+ * Returns null when every night is blocked.
+ */
+export const computeOccupancyRate = (
+  bookings: Array<{ checkInDate: Date; checkOutDate: Date }>,
+  blockedNights: string[],
+  from: Date,
+  days: number,
+): number | null => {
+  const blocked = new Set(blockedNights);
+  let open = 0;
+  let booked = 0;
+
+  for (let index = 0; index < days; index += 1) {
+    const night = new Date(from.getTime() + index * DAY_MS);
+    const key = night.toISOString().split("T")[0];
+    if (blocked.has(key)) {
+      continue;
+    }
+
+    open += 1;
+    if (
+      bookings.some(
+        (booking) =>
+          booking.checkInDate.getTime() <= night.getTime() &&
+          booking.checkOutDate.getTime() > night.getTime(),
+      )
+    ) {
+      booked += 1;
+    }
+  }
+
+  return open === 0 ? null : (booked / open) * 100;
+};
+
+export const computeRatingDrop = (
+  recentRatings: number[],
+  priorRatings: number[],
+): number | null => {
+  if (
+    recentRatings.length < RATING_DROP_MIN_RECENT_REVIEWS ||
+    priorRatings.length < RATING_DROP_MIN_PRIOR_REVIEWS
+  ) {
+    return null;
+  }
+
+  const average = (ratings: number[]) =>
+    ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+
+  return Math.max(average(priorRatings) - average(recentRatings), 0);
+};
+
+export const computeCancellationRate = (
+  statuses: BookingStatus[],
+): number | null => {
+  const paid = statuses.filter((status) =>
+    CANCELLATION_BASE_STATUSES.includes(status),
+  );
+  if (paid.length < CANCELLATION_SPIKE_MIN_BOOKINGS) {
+    return null;
+  }
+
+  const cancelled = paid.filter(
+    (status) => status === BookingStatus.CANCELLED,
+  ).length;
+  return (cancelled / paid.length) * 100;
+};
+
+/**
+ * Guests whose latest inquiry message came after the realtor's latest reply
+ * to them and is older than `cutoff`.
+ */
+export const countUnansweredInquiries = (
+  messages: Array<{ senderId: string; recipientId: string; createdAt: Date }>,
+  realtorUserId: string,
+  cutoff: Date,
+): number => {
+  const threads = new Map<string, { asked?: Date; replied?: Date }>();
+
+  for (const message of messages) {
+    const fromRealtor = message.senderId === realtorUserId;
+    const guestId = fromRealtor ? message.recipientId : message.senderId;
+    const thread = threads.get(guestId) ?? {};
+    const key = fromRealtor ? "replied" : "asked";
+
+    if (!thread[key] || thread[key]! < message.createdAt) {
+      thread[key] = message.createdAt;
+    }
+    threads.set(guestId, thread);
+  }
+
+  let unanswered = 0;
+  threads.forEach(({ asked, replied }) => {
+    if (asked && asked <= cutoff && (!replied || replied < asked)) {
+      unanswered += 1;
+    }
+  });
+  return unanswered;
+};
+
+export type AlertEvaluation =
+  { breached: false } | { breached: true; severity: AnalyticsAlertSeverity };
+
+/**
+ * A breach twice as far past the threshold is critical. A null value means
+ * there was not enough data to judge, which never breaches.
+ */
+export const evaluateAlertRule = (
+  type: AnalyticsAlertType,
+  threshold: number,
+  value: number | null,
+): AlertEvaluation => {
+  if (value === null) {
+    return { breached: false };
+  }
+
+  if (ANALYTICS_ALERT_RULES[type].direction === "below") {
+    if (value >= threshold) {
+      return { breached: false };
+    }
+    return {
+      breached: true,
+      severity:
+        value < threshold / 2
+          ? AnalyticsAlertSeverity.CRITICAL
+          : AnalyticsAlertSeverity.WARNING,
+    };
+  }
+
+  if (value < threshold) {
+    return { breached: false };
+  }
+  return {
+    breached: true,
+    severity:
+      value >= threshold * 2
+        ? AnalyticsAlertSeverity.CRITICAL
+        : AnalyticsAlertSeverity.WARNING,
+  };
+};
+
+const pluralize = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export const formatAlertMessage = (
+  type: AnalyticsAlertType,
+  value: number,
+  settings: AlertRuleSettings,
+): string => {
+  const window = pluralize(settings.windowDays, "day");
+
+  switch (type) {
+    case AnalyticsAlertType.LOW_OCCUPANCY:
+      return `Only ${value.toFixed(0)}% of open nights in the next ${window} are booked (alert below ${settings.threshold}%).`;
+    case AnalyticsAlertType.RATING_DROP:
+      return `Reviews from the last ${window} average ${value.toFixed(1)} stars below earlier reviews.`;
+    case AnalyticsAlertType.CANCELLATION_SPIKE:
+      return `${value.toFixed(0)}% of bookings made in the last ${window} were cancelled (alert at ${settings.threshold}%).`;
+    case AnalyticsAlertType.UNANSWERED_INQUIRIES:
+      return `${
+        value === 1 ? "1 guest inquiry has" : `${value} guest inquiries have`
+      } waited more than ${window} for a reply.`;
+  }
+};
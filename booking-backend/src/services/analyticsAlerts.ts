@@ -0,0 +1,488 @@
+import {
+  AnalyticsAlertRule,
+  AnalyticsAlertSeverity,
+  AnalyticsAlertStatus,
+  AnalyticsAlertType,
+  BookingStatus,
+  MessageType,
+  PropertyStatus,
+  Prisma,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import {
+  ANALYTICS_ALERT_RULES,
+  computeCancellationRate,
+  computeOccupancyRate,
+  computeRatingDrop,
+  countUnansweredInquiries,
+  evaluateAlertRule,
+  formatAlertMessage,
+  resolveAlertRuleSettings,
+} from "@/services/analyticsAlertRules";
+import {
+  buildBlockOverlapFilter,
+  expandBlockedNights,
+} from "@/services/availabilityBlocks";
+import {
+  notificationHelpers,
+  NotificationService,
+} from "@/services/notificationService";
+import { REVEALED_REVIEW_FILTER } from "@/services/reviewWindow";
+import { logger } from "@/utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bookings that hold their nights for occupancy purposes
+const OCCUPYING_BOOKING_STATUSES: BookingStatus[] = [
+  BookingStatus.ACTIVE,
+  BookingStatus.DISPUTED,
+  BookingStatus.COMPLETED,
+];
+
+// Inquiries older than this are not worth alerting about
+const INQUIRY_LOOKBACK_DAYS = 30;
+
+export interface AnalyticsAlertFilters {
+  propertyId?: string;
+  status?: AnalyticsAlertStatus;
+  includeMuted: boolean;
+  unreadOnly: boolean;
+  page: number;
+  limit: number;
+}
+
+const ALERT_INCLUDE = {
+  property: { select: { id: true, title: true } },
+} satisfies Prisma.AnalyticsAlertInclude;
+
+type RuleWithProperty = AnalyticsAlertRule & {
+  property: { id: string; title: string; realtor: { userId: string } };
+};
+
+const startOfUtcDay = (date: Date) =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+export const parseAnalyticsAlertType = (value: unknown): AnalyticsAlertType => {
+  const key =
+    typeof value === "string"
+      ? value.trim().toUpperCase().replace(/-/g, "_")
+      : "";
+  if (!Object.values(AnalyticsAlertType).includes(key as AnalyticsAlertType)) {
+    throw new AppError(
+      `Alert type must be one of: ${Object.values(AnalyticsAlertType).join(", ")}`,
+      400,
+    );
+  }
+  return key as AnalyticsAlertType;
+};
+
+const loadOwnedProperty = async (propertyId: string, realtorId: string) => {
+  const property = await prisma.property.findFirst({
+    where: { id: propertyId, realtorId },
+    select: { id: true, title: true },
+  });
+
+  if (!property) {
+    throw new AppError("Property not found", 404);
+  }
+
+  return property;
+};
+
+/**
+ * Every rule type for the property. Types the realtor never configured are
+ * returned disabled with their default settings.
+ */
+export const listAlertRules = async (propertyId: string, realtorId: string) => {
+  await loadOwnedProperty(propertyId, realtorId);
+
+  const rules = await prisma.analyticsAlertRule.findMany({
+    where: { propertyId },
+  });
+
+  return Object.values(AnalyticsAlertType).map((type) => {
+    const rule = rules.find((candidate) => candidate.type === type);
+    const definition = ANALYTICS_ALERT_RULES[type];
+
+    return {
+      id: rule?.id ?? null,
+      propertyId,
+      type,
+      label: definition.label,
+      direction: definition.direction,
+      threshold: rule?.threshold ?? definition.defaults.threshold,
+      windowDays: rule?.windowDays ?? definition.defaults.windowDays,
+      isEnabled: rule?.isEnabled ?? false,
+      thresholdRange: definition.thresholdRange,
+      windowRange: definition.windowRange,
+    };
+  });
+};
+
+export const saveAlertRule = async (
+  propertyId: string,
+  realtorId: string,
+  type: AnalyticsAlertType,
+  body: { threshold?: unknown; windowDays?: unknown; isEnabled?: unknown },
+) => {
+  await loadOwnedProperty(propertyId, realtorId);
+
+  if (body.isEnabled !== undefined && typeof body.isEnabled !== "boolean") {
+    throw new AppError("isEnabled must be a boolean", 400);
+  }
+
+  const existing = await prisma.analyticsAlertRule.findUnique({
+    where: { propertyId_type: { propertyId, type } },
+  });
+  const { settings, error } = resolveAlertRuleSettings(
+    type,
+    body,
+    existing ?? undefined,
+  );
+  if (error) {
+    throw new AppError(error, 400);
+  }
+  const isEnabled =
+    typeof body.isEnabled === "boolean"
+      ? body.isEnabled
+      : (existing?.isEnabled ?? true);
+
+  const rule = await prisma.analyticsAlertRule.upsert({
+    where: { propertyId_type: { propertyId, type } },
+    create: { propertyId, type, ...settings, isEnabled },
+    update: { ...settings, isEnabled },
+  });
+
+  // A switched-off rule should not leave an alert hanging
+  if (!rule.isEnabled) {
+    await prisma.analyticsAlert.updateMany({
+      where: { ruleId: rule.id, status: AnalyticsAlertStatus.ACTIVE },
+      data: { status: AnalyticsAlertStatus.RESOLVED, resolvedAt: new Date() },
+    });
+  }
+
+  return rule;
+};
+
+const measureOccupancy = async (rule: RuleWithProperty, now: Date) => {
+  const from = startOfUtcDay(now);
+  const to = new Date(from.getTime() + rule.windowDays * DAY_MS);
+
+  const [bookings, blocks] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        propertyId: rule.propertyId,
+        status: { in: OCCUPYING_BOOKING_STATUSES },
+        checkInDate: { lt: to },
+        checkOutDate: { gt: from },
+      },
+      select: { checkInDate: true, checkOutDate: true },
+    }),
+    prisma.propertyAvailabilityBlock.findMany({
+      where: {
+        propertyId: rule.propertyId,
+        ...buildBlockOverlapFilter(from, to),
+      },
+      select: { startDate: true, endDate: true },
+    }),
+  ]);
+
+  return computeOccupancyRate(
+    bookings,
+    expandBlockedNights(blocks, from, to),
+    from,
+    rule.windowDays,
+  );
+};
+
+const measureRatingDrop = async (rule: RuleWithProperty, now: Date) => {
+  const since = new Date(now.getTime() - rule.windowDays * DAY_MS);
+  const reviews = await prisma.review.findMany({
+    where: {
+      ...REVEALED_REVIEW_FILTER,
+      propertyId: rule.propertyId,
+      isVisible: true,
+    },
+    select: { rating: true, revealedAt: true },
+  });
+
+  const recent = reviews.filter((review) => review.revealedAt! >= since);
+  const prior = reviews.filter((review) => review.revealedAt! < since);
+
+  return computeRatingDrop(
+    recent.map((review) => review.rating),
+    prior.map((review) => review.rating),
+  );
+};
+
+const measureCancellations = async (rule: RuleWithProperty, now: Date) => {
+  const bookings = await prisma.booking.findMany({
+    where: {
+      propertyId: rule.propertyId,
+      createdAt: { gte: new Date(now.getTime() - rule.windowDays * DAY_MS) },
+    },
+    select: { status: true },
+  });
+
+  return computeCancellationRate(bookings.map((booking) => booking.status));
+};
+
+const measureUnansweredInquiries = async (
+  rule: RuleWithProperty,
+  now: Date,
+) => {
+  const realtorUserId = rule.property.realtor.userId;
+  const messages = await prisma.message.findMany({
+    where: {
+      propertyId: rule.propertyId,
+      type: MessageType.INQUIRY,
+      bookingId: null,
+      createdAt: {
+        gte: new Date(now.getTime() - INQUIRY_LOOKBACK_DAYS * DAY_MS),
+      },
+      OR: [{ senderId: realtorUserId }, { recipientId: realtorUserId }],
+    },
+    select: { senderId: true, recipientId: true, createdAt: true },
+  });
+
+  return countUnansweredInquiries(
+    messages,
+    realtorUserId,
+    new Date(now.getTime() - rule.windowDays * DAY_MS),
+  );
+};
+
+const measureRule = (rule: RuleWithProperty, now: Date) => {
+  switch (rule.type) {
+    case AnalyticsAlertType.LOW_OCCUPANCY:
+      return measureOccupancy(rule, now);
+    case AnalyticsAlertType.RATING_DROP:
+      return measureRatingDrop(rule, now);
+    case AnalyticsAlertType.CANCELLATION_SPIKE:
+      return measureCancellations(rule, now);
+    case AnalyticsAlertType.UNANSWERED_INQUIRIES:
+      return measureUnansweredInquiries(rule, now);
+  }
+};
+
+const notifyRealtor = async (
+  rule: RuleWithProperty,
+  alert: {
+    id: string;
+    propertyId: string;
+    type: AnalyticsAlertType;
+    severity: AnalyticsAlertSeverity;
+    message: string;
+  },
+) => {
+  try {
+    await NotificationService.getInstance().createAndSendNotification(
+      notificationHelpers.analyticsAlert(
+        rule.property.realtor.userId,
+        alert,
+        ANALYTICS_ALERT_RULES[rule.type].label,
+        rule.property.title,
+      ),
+    );
+  } catch (error) {
+    logger.error("Failed to send analytics alert notification:", error);
+  }
+};
+
+/**
+ * Evaluate every enabled rule on active properties. A new breach opens an
+ * alert and notifies the realtor; a breach that turns critical notifies
+ * again unless the alert was muted; a recovered metric resolves the alert.
+ */
+export const evaluateAnalyticsAlerts = async (now: Date = new Date()) => {
+  const rules = await prisma.analyticsAlertRule.findMany({
+    where: {
+      isEnabled: true,
+      property: { status: PropertyStatus.ACTIVE, isActive: true },
+    },
+    include: {
+      property: {
+        select: {
+          id: true,
+          title: true,
+          realtor: { select: { userId: true } },
+        },
+      },
+      alerts: { where: { status: AnalyticsAlertStatus.ACTIVE }, take: 1 },
+    },
+  });
+
+  let triggered = 0;
+  let escalated = 0;
+  let resolved = 0;
+
+  for (const rule of rules) {
+    try {
+      const value = await measureRule(rule, now);
+      const evaluation = evaluateAlertRule(rule.type, rule.threshold, value);
+      const active = rule.alerts[0];
+
+      if (!evaluation.breached) {
+        if (active) {
+          await prisma.analyticsAlert.update({
+            where: { id: active.id },
+            data: {
+              status: AnalyticsAlertStatus.RESOLVED,
+              resolvedAt: now,
+              lastEvaluatedAt: now,
+            },
+          });
+          resolved += 1;
+        }
+        continue;
+      }
+
+      const message = formatAlertMessage(rule.type, value!, rule);
+
+      if (!active) {
+        const alert = await prisma.analyticsAlert.create({
+          data: {
+            ruleId: rule.id,
+            propertyId: rule.propertyId,
+            type: rule.type,
+            severity: evaluation.severity,
+            value: value!,
+            threshold: rule.threshold,
+            message,
+            triggeredAt: now,
+            lastEvaluatedAt: now,
+          },
+        });
+        triggered += 1;
+        await notifyRealtor(rule, alert);
+        continue;
+      }
+
+      const isEscalation =
+        active.severity === AnalyticsAlertSeverity.WARNING &&
+        evaluation.severity === AnalyticsAlertSeverity.CRITICAL;
+
+      const alert = await prisma.analyticsAlert.update({
+        where: { id: active.id },
+        data: {
+          severity: evaluation.severity,
+          value: value!,
+          threshold: rule.threshold,
+          message,
+          lastEvaluatedAt: now,
+          // An escalation is news, even if the warning was already read
+          ...(isEscalation && { readAt: null }),
+        },
+      });
+
+      if (isEscalation) {
+        escalated += 1;
+        if (!alert.mutedAt) {
+          await notifyRealtor(rule, alert);
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to evaluate analytics alert rule ${rule.id}:`,
+        error,
+      );
+    }
+  }
+
+  return { evaluated: rules.length, triggered, escalated, resolved };
+};
+
+export const listAnalyticsAlerts = async (
+  realtorId: string,
+  filters: AnalyticsAlertFilters,
+) => {
+  const owned: Prisma.AnalyticsAlertWhereInput = {
+    property: { realtorId },
+    ...(filters.propertyId && { propertyId: filters.propertyId }),
+  };
+  const where: Prisma.AnalyticsAlertWhereInput = {
+    ...owned,
+    ...(filters.status && { status: filters.status }),
+    ...(!filters.includeMuted && { mutedAt: null }),
+    ...(filters.unreadOnly && { readAt: null }),
+  };
+
+  const [alerts, total, unread] = await Promise.all([
+    prisma.analyticsAlert.findMany({
+      where,
+      include: ALERT_INCLUDE,
+      orderBy: [{ status: "asc" }, { triggeredAt: "desc" }],
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.analyticsAlert.count({ where }),
+    prisma.analyticsAlert.count({
+      where: {
+        ...owned,
+        status: AnalyticsAlertStatus.ACTIVE,
+        mutedAt: null,
+        readAt: null,
+      },
+    }),
+  ]);
+
+  return { alerts, total, unread };
+};
+
+const getOwnedAlert = async (alertId: string, realtorId: string) => {
+  const alert = await prisma.analyticsAlert.findFirst({
+    where: { id: alertId, property: { realtorId } },
+  });
+
+  if (!alert) {
+    throw new AppError("Alert not found", 404);
+  }
+
+  return alert;
+};
+
+export const markAnalyticsAlertRead = async (
+  alertId: string,
+  realtorId: string,
+) => {
+  const alert = await getOwnedAlert(alertId, realtorId);
+
+  return prisma.analyticsAlert.update({
+    where: { id: alert.id },
+    data: { readAt: alert.readAt ?? new Date() },
+    include: ALERT_INCLUDE,
+  });
+};
+
+export const markAllAnalyticsAlertsRead = async (
+  realtorId: string,
+  propertyId?: string,
+) => {
+  const { count } = await prisma.analyticsAlert.updateMany({
+    where: {
+      property: { realtorId },
+      ...(propertyId && { propertyId }),
+      readAt: null,
+    },
+    data: { readAt: new Date() },
+  });
+
+  return count;
+};
+
+export const setAnalyticsAlertMuted = async (
+  alertId: string,
+  realtorId: string,
+  muted: boolean,
+) => {
+  const alert = await getOwnedAlert(alertId, realtorId);
+
+  return prisma.analyticsAlert.update({
+    where: { id: alert.id },
+    data: { mutedAt: muted ? (alert.mutedAt ?? new Date()) : null },
+    include: ALERT_INCLUDE,
+  });
+};
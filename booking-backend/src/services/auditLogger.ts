@@ -1,29 +1,78 @@
 import { prisma } from "@/config/database";
 import { Request } from "express";
+import { AuthenticatedRequest } from "@/types";
 
 export type AuditAction =
   | "USER_REGISTER"
   | "USER_LOGIN"
   | "USER_LOGOUT"
   | "TOKEN_REFRESH"
+  | "SESSION_REVOKE"
+  | "SESSION_REVOKE_ALL"
+  | "SESSION_TOKEN_REUSE"
+  | "TWO_FACTOR_ENABLE"
+  | "TWO_FACTOR_DISABLE"
+  | "TWO_FACTOR_RECOVERY_CODES_REGENERATE"
+  | "TWO_FACTOR_RECOVERY_CODE_USED"
+  | "TWO_FACTOR_FAILED"
   | "BOOKING_CREATE"
   | "BOOKING_CANCEL"
   | "BOOKING_STATUS_UPDATE"
+  | "BOOKING_MODIFICATION_REQUEST"
+  | "BOOKING_MODIFICATION_APPROVE"
+  | "BOOKING_MODIFICATION_DECLINE"
   | "PAYMENT_INTENT_CREATED"
   | "PAYMENT_INITIALIZED"
   | "PAYMENT_COMPLETED"
   | "PAYMENT_FAILED"
   | "REFUND_PROCESSED"
   | "PAYOUT_PROCESSED"
+  | "PAYOUT_SCHEDULE_UPDATE"
+  | "PAYOUT_SCHEDULE_DISABLE"
+  | "PAYOUT_ACCOUNT_CHANGE"
+  | "PAYOUT_FREEZE"
+  | "PAYOUT_FREEZE_LIFT"
+  | "WITHDRAWAL_HOLD_RELEASE"
   | "REALTOR_APPROVED"
   | "REALTOR_REJECTED"
   | "REALTOR_SUSPENDED"
   | "PROPERTY_APPROVED"
   | "PROPERTY_REJECTED"
+  | "PROPERTY_PRICING_UPDATE"
+  | "PROPERTY_CANCELLATION_POLICY_UPDATE"
+  | "CUSTOM_DOMAIN_ADD"
+  | "CUSTOM_DOMAIN_VERIFY"
+  | "CUSTOM_DOMAIN_REMOVE"
+  | "AVAILABILITY_BLOCK_CREATE"
+  | "AVAILABILITY_BLOCK_UPDATE"
+  | "AVAILABILITY_BLOCK_DELETE"
+  | "CALENDAR_SOURCE_CREATE"
+  | "CALENDAR_SOURCE_UPDATE"
+  | "CALENDAR_SOURCE_DELETE"
+  | "CALENDAR_FEED_ROTATE"
+  | "SUPPORT_TICKET_ASSIGN"
+  | "SUPPORT_TICKET_STATUS_UPDATE"
+  | "SUPPORT_TICKET_UPDATE"
+  | "REVIEW_VISIBILITY_UPDATE"
+  | "REVIEW_REPORT_UPHOLD"
+  | "REVIEW_REPORT_DISMISS"
+  | "RECONCILIATION_RUN"
+  | "RECONCILIATION_REMEDIATE"
+  | "RECONCILIATION_DISMISS"
   | "CAC_APPROVED"
   | "CAC_REJECTED"
   | "ADMIN_LOGIN"
   | "ADMIN_ACTION"
+  | "ADMIN_INVITE_CREATE"
+  | "ADMIN_INVITE_REVOKE"
+  | "ADMIN_INVITE_ACCEPT"
+  | "ADMIN_ROLE_UPDATE"
+  | "PERMISSION_DENIED"
+  | "REALTOR_TEAM_INVITE_CREATE"
+  | "REALTOR_TEAM_INVITE_REVOKE"
+  | "REALTOR_TEAM_INVITE_ACCEPT"
+  | "REALTOR_TEAM_ROLE_UPDATE"
+  | "REALTOR_TEAM_MEMBER_REMOVE"
   | "SETTINGS_UPDATE"
   | "SYSTEM_ERROR";
 
@@ -31,11 +80,22 @@ export type AuditEntity =
   | "USER"
   | "BOOKING"
   | "PAYMENT"
+  | "PAYOUT_ACCOUNT"
+  | "PAYOUT_SCHEDULE"
+  | "WITHDRAWAL"
   | "REALTOR"
   | "PROPERTY"
   | "CAC_VERIFICATION"
+  | "CUSTOM_DOMAIN"
   | "ADMIN"
-  | "SETTINGS";
+  | "ADMIN_INVITE"
+  | "PERMISSION"
+  | "REALTOR_TEAM_INVITE"
+  | "REALTOR_TEAM_MEMBER"
+  | "SETTINGS"
+  | "SUPPORT_TICKET"
+  | "REVIEW"
+  | "RECONCILIATION";
 
 interface LogOptions {
   entityId?: string;
@@ -60,9 +120,35 @@ function extractUA(req?: Request): string | undefined {
   return (req.headers["user-agent"] as string) || undefined;
 }
 
+/**
+ * Realtor team members act under their own user id; record which realtor
+ * account and team role they were acting with.
+ */
+async function realtorTeamContext(opts: LogOptions) {
+  const req = opts.req as AuthenticatedRequest | undefined;
+  if (req?.realtorAccess) {
+    const { realtorId, memberId, teamRole } = req.realtorAccess;
+    return memberId ? { realtorId, memberId, teamRole } : null;
+  }
+  if (!opts.userId || req?.user?.role !== "REALTOR") return null;
+
+  const member = await prisma.realtorTeamMember.findUnique({
+    where: { userId: opts.userId },
+    select: { id: true, realtorId: true, role: true },
+  });
+  return member
+    ? {
+        realtorId: member.realtorId,
+        memberId: member.id,
+        teamRole: member.role,
+      }
+    : null;
+}
+
 export const auditLogger = {
   async log(action: AuditAction, entity: AuditEntity, opts: LogOptions = {}) {
     try {
+      const realtorTeam = await realtorTeamContext(opts);
       // Create audit log entry in database
       await prisma.auditLog.create({
         data: {
@@ -73,7 +159,9 @@ export const auditLogger = {
           adminId: opts.adminId,
           ipAddress: opts.ipAddressOverride || extractIp(opts.req),
           userAgent: opts.userAgentOverride || extractUA(opts.req),
-          details: opts.details,
+          details: realtorTeam
+            ? { ...opts.details, realtorTeam }
+            : opts.details,
         },
       });
 
@@ -0,0 +1,106 @@
+import {
+  buildSessionRevocation,
+  checkRefreshToken,
+  hashToken,
+  isSessionUsable,
+  REFRESH_REUSE_GRACE_MS,
+} from "./authSessionRules";
+
+const now = new Date("2026-04-01T12:00:00Z");
+
+const session = (overrides = {}) => ({
+  userId: "user-1",
+  refreshTokenHash: hashToken("token-2"),
+  previousTokenHash: hashToken("token-1") as string | null,
+  rotatedAt: new Date(now.getTime() - 5 * 1000) as Date | null,
+  revokedAt: null as Date | null,
+  expiresAt: new Date("2026-04-08T12:00:00Z"),
+  ...overrides,
+});
+
+describe("authSessionRules", () => {
+  it("accepts the current refresh token", () => {
+    expect(
+      checkRefreshToken(session(), "user-1", hashToken("token-2"), now)
+    ).toBe("current");
+  });
+
+  it("lets the replaced token through only within the grace window", () => {
+    expect(
+      checkRefreshToken(session(), "user-1", hashToken("token-1"), now)
+    ).toBe("grace");
+    expect(
+      checkRefreshToken(
+        session({
+          rotatedAt: new Date(now.getTime() - REFRESH_REUSE_GRACE_MS),
+        }),
+        "user-1",
+        hashToken("token-1"),
+        now
+      )
+    ).toBe("reused");
+  });
+
+  it("flags older tokens as reuse", () => {
+    expect(
+      checkRefreshToken(session(), "user-1", hashToken("token-0"), now)
+    ).toBe("reused");
+    expect(
+      checkRefreshToken(
+        session({ previousTokenHash: null, rotatedAt: null }),
+        "user-1",
+        hashToken("token-1"),
+        now
+      )
+    ).toBe("reused");
+  });
+
+  it("rejects tokens of missing, foreign, expired or revoked sessions", () => {
+    const current = hashToken("token-2");
+
+    expect(checkRefreshToken(null, "user-1", current, now)).toBe("invalid");
+    expect(checkRefreshToken(session(), "user-2", current, now)).toBe(
+      "invalid"
+    );
+    expect(
+      checkRefreshToken(session({ expiresAt: now }), "user-1", current, now)
+    ).toBe("invalid");
+    expect(
+      checkRefreshToken(session({ revokedAt: now }), "user-1", current, now)
+    ).toBe("invalid");
+  });
+
+  it("keeps the requesting device signed in after a password change", () => {
+    const revocation = buildSessionRevocation(
+      "user-1",
+      "PASSWORD_CHANGED",
+      { exceptSessionId: "session-current" },
+      now
+    );
+
+    expect(revocation.where).toEqual({
+      userId: "user-1",
+      revokedAt: null,
+      id: { not: "session-current" },
+    });
+    expect(revocation.data).toEqual({
+      revokedAt: now,
+      revokedReason: "PASSWORD_CHANGED",
+    });
+  });
+
+  it("ends every session of a suspended account", () => {
+    const revocation = buildSessionRevocation(
+      "user-1",
+      "ACCOUNT_SUSPENDED",
+      {},
+      now
+    );
+
+    expect(revocation.where).toEqual({ userId: "user-1", revokedAt: null });
+    expect(isSessionUsable(session(), "user-1", now)).toBe(true);
+    expect(isSessionUsable(session({ revokedAt: now }), "user-1", now)).toBe(
+      false
+    );
+  });
+});
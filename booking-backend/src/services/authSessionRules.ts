@@ -0,0 +1,85 @@
+import { createHash } from "crypto";
+import { Prisma, SessionRevokeReason, UserSession } from "@prisma/client";
+
+// Two tabs refreshing at once both present the same token. The slower one
+// is let through instead of being treated as a stolen token.
+export const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+
+type SessionState = Pick<UserSession, "userId" | "revokedAt" | "expiresAt">;
+
+type RotatableSession = SessionState &
+  Pick<UserSession, "refreshTokenHash" | "previousTokenHash" | "rotatedAt">;
+
+/**
+ * How a presented refresh token relates to its session: the live token, the
+ * one it just replaced (within the grace window), an older copy that must
+ * not work again, or a session that is gone, revoked or expired.
+ */
+export type RefreshTokenCheck = "current" | "grace" | "reused" | "invalid";
+
+export const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * Whether a session still authenticates the user: it belongs to them, was
+ * not revoked and has not expired.
+ */
+export const isSessionUsable = (
+  session: SessionState | null,
+  userId: string,
+  now: Date = new Date(),
+): session is SessionState =>
+  Boolean(
+    session &&
+    session.userId === userId &&
+    !session.revokedAt &&
+    session.expiresAt.getTime() > now.getTime(),
+  );
+
+export const checkRefreshToken = (
+  session: RotatableSession | null,
+  userId: string,
+  presentedHash: string,
+  now: Date = new Date(),
+): RefreshTokenCheck => {
+  if (!isSessionUsable(session, userId, now)) {
+    return "invalid";
+  }
+
+  if (presentedHash === session.refreshTokenHash) {
+    return "current";
+  }
+
+  if (
+    presentedHash === session.previousTokenHash &&
+    session.rotatedAt !== null &&
+    now.getTime() - session.rotatedAt.getTime() < REFRESH_REUSE_GRACE_MS
+  ) {
+    return "grace";
+  }
+
+  return "reused";
+};
+
+/**
+ * The update that ends a user's active sessions, optionally keeping the one
+ * making the request (a password change keeps the device that made it).
+ */
+export const buildSessionRevocation = (
+  userId: string,
+  reason: SessionRevokeReason,
+  options: { exceptSessionId?: string } = {},
+  now: Date = new Date(),
+): {
+  where: Prisma.UserSessionWhereInput;
+  data: Prisma.UserSessionUpdateManyMutationInput;
+} => ({
+  where: {
+    userId,
+    revokedAt: null,
+    ...(options.exceptSessionId
+      ? { id: { not: options.exceptSessionId } }
+      : {}),
+  },
+  data: { revokedAt: now, revokedReason: reason },
+});
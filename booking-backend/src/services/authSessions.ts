@@ -0,0 +1,234 @@
+import { Request } from "express";
+import { randomUUID } from "crypto";
+import * as jwt from "jsonwebtoken";
+import { SessionRevokeReason, UserRole } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import {
+  buildSessionRevocation,
+  checkRefreshToken,
+  hashToken,
+  isSessionUsable,
+} from "@/services/authSessionRules";
+import { auditLogger } from "@/services/auditLogger";
+import { generateTokens, verifyRefreshToken } from "@/utils/auth";
+import { logger } from "@/utils/logger";
+
+interface SessionUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+const getTokenExpiry = (token: string) => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  return new Date((decoded?.exp ?? 0) * 1000);
+};
+
+const describeClient = (req?: Request) => {
+  if (!req) {
+    return { userAgent: null, ipAddress: null };
+  }
+
+  const forwarded = String(req.headers["x-forwarded-for"] || "")
+    .split(",")[0]
+    .trim();
+  const userAgent = req.headers["user-agent"];
+
+  return {
+    userAgent: userAgent ? String(userAgent).slice(0, 512) : null,
+    ipAddress: forwarded || req.ip || null,
+  };
+};
+
+const invalidRefresh = () =>
+  new AppError("Invalid or expired refresh token", 401);
+
+/**
+ * Signs a user in on a new device: creates the session and its first token
+ * pair.
+ */
+export const startSession = async (
+  user: SessionUser,
+  req?: Request,
+): Promise<SessionTokens> => {
+  const sessionId = randomUUID();
+  const { accessToken, refreshToken } = generateTokens(
+    { id: user.id, email: user.email, role: user.role },
+    sessionId,
+  );
+
+  await prisma.userSession.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      expiresAt: getTokenExpiry(refreshToken),
+      ...describeClient(req),
+    },
+  });
+
+  return { accessToken, refreshToken, sessionId };
+};
+
+/**
+ * Exchanges a refresh token for a new pair. The old token stops working; if
+ * it is presented again later the whole session is revoked, since only a
+ * copied token could still be in circulation.
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  req?: Request,
+): Promise<SessionTokens> => {
+  let payload: ReturnType<typeof verifyRefreshToken>;
+  try {
+    payload = verifyRefreshToken(refreshToken);
+  } catch (error) {
+    logger.error("❌ Refresh token verification failed:", error);
+    throw invalidRefresh();
+  }
+
+  // Tokens issued before sessions existed cannot be tracked; sign in again
+  if (!payload.sid) {
+    throw invalidRefresh();
+  }
+
+  const session = await prisma.userSession.findUnique({
+    where: { id: payload.sid },
+    include: {
+      user: { select: { id: true, email: true, role: true } },
+    },
+  });
+
+  const check = checkRefreshToken(session, payload.id, hashToken(refreshToken));
+
+  if (!session || check === "invalid") {
+    throw invalidRefresh();
+  }
+
+  if (check === "reused") {
+    await revokeSession(session.id, SessionRevokeReason.TOKEN_REUSE);
+    logger.warn("Refresh token reuse detected; session revoked", {
+      userId: session.userId,
+      sessionId: session.id,
+    });
+    auditLogger
+      .log("SESSION_TOKEN_REUSE", "USER", {
+        entityId: session.userId,
+        userId: session.userId,
+        details: { sessionId: session.id },
+        req,
+      })
+      .catch(() => {});
+    throw invalidRefresh();
+  }
+
+  // Use the user's current email/role in case they changed since sign-in
+  const tokens = generateTokens(session.user, session.id);
+  const rotated = await prisma.userSession.updateMany({
+    where: {
+      id: session.id,
+      revokedAt: null,
+      refreshTokenHash: session.refreshTokenHash,
+    },
+    data: {
+      refreshTokenHash: hashToken(tokens.refreshToken),
+      previousTokenHash: session.refreshTokenHash,
+      rotatedAt: new Date(),
+      lastUsedAt: new Date(),
+      expiresAt: getTokenExpiry(tokens.refreshToken),
+      ...describeClient(req),
+    },
+  });
+
+  // Another refresh won the race or the session was revoked meanwhile
+  if (rotated.count === 0) {
+    throw invalidRefresh();
+  }
+
+  return { ...tokens, sessionId: session.id };
+};
+
+export const revokeSession = async (
+  sessionId: string,
+  reason: SessionRevokeReason,
+) => {
+  const result = await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return result.count > 0;
+};
+
+/**
+ * Ends every active session of a user, optionally keeping the one making the
+ * request. Returns how many sessions were revoked.
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  reason: SessionRevokeReason,
+  options: { exceptSessionId?: string } = {},
+) => {
+  const result = await prisma.userSession.updateMany(
+    buildSessionRevocation(userId, reason, options),
+  );
+
+  if (result.count > 0) {
+    logger.info("User sessions revoked", {
+      userId,
+      reason,
+      count: result.count,
+    });
+  }
+
+  return result.count;
+};
+
+export const listActiveSessions = async (
+  userId: string,
+  currentSessionId?: string,
+) => {
+  const sessions = await prisma.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: "desc" },
+  });
+
+  return sessions.map((session) => ({
+    ...session,
+    current: session.id === currentSessionId,
+  }));
+};
+
+/**
+ * Whether an access token's session can still be used. Tokens minted before
+ * sessions existed have no session id and are rejected.
+ */
+export const isSessionActive = async (
+  sessionId: string | undefined,
+  userId: string,
+) => {
+  if (!sessionId) {
+    return false;
+  }
+
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true },
+  });
+
+  return isSessionUsable(session, userId);
+};
@@ -0,0 +1,61 @@
+import { AvailabilityBlockReason } from "@prisma/client";
+import {
+  expandBlockedNights,
+  parseAvailabilityBlockInput,
+  parseAvailabilityBlockReason,
+} from "./availabilityBlocks";
+
+describe("availabilityBlocks", () => {
+  it("parses reason keys in any casing or spacing", () => {
+    expect(parseAvailabilityBlockReason("OWNER_STAY")).toBe(
+      AvailabilityBlockReason.OWNER_STAY
+    );
+    expect(parseAvailabilityBlockReason("external booking")).toBe(
+      AvailabilityBlockReason.EXTERNAL_BOOKING
+    );
+    expect(parseAvailabilityBlockReason("Painting the kitchen")).toBeNull();
+  });
+
+  it("keeps legacy free-text reasons as the note", () => {
+    const input = parseAvailabilityBlockInput({
+      startDate: "2026-05-01",
+      endDate: "2026-05-04",
+      reason: "Painting the kitchen",
+    });
+
+    expect(input.reason).toBe(AvailabilityBlockReason.OTHER);
+    expect(input.note).toBe("Painting the kitchen");
+  });
+
+  it("rejects empty or inverted ranges", () => {
+    expect(() =>
+      parseAvailabilityBlockInput({
+        startDate: "2026-05-04",
+        endDate: "2026-05-04",
+        reason: "MAINTENANCE",
+      })
+    ).toThrow("End date must be after start date");
+    expect(() =>
+      parseAvailabilityBlockInput({ startDate: "nope", endDate: "2026-05-04" })
+    ).toThrow("Invalid startDate");
+  });
+
+  it("expands blocks into nights with an exclusive end date", () => {
+    const nights = expandBlockedNights(
+      [
+        {
+          startDate: new Date("2026-05-01T00:00:00Z"),
+          endDate: new Date("2026-05-03T00:00:00Z"),
+        },
+        {
+          startDate: new Date("2026-05-02T00:00:00Z"),
+          endDate: new Date("2026-05-10T00:00:00Z"),
+        },
+      ],
+      new Date("2026-04-30T00:00:00Z"),
+      new Date("2026-05-04T00:00:00Z")
+    );
+
+    expect(nights).toEqual(["2026-05-01", "2026-05-02", "2026-05-03"]);
+  });
+});
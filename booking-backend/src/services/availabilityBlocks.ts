@@ -0,0 +1,312 @@
+import {
+  AvailabilityBlockReason,
+  BookingStatus,
+  Prisma,
+  PropertyAvailabilityBlock,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+
+type AvailabilityDb = Pick<
+  typeof prisma,
+  "booking" | "propertyAvailabilityBlock"
+>;
+
+export const AVAILABILITY_BLOCK_REASONS = Object.values(
+  AvailabilityBlockReason,
+) as AvailabilityBlockReason[];
+
+// Bookings in these states hold the nights they cover.
+export const BLOCKING_BOOKING_STATUSES: BookingStatus[] = [
+  BookingStatus.ACTIVE,
+  BookingStatus.PENDING,
+];
+
+export const MAX_AVAILABILITY_BLOCK_NOTE_LENGTH = 500;
+
+export interface AvailabilityBlockInput {
+  startDate: Date;
+  endDate: Date;
+  reason: AvailabilityBlockReason;
+  note?: string | null;
+}
+
+export interface AvailabilityConflicts {
+  bookings: {
+    id: string;
+    checkInDate: Date;
+    checkOutDate: Date;
+    status: BookingStatus;
+  }[];
+  blocks: PropertyAvailabilityBlock[];
+}
+
+/**
+ * Half-open overlap: a block ending on a check-in day does not collide with
+ * that stay, mirroring how bookings treat their checkOutDate.
+ */
+export const buildBlockOverlapFilter = (
+  start: Date,
+  end: Date,
+): Prisma.PropertyAvailabilityBlockWhereInput => ({
+  startDate: { lt: end },
+  endDate: { gt: start },
+});
+
+export const buildBookingOverlapFilter = (
+  start: Date,
+  end: Date,
+): Prisma.BookingWhereInput => ({
+  status: { in: BLOCKING_BOOKING_STATUSES },
+  checkInDate: { lt: end },
+  checkOutDate: { gt: start },
+});
+
+/**
+ * Accepts either a reason key ("OWNER_STAY", "owner stay") or legacy free
+ * text. Unknown text maps to OTHER so the caller can keep it as the note.
+ */
+export const parseAvailabilityBlockReason = (
+  value: unknown,
+): AvailabilityBlockReason | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, "_");
+  return (
+    AVAILABILITY_BLOCK_REASONS.find((reason) => reason === normalized) || null
+  );
+};
+
+const parseBlockDate = (value: unknown, field: string): Date => {
+  const parsed = value instanceof Date ? value : new Date(String(value ?? ""));
+  if (value === undefined || value === null || Number.isNaN(parsed.getTime())) {
+    throw new AppError(`Invalid ${field}`, 400);
+  }
+  return parsed;
+};
+
+const normalizeNote = (note: unknown): string | null => {
+  if (note === undefined || note === null) {
+    return null;
+  }
+
+  const trimmed = String(note).trim();
+  if (trimmed.length > MAX_AVAILABILITY_BLOCK_NOTE_LENGTH) {
+    throw new AppError(
+      `Note cannot exceed ${MAX_AVAILABILITY_BLOCK_NOTE_LENGTH} characters`,
+      400,
+    );
+  }
+
+  return trimmed || null;
+};
+
+/**
+ * Validates a create payload coming from the API. `reason` may be a reason
+ * key or (for the legacy block-dates endpoint) free text, which is kept as
+ * the note.
+ */
+export const parseAvailabilityBlockInput = (body: {
+  startDate?: unknown;
+  endDate?: unknown;
+  reason?: unknown;
+  note?: unknown;
+}): AvailabilityBlockInput => {
+  const startDate = parseBlockDate(body.startDate, "startDate");
+  const endDate = parseBlockDate(body.endDate, "endDate");
+
+  if (endDate <= startDate) {
+    throw new AppError("End date must be after start date", 400);
+  }
+
+  const reason = parseAvailabilityBlockReason(body.reason);
+  const legacyReasonText =
+    !reason && typeof body.reason === "string" ? body.reason : null;
+
+  return {
+    startDate,
+    endDate,
+    reason: reason || AvailabilityBlockReason.OTHER,
+    note: normalizeNote(body.note ?? legacyReasonText),
+  };
+};
+
+export const findAvailabilityConflicts = async (
+  propertyId: string,
+  start: Date,
+  end: Date,
+  options: { db?: AvailabilityDb; excludeBlockId?: string } = {},
+): Promise<AvailabilityConflicts> => {
+  const db = options.db || prisma;
+
+  const [bookings, blocks] = await Promise.all([
+    db.booking.findMany({
+      where: {
+        propertyId,
+        ...buildBookingOverlapFilter(start, end),
+      },
+      select: {
+        id: true,
+        checkInDate: true,
+        checkOutDate: true,
+        status: true,
+      },
+    }),
+    db.propertyAvailabilityBlock.findMany({
+      where: {
+        propertyId,
+        ...buildBlockOverlapFilter(start, end),
+        ...(options.excludeBlockId
+          ? { id: { not: options.excludeBlockId } }
+          : {}),
+      },
+      orderBy: { startDate: "asc" },
+    }),
+  ]);
+
+  return { bookings, blocks };
+};
+
+export const listAvailabilityBlocks = async (
+  propertyId: string,
+  range: { from?: Date; to?: Date } = {},
+  db: AvailabilityDb = prisma,
+): Promise<PropertyAvailabilityBlock[]> => {
+  const where: Prisma.PropertyAvailabilityBlockWhereInput = { propertyId };
+  if (range.from) {
+    where.endDate = { gt: range.from };
+  }
+  if (range.to) {
+    where.startDate = { lt: range.to };
+  }
+
+  return db.propertyAvailabilityBlock.findMany({
+    where,
+    orderBy: { startDate: "asc" },
+  });
+};
+
+/**
+ * Expands blocked ranges into YYYY-MM-DD night keys inside [from, to).
+ */
+export const expandBlockedNights = (
+  blocks: Pick<PropertyAvailabilityBlock, "startDate" | "endDate">[],
+  from: Date,
+  to: Date,
+): string[] => {
+  const nights = new Set<string>();
+
+  for (const block of blocks) {
+    const cursor = new Date(
+      Math.max(new Date(block.startDate).getTime(), from.getTime()),
+    );
+    const stop = new Date(
+      Math.min(new Date(block.endDate).getTime(), to.getTime()),
+    );
+
+    while (cursor < stop) {
+      nights.add(cursor.toISOString().split("T")[0]);
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+  }
+
+  return Array.from(nights).sort();
+};
+
+const assertNoConflicts = (conflicts: AvailabilityConflicts) => {
+  if (conflicts.bookings.length > 0) {
+    throw new AppError(
+      "Cannot block dates: There are existing bookings during this period",
+      400,
+    );
+  }
+
+  if (conflicts.blocks.length > 0) {
+    throw new AppError(
+      "Cannot block dates: The selected period overlaps an existing block",
+      400,
+    );
+  }
+};
+
+export const createAvailabilityBlock = async (
+  propertyId: string,
+  input: AvailabilityBlockInput,
+  createdById: string | null,
+): Promise<PropertyAvailabilityBlock> => {
+  return prisma.$transaction(async (tx) => {
+    assertNoConflicts(
+      await findAvailabilityConflicts(
+        propertyId,
+        input.startDate,
+        input.endDate,
+        { db: tx },
+      ),
+    );
+
+    return tx.propertyAvailabilityBlock.create({
+      data: {
+        propertyId,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        reason: input.reason,
+        note: input.note ?? null,
+        createdById,
+      },
+    });
+  });
+};
+
+export const updateAvailabilityBlock = async (
+  block: PropertyAvailabilityBlock,
+  changes: {
+    startDate?: unknown;
+    endDate?: unknown;
+    reason?: unknown;
+    note?: unknown;
+  },
+): Promise<PropertyAvailabilityBlock> => {
+  const startDate =
+    changes.startDate !== undefined
+      ? parseBlockDate(changes.startDate, "startDate")
+      : block.startDate;
+  const endDate =
+    changes.endDate !== undefined
+      ? parseBlockDate(changes.endDate, "endDate")
+      : block.endDate;
+
+  if (endDate <= startDate) {
+    throw new AppError("End date must be after start date", 400);
+  }
+
+  let reason = block.reason;
+  if (changes.reason !== undefined) {
+    const parsedReason = parseAvailabilityBlockReason(changes.reason);
+    if (!parsedReason) {
+      throw new AppError(
+        `Reason must be one of: ${AVAILABILITY_BLOCK_REASONS.join(", ")}`,
+        400,
+      );
+    }
+    reason = parsedReason;
+  }
+
+  const note =
+    changes.note !== undefined ? normalizeNote(changes.note) : block.note;
+
+  return prisma.$transaction(async (tx) => {
+    assertNoConflicts(
+      await findAvailabilityConflicts(block.propertyId, startDate, endDate, {
+        db: tx,
+        excludeBlockId: block.id,
+      }),
+    );
+
+    return tx.propertyAvailabilityBlock.update({
+      where: { id: block.id },
+      data: { startDate, endDate, reason, note },
+    });
+  });
+};
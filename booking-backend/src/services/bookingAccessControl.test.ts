@@ -1,9 +1,7 @@
 import { PaymentStatus } from "@prisma/client";
 import {
   applyGuestBookingAccessControl,
-  buildBlockedDatesSpecialRequest,
   buildBookingVerificationCode,
-  isBlockedDatesSpecialRequest,
   isBookingPaymentConfirmed,
 } from "./bookingAccessControl";
 
@@ -30,6 +28,10 @@ describe("bookingAccessControl", () => {
         wifiName: "StayzaWifi",
         wifiPassword: "secret",
         parkingInstructions: "B2 slot",
+        latitude: 6.4281,
+        longitude: 3.4219,
+        publicLatitude: 6.4302,
+        publicLongitude: 3.4251,
         realtor: {
           businessEmail: "host@example.com",
           user: {
@@ -49,6 +51,8 @@ describe("bookingAccessControl", () => {
     expect(masked.property.wifiName).toBeNull();
     expect(masked.property.wifiPassword).toBeNull();
     expect(masked.property.parkingInstructions).toBeNull();
+    expect(masked.property.latitude).toBe(6.4302);
+    expect(masked.property.longitude).toBe(3.4251);
     expect(masked.property.realtor.businessEmail).toBeNull();
     expect(masked.property.realtor.user.email).toBeNull();
   });
@@ -71,20 +75,4 @@ describe("bookingAccessControl", () => {
   it("builds deterministic verification codes", () => {
     expect(buildBookingVerificationCode("abc123")).toBe("STZ-abc123");
   });
-
-  it("detects blocked-date markers with compatibility support", () => {
-    expect(
-      isBlockedDatesSpecialRequest("[SYSTEM_BLOCKED_DATES] maintenance")
-    ).toBe(true);
-    expect(
-      isBlockedDatesSpecialRequest("SYSTEM:BLOCKED_DATES maintenance")
-    ).toBe(true);
-    expect(isBlockedDatesSpecialRequest("guest request")).toBe(false);
-  });
-
-  it("builds canonical blocked-date marker values", () => {
-    expect(buildBlockedDatesSpecialRequest("maintenance")).toBe(
-      "[SYSTEM_BLOCKED_DATES] maintenance"
-    );
-  });
 });
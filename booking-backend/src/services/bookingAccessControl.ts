@@ -6,25 +6,6 @@ export const PAYMENT_CONFIRMED_STATUSES = new Set<PaymentStatus>([
   PaymentStatus.SETTLED,
 ]);
 
-export const BLOCKED_DATES_MARKER = "[SYSTEM_BLOCKED_DATES]";
-export const LEGACY_BLOCKED_DATES_MARKER = "SYSTEM:BLOCKED_DATES";
-
-export const isBlockedDatesSpecialRequest = (
-  specialRequests?: string | null
-): boolean => {
-  if (!specialRequests || typeof specialRequests !== "string") {
-    return false;
-  }
-
-  return (
-    specialRequests.includes(BLOCKED_DATES_MARKER) ||
-    specialRequests.includes(LEGACY_BLOCKED_DATES_MARKER)
-  );
-};
-
-export const buildBlockedDatesSpecialRequest = (reason: string): string =>
-  `${BLOCKED_DATES_MARKER} ${reason}`.trim();
-
 export const isBookingPaymentConfirmed = (
   paymentStatus?: PaymentStatus | null,
   bookingPaymentStatus?: PaymentStatus | null
@@ -53,6 +34,10 @@ type AccessControlledProperty = {
   wifiName?: string | null;
   wifiPassword?: string | null;
   parkingInstructions?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  publicLatitude?: number | null;
+  publicLongitude?: number | null;
   realtor?: {
     businessEmail?: string | null;
     user?: {
@@ -107,6 +92,8 @@ export const applyGuestBookingAccessControl = <T extends AccessControlledBooking
     wifiName: null,
     wifiPassword: null,
     parkingInstructions: null,
+    latitude: payload.property.publicLatitude ?? null,
+    longitude: payload.property.publicLongitude ?? null,
   };
 
   if (payload.property.realtor) {
@@ -0,0 +1,1329 @@
+import {
+  BookingModification,
+  BookingModificationStatus,
+  BookingStatus,
+  EscrowEventType,
+  JournalEntryType,
+  LedgerAccount,
+  Prisma,
+  User,
+  WalletOwnerType,
+  WalletTransactionSource,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import { hasAdminPermission } from "@/services/adminPermissionRules";
+import { buildBlockOverlapFilter } from "@/services/availabilityBlocks";
+import { loadFinanceConfig } from "@/services/financeConfig";
+import { settlementCurrencyOf } from "@/services/currency";
+import { postJournalEntry } from "@/services/ledgerService";
+import {
+  PLATFORM_SUBLEDGER_ID,
+  credit,
+  debit,
+  roundMoney,
+} from "@/services/ledgerRules";
+import {
+  NotificationService,
+  createAdminNotification,
+} from "@/services/notificationService";
+import {
+  getGatewayForPayment,
+  refundPayment,
+  trackGatewayCall,
+} from "@/services/paymentGateway";
+import {
+  computeModificationAdjustment,
+  getStayLengthViolation,
+  NightlyPriceLine,
+  PricingRulesSnapshot,
+  quoteBooking,
+  ServiceFeeBreakdown,
+} from "@/services/pricingEngine";
+import type { GatewayTransaction } from "@/services/paymentGatewayRules";
+import { readPricingRules } from "@/services/pricingRules";
+import { splitRetainedRoomFee } from "@/services/refundPolicy";
+import {
+  ModificationChange,
+  getModificationBlocker,
+  getModificationChangeError,
+  getModificationExpiry,
+  getRoomFeeReductionRefundRate,
+  isStayExtension,
+} from "@/services/bookingModificationRules";
+import { SystemMessageService } from "@/services/systemMessage";
+import { actsForRealtor } from "@/services/realtorTeam";
+import walletService from "@/services/walletService";
+import {
+  extractPaystackAuthorization,
+  getMetadataObject,
+} from "@/services/savedPaymentMethods";
+import { logger } from "@/utils/logger";
+import { buildSnapshotDateTime } from "@/utils/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BookingModificationInput {
+  newCheckInDate?: string | Date;
+  newCheckOutDate?: string | Date;
+  newGuestCount?: number;
+  reason?: string;
+}
+
+export interface BookingModificationQuote {
+  bookingId: string;
+  currency: string;
+  previousCheckInDate: Date;
+  previousCheckOutDate: Date;
+  previousTotalGuests: number;
+  newCheckInDate: Date;
+  newCheckOutDate: Date;
+  newTotalGuests: number;
+  oldNights: number;
+  newNights: number;
+  previousRoomFee: number;
+  newRoomFee: number;
+  roomFeeDifference: number;
+  additionalServiceFee: number;
+  newPlatformFee: number;
+  amountDue: number;
+  refundAmount: number;
+  retainedRoomFee: number;
+  requiresPayment: boolean;
+  isAvailable: boolean;
+  unavailableReason: string | null;
+  nightlyBreakdown: NightlyPriceLine[];
+  pricingRulesSnapshot: PricingRulesSnapshot;
+  serviceFeeBreakdown: ServiceFeeBreakdown | null;
+  expiresAt: Date;
+}
+
+const bookingForModificationSelect = {
+  id: true,
+  propertyId: true,
+  guestId: true,
+  checkInDate: true,
+  checkOutDate: true,
+  totalGuests: true,
+  totalPrice: true,
+  currency: true,
+  status: true,
+  stayStatus: true,
+  roomFee: true,
+  cleaningFee: true,
+  securityDeposit: true,
+  serviceFee: true,
+  serviceFeeStayza: true,
+  serviceFeeProcessing: true,
+  platformFee: true,
+  commissionEffectiveRate: true,
+  monthlyVolumeAtPricing: true,
+  cancellationPolicySnapshot: true,
+  property: {
+    select: {
+      id: true,
+      title: true,
+      pricePerNight: true,
+      pricingRules: true,
+      maxGuests: true,
+      checkInTime: true,
+      checkOutTime: true,
+      realtor: {
+        select: {
+          id: true,
+          userId: true,
+        },
+      },
+    },
+  },
+  guest: {
+    select: {
+      email: true,
+      firstName: true,
+    },
+  },
+  payment: {
+    select: {
+      id: true,
+      status: true,
+      method: true,
+      reference: true,
+      providerTransactionId: true,
+      roomFeeInEscrow: true,
+      commissionEffectiveRate: true,
+      serviceFeeStayzaAmount: true,
+      serviceFeeProcessingQuotedAmount: true,
+      metadata: true,
+    },
+  },
+  escrow: {
+    select: {
+      id: true,
+    },
+  },
+} satisfies Prisma.BookingSelect;
+
+type BookingForModification = Prisma.BookingGetPayload<{
+  select: typeof bookingForModificationSelect;
+}>;
+
+const loadBookingForModification = async (
+  bookingId: string,
+): Promise<BookingForModification> => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: bookingForModificationSelect,
+  });
+
+  if (!booking) {
+    throw new AppError("Booking not found", 404);
+  }
+
+  return booking;
+};
+
+const countNights = (checkIn: Date, checkOut: Date) =>
+  Math.ceil((checkOut.getTime() - checkIn.getTime()) / DAY_MS);
+
+const resolveEffectiveRate = (booking: BookingForModification): number => {
+  const directRate =
+    booking.commissionEffectiveRate ?? booking.payment?.commissionEffectiveRate;
+  if (directRate !== null && directRate !== undefined) {
+    return Number(directRate);
+  }
+
+  const roomFee = Number(booking.roomFee);
+  return roomFee > 0 ? Number(booking.platformFee) / roomFee : 0;
+};
+
+const assertBookingModifiable = (
+  booking: BookingForModification,
+  change: ModificationChange,
+) => {
+  const blocker = getModificationBlocker(booking, change);
+  if (blocker) {
+    throw new AppError(blocker, 400);
+  }
+};
+
+const parseStayDate = (value: string | Date | undefined, fallback: Date) => {
+  if (value === undefined || value === null || value === "") {
+    return new Date(fallback);
+  }
+
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new AppError("Invalid date provided", 400);
+  }
+  return parsed;
+};
+
+const findAvailabilityConflict = async (
+  booking: Pick<BookingForModification, "id" | "propertyId">,
+  checkIn: Date,
+  checkOut: Date,
+  db: Pick<typeof prisma, "booking" | "propertyAvailabilityBlock"> = prisma,
+): Promise<string | null> => {
+  const conflictingBookings = await db.booking.count({
+    where: {
+      propertyId: booking.propertyId,
+      id: { not: booking.id },
+      status: { in: [BookingStatus.ACTIVE, BookingStatus.PENDING] },
+      checkInDate: { lt: checkOut },
+      checkOutDate: { gt: checkIn },
+    },
+  });
+
+  if (conflictingBookings > 0) {
+    return "The property is already booked for some of the new dates";
+  }
+
+  const blockedRanges = await db.propertyAvailabilityBlock.count({
+    where: {
+      propertyId: booking.propertyId,
+      ...buildBlockOverlapFilter(checkIn, checkOut),
+    },
+  });
+
+  return blockedRanges > 0
+    ? "The property is not available for some of the new dates"
+    : null;
+};
+
+const parseModificationChange = (
+  booking: BookingForModification,
+  input: BookingModificationInput,
+): ModificationChange => ({
+  newCheckInDate: parseStayDate(input.newCheckInDate, booking.checkInDate),
+  newCheckOutDate: parseStayDate(input.newCheckOutDate, booking.checkOutDate),
+  newTotalGuests:
+    input.newGuestCount === undefined || input.newGuestCount === null
+      ? booking.totalGuests
+      : Number(input.newGuestCount),
+});
+
+const buildModificationQuote = async (
+  booking: BookingForModification,
+  change: ModificationChange,
+): Promise<BookingModificationQuote> => {
+  const changeError = getModificationChangeError(
+    booking,
+    change,
+    booking.property.maxGuests,
+  );
+  if (changeError) {
+    throw new AppError(changeError, 400);
+  }
+
+  const {
+    newCheckInDate: newCheckIn,
+    newCheckOutDate: newCheckOut,
+    newTotalGuests,
+  } = change;
+  const newNights = countNights(newCheckIn, newCheckOut);
+  const pricingRules = readPricingRules(booking.property.pricingRules);
+  const stayLengthViolation = getStayLengthViolation(pricingRules, newNights);
+  if (stayLengthViolation) {
+    throw new AppError(stayLengthViolation, 400);
+  }
+
+  const financeConfig = await loadFinanceConfig(
+    settlementCurrencyOf(booking.currency),
+  );
+  const quote = quoteBooking(
+    {
+      pricePerNight: Number(booking.property.pricePerNight),
+      numberOfNights: newNights,
+      cleaningFee: Number(booking.cleaningFee),
+      securityDeposit: Number(booking.securityDeposit),
+      monthlyVolume: Number(booking.monthlyVolumeAtPricing || 0),
+      paystackMode: "LOCAL",
+      checkInDate: newCheckIn,
+      pricingRules,
+    },
+    financeConfig,
+  );
+  const adjustment = computeModificationAdjustment(
+    {
+      currentRoomFee: Number(booking.roomFee),
+      newRoomFee: quote.roomFee,
+      effectiveRate: resolveEffectiveRate(booking),
+      refundRate: getRoomFeeReductionRefundRate(booking),
+    },
+    financeConfig,
+  );
+  const unavailableReason = await findAvailabilityConflict(
+    booking,
+    newCheckIn,
+    newCheckOut,
+  );
+
+  return {
+    bookingId: booking.id,
+    currency: booking.currency,
+    previousCheckInDate: booking.checkInDate,
+    previousCheckOutDate: booking.checkOutDate,
+    previousTotalGuests: booking.totalGuests,
+    newCheckInDate: newCheckIn,
+    newCheckOutDate: newCheckOut,
+    newTotalGuests,
+    oldNights: countNights(booking.checkInDate, booking.checkOutDate),
+    newNights,
+    previousRoomFee: Number(booking.roomFee),
+    newRoomFee: quote.roomFee,
+    roomFeeDifference: adjustment.roomFeeDifference,
+    additionalServiceFee: adjustment.additionalServiceFee?.total || 0,
+    newPlatformFee: adjustment.platformFee,
+    amountDue: adjustment.amountDue,
+    refundAmount: adjustment.refundAmount,
+    retainedRoomFee: adjustment.retainedRoomFee,
+    requiresPayment: adjustment.amountDue > 0,
+    isAvailable: unavailableReason === null,
+    unavailableReason,
+    nightlyBreakdown: quote.nightlyBreakdown,
+    pricingRulesSnapshot: quote.pricingRulesSnapshot,
+    serviceFeeBreakdown: adjustment.additionalServiceFee,
+    expiresAt: getModificationExpiry(booking, change),
+  };
+};
+
+const notifySafely = async (
+  notification: Parameters<NotificationService["createAndSendNotification"]>[0],
+) => {
+  try {
+    await NotificationService.getInstance().createAndSendNotification(
+      notification,
+    );
+  } catch (error) {
+    logger.error("Failed to send booking modification notification", {
+      bookingId: notification.bookingId,
+      error,
+    });
+  }
+};
+
+const formatStayDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Price a date change for the booking's guest without saving anything.
+ */
+export const previewBookingModification = async (
+  bookingId: string,
+  guestId: string,
+  input: BookingModificationInput,
+): Promise<BookingModificationQuote> => {
+  const booking = await loadBookingForModification(bookingId);
+  if (booking.guestId !== guestId) {
+    throw new AppError("Only the guest can modify this booking", 403);
+  }
+
+  const change = parseModificationChange(booking, input);
+  assertBookingModifiable(booking, change);
+  return buildModificationQuote(booking, change);
+};
+
+/**
+ * Record a guest's date change request for the realtor to approve. The
+ * quote is locked in so approval settles the amounts the guest saw.
+ */
+export const requestBookingModification = async (
+  bookingId: string,
+  guestId: string,
+  input: BookingModificationInput,
+): Promise<{
+  modification: BookingModification;
+  quote: BookingModificationQuote;
+}> => {
+  const booking = await loadBookingForModification(bookingId);
+  if (booking.guestId !== guestId) {
+    throw new AppError("Only the guest can modify this booking", 403);
+  }
+
+  const change = parseModificationChange(booking, input);
+  assertBookingModifiable(booking, change);
+
+  const pending = await prisma.bookingModification.findFirst({
+    where: {
+      bookingId,
+      OR: [
+        {
+          status: BookingModificationStatus.PENDING_REALTOR_APPROVAL,
+          expiresAt: { gt: new Date() },
+        },
+        { status: BookingModificationStatus.PROCESSING },
+      ],
+    },
+    select: { id: true },
+  });
+  if (pending) {
+    throw new AppError(
+      "This booking already has a modification awaiting the host's response",
+      409,
+    );
+  }
+
+  const quote = await buildModificationQuote(booking, change);
+  if (!quote.isAvailable) {
+    throw new AppError(
+      quote.unavailableReason || "Property is not available for selected dates",
+      400,
+    );
+  }
+
+  if (
+    quote.requiresPayment &&
+    !extractPaystackAuthorization(booking.payment!.metadata).authorizationCode
+  ) {
+    throw new AppError(
+      "The price difference cannot be charged to your saved card for this booking",
+      400,
+    );
+  }
+
+  const reason =
+    typeof input.reason === "string" && input.reason.trim()
+      ? input.reason.trim().slice(0, 500)
+      : null;
+
+  const modification = await prisma.bookingModification.create({
+    data: {
+      bookingId,
+      requestedById: guestId,
+      reason,
+      previousCheckInDate: quote.previousCheckInDate,
+      previousCheckOutDate: quote.previousCheckOutDate,
+      previousTotalGuests: quote.previousTotalGuests,
+      newCheckInDate: quote.newCheckInDate,
+      newCheckOutDate: quote.newCheckOutDate,
+      newTotalGuests: quote.newTotalGuests,
+      previousRoomFee: new Prisma.Decimal(quote.previousRoomFee),
+      newRoomFee: new Prisma.Decimal(quote.newRoomFee),
+      newPlatformFee: new Prisma.Decimal(quote.newPlatformFee),
+      additionalServiceFee: new Prisma.Decimal(quote.additionalServiceFee),
+      amountDue: new Prisma.Decimal(quote.amountDue),
+      refundAmount: new Prisma.Decimal(quote.refundAmount),
+      quote: {
+        nightlyBreakdown: quote.nightlyBreakdown,
+        pricingRulesSnapshot: quote.pricingRulesSnapshot,
+        serviceFeeBreakdown: quote.serviceFeeBreakdown,
+      } as unknown as Prisma.InputJsonValue,
+      expiresAt: quote.expiresAt,
+    },
+  });
+
+  await notifySafely({
+    userId: booking.property.realtor.userId,
+    type: "BOOKING_REMINDER",
+    title: "Date Change Requested",
+    message: `${booking.guest.firstName || "A guest"} asked to move booking #${booking.id.slice(
+      -6,
+    )} at "${booking.property.title}" to ${formatStayDate(
+      quote.newCheckInDate,
+    )} - ${formatStayDate(quote.newCheckOutDate)}.`,
+    bookingId,
+    priority: "high",
+    data: { bookingId, modificationId: modification.id },
+  });
+
+  return { modification, quote };
+};
+
+export const listBookingModifications = async (
+  bookingId: string,
+  user: Pick<User, "id" | "role" | "adminRole">,
+) => {
+  const booking = await loadBookingForModification(bookingId);
+  const canView =
+    hasAdminPermission(user, "bookings.read") ||
+    booking.guestId === user.id ||
+    (await actsForRealtor(
+      user.id,
+      booking.property.realtor.id,
+      "bookings.read",
+    ));
+  if (!canView) {
+    throw new AppError("Not authorized to view this booking", 403);
+  }
+
+  await prisma.bookingModification.updateMany({
+    where: {
+      bookingId,
+      status: BookingModificationStatus.PENDING_REALTOR_APPROVAL,
+      expiresAt: { lte: new Date() },
+    },
+    data: { status: BookingModificationStatus.EXPIRED },
+  });
+
+  return prisma.bookingModification.findMany({
+    where: { bookingId },
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+const loadPendingModification = async (
+  bookingId: string,
+  modificationId: string,
+) => {
+  const modification = await prisma.bookingModification.findFirst({
+    where: { id: modificationId, bookingId },
+  });
+
+  if (!modification) {
+    throw new AppError("Modification request not found", 404);
+  }
+
+  if (
+    modification.status !== BookingModificationStatus.PENDING_REALTOR_APPROVAL
+  ) {
+    throw new AppError("This modification request is no longer pending", 409);
+  }
+
+  if (modification.expiresAt <= new Date()) {
+    await prisma.bookingModification.update({
+      where: { id: modification.id },
+      data: { status: BookingModificationStatus.EXPIRED },
+    });
+    throw new AppError(
+      "This modification request expired before it was answered",
+      409,
+    );
+  }
+
+  return modification;
+};
+
+const toModificationChange = (
+  modification: BookingModification,
+): ModificationChange => ({
+  newCheckInDate: modification.newCheckInDate,
+  newCheckOutDate: modification.newCheckOutDate,
+  newTotalGuests: modification.newTotalGuests,
+});
+
+/**
+ * Move a pending request to its final status. Fails when an approval or
+ * another response got to it first.
+ */
+const closePendingModification = async (
+  modificationId: string,
+  data: Prisma.BookingModificationUncheckedUpdateManyInput,
+) => {
+  const closed = await prisma.bookingModification.updateMany({
+    where: {
+      id: modificationId,
+      status: BookingModificationStatus.PENDING_REALTOR_APPROVAL,
+    },
+    data,
+  });
+  if (closed.count === 0) {
+    throw new AppError("This modification request is no longer pending", 409);
+  }
+
+  return prisma.bookingModification.findUniqueOrThrow({
+    where: { id: modificationId },
+  });
+};
+
+const markModificationFailed = async (
+  modification: BookingModification,
+  booking: BookingForModification,
+  realtorUserId: string,
+  failureReason: string,
+) => {
+  await prisma.bookingModification.update({
+    where: { id: modification.id },
+    data: {
+      status: BookingModificationStatus.FAILED,
+      respondedById: realtorUserId,
+      respondedAt: new Date(),
+      failureReason,
+    },
+  });
+
+  await notifySafely({
+    userId: booking.guestId,
+    type: "PAYMENT_FAILED",
+    title: "Date Change Not Completed",
+    message: `Your host approved the new dates for "${booking.property.title}", but the price difference could not be settled. Your original booking is unchanged.`,
+    bookingId: booking.id,
+    priority: "high",
+    data: { bookingId: booking.id, modificationId: modification.id },
+  });
+};
+
+/**
+ * The gateway call went through but the booking could not be moved. Reverse
+ * the extra charge where possible, and leave the request FAILED either way
+ * so the money movement is on record.
+ */
+const recoverFailedSettlement = async (params: {
+  modification: BookingModification;
+  booking: BookingForModification;
+  realtorUserId: string;
+  settlementReference: string;
+  charge: GatewayTransaction | null;
+  refundAmount: number;
+  error: unknown;
+}) => {
+  const { modification, booking, settlementReference, charge, refundAmount } =
+    params;
+  const reasons = [
+    params.error instanceof Error
+      ? params.error.message
+      : "The booking could not be updated",
+  ];
+  let needsReview = refundAmount > 0;
+
+  if (charge) {
+    try {
+      await refundPayment(
+        {
+          method: booking.payment!.method,
+          reference: settlementReference,
+          providerTransactionId: charge.providerTransactionId,
+          currency: booking.currency,
+        },
+        charge.amount,
+      );
+      reasons.push("The extra charge was refunded");
+    } catch (error) {
+      needsReview = true;
+      reasons.push(
+        `The extra charge could not be refunded: ${
+          error instanceof Error ? error.message : "unknown error"
+        }`,
+      );
+    }
+  }
+  if (refundAmount > 0) {
+    reasons.push(
+      `${booking.currency} ${refundAmount.toFixed(2)} was already refunded to the guest`,
+    );
+  }
+
+  const failureReason = reasons.join(". ");
+  logger.error("Booking modification settled but not applied", {
+    bookingId: booking.id,
+    modificationId: modification.id,
+    settlementReference,
+    failureReason,
+  });
+
+  await markModificationFailed(
+    modification,
+    booking,
+    params.realtorUserId,
+    failureReason,
+  );
+
+  if (needsReview) {
+    await createAdminNotification({
+      type: "SYSTEM_ALERT",
+      title: "Date change needs manual settlement",
+      message: `Money moved for a date change on booking #${booking.id.slice(
+        -6,
+      )}, but the booking was not updated. ${failureReason}.`,
+      priority: "high",
+      data: {
+        bookingId: booking.id,
+        modificationId: modification.id,
+        settlementReference,
+      },
+    });
+  }
+};
+
+/**
+ * Realtor approval: claims the request, charges the guest's saved card or
+ * refunds from escrow, then moves the booking to the new dates in one
+ * transaction. Check-in and check-out snapshots are rebuilt and dispute
+ * timers cleared so lifecycle jobs start them again from the new stay;
+ * extensions of a started stay keep their check-in timers.
+ */
+export const approveBookingModification = async (
+  bookingId: string,
+  modificationId: string,
+  realtorUserId: string,
+  responseNote?: string,
+) => {
+  const modification = await loadPendingModification(bookingId, modificationId);
+  const booking = await loadBookingForModification(bookingId);
+
+  if (
+    !(await actsForRealtor(
+      realtorUserId,
+      booking.property.realtor.id,
+      "bookings.manage",
+    ))
+  ) {
+    throw new AppError("Only the host can respond to this request", 403);
+  }
+
+  const change = toModificationChange(modification);
+  assertBookingModifiable(booking, change);
+
+  const unavailableReason = await findAvailabilityConflict(
+    booking,
+    modification.newCheckInDate,
+    modification.newCheckOutDate,
+  );
+  if (unavailableReason) {
+    throw new AppError(unavailableReason, 409);
+  }
+
+  // Claim the request before any money moves, so a second approval or a
+  // racing decline finds it no longer pending
+  const claimed = await prisma.bookingModification.updateMany({
+    where: {
+      id: modification.id,
+      status: BookingModificationStatus.PENDING_REALTOR_APPROVAL,
+    },
+    data: {
+      status: BookingModificationStatus.PROCESSING,
+      respondedById: realtorUserId,
+      respondedAt: new Date(),
+    },
+  });
+  if (claimed.count === 0) {
+    throw new AppError("This modification request is no longer pending", 409);
+  }
+
+  const payment = booking.payment!;
+  const amountDue = Number(modification.amountDue);
+  const refundAmount = Number(modification.refundAmount);
+  const roomFeeDifference =
+    Number(modification.newRoomFee) - Number(booking.roomFee);
+  // Room fee of removed nights the cancellation policy did not refund
+  const retainedRoomFee =
+    roomFeeDifference < 0
+      ? Math.max(0, roundMoney(-roomFeeDifference - refundAmount))
+      : 0;
+  const additionalServiceFee = Number(modification.additionalServiceFee);
+  const quoteSnapshot = (getMetadataObject(modification.quote) || {}) as Record<
+    string,
+    unknown
+  >;
+  const serviceFeeBreakdown =
+    (quoteSnapshot.serviceFeeBreakdown as ServiceFeeBreakdown | null) || null;
+  const settlementReference = `MOD-${booking.id.slice(-6)}-${Date.now()}`;
+  let providerResponse: Prisma.InputJsonValue | undefined;
+  let charged: GatewayTransaction | null = null;
+
+  if (amountDue > 0) {
+    const { authorizationCode } = extractPaystackAuthorization(
+      payment.metadata,
+    );
+    let failureReason: string | null = null;
+
+    if (!authorizationCode) {
+      failureReason = "No saved card is available to charge the difference";
+    } else {
+      try {
+        // Saved cards belong to the gateway that collected the payment
+        const charge = await trackGatewayCall(
+          getGatewayForPayment(payment),
+          (gateway) =>
+            gateway.chargeAuthorization({
+              authorizationCode,
+              email: booking.guest.email,
+              amount: amountDue,
+              reference: settlementReference,
+              currency: booking.currency,
+              metadata: {
+                bookingId,
+                modificationId,
+                roomFeeDifference,
+                additionalServiceFee,
+              },
+            }),
+        );
+        if (charge.status === "success") {
+          charged = charge;
+          providerResponse = charge.raw;
+        } else {
+          failureReason = `Payment failed: ${
+            charge.gatewayResponse || "unknown error"
+          }`;
+        }
+      } catch (error) {
+        failureReason =
+          error instanceof Error ? error.message : "Payment failed";
+      }
+    }
+
+    if (failureReason) {
+      await markModificationFailed(
+        modification,
+        booking,
+        realtorUserId,
+        failureReason,
+      );
+      throw new AppError(
+        `Could not charge the guest for the new dates: ${failureReason}`,
+        402,
+      );
+    }
+  }
+
+  if (refundAmount > 0) {
+    const transactionReference =
+      payment.providerTransactionId || payment.reference;
+    try {
+      if (!transactionReference) {
+        throw new Error("Payment has no transaction reference");
+      }
+      const refund = await refundPayment(
+        { ...payment, currency: booking.currency },
+        refundAmount,
+      );
+      providerResponse = refund.raw;
+    } catch (error) {
+      const failureReason =
+        error instanceof Error ? error.message : "Refund failed";
+      await markModificationFailed(
+        modification,
+        booking,
+        realtorUserId,
+        failureReason,
+      );
+      throw new AppError(
+        `Could not refund the guest for the new dates: ${failureReason}`,
+        502,
+      );
+    }
+  }
+
+  // A started stay being extended keeps its check-in and the dispute and
+  // release timers that came with it
+  const keepsCheckIn = isStayExtension(booking, change);
+  const checkInAtSnapshot = buildSnapshotDateTime(
+    modification.newCheckInDate,
+    booking.property.checkInTime,
+    14,
+    0,
+  );
+  const checkOutAtSnapshot = buildSnapshotDateTime(
+    modification.newCheckOutDate,
+    booking.property.checkOutTime,
+    11,
+    0,
+  );
+  const refundCutoffTime = new Date(modification.newCheckInDate);
+  refundCutoffTime.setHours(refundCutoffTime.getHours() - 24);
+  const paymentMetadata = getMetadataObject(payment.metadata) || {};
+  const modificationEntry = {
+    modificationId,
+    reference: settlementReference,
+    amountDue,
+    refundAmount,
+    retainedRoomFee,
+    roomFeeDifference,
+    additionalServiceFee,
+    settledAt: new Date().toISOString(),
+  };
+  const existingModificationEntries = Array.isArray(
+    paymentMetadata.modificationSettlements,
+  )
+    ? paymentMetadata.modificationSettlements
+    : [];
+
+  let updatedBooking: Awaited<ReturnType<typeof prisma.booking.update>>;
+  try {
+    updatedBooking = await prisma.$transaction(async (tx) => {
+      // Another booking, a block or the escrow may have changed while the
+      // gateway call ran
+      const current = await tx.booking.findUnique({
+        where: { id: bookingId },
+        select: bookingForModificationSelect,
+      });
+      const conflict = current
+        ? getModificationBlocker(current, change) ||
+          (await findAvailabilityConflict(
+            booking,
+            modification.newCheckInDate,
+            modification.newCheckOutDate,
+            tx,
+          ))
+        : "Booking not found";
+      if (conflict) {
+        throw new AppError(conflict, 409);
+      }
+
+      const bookingUpdate = await tx.booking.update({
+        where: { id: bookingId },
+        data: {
+          checkInDate: modification.newCheckInDate,
+          checkOutDate: modification.newCheckOutDate,
+          checkOutAtSnapshot,
+          totalGuests: modification.newTotalGuests,
+          totalPrice: new Prisma.Decimal(
+            (Number(booking.totalPrice) + amountDue - refundAmount).toFixed(2),
+          ),
+          roomFee: modification.newRoomFee,
+          serviceFee: new Prisma.Decimal(
+            (Number(booking.serviceFee) + additionalServiceFee).toFixed(2),
+          ),
+          serviceFeeStayza: new Prisma.Decimal(
+            (
+              Number(booking.serviceFeeStayza || 0) +
+              (serviceFeeBreakdown?.stayza || 0)
+            ).toFixed(2),
+          ),
+          serviceFeeProcessing: new Prisma.Decimal(
+            (
+              Number(booking.serviceFeeProcessing || 0) +
+              (serviceFeeBreakdown?.processing || 0)
+            ).toFixed(2),
+          ),
+          platformFee: modification.newPlatformFee,
+          pricingRulesSnapshot: quoteSnapshot.pricingRulesSnapshot as
+            Prisma.InputJsonValue | undefined,
+          nightlyBreakdown: quoteSnapshot.nightlyBreakdown as
+            Prisma.InputJsonValue | undefined,
+          realtorDisputeClosesAt: null,
+          depositRefundEligibleAt: null,
+          ...(keepsCheckIn
+            ? {}
+            : {
+                checkInAtSnapshot,
+                refundCutoffTime,
+                payoutEligibleAt: new Date(modification.newCheckInDate),
+                disputeWindowClosesAt: null,
+                roomFeeReleaseEligibleAt: null,
+              }),
+        },
+      });
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          amount: { increment: amountDue },
+          roomFeeAmount: modification.newRoomFee,
+          serviceFeeAmount: { increment: additionalServiceFee },
+          serviceFeeStayzaAmount: new Prisma.Decimal(
+            (
+              Number(payment.serviceFeeStayzaAmount || 0) +
+              (serviceFeeBreakdown?.stayza || 0)
+            ).toFixed(2),
+          ),
+          serviceFeeProcessingQuotedAmount: new Prisma.Decimal(
+            (
+              Number(payment.serviceFeeProcessingQuotedAmount || 0) +
+              (serviceFeeBreakdown?.processing || 0)
+            ).toFixed(2),
+          ),
+          platformFeeAmount: modification.newPlatformFee,
+          ...(refundAmount > 0
+            ? { refundAmount: { increment: refundAmount } }
+            : {}),
+          metadata: {
+            ...paymentMetadata,
+            modificationSettlements: [
+              ...existingModificationEntries,
+              modificationEntry,
+            ],
+          } as Prisma.InputJsonValue,
+        },
+      });
+
+      if (roomFeeDifference !== 0 && booking.escrow) {
+        await tx.escrow.update({
+          where: { bookingId },
+          data: {
+            roomFeeHeld: { increment: roomFeeDifference },
+          },
+        });
+      }
+
+      if (amountDue > 0) {
+        await tx.escrowEvent.create({
+          data: {
+            bookingId,
+            eventType: EscrowEventType.HOLD_ROOM_FEE,
+            amount: new Prisma.Decimal(roomFeeDifference.toFixed(2)),
+            currency: booking.currency,
+            fromParty: "CUSTOMER",
+            toParty: "ESCROW",
+            transactionReference: settlementReference,
+            notes: `Additional room fee of ${roomFeeDifference.toFixed(
+              2,
+            )} held in escrow for date change`,
+            triggeredBy: realtorUserId,
+            providerResponse,
+          },
+        });
+      }
+
+      if (additionalServiceFee > 0) {
+        const platformWallet = await tx.wallet.upsert({
+          where: {
+            ownerType_ownerId_currency: {
+              ownerType: "PLATFORM",
+              ownerId: "platform",
+              currency: booking.currency,
+            },
+          },
+          update: {
+            balanceAvailable: {
+              increment: new Prisma.Decimal(additionalServiceFee),
+            },
+          },
+          create: {
+            ownerType: "PLATFORM",
+            ownerId: "platform",
+            currency: booking.currency,
+            balanceAvailable: new Prisma.Decimal(additionalServiceFee),
+            balancePending: new Prisma.Decimal(0),
+          },
+        });
+
+        await tx.walletTransaction.create({
+          data: {
+            walletId: platformWallet.id,
+            type: "CREDIT",
+            source: "SERVICE_FEE",
+            amount: new Prisma.Decimal(additionalServiceFee),
+            referenceId: bookingId,
+            status: "COMPLETED",
+            metadata: {
+              bookingId,
+              paymentId: payment.id,
+              modificationId,
+              settlementReference,
+            },
+          },
+        });
+
+        await tx.escrowEvent.create({
+          data: {
+            bookingId,
+            eventType: EscrowEventType.COLLECT_SERVICE_FEE,
+            amount: new Prisma.Decimal(additionalServiceFee),
+            currency: booking.currency,
+            fromParty: "CUSTOMER",
+            toParty: "PLATFORM_WALLET",
+            transactionReference: settlementReference,
+            notes: `Service fee of ${additionalServiceFee.toFixed(
+              2,
+            )} collected for date change`,
+            triggeredBy: realtorUserId,
+          },
+        });
+      }
+
+      if (refundAmount > 0) {
+        await tx.escrowEvent.create({
+          data: {
+            bookingId,
+            eventType: EscrowEventType.REFUND_PARTIAL_TO_CUSTOMER,
+            amount: new Prisma.Decimal(refundAmount),
+            currency: booking.currency,
+            fromParty: "ESCROW",
+            toParty: "CUSTOMER",
+            transactionReference: settlementReference,
+            notes: `Room fee difference of ${refundAmount.toFixed(
+              2,
+            )} refunded for date change`,
+            triggeredBy: realtorUserId,
+            providerResponse,
+          },
+        });
+      }
+
+      // The retained room fee leaves escrow to the wallets, split like a
+      // cancellation
+      if (retainedRoomFee > 0 && booking.escrow) {
+        const { realtorPortion, platformPortion } =
+          splitRetainedRoomFee(retainedRoomFee);
+        const retainedShares = [
+          {
+            ownerType: WalletOwnerType.REALTOR,
+            ownerId: booking.property.realtor.id,
+            amount: realtorPortion,
+            toParty: "REALTOR_WALLET",
+          },
+          {
+            ownerType: WalletOwnerType.PLATFORM,
+            ownerId: "platform",
+            amount: platformPortion,
+            toParty: "PLATFORM_WALLET",
+          },
+        ];
+
+        for (const share of retainedShares) {
+          if (share.amount <= 0) {
+            continue;
+          }
+          const wallet = await walletService.getOrCreateWallet(
+            share.ownerType,
+            share.ownerId,
+            tx,
+            booking.currency,
+          );
+          await walletService.creditWallet(
+            wallet.id,
+            share.amount,
+            WalletTransactionSource.CANCELLATION,
+            bookingId,
+            { bookingId, paymentId: payment.id, modificationId },
+            tx,
+          );
+          await tx.escrowEvent.create({
+            data: {
+              bookingId,
+              eventType: EscrowEventType.RELEASE_ROOM_FEE_SPLIT,
+              amount: new Prisma.Decimal(share.amount),
+              currency: booking.currency,
+              fromParty: "ESCROW",
+              toParty: share.toParty,
+              transactionReference: settlementReference,
+              notes: `Non-refundable room fee of ${share.amount.toFixed(
+                2,
+              )} for nights removed by the date change`,
+              triggeredBy: realtorUserId,
+            },
+          });
+        }
+      }
+
+      // Re-price the guest's charge, then settle the difference through
+      // the gateway. The retained room fee was posted by the wallet credits.
+      const escrowDifference = booking.escrow
+        ? roundMoney(roomFeeDifference + retainedRoomFee)
+        : 0;
+      await postJournalEntry(tx, {
+        type: JournalEntryType.BOOKING_MODIFICATION,
+        reference: settlementReference,
+        bookingId,
+        description: "Booking dates changed",
+        metadata: { modificationId, paymentId: payment.id },
+        currency: booking.currency,
+        lines: [
+          ...(escrowDifference > 0
+            ? [
+                debit(
+                  LedgerAccount.GUEST_RECEIVABLE,
+                  escrowDifference,
+                  bookingId,
+                ),
+                credit(LedgerAccount.ESCROW, escrowDifference, bookingId),
+              ]
+            : [
+                debit(LedgerAccount.ESCROW, -escrowDifference, bookingId),
+                credit(
+                  LedgerAccount.GUEST_RECEIVABLE,
+                  -escrowDifference,
+                  bookingId,
+                ),
+              ]),
+          debit(
+            LedgerAccount.GUEST_RECEIVABLE,
+            Math.max(additionalServiceFee, 0),
+            bookingId,
+          ),
+          credit(
+            LedgerAccount.PLATFORM_REVENUE,
+            Math.max(additionalServiceFee, 0),
+            PLATFORM_SUBLEDGER_ID,
+          ),
+          debit(LedgerAccount.GATEWAY_BALANCE, amountDue),
+          credit(LedgerAccount.GUEST_RECEIVABLE, amountDue, bookingId),
+          debit(LedgerAccount.GUEST_RECEIVABLE, refundAmount, bookingId),
+          credit(LedgerAccount.GATEWAY_BALANCE, refundAmount),
+        ],
+      });
+
+      const completed = await tx.bookingModification.updateMany({
+        where: {
+          id: modificationId,
+          status: BookingModificationStatus.PROCESSING,
+        },
+        data: {
+          status: BookingModificationStatus.COMPLETED,
+          responseNote: responseNote?.trim() || null,
+          settlementReference:
+            amountDue > 0 || refundAmount > 0 || retainedRoomFee > 0
+              ? settlementReference
+              : null,
+          completedAt: new Date(),
+        },
+      });
+      if (completed.count === 0) {
+        throw new AppError(
+          "This modification request is no longer pending",
+          409,
+        );
+      }
+
+      return bookingUpdate;
+    });
+  } catch (error) {
+    await recoverFailedSettlement({
+      modification,
+      booking,
+      realtorUserId,
+      settlementReference,
+      charge: charged,
+      refundAmount,
+      error,
+    });
+    throw error;
+  }
+
+  logger.info("Booking modification approved", {
+    bookingId,
+    modificationId,
+    amountDue,
+    refundAmount,
+    retainedRoomFee,
+    settlementReference,
+  });
+
+  try {
+    await SystemMessageService.rescheduleBookingMessages(bookingId);
+  } catch (error) {
+    logger.error("Failed to reschedule booking system messages", {
+      bookingId,
+      modificationId,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+
+  await notifySafely({
+    userId: booking.guestId,
+    type: "BOOKING_CONFIRMED",
+    title: "Date Change Approved",
+    message: `Your stay at "${booking.property.title}" is now ${formatStayDate(
+      modification.newCheckInDate,
+    )} - ${formatStayDate(modification.newCheckOutDate)}.${
+      amountDue > 0
+        ? ` ${booking.currency} ${amountDue.toFixed(2)} was charged to your saved card.`
+        : ""
+    }${
+      refundAmount > 0
+        ? ` ${booking.currency} ${refundAmount.toFixed(2)} is being refunded.`
+        : ""
+    }`,
+    bookingId,
+    priority: "high",
+    data: { bookingId, modificationId, amountDue, refundAmount },
+  });
+
+  return { booking: updatedBooking, amountDue, refundAmount };
+};
+
+export const declineBookingModification = async (
+  bookingId: string,
+  modificationId: string,
+  realtorUserId: string,
+  responseNote?: string,
+) => {
+  const modification = await loadPendingModification(bookingId, modificationId);
+  const booking = await loadBookingForModification(bookingId);
+
+  if (
+    !(await actsForRealtor(
+      realtorUserId,
+      booking.property.realtor.id,
+      "bookings.manage",
+    ))
+  ) {
+    throw new AppError("Only the host can respond to this request", 403);
+  }
+
+  const declined = await closePendingModification(modification.id, {
+    status: BookingModificationStatus.DECLINED,
+    respondedById: realtorUserId,
+    respondedAt: new Date(),
+    responseNote: responseNote?.trim() || null,
+  });
+
+  await notifySafely({
+    userId: booking.guestId,
+    type: "BOOKING_REMINDER",
+    title: "Date Change Declined",
+    message: `Your host declined the new dates for "${booking.property.title}". Your original booking is unchanged.${
+      declined.responseNote ? ` Note: ${declined.responseNote}` : ""
+    }`,
+    bookingId,
+    priority: "normal",
+    data: { bookingId, modificationId },
+  });
+
+  return declined;
+};
+
+export const cancelBookingModification = async (
+  bookingId: string,
+  modificationId: string,
+  guestId: string,
+) => {
+  const modification = await loadPendingModification(bookingId, modificationId);
+  if (modification.requestedById !== guestId) {
+    throw new AppError("Only the guest can withdraw this request", 403);
+  }
+
+  return closePendingModification(modification.id, {
+    status: BookingModificationStatus.CANCELLED,
+  });
+};
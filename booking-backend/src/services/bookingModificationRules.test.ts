@@ -0,0 +1,197 @@
+import {
+  ModifiableBooking,
+  getModificationBlocker,
+  getModificationChangeError,
+  getModificationExpiry,
+  getRoomFeeReductionRefundRate,
+  isStayExtension,
+} from "./bookingModificationRules";
+import { CANCELLATION_POLICY_PRESETS } from "./refundPolicy";
+
+const now = new Date("2026-05-01T12:00:00Z");
+
+const booking = (overrides: Partial<ModifiableBooking> = {}) => ({
+  status: "ACTIVE",
+  stayStatus: "NOT_STARTED",
+  checkInDate: new Date("2026-05-10T00:00:00Z"),
+  checkOutDate: new Date("2026-05-13T00:00:00Z"),
+  totalGuests: 2,
+  payment: { method: "PAYSTACK", status: "HELD", roomFeeInEscrow: true },
+  ...overrides,
+});
+
+const moveTo = (checkIn: string, checkOut: string, guests = 2) => ({
+  newCheckInDate: new Date(checkIn),
+  newCheckOutDate: new Date(checkOut),
+  newTotalGuests: guests,
+});
+
+const extension = moveTo("2026-05-10T00:00:00Z", "2026-05-15T00:00:00Z");
+
+describe("bookingModificationRules", () => {
+  it("treats later check-out with the same check-in and guests as an extension", () => {
+    expect(isStayExtension(booking(), extension)).toBe(true);
+    expect(
+      isStayExtension(
+        booking(),
+        moveTo("2026-05-11T00:00:00Z", "2026-05-15T00:00:00Z")
+      )
+    ).toBe(false);
+    expect(
+      isStayExtension(
+        booking(),
+        moveTo("2026-05-10T00:00:00Z", "2026-05-15T00:00:00Z", 3)
+      )
+    ).toBe(false);
+  });
+
+  it("lets a checked-in stay add nights but not move", () => {
+    const checkedIn = booking({
+      stayStatus: "CHECKED_IN",
+      checkInDate: new Date("2026-04-29T00:00:00Z"),
+      checkOutDate: new Date("2026-05-03T00:00:00Z"),
+    });
+
+    expect(
+      getModificationBlocker(
+        checkedIn,
+        moveTo("2026-04-29T00:00:00Z", "2026-05-05T00:00:00Z"),
+        now
+      )
+    ).toBeNull();
+    expect(
+      getModificationBlocker(
+        checkedIn,
+        moveTo("2026-05-02T00:00:00Z", "2026-05-05T00:00:00Z"),
+        now
+      )
+    ).toBe("Only extra nights can be added after check-in");
+    expect(
+      getModificationBlocker(
+        { ...checkedIn, stayStatus: "CHECKED_OUT" },
+        moveTo("2026-04-29T00:00:00Z", "2026-05-05T00:00:00Z"),
+        now
+      )
+    ).toBe("Bookings cannot be extended after check-out");
+  });
+
+  it("applies the cutoff only to changes that move the check-in", () => {
+    const soon = booking({
+      checkInDate: new Date("2026-05-02T00:00:00Z"),
+      checkOutDate: new Date("2026-05-04T00:00:00Z"),
+    });
+
+    expect(
+      getModificationBlocker(
+        soon,
+        moveTo("2026-05-03T00:00:00Z", "2026-05-05T00:00:00Z"),
+        now
+      )
+    ).toMatch(/at least 24 hours before check-in/);
+    expect(
+      getModificationBlocker(
+        soon,
+        moveTo("2026-05-02T00:00:00Z", "2026-05-06T00:00:00Z"),
+        now
+      )
+    ).toBeNull();
+  });
+
+  it("requires the room fee to still be in escrow", () => {
+    expect(
+      getModificationBlocker(
+        booking({
+          payment: {
+            method: "PAYSTACK",
+            status: "PARTIALLY_RELEASED",
+            roomFeeInEscrow: false,
+          },
+        }),
+        extension,
+        now
+      )
+    ).toMatch(/held in escrow/);
+    expect(
+      getModificationBlocker(booking({ status: "CANCELLED" }), extension, now)
+    ).toBe("Only confirmed bookings can be modified");
+  });
+
+  it("validates the requested stay", () => {
+    expect(getModificationChangeError(booking(), extension, 4, now)).toBeNull();
+    expect(
+      getModificationChangeError(
+        booking(),
+        moveTo("2026-05-12T00:00:00Z", "2026-05-11T00:00:00Z"),
+        4,
+        now
+      )
+    ).toBe("Check-out date must be after check-in date");
+    expect(
+      getModificationChangeError(
+        booking(),
+        moveTo("2026-05-01T00:00:00Z", "2026-05-03T00:00:00Z"),
+        4,
+        now
+      )
+    ).toBe("Check-in date must be at least tomorrow");
+    expect(
+      getModificationChangeError(
+        booking(),
+        moveTo("2026-05-10T00:00:00Z", "2026-05-13T00:00:00Z", 5),
+        4,
+        now
+      )
+    ).toBe("Property can accommodate maximum 4 guests");
+    expect(
+      getModificationChangeError(
+        booking(),
+        moveTo("2026-05-10T00:00:00Z", "2026-05-13T00:00:00Z"),
+        4,
+        now
+      )
+    ).toBe("The requested booking details have not changed");
+  });
+
+  it("lets a started stay keep its past check-in date", () => {
+    const checkedIn = booking({
+      stayStatus: "CHECKED_IN",
+      checkInDate: new Date("2026-04-29T00:00:00Z"),
+      checkOutDate: new Date("2026-05-03T00:00:00Z"),
+    });
+
+    expect(
+      getModificationChangeError(
+        checkedIn,
+        moveTo("2026-04-29T00:00:00Z", "2026-05-05T00:00:00Z"),
+        4,
+        now
+      )
+    ).toBeNull();
+  });
+
+  it("expires extensions at check-out and moves at the cutoff", () => {
+    expect(getModificationExpiry(booking(), extension)).toEqual(
+      new Date("2026-05-13T00:00:00Z")
+    );
+    expect(
+      getModificationExpiry(
+        booking(),
+        moveTo("2026-05-11T00:00:00Z", "2026-05-14T00:00:00Z")
+      )
+    ).toEqual(new Date("2026-05-09T00:00:00Z"));
+  });
+
+  it("refunds removed nights under the booking's cancellation policy", () => {
+    const stay = (policy: keyof typeof CANCELLATION_POLICY_PRESETS | null) => ({
+      checkInDate: new Date("2026-05-10T00:00:00Z"),
+      cancellationPolicySnapshot: policy
+        ? JSON.parse(JSON.stringify(CANCELLATION_POLICY_PRESETS[policy]))
+        : null,
+    });
+
+    expect(getRoomFeeReductionRefundRate(stay(null), now)).toBe(0.9);
+    expect(getRoomFeeReductionRefundRate(stay("MODERATE"), now)).toBe(0.9);
+    expect(getRoomFeeReductionRefundRate(stay("STRICT"), now)).toBe(0.5);
+    expect(getRoomFeeReductionRefundRate(stay("NON_REFUNDABLE"), now)).toBe(0);
+  });
+});
@@ -0,0 +1,171 @@
+import { Prisma } from "@prisma/client";
+import {
+  CANCELLATION_CUTOFF_HOURS,
+  matchCancellationTier,
+  readCancellationPolicy,
+} from "@/services/refundPolicy";
+
+// Moving the check-in closes at the same hard cutoff as cancelling; how much
+// of a lower room fee comes back depends on the booking's policy tiers
+export const MODIFICATION_CUTOFF_HOURS = CANCELLATION_CUTOFF_HOURS;
+
+export interface ModifiableBooking {
+  status: string;
+  stayStatus: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+  totalGuests: number;
+  payment: {
+    method: string | null;
+    status: string;
+    roomFeeInEscrow: boolean;
+  } | null;
+}
+
+type BookedStay = Pick<
+  ModifiableBooking,
+  "checkInDate" | "checkOutDate" | "totalGuests"
+>;
+
+export interface ModificationChange {
+  newCheckInDate: Date;
+  newCheckOutDate: Date;
+  newTotalGuests: number;
+}
+
+export const getModificationDeadline = (checkInDate: Date): Date =>
+  new Date(checkInDate.getTime() - MODIFICATION_CUTOFF_HOURS * 60 * 60 * 1000);
+
+/**
+ * Whether the change only adds nights at the end of the stay. Extensions
+ * leave the check-in untouched, so they stay possible after check-in.
+ */
+export const isStayExtension = (
+  booking: BookedStay,
+  change: ModificationChange,
+): boolean =>
+  change.newCheckInDate.getTime() === booking.checkInDate.getTime() &&
+  change.newCheckOutDate > booking.checkOutDate &&
+  change.newTotalGuests === booking.totalGuests;
+
+/**
+ * Why the booking cannot take this change right now, or null when it can.
+ * Changes are settled against the room fee still held in escrow, so they
+ * need a paid Paystack stay whose room fee has not been released. Moving
+ * the check-in also needs a stay that has not started, before the
+ * cancellation cutoff.
+ */
+export const getModificationBlocker = (
+  booking: ModifiableBooking,
+  change: ModificationChange,
+  now: Date = new Date(),
+): string | null => {
+  if (booking.status !== "ACTIVE") {
+    return "Only confirmed bookings can be modified";
+  }
+
+  if (isStayExtension(booking, change)) {
+    if (
+      booking.stayStatus !== "NOT_STARTED" &&
+      booking.stayStatus !== "CHECKED_IN"
+    ) {
+      return "Bookings cannot be extended after check-out";
+    }
+    if (now >= booking.checkOutDate) {
+      return "Bookings cannot be extended after the stay has ended";
+    }
+  } else {
+    if (booking.stayStatus !== "NOT_STARTED") {
+      return "Only extra nights can be added after check-in";
+    }
+    if (now > getModificationDeadline(booking.checkInDate)) {
+      return `Bookings can only be modified at least ${MODIFICATION_CUTOFF_HOURS} hours before check-in`;
+    }
+  }
+
+  if (
+    !booking.payment ||
+    booking.payment.method !== "PAYSTACK" ||
+    booking.payment.status !== "HELD" ||
+    !booking.payment.roomFeeInEscrow
+  ) {
+    return "Booking modification is only available while the payment is held in escrow";
+  }
+
+  return null;
+};
+
+/**
+ * Why the requested stay is not valid for the property, or null when it
+ * is. A moved check-in must be at least tomorrow.
+ */
+export const getModificationChangeError = (
+  booking: BookedStay,
+  change: ModificationChange,
+  maxGuests: number,
+  now: Date = new Date(),
+): string | null => {
+  const { newCheckInDate, newCheckOutDate, newTotalGuests } = change;
+
+  if (newCheckInDate >= newCheckOutDate) {
+    return "Check-out date must be after check-in date";
+  }
+
+  if (newCheckInDate.getTime() !== booking.checkInDate.getTime()) {
+    const tomorrow = new Date(now);
+    tomorrow.setHours(0, 0, 0, 0);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    const newCheckInDateOnly = new Date(newCheckInDate);
+    newCheckInDateOnly.setHours(0, 0, 0, 0);
+    if (newCheckInDateOnly < tomorrow) {
+      return "Check-in date must be at least tomorrow";
+    }
+  }
+
+  if (!Number.isInteger(newTotalGuests) || newTotalGuests < 1) {
+    return "Guest count must be a whole number of at least 1";
+  }
+
+  if (newTotalGuests > maxGuests) {
+    return `Property can accommodate maximum ${maxGuests} guests`;
+  }
+
+  if (
+    newCheckInDate.getTime() === booking.checkInDate.getTime() &&
+    newCheckOutDate.getTime() === booking.checkOutDate.getTime() &&
+    newTotalGuests === booking.totalGuests
+  ) {
+    return "The requested booking details have not changed";
+  }
+
+  return null;
+};
+
+/**
+ * When an unanswered request lapses: the cancellation cutoff for changes
+ * that move the check-in, the current check-out for extensions.
+ */
+export const getModificationExpiry = (
+  booking: BookedStay,
+  change: ModificationChange,
+): Date =>
+  isStayExtension(booking, change)
+    ? new Date(booking.checkOutDate)
+    : getModificationDeadline(booking.checkInDate);
+
+/**
+ * Share of a lower room fee the guest gets back. Nights a change removes
+ * are priced like a cancellation under the policy snapshotted on the
+ * booking, so a non-refundable stay keeps its room fee.
+ */
+export const getRoomFeeReductionRefundRate = (
+  booking: {
+    checkInDate: Date;
+    cancellationPolicySnapshot: Prisma.JsonValue | null;
+  },
+  now: Date = new Date(),
+): number =>
+  matchCancellationTier(
+    readCancellationPolicy(booking.cancellationPolicySnapshot),
+    (booking.checkInDate.getTime() - now.getTime()) / (60 * 60 * 1000),
+  ).refundRate;
@@ -2,6 +2,10 @@ import { prisma } from "@/config/database";
 import { BookingStatus } from "@prisma/client";
 import { auditLogger } from "./auditLogger";
 import { logger } from "@/utils/logger";
+import {
+  CANCELLATION_CUTOFF_HOURS,
+  readCancellationPolicy,
+} from "./refundPolicy";
 
 export class BookingStatusConflictError extends Error {
   constructor(
@@ -389,6 +393,7 @@ export async function canCancelBooking(
       id: true,
       status: true,
       checkInDate: true,
+      cancellationPolicySnapshot: true,
       payment: {
         select: {
           id: true,
@@ -425,16 +430,23 @@ export async function canCancelBooking(
   const hoursUntilCheckIn =
     (checkInDate.getTime() - now.getTime()) / (1000 * 60 * 60);
 
-  if (hoursUntilCheckIn < 24) {
+  if (hoursUntilCheckIn < CANCELLATION_CUTOFF_HOURS) {
     return {
       canCancel: false,
       reason: "Cancellations must be made at least 24 hours before check-in",
     };
   }
 
+  const policy = readCancellationPolicy(booking.cancellationPolicySnapshot);
+  const refundRate =
+    policy.tiers.find((tier) => hoursUntilCheckIn >= tier.minHoursBeforeCheckIn)
+      ?.refundRate ?? 0;
+
   return {
     canCancel: true,
-    reason: "Cancellation allowed: 90% room fee refund + full security deposit",
+    reason: `Cancellation allowed: ${Math.round(
+      refundRate * 100,
+    )}% room fee refund (${policy.name} policy) + full security deposit`,
   };
 }
 
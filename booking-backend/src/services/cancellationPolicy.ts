@@ -0,0 +1,119 @@
+import { AppError } from "@/middleware/errorHandler";
+import {
+  CANCELLATION_CUTOFF_HOURS,
+  CANCELLATION_POLICY_PRESETS,
+  CancellationPolicy,
+  CancellationPolicyTier,
+} from "@/services/refundPolicy";
+
+export const MAX_CUSTOM_POLICY_TIERS = 6;
+const MAX_POLICY_NAME_LENGTH = 60;
+// A year ahead is the furthest a guest can book, so longer windows are typos
+const MAX_TIER_HOURS = 24 * 365;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const parseTier = (value: unknown, index: number): CancellationPolicyTier => {
+  if (!isRecord(value)) {
+    throw new AppError(`tiers[${index}] must be an object`, 400);
+  }
+
+  const hours = Number(value.minHoursBeforeCheckIn);
+  if (
+    !Number.isInteger(hours) ||
+    hours < CANCELLATION_CUTOFF_HOURS ||
+    hours > MAX_TIER_HOURS
+  ) {
+    throw new AppError(
+      `tiers[${index}].minHoursBeforeCheckIn must be a whole number between ${CANCELLATION_CUTOFF_HOURS} and ${MAX_TIER_HOURS}`,
+      400,
+    );
+  }
+
+  const refundRate = Number(value.refundRate);
+  if (
+    value.refundRate === null ||
+    value.refundRate === "" ||
+    !Number.isFinite(refundRate) ||
+    refundRate <= 0 ||
+    refundRate > 1
+  ) {
+    throw new AppError(
+      `tiers[${index}].refundRate must be greater than 0 and at most 1`,
+      400,
+    );
+  }
+
+  return { minHoursBeforeCheckIn: hours, refundRate };
+};
+
+/**
+ * Validates a policy sent by a realtor. Named policies ignore any tiers in the
+ * body and use the preset; CUSTOM policies must give a table whose refunds
+ * shrink as check-in approaches.
+ */
+export const parseCancellationPolicyInput = (
+  body: unknown,
+): CancellationPolicy => {
+  if (!isRecord(body)) {
+    throw new AppError("policy must be an object", 400);
+  }
+
+  const type = body.type;
+  if (typeof type === "string" && type in CANCELLATION_POLICY_PRESETS) {
+    return CANCELLATION_POLICY_PRESETS[
+      type as keyof typeof CANCELLATION_POLICY_PRESETS
+    ];
+  }
+
+  if (type !== "CUSTOM") {
+    throw new AppError(
+      `policy.type must be one of ${[
+        ...Object.keys(CANCELLATION_POLICY_PRESETS),
+        "CUSTOM",
+      ].join(", ")}`,
+      400,
+    );
+  }
+
+  if (!Array.isArray(body.tiers)) {
+    throw new AppError("tiers must be an array", 400);
+  }
+  if (body.tiers.length > MAX_CUSTOM_POLICY_TIERS) {
+    throw new AppError(
+      `A custom policy can have at most ${MAX_CUSTOM_POLICY_TIERS} tiers`,
+      400,
+    );
+  }
+
+  const tiers = body.tiers
+    .map(parseTier)
+    .sort((a, b) => b.minHoursBeforeCheckIn - a.minHoursBeforeCheckIn);
+
+  tiers.forEach((tier, index) => {
+    const earlier = tiers[index - 1];
+    if (!earlier) {
+      return;
+    }
+    if (earlier.minHoursBeforeCheckIn === tier.minHoursBeforeCheckIn) {
+      throw new AppError(
+        "Each tier must use a different minHoursBeforeCheckIn",
+        400,
+      );
+    }
+    if (tier.refundRate > earlier.refundRate) {
+      throw new AppError(
+        "Refund rates cannot increase closer to check-in",
+        400,
+      );
+    }
+  });
+
+  const name =
+    typeof body.name === "string" && body.name.trim()
+      ? body.name.trim().slice(0, MAX_POLICY_NAME_LENGTH)
+      : "Custom";
+
+  return { type: "CUSTOM", name, tiers };
+};
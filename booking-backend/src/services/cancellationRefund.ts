@@ -1,10 +1,14 @@
 import { prisma } from "@/config/database";
 import { AppError } from "@/middleware/errorHandler";
-import { Booking, RefundTier, EscrowEventType } from "@prisma/client";
-import { refundPolicyService, RefundCalculation } from "./refundPolicy";
+import { RefundTier, EscrowEventType } from "@prisma/client";
+import {
+  readCancellationPolicy,
+  refundPolicyService,
+  RefundCalculation,
+} from "./refundPolicy";
 import { logger } from "@/utils/logger";
 import { NotificationService } from "./notificationService";
-import { processRefund } from "./paystack";
+import { refundPayment } from "./paymentGateway";
 
 export interface CancellationRefundResult {
   success: boolean;
@@ -35,6 +39,11 @@ export async function processAutomaticCancellationRefund(
         checkInDate: true,
         checkOutDate: true,
         totalPrice: true,
+        roomFee: true,
+        securityDeposit: true,
+        serviceFee: true,
+        cleaningFee: true,
+        cancellationPolicySnapshot: true,
         currency: true,
         status: true,
         refundTier: true,
@@ -79,6 +88,8 @@ export async function processAutomaticCancellationRefund(
         refundCalculation: {
           tier: "NONE" as RefundTier,
           hoursUntilCheckIn: 0,
+          policy: readCancellationPolicy(booking.cancellationPolicySnapshot),
+          refundRate: 0,
           roomFee: 0,
           serviceFee: 0,
           cleaningFee: 0,
@@ -100,7 +111,7 @@ export async function processAutomaticCancellationRefund(
 
     // Calculate refund amounts
     const refundCalc = refundPolicyService.calculateCancellationRefund({
-      booking: booking as unknown as Booking,
+      booking,
     });
 
     logger.info("Cancellation refund calculated", {
@@ -119,27 +130,28 @@ export async function processAutomaticCancellationRefund(
       },
     });
 
-    // Initiate actual Paystack refund if customer is owed money
-    let paystackRefundId: string | undefined;
-    let paystackRefundError: string | undefined;
+    // Initiate the actual gateway refund if customer is owed money
+    let providerRefundId: string | undefined;
+    let providerRefundError: string | undefined;
 
     if (refundCalc.totalCustomerRefund > 0 && booking.payment?.reference) {
       try {
-        const paystackResult = await processRefund(
-          booking.payment.reference,
+        const refund = await refundPayment(
+          booking.payment,
           refundCalc.totalCustomerRefund,
         );
-        paystackRefundId = paystackResult?.id?.toString();
-        logger.info("Paystack refund initiated", {
+        providerRefundId = refund.refundId ?? undefined;
+        logger.info("Gateway refund initiated", {
           bookingId,
-          paystackRefundId,
+          provider: refund.provider,
+          providerRefundId,
           amount: refundCalc.totalCustomerRefund,
         });
       } catch (error) {
-        paystackRefundError =
-          error instanceof Error ? error.message : "Unknown Paystack error";
-        logger.error("Paystack refund failed - proceeding with DB records", {
-          error: paystackRefundError,
+        providerRefundError =
+          error instanceof Error ? error.message : "Unknown gateway error";
+        logger.error("Gateway refund failed - proceeding with DB records", {
+          error: providerRefundError,
           bookingId,
           amount: refundCalc.totalCustomerRefund,
         });
@@ -248,9 +260,10 @@ export async function processAutomaticCancellationRefund(
         roomFeeReleasedAt: new Date(),
         depositReleasedAt: new Date(),
         metadata: {
-          paystackRefundId: paystackRefundId ?? null,
-          paystackRefundError: paystackRefundError ?? null,
-          paystackRefundInitiatedAt: new Date().toISOString(),
+          refundProvider: booking.payment.method,
+          providerRefundId: providerRefundId ?? null,
+          providerRefundError: providerRefundError ?? null,
+          providerRefundInitiatedAt: new Date().toISOString(),
         },
       },
     });
@@ -267,7 +280,7 @@ export async function processAutomaticCancellationRefund(
         title: "Booking Cancelled",
         message: `Booking cancelled. ${
           refundCalc.totalRealtorPortion > 0
-            ? `You receive ${booking.currency} ${refundCalc.totalRealtorPortion.toFixed(2)} (7% of room fee). Cleaning fee already released.`
+            ? `You receive ${booking.currency} ${refundCalc.totalRealtorPortion.toFixed(2)} of the retained room fee (${refundCalc.policy.name} policy). Cleaning fee already released.`
             : `Cleaning fee already released to you.`
         }`,
         bookingId,
@@ -288,7 +301,7 @@ export async function processAutomaticCancellationRefund(
         userId: booking.guestId,
         type: "PAYMENT_COMPLETED",
         title: "Cancellation Refund Processed",
-        message: `Your booking cancellation refund of ${booking.currency} ${refundCalc.totalCustomerRefund.toFixed(2)} has been processed (90% room fee + full security deposit).`,
+        message: `Your booking cancellation refund of ${booking.currency} ${refundCalc.totalCustomerRefund.toFixed(2)} has been processed (${Math.round(refundCalc.refundRate * 100)}% room fee under the ${refundCalc.policy.name} policy + full security deposit).`,
         bookingId,
         data: {
           refundTier: refundCalc.tier,
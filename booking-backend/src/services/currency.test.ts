@@ -0,0 +1,103 @@
+import {
+  accountNumberError,
+  convertAmount,
+  crossRate,
+  formatMoney,
+  fromMinorUnits,
+  getLocalMonthBounds,
+  settlementCurrencyOf,
+  toMinorUnits,
+  validateUsdRates,
+} from "./currency";
+
+const USD_RATES = {
+  USD: 1,
+  NGN: 1500,
+  GHS: 15,
+  KES: 130,
+  EUR: 0.92,
+  XOF: 600,
+};
+
+describe("currency amounts", () => {
+  it("converts to and from minor units by the currency's decimals", () => {
+    expect(toMinorUnits(1250.5, "GHS")).toBe(125050);
+    expect(fromMinorUnits(125050, "GHS")).toBe(1250.5);
+    expect(toMinorUnits(1250.5, "XOF")).toBe(1251);
+    expect(fromMinorUnits(1251, "XOF")).toBe(1251);
+  });
+
+  it("formats amounts with the currency symbol", () => {
+    expect(formatMoney(1250, "GHS")).toBe("GH₵1250.00");
+    expect(formatMoney(1250, "XOF")).toBe("CFA1250");
+    expect(formatMoney(1250, "ZZZ")).toBe("₦1250.00");
+  });
+
+  it("reads unknown or missing stored currencies as naira", () => {
+    expect(settlementCurrencyOf("kes")).toBe("KES");
+    expect(settlementCurrencyOf("USD")).toBe("NGN");
+    expect(settlementCurrencyOf(null)).toBe("NGN");
+  });
+
+  it("validates account numbers per settlement country", () => {
+    expect(accountNumberError("0123456789", "NGN")).toBeNull();
+    expect(accountNumberError("012345678901", "NGN")).toBe(
+      "Account number must be 10 digits"
+    );
+    expect(accountNumberError("12345678", "KES")).toBeNull();
+    expect(accountNumberError("1234567", "KES")).toBe(
+      "Account number must be 8 to 16 digits"
+    );
+  });
+});
+
+describe("currency exchange rates", () => {
+  it("derives cross rates from USD rates", () => {
+    expect(crossRate(USD_RATES, "NGN", "GHS")).toBe(0.01);
+    expect(crossRate(USD_RATES, "GHS", "NGN")).toBe(100);
+    expect(crossRate(USD_RATES, "KES", "KES")).toBe(1);
+    expect(crossRate({ USD: 1, NGN: 1500 }, "NGN", "EUR")).toBeNull();
+  });
+
+  it("rounds converted amounts to the display currency", () => {
+    const rate = crossRate(USD_RATES, "NGN", "XOF") as number;
+
+    expect(convertAmount(10000, rate, "XOF")).toBe(4000);
+    expect(
+      convertAmount(10000, crossRate(USD_RATES, "NGN", "USD") as number, "USD")
+    ).toBe(6.67);
+  });
+
+  it("rejects incomplete or malformed rate tables", () => {
+    expect(validateUsdRates(USD_RATES)).toEqual([]);
+    expect(validateUsdRates([])).toEqual([
+      "Exchange rates must be an object of currency codes to rates",
+    ]);
+    expect(
+      validateUsdRates({ ...USD_RATES, USD: 2, XOF: 0, JPY: 150 })
+    ).toEqual([
+      "Unsupported currency: JPY",
+      "XOF rate must be a positive number",
+      "USD rate must be 1",
+    ]);
+  });
+});
+
+describe("getLocalMonthBounds", () => {
+  it("uses the settlement currency's local midnight", () => {
+    const reference = new Date("2026-05-31T23:30:00Z");
+
+    expect(getLocalMonthBounds("NGN", reference)).toEqual({
+      start: new Date("2026-05-31T23:00:00Z"),
+      end: new Date("2026-06-30T23:00:00Z"),
+    });
+    expect(getLocalMonthBounds("GHS", reference)).toEqual({
+      start: new Date("2026-05-01T00:00:00Z"),
+      end: new Date("2026-06-01T00:00:00Z"),
+    });
+    expect(getLocalMonthBounds("KES", reference)).toEqual({
+      start: new Date("2026-05-31T21:00:00Z"),
+      end: new Date("2026-06-30T21:00:00Z"),
+    });
+  });
+});
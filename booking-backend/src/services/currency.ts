@@ -0,0 +1,225 @@
+/**
+ * Currencies listings can be priced, paid and paid out in, and the wider
+ * set guests can view prices in. Settlement currencies each have their
+ * own finance config, wallets and payout accounts; display currencies
+ * are only ever converted into with a locked rate.
+ */
+export const SETTLEMENT_CURRENCIES = ["NGN", "GHS", "KES"] as const;
+export type SettlementCurrency = (typeof SETTLEMENT_CURRENCIES)[number];
+
+export const DISPLAY_CURRENCIES = [
+  ...SETTLEMENT_CURRENCIES,
+  "USD",
+  "EUR",
+  "XOF",
+] as const;
+export type DisplayCurrency = (typeof DISPLAY_CURRENCIES)[number];
+
+export const DEFAULT_CURRENCY: SettlementCurrency = "NGN";
+
+export interface CurrencyDefinition {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface SettlementCurrencyDefinition extends CurrencyDefinition {
+  country: string;
+  timezone: string;
+  utcOffsetHours: number; // None of the settlement timezones observe DST
+  paystackRecipientType: string;
+  accountNumberDigits: { min: number; max: number };
+}
+
+export const SETTLEMENT_CURRENCY_DEFINITIONS: Record<
+  SettlementCurrency,
+  SettlementCurrencyDefinition
+> = {
+  NGN: {
+    name: "Nigerian naira",
+    symbol: "₦",
+    decimals: 2,
+    country: "NG",
+    timezone: "Africa/Lagos",
+    utcOffsetHours: 1,
+    paystackRecipientType: "nuban",
+    accountNumberDigits: { min: 10, max: 10 },
+  },
+  GHS: {
+    name: "Ghanaian cedi",
+    symbol: "GH₵",
+    decimals: 2,
+    country: "GH",
+    timezone: "Africa/Accra",
+    utcOffsetHours: 0,
+    paystackRecipientType: "ghipss",
+    accountNumberDigits: { min: 10, max: 16 },
+  },
+  KES: {
+    name: "Kenyan shilling",
+    symbol: "KSh",
+    decimals: 2,
+    country: "KE",
+    timezone: "Africa/Nairobi",
+    utcOffsetHours: 3,
+    paystackRecipientType: "kepss",
+    accountNumberDigits: { min: 8, max: 16 },
+  },
+};
+
+export const CURRENCY_DEFINITIONS: Record<DisplayCurrency, CurrencyDefinition> =
+  {
+    ...SETTLEMENT_CURRENCY_DEFINITIONS,
+    USD: { name: "US dollar", symbol: "$", decimals: 2 },
+    EUR: { name: "Euro", symbol: "€", decimals: 2 },
+    XOF: { name: "West African CFA franc", symbol: "CFA", decimals: 0 },
+  };
+
+export const isSettlementCurrency = (
+  value: unknown,
+): value is SettlementCurrency =>
+  typeof value === "string" &&
+  (SETTLEMENT_CURRENCIES as readonly string[]).includes(value);
+
+export const isDisplayCurrency = (value: unknown): value is DisplayCurrency =>
+  typeof value === "string" &&
+  (DISPLAY_CURRENCIES as readonly string[]).includes(value);
+
+/**
+ * Settlement currency of a stored record. Rows written before currencies
+ * were introduced, or with a code no longer supported, read as naira.
+ */
+export const settlementCurrencyOf = (
+  value: string | null | undefined,
+): SettlementCurrency => {
+  const code = (value || "").trim().toUpperCase();
+  return isSettlementCurrency(code) ? code : DEFAULT_CURRENCY;
+};
+
+/**
+ * Why a payout account number is not valid for banks in the currency's
+ * country, or null when it is.
+ */
+export const accountNumberError = (
+  accountNumber: string,
+  currency: SettlementCurrency,
+): string | null => {
+  const { min, max } =
+    SETTLEMENT_CURRENCY_DEFINITIONS[currency].accountNumberDigits;
+  if (new RegExp(`^\\d{${min},${max}}$`).test(accountNumber)) {
+    return null;
+  }
+  return min === max
+    ? `Account number must be ${min} digits`
+    : `Account number must be ${min} to ${max} digits`;
+};
+
+const minorUnitFactor = (currency: DisplayCurrency): number =>
+  10 ** CURRENCY_DEFINITIONS[currency].decimals;
+
+export const toMinorUnits = (
+  amount: number,
+  currency: DisplayCurrency = DEFAULT_CURRENCY,
+): number =>
+  Math.round((Number(amount) + Number.EPSILON) * minorUnitFactor(currency));
+
+export const fromMinorUnits = (
+  minorUnits: number,
+  currency: DisplayCurrency = DEFAULT_CURRENCY,
+): number => {
+  const decimals = CURRENCY_DEFINITIONS[currency].decimals;
+  return Number((Math.round(minorUnits) / 10 ** decimals).toFixed(decimals));
+};
+
+export const roundToCurrency = (
+  amount: number,
+  currency: DisplayCurrency = DEFAULT_CURRENCY,
+): number => fromMinorUnits(toMinorUnits(amount, currency), currency);
+
+/**
+ * Amount with the currency symbol for notes, logs and emails, e.g.
+ * GH₵1250.00. Unknown codes read as naira.
+ */
+export const formatMoney = (
+  amount: number,
+  currency?: string | null,
+): string => {
+  const code = isDisplayCurrency(currency) ? currency : DEFAULT_CURRENCY;
+  const { symbol, decimals } = CURRENCY_DEFINITIONS[code];
+  return `${symbol}${Number(amount).toFixed(decimals)}`;
+};
+
+/**
+ * Exchange rates are stored as units of each currency per one US dollar.
+ * The rate from one currency to another is the ratio of the two, or null
+ * when either is missing.
+ */
+export const crossRate = (
+  usdRates: Partial<Record<DisplayCurrency, number>>,
+  from: DisplayCurrency,
+  to: DisplayCurrency,
+): number | null => {
+  if (from === to) {
+    return 1;
+  }
+  const fromRate = usdRates[from];
+  const toRate = usdRates[to];
+  if (!fromRate || !toRate || fromRate <= 0 || toRate <= 0) {
+    return null;
+  }
+  return Number((toRate / fromRate).toPrecision(10));
+};
+
+/**
+ * Problems with an admin-entered rate table: every display currency
+ * needs a positive rate and USD must be 1.
+ */
+export const validateUsdRates = (value: unknown): string[] => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["Exchange rates must be an object of currency codes to rates"];
+  }
+
+  const rates = value as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const code of Object.keys(rates)) {
+    if (!isDisplayCurrency(code)) {
+      errors.push(`Unsupported currency: ${code}`);
+    }
+  }
+  for (const code of DISPLAY_CURRENCIES) {
+    const rate = rates[code];
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0) {
+      errors.push(`${code} rate must be a positive number`);
+    }
+  }
+  if (rates.USD !== undefined && rates.USD !== 1) {
+    errors.push("USD rate must be 1");
+  }
+  return errors;
+};
+
+export const convertAmount = (
+  amount: number,
+  rate: number,
+  to: DisplayCurrency,
+): number => roundToCurrency(amount * rate, to);
+
+/**
+ * Start and end (exclusive) of the calendar month containing
+ * `referenceDate` in the settlement currency's local timezone.
+ */
+export const getLocalMonthBounds = (
+  currency: SettlementCurrency = DEFAULT_CURRENCY,
+  referenceDate = new Date(),
+): { start: Date; end: Date } => {
+  const offsetMs =
+    SETTLEMENT_CURRENCY_DEFINITIONS[currency].utcOffsetHours * 60 * 60 * 1000;
+  const local = new Date(referenceDate.getTime() + offsetMs);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+
+  return {
+    start: new Date(Date.UTC(year, month, 1) - offsetMs),
+    end: new Date(Date.UTC(year, month + 1, 1) - offsetMs),
+  };
+};
@@ -0,0 +1,139 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import {
+  DISPLAY_CURRENCIES,
+  DisplayCurrency,
+  SETTLEMENT_CURRENCIES,
+  SettlementCurrency,
+  convertAmount,
+  crossRate,
+  isDisplayCurrency,
+  isSettlementCurrency,
+  validateUsdRates,
+} from "@/services/currency";
+
+/**
+ * Platform setting holding the admin-maintained rate table, as units of
+ * each display currency per one US dollar.
+ */
+export const FX_RATES_SETTING_KEY = "fx.usd_rates.v1";
+
+export const parseSettlementCurrency = (value: unknown): SettlementCurrency => {
+  const code = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (!isSettlementCurrency(code)) {
+    throw new AppError(
+      `Currency must be one of: ${SETTLEMENT_CURRENCIES.join(", ")}`,
+      400,
+    );
+  }
+  return code;
+};
+
+export const parseDisplayCurrency = (value: unknown): DisplayCurrency => {
+  const code = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (!isDisplayCurrency(code)) {
+    throw new AppError(
+      `Display currency must be one of: ${DISPLAY_CURRENCIES.join(", ")}`,
+      400,
+    );
+  }
+  return code;
+};
+
+export interface FxRateTable {
+  rates: Record<DisplayCurrency, number>;
+  updatedAt: Date;
+}
+
+/**
+ * A conversion rate locked at a point in time. Bookings keep the snapshot
+ * they were quoted with so displayed totals never drift after checkout.
+ */
+export interface FxRateSnapshot {
+  baseCurrency: SettlementCurrency;
+  displayCurrency: DisplayCurrency;
+  rate: number;
+  source: string;
+  lockedAt: Date;
+}
+
+export const getFxRateTable = async (): Promise<FxRateTable | null> => {
+  const setting = await prisma.platformSettings.findFirst({
+    where: { key: FX_RATES_SETTING_KEY, isActive: true },
+    select: { value: true, updatedAt: true },
+  });
+  if (!setting || validateUsdRates(setting.value).length > 0) {
+    return null;
+  }
+
+  return {
+    rates: setting.value as unknown as Record<DisplayCurrency, number>,
+    updatedAt: setting.updatedAt,
+  };
+};
+
+export const lockFxRate = async (
+  baseCurrency: SettlementCurrency,
+  displayCurrency: DisplayCurrency,
+  lockedAt: Date = new Date(),
+): Promise<FxRateSnapshot> => {
+  if (baseCurrency === displayCurrency) {
+    return {
+      baseCurrency,
+      displayCurrency,
+      rate: 1,
+      source: "identity",
+      lockedAt,
+    };
+  }
+
+  const table = await getFxRateTable();
+  const rate = table
+    ? crossRate(table.rates, baseCurrency, displayCurrency)
+    : null;
+  if (!table || rate === null) {
+    throw new AppError(
+      `Prices cannot be shown in ${displayCurrency} right now`,
+      400,
+    );
+  }
+
+  return {
+    baseCurrency,
+    displayCurrency,
+    rate,
+    source: `${FX_RATES_SETTING_KEY}@${table.updatedAt.toISOString()}`,
+    lockedAt,
+  };
+};
+
+/**
+ * Convert settlement-currency amounts with a locked snapshot.
+ */
+export const convertWithSnapshot = <T extends Record<string, number>>(
+  snapshot: FxRateSnapshot,
+  amounts: T,
+): T =>
+  Object.fromEntries(
+    Object.entries(amounts).map(([key, amount]) => [
+      key,
+      convertAmount(amount, snapshot.rate, snapshot.displayCurrency),
+    ]),
+  ) as T;
+
+/**
+ * Booking columns recording the snapshot and the converted total.
+ */
+export const fxSnapshotBookingData = (
+  snapshot: FxRateSnapshot,
+  totalPrice: number,
+) => ({
+  displayCurrency: snapshot.displayCurrency,
+  fxRate: new Prisma.Decimal(snapshot.rate),
+  fxRateSource: snapshot.source,
+  fxRateLockedAt: snapshot.lockedAt,
+  displayTotalPrice: new Prisma.Decimal(
+    convertAmount(totalPrice, snapshot.rate, snapshot.displayCurrency),
+  ),
+});
@@ -0,0 +1,67 @@
+import {
+  customDomainTxtRecord,
+  customHostnameError,
+  hasVerificationRecord,
+  normalizeCustomHostname,
+  suggestCustomHostname,
+} from "./customDomainRules";
+
+describe("customDomainRules", () => {
+  it("reduces typed input to a bare hostname", () => {
+    expect(normalizeCustomHostname(" https://Book.Example.com/stays ")).toBe(
+      "book.example.com"
+    );
+    expect(normalizeCustomHostname("book.example.com.:443")).toBe(
+      "book.example.com"
+    );
+    expect(normalizeCustomHostname(null)).toBe("");
+  });
+
+  it("accepts hostnames the realtor can own", () => {
+    expect(customHostnameError("book.example.com", "stayza.pro")).toBeNull();
+    expect(customHostnameError("example.com.ng", "stayza.pro")).toBeNull();
+  });
+
+  it("refuses malformed, IP and platform hostnames", () => {
+    expect(customHostnameError("", "stayza.pro")).not.toBeNull();
+    expect(customHostnameError("example", "stayza.pro")).not.toBeNull();
+    expect(
+      customHostnameError("-book.example.com", "stayza.pro")
+    ).not.toBeNull();
+    expect(customHostnameError("192.168.0.1", "stayza.pro")).not.toBeNull();
+    expect(customHostnameError("stayza.pro", "stayza.pro")).not.toBeNull();
+    expect(customHostnameError("acme.stayza.pro", "stayza.pro")).not.toBeNull();
+    expect(
+      customHostnameError("acme.localhost", "localhost:3000")
+    ).not.toBeNull();
+  });
+
+  it("matches the TXT record even when split into chunks", () => {
+    const record = customDomainTxtRecord("book.example.com", "abc123");
+
+    expect(record).toEqual({
+      name: "_stayza-verification.book.example.com",
+      value: "stayza-verification=abc123",
+    });
+    expect(
+      hasVerificationRecord(
+        [["v=spf1 -all"], ["stayza-verification=", "abc123"]],
+        record.value
+      )
+    ).toBe(true);
+    expect(
+      hasVerificationRecord([["stayza-verification=other"]], record.value)
+    ).toBe(false);
+    expect(hasVerificationRecord([], record.value)).toBe(false);
+  });
+
+  it("suggests a booking host from the realtor's website", () => {
+    expect(
+      suggestCustomHostname("https://www.example.com/about", "stayza.pro")
+    ).toBe("book.example.com");
+    expect(
+      suggestCustomHostname("https://acme.stayza.pro", "stayza.pro")
+    ).toBeNull();
+    expect(suggestCustomHostname(null, "stayza.pro")).toBeNull();
+  });
+});
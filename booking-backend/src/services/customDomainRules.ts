@@ -0,0 +1,96 @@
+// Ownership is proven with a TXT record at <prefix>.<hostname>
+export const CUSTOM_DOMAIN_TXT_PREFIX = "_stayza-verification";
+const TXT_VALUE_PREFIX = "stayza-verification=";
+
+const DNS_LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+/**
+ * Reduce whatever a realtor typed (a URL, a host with a port, a trailing
+ * dot) to a bare lowercase hostname.
+ */
+export const normalizeCustomHostname = (input: string | null | undefined) =>
+  String(input || "")
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .split(/[/?#]/)[0]
+    .split(":")[0]
+    .replace(/\.$/, "");
+
+/**
+ * Why a hostname can't be used as a custom domain, or null when it can.
+ * Hosts on the platform domain are refused: those are already served as
+ * realtor subdomains.
+ */
+export const customHostnameError = (
+  hostname: string,
+  platformDomain: string,
+): string | null => {
+  if (!hostname) {
+    return "Enter the domain you want to use, e.g. book.yourbusiness.com";
+  }
+
+  const labels = hostname.split(".");
+  if (
+    hostname.length > 253 ||
+    labels.length < 2 ||
+    !labels.every((label) => DNS_LABEL.test(label))
+  ) {
+    return "Enter a valid domain, e.g. book.yourbusiness.com";
+  }
+
+  if (/^\d+$/.test(labels[labels.length - 1])) {
+    return "Use a domain name, not an IP address";
+  }
+
+  const platformHost = normalizeCustomHostname(platformDomain);
+  if (
+    hostname === "localhost" ||
+    hostname.endsWith(".localhost") ||
+    hostname === platformHost ||
+    hostname.endsWith(`.${platformHost}`)
+  ) {
+    return "Use a domain you own. Your Stayza subdomain works without any setup";
+  }
+
+  return null;
+};
+
+/**
+ * The TXT record a realtor publishes to prove they control a hostname
+ */
+export const customDomainTxtRecord = (
+  hostname: string,
+  verificationToken: string,
+): { name: string; value: string } => ({
+  name: `${CUSTOM_DOMAIN_TXT_PREFIX}.${hostname}`,
+  value: `${TXT_VALUE_PREFIX}${verificationToken}`,
+});
+
+/**
+ * Whether a TXT lookup answered with the expected value. Long records come
+ * back split into character-strings, so each record's chunks are joined.
+ */
+export const hasVerificationRecord = (
+  answers: string[][],
+  expectedValue: string,
+): boolean =>
+  answers.some((chunks) => chunks.join("").trim() === expectedValue);
+
+/**
+ * A custom domain to suggest from the realtor's existing website, e.g.
+ * https://www.example.com -> book.example.com. Null when the website is
+ * missing or is itself their Stayza subdomain.
+ */
+export const suggestCustomHostname = (
+  websiteUrl: string | null | undefined,
+  platformDomain: string,
+): string | null => {
+  const host = normalizeCustomHostname(websiteUrl).replace(/^www\./, "");
+  if (!host) {
+    return null;
+  }
+
+  const suggestion = `book.${host}`;
+  return customHostnameError(suggestion, platformDomain) ? null : suggestion;
+};
@@ -0,0 +1,201 @@
+import { randomBytes } from "crypto";
+import { CustomDomainStatus, RealtorCustomDomain } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { config } from "@/config";
+import { AppError } from "@/middleware/errorHandler";
+import { logger } from "@/utils/logger";
+import { clearCustomDomainCache, getDomainConfig } from "@/utils/domains";
+import { getDnsResolver } from "@/services/dnsResolver";
+import {
+  customDomainTxtRecord,
+  customHostnameError,
+  hasVerificationRecord,
+  normalizeCustomHostname,
+  suggestCustomHostname,
+} from "@/services/customDomainRules";
+
+export interface CustomDomainView {
+  hostname: string;
+  status: CustomDomainStatus;
+  verifiedAt: Date | null;
+  lastCheckedAt: Date | null;
+  lastCheckError: string | null;
+  // DNS records the realtor needs to publish
+  txtRecord: { name: string; value: string };
+  cnameTarget: string;
+}
+
+const toView = (domain: RealtorCustomDomain): CustomDomainView => ({
+  hostname: domain.hostname,
+  status: domain.status,
+  verifiedAt: domain.verifiedAt,
+  lastCheckedAt: domain.lastCheckedAt,
+  lastCheckError: domain.lastCheckError,
+  txtRecord: customDomainTxtRecord(domain.hostname, domain.verificationToken),
+  cnameTarget: config.CUSTOM_DOMAIN_TARGET,
+});
+
+const platformDomain = () => getDomainConfig().baseDomain;
+
+const findVerifiedElsewhere = (hostname: string, realtorId: string) =>
+  prisma.realtorCustomDomain.findFirst({
+    where: {
+      hostname,
+      status: CustomDomainStatus.VERIFIED,
+      realtorId: { not: realtorId },
+    },
+    select: { id: true },
+  });
+
+export const getCustomDomainSettings = async (realtorId: string) => {
+  const [domain, realtor] = await Promise.all([
+    prisma.realtorCustomDomain.findUnique({ where: { realtorId } }),
+    prisma.realtor.findUnique({
+      where: { id: realtorId },
+      select: { websiteUrl: true },
+    }),
+  ]);
+
+  return {
+    domain: domain ? toView(domain) : null,
+    suggestedHostname: suggestCustomHostname(
+      realtor?.websiteUrl,
+      platformDomain(),
+    ),
+  };
+};
+
+/**
+ * Add or replace the realtor's custom domain. A new hostname starts
+ * unverified with a fresh token; re-submitting the current one keeps it.
+ */
+export const claimCustomDomain = async (
+  realtorId: string,
+  input: string,
+): Promise<{ domain: CustomDomainView; previousHostname: string | null }> => {
+  const hostname = normalizeCustomHostname(input);
+  const hostnameError = customHostnameError(hostname, platformDomain());
+  if (hostnameError) {
+    throw new AppError(hostnameError, 400);
+  }
+
+  if (await findVerifiedElsewhere(hostname, realtorId)) {
+    throw new AppError(
+      "This domain is already connected to another Stayza website",
+      409,
+    );
+  }
+
+  const existing = await prisma.realtorCustomDomain.findUnique({
+    where: { realtorId },
+  });
+  if (existing?.hostname === hostname) {
+    return { domain: toView(existing), previousHostname: null };
+  }
+
+  const verificationToken = randomBytes(16).toString("hex");
+  const domain = await prisma.realtorCustomDomain.upsert({
+    where: { realtorId },
+    create: { realtorId, hostname, verificationToken },
+    update: {
+      hostname,
+      verificationToken,
+      status: CustomDomainStatus.PENDING,
+      verifiedAt: null,
+      lastCheckedAt: null,
+      lastCheckError: null,
+    },
+  });
+
+  clearCustomDomainCache(existing?.hostname);
+
+  return {
+    domain: toView(domain),
+    previousHostname: existing?.hostname ?? null,
+  };
+};
+
+/**
+ * Look up the verification TXT record and record the outcome. A verified
+ * domain whose record has gone is marked FAILED and stops serving the site.
+ * On success, other realtors' unverified claims on the hostname are dropped.
+ */
+export const verifyCustomDomain = async (
+  realtorId: string,
+  now: Date = new Date(),
+): Promise<CustomDomainView> => {
+  const domain = await prisma.realtorCustomDomain.findUnique({
+    where: { realtorId },
+  });
+  if (!domain) {
+    throw new AppError("Add a custom domain before verifying it", 404);
+  }
+
+  const txtRecord = customDomainTxtRecord(
+    domain.hostname,
+    domain.verificationToken,
+  );
+
+  let checkError: string | null = null;
+  try {
+    const answers = await getDnsResolver().resolveTxt(txtRecord.name);
+    if (!hasVerificationRecord(answers, txtRecord.value)) {
+      checkError = `No TXT record with the value ${txtRecord.value} was found at ${txtRecord.name}. DNS changes can take up to an hour to show up.`;
+    } else if (await findVerifiedElsewhere(domain.hostname, realtorId)) {
+      checkError = "This domain is already connected to another Stayza website";
+    }
+  } catch (error) {
+    logger.warn("Custom domain TXT lookup failed", {
+      hostname: domain.hostname,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    checkError =
+      "We couldn't look up your DNS records right now. Try again in a few minutes.";
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    if (!checkError) {
+      await tx.realtorCustomDomain.deleteMany({
+        where: {
+          hostname: domain.hostname,
+          realtorId: { not: realtorId },
+          status: { not: CustomDomainStatus.VERIFIED },
+        },
+      });
+    }
+
+    return tx.realtorCustomDomain.update({
+      where: { id: domain.id },
+      data: checkError
+        ? {
+            status: CustomDomainStatus.FAILED,
+            lastCheckedAt: now,
+            lastCheckError: checkError,
+          }
+        : {
+            status: CustomDomainStatus.VERIFIED,
+            verifiedAt: domain.verifiedAt ?? now,
+            lastCheckedAt: now,
+            lastCheckError: null,
+          },
+    });
+  });
+
+  clearCustomDomainCache(domain.hostname);
+
+  return toView(updated);
+};
+
+export const removeCustomDomain = async (realtorId: string) => {
+  const domain = await prisma.realtorCustomDomain.findUnique({
+    where: { realtorId },
+  });
+  if (!domain) {
+    throw new AppError("No custom domain to remove", 404);
+  }
+
+  await prisma.realtorCustomDomain.delete({ where: { id: domain.id } });
+  clearCustomDomainCache(domain.hostname);
+
+  return domain;
+};
@@ -9,16 +9,23 @@ import {
   BookingStatus,
   PaymentStatus,
   EscrowStatus,
+  JournalEntryType,
+  LedgerAccount,
   Prisma,
   WalletOwnerType,
   WalletTransactionSource,
+  ScheduledMessageStatus,
 } from "@prisma/client";
 import { logger } from "@/utils/logger";
 import { config } from "@/config";
 import { sendEmail } from "@/services/email";
+import { actsForRealtor } from "@/services/realtorTeam";
+import { realtorAccessWhere } from "@/services/realtorTeamRules";
 import * as walletService from "./walletService";
 import * as escrowService from "./escrowService";
-import { processRefund } from "./paystack";
+import { refundPayment } from "./paymentGateway";
+import { postJournalEntry } from "./ledgerService";
+import { credit, debit, roundMoney } from "./ledgerRules";
 
 /**
  * DISPUTE V2 SYSTEM - SYSTEM-LEVEL, NON-VAGUE
@@ -634,11 +641,15 @@ export const respondToDispute = async (
 
   // Validate responder is the counterparty
   const isRoomFeeDispute = dispute.disputeSubject === DisputeSubject.ROOM_FEE;
-  const expectedResponderId = isRoomFeeDispute
-    ? dispute.booking.property.realtor.userId // Realtor responds to guest's room fee dispute
-    : dispute.booking.guestId; // Guest responds to realtor's deposit dispute
-
-  if (responderId !== expectedResponderId) {
+  const isCounterparty = isRoomFeeDispute
+    ? await actsForRealtor(
+        responderId,
+        dispute.booking.property.realtorId,
+        "disputes.manage",
+      ) // Realtor or their team responds to guest's room fee dispute
+    : responderId === dispute.booking.guestId; // Guest responds to realtor's deposit dispute
+
+  if (!isCounterparty) {
     throw new Error("Only the counterparty can respond to this dispute");
   }
 
@@ -872,13 +883,25 @@ const executeDisputeResolution = async (
         const deposit = payment.securityDepositAmount.toNumber();
         const totalRefund = roomFee + deposit;
 
-        // Refund via Paystack
+        // Refund through the gateway that collected the payment
         const transactionId =
           payment.providerTransactionId || payment.reference;
         if (!transactionId) {
           throw new Error("Payment reference not found");
         }
-        await processRefund(transactionId, totalRefund);
+        await refundPayment(payment, totalRefund);
+
+        await postJournalEntry(tx, {
+          type: JournalEntryType.ESCROW_REFUND,
+          reference: disputeId,
+          bookingId: booking.id,
+          description: "Room fee and deposit refunded after dispute",
+          currency: payment.currency,
+          lines: [
+            debit(LedgerAccount.ESCROW, totalRefund, booking.id),
+            credit(LedgerAccount.GATEWAY_BALANCE, totalRefund),
+          ],
+        });
 
         // Update escrow
         await tx.escrow.update({
@@ -896,6 +919,18 @@ const executeDisputeResolution = async (
           data: { status: BookingStatus.CANCELLED },
         });
 
+        // Drop check-in/checkout messages still queued for the stay
+        await tx.scheduledMessage.updateMany({
+          where: {
+            bookingId: booking.id,
+            status: ScheduledMessageStatus.PENDING,
+          },
+          data: {
+            status: ScheduledMessageStatus.CANCELLED,
+            cancelledAt: new Date(),
+          },
+        });
+
         // Update payment
         await tx.payment.update({
           where: { id: payment.id },
@@ -913,34 +948,59 @@ const executeDisputeResolution = async (
         if (!transactionId) {
           throw new Error("Payment reference not found");
         }
-        await processRefund(transactionId, guestRefundAmount);
+        await refundPayment(payment, guestRefundAmount);
+
+        const realtorShare = roundMoney(realtorPayoutAmount);
+        const platformShare = roundMoney(platformFeeAmount);
 
         // Credit realtor wallet (60% of room fee)
         const realtorWallet = await walletService.getOrCreateWallet(
           WalletOwnerType.REALTOR,
           booking.property.realtorId,
+          tx,
+          payment.currency,
         );
         await walletService.creditWallet(
           realtorWallet.id,
-          realtorPayoutAmount,
+          realtorShare,
           WalletTransactionSource.ROOM_FEE,
           booking.id,
           { disputeId, partialRefund: true },
+          tx,
         );
 
         // Credit platform wallet (10% of room fee)
         const platformWallet = await walletService.getOrCreateWallet(
           WalletOwnerType.PLATFORM,
           "platform",
+          tx,
+          payment.currency,
         );
         await walletService.creditWallet(
           platformWallet.id,
-          platformFeeAmount,
+          platformShare,
           WalletTransactionSource.ROOM_FEE,
           booking.id,
           { disputeId, partialRefund: true },
+          tx,
         );
 
+        // The guest's refund clears whatever the split left in escrow
+        const refundPosting = roundMoney(
+          payment.roomFeeAmount.toNumber() - realtorShare - platformShare,
+        );
+        await postJournalEntry(tx, {
+          type: JournalEntryType.ESCROW_REFUND,
+          reference: disputeId,
+          bookingId: booking.id,
+          description: "Partial room fee refunded after dispute",
+          currency: payment.currency,
+          lines: [
+            debit(LedgerAccount.ESCROW, refundPosting, booking.id),
+            credit(LedgerAccount.GATEWAY_BALANCE, refundPosting),
+          ],
+        });
+
         // Update escrow - room fee released, deposit still held
         await tx.escrow.update({
           where: { bookingId: booking.id },
@@ -967,30 +1027,42 @@ const executeDisputeResolution = async (
         });
       } else if (finalOutcome === DisputeFinalOutcome.NO_REFUND_EXECUTED) {
         // No refund: release based on effective commission snapshot
+        const realtorShare = roundMoney(realtorPayoutAmount);
+        // Platform takes the remainder so the split empties escrow
+        const platformShare = roundMoney(
+          payment.roomFeeAmount.toNumber() - realtorShare,
+        );
+
         // Credit realtor wallet
         const realtorWallet = await walletService.getOrCreateWallet(
           WalletOwnerType.REALTOR,
           booking.property.realtorId,
+          tx,
+          payment.currency,
         );
         await walletService.creditWallet(
           realtorWallet.id,
-          realtorPayoutAmount,
+          realtorShare,
           WalletTransactionSource.ROOM_FEE,
           booking.id,
           { disputeId, noRefund: true },
+          tx,
         );
 
         // Credit platform wallet
         const platformWallet = await walletService.getOrCreateWallet(
           WalletOwnerType.PLATFORM,
           "platform",
+          tx,
+          payment.currency,
         );
         await walletService.creditWallet(
           platformWallet.id,
-          platformFeeAmount,
+          platformShare,
           WalletTransactionSource.ROOM_FEE,
           booking.id,
           { disputeId, noRefund: true },
+          tx,
         );
 
         // Update escrow
@@ -1025,6 +1097,8 @@ const executeDisputeResolution = async (
         const realtorWallet = await walletService.getOrCreateWallet(
           WalletOwnerType.REALTOR,
           booking.property.realtorId,
+          tx,
+          payment.currency,
         );
         await walletService.creditWallet(
           realtorWallet.id,
@@ -1032,17 +1106,34 @@ const executeDisputeResolution = async (
           WalletTransactionSource.SECURITY_DEPOSIT,
           booking.id,
           { disputeId, depositClaim: true },
+          tx,
         );
       }
 
       if (guestRefundAmount > 0) {
-        // Refund remainder to guest via Paystack
+        // Refund remainder to guest through the payment's gateway
         const transactionId =
           payment.providerTransactionId || payment.reference;
         if (!transactionId) {
           throw new Error("Payment reference not found");
         }
-        await processRefund(transactionId, guestRefundAmount);
+        await refundPayment(payment, guestRefundAmount);
+
+        const refundPosting = roundMoney(
+          payment.securityDepositAmount.toNumber() -
+            roundMoney(realtorPayoutAmount),
+        );
+        await postJournalEntry(tx, {
+          type: JournalEntryType.ESCROW_REFUND,
+          reference: disputeId,
+          bookingId: booking.id,
+          description: "Security deposit refunded after dispute",
+          currency: payment.currency,
+          lines: [
+            debit(LedgerAccount.ESCROW, refundPosting, booking.id),
+            credit(LedgerAccount.GATEWAY_BALANCE, refundPosting),
+          ],
+        });
       }
 
       // Update escrow
@@ -1241,8 +1332,8 @@ export const getRealtorDisputes = async (
 ) => {
   try {
     // First get realtor record
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: realtorUserId },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(realtorUserId),
     });
 
     if (!realtor) {
@@ -1332,8 +1423,8 @@ export const getRealtorDisputes = async (
  */
 export const getRealtorDisputeStats = async (realtorUserId: string) => {
   try {
-    const realtor = await prisma.realtor.findUnique({
-      where: { userId: realtorUserId },
+    const realtor = await prisma.realtor.findFirst({
+      where: realtorAccessWhere(realtorUserId),
     });
 
     if (!realtor) {
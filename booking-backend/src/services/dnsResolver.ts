@@ -0,0 +1,113 @@
+import { Resolver } from "dns/promises";
+import { config } from "@/config";
+import { logger } from "@/utils/logger";
+
+export interface DnsResolver {
+  readonly name: string;
+  // One entry per TXT record, each split into its character-strings
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+// Resolver error codes that just mean "no such record"
+const NO_RECORD_CODES = new Set(["ENOTFOUND", "ENODATA", "NXDOMAIN"]);
+
+export class SystemDnsResolver implements DnsResolver {
+  readonly name = "SYSTEM";
+  private resolver = new Resolver({ timeout: 5000, tries: 2 });
+
+  constructor(servers: string[] = []) {
+    if (servers.length > 0) {
+      this.resolver.setServers(servers);
+    }
+  }
+
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    try {
+      return await this.resolver.resolveTxt(hostname);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code && NO_RECORD_CODES.has(code)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Answers TXT lookups from memory instead of DNS. Used in development, where
+ * test domains have no real records, and in tests.
+ */
+export class LocalDnsResolver implements DnsResolver {
+  readonly name = "LOCAL";
+  private records = new Map<string, string[]>();
+
+  constructor(records: Record<string, string[]> = {}) {
+    Object.entries(records).forEach(([hostname, values]) =>
+      this.setTxtRecords(hostname, values),
+    );
+  }
+
+  setTxtRecords(hostname: string, values: string[]): void {
+    this.records.set(hostname.toLowerCase().replace(/\.$/, ""), values);
+  }
+
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    const values =
+      this.records.get(hostname.toLowerCase().replace(/\.$/, "")) || [];
+    return values.map((value) => [value]);
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
+
+const parseLocalRecords = (raw?: string): Record<string, string[]> => {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, string | string[]>;
+    return Object.fromEntries(
+      Object.entries(parsed).map(([hostname, values]) => [
+        hostname,
+        Array.isArray(values) ? values.map(String) : [String(values)],
+      ]),
+    );
+  } catch (error) {
+    logger.warn("Ignoring DNS_LOCAL_TXT_RECORDS: not valid JSON");
+    return {};
+  }
+};
+
+let dnsResolver: DnsResolver | null = null;
+
+export const getDnsResolver = (): DnsResolver => {
+  if (dnsResolver) {
+    return dnsResolver;
+  }
+
+  if (config.DNS_RESOLVER === "local") {
+    dnsResolver = new LocalDnsResolver(
+      parseLocalRecords(config.DNS_LOCAL_TXT_RECORDS),
+    );
+  } else {
+    dnsResolver = new SystemDnsResolver(
+      String(config.DNS_RESOLVER_SERVERS || "")
+        .split(",")
+        .map((server) => server.trim())
+        .filter(Boolean),
+    );
+  }
+
+  return dnsResolver;
+};
+
+/**
+ * Swap the active resolver (tests use a LocalDnsResolver to publish records)
+ */
+export const setDnsResolver = (resolver: DnsResolver | null): void => {
+  dnsResolver = resolver;
+};
@@ -1,6 +1,7 @@
 import { config } from "@/config";
 import { queueAndSendEmail } from "@/services/emailWorker";
 import { logger } from "@/utils/logger";
+import { CURRENCY_DEFINITIONS, isDisplayCurrency } from "@/services/currency";
 
 // Stayza Brand Colors
 const brandColors = {
@@ -15,6 +16,15 @@ const brandColors = {
   error: "#EF4444", // Red
 } as const;
 
+// Amounts in emails use the currency symbol with grouped thousands
+const formatEmailAmount = (amount: number, currency: string = "NGN") =>
+  `${
+    CURRENCY_DEFINITIONS[isDisplayCurrency(currency) ? currency : "NGN"].symbol
+  }${amount.toLocaleString("en-NG", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
 // Email template base with Stayza branding
 const getEmailHeader = () => `
   <div style="background-color: ${brandColors.primary}; padding: 40px 20px; text-align: center;">
@@ -759,6 +769,11 @@ export const emailTemplates = {
               ? `<p><strong>Contact:</strong> ${booking?.realtorEmail || realtor?.businessEmail}</p>`
               : ""
           }
+          ${
+            booking?.siteUrl
+              ? `<p><strong>Website:</strong> <a href="${booking.siteUrl}">${booking.siteUrl}</a></p>`
+              : ""
+          }
         </div>
 
         ${
@@ -1609,6 +1624,7 @@ export const sendWithdrawalOtpEmail = async (
   otp: string,
   amount: number,
   expiresInMinutes: number = 10,
+  currency: string = "NGN",
 ) => {
   const template = {
     subject: "Withdrawal verification code - Stayza Pro",
@@ -1624,12 +1640,9 @@ export const sendWithdrawalOtpEmail = async (
       </p>
 
       <p style="font-size: 16px; margin-bottom: 20px;">
-        Use this 4-digit code to authorize your withdrawal of <strong>NGN ${amount.toLocaleString(
-          "en-NG",
-          {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2,
-          },
+        Use this 4-digit code to authorize your withdrawal of <strong>${formatEmailAmount(
+          amount,
+          currency,
         )}</strong>.
       </p>
 
@@ -1750,6 +1763,7 @@ export const sendWithdrawalRequestedEmail = async (
   name: string,
   amount: number,
   reference: string,
+  currency: string = "NGN",
 ) => {
   const template = {
     subject: "Withdrawal request received - Stayza Pro",
@@ -1777,10 +1791,7 @@ export const sendWithdrawalRequestedEmail = async (
             <td style="padding: 8px 0; text-align: right; font-size: 20px; color: ${
               brandColors.primary
             }; font-weight: 700;">
-              ₦${amount.toLocaleString("en-NG", {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-              })}
+              ${formatEmailAmount(amount, currency)}
             </td>
           </tr>
           <tr>
@@ -1836,6 +1847,7 @@ export const sendWithdrawalCompletedEmail = async (
   name: string,
   amount: number,
   reference: string,
+  currency: string = "NGN",
 ) => {
   const template = {
     subject: "Withdrawal completed - Stayza Pro",
@@ -1863,10 +1875,7 @@ export const sendWithdrawalCompletedEmail = async (
             <td style="padding: 8px 0; text-align: right; font-size: 20px; color: ${
               brandColors.success
             }; font-weight: 700;">
-              ₦${amount.toLocaleString("en-NG", {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-              })}
+              ${formatEmailAmount(amount, currency)}
             </td>
           </tr>
           <tr>
@@ -1926,6 +1935,7 @@ export const sendWithdrawalFailedEmail = async (
   name: string,
   amount: number,
   reason: string,
+  currency: string = "NGN",
 ) => {
   const template = {
     subject: "Withdrawal not processed - action needed",
@@ -1953,10 +1963,7 @@ export const sendWithdrawalFailedEmail = async (
             <td style="padding: 8px 0; text-align: right; font-size: 20px; color: ${
               brandColors.neutralDark
             }; font-weight: 700;">
-              ₦${amount.toLocaleString("en-NG", {
-                minimumFractionDigits: 2,
-                maximumFractionDigits: 2,
-              })}
+              ${formatEmailAmount(amount, currency)}
             </td>
           </tr>
           <tr>
@@ -2031,3 +2038,191 @@ export const sendWithdrawalFailedEmail = async (
 
   return sendEmail(to, template);
 };
+
+export const sendNotificationDigestEmail = async (input: {
+  to: string;
+  firstName?: string | null;
+  frequency: string;
+  notifications: Array<{
+    title: string;
+    message: string;
+    createdAt: Date;
+    url?: string;
+  }>;
+  totalCount: number;
+  notificationsUrl: string;
+}) => {
+  const {
+    to,
+    firstName,
+    frequency,
+    notifications,
+    totalCount,
+    notificationsUrl,
+  } = input;
+
+  const heading =
+    frequency === "hourly"
+      ? "Your hourly summary"
+      : frequency === "weekly"
+        ? "Your weekly summary"
+        : frequency === "daily"
+          ? "Your daily summary"
+          : "While you were away";
+
+  const items = notifications
+    .map(
+      (notification) => `
+        <div style="padding: 16px 0; border-bottom: 1px solid ${brandColors.neutralLight};">
+          <p style="margin: 0 0 4px 0; font-size: 16px; font-weight: 600; color: ${brandColors.neutralDark};">
+            ${notification.url ? `<a href="${notification.url}" style="color: ${brandColors.primary}; text-decoration: none;">${notification.title}</a>` : notification.title}
+          </p>
+          <p style="margin: 0 0 4px 0; font-size: 14px; color: ${brandColors.neutralDark};">${notification.message}</p>
+          <p style="margin: 0; font-size: 12px; color: #6B7280;">${notification.createdAt.toUTCString()}</p>
+        </div>
+      `,
+    )
+    .join("");
+
+  const remaining = totalCount - notifications.length;
+
+  const template = {
+    subject: `${heading}: ${totalCount} new notification${totalCount === 1 ? "" : "s"} | Stayza Pro`,
+    html: getEmailContainer(
+      `<h2 style="color: ${brandColors.primary}; font-size: 24px; font-weight: 700; margin: 0 0 16px 0;">${heading}</h2>` +
+        `<p style="font-size: 16px; margin: 0 0 20px 0; color: ${brandColors.neutralDark};">Hi ${firstName || "there"}, here is what happened on your account.</p>` +
+        items +
+        (remaining > 0
+          ? `<p style="font-size: 14px; margin: 20px 0 0 0; color: #6B7280;">And ${remaining} more in your notification center.</p>`
+          : "") +
+        getButton(notificationsUrl, "View all notifications", "primary") +
+        `<p style="font-size: 12px; margin: 0; color: #6B7280; text-align: center;">You can change how often you receive these summaries in your notification preferences.</p>`,
+    ),
+  };
+
+  return sendEmail(to, template);
+};
+
+/**
+ * Send a realtor their statement for a closed period with the PDF attached
+ */
+export const sendRealtorStatementEmail = async (input: {
+  to: string;
+  businessName: string;
+  periodLabel: string;
+  openingBalance: number;
+  closingBalance: number;
+  currency: string;
+  filename: string;
+  pdf: Buffer;
+}) => {
+  const formatAmount = (amount: number) =>
+    formatEmailAmount(amount, input.currency);
+
+  const template = {
+    subject: `Your ${input.periodLabel} statement - Stayza Pro`,
+    html: getEmailContainer(
+      `<h2 style="color: ${brandColors.primary}; font-size: 24px; font-weight: 700; margin: 0 0 16px 0;">Your ${input.periodLabel} statement</h2>` +
+        `<p style="font-size: 16px; margin: 0 0 20px 0; color: ${brandColors.neutralDark};">Hi ${input.businessName}, ${input.periodLabel} has closed. Your statement is attached as a PDF; a CSV copy for your accountant is available from your dashboard.</p>` +
+        `<div style="background-color: ${brandColors.neutralLight}; padding: 20px; border-radius: 8px; margin: 30px 0;"><table style="width: 100%;">` +
+        `<tr><td style="padding: 8px 0; font-weight: 600;">Opening balance:</td><td style="padding: 8px 0; text-align: right;">${formatAmount(input.openingBalance)}</td></tr>` +
+        `<tr><td style="padding: 8px 0; font-weight: 600;">Closing balance:</td><td style="padding: 8px 0; text-align: right; font-weight: 700; color: ${brandColors.primary};">${formatAmount(input.closingBalance)}</td></tr>` +
+        `</table></div>` +
+        getButton(
+          `${config.FRONTEND_URL}/statements`,
+          "View statements",
+          "primary",
+        ),
+    ),
+  };
+
+  return sendEmail(input.to, template, [
+    {
+      filename: input.filename,
+      content: input.pdf,
+      contentType: "application/pdf",
+    },
+  ]);
+};
+
+/**
+ * Invite someone to join the admin team with the given role
+ */
+export const sendAdminInviteEmail = async (input: {
+  to: string;
+  inviterName: string;
+  roleLabel: string;
+  inviteUrl: string;
+  expiresAt: Date;
+}) => {
+  const template = {
+    subject: "You've been invited to the Stayza Pro admin team",
+    html: getEmailContainer(
+      `<h2 style="color: ${brandColors.primary}; font-size: 24px; font-weight: 700; margin: 0 0 16px 0;">Join the admin team</h2>` +
+        `<p style="font-size: 16px; margin: 0 0 20px 0; color: ${brandColors.neutralDark};">${input.inviterName} has invited you to Stayza Pro as <strong>${input.roleLabel}</strong>. Set up your account to get started.</p>` +
+        getButton(input.inviteUrl, "Accept invitation", "primary") +
+        `<p style="font-size: 12px; margin: 0; color: #6B7280; text-align: center;">This invitation expires on ${input.expiresAt.toUTCString()}. If you weren't expecting it, you can ignore this email.</p>`,
+    ),
+  };
+
+  return sendEmail(input.to, template);
+};
+
+export const sendRealtorTeamInviteEmail = async (input: {
+  to: string;
+  inviterName: string;
+  businessName: string;
+  roleLabel: string;
+  inviteUrl: string;
+  expiresAt: Date;
+}) => {
+  const template = {
+    subject: `You've been invited to join ${input.businessName} on Stayza Pro`,
+    html: getEmailContainer(
+      `<h2 style="color: ${brandColors.primary}; font-size: 24px; font-weight: 700; margin: 0 0 16px 0;">Join ${input.businessName}</h2>` +
+        `<p style="font-size: 16px; margin: 0 0 20px 0; color: ${brandColors.neutralDark};">${input.inviterName} has invited you to the ${input.businessName} team as <strong>${input.roleLabel}</strong>. Create your own login to get started.</p>` +
+        getButton(input.inviteUrl, "Accept invitation", "primary") +
+        `<p style="font-size: 12px; margin: 0; color: #6B7280; text-align: center;">This invitation expires on ${input.expiresAt.toUTCString()}. If you weren't expecting it, you can ignore this email.</p>`,
+    ),
+  };
+
+  return sendEmail(input.to, template);
+};
+
+export const sendPayoutAccountChangedEmail = async (input: {
+  to: string;
+  name: string;
+  businessName: string;
+  previousAccount: string | null;
+  newAccount: string;
+  changedAt: Date;
+  holdUntil: Date | null;
+  freezeUrl: string;
+}) => {
+  const holdNotice = input.holdUntil
+    ? `Withdrawals are on hold until ${input.holdUntil.toUTCString()} while the new account settles in.`
+    : "";
+
+  const template = {
+    subject: "Your payout account was changed - Stayza Pro",
+    html: getEmailContainer(
+      `<h2 style="color: ${brandColors.primary}; font-size: 24px; font-weight: 700; margin: 0 0 16px 0;">Payout account changed</h2>` +
+        `<p style="font-size: 16px; margin: 0 0 20px 0; color: ${brandColors.neutralDark};">Hi <strong>${input.name}</strong>, the payout account for ${input.businessName} was changed on ${input.changedAt.toUTCString()}.</p>` +
+        `<div style="background-color: ${brandColors.neutralLight}; padding: 18px; border-radius: 10px; margin: 24px 0;">` +
+        `<p style="margin: 0 0 8px 0; font-size: 14px;"><strong>Previous account:</strong> ${input.previousAccount || "None"}</p>` +
+        `<p style="margin: 0; font-size: 14px;"><strong>New account:</strong> ${input.newAccount}</p>` +
+        `</div>` +
+        (holdNotice
+          ? `<p style="font-size: 15px; margin: 0 0 20px 0; color: ${brandColors.neutralDark};">${holdNotice}</p>`
+          : "") +
+        getInfoBox(
+          "Wasn't you?",
+          "Freeze payouts straight away. Nothing leaves your wallet until our team has checked your account.",
+          "warning",
+        ) +
+        getButton(input.freezeUrl, "This wasn't me", "primary"),
+    ),
+  };
+
+  return sendEmail(input.to, template);
+};
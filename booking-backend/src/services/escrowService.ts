@@ -6,14 +6,19 @@ import {
   WalletOwnerType,
   WalletTransactionSource,
   EscrowStatus,
+  JournalEntryType,
+  LedgerAccount,
 } from "@prisma/client";
 import { Decimal } from "@prisma/client/runtime/library";
 import { prisma } from "@/config/database";
-import { paystackService } from "./paystack";
+import { refundPayment } from "./paymentGateway";
 import { logger } from "@/utils/logger";
 import walletService from "./walletService";
-import { ensureRealtorTransferRecipientCode } from "./payoutAccountService";
+import { transferToRealtor } from "./payoutAccountService";
 import { config as appConfig } from "@/config";
+import { postJournalEntry } from "./ledgerService";
+import { formatMoney } from "./currency";
+import { credit, debit, roundMoney } from "./ledgerRules";
 
 interface FeeBreakdown {
   roomFee: number;
@@ -121,6 +126,15 @@ export const calculateFeeBreakdown = (
   };
 };
 
+// Escrow events are recorded in the booking's currency
+const getBookingCurrency = async (bookingId: string): Promise<string> => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: { currency: true },
+  });
+  return booking?.currency ?? "NGN";
+};
+
 /**
  * Create escrow event record for audit trail
  */
@@ -139,6 +153,7 @@ export const logEscrowEvent = async (params: {
       bookingId: params.bookingId,
       eventType: params.eventType,
       amount: new Prisma.Decimal(params.amount.toString()),
+      currency: await getBookingCurrency(params.bookingId),
       fromParty: "SYSTEM",
       toParty: "SYSTEM",
       notes: params.description || "",
@@ -166,6 +181,7 @@ export const createEscrowEvent = async (
       bookingId,
       eventType,
       amount: new Prisma.Decimal(amount),
+      currency: await getBookingCurrency(bookingId),
       fromParty,
       toParty,
       transactionReference,
@@ -212,6 +228,28 @@ export const holdFundsInEscrow = async (
       },
     });
 
+    // Room fee and deposit move from the guest's charge into escrow; the
+    // wallet credits below post the cleaning and service fees
+    await postJournalEntry(tx, {
+      type: JournalEntryType.PAYMENT_CAPTURED,
+      reference: paymentId,
+      bookingId,
+      description: "Room fee and security deposit held in escrow",
+      currency: booking.currency,
+      lines: [
+        debit(
+          LedgerAccount.GUEST_RECEIVABLE,
+          feeBreakdown.roomFee + feeBreakdown.securityDeposit,
+          bookingId,
+        ),
+        credit(
+          LedgerAccount.ESCROW,
+          feeBreakdown.roomFee + feeBreakdown.securityDeposit,
+          bookingId,
+        ),
+      ],
+    });
+
     // Update payment to mark ONLY room fee and deposit as held in escrow
     await tx.payment.update({
       where: { id: paymentId },
@@ -234,6 +272,7 @@ export const holdFundsInEscrow = async (
         WalletOwnerType.REALTOR,
         realtorId,
         tx,
+        booking.currency,
       );
       await walletService.creditWallet(
         realtorWallet.id,
@@ -251,6 +290,7 @@ export const holdFundsInEscrow = async (
         WalletOwnerType.PLATFORM,
         "platform", // Fixed platform ID
         tx,
+        booking.currency,
       );
       await walletService.creditWallet(
         platformWallet.id,
@@ -271,7 +311,7 @@ export const holdFundsInEscrow = async (
     "CUSTOMER",
     "ESCROW",
     undefined,
-    `Room fee of ₦${feeBreakdown.roomFee.toFixed(2)} held in escrow`,
+    `Room fee of ${formatMoney(feeBreakdown.roomFee, booking.currency)} held in escrow`,
   );
 
   if (feeBreakdown.securityDeposit > 0) {
@@ -282,9 +322,7 @@ export const holdFundsInEscrow = async (
       "CUSTOMER",
       "ESCROW",
       undefined,
-      `Security deposit of ₦${feeBreakdown.securityDeposit.toFixed(
-        2,
-      )} held in escrow`,
+      `Security deposit of ${formatMoney(feeBreakdown.securityDeposit, booking.currency)} held in escrow`,
     );
   }
 
@@ -297,9 +335,7 @@ export const holdFundsInEscrow = async (
       "CUSTOMER",
       "REALTOR",
       undefined,
-      `Cleaning fee of ₦${feeBreakdown.cleaningFee.toFixed(
-        2,
-      )} released immediately to realtor (non-refundable)`,
+      `Cleaning fee of ${formatMoney(feeBreakdown.cleaningFee, booking.currency)} released immediately to realtor (non-refundable)`,
     );
   }
 
@@ -311,9 +347,7 @@ export const holdFundsInEscrow = async (
       "CUSTOMER",
       "PLATFORM",
       undefined,
-      `Service fee of ₦${feeBreakdown.serviceFee.toFixed(
-        2,
-      )} released immediately to platform (non-refundable)`,
+      `Service fee of ${formatMoney(feeBreakdown.serviceFee, booking.currency)} released immediately to platform (non-refundable)`,
     );
   }
 
@@ -412,13 +446,15 @@ export const releaseRoomFeeSplit = async (
     ],
   });
   const realtorAmount = Number((roomFee * (1 - effectiveRate)).toFixed(2));
-  const platformAmount = Number((roomFee * effectiveRate).toFixed(2));
+  // Platform takes the remainder so the split always sums to the room fee
+  const platformAmount = roundMoney(roomFee - realtorAmount);
 
   // Get booking details
   const booking = await prisma.booking.findUnique({
     where: { id: bookingId },
     select: {
       id: true,
+      currency: true,
       property: {
         select: {
           realtor: true,
@@ -438,6 +474,7 @@ export const releaseRoomFeeSplit = async (
       WalletOwnerType.REALTOR,
       realtorId,
       tx,
+      booking.currency,
     );
     await walletService.creditWallet(
       realtorWallet.id,
@@ -458,6 +495,7 @@ export const releaseRoomFeeSplit = async (
       WalletOwnerType.PLATFORM,
       "platform",
       tx,
+      booking.currency,
     );
     await walletService.creditWallet(
       platformWallet.id,
@@ -500,9 +538,10 @@ export const releaseRoomFeeSplit = async (
       "ESCROW",
       "REALTOR_WALLET",
       `room_fee_${bookingId}_${paymentId.slice(-8)}`,
-      `Released ₦${realtorAmount.toFixed(
-        2,
-      )} (${((1 - effectiveRate) * 100).toFixed(2)}%) to realtor wallet from room fee`,
+      `Released ${formatMoney(realtorAmount, booking.currency)} (${(
+        (1 - effectiveRate) *
+        100
+      ).toFixed(2)}%) to realtor wallet from room fee`,
     );
 
     await createEscrowEvent(
@@ -512,7 +551,7 @@ export const releaseRoomFeeSplit = async (
       "ESCROW",
       "PLATFORM_WALLET",
       undefined,
-      `Released ₦${platformAmount.toFixed(2)} (${(effectiveRate * 100).toFixed(2)}%) to platform from room fee`,
+      `Released ${formatMoney(platformAmount, booking.currency)} (${(effectiveRate * 100).toFixed(2)}%) to platform from room fee`,
     );
   });
 
@@ -601,22 +640,16 @@ export const returnSecurityDeposit = async (
 
     // Process refund based on payment method
     try {
-      if (paymentMethod === PaymentMethod.PAYSTACK) {
-        const refundResult = await paystackService.processRefund(
-          transactionReference,
-          depositAmount,
-        );
-        logger.info("Paystack deposit refund initiated", {
-          bookingId,
-          paymentId,
-          customerId,
-          amount: depositAmount,
-          refundReference,
-          refundId: refundResult.id,
-        });
-      } else {
-        throw new Error(`Unsupported payment method: ${paymentMethod}`);
-      }
+      const refundResult = await refundPayment(payment, depositAmount);
+      logger.info("Deposit refund initiated", {
+        bookingId,
+        paymentId,
+        customerId,
+        provider: paymentMethod,
+        amount: depositAmount,
+        refundReference,
+        refundId: refundResult.refundId,
+      });
     } catch (refundError: any) {
       logger.error("Deposit refund failed", {
         bookingId,
@@ -662,6 +695,18 @@ export const returnSecurityDeposit = async (
       },
     });
 
+    await postJournalEntry(tx, {
+      type: JournalEntryType.ESCROW_REFUND,
+      reference: refundReference,
+      bookingId,
+      description: "Security deposit refunded to guest",
+      currency: payment.currency,
+      lines: [
+        debit(LedgerAccount.ESCROW, depositAmount, bookingId),
+        credit(LedgerAccount.GATEWAY_BALANCE, depositAmount),
+      ],
+    });
+
     // Create escrow event
     await createEscrowEvent(
       bookingId,
@@ -670,8 +715,9 @@ export const returnSecurityDeposit = async (
       "ESCROW",
       "CUSTOMER",
       refundReference,
-      `Returned security deposit of ₦${depositAmount.toFixed(
-        2,
+      `Returned security deposit of ${formatMoney(
+        depositAmount,
+        payment.currency,
       )} to customer via Paystack refund`,
     );
 
@@ -728,7 +774,7 @@ export const payRealtorFromDeposit = async (
 
     if (amount > depositAmount) {
       throw new Error(
-        `Requested amount ₦${amount} exceeds available deposit ₦${depositAmount}`,
+        `Requested amount ${formatMoney(amount, payment.currency)} exceeds available deposit ${formatMoney(depositAmount, payment.currency)}`,
       );
     }
 
@@ -774,29 +820,24 @@ export const payRealtorFromDeposit = async (
 
     // Transfer to realtor
     try {
-      if (paymentMethod === PaymentMethod.PAYSTACK) {
-        const recipientCode = await ensureRealtorTransferRecipientCode(
-          realtor.id,
-        );
-
-        const transferResult = await paystackService.initiateTransfer({
-          amount,
-          recipient: recipientCode,
-          reason: `Deposit claim: ${notes}`,
-          reference: transferReference,
-        });
+      // Payouts go out through the preferred healthy gateway, whichever
+      // one collected the payment
+      const transferResult = await transferToRealtor(realtor.id, {
+        amount,
+        currency: payment.currency,
+        reason: `Deposit claim: ${notes}`,
+        reference: transferReference,
+      });
 
-        logger.info("Paystack deposit transfer to realtor initiated", {
-          bookingId,
-          paymentId,
-          realtorId: realtor.id,
-          amount,
-          transferReference,
-          transferId: transferResult.transfer_code,
-        });
-      } else {
-        throw new Error(`Unsupported payment method: ${paymentMethod}`);
-      }
+      logger.info("Deposit transfer to realtor initiated", {
+        bookingId,
+        paymentId,
+        realtorId: realtor.id,
+        amount,
+        transferReference,
+        provider: transferResult.provider,
+        transferId: transferResult.transferId,
+      });
     } catch (transferError: any) {
       logger.error("Deposit transfer to realtor failed", {
         bookingId,
@@ -825,19 +866,15 @@ export const payRealtorFromDeposit = async (
     // Refund remaining deposit to customer if any
     if (remainingDeposit > 0) {
       try {
-        if (paymentMethod === PaymentMethod.PAYSTACK) {
-          const refundResult = await paystackService.processRefund(
-            transactionReference,
-            remainingDeposit,
-          );
-          logger.info("Paystack remaining deposit refund initiated", {
-            bookingId,
-            paymentId,
-            amount: remainingDeposit,
-            refundReference,
-            refundId: refundResult.id,
-          });
-        }
+        const refundResult = await refundPayment(payment, remainingDeposit);
+        logger.info("Remaining deposit refund initiated", {
+          bookingId,
+          paymentId,
+          provider: paymentMethod,
+          amount: remainingDeposit,
+          refundReference,
+          refundId: refundResult.refundId,
+        });
       } catch (refundError: any) {
         logger.error("Remaining deposit refund failed", {
           bookingId,
@@ -883,12 +920,41 @@ export const payRealtorFromDeposit = async (
         "ESCROW",
         "CUSTOMER",
         refundReference,
-        `Returned remaining security deposit of ₦${remainingDeposit.toFixed(
-          2,
+        `Returned remaining security deposit of ${formatMoney(
+          remainingDeposit,
+          payment.currency,
         )} to customer`,
       );
     }
 
+    await postJournalEntry(tx, {
+      type: JournalEntryType.ESCROW_TRANSFER,
+      reference: transferReference,
+      bookingId,
+      description: "Security deposit claim paid to realtor",
+      metadata: { realtorId: realtor.id },
+      currency: payment.currency,
+      lines: [
+        debit(LedgerAccount.ESCROW, amount, bookingId),
+        credit(LedgerAccount.GATEWAY_BALANCE, amount),
+      ],
+    });
+
+    const remainingPosting = roundMoney(depositAmount - roundMoney(amount));
+    if (remainingPosting > 0) {
+      await postJournalEntry(tx, {
+        type: JournalEntryType.ESCROW_REFUND,
+        reference: refundReference,
+        bookingId,
+        description: "Remaining security deposit refunded to guest",
+        currency: payment.currency,
+        lines: [
+          debit(LedgerAccount.ESCROW, remainingPosting, bookingId),
+          credit(LedgerAccount.GATEWAY_BALANCE, remainingPosting),
+        ],
+      });
+    }
+
     // Update payment
     await tx.payment.update({
       where: { id: paymentId },
@@ -898,6 +964,13 @@ export const payRealtorFromDeposit = async (
       },
     });
 
+    await tx.escrow.update({
+      where: { bookingId },
+      data: {
+        depositHeld: new Prisma.Decimal(0),
+      },
+    });
+
     logger.info("Deposit split completed", {
       bookingId,
       paymentId,
@@ -951,7 +1024,7 @@ export const refundRoomFeeToCustomer = async (
 
     if (refundAmount > roomFee) {
       throw new Error(
-        `Refund amount ₦${refundAmount} exceeds available room fee ₦${roomFee}`,
+        `Refund amount ${formatMoney(refundAmount, payment.currency)} exceeds available room fee ${formatMoney(roomFee, payment.currency)}`,
       );
     }
 
@@ -971,9 +1044,7 @@ export const refundRoomFeeToCustomer = async (
     const realtorAmount = Number(
       (remainingForRealtor * (1 - effectiveRate)).toFixed(2),
     );
-    const platformAmount = Number(
-      (remainingForRealtor * effectiveRate).toFixed(2),
-    );
+    const platformAmount = roundMoney(remainingForRealtor - realtorAmount);
 
     const paymentMethod = payment.method || PaymentMethod.PAYSTACK;
     const realtor = payment.booking.property.realtor;
@@ -1017,21 +1088,15 @@ export const refundRoomFeeToCustomer = async (
 
     // Refund to customer
     try {
-      if (paymentMethod === PaymentMethod.PAYSTACK) {
-        const refundResult = await paystackService.processRefund(
-          transactionReference,
-          refundAmount,
-        );
-        logger.info("Paystack room fee refund initiated", {
-          bookingId,
-          paymentId,
-          amount: refundAmount,
-          refundReference,
-          refundId: refundResult.id,
-        });
-      } else {
-        throw new Error(`Unsupported payment method: ${paymentMethod}`);
-      }
+      const refundResult = await refundPayment(payment, refundAmount);
+      logger.info("Room fee refund initiated", {
+        bookingId,
+        paymentId,
+        provider: paymentMethod,
+        amount: refundAmount,
+        refundReference,
+        refundId: refundResult.refundId,
+      });
     } catch (refundError: any) {
       logger.error("Room fee refund failed", {
         bookingId,
@@ -1058,32 +1123,22 @@ export const refundRoomFeeToCustomer = async (
     // Transfer remaining amount to realtor if any
     if (realtorAmount > 0) {
       try {
-        if (paymentMethod === PaymentMethod.PAYSTACK) {
-          const recipientCode = await ensureRealtorTransferRecipientCode(
-            realtor.id,
-          );
-
-          const transferResult = await paystackService.initiateTransfer({
-            amount: realtorAmount,
-            recipient: recipientCode,
-            reason: `Partial room fee payout: ${notes}`,
-            reference: transferReference,
-          });
-
-          logger.info(
-            "Paystack partial room fee transfer to realtor initiated",
-            {
-              bookingId,
-              paymentId,
-              realtorId: realtor.id,
-              amount: realtorAmount,
-              transferReference,
-              transferId: transferResult.transfer_code,
-            },
-          );
-        } else {
-          throw new Error(`Unsupported payment method: ${paymentMethod}`);
-        }
+        const transferResult = await transferToRealtor(realtor.id, {
+          amount: realtorAmount,
+          currency: payment.currency,
+          reason: `Partial room fee payout: ${notes}`,
+          reference: transferReference,
+        });
+
+        logger.info("Partial room fee transfer to realtor initiated", {
+          bookingId,
+          paymentId,
+          realtorId: realtor.id,
+          amount: realtorAmount,
+          transferReference,
+          provider: transferResult.provider,
+          transferId: transferResult.transferId,
+        });
       } catch (transferError: any) {
         logger.error("Partial room fee transfer to realtor failed", {
           bookingId,
@@ -1129,7 +1184,7 @@ export const refundRoomFeeToCustomer = async (
         "ESCROW",
         "REALTOR",
         transferReference,
-        `Released ₦${realtorAmount.toFixed(2)} (${((1 - effectiveRate) * 100).toFixed(2)}% of remaining) to realtor`,
+        `Released ${formatMoney(realtorAmount, payment.currency)} (${((1 - effectiveRate) * 100).toFixed(2)}% of remaining) to realtor`,
       );
 
       await createEscrowEvent(
@@ -1139,10 +1194,53 @@ export const refundRoomFeeToCustomer = async (
         "ESCROW",
         "PLATFORM",
         undefined,
-        `Released ₦${platformAmount.toFixed(2)} (${(effectiveRate * 100).toFixed(2)}% of remaining) to platform`,
+        `Released ${formatMoney(platformAmount, payment.currency)} (${(effectiveRate * 100).toFixed(2)}% of remaining) to platform`,
       );
     }
 
+    // Platform share of the remaining room fee goes to the platform wallet
+    if (platformAmount > 0) {
+      const platformWallet = await walletService.getOrCreateWallet(
+        WalletOwnerType.PLATFORM,
+        "platform",
+        tx,
+        payment.currency,
+      );
+      await walletService.creditWallet(
+        platformWallet.id,
+        platformAmount,
+        WalletTransactionSource.ROOM_FEE,
+        bookingId,
+        { bookingId, paymentId, effectiveCommissionRate: effectiveRate },
+        tx,
+      );
+    }
+
+    await postJournalEntry(tx, {
+      type: JournalEntryType.ESCROW_REFUND,
+      reference: refundReference,
+      bookingId,
+      description: "Room fee refunded to guest",
+      currency: payment.currency,
+      lines: [
+        debit(LedgerAccount.ESCROW, refundAmount, bookingId),
+        credit(LedgerAccount.GATEWAY_BALANCE, refundAmount),
+      ],
+    });
+
+    await postJournalEntry(tx, {
+      type: JournalEntryType.ESCROW_TRANSFER,
+      reference: transferReference,
+      bookingId,
+      description: "Remaining room fee paid to realtor",
+      metadata: { realtorId: realtor.id },
+      currency: payment.currency,
+      lines: [
+        debit(LedgerAccount.ESCROW, realtorAmount, bookingId),
+        credit(LedgerAccount.GATEWAY_BALANCE, realtorAmount),
+      ],
+    });
+
     // Update payment
     await tx.payment.update({
       where: { id: paymentId },
@@ -1153,6 +1251,13 @@ export const refundRoomFeeToCustomer = async (
       },
     });
 
+    await tx.escrow.update({
+      where: { bookingId },
+      data: {
+        roomFeeHeld: new Prisma.Decimal(0),
+      },
+    });
+
     logger.info("Room fee split and refund completed", {
       bookingId,
       paymentId,
@@ -6,6 +6,7 @@ import {
   EvidenceRole,
   EvidenceVerificationType,
 } from "@prisma/client";
+import { actsForRealtor } from "@/services/realtorTeam";
 import crypto from "crypto";
 import jwt from "jsonwebtoken";
 
@@ -25,11 +26,7 @@ const resolveBookingRole = async (bookingId: string, userId: string) => {
     include: {
       property: {
         select: {
-          realtor: {
-            select: {
-              userId: true,
-            },
-          },
+          realtorId: true,
         },
       },
       guest: {
@@ -45,7 +42,13 @@ const resolveBookingRole = async (bookingId: string, userId: string) => {
   }
 
   const isGuest = booking.guestId === userId;
-  const isRealtor = booking.property.realtor.userId === userId;
+  const isRealtor =
+    !isGuest &&
+    (await actsForRealtor(
+      userId,
+      booking.property.realtorId,
+      "checkins.manage",
+    ));
 
   if (!isGuest && !isRealtor) {
     throw new Error(
@@ -1,6 +1,12 @@
 import { prisma } from "@/config/database";
 import { config } from "@/config";
 import { logger } from "@/utils/logger";
+import {
+  DEFAULT_CURRENCY,
+  SETTLEMENT_CURRENCIES,
+  SETTLEMENT_CURRENCY_DEFINITIONS,
+  SettlementCurrency,
+} from "@/services/currency";
 
 export interface CommissionTierConfig {
   min: number;
@@ -23,7 +29,8 @@ export interface FeeComponentConfig {
 
 export interface FinanceConfig {
   version: string;
-  timezone: "Africa/Lagos";
+  currency: SettlementCurrency;
+  timezone: string;
   commission: {
     tiers: CommissionTierConfig[];
     monthlyDiscounts: MonthlyDiscountConfig[];
@@ -61,9 +68,40 @@ export const FINANCE_SETTING_KEYS = {
   WITHDRAWAL_FEE: "finance.withdrawal_fee.v1",
 } as const;
 
-export const DEFAULT_FINANCE_CONFIG: FinanceConfig = {
+export type FinanceSettingKey =
+  (typeof FINANCE_SETTING_KEYS)[keyof typeof FINANCE_SETTING_KEYS];
+
+/**
+ * Naira settings use the unprefixed keys above; every other settlement
+ * currency has its own copy under `finance.<currency>.`, e.g.
+ * finance.ghs.commission.tiers.v1.
+ */
+export const financeSettingKey = (
+  key: FinanceSettingKey,
+  currency: SettlementCurrency
+): string =>
+  currency === DEFAULT_CURRENCY
+    ? key
+    : key.replace(/^finance\./, `finance.${currency.toLowerCase()}.`);
+
+export const parseFinanceSettingKey = (
+  key: string
+): { key: FinanceSettingKey; currency: SettlementCurrency } | null => {
+  for (const currency of SETTLEMENT_CURRENCIES) {
+    const match = Object.values(FINANCE_SETTING_KEYS).find(
+      (baseKey) => financeSettingKey(baseKey, currency) === key
+    );
+    if (match) {
+      return { key: match, currency };
+    }
+  }
+  return null;
+};
+
+const NGN_FINANCE_CONFIG: FinanceConfig = {
   version: "v1",
-  timezone: "Africa/Lagos",
+  currency: "NGN",
+  timezone: SETTLEMENT_CURRENCY_DEFINITIONS.NGN.timezone,
   commission: {
     tiers: [
       { min: 0, max: 500000, rate: 0.1 },
@@ -105,25 +143,169 @@ export const DEFAULT_FINANCE_CONFIG: FinanceConfig = {
   },
 };
 
-let financeConfigHealth: FinanceConfigHealth = {
-  status: "healthy",
-  strictMode: config.FINANCIAL_ENGINE_V2_STRICT,
-  usingDefaults: false,
-  errors: [],
-  checkedAt: new Date().toISOString(),
+const GHS_FINANCE_CONFIG: FinanceConfig = {
+  version: "v1",
+  currency: "GHS",
+  timezone: SETTLEMENT_CURRENCY_DEFINITIONS.GHS.timezone,
+  commission: {
+    tiers: [
+      { min: 0, max: 5000, rate: 0.1 },
+      { min: 5001, max: 20000, rate: 0.07 },
+      { min: 20001, max: null, rate: 0.05 },
+    ],
+    monthlyDiscounts: [
+      { volume: 50000, reductionRate: 0.005 },
+      { volume: 100000, reductionRate: 0.01 },
+      { volume: 200000, reductionRate: 0.015 },
+    ],
+    monthlyDiscountCapRate: 0.02,
+  },
+  serviceFee: {
+    stayza: {
+      percent: 0.01,
+      fixed: 1,
+      capVariable: 13,
+      capTrigger: 1333,
+    },
+    processing: {
+      local: {
+        percent: 0.0195,
+        fixed: 0,
+        noCap: true,
+      },
+      international: {
+        percent: 0.039,
+        fixed: 0,
+        noCap: true,
+      },
+    },
+  },
+  withdrawalFee: {
+    percent: 0.003,
+    cap: 30,
+    minimumWithdrawal: 10,
+  },
 };
 
+const KES_FINANCE_CONFIG: FinanceConfig = {
+  version: "v1",
+  currency: "KES",
+  timezone: SETTLEMENT_CURRENCY_DEFINITIONS.KES.timezone,
+  commission: {
+    tiers: [
+      { min: 0, max: 40000, rate: 0.1 },
+      { min: 40001, max: 160000, rate: 0.07 },
+      { min: 160001, max: null, rate: 0.05 },
+    ],
+    monthlyDiscounts: [
+      { volume: 400000, reductionRate: 0.005 },
+      { volume: 800000, reductionRate: 0.01 },
+      { volume: 1600000, reductionRate: 0.015 },
+    ],
+    monthlyDiscountCapRate: 0.02,
+  },
+  serviceFee: {
+    stayza: {
+      percent: 0.01,
+      fixed: 10,
+      capVariable: 110,
+      capTrigger: 11000,
+    },
+    processing: {
+      local: {
+        percent: 0.029,
+        fixed: 0,
+        noCap: true,
+      },
+      international: {
+        percent: 0.038,
+        fixed: 0,
+        noCap: true,
+      },
+    },
+  },
+  withdrawalFee: {
+    percent: 0.003,
+    cap: 250,
+    minimumWithdrawal: 100,
+  },
+};
+
+export const DEFAULT_FINANCE_CONFIGS: Record<
+  SettlementCurrency,
+  FinanceConfig
+> = {
+  NGN: NGN_FINANCE_CONFIG,
+  GHS: GHS_FINANCE_CONFIG,
+  KES: KES_FINANCE_CONFIG,
+};
+
+export const DEFAULT_FINANCE_CONFIG: FinanceConfig =
+  DEFAULT_FINANCE_CONFIGS[DEFAULT_CURRENCY];
+
+const financeConfigHealthByCurrency = new Map<
+  SettlementCurrency,
+  FinanceConfigHealth
+>();
+
 const setFinanceConfigHealth = (
+  currency: SettlementCurrency,
   partial: Omit<FinanceConfigHealth, "checkedAt">
 ): void => {
-  financeConfigHealth = {
+  financeConfigHealthByCurrency.set(currency, {
     ...partial,
     checkedAt: new Date().toISOString(),
-  };
+  });
+};
+
+const HEALTH_SEVERITY: Record<FinanceConfigHealth["status"], number> = {
+  healthy: 0,
+  degraded: 1,
+  unhealthy: 2,
 };
 
-export const getFinanceConfigHealth = (): FinanceConfigHealth =>
-  financeConfigHealth;
+/**
+ * Combined health of the configs loaded so far: the worst status of any
+ * currency, with each error prefixed by the currency it came from.
+ */
+export const getFinanceConfigHealth = (): FinanceConfigHealth => {
+  const entries = Array.from(financeConfigHealthByCurrency.entries());
+  if (entries.length === 0) {
+    return {
+      status: "healthy",
+      strictMode: config.FINANCIAL_ENGINE_V2_STRICT,
+      usingDefaults: false,
+      errors: [],
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  return entries.reduce<FinanceConfigHealth>(
+    (combined, [currency, health]) => ({
+      status:
+        HEALTH_SEVERITY[health.status] > HEALTH_SEVERITY[combined.status]
+          ? health.status
+          : combined.status,
+      strictMode: health.strictMode,
+      usingDefaults: combined.usingDefaults || health.usingDefaults,
+      errors: [
+        ...combined.errors,
+        ...health.errors.map((error) => `${currency}: ${error}`),
+      ],
+      checkedAt:
+        health.checkedAt > combined.checkedAt
+          ? health.checkedAt
+          : combined.checkedAt,
+    }),
+    {
+      status: "healthy",
+      strictMode: config.FINANCIAL_ENGINE_V2_STRICT,
+      usingDefaults: false,
+      errors: [],
+      checkedAt: "",
+    }
+  );
+};
 
 type SettingMap = Record<string, unknown>;
 
@@ -216,8 +398,16 @@ const parseFeeComponent = (value: unknown): FeeComponentConfig | null => {
   };
 };
 
-const loadSettingMap = async (): Promise<SettingMap> => {
-  const keys = Object.values(FINANCE_SETTING_KEYS);
+/**
+ * Active finance settings for one currency, keyed by their unprefixed
+ * (naira) key.
+ */
+const loadSettingMap = async (
+  currency: SettlementCurrency
+): Promise<SettingMap> => {
+  const keys = Object.values(FINANCE_SETTING_KEYS).map((key) =>
+    financeSettingKey(key, currency)
+  );
   const rows = await prisma.platformSettings.findMany({
     where: {
       key: { in: keys },
@@ -230,7 +420,10 @@ const loadSettingMap = async (): Promise<SettingMap> => {
   });
 
   return rows.reduce<SettingMap>((acc, row) => {
-    acc[row.key] = row.value;
+    const parsedKey = parseFinanceSettingKey(row.key);
+    if (parsedKey) {
+      acc[parsedKey.key] = row.value;
+    }
     return acc;
   }, {});
 };
@@ -379,7 +572,7 @@ export const validateFinanceSettingValue = (
   key: string,
   value: unknown
 ): string[] => {
-  switch (key) {
+  switch (parseFinanceSettingKey(key)?.key) {
     case FINANCE_SETTING_KEYS.COMMISSION_TIERS: {
       if (!Array.isArray(value)) {
         return ["Commission tiers must be an array"];
@@ -432,9 +625,16 @@ export const validateFinanceSettingValue = (
   }
 };
 
-export const loadFinanceConfig = async (): Promise<FinanceConfig> => {
-  const settingsMap = await loadSettingMap();
-  const defaults = DEFAULT_FINANCE_CONFIG;
+/**
+ * Finance config for a settlement currency: that currency's defaults
+ * overridden by its active platform settings. Invalid settings fall back
+ * to the defaults, or throw in strict mode.
+ */
+export const loadFinanceConfig = async (
+  currency: SettlementCurrency = DEFAULT_CURRENCY
+): Promise<FinanceConfig> => {
+  const settingsMap = await loadSettingMap(currency);
+  const defaults = DEFAULT_FINANCE_CONFIGS[currency];
   const strictMode = config.FINANCIAL_ENGINE_V2_STRICT;
   const settingsValidationErrors: string[] = [];
   const normalizedSettingsMap: SettingMap = { ...settingsMap };
@@ -518,6 +718,7 @@ export const loadFinanceConfig = async (): Promise<FinanceConfig> => {
 
   const resolvedConfig: FinanceConfig = {
     version: defaults.version,
+    currency: defaults.currency,
     timezone: defaults.timezone,
     commission: {
       tiers: parsedTiers,
@@ -544,7 +745,7 @@ export const loadFinanceConfig = async (): Promise<FinanceConfig> => {
       " | "
     )}`;
 
-    setFinanceConfigHealth({
+    setFinanceConfigHealth(currency, {
       status: strictMode ? "unhealthy" : "degraded",
       strictMode,
       usingDefaults: true,
@@ -552,6 +753,7 @@ export const loadFinanceConfig = async (): Promise<FinanceConfig> => {
     });
 
     logger.error(errorMessage, {
+      currency,
       strictMode,
       validationErrors,
     });
@@ -563,7 +765,7 @@ export const loadFinanceConfig = async (): Promise<FinanceConfig> => {
     return defaults;
   }
 
-  setFinanceConfigHealth({
+  setFinanceConfigHealth(currency, {
     status: "healthy",
     strictMode,
     usingDefaults: false,
@@ -572,3 +774,15 @@ export const loadFinanceConfig = async (): Promise<FinanceConfig> => {
 
   return resolvedConfig;
 };
+
+export const loadFinanceConfigs = async (): Promise<
+  Record<SettlementCurrency, FinanceConfig>
+> => {
+  const configs = await Promise.all(
+    SETTLEMENT_CURRENCIES.map((currency) => loadFinanceConfig(currency))
+  );
+  return SETTLEMENT_CURRENCIES.reduce(
+    (acc, currency, index) => ({ ...acc, [currency]: configs[index] }),
+    {} as Record<SettlementCurrency, FinanceConfig>
+  );
+};
@@ -0,0 +1,482 @@
+import axios from "axios";
+import crypto from "crypto";
+import { config } from "@/config";
+import { logger } from "@/utils/logger";
+import { withPaymentRetry } from "@/utils/retry";
+import {
+  SETTLEMENT_CURRENCIES,
+  SETTLEMENT_CURRENCY_DEFINITIONS,
+  settlementCurrencyOf,
+} from "@/services/currency";
+import {
+  PaymentGateway,
+  normalizeFlutterwaveTransaction,
+  normalizeFlutterwaveTransfer,
+  parseFlutterwaveWebhook,
+  toPaymentGatewayError,
+} from "@/services/paymentGatewayRules";
+
+const FLUTTERWAVE_BASE_URL = "https://api.flutterwave.com/v3";
+
+// Flutterwave API client
+const flutterwaveClient = axios.create({
+  baseURL: FLUTTERWAVE_BASE_URL,
+  headers: {
+    Authorization: `Bearer ${config.FLUTTERWAVE_SECRET_KEY}`,
+    "Content-Type": "application/json",
+  },
+});
+
+/**
+ * Create a hosted payment link. Flutterwave takes amounts in major units.
+ */
+export const initializeFlutterwavePayment = async (data: {
+  txRef: string;
+  amount: number;
+  currency: string;
+  redirectUrl: string;
+  email: string;
+  name?: string;
+  meta?: Record<string, unknown>;
+}) => {
+  try {
+    const response = await flutterwaveClient.post("/payments", {
+      tx_ref: data.txRef,
+      amount: data.amount,
+      currency: data.currency,
+      redirect_url: data.redirectUrl,
+      customer: {
+        email: data.email,
+        ...(data.name ? { name: data.name } : {}),
+      },
+      meta: data.meta,
+      customizations: { title: "Stayza booking" },
+    });
+    return response.data.data;
+  } catch (error: any) {
+    logger.error("Flutterwave initialization error", {
+      error: error.response?.data || error.message,
+      txRef: data.txRef,
+    });
+    throw toPaymentGatewayError(
+      error,
+      "FLUTTERWAVE",
+      "Payment initialization failed"
+    );
+  }
+};
+
+/**
+ * Verify a transaction by the reference we generated
+ */
+export const verifyFlutterwaveTransaction = async (txRef: string) => {
+  try {
+    const response = await flutterwaveClient.get(
+      "/transactions/verify_by_reference",
+      { params: { tx_ref: txRef } }
+    );
+    return response.data.data;
+  } catch (error: any) {
+    logger.error("Flutterwave verification error", {
+      error: error.response?.data || error.message,
+      txRef,
+    });
+    throw toPaymentGatewayError(
+      error,
+      "FLUTTERWAVE",
+      "Payment verification failed"
+    );
+  }
+};
+
+/**
+ * Charge a saved card token
+ */
+export const chargeFlutterwaveToken = async (data: {
+  token: string;
+  email: string;
+  amount: number;
+  currency: string;
+  txRef: string;
+  meta?: Record<string, unknown>;
+}) => {
+  try {
+    const currency = settlementCurrencyOf(data.currency);
+    const response = await withPaymentRetry(
+      () =>
+        flutterwaveClient.post("/tokenized-charges", {
+          token: data.token,
+          email: data.email,
+          amount: data.amount,
+          currency,
+          country: SETTLEMENT_CURRENCY_DEFINITIONS[currency].country,
+          tx_ref: data.txRef,
+          meta: data.meta,
+        }),
+      "chargeToken",
+      "flutterwave"
+    );
+    return response.data;
+  } catch (error: any) {
+    logger.error("Flutterwave tokenized charge error", {
+      error: error.response?.data || error.message,
+      txRef: data.txRef,
+      amount: data.amount,
+      stack: error.stack,
+    });
+    throw toPaymentGatewayError(
+      error,
+      "FLUTTERWAVE",
+      "Failed to charge saved payment method"
+    );
+  }
+};
+
+/**
+ * Refund a transaction, in full when no amount is given
+ */
+export const refundFlutterwaveTransaction = async (
+  transactionId: string,
+  amount?: number
+) => {
+  try {
+    const response = await withPaymentRetry(
+      () =>
+        flutterwaveClient.post(
+          `/transactions/${transactionId}/refund`,
+          amount ? { amount } : {}
+        ),
+      "refundTransaction",
+      "flutterwave"
+    );
+    return response.data.data;
+  } catch (error: any) {
+    logger.error("Error processing Flutterwave refund", {
+      error: error.response?.data || error.message,
+      transactionId,
+      amount,
+      stack: error.stack,
+    });
+    throw toPaymentGatewayError(
+      error,
+      "FLUTTERWAVE",
+      "Failed to process refund"
+    );
+  }
+};
+
+/**
+ * Save a bank account as a transfer beneficiary
+ */
+export const createBeneficiary = async (data: {
+  accountNumber: string;
+  bankCode: string;
+  name: string;
+  currency: string;
+}) => {
+  try {
+    const response = await flutterwaveClient.post("/beneficiaries", {
+      account_number: data.accountNumber,
+      account_bank: data.bankCode,
+      beneficiary_name: data.name,
+      currency: data.currency,
+    });
+    return response.data.data;
+  } catch (error: any) {
+    logger.error("Flutterwave create beneficiary error", {
+      error: error.response?.data || error.message,
+      accountNumber: data.accountNumber,
+      bankCode: data.bankCode,
+      stack: error.stack,
+    });
+    throw toPaymentGatewayError(
+      error,
+      "FLUTTERWAVE",
+      "Failed to create transfer recipient"
+    );
+  }
+};
+
+/**
+ * Transfer funds to a saved beneficiary
+ */
+export const initiateFlutterwaveTransfer = async (data: {
+  amount: number;
+  currency: string;
+  beneficiary: string;
+  narration: string;
+  reference: string;
+}) => {
+  try {
+    const response = await withPaymentRetry(
+      () =>
+        flutterwaveClient.post("/transfers", {
+          beneficiary: Number(data.beneficiary),
+          amount: data.amount,
+          currency: data.currency,
+          narration: data.narration,
+          reference: data.reference,
+          debit_currency: data.currency,
+        }),
+      "initiateTransfer",
+      "flutterwave"
+    );
+    return response.data.data;
+  } catch (error: any) {
+    logger.error("Flutterwave transfer error", {
+      error: error.response?.data || error.message,
+      amount: data.amount,
+      beneficiary: data.beneficiary,
+      reference: data.reference,
+      stack: error.stack,
+    });
+    throw toPaymentGatewayError(
+      error,
+      "FLUTTERWAVE",
+      "Failed to initiate transfer"
+    );
+  }
+};
+
+/**
+ * Look up a transfer by the reference we generated
+ */
+export const getFlutterwaveTransfer = async (reference: string) => {
+  try {
+    const response = await flutterwaveClient.get("/transfers", {
+      params: { reference },
+    });
+    const transfers = (response.data.data || []) as any[];
+    const transfer = transfers.find((item) => item.reference === reference);
+    if (!transfer) {
+      throw new Error(`Transfer ${reference} not found`);
+    }
+    return transfer;
+  } catch (error: any) {
+    logger.error("Flutterwave verify transfer error", {
+      error: error.response?.data || error.message,
+      reference,
+      stack: error.stack,
+    });
+    throw toPaymentGatewayError(
+      error,
+      "FLUTTERWAVE",
+      "Failed to verify transfer"
+    );
+  }
+};
+
+/**
+ * List banks in the settlement currency's country
+ */
+export const listFlutterwaveBanks = async (currency = "NGN") => {
+  try {
+    const country =
+      SETTLEMENT_CURRENCY_DEFINITIONS[settlementCurrencyOf(currency)].country;
+    const response = await flutterwaveClient.get(`/banks/${country}`);
+    return response.data.data as any[];
+  } catch (error: any) {
+    logger.error("Error listing Flutterwave banks", {
+      error: error.response?.data || error.message,
+      stack: error.stack,
+    });
+    throw new Error("Failed to get bank list");
+  }
+};
+
+/**
+ * Resolve bank account details
+ */
+export const resolveFlutterwaveAccount = async (
+  accountNumber: string,
+  bankCode: string
+) => {
+  try {
+    const response = await flutterwaveClient.post("/accounts/resolve", {
+      account_number: accountNumber,
+      account_bank: bankCode,
+    });
+    return response.data.data;
+  } catch (error: any) {
+    logger.error("Error resolving Flutterwave account", {
+      error: error.response?.data || error.message,
+      accountNumber,
+      bankCode,
+      stack: error.stack,
+    });
+    throw new Error("Failed to resolve account details");
+  }
+};
+
+/**
+ * Flutterwave sends the secret hash set on the dashboard in the
+ * verif-hash header rather than signing the body.
+ */
+export const verifyFlutterwaveWebhookHash = (hashHeader: unknown): boolean => {
+  if (typeof hashHeader !== "string" || !config.FLUTTERWAVE_WEBHOOK_HASH) {
+    return false;
+  }
+
+  const providedBuffer = Buffer.from(hashHeader);
+  const expectedBuffer = Buffer.from(config.FLUTTERWAVE_WEBHOOK_HASH);
+  return (
+    providedBuffer.length === expectedBuffer.length &&
+    crypto.timingSafeEqual(providedBuffer, expectedBuffer)
+  );
+};
+
+/**
+ * Flutterwave behind the PaymentGateway interface. Transfer recipients
+ * are Flutterwave beneficiary ids.
+ */
+export const flutterwaveGateway: PaymentGateway = {
+  provider: "FLUTTERWAVE",
+  supportedCurrencies: SETTLEMENT_CURRENCIES,
+
+  isConfigured: () => Boolean(config.FLUTTERWAVE_SECRET_KEY),
+
+  async initializeTransaction(input) {
+    const payment = await initializeFlutterwavePayment({
+      txRef: input.reference,
+      amount: input.amount,
+      currency: input.currency,
+      redirectUrl: input.callbackUrl,
+      email: input.email,
+      name: input.customerName,
+      meta: input.metadata,
+    });
+
+    return {
+      provider: "FLUTTERWAVE",
+      reference: input.reference,
+      authorizationUrl: payment.link,
+      accessCode: null,
+      publicKey: config.FLUTTERWAVE_PUBLIC_KEY,
+    };
+  },
+
+  async verifyTransaction(reference) {
+    return normalizeFlutterwaveTransaction({
+      tx_ref: reference,
+      ...((await verifyFlutterwaveTransaction(reference)) || {}),
+    });
+  },
+
+  async chargeAuthorization(input) {
+    const response = await chargeFlutterwaveToken({
+      token: input.authorizationCode,
+      email: input.email,
+      amount: input.amount,
+      currency: input.currency,
+      txRef: input.reference,
+      meta: input.metadata,
+    });
+    const transaction = normalizeFlutterwaveTransaction({
+      tx_ref: input.reference,
+      ...(response?.data || {}),
+    });
+
+    return response?.status === "success"
+      ? transaction
+      : {
+          ...transaction,
+          status: "failed",
+          gatewayResponse: response?.message || transaction.gatewayResponse,
+        };
+  },
+
+  async refund(input) {
+    // Refunds are by Flutterwave's transaction id, not our reference
+    const transactionId =
+      input.providerTransactionId && /^\d+$/.test(input.providerTransactionId)
+        ? input.providerTransactionId
+        : (await flutterwaveGateway.verifyTransaction(input.reference))
+            .providerTransactionId;
+    if (!transactionId) {
+      throw new Error("Flutterwave transaction not found for refund");
+    }
+
+    const result = await refundFlutterwaveTransaction(
+      transactionId,
+      input.amount
+    );
+    return {
+      provider: "FLUTTERWAVE",
+      refundId: result?.id ? String(result.id) : null,
+      status: String(result?.status || "pending"),
+      raw: result || {},
+    };
+  },
+
+  async createTransferRecipient(input) {
+    const beneficiary = await createBeneficiary({
+      accountNumber: input.accountNumber,
+      bankCode: input.bankCode,
+      name: input.name,
+      currency: input.currency,
+    });
+    if (!beneficiary?.id) {
+      throw new Error("Flutterwave did not return a beneficiary id");
+    }
+
+    return {
+      provider: "FLUTTERWAVE",
+      recipientCode: String(beneficiary.id),
+      raw: beneficiary,
+    };
+  },
+
+  async initiateTransfer(input) {
+    const transfer = await initiateFlutterwaveTransfer({
+      amount: input.amount,
+      currency: input.currency,
+      beneficiary: input.recipient,
+      narration: input.reason,
+      reference: input.reference,
+    });
+    return normalizeFlutterwaveTransfer({
+      reference: input.reference,
+      ...(transfer || {}),
+    });
+  },
+
+  async verifyTransfer(reference) {
+    return normalizeFlutterwaveTransfer(
+      await getFlutterwaveTransfer(reference)
+    );
+  },
+
+  async listBanks(currency) {
+    const banks = await listFlutterwaveBanks(currency);
+    return (banks || []).map((bank: any) => ({
+      name: String(bank.name),
+      code: String(bank.code),
+    }));
+  },
+
+  async resolveAccount(accountNumber, bankCode) {
+    const account = await resolveFlutterwaveAccount(accountNumber, bankCode);
+    return {
+      accountNumber: String(account?.account_number || accountNumber),
+      accountName: String(account?.account_name || ""),
+    };
+  },
+
+  verifyWebhookSignature: (_rawBody, headers) =>
+    verifyFlutterwaveWebhookHash(headers["verif-hash"]),
+
+  parseWebhookEvent: parseFlutterwaveWebhook,
+};
+
+export const flutterwaveService = {
+  initializeFlutterwavePayment,
+  verifyFlutterwaveTransaction,
+  chargeFlutterwaveToken,
+  refundFlutterwaveTransaction,
+  createBeneficiary,
+  initiateFlutterwaveTransfer,
+  getFlutterwaveTransfer,
+  listFlutterwaveBanks,
+  resolveFlutterwaveAccount,
+  verifyFlutterwaveWebhookHash,
+};
@@ -0,0 +1,70 @@
+import {
+  buildBoundingBoxFilter,
+  fuzzCoordinates,
+  getRadiusBoundingBox,
+  haversineDistanceKm,
+  parseBoundingBox,
+  PUBLIC_LOCATION_MAX_OFFSET_METERS,
+  PUBLIC_LOCATION_MIN_OFFSET_METERS,
+} from "./geo";
+
+const LAGOS = { latitude: 6.5244, longitude: 3.3792 };
+const ABUJA = { latitude: 9.0765, longitude: 7.3986 };
+
+describe("geo", () => {
+  it("computes great-circle distances", () => {
+    expect(haversineDistanceKm(LAGOS, LAGOS)).toBe(0);
+    expect(haversineDistanceKm(LAGOS, ABUJA)).toBeGreaterThan(520);
+    expect(haversineDistanceKm(LAGOS, ABUJA)).toBeLessThan(540);
+  });
+
+  it("keeps fuzzed coordinates within the public offset ring", () => {
+    const nearest = fuzzCoordinates(LAGOS, () => 0);
+    const farthest = fuzzCoordinates(LAGOS, () => 0.999);
+
+    expect(haversineDistanceKm(LAGOS, nearest) * 1000).toBeCloseTo(
+      PUBLIC_LOCATION_MIN_OFFSET_METERS,
+      -1
+    );
+    expect(haversineDistanceKm(LAGOS, farthest) * 1000).toBeCloseTo(
+      PUBLIC_LOCATION_MAX_OFFSET_METERS,
+      -1
+    );
+  });
+
+  it("builds a radius box that contains the whole circle", () => {
+    const box = getRadiusBoundingBox(LAGOS, 10);
+
+    expect(
+      haversineDistanceKm(LAGOS, { latitude: box.north, longitude: 3.3792 })
+    ).toBeCloseTo(10, 1);
+    expect(
+      haversineDistanceKm(LAGOS, { latitude: 6.5244, longitude: box.east })
+    ).toBeCloseTo(10, 1);
+  });
+
+  it("parses viewport strings and rejects invalid ones", () => {
+    expect(parseBoundingBox("6.4, 3.3, 6.6, 3.5")).toEqual({
+      south: 6.4,
+      west: 3.3,
+      north: 6.6,
+      east: 3.5,
+    });
+    expect(parseBoundingBox("6.6,3.3,6.4,3.5")).toBeNull();
+    expect(parseBoundingBox("6.4,3.3,6.6")).toBeNull();
+    expect(parseBoundingBox("6.4,3.3,95,3.5")).toBeNull();
+    expect(parseBoundingBox("a,b,c,d")).toBeNull();
+  });
+
+  it("splits boxes that cross the antimeridian", () => {
+    expect(
+      buildBoundingBoxFilter({ south: -20, west: 170, north: -10, east: -170 })
+    ).toEqual({
+      publicLatitude: { gte: -20, lte: -10 },
+      OR: [
+        { publicLongitude: { gte: 170 } },
+        { publicLongitude: { lte: -170 } },
+      ],
+    });
+  });
+});
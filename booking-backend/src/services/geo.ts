@@ -0,0 +1,171 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Property geolocation helpers.
+ *
+ * Exact coordinates are private until a booking is paid (like the street
+ * address). Public APIs, search filters and the map only ever use the fuzzed
+ * `publicLatitude`/`publicLongitude` pair, which is generated once per
+ * location so repeated requests cannot be averaged back to the real point.
+ */
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const METERS_PER_DEGREE_LATITUDE = 111_320;
+
+// Public pins land 150-500m away from the real location in a random direction
+export const PUBLIC_LOCATION_MIN_OFFSET_METERS = 150;
+export const PUBLIC_LOCATION_MAX_OFFSET_METERS = 500;
+export const MAX_SEARCH_RADIUS_KM = 100;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const normalizeLongitude = (longitude: number) =>
+  ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+const clampLatitude = (latitude: number) =>
+  Math.min(90, Math.max(-90, latitude));
+
+export const isValidLatitude = (value: number) =>
+  Number.isFinite(value) && value >= -90 && value <= 90;
+
+export const isValidLongitude = (value: number) =>
+  Number.isFinite(value) && value >= -180 && value <= 180;
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export const haversineDistanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const deltaLat = toRadians(to.latitude - from.latitude);
+  const deltaLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(deltaLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Move a point a random distance within the public offset ring
+ */
+export const fuzzCoordinates = (
+  point: GeoPoint,
+  random: () => number = Math.random,
+): GeoPoint => {
+  const bearing = random() * 2 * Math.PI;
+  const distance =
+    PUBLIC_LOCATION_MIN_OFFSET_METERS +
+    random() *
+      (PUBLIC_LOCATION_MAX_OFFSET_METERS - PUBLIC_LOCATION_MIN_OFFSET_METERS);
+  const latitudeOffset =
+    (distance * Math.cos(bearing)) / METERS_PER_DEGREE_LATITUDE;
+  const longitudeOffset =
+    (distance * Math.sin(bearing)) /
+    (METERS_PER_DEGREE_LATITUDE *
+      Math.max(Math.cos(toRadians(point.latitude)), 0.01));
+
+  return {
+    latitude: Number(clampLatitude(point.latitude + latitudeOffset).toFixed(6)),
+    longitude: Number(
+      normalizeLongitude(point.longitude + longitudeOffset).toFixed(6),
+    ),
+  };
+};
+
+/**
+ * Smallest box containing every point within `radiusKm` of `center`. Used as
+ * an indexed pre-filter before the exact distance check.
+ */
+export const getRadiusBoundingBox = (
+  center: GeoPoint,
+  radiusKm: number,
+): BoundingBox => {
+  const latitudeDelta = toDegrees(radiusKm / EARTH_RADIUS_KM);
+  const south = clampLatitude(center.latitude - latitudeDelta);
+  const north = clampLatitude(center.latitude + latitudeDelta);
+
+  if (south <= -90 || north >= 90) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  const longitudeDelta = toDegrees(
+    radiusKm / (EARTH_RADIUS_KM * Math.cos(toRadians(center.latitude))),
+  );
+
+  if (longitudeDelta >= 180) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  return {
+    south,
+    west: normalizeLongitude(center.longitude - longitudeDelta),
+    north,
+    east: normalizeLongitude(center.longitude + longitudeDelta),
+  };
+};
+
+/**
+ * Parse a "south,west,north,east" viewport string. A west edge greater than
+ * the east edge means the box crosses the antimeridian.
+ */
+export const parseBoundingBox = (raw: string): BoundingBox | null => {
+  const parts = raw.split(",").map((part) => Number(part.trim()));
+
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const [south, west, north, east] = parts;
+
+  if (
+    !isValidLatitude(south) ||
+    !isValidLatitude(north) ||
+    !isValidLongitude(west) ||
+    !isValidLongitude(east) ||
+    south > north
+  ) {
+    return null;
+  }
+
+  return { south, west, north, east };
+};
+
+/**
+ * Property filter matching public coordinates inside the box
+ */
+export const buildBoundingBoxFilter = (
+  box: BoundingBox,
+): Prisma.PropertyWhereInput => {
+  const latitudeFilter = {
+    publicLatitude: { gte: box.south, lte: box.north },
+  };
+
+  if (box.west <= box.east) {
+    return {
+      ...latitudeFilter,
+      publicLongitude: { gte: box.west, lte: box.east },
+    };
+  }
+
+  return {
+    ...latitudeFilter,
+    OR: [
+      { publicLongitude: { gte: box.west } },
+      { publicLongitude: { lte: box.east } },
+    ],
+  };
+};
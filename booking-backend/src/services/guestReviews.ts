@@ -0,0 +1,307 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import {
+  notificationHelpers,
+  NotificationService,
+} from "@/services/notificationService";
+import {
+  buildGuestRatingSummary,
+  getReviewWindowClosesAt,
+  GuestRatingSummary,
+  isReviewWindowOpen,
+  REVIEW_WINDOW_DAYS,
+  shouldRevealReviews,
+} from "@/services/reviewWindow";
+import { logger } from "@/utils/logger";
+import { updateAllRatings } from "@/utils/ratingCalculator";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CreateGuestReviewInput {
+  bookingId: string;
+  cleanlinessRating: number;
+  communicationRating: number;
+  houseRulesRating: number;
+  comment?: string;
+}
+
+const GUEST_REVIEW_INCLUDE = {
+  booking: {
+    select: {
+      id: true,
+      checkInDate: true,
+      checkOutDate: true,
+      property: { select: { id: true, title: true } },
+    },
+  },
+  realtor: { select: { id: true, businessName: true, logoUrl: true } },
+} satisfies Prisma.GuestReviewInclude;
+
+/**
+ * Reveal both reviews of a booking once the double-blind rules allow it.
+ * Returns true when anything was revealed.
+ */
+export const revealBookingReviews = async (
+  bookingId: string,
+  now: Date = new Date(),
+): Promise<boolean> => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      checkOutDate: true,
+      propertyId: true,
+      property: { select: { realtorId: true } },
+      review: { select: { id: true, revealedAt: true } },
+      guestReview: { select: { id: true, revealedAt: true } },
+    },
+  });
+
+  if (!booking) {
+    return false;
+  }
+
+  const { review, guestReview } = booking;
+  const pendingReview = review && !review.revealedAt;
+  const pendingGuestReview = guestReview && !guestReview.revealedAt;
+
+  if (
+    (!pendingReview && !pendingGuestReview) ||
+    !shouldRevealReviews({
+      hasPropertyReview: Boolean(review),
+      hasGuestReview: Boolean(guestReview),
+      checkOutDate: booking.checkOutDate,
+      now,
+    })
+  ) {
+    return false;
+  }
+
+  await prisma.$transaction([
+    // Blind reviews are stored hidden; revealing publishes them
+    prisma.review.updateMany({
+      where: { bookingId, revealedAt: null },
+      data: { revealedAt: now, isVisible: true },
+    }),
+    prisma.guestReview.updateMany({
+      where: { bookingId, revealedAt: null },
+      data: { revealedAt: now },
+    }),
+  ]);
+
+  if (pendingReview) {
+    try {
+      await updateAllRatings(booking.propertyId, booking.property.realtorId);
+    } catch (ratingError) {
+      logger.error("Failed to update ratings:", ratingError);
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Reveal blind reviews of bookings whose review window has closed
+ */
+export const revealExpiredReviewWindows = async (
+  now: Date = new Date(),
+  limit = 200,
+): Promise<number> => {
+  const windowStart = new Date(now.getTime() - REVIEW_WINDOW_DAYS * DAY_MS);
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      checkOutDate: { lte: windowStart },
+      OR: [
+        { review: { revealedAt: null } },
+        { guestReview: { revealedAt: null } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { checkOutDate: "asc" },
+    take: limit,
+  });
+
+  let revealed = 0;
+  for (const booking of bookings) {
+    try {
+      if (await revealBookingReviews(booking.id, now)) {
+        revealed += 1;
+      }
+    } catch (error) {
+      logger.error("Failed to reveal booking reviews", {
+        bookingId: booking.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  return revealed;
+};
+
+export const createGuestReview = async (
+  realtor: { id: string; userId: string },
+  input: CreateGuestReviewInput,
+) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: input.bookingId },
+    select: {
+      id: true,
+      guestId: true,
+      status: true,
+      checkOutDate: true,
+      property: { select: { title: true, realtorId: true } },
+      guestReview: { select: { id: true } },
+    },
+  });
+
+  if (!booking) {
+    throw new AppError("Booking not found", 404);
+  }
+
+  if (booking.property.realtorId !== realtor.id) {
+    throw new AppError("You can only review guests of your own bookings", 403);
+  }
+
+  if (booking.status !== "COMPLETED") {
+    throw new AppError("You can only review guests after checkout", 400);
+  }
+
+  if (!isReviewWindowOpen(booking.checkOutDate)) {
+    throw new AppError(
+      `Guest reviews must be submitted within ${REVIEW_WINDOW_DAYS} days of checkout`,
+      400,
+    );
+  }
+
+  if (booking.guestReview) {
+    throw new AppError("You have already reviewed this guest", 409);
+  }
+
+  let guestReview;
+  try {
+    guestReview = await prisma.guestReview.create({
+      data: {
+        bookingId: booking.id,
+        guestId: booking.guestId,
+        realtorId: realtor.id,
+        authorId: realtor.userId,
+        cleanlinessRating: input.cleanlinessRating,
+        communicationRating: input.communicationRating,
+        houseRulesRating: input.houseRulesRating,
+        comment: input.comment?.trim() || null,
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw new AppError("You have already reviewed this guest", 409);
+    }
+    throw error;
+  }
+
+  const now = new Date();
+  const revealed = await revealBookingReviews(booking.id, now);
+
+  if (!revealed) {
+    try {
+      await NotificationService.getInstance().createAndSendNotification(
+        notificationHelpers.guestReviewReceived(
+          booking.guestId,
+          booking.id,
+          booking.property.title,
+        ),
+      );
+    } catch (notificationError) {
+      logger.error(
+        "Failed to send guest review notification:",
+        notificationError,
+      );
+    }
+  }
+
+  return {
+    ...guestReview,
+    revealedAt: revealed ? now : guestReview.revealedAt,
+    reviewWindowClosesAt: getReviewWindowClosesAt(booking.checkOutDate),
+  };
+};
+
+/**
+ * Aggregate revealed guest reviews per guest
+ */
+export const getGuestRatingSummaries = async (
+  guestIds: string[],
+): Promise<Map<string, GuestRatingSummary>> => {
+  const uniqueIds = Array.from(new Set(guestIds));
+  const summaries = new Map<string, GuestRatingSummary>();
+
+  if (uniqueIds.length === 0) {
+    return summaries;
+  }
+
+  const groups = await prisma.guestReview.groupBy({
+    by: ["guestId"],
+    where: { guestId: { in: uniqueIds }, revealedAt: { not: null } },
+    _count: { _all: true },
+    _avg: {
+      cleanlinessRating: true,
+      communicationRating: true,
+      houseRulesRating: true,
+    },
+  });
+
+  for (const guestId of uniqueIds) {
+    const group = groups.find((entry) => entry.guestId === guestId);
+    summaries.set(
+      guestId,
+      buildGuestRatingSummary({
+        reviewCount: group?._count._all ?? 0,
+        cleanlinessRating: group?._avg.cleanlinessRating,
+        communicationRating: group?._avg.communicationRating,
+        houseRulesRating: group?._avg.houseRulesRating,
+      }),
+    );
+  }
+
+  return summaries;
+};
+
+/**
+ * Revealed reviews of a guest, newest first
+ */
+export const listGuestReviews = async (
+  guestId: string,
+  page: number,
+  limit: number,
+) => {
+  const where: Prisma.GuestReviewWhereInput = {
+    guestId,
+    revealedAt: { not: null },
+  };
+
+  const [reviews, total, summaries] = await Promise.all([
+    prisma.guestReview.findMany({
+      where,
+      include: GUEST_REVIEW_INCLUDE,
+      orderBy: { revealedAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.guestReview.count({ where }),
+    getGuestRatingSummaries([guestId]),
+  ]);
+
+  return {
+    summary: summaries.get(guestId)!,
+    reviews,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit),
+    },
+  };
+};
@@ -0,0 +1,281 @@
+import { isIP } from "net";
+import {
+  AvailabilityBlockReason,
+  CalendarSyncStatus,
+  ExternalCalendarSource,
+} from "@prisma/client";
+import { config } from "@/config";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import { NotificationService } from "@/services/notificationService";
+import { buildBookingOverlapFilter } from "@/services/availabilityBlocks";
+import { logger } from "@/utils/logger";
+import {
+  buildICalendar,
+  CalendarConflict,
+  detectBookingConflicts,
+  fetchICalendar,
+  ICalExportEvent,
+  isPublicAddress,
+  parseICalendar,
+  signCalendarFeed,
+  toUtcMidnight,
+} from "@/utils/ical";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LAST_ERROR_LENGTH = 500;
+
+export interface CalendarSyncResult {
+  sourceId: string;
+  status: CalendarSyncStatus;
+  eventCount: number;
+  conflicts: CalendarConflict[];
+  error?: string;
+}
+
+export const buildCalendarFeedUrl = (
+  propertyId: string,
+  nonce: string | null,
+): string =>
+  `${config.API_PUBLIC_URL.replace(/\/+$/, "")}/api/calendar-sync/feeds/${propertyId}.ics?token=${signCalendarFeed(propertyId, nonce)}`;
+
+export const validateCalendarUrl = (value: unknown): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(value || "").trim());
+  } catch {
+    throw new AppError("A valid calendar URL is required", 400);
+  }
+
+  // Some channels hand out webcal:// links for the same HTTPS resource
+  if (parsed.protocol === "webcal:") {
+    parsed = new URL(parsed.toString().replace(/^webcal:/, "https:"));
+  }
+
+  if (parsed.protocol !== "https:") {
+    throw new AppError("Calendar URL must use https", 400);
+  }
+
+  // Hostnames are checked again when each sync resolves them
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new AppError("Calendar URL must point to a public address", 400);
+  }
+
+  return parsed.toString();
+};
+
+/**
+ * Builds the exported feed: our own bookings and manual blocks. Blocks that
+ * were themselves imported are left out so two channels never echo each
+ * other's events back and forth.
+ */
+export const buildPropertyCalendarFeed = async (propertyId: string) => {
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    select: { id: true, title: true, icalFeedNonce: true },
+  });
+
+  if (!property) {
+    return null;
+  }
+
+  const today = toUtcMidnight(new Date());
+  const [bookings, blocks] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        propertyId,
+        ...buildBookingOverlapFilter(today, new Date(today.getTime() + 730 * DAY_MS)),
+      },
+      select: { id: true, checkInDate: true, checkOutDate: true },
+    }),
+    prisma.propertyAvailabilityBlock.findMany({
+      where: {
+        propertyId,
+        sourceId: null,
+        endDate: { gt: today },
+      },
+      select: { id: true, startDate: true, endDate: true },
+    }),
+  ]);
+
+  const events: ICalExportEvent[] = [
+    ...bookings.map((booking) => ({
+      uid: `booking-${booking.id}@stayza.pro`,
+      start: toUtcMidnight(booking.checkInDate),
+      end: toUtcMidnight(booking.checkOutDate),
+      summary: "Reserved",
+    })),
+    ...blocks.map((block) => ({
+      uid: `block-${block.id}@stayza.pro`,
+      start: toUtcMidnight(block.startDate),
+      end: toUtcMidnight(block.endDate),
+      summary: "Not available",
+    })),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return {
+    property,
+    ics: buildICalendar(`Stayza - ${property.title}`, events),
+  };
+};
+
+const notifyRealtorOfConflicts = async (
+  source: ExternalCalendarSource,
+  conflicts: CalendarConflict[],
+) => {
+  const property = await prisma.property.findUnique({
+    where: { id: source.propertyId },
+    select: { title: true, realtor: { select: { userId: true } } },
+  });
+
+  if (!property) {
+    return;
+  }
+
+  try {
+    const notificationService = NotificationService.getInstance();
+    await notificationService.createAndSendNotification({
+      userId: property.realtor.userId,
+      type: "SYSTEM_ALERT",
+      title: "Calendar conflict detected",
+      message: `"${source.name}" has ${conflicts.length} reservation(s) overlapping existing bookings for "${property.title}". Please review to avoid a double booking.`,
+      propertyId: source.propertyId,
+      priority: "high",
+      data: {
+        sourceId: source.id,
+        bookingIds: Array.from(new Set(conflicts.map((c) => c.bookingId))),
+      },
+    });
+  } catch (error) {
+    logger.warn("Failed to send calendar conflict notification", {
+      sourceId: source.id,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+};
+
+/**
+ * Pulls one external feed and mirrors its future events as EXTERNAL_BOOKING
+ * blocks. Events that disappeared from the feed are unblocked.
+ */
+export const syncExternalCalendarSource = async (
+  sourceId: string,
+): Promise<CalendarSyncResult> => {
+  const source = await prisma.externalCalendarSource.findUnique({
+    where: { id: sourceId },
+  });
+
+  if (!source) {
+    throw new AppError("Calendar source not found", 404);
+  }
+
+  const attemptedAt = new Date();
+
+  try {
+    const ics = await fetchICalendar(source.url);
+    const today = toUtcMidnight(attemptedAt);
+    const events = parseICalendar(ics).filter((event) => event.end > today);
+
+    const conflictingBookings = events.length
+      ? await prisma.booking.findMany({
+          where: {
+            propertyId: source.propertyId,
+            OR: events.map((event) =>
+              buildBookingOverlapFilter(event.start, event.end),
+            ),
+          },
+          select: { id: true, checkInDate: true, checkOutDate: true },
+        })
+      : [];
+    const conflicts = detectBookingConflicts(events, conflictingBookings);
+    const status =
+      conflicts.length > 0
+        ? CalendarSyncStatus.CONFLICT
+        : CalendarSyncStatus.SUCCESS;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.propertyAvailabilityBlock.deleteMany({
+        where: {
+          sourceId: source.id,
+          externalUid: { notIn: events.map((event) => event.uid) },
+        },
+      });
+
+      for (const event of events) {
+        await tx.propertyAvailabilityBlock.upsert({
+          where: {
+            sourceId_externalUid: {
+              sourceId: source.id,
+              externalUid: event.uid,
+            },
+          },
+          create: {
+            propertyId: source.propertyId,
+            sourceId: source.id,
+            externalUid: event.uid,
+            startDate: event.start,
+            endDate: event.end,
+            reason: AvailabilityBlockReason.EXTERNAL_BOOKING,
+            note: `Imported from ${source.name}`,
+          },
+          update: {
+            startDate: event.start,
+            endDate: event.end,
+          },
+        });
+      }
+
+      await tx.externalCalendarSource.update({
+        where: { id: source.id },
+        data: {
+          syncStatus: status,
+          lastSyncAttemptAt: attemptedAt,
+          lastSyncedAt: attemptedAt,
+          lastError: null,
+          lastEventCount: events.length,
+          conflictCount: conflicts.length,
+        },
+      });
+    });
+
+    if (conflicts.length > source.conflictCount) {
+      await notifyRealtorOfConflicts(source, conflicts);
+    }
+
+    return {
+      sourceId: source.id,
+      status,
+      eventCount: events.length,
+      conflicts,
+    };
+  } catch (error) {
+    const message = (
+      error instanceof Error ? error.message : String(error)
+    ).slice(0, MAX_LAST_ERROR_LENGTH);
+
+    logger.warn("External calendar sync failed", {
+      sourceId: source.id,
+      propertyId: source.propertyId,
+      error: message,
+    });
+
+    // Keep previously imported blocks: a flaky feed must not reopen nights.
+    await prisma.externalCalendarSource.update({
+      where: { id: source.id },
+      data: {
+        syncStatus: CalendarSyncStatus.FAILED,
+        lastSyncAttemptAt: attemptedAt,
+        lastError: message,
+      },
+    });
+
+    return {
+      sourceId: source.id,
+      status: CalendarSyncStatus.FAILED,
+      eventCount: 0,
+      conflicts: [],
+      error: message,
+    };
+  }
+};
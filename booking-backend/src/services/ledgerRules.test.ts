@@ -0,0 +1,251 @@
+import {
+  JournalDirection,
+  LedgerAccount,
+  WalletOwnerType,
+  WalletTransactionSource,
+} from "@prisma/client";
+import {
+  credit,
+  debit,
+  escrowLedgerExpectations,
+  findLedgerDiscrepancies,
+  findUnbalancedEntries,
+  prepareJournalLines,
+  summarizeLedgerBalances,
+  walletLedgerExpectations,
+  walletOffsetLeg,
+} from "./ledgerRules";
+
+describe("ledgerRules", () => {
+  it("rounds legs to cents and drops zero amounts", () => {
+    expect(
+      prepareJournalLines([
+        debit(LedgerAccount.ESCROW, 100.004, "booking-1"),
+        credit(LedgerAccount.REALTOR_PAYABLE, 90, "realtor-1"),
+        credit(LedgerAccount.PLATFORM_REVENUE, 10, "platform"),
+        credit(LedgerAccount.PROCESSING_FEES, 0),
+      ])
+    ).toEqual({
+      lines: [
+        {
+          account: LedgerAccount.ESCROW,
+          subledgerId: "booking-1",
+          direction: JournalDirection.DEBIT,
+          amount: 100,
+        },
+        {
+          account: LedgerAccount.REALTOR_PAYABLE,
+          subledgerId: "realtor-1",
+          direction: JournalDirection.CREDIT,
+          amount: 90,
+        },
+        {
+          account: LedgerAccount.PLATFORM_REVENUE,
+          subledgerId: "platform",
+          direction: JournalDirection.CREDIT,
+          amount: 10,
+        },
+      ],
+      error: null,
+    });
+  });
+
+  it("rejects unbalanced and negative legs", () => {
+    expect(
+      prepareJournalLines([
+        debit(LedgerAccount.ESCROW, 100),
+        credit(LedgerAccount.REALTOR_PAYABLE, 99.99),
+      ])
+    ).toEqual({
+      lines: null,
+      error: "Journal entry is unbalanced: debits 100.00, credits 99.99",
+    });
+    expect(
+      prepareJournalLines([
+        debit(LedgerAccount.ESCROW, -5),
+        credit(LedgerAccount.GATEWAY_BALANCE, -5),
+      ])
+    ).toMatchObject({ lines: null });
+  });
+
+  it("posts wallet movements against the account implied by the source", () => {
+    expect(
+      walletOffsetLeg(
+        WalletTransactionSource.ROOM_FEE,
+        "realtor-1",
+        "booking-1"
+      )
+    ).toEqual({ account: LedgerAccount.ESCROW, subledgerId: "booking-1" });
+    expect(
+      walletOffsetLeg(
+        WalletTransactionSource.CLEANING_FEE,
+        "realtor-1",
+        "booking-1"
+      )
+    ).toEqual({
+      account: LedgerAccount.GUEST_RECEIVABLE,
+      subledgerId: "booking-1",
+    });
+    expect(
+      walletOffsetLeg(WalletTransactionSource.WITHDRAWAL, "realtor-1", "ref")
+    ).toEqual({
+      account: LedgerAccount.PAYOUT_CLEARING,
+      subledgerId: "realtor-1",
+    });
+  });
+
+  it("signs balances in each account's normal direction", () => {
+    const balances = summarizeLedgerBalances([
+      {
+        account: LedgerAccount.GATEWAY_BALANCE,
+        subledgerId: null,
+        direction: JournalDirection.DEBIT,
+        amount: 150,
+      },
+      {
+        account: LedgerAccount.GATEWAY_BALANCE,
+        subledgerId: null,
+        direction: JournalDirection.CREDIT,
+        amount: 50,
+      },
+      {
+        account: LedgerAccount.REALTOR_PAYABLE,
+        subledgerId: "realtor-1",
+        direction: JournalDirection.CREDIT,
+        amount: 100,
+      },
+    ]);
+
+    expect(balances).toEqual([
+      {
+        account: LedgerAccount.GATEWAY_BALANCE,
+        subledgerId: null,
+        debits: 150,
+        credits: 50,
+        balance: 100,
+      },
+      {
+        account: LedgerAccount.REALTOR_PAYABLE,
+        subledgerId: "realtor-1",
+        debits: 0,
+        credits: 100,
+        balance: 100,
+      },
+    ]);
+  });
+
+  it("keeps balances in different currencies apart", () => {
+    const balances = summarizeLedgerBalances([
+      {
+        account: LedgerAccount.REALTOR_PAYABLE,
+        subledgerId: "realtor-1",
+        currency: "NGN",
+        direction: JournalDirection.CREDIT,
+        amount: 100,
+      },
+      {
+        account: LedgerAccount.REALTOR_PAYABLE,
+        subledgerId: "realtor-1",
+        currency: "GHS",
+        direction: JournalDirection.CREDIT,
+        amount: 40,
+      },
+    ]);
+
+    expect(
+      balances.map((balance) => [balance.currency, balance.balance])
+    ).toEqual([
+      ["NGN", 100],
+      ["GHS", 40],
+    ]);
+    expect(
+      findLedgerDiscrepancies(
+        balances,
+        walletLedgerExpectations([
+          {
+            ownerType: WalletOwnerType.REALTOR,
+            ownerId: "realtor-1",
+            currency: "GHS",
+            balanceAvailable: 40,
+            balancePending: 0,
+          },
+        ])
+      )
+    ).toEqual([
+      {
+        account: LedgerAccount.REALTOR_PAYABLE,
+        subledgerId: "realtor-1",
+        currency: "NGN",
+        expected: 0,
+        source: "no matching record",
+        ledgerBalance: 100,
+        difference: 100,
+      },
+    ]);
+  });
+
+  it("finds entries whose debits and credits differ", () => {
+    expect(
+      findUnbalancedEntries([
+        { entryId: "a", direction: JournalDirection.DEBIT, amount: 10.1 },
+        { entryId: "a", direction: JournalDirection.CREDIT, amount: 10.1 },
+        { entryId: "b", direction: JournalDirection.DEBIT, amount: 5 },
+      ])
+    ).toEqual([{ entryId: "b", debits: 5, credits: 0 }]);
+  });
+
+  it("reports wallets and escrows that disagree with the journal", () => {
+    const balances = summarizeLedgerBalances([
+      {
+        account: LedgerAccount.REALTOR_PAYABLE,
+        subledgerId: "realtor-1",
+        direction: JournalDirection.CREDIT,
+        amount: 80,
+      },
+      {
+        account: LedgerAccount.ESCROW,
+        subledgerId: "booking-1",
+        direction: JournalDirection.CREDIT,
+        amount: 200,
+      },
+      {
+        account: LedgerAccount.ESCROW,
+        subledgerId: "booking-orphan",
+        direction: JournalDirection.CREDIT,
+        amount: 15,
+      },
+    ]);
+    const expectations = [
+      ...walletLedgerExpectations([
+        {
+          ownerType: WalletOwnerType.REALTOR,
+          ownerId: "realtor-1",
+          balanceAvailable: 100,
+          balancePending: 0,
+        },
+      ]),
+      ...escrowLedgerExpectations([
+        { bookingId: "booking-1", roomFeeHeld: 150, depositHeld: 50 },
+      ]),
+    ];
+
+    expect(findLedgerDiscrepancies(balances, expectations)).toEqual([
+      {
+        account: LedgerAccount.REALTOR_PAYABLE,
+        subledgerId: "realtor-1",
+        expected: 100,
+        source: "wallet.balanceAvailable",
+        ledgerBalance: 80,
+        difference: -20,
+      },
+      {
+        account: LedgerAccount.ESCROW,
+        subledgerId: "booking-orphan",
+        expected: 0,
+        source: "no matching record",
+        ledgerBalance: 15,
+        difference: 15,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,366 @@
+import {
+  JournalDirection,
+  LedgerAccount,
+  WalletOwnerType,
+  WalletTransactionSource,
+} from "@prisma/client";
+
+export interface LedgerLeg {
+  account: LedgerAccount;
+  subledgerId?: string | null;
+  direction: JournalDirection;
+  amount: number;
+}
+
+export interface LedgerLineAmount {
+  account: LedgerAccount;
+  subledgerId: string | null;
+  direction: JournalDirection;
+  amount: number;
+  currency?: string;
+}
+
+export interface LedgerBalance {
+  account: LedgerAccount;
+  subledgerId: string | null;
+  currency?: string;
+  debits: number;
+  credits: number;
+  balance: number;
+}
+
+export interface LedgerExpectation {
+  account: LedgerAccount;
+  subledgerId: string | null;
+  currency?: string;
+  expected: number;
+  source: string;
+}
+
+export interface LedgerDiscrepancy extends LedgerExpectation {
+  ledgerBalance: number;
+  difference: number;
+}
+
+export const PLATFORM_SUBLEDGER_ID = "platform";
+
+export const LEDGER_ACCOUNT_LABELS: Record<LedgerAccount, string> = {
+  GUEST_RECEIVABLE: "Guest receivable",
+  GATEWAY_BALANCE: "Gateway balance",
+  ESCROW: "Escrow",
+  REALTOR_PAYABLE: "Realtor payable",
+  PAYOUT_CLEARING: "Payout clearing",
+  PLATFORM_REVENUE: "Platform revenue",
+  PROCESSING_FEES: "Processing fees",
+};
+
+/**
+ * Assets and expenses grow with debits; the remaining accounts are
+ * liabilities or revenue and grow with credits.
+ */
+const DEBIT_NORMAL_ACCOUNTS = new Set<LedgerAccount>([
+  LedgerAccount.GUEST_RECEIVABLE,
+  LedgerAccount.GATEWAY_BALANCE,
+  LedgerAccount.PROCESSING_FEES,
+]);
+
+/**
+ * Accounts mirrored by a wallet or escrow row. Any non-zero balance in
+ * these accounts must be backed by a record.
+ */
+const PROJECTED_ACCOUNTS = new Set<LedgerAccount>([
+  LedgerAccount.ESCROW,
+  LedgerAccount.REALTOR_PAYABLE,
+  LedgerAccount.PAYOUT_CLEARING,
+  LedgerAccount.PLATFORM_REVENUE,
+]);
+
+/**
+ * Account a wallet movement is posted against, by transaction source.
+ * Booking-level accounts are keyed by the transaction's referenceId
+ * (the bookingId); payout clearing by the wallet owner.
+ */
+const WALLET_SOURCE_OFFSET_ACCOUNT: Record<
+  WalletTransactionSource,
+  LedgerAccount
+> = {
+  CLEANING_FEE: LedgerAccount.GUEST_RECEIVABLE,
+  SERVICE_FEE: LedgerAccount.GUEST_RECEIVABLE,
+  REFUND: LedgerAccount.GUEST_RECEIVABLE,
+  ROOM_FEE: LedgerAccount.ESCROW,
+  COMMISSION: LedgerAccount.ESCROW,
+  SECURITY_DEPOSIT: LedgerAccount.ESCROW,
+  CANCELLATION: LedgerAccount.ESCROW,
+  WITHDRAWAL: LedgerAccount.PAYOUT_CLEARING,
+  WITHDRAWAL_FEE: LedgerAccount.PAYOUT_CLEARING,
+  PROCESSING_FEE_ADJUSTMENT: LedgerAccount.PROCESSING_FEES,
+  ADJUSTMENT: LedgerAccount.GATEWAY_BALANCE,
+};
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+// Balances are kept per account, subledger and currency; amounts in
+// different currencies never net against each other
+const balanceKey = (row: {
+  account: LedgerAccount;
+  subledgerId: string | null;
+  currency?: string;
+}): string => `${row.account}:${row.subledgerId ?? ""}:${row.currency ?? ""}`;
+
+export const roundMoney = (value: number): number => toCents(value) / 100;
+
+export const debit = (
+  account: LedgerAccount,
+  amount: number,
+  subledgerId?: string | null,
+): LedgerLeg => ({
+  account,
+  subledgerId,
+  direction: JournalDirection.DEBIT,
+  amount,
+});
+
+export const credit = (
+  account: LedgerAccount,
+  amount: number,
+  subledgerId?: string | null,
+): LedgerLeg => ({
+  account,
+  subledgerId,
+  direction: JournalDirection.CREDIT,
+  amount,
+});
+
+export const walletLedgerAccount = (
+  ownerType: WalletOwnerType,
+): LedgerAccount =>
+  ownerType === WalletOwnerType.PLATFORM
+    ? LedgerAccount.PLATFORM_REVENUE
+    : LedgerAccount.REALTOR_PAYABLE;
+
+export const walletOffsetLeg = (
+  source: WalletTransactionSource,
+  walletOwnerId: string,
+  referenceId?: string | null,
+): Pick<LedgerLeg, "account" | "subledgerId"> => {
+  const account = WALLET_SOURCE_OFFSET_ACCOUNT[source];
+
+  if (
+    account === LedgerAccount.ESCROW ||
+    account === LedgerAccount.GUEST_RECEIVABLE
+  ) {
+    return { account, subledgerId: referenceId ?? null };
+  }
+  if (account === LedgerAccount.PAYOUT_CLEARING) {
+    return { account, subledgerId: walletOwnerId };
+  }
+  return { account, subledgerId: null };
+};
+
+/**
+ * Round legs to cents, drop zero amounts and require debits to equal
+ * credits. An entry with no remaining lines is valid and posts nothing.
+ */
+export const prepareJournalLines = (
+  legs: LedgerLeg[],
+): { lines: LedgerLineAmount[] | null; error: string | null } => {
+  let debitCents = 0;
+  let creditCents = 0;
+  const lines: LedgerLineAmount[] = [];
+
+  for (const leg of legs) {
+    if (!Number.isFinite(leg.amount) || leg.amount < 0) {
+      return {
+        lines: null,
+        error: `Invalid ${leg.account} amount: ${leg.amount}`,
+      };
+    }
+
+    const cents = toCents(leg.amount);
+    if (cents === 0) {
+      continue;
+    }
+
+    if (leg.direction === JournalDirection.DEBIT) {
+      debitCents += cents;
+    } else {
+      creditCents += cents;
+    }
+    lines.push({
+      account: leg.account,
+      subledgerId: leg.subledgerId ?? null,
+      direction: leg.direction,
+      amount: cents / 100,
+    });
+  }
+
+  if (debitCents !== creditCents) {
+    return {
+      lines: null,
+      error: `Journal entry is unbalanced: debits ${(debitCents / 100).toFixed(
+        2,
+      )}, credits ${(creditCents / 100).toFixed(2)}`,
+    };
+  }
+
+  return { lines, error: null };
+};
+
+/**
+ * Fold journal line totals into per-account balances, signed in each
+ * account's normal direction.
+ */
+export const summarizeLedgerBalances = (
+  rows: LedgerLineAmount[],
+): LedgerBalance[] => {
+  const totals = new Map<string, LedgerBalance>();
+
+  for (const row of rows) {
+    const key = balanceKey(row);
+    const current = totals.get(key) ?? {
+      account: row.account,
+      subledgerId: row.subledgerId,
+      currency: row.currency,
+      debits: 0,
+      credits: 0,
+      balance: 0,
+    };
+
+    if (row.direction === JournalDirection.DEBIT) {
+      current.debits = roundMoney(current.debits + row.amount);
+    } else {
+      current.credits = roundMoney(current.credits + row.amount);
+    }
+    current.balance = roundMoney(
+      DEBIT_NORMAL_ACCOUNTS.has(row.account)
+        ? current.debits - current.credits
+        : current.credits - current.debits,
+    );
+    totals.set(key, current);
+  }
+
+  return Array.from(totals.values());
+};
+
+/**
+ * Entries whose debits and credits differ. Rows are per-entry totals by
+ * direction.
+ */
+export const findUnbalancedEntries = (
+  rows: Array<{ entryId: string; direction: JournalDirection; amount: number }>,
+): Array<{ entryId: string; debits: number; credits: number }> => {
+  const totals = new Map<string, { debits: number; credits: number }>();
+
+  for (const row of rows) {
+    const current = totals.get(row.entryId) ?? { debits: 0, credits: 0 };
+    if (row.direction === JournalDirection.DEBIT) {
+      current.debits += toCents(row.amount);
+    } else {
+      current.credits += toCents(row.amount);
+    }
+    totals.set(row.entryId, current);
+  }
+
+  return Array.from(totals.entries())
+    .filter(([, total]) => total.debits !== total.credits)
+    .map(([entryId, total]) => ({
+      entryId,
+      debits: total.debits / 100,
+      credits: total.credits / 100,
+    }));
+};
+
+export const walletLedgerExpectations = (
+  wallets: Array<{
+    ownerType: WalletOwnerType;
+    ownerId: string;
+    currency?: string;
+    balanceAvailable: number;
+    balancePending: number;
+  }>,
+): LedgerExpectation[] =>
+  wallets.flatMap((wallet) => [
+    {
+      account: walletLedgerAccount(wallet.ownerType),
+      subledgerId: wallet.ownerId,
+      currency: wallet.currency,
+      expected: wallet.balanceAvailable,
+      source: "wallet.balanceAvailable",
+    },
+    {
+      account: LedgerAccount.PAYOUT_CLEARING,
+      subledgerId: wallet.ownerId,
+      currency: wallet.currency,
+      expected: wallet.balancePending,
+      source: "wallet.balancePending",
+    },
+  ]);
+
+export const escrowLedgerExpectations = (
+  escrows: Array<{
+    bookingId: string;
+    currency?: string;
+    roomFeeHeld: number;
+    depositHeld: number;
+  }>,
+): LedgerExpectation[] =>
+  escrows.map((escrow) => ({
+    account: LedgerAccount.ESCROW,
+    subledgerId: escrow.bookingId,
+    currency: escrow.currency,
+    expected: roundMoney(escrow.roomFeeHeld + escrow.depositHeld),
+    source: "escrow.roomFeeHeld + escrow.depositHeld",
+  }));
+
+/**
+ * Compare journal-derived balances with the balances recorded on wallets
+ * and escrows. Projected accounts with a balance but no backing record
+ * are reported against an expected zero.
+ */
+export const findLedgerDiscrepancies = (
+  balances: LedgerBalance[],
+  expectations: LedgerExpectation[],
+): LedgerDiscrepancy[] => {
+  const byKey = new Map(
+    balances.map((balance) => [balanceKey(balance), balance.balance]),
+  );
+  const expectedKeys = new Set<string>();
+  const discrepancies: LedgerDiscrepancy[] = [];
+
+  for (const expectation of expectations) {
+    const key = balanceKey(expectation);
+    expectedKeys.add(key);
+
+    const ledgerBalance = byKey.get(key) ?? 0;
+    const differenceCents =
+      toCents(ledgerBalance) - toCents(expectation.expected);
+    if (differenceCents !== 0) {
+      discrepancies.push({
+        ...expectation,
+        ledgerBalance,
+        difference: differenceCents / 100,
+      });
+    }
+  }
+
+  for (const balance of balances) {
+    const key = balanceKey(balance);
+    if (
+      PROJECTED_ACCOUNTS.has(balance.account) &&
+      !expectedKeys.has(key) &&
+      toCents(balance.balance) !== 0
+    ) {
+      discrepancies.push({
+        account: balance.account,
+        subledgerId: balance.subledgerId,
+        currency: balance.currency,
+        expected: 0,
+        source: "no matching record",
+        ledgerBalance: balance.balance,
+        difference: balance.balance,
+      });
+    }
+  }
+
+  return discrepancies;
+};
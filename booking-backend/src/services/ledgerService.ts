@@ -0,0 +1,255 @@
+import { JournalEntryType, LedgerAccount, Prisma } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import { DEFAULT_CURRENCY } from "@/services/currency";
+import {
+  LedgerDiscrepancy,
+  LedgerLeg,
+  escrowLedgerExpectations,
+  findLedgerDiscrepancies,
+  findUnbalancedEntries,
+  prepareJournalLines,
+  roundMoney,
+  summarizeLedgerBalances,
+  walletLedgerExpectations,
+} from "@/services/ledgerRules";
+
+type LedgerDbClient = Prisma.TransactionClient | typeof prisma;
+
+export interface JournalEntryInput {
+  type: JournalEntryType;
+  reference?: string | null;
+  bookingId?: string | null;
+  description?: string;
+  metadata?: Record<string, unknown>;
+  currency?: string; // Defaults to naira
+  lines: LedgerLeg[];
+}
+
+export interface LedgerInvariantReport {
+  checkedAt: Date;
+  healthy: boolean;
+  totals: { debits: number; credits: number };
+  unbalancedEntries: Array<{
+    entryId: string;
+    debits: number;
+    credits: number;
+  }>;
+  discrepancies: LedgerDiscrepancy[];
+}
+
+export const parseLedgerAccount = (value: unknown): LedgerAccount => {
+  const key = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (!Object.values(LedgerAccount).includes(key as LedgerAccount)) {
+    throw new AppError(
+      `Account must be one of: ${Object.values(LedgerAccount).join(", ")}`,
+      400,
+    );
+  }
+  return key as LedgerAccount;
+};
+
+/**
+ * Append a balanced entry to the journal. Pass the caller's transaction
+ * client so the entry commits or rolls back with the money movement it
+ * records. Throws when debits and credits differ.
+ */
+export const postJournalEntry = async (
+  db: LedgerDbClient,
+  input: JournalEntryInput,
+) => {
+  const { lines, error } = prepareJournalLines(input.lines);
+  if (error) {
+    throw new Error(error);
+  }
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return db.journalEntry.create({
+    data: {
+      type: input.type,
+      reference: input.reference ?? null,
+      bookingId: input.bookingId ?? null,
+      description: input.description,
+      metadata: input.metadata
+        ? JSON.parse(JSON.stringify(input.metadata))
+        : undefined,
+      lines: {
+        create: lines.map((line) => ({
+          account: line.account,
+          subledgerId: line.subledgerId,
+          direction: line.direction,
+          amount: new Prisma.Decimal(line.amount),
+          currency: input.currency ?? DEFAULT_CURRENCY,
+        })),
+      },
+    },
+  });
+};
+
+/**
+ * Balances derived from the journal, per currency, optionally narrowed
+ * to one account, subledger or currency.
+ */
+export const getLedgerBalances = async (
+  filters: {
+    account?: LedgerAccount;
+    subledgerId?: string;
+    currency?: string;
+  } = {},
+  db: LedgerDbClient = prisma,
+) => {
+  const rows = await db.journalLine.groupBy({
+    by: ["account", "subledgerId", "currency", "direction"],
+    where: {
+      ...(filters.account ? { account: filters.account } : {}),
+      ...(filters.subledgerId ? { subledgerId: filters.subledgerId } : {}),
+      ...(filters.currency ? { currency: filters.currency } : {}),
+    },
+    _sum: { amount: true },
+  });
+
+  return summarizeLedgerBalances(
+    rows.map((row) => ({
+      account: row.account,
+      subledgerId: row.subledgerId,
+      currency: row.currency,
+      direction: row.direction,
+      amount: row._sum.amount?.toNumber() ?? 0,
+    })),
+  );
+};
+
+export const getLedgerAccountBalance = async (
+  account: LedgerAccount,
+  subledgerId?: string,
+  db: LedgerDbClient = prisma,
+  currency: string = DEFAULT_CURRENCY,
+): Promise<number> => {
+  const balances = await getLedgerBalances(
+    { account, subledgerId, currency },
+    db,
+  );
+  return roundMoney(
+    balances.reduce((sum, balance) => sum + balance.balance, 0),
+  );
+};
+
+export const listJournalEntries = async (filters: {
+  account?: LedgerAccount;
+  subledgerId?: string;
+  bookingId?: string;
+  type?: JournalEntryType;
+  page: number;
+  limit: number;
+}) => {
+  const where: Prisma.JournalEntryWhereInput = {
+    ...(filters.bookingId ? { bookingId: filters.bookingId } : {}),
+    ...(filters.type ? { type: filters.type } : {}),
+    ...(filters.account || filters.subledgerId
+      ? {
+          lines: {
+            some: {
+              ...(filters.account ? { account: filters.account } : {}),
+              ...(filters.subledgerId
+                ? { subledgerId: filters.subledgerId }
+                : {}),
+            },
+          },
+        }
+      : {}),
+  };
+
+  const [entries, total] = await Promise.all([
+    prisma.journalEntry.findMany({
+      where,
+      include: { lines: { orderBy: { direction: "desc" } } },
+      orderBy: { createdAt: "desc" },
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.journalEntry.count({ where }),
+  ]);
+
+  return { entries, total };
+};
+
+/**
+ * Check that every entry balances, that the journal as a whole balances,
+ * and that wallet and escrow balances equal the balances derived from the
+ * journal.
+ */
+export const checkLedgerInvariants =
+  async (): Promise<LedgerInvariantReport> => {
+    const [entryTotals, balances, wallets, escrows] = await Promise.all([
+      prisma.journalLine.groupBy({
+        by: ["entryId", "direction"],
+        _sum: { amount: true },
+      }),
+      getLedgerBalances(),
+      prisma.wallet.findMany({
+        select: {
+          ownerType: true,
+          ownerId: true,
+          currency: true,
+          balanceAvailable: true,
+          balancePending: true,
+        },
+      }),
+      prisma.escrow.findMany({
+        select: {
+          bookingId: true,
+          roomFeeHeld: true,
+          depositHeld: true,
+          booking: { select: { currency: true } },
+        },
+      }),
+    ]);
+
+    const unbalancedEntries = findUnbalancedEntries(
+      entryTotals.map((row) => ({
+        entryId: row.entryId,
+        direction: row.direction,
+        amount: row._sum.amount?.toNumber() ?? 0,
+      })),
+    );
+    const discrepancies = findLedgerDiscrepancies(balances, [
+      ...walletLedgerExpectations(
+        wallets.map((wallet) => ({
+          ownerType: wallet.ownerType,
+          ownerId: wallet.ownerId,
+          currency: wallet.currency,
+          balanceAvailable: wallet.balanceAvailable.toNumber(),
+          balancePending: wallet.balancePending.toNumber(),
+        })),
+      ),
+      ...escrowLedgerExpectations(
+        escrows.map((escrow) => ({
+          bookingId: escrow.bookingId,
+          currency: escrow.booking.currency,
+          roomFeeHeld: escrow.roomFeeHeld.toNumber(),
+          depositHeld: escrow.depositHeld.toNumber(),
+        })),
+      ),
+    ]);
+    const totals = {
+      debits: roundMoney(
+        balances.reduce((sum, balance) => sum + balance.debits, 0),
+      ),
+      credits: roundMoney(
+        balances.reduce((sum, balance) => sum + balance.credits, 0),
+      ),
+    };
+
+    return {
+      checkedAt: new Date(),
+      healthy:
+        unbalancedEntries.length === 0 &&
+        discrepancies.length === 0 &&
+        totals.debits === totals.credits,
+      totals,
+      unbalancedEntries,
+      discrepancies,
+    };
+  };
@@ -0,0 +1,124 @@
+import {
+  buildPushPayload,
+  buildSmsText,
+  DEFAULT_CHANNEL_PREFERENCES,
+  getNotificationCategory,
+  getNotificationPath,
+  resolveNotificationChannels,
+} from "./notificationChannels";
+import { LocalSmsTransport, normalizePhoneNumber } from "./sms";
+
+const notification = {
+  id: "notif-1",
+  type: "BOOKING_CONFIRMED",
+  title: "Booking Confirmed",
+  message: 'Your booking for "Lekki Loft" has been confirmed!',
+  priority: "high",
+  bookingId: "booking-1",
+};
+
+describe("notificationChannels", () => {
+  it("maps notification types to preference categories", () => {
+    expect(getNotificationCategory("BOOKING_CANCELLED")).toBe("booking");
+    expect(getNotificationCategory("PAYMENT_FAILED")).toBe("payment");
+    expect(getNotificationCategory("REFUND_PROCESSED")).toBe("payment");
+    expect(getNotificationCategory("REVIEW_RESPONSE")).toBe("review");
+    expect(getNotificationCategory("CAC_STATUS_UPDATE")).toBe("system");
+  });
+
+  it("uses column defaults when the user has no saved preferences", () => {
+    expect(resolveNotificationChannels(null, "PAYMENT_COMPLETED")).toEqual({
+      email: true,
+      push: true,
+      sms: false,
+    });
+  });
+
+  it("requires both the channel and the category toggle", () => {
+    const preferences = {
+      ...DEFAULT_CHANNEL_PREFERENCES,
+      smsEnabled: true,
+      smsBookingUpdates: false,
+      pushBookingUpdates: false,
+    };
+
+    expect(
+      resolveNotificationChannels(preferences, "BOOKING_CONFIRMED")
+    ).toEqual({
+      email: true,
+      push: false,
+      sms: false,
+    });
+    expect(resolveNotificationChannels(preferences, "PAYMENT_FAILED")).toEqual({
+      email: true,
+      push: true,
+      sms: true,
+    });
+    expect(
+      resolveNotificationChannels(preferences, "REVIEW_RECEIVED").sms
+    ).toBe(false);
+  });
+
+  it("lets callers switch channels off but never on", () => {
+    expect(
+      resolveNotificationChannels(null, "SYSTEM_ALERT", {
+        emailEnabled: false,
+      }).email
+    ).toBe(false);
+    expect(
+      resolveNotificationChannels(
+        { ...DEFAULT_CHANNEL_PREFERENCES, pushEnabled: false },
+        "SYSTEM_ALERT",
+        { pushEnabled: true }
+      ).push
+    ).toBe(false);
+  });
+
+  it("builds push payloads that deep link to the booking", () => {
+    expect(JSON.parse(buildPushPayload(notification, "GUEST"))).toMatchObject({
+      title: "Booking Confirmed",
+      tag: "notif-1",
+      url: "/guest/bookings/booking-1",
+    });
+  });
+
+  it("links each recipient to their own view of the booking", () => {
+    expect(getNotificationPath(notification, "REALTOR")).toBe(
+      "/bookings/booking-1"
+    );
+    expect(getNotificationPath(notification, "ADMIN")).toBe("/admin/bookings");
+    expect(
+      getNotificationPath(
+        { ...notification, bookingId: null, propertyId: "property-1" },
+        "REALTOR"
+      )
+    ).toBe("/properties/property-1");
+  });
+
+  it("keeps SMS text to a single segment", () => {
+    const text = buildSmsText({ ...notification, message: "x".repeat(300) });
+    expect(text).toHaveLength(160);
+    expect(text.startsWith("Stayza: Booking Confirmed.")).toBe(true);
+    expect(text.endsWith("...")).toBe(true);
+  });
+
+  it("normalizes Nigerian and international phone numbers", () => {
+    expect(normalizePhoneNumber("0801 234 5678")).toBe("2348012345678");
+    expect(normalizePhoneNumber("+234 (801) 234-5678")).toBe("2348012345678");
+    expect(normalizePhoneNumber("00447911123456")).toBe("447911123456");
+    expect(normalizePhoneNumber("12345")).toBeNull();
+    expect(normalizePhoneNumber(null)).toBeNull();
+  });
+
+  it("records messages on the local SMS transport", async () => {
+    const transport = new LocalSmsTransport();
+    const result = await transport.send(
+      "2348012345678",
+      buildSmsText(notification)
+    );
+
+    expect(result).toEqual({ provider: "LOCAL", messageId: "local-1" });
+    expect(transport.messages).toHaveLength(1);
+    expect(transport.messages[0].to).toBe("2348012345678");
+  });
+});
@@ -0,0 +1,221 @@
+import { NotificationPreference, UserRole } from "@prisma/client";
+import { SMS_MAX_LENGTH } from "@/services/sms";
+
+/**
+ * Channel routing for notifications. Every notification is stored and sent
+ * over socket.io; email, push and SMS follow the recipient's per-category
+ * NotificationPreference toggles.
+ */
+
+export type NotificationCategory = "booking" | "payment" | "review" | "system";
+
+export type ChannelPreferences = Pick<
+  NotificationPreference,
+  | "emailEnabled"
+  | "emailBookingUpdates"
+  | "emailPaymentUpdates"
+  | "emailReviews"
+  | "emailSystemAlerts"
+  | "pushEnabled"
+  | "pushBookingUpdates"
+  | "pushPaymentUpdates"
+  | "pushReviews"
+  | "pushSystemAlerts"
+  | "smsEnabled"
+  | "smsBookingUpdates"
+  | "smsPaymentUpdates"
+  | "smsSystemAlerts"
+>;
+
+export interface NotificationChannels {
+  email: boolean;
+  push: boolean;
+  sms: boolean;
+}
+
+// Mirrors the column defaults of notification_preferences, for users who
+// never saved their preferences
+export const DEFAULT_CHANNEL_PREFERENCES: ChannelPreferences = {
+  emailEnabled: true,
+  emailBookingUpdates: true,
+  emailPaymentUpdates: true,
+  emailReviews: true,
+  emailSystemAlerts: true,
+  pushEnabled: true,
+  pushBookingUpdates: true,
+  pushPaymentUpdates: true,
+  pushReviews: true,
+  pushSystemAlerts: true,
+  smsEnabled: false,
+  smsBookingUpdates: false,
+  smsPaymentUpdates: true,
+  smsSystemAlerts: false,
+};
+
+const BOOKING_TYPES = new Set([
+  "BOOKING_CONFIRMED",
+  "BOOKING_CANCELLED",
+  "BOOKING_REMINDER",
+  "BOOKING_STATUS_ADMIN_UPDATE",
+  "BOOKING_ADMIN_CANCELLED",
+  "MESSAGE_RECEIVED",
+  "DISPUTE_OPENED",
+]);
+
+const PAYMENT_TYPES = new Set([
+  "PAYMENT_COMPLETED",
+  "PAYMENT_FAILED",
+  "PAYMENT_REMINDER",
+  "PAYOUT_COMPLETED",
+]);
+
+const REVIEW_TYPES = new Set([
+  "REVIEW_RECEIVED",
+  "REVIEW_RESPONSE",
+  "GUEST_REVIEW_RECEIVED",
+  "REVIEW_FLAGGED",
+  "REVIEW_MODERATION",
+]);
+
+export const getNotificationCategory = (type: string): NotificationCategory => {
+  if (BOOKING_TYPES.has(type)) {
+    return "booking";
+  }
+
+  if (PAYMENT_TYPES.has(type) || type.startsWith("REFUND_")) {
+    return "payment";
+  }
+
+  if (REVIEW_TYPES.has(type)) {
+    return "review";
+  }
+
+  return "system";
+};
+
+/**
+ * Decide which out-of-band channels a notification goes to. Callers can
+ * only switch a channel off, never force one the user disabled.
+ */
+export const resolveNotificationChannels = (
+  preferences: ChannelPreferences | null,
+  type: string,
+  overrides: { emailEnabled?: boolean; pushEnabled?: boolean } = {},
+): NotificationChannels => {
+  const prefs = preferences ?? DEFAULT_CHANNEL_PREFERENCES;
+
+  const byCategory: Record<NotificationCategory, NotificationChannels> = {
+    booking: {
+      email: prefs.emailBookingUpdates,
+      push: prefs.pushBookingUpdates,
+      sms: prefs.smsBookingUpdates,
+    },
+    payment: {
+      email: prefs.emailPaymentUpdates,
+      push: prefs.pushPaymentUpdates,
+      sms: prefs.smsPaymentUpdates,
+    },
+    review: {
+      email: prefs.emailReviews,
+      push: prefs.pushReviews,
+      // There is no SMS toggle for reviews; they are never urgent
+      sms: false,
+    },
+    system: {
+      email: prefs.emailSystemAlerts,
+      push: prefs.pushSystemAlerts,
+      sms: prefs.smsSystemAlerts,
+    },
+  };
+  const category = byCategory[getNotificationCategory(type)];
+
+  return {
+    email:
+      overrides.emailEnabled !== false && prefs.emailEnabled && category.email,
+    push: overrides.pushEnabled !== false && prefs.pushEnabled && category.push,
+    sms: prefs.smsEnabled && category.sms,
+  };
+};
+
+interface DeliverableNotification {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  priority: string;
+  bookingId?: string | null;
+  propertyId?: string | null;
+}
+
+/**
+ * Where a notification opens for its recipient: guests land on their trip,
+ * realtors on the booking or listing in their dashboard, admins on the
+ * matching admin list.
+ */
+export const getNotificationPath = (
+  notification: DeliverableNotification,
+  recipientRole: UserRole,
+) => {
+  if (recipientRole === UserRole.REALTOR) {
+    if (notification.bookingId) {
+      return `/bookings/${notification.bookingId}`;
+    }
+    if (notification.propertyId) {
+      return `/properties/${notification.propertyId}`;
+    }
+    return "/dashboard";
+  }
+
+  if (recipientRole === UserRole.ADMIN) {
+    if (notification.bookingId) {
+      return "/admin/bookings";
+    }
+    if (notification.propertyId) {
+      return "/admin/properties";
+    }
+    return "/admin";
+  }
+
+  if (notification.bookingId) {
+    return `/guest/bookings/${notification.bookingId}`;
+  }
+
+  if (notification.propertyId) {
+    return `/guest/browse/${notification.propertyId}`;
+  }
+
+  return "/";
+};
+
+export const buildPushPayload = (
+  notification: DeliverableNotification,
+  recipientRole: UserRole,
+) =>
+  JSON.stringify({
+    title: notification.title,
+    body: notification.message,
+    tag: notification.id,
+    url: getNotificationPath(notification, recipientRole),
+    data: {
+      notificationId: notification.id,
+      type: notification.type,
+    },
+  });
+
+export const buildSmsText = (notification: DeliverableNotification) => {
+  const text = `Stayza: ${notification.title}. ${notification.message}`
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return text.length > SMS_MAX_LENGTH
+    ? `${text.slice(0, SMS_MAX_LENGTH - 3).trimEnd()}...`
+    : text;
+};
+
+export const getPushUrgency = (priority: string) => {
+  const normalized = priority.toLowerCase();
+  if (normalized === "urgent" || normalized === "high") {
+    return "high" as const;
+  }
+  return "normal" as const;
+};
@@ -0,0 +1,345 @@
+import {
+  Notification,
+  NotificationChannel,
+  NotificationDelivery,
+  User,
+} from "@prisma/client";
+import { config } from "@/config";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import {
+  buildPushPayload,
+  buildSmsText,
+  getPushUrgency,
+  NotificationChannels,
+} from "@/services/notificationChannels";
+import { getSmsProvider, normalizePhoneNumber } from "@/services/sms";
+import { logger } from "@/utils/logger";
+import { sendWebPush, VapidKeys, WebPushError } from "@/utils/webPush";
+
+/**
+ * Push and SMS delivery for stored notifications. Each channel gets a
+ * NotificationDelivery row that is attempted right away and retried with
+ * exponential backoff by the notification delivery job.
+ */
+
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// A claimed delivery is hidden from other workers for this long
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+const MAX_LAST_ERROR_LENGTH = 500;
+
+type DeliveryOutcome =
+  | { status: "SENT"; provider: string; messageId?: string }
+  | { status: "SKIPPED"; reason: string };
+
+type DeliveryWithNotification = NotificationDelivery & {
+  notification: Notification & { user: Pick<User, "role"> };
+};
+
+export interface DeliveryRunResult {
+  sent: number;
+  skipped: number;
+  retried: number;
+  failed: number;
+}
+
+export const getVapidConfig = (): VapidKeys | null => {
+  if (!config.VAPID_PUBLIC_KEY || !config.VAPID_PRIVATE_KEY) {
+    return null;
+  }
+
+  return {
+    publicKey: config.VAPID_PUBLIC_KEY,
+    privateKey: config.VAPID_PRIVATE_KEY,
+    subject: config.VAPID_SUBJECT,
+  };
+};
+
+const getNextAttemptAt = (attempts: number) =>
+  new Date(
+    Date.now() +
+      Math.min(
+        BASE_BACKOFF_MS * Math.pow(2, Math.max(attempts - 1, 0)),
+        MAX_BACKOFF_MS,
+      ),
+  );
+
+const deliverPush = async (
+  notification: DeliveryWithNotification["notification"],
+): Promise<DeliveryOutcome> => {
+  const vapid = getVapidConfig();
+  if (!vapid) {
+    return { status: "SKIPPED", reason: "Web Push is not configured" };
+  }
+
+  const now = new Date();
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: {
+      userId: notification.userId,
+      OR: [{ expirationTime: null }, { expirationTime: { gt: now } }],
+    },
+  });
+
+  if (subscriptions.length === 0) {
+    return { status: "SKIPPED", reason: "No push subscriptions" };
+  }
+
+  const payload = buildPushPayload(notification, notification.user.role);
+  const errors: string[] = [];
+  let delivered = 0;
+
+  for (const subscription of subscriptions) {
+    try {
+      await sendWebPush(subscription, payload, vapid, {
+        urgency: getPushUrgency(notification.priority),
+      });
+      delivered += 1;
+      await prisma.pushSubscription.update({
+        where: { id: subscription.id },
+        data: { lastSuccessAt: new Date() },
+      });
+    } catch (error) {
+      if (error instanceof WebPushError && error.isSubscriptionGone) {
+        await prisma.pushSubscription.deleteMany({
+          where: { id: subscription.id },
+        });
+        continue;
+      }
+
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (delivered > 0) {
+    return { status: "SENT", provider: "WEB_PUSH" };
+  }
+
+  if (errors.length === 0) {
+    return { status: "SKIPPED", reason: "All push subscriptions expired" };
+  }
+
+  throw new Error(errors.join(" | "));
+};
+
+const deliverSms = async (
+  notification: Notification,
+): Promise<DeliveryOutcome> => {
+  const user = await prisma.user.findUnique({
+    where: { id: notification.userId },
+    select: { phone: true },
+  });
+
+  const phone = normalizePhoneNumber(user?.phone);
+  if (!phone) {
+    return { status: "SKIPPED", reason: "No valid phone number" };
+  }
+
+  const result = await getSmsProvider().send(phone, buildSmsText(notification));
+  return { status: "SENT", ...result };
+};
+
+const CHANNEL_SENT_FIELD: Record<NotificationChannel, "pushSent" | "smsSent"> =
+  {
+    PUSH: "pushSent",
+    SMS: "smsSent",
+  };
+
+const processDelivery = async (
+  delivery: DeliveryWithNotification,
+): Promise<keyof DeliveryRunResult | null> => {
+  const now = new Date();
+
+  // Lease the row so a concurrent run does not send the same message twice
+  const claimed = await prisma.notificationDelivery.updateMany({
+    where: {
+      id: delivery.id,
+      status: "PENDING",
+      nextAttemptAt: { lte: now },
+    },
+    data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const attempts = delivery.attempts + 1;
+
+  try {
+    const outcome =
+      delivery.channel === "PUSH"
+        ? await deliverPush(delivery.notification)
+        : await deliverSms(delivery.notification);
+
+    if (outcome.status === "SKIPPED") {
+      await prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: { status: "SKIPPED", attempts, lastError: outcome.reason },
+      });
+      return "skipped";
+    }
+
+    await prisma.$transaction([
+      prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: "SENT",
+          attempts,
+          provider: outcome.provider,
+          providerMessageId: outcome.messageId,
+          lastError: null,
+          sentAt: new Date(),
+        },
+      }),
+      prisma.notification.update({
+        where: { id: delivery.notificationId },
+        data: { [CHANNEL_SENT_FIELD[delivery.channel]]: true },
+      }),
+    ]);
+    return "sent";
+  } catch (error) {
+    const message = (
+      error instanceof Error ? error.message : String(error)
+    ).slice(0, MAX_LAST_ERROR_LENGTH);
+    const exhausted = attempts >= delivery.maxAttempts;
+
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: exhausted ? "FAILED" : "PENDING",
+        attempts,
+        lastError: message,
+        nextAttemptAt: exhausted ? now : getNextAttemptAt(attempts),
+      },
+    });
+
+    logger.warn(
+      exhausted
+        ? "Notification delivery permanently failed"
+        : "Notification delivery failed; queued for retry",
+      {
+        notificationDeliveryId: delivery.id,
+        channel: delivery.channel,
+        attempts,
+        error: message,
+      },
+    );
+    return exhausted ? "failed" : "retried";
+  }
+};
+
+/**
+ * Attempt due push/SMS deliveries, oldest first
+ */
+export const processNotificationDeliveries = async (
+  options: { notificationId?: string; limit?: number } = {},
+): Promise<DeliveryRunResult> => {
+  const result: DeliveryRunResult = {
+    sent: 0,
+    skipped: 0,
+    retried: 0,
+    failed: 0,
+  };
+
+  const due = await prisma.notificationDelivery.findMany({
+    where: {
+      status: "PENDING",
+      nextAttemptAt: { lte: new Date() },
+      ...(options.notificationId
+        ? { notificationId: options.notificationId }
+        : {}),
+    },
+    include: {
+      notification: { include: { user: { select: { role: true } } } },
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: options.limit ?? 100,
+  });
+
+  for (const delivery of due) {
+    const outcome = await processDelivery(delivery);
+    if (outcome) {
+      result[outcome] += 1;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Create the push/SMS delivery rows for a new notification and try them
+ * immediately, or from `notBefore` during quiet hours. Failures stay queued
+ * for the delivery job.
+ */
+export const queueNotificationDeliveries = async (
+  notificationId: string,
+  channels: Pick<NotificationChannels, "push" | "sms">,
+  options: { notBefore?: Date | null } = {},
+): Promise<void> => {
+  const selected: NotificationChannel[] = [];
+  if (channels.push) selected.push("PUSH");
+  if (channels.sms) selected.push("SMS");
+
+  if (selected.length === 0) {
+    return;
+  }
+
+  await prisma.notificationDelivery.createMany({
+    data: selected.map((channel) => ({
+      notificationId,
+      channel,
+      maxAttempts: config.NOTIFICATION_DELIVERY_MAX_ATTEMPTS,
+      ...(options.notBefore ? { nextAttemptAt: options.notBefore } : {}),
+    })),
+    skipDuplicates: true,
+  });
+
+  if (options.notBefore && options.notBefore > new Date()) {
+    return;
+  }
+
+  await processNotificationDeliveries({ notificationId });
+};
+
+export const savePushSubscription = async (
+  userId: string,
+  input: {
+    endpoint: string;
+    keys: { p256dh: string; auth: string };
+    expirationTime?: number | null;
+    userAgent?: string;
+  },
+) => {
+  if (!getVapidConfig()) {
+    throw new AppError("Push notifications are not available", 503);
+  }
+
+  const data = {
+    userId,
+    p256dh: input.keys.p256dh,
+    auth: input.keys.auth,
+    expirationTime: input.expirationTime
+      ? new Date(input.expirationTime)
+      : null,
+    userAgent: input.userAgent?.slice(0, 255) || null,
+  };
+
+  // Endpoints are unique per browser install; re-subscribing after a
+  // different user signs in on the same device moves it to that user
+  return prisma.pushSubscription.upsert({
+    where: { endpoint: input.endpoint },
+    create: { endpoint: input.endpoint, ...data },
+    update: data,
+  });
+};
+
+export const removePushSubscription = async (
+  userId: string,
+  endpoint: string,
+): Promise<number> => {
+  const { count } = await prisma.pushSubscription.deleteMany({
+    where: { userId, endpoint },
+  });
+  return count;
+};
@@ -0,0 +1,163 @@
+import { config } from "@/config";
+import { prisma } from "@/config/database";
+import { sendNotificationDigestEmail } from "@/services/email";
+import { getNotificationPath } from "@/services/notificationChannels";
+import {
+  DEFAULT_SCHEDULE_PREFERENCES,
+  getQuietHoursEnd,
+  isDigestDue,
+} from "@/services/notificationSchedule";
+import NotificationService from "@/services/notificationService";
+import { logger } from "@/utils/logger";
+
+/**
+ * Release emails held by quiet hours or a digest preference. Digest users get
+ * one summary per period; users without a digest get each held email once
+ * their quiet hours end. Notifications read in-app meanwhile are dropped.
+ */
+
+// Items rendered in one digest; the rest are summarized as a count
+const DIGEST_MAX_ITEMS = 20;
+
+export interface DigestRunResult {
+  digests: number;
+  emails: number;
+  dropped: number;
+}
+
+const releaseUserEmails = async (
+  userId: string,
+  now: Date,
+  result: DigestRunResult,
+): Promise<void> => {
+  const [user, preference, oldestHeld] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, firstName: true, role: true },
+    }),
+    prisma.notificationPreference.findUnique({ where: { userId } }),
+    prisma.notification.findFirst({
+      where: { userId, emailHeld: true },
+      orderBy: { createdAt: "asc" },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  if (!oldestHeld) {
+    return;
+  }
+
+  const prefs = preference ?? DEFAULT_SCHEDULE_PREFERENCES;
+  if (getQuietHoursEnd(prefs, now)) {
+    return;
+  }
+
+  const isDigest = prefs.digestFrequency !== "never";
+  if (isDigest && !isDigestDue(prefs, oldestHeld.createdAt, now)) {
+    return;
+  }
+
+  const held = { userId, emailHeld: true, createdAt: { lte: now } };
+
+  // Already seen in the app; no point emailing them
+  const { count: dropped } = await prisma.notification.updateMany({
+    where: { ...held, isRead: true },
+    data: { emailHeld: false },
+  });
+  result.dropped += dropped;
+
+  if (!user?.email) {
+    await prisma.notification.updateMany({
+      where: held,
+      data: { emailHeld: false },
+    });
+    return;
+  }
+
+  if (!isDigest) {
+    const notifications = await prisma.notification.findMany({
+      where: held,
+      orderBy: { createdAt: "asc" },
+    });
+
+    for (const notification of notifications) {
+      await NotificationService.sendEmailNotification(userId, notification);
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: { emailHeld: false },
+      });
+      result.emails += 1;
+    }
+    return;
+  }
+
+  const [notifications, totalCount] = await Promise.all([
+    prisma.notification.findMany({
+      where: held,
+      orderBy: { createdAt: "desc" },
+      take: DIGEST_MAX_ITEMS,
+    }),
+    prisma.notification.count({ where: held }),
+  ]);
+
+  if (totalCount === 0) {
+    return;
+  }
+
+  await sendNotificationDigestEmail({
+    to: user.email,
+    firstName: user.firstName,
+    frequency: prefs.digestFrequency,
+    notifications: notifications.map((notification) => {
+      const path = getNotificationPath(notification, user.role);
+      return {
+        title: notification.title,
+        message: notification.message,
+        createdAt: notification.createdAt,
+        url: path === "/" ? undefined : `${config.FRONTEND_URL}${path}`,
+      };
+    }),
+    totalCount,
+    notificationsUrl: `${config.FRONTEND_URL}${
+      user.role === "GUEST" ? "/guest/notifications" : "/notifications"
+    }`,
+  });
+
+  // Accepted by the email queue, which owns any further retries
+  await prisma.notification.updateMany({
+    where: held,
+    data: { emailHeld: false, emailSent: true },
+  });
+  result.digests += 1;
+};
+
+/**
+ * Send due digests and release quiet-hour emails for users with held
+ * notifications
+ */
+export const processNotificationDigests = async (
+  options: { now?: Date; limit?: number } = {},
+): Promise<DigestRunResult> => {
+  const now = options.now ?? new Date();
+  const result: DigestRunResult = { digests: 0, emails: 0, dropped: 0 };
+
+  const users = await prisma.notification.findMany({
+    where: { emailHeld: true },
+    distinct: ["userId"],
+    select: { userId: true },
+    take: options.limit ?? 500,
+  });
+
+  for (const { userId } of users) {
+    try {
+      await releaseUserEmails(userId, now, result);
+    } catch (error) {
+      logger.error("Failed to release held notification emails", {
+        userId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,100 @@
+import {
+  getDigestPeriodStart,
+  getNotificationSchedule,
+  getQuietHoursEnd,
+  isDigestDue,
+  SchedulePreferences,
+} from "./notificationSchedule";
+
+const lagos: SchedulePreferences = {
+  digestFrequency: "daily",
+  quietHoursStart: "22:00",
+  quietHoursEnd: "07:30",
+  timezone: "Africa/Lagos",
+};
+
+describe("notificationSchedule", () => {
+  it("finds the end of a quiet window that wraps past midnight", () => {
+    // 03:10 in Lagos (UTC+1)
+    expect(getQuietHoursEnd(lagos, new Date("2026-03-23T02:10:45Z"))).toEqual(
+      new Date("2026-03-23T06:30:00Z")
+    );
+    // 21:59 in Lagos, just before quiet hours
+    expect(getQuietHoursEnd(lagos, new Date("2026-03-23T20:59:00Z"))).toBe(
+      null
+    );
+    expect(
+      getQuietHoursEnd(
+        { ...lagos, quietHoursStart: "08:00", quietHoursEnd: "08:00" },
+        new Date("2026-03-23T07:30:00Z")
+      )
+    ).toBe(null);
+  });
+
+  it("lets high and urgent notifications bypass quiet hours and digests", () => {
+    const night = new Date("2026-03-23T02:00:00Z");
+
+    expect(getNotificationSchedule(lagos, "urgent", night)).toEqual({
+      holdEmail: false,
+      quietUntil: null,
+    });
+    expect(getNotificationSchedule(lagos, "normal", night)).toEqual({
+      holdEmail: true,
+      quietUntil: new Date("2026-03-23T06:30:00Z"),
+    });
+    expect(
+      getNotificationSchedule(
+        { ...lagos, digestFrequency: "never" },
+        "normal",
+        new Date("2026-03-23T12:00:00Z")
+      )
+    ).toEqual({ holdEmail: false, quietUntil: null });
+  });
+
+  it("sends email right away to users who have not opted into digests", () => {
+    expect(
+      getNotificationSchedule(null, "normal", new Date("2026-03-23T12:00:00Z"))
+    ).toEqual({ holdEmail: false, quietUntil: null });
+  });
+
+  it("starts digest periods at the local digest hour", () => {
+    // Tuesday 10:20 in New York (UTC-4)
+    const now = new Date("2026-03-24T14:20:30Z");
+
+    expect(getDigestPeriodStart("hourly", "America/New_York", now)).toEqual(
+      new Date("2026-03-24T14:00:00Z")
+    );
+    expect(getDigestPeriodStart("daily", "America/New_York", now)).toEqual(
+      new Date("2026-03-24T12:00:00Z")
+    );
+    expect(getDigestPeriodStart("weekly", "America/New_York", now)).toEqual(
+      new Date("2026-03-23T12:00:00Z")
+    );
+    // Monday 07:00, before the weekly digest hour
+    expect(
+      getDigestPeriodStart(
+        "weekly",
+        "America/New_York",
+        new Date("2026-03-23T11:00:00Z")
+      )
+    ).toEqual(new Date("2026-03-16T12:00:00Z"));
+  });
+
+  it("sends a digest once its oldest notification predates the period", () => {
+    const now = new Date("2026-03-23T09:00:00Z"); // 10:00 in Lagos
+
+    expect(isDigestDue(lagos, new Date("2026-03-23T06:59:00Z"), now)).toBe(
+      true
+    );
+    expect(isDigestDue(lagos, new Date("2026-03-23T07:01:00Z"), now)).toBe(
+      false
+    );
+    expect(
+      isDigestDue(
+        { ...lagos, digestFrequency: "never" },
+        new Date("2026-03-20T00:00:00Z"),
+        now
+      )
+    ).toBe(false);
+  });
+});
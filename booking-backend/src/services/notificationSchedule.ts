@@ -0,0 +1,167 @@
+import { NotificationPreference } from "@prisma/client";
+
+/**
+ * When out-of-band notifications may go out: quiet hours in the recipient's
+ * timezone hold push/SMS and email, and users on a digest get non-urgent
+ * email as one periodic summary. High and urgent priorities bypass both.
+ */
+
+export type DigestFrequency = "never" | "hourly" | "daily" | "weekly";
+
+export type SchedulePreferences = Pick<
+  NotificationPreference,
+  "digestFrequency" | "quietHoursStart" | "quietHoursEnd" | "timezone"
+>;
+
+export interface NotificationSchedule {
+  // Email is held for the digest job instead of being sent now
+  holdEmail: boolean;
+  // Push/SMS must not be attempted before this instant
+  quietUntil: Date | null;
+}
+
+// Mirrors the column defaults of notification_preferences
+export const DEFAULT_SCHEDULE_PREFERENCES: SchedulePreferences = {
+  digestFrequency: "never",
+  quietHoursStart: "22:00",
+  quietHoursEnd: "08:00",
+  timezone: "UTC",
+};
+
+// Daily and weekly digests go out at this local hour (weekly on Mondays)
+export const DIGEST_LOCAL_HOUR = 8;
+
+const MINUTE_MS = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const isUrgentPriority = (priority: string) => {
+  const normalized = priority.toLowerCase();
+  return normalized === "high" || normalized === "urgent";
+};
+
+const parseTimeOfDay = (value: string | null): number | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value || "");
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Minutes since local midnight and day of week (0 = Sunday) in a timezone.
+ * Unknown timezones fall back to UTC.
+ */
+export const getLocalClock = (now: Date, timeZone: string) => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).formatToParts(now);
+  } catch {
+    return getLocalClock(now, "UTC");
+  }
+
+  const part = (type: string) =>
+    parts.find((entry) => entry.type === type)?.value || "";
+
+  return {
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+    weekday: WEEKDAYS.indexOf(part("weekday")),
+  };
+};
+
+/**
+ * End of the quiet window the user is currently in, or null outside quiet
+ * hours. Windows may wrap past midnight (22:00-08:00); equal start and end
+ * means quiet hours are off. A DST change inside the window can shift the
+ * end by up to an hour.
+ */
+export const getQuietHoursEnd = (
+  prefs: SchedulePreferences,
+  now: Date,
+): Date | null => {
+  const start = parseTimeOfDay(prefs.quietHoursStart);
+  const end = parseTimeOfDay(prefs.quietHoursEnd);
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const { minutes } = getLocalClock(now, prefs.timezone);
+  const inQuietHours =
+    start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+  if (!inQuietHours) {
+    return null;
+  }
+
+  const startOfMinute = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+  const minutesLeft = (end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return new Date(startOfMinute + minutesLeft * MINUTE_MS);
+};
+
+export const getNotificationSchedule = (
+  prefs: SchedulePreferences | null,
+  priority: string,
+  now: Date = new Date(),
+): NotificationSchedule => {
+  if (isUrgentPriority(priority)) {
+    return { holdEmail: false, quietUntil: null };
+  }
+
+  const effective = prefs ?? DEFAULT_SCHEDULE_PREFERENCES;
+  const quietUntil = getQuietHoursEnd(effective, now);
+
+  return {
+    holdEmail: effective.digestFrequency !== "never" || quietUntil !== null,
+    quietUntil,
+  };
+};
+
+/**
+ * Start of the digest period containing `now`: the top of the hour for
+ * hourly digests, the latest local DIGEST_LOCAL_HOUR for daily ones and the
+ * latest Monday at that hour for weekly ones.
+ */
+export const getDigestPeriodStart = (
+  frequency: DigestFrequency,
+  timeZone: string,
+  now: Date,
+): Date => {
+  const startOfMinute = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+  const { minutes, weekday } = getLocalClock(now, timeZone);
+
+  if (frequency === "hourly") {
+    return new Date(startOfMinute - (minutes % 60) * MINUTE_MS);
+  }
+
+  let minutesSinceStart = minutes - DIGEST_LOCAL_HOUR * 60;
+  if (frequency === "weekly") {
+    minutesSinceStart += ((weekday + 6) % 7) * MINUTES_PER_DAY;
+  }
+
+  if (minutesSinceStart < 0) {
+    minutesSinceStart += (frequency === "weekly" ? 7 : 1) * MINUTES_PER_DAY;
+  }
+
+  return new Date(startOfMinute - minutesSinceStart * MINUTE_MS);
+};
+
+/**
+ * A digest is due once the oldest held notification predates the current
+ * period, so each period's notifications go out together at its end.
+ */
+export const isDigestDue = (
+  prefs: SchedulePreferences,
+  oldestHeldAt: Date,
+  now: Date,
+): boolean => {
+  const frequency = prefs.digestFrequency as DigestFrequency;
+  if (!["hourly", "daily", "weekly"].includes(frequency)) {
+    return false;
+  }
+
+  return oldestHeldAt < getDigestPeriodStart(frequency, prefs.timezone, now);
+};
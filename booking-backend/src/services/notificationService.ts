@@ -5,6 +5,10 @@ import { config } from "@/config";
 import { prisma } from "@/config/database";
 import { sendEmail } from "@/services/email";
 import { logger } from "@/utils/logger";
+import { isSessionActive } from "@/services/authSessions";
+import { resolveNotificationChannels } from "@/services/notificationChannels";
+import { getNotificationSchedule } from "@/services/notificationSchedule";
+import { queueNotificationDeliveries } from "@/services/notificationDelivery";
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -184,6 +188,10 @@ export class NotificationService {
         return next(new Error("Authentication error: User not found"));
       }
 
+      if (!(await isSessionActive(decoded.sid, user.id))) {
+        return next(new Error("Authentication error: Session ended"));
+      }
+
       socket.userId = user.id;
       socket.userRole = user.role;
       socket.realtorId = user.realtor?.id;
@@ -250,6 +258,19 @@ export class NotificationService {
     pushEnabled?: boolean;
   }): Promise<void> {
     try {
+      const preference = await prisma.notificationPreference.findUnique({
+        where: { userId: data.userId },
+      });
+      const channels = resolveNotificationChannels(preference, data.type, {
+        emailEnabled: data.emailEnabled,
+        pushEnabled: data.pushEnabled,
+      });
+      const schedule = getNotificationSchedule(
+        preference,
+        data.priority || "normal",
+      );
+      const holdEmail = channels.email && schedule.holdEmail;
+
       // Create notification in database
       const notification = await prisma.notification.create({
         data: {
@@ -265,6 +286,8 @@ export class NotificationService {
           reviewId: data.reviewId,
           emailSent: false,
           pushSent: false,
+          smsEnabled: channels.sms,
+          emailHeld: holdEmail,
         },
       });
 
@@ -289,13 +312,27 @@ export class NotificationService {
       const unreadCount = await this.getUnreadCount(data.userId);
       this.io.to(`user:${data.userId}`).emit("unread_count", unreadCount);
 
-      // Send email/push notifications asynchronously (non-blocking)
-      if (data.emailEnabled !== false) {
+      // Send email/push/SMS notifications asynchronously (non-blocking).
+      // Held emails go out with the notification digest job instead.
+      if (channels.email && !holdEmail) {
         // Fire and forget - don't wait for email to complete
-        this.sendEmailNotification(data.userId, notification).catch((error) => {
+        NotificationService.sendEmailNotification(
+          data.userId,
+          notification,
+        ).catch((error) => {
           logger.error(`Failed to send email notification: ${error.message}`);
         });
       }
+
+      if (channels.push || channels.sms) {
+        queueNotificationDeliveries(notification.id, channels, {
+          notBefore: schedule.quietUntil,
+        }).catch((error) => {
+          logger.error(
+            `Failed to queue push/SMS notification: ${error.message}`,
+          );
+        });
+      }
     } catch (error) {
       logger.error("Failed to create and send notification", {
         userId: data.userId,
@@ -482,7 +519,7 @@ export class NotificationService {
   }
 
   // Send email notification
-  private async sendEmailNotification(
+  public static async sendEmailNotification(
     userId: string,
     notification: any,
   ): Promise<void> {
@@ -572,6 +609,12 @@ export class NotificationService {
         html: emailHtml,
       });
 
+      // Accepted by the email queue, which owns any further retries
+      await prisma.notification.update({
+        where: { id: notification.id },
+        data: { emailSent: true },
+      });
+
       logger.info(
         `Email notification sent to user ${userId}: ${notification.title}`,
       );
@@ -690,6 +733,34 @@ export const notificationHelpers = {
     priority: "normal",
   }),
 
+  reviewAwaitingGuestReview: (
+    userId: string,
+    reviewId: string,
+    bookingId: string,
+    propertyTitle: string,
+  ) => ({
+    userId,
+    type: "REVIEW_RECEIVED",
+    title: "New Review Received",
+    message: `A guest reviewed their stay at "${propertyTitle}". Review the guest to see it.`,
+    reviewId,
+    bookingId,
+    priority: "normal",
+  }),
+
+  guestReviewReceived: (
+    userId: string,
+    bookingId: string,
+    propertyTitle: string,
+  ) => ({
+    userId,
+    type: "GUEST_REVIEW_RECEIVED",
+    title: "Your Host Reviewed Your Stay",
+    message: `Your host reviewed your stay at "${propertyTitle}". Leave your own review to see it.`,
+    bookingId,
+    priority: "normal",
+  }),
+
   reviewResponse: (
     userId: string,
     reviewId: string,
@@ -716,6 +787,27 @@ export const notificationHelpers = {
     priority: "normal" as const,
   }),
 
+  reviewReportResolved: (
+    userId: string,
+    reviewId: string,
+    propertyTitle: string,
+    upheld: boolean,
+    isRemovalRequest: boolean,
+  ) => ({
+    userId,
+    type: "REVIEW_MODERATION",
+    title: upheld ? "Review Removed" : "Review Report Closed",
+    message: `Your ${
+      isRemovalRequest ? "removal request" : "report"
+    } for a review of "${propertyTitle}" was ${
+      upheld
+        ? "upheld and the review has been removed"
+        : "reviewed. The review meets our guidelines and will stay up"
+    }.`,
+    reviewId,
+    priority: "normal",
+  }),
+
   // Refund notifications
   refundRequested: (
     userId: string,
@@ -793,6 +885,31 @@ export const notificationHelpers = {
     priority: "high",
   }),
 
+  analyticsAlert: (
+    userId: string,
+    alert: {
+      id: string;
+      propertyId: string;
+      type: string;
+      severity: string;
+      message: string;
+    },
+    label: string,
+    propertyTitle: string,
+  ) => ({
+    userId,
+    type: "ANALYTICS_ALERT",
+    title: `${label}: ${propertyTitle}`,
+    message: alert.message,
+    propertyId: alert.propertyId,
+    data: {
+      alertId: alert.id,
+      alertType: alert.type,
+      severity: alert.severity,
+    },
+    priority: alert.severity === "CRITICAL" ? "high" : "normal",
+  }),
+
   // CAC status notifications
   cacApproved: (userId: string) => ({
     userId,
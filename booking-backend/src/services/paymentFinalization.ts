@@ -1,23 +1,43 @@
 import {
   BookingStatus,
   EmailEventType,
+  JournalEntryType,
+  LedgerAccount,
   PaymentStatus,
   Prisma,
 } from "@prisma/client";
 import { Decimal } from "@prisma/client/runtime/library";
 import { prisma } from "@/config/database";
 import escrowService from "@/services/escrowService";
+import { postJournalEntry } from "@/services/ledgerService";
+import { credit, debit, roundMoney } from "@/services/ledgerRules";
 import { sendBookingConfirmation } from "@/services/email";
 import { getMetadataObject } from "@/services/savedPaymentMethods";
 import { SystemMessageService } from "@/services/systemMessage";
 import { logger } from "@/utils/logger";
 import { config } from "@/config";
+import { buildRealtorSiteUrl } from "@/utils/domains";
 import type { ProcessingFeeMode } from "@/services/pricingEngine";
+import {
+  GatewayTransaction,
+  isLocalCard,
+} from "@/services/paymentGatewayRules";
+import {
+  SETTLEMENT_CURRENCY_DEFINITIONS,
+  formatMoney,
+  settlementCurrencyOf,
+} from "@/services/currency";
 
-export interface FinalizePaystackPaymentParams {
+export interface FinalizeGatewayPaymentParams {
   paymentId: string;
-  source: "VERIFY_PAYSTACK" | "VERIFY_BY_BOOKING" | "SAVED_METHOD" | "WEBHOOK";
-  providerData?: Record<string, unknown> | null;
+  source:
+    | "VERIFY_PAYMENT"
+    | "VERIFY_BY_BOOKING"
+    | "SAVED_METHOD"
+    | "WEBHOOK"
+    | "RECONCILIATION";
+  // Verified charge from the payment's gateway, in major units
+  transaction?: GatewayTransaction | null;
   extraMetadata?: Record<string, unknown>;
 }
 
@@ -31,6 +51,7 @@ type PaymentWithRelations = Prisma.PaymentGetPayload<{
             realtor: {
               include: {
                 user: true;
+                customDomain: true;
               };
             };
           };
@@ -40,7 +61,7 @@ type PaymentWithRelations = Prisma.PaymentGetPayload<{
   };
 }>;
 
-export interface FinalizePaystackPaymentResult {
+export interface FinalizeGatewayPaymentResult {
   payment: PaymentWithRelations;
   booking: PaymentWithRelations["booking"];
   alreadyFinalized: boolean;
@@ -77,6 +98,7 @@ const loadPaymentForFinalization = async (
               realtor: {
                 include: {
                   user: true,
+                  customDomain: true,
                 },
               },
             },
@@ -127,8 +149,8 @@ const ensureEscrowHeld = async (
 const buildMergedMetadata = (
   payment: PaymentWithRelations,
   now: Date,
-  source: FinalizePaystackPaymentParams["source"],
-  providerData?: Record<string, unknown> | null,
+  source: FinalizeGatewayPaymentParams["source"],
+  transaction?: GatewayTransaction | null,
   extraMetadata?: Record<string, unknown>,
 ): Prisma.InputJsonValue => {
   const metadata = getMetadataObject(payment.metadata);
@@ -139,16 +161,24 @@ const buildMergedMetadata = (
     ...((extraMetadata as Prisma.JsonObject | undefined) || {}),
   };
 
-  if (providerData && Object.keys(providerData).length > 0) {
-    const providerIdValue = providerData.id;
-    if (providerIdValue !== undefined && providerIdValue !== null) {
-      nextMetadata.providerId = String(providerIdValue);
+  if (transaction) {
+    nextMetadata.provider = transaction.provider;
+    if (transaction.providerTransactionId) {
+      nextMetadata.providerId = transaction.providerTransactionId;
+    }
+    nextMetadata.providerResponse = transaction.raw as Prisma.JsonValue;
+
+    if (transaction.gatewayResponse?.trim()) {
+      nextMetadata.gatewayResponse = transaction.gatewayResponse;
     }
-    nextMetadata.providerResponse = providerData as Prisma.JsonValue;
 
-    const gatewayResponse = providerData.gateway_response;
-    if (typeof gatewayResponse === "string" && gatewayResponse.trim()) {
-      nextMetadata.gatewayResponse = gatewayResponse;
+    // Kept provider-neutral so later charges (e.g. date changes) can reuse it
+    if (
+      transaction.authorization?.reusable &&
+      transaction.authorization.authorizationCode
+    ) {
+      nextMetadata.authorizationCode =
+        transaction.authorization.authorizationCode;
     }
   }
 
@@ -156,21 +186,14 @@ const buildMergedMetadata = (
 };
 
 const toActualProcessingMode = (
-  providerData?: Record<string, unknown> | null,
+  currency: string,
+  transaction?: GatewayTransaction | null,
 ): ProcessingFeeMode => {
-  const authorization =
-    providerData?.authorization &&
-    typeof providerData.authorization === "object" &&
-    !Array.isArray(providerData.authorization)
-      ? (providerData.authorization as Record<string, unknown>)
-      : {};
-
-  const countryCode =
-    typeof authorization.country_code === "string"
-      ? authorization.country_code.toUpperCase()
-      : "NG";
-  const isInternational = countryCode !== "NG";
-  return isInternational ? "INTERNATIONAL_ACTUAL" : "LOCAL_ACTUAL";
+  const { country } =
+    SETTLEMENT_CURRENCY_DEFINITIONS[settlementCurrencyOf(currency)];
+  return isLocalCard(transaction?.cardCountry ?? null, country)
+    ? "LOCAL_ACTUAL"
+    : "INTERNATIONAL_ACTUAL";
 };
 
 const createPaymentNotifications = async (
@@ -181,9 +204,10 @@ const createPaymentNotifications = async (
       userId: payment.booking.guestId,
       type: "PAYMENT_COMPLETED",
       title: "Payment Confirmed",
-      message: `Your payment of NGN ${Number(payment.amount).toLocaleString()} for ${
-        payment.booking.property.title
-      } has been confirmed`,
+      message: `Your payment of ${formatMoney(
+        Number(payment.amount),
+        payment.currency,
+      )} for ${payment.booking.property.title} has been confirmed`,
     },
   });
 
@@ -222,9 +246,10 @@ const sendConfirmationEmails = async (
     throw error;
   }
 
+  const realtor = payment.booking.property.realtor;
+
   sendBookingConfirmation(
     payment.booking.guest.email,
-    payment.booking.guest.firstName,
     {
       bookingId: payment.booking.id,
       propertyName: payment.booking.property.title,
@@ -235,17 +260,26 @@ const sendConfirmationEmails = async (
         payment.booking.id,
       )}`,
       realtorName:
-        payment.booking.property.realtor.businessName ||
-        `${payment.booking.property.realtor.user.firstName} ${payment.booking.property.realtor.user.lastName}`,
-      realtorEmail: payment.booking.property.realtor.user.email,
+        realtor.businessName ||
+        `${realtor.user.firstName} ${realtor.user.lastName}`,
+      realtorEmail: realtor.user.email,
+      // The realtor's own domain when verified, so guests come back to them
+      siteUrl: buildRealtorSiteUrl({
+        slug: realtor.slug,
+        customDomain:
+          realtor.customDomain?.status === "VERIFIED"
+            ? realtor.customDomain.hostname
+            : null,
+      }),
     },
-    payment.booking.property.realtor,
+    payment.booking.property,
+    realtor,
   ).catch(() => undefined);
 };
 
-export const finalizePaystackPayment = async (
-  params: FinalizePaystackPaymentParams,
-): Promise<FinalizePaystackPaymentResult> => {
+export const finalizeGatewayPayment = async (
+  params: FinalizeGatewayPaymentParams,
+): Promise<FinalizeGatewayPaymentResult> => {
   const payment = await loadPaymentForFinalization(params.paymentId);
 
   if (!payment) {
@@ -267,7 +301,7 @@ export const finalizePaystackPayment = async (
     payment,
     now,
     params.source,
-    params.providerData,
+    params.transaction,
     params.extraMetadata,
   );
 
@@ -291,16 +325,14 @@ export const finalizePaystackPayment = async (
   const stayzaAmount = Number(
     payment.booking.serviceFeeStayza || payment.serviceFeeStayzaAmount || 0,
   );
-  const providerFeesRaw =
-    typeof params.providerData?.fees === "number"
-      ? Number(params.providerData.fees)
-      : null;
-  const actualProcessingFee =
-    providerFeesRaw !== null ? providerFeesRaw / 100 : quotedProcessing;
+  const actualProcessingFee = params.transaction?.fees ?? quotedProcessing;
   const processingVariance = Number(
     (actualProcessingFee - quotedProcessing).toFixed(2),
   );
-  const processingModeActual = toActualProcessingMode(params.providerData);
+  const processingModeActual = toActualProcessingMode(
+    payment.currency,
+    params.transaction,
+  );
 
   const updateResult = await prisma.payment.updateMany({
     where: {
@@ -341,6 +373,30 @@ export const finalizePaystackPayment = async (
   const didFinalizeInThisCall = updateResult.count > 0;
 
   if (didFinalizeInThisCall) {
+    // The gateway collected the charge, less its processing fee
+    const collectedAmount = Number(payment.amount);
+    const processingFee = roundMoney(actualProcessingFee);
+    await postJournalEntry(prisma, {
+      type: JournalEntryType.PAYMENT_SETTLED,
+      reference: payment.reference,
+      bookingId: payment.booking.id,
+      description: "Guest payment collected by the gateway",
+      metadata: { paymentId: payment.id, processingFee },
+      currency: payment.currency,
+      lines: [
+        debit(
+          LedgerAccount.GATEWAY_BALANCE,
+          roundMoney(collectedAmount - processingFee),
+        ),
+        debit(LedgerAccount.PROCESSING_FEES, processingFee),
+        credit(
+          LedgerAccount.GUEST_RECEIVABLE,
+          collectedAmount,
+          payment.booking.id,
+        ),
+      ],
+    });
+
     await prisma.booking.update({
       where: { id: payment.booking.id },
       data: {
@@ -0,0 +1,160 @@
+import { PaymentMethod } from "@prisma/client";
+import { config } from "@/config";
+import { logger } from "@/utils/logger";
+import { paystackGateway } from "@/services/paystack";
+import { flutterwaveGateway } from "@/services/flutterwave";
+import {
+  GatewayHealthState,
+  GatewayRefund,
+  GatewayTransfer,
+  GatewayTransferInput,
+  PAYMENT_PROVIDERS,
+  PaymentGateway,
+  PaymentProvider,
+  createGatewayHealthState,
+  isGatewayDegraded,
+  isPaymentProvider,
+  orderGateways,
+  runWithFailover,
+} from "@/services/paymentGatewayRules";
+
+const GATEWAYS: Record<PaymentProvider, PaymentGateway> = {
+  PAYSTACK: paystackGateway,
+  FLUTTERWAVE: flutterwaveGateway,
+};
+
+// Per-process view of provider health; each instance learns it from its
+// own calls, so a restart starts every provider healthy again.
+const gatewayHealth: GatewayHealthState = createGatewayHealthState();
+
+export const getPaymentGateway = (provider: PaymentProvider): PaymentGateway =>
+  GATEWAYS[provider];
+
+/**
+ * Gateway that holds a payment's money. Verification and refunds must go
+ * back to it, so they never fail over.
+ */
+export const getGatewayForPayment = (payment: {
+  method: PaymentMethod | null;
+}): PaymentGateway =>
+  GATEWAYS[
+    isPaymentProvider(payment.method) ? payment.method : PaymentMethod.PAYSTACK
+  ];
+
+export const getDefaultPaymentProvider = (): PaymentProvider =>
+  isPaymentProvider(config.DEFAULT_PAYMENT_PROVIDER)
+    ? config.DEFAULT_PAYMENT_PROVIDER
+    : "PAYSTACK";
+
+/**
+ * Run a call against one gateway and record the outcome in its health.
+ * Only provider-side failures count against it.
+ */
+export const trackGatewayCall = async <T>(
+  gateway: PaymentGateway,
+  operation: (gateway: PaymentGateway) => Promise<T>,
+): Promise<T> =>
+  runWithFailover([gateway], gatewayHealth, operation).then(
+    ({ result }) => result,
+  );
+
+/**
+ * Start a new payment with the preferred provider, moving on to the next
+ * healthy provider for the currency when it is degraded or fails. Each
+ * provider keeps its own withPaymentRetry behaviour before failing over.
+ */
+export const withGatewayFailover = async <T>(
+  params: { currency: string; preferred?: PaymentProvider },
+  operation: (gateway: PaymentGateway) => Promise<T>,
+): Promise<{ gateway: PaymentGateway; result: T }> => {
+  const preferred = params.preferred ?? getDefaultPaymentProvider();
+  const gateways = orderGateways(Object.values(GATEWAYS), {
+    currency: params.currency,
+    preferred,
+    health: gatewayHealth,
+  });
+
+  const outcome = await runWithFailover(gateways, gatewayHealth, operation);
+  if (outcome.gateway.provider !== preferred) {
+    logger.warn("Payment provider failover", {
+      preferred,
+      used: outcome.gateway.provider,
+      currency: params.currency,
+    });
+  }
+  return outcome;
+};
+
+/**
+ * Send a payout with the preferred provider for its currency, failing over
+ * like new payments. Recipients are registered per provider, so the
+ * recipient is resolved on whichever gateway sends the transfer.
+ */
+export const initiatePayoutTransfer = async (
+  transfer: Omit<GatewayTransferInput, "recipient">,
+  resolveRecipient: (provider: PaymentProvider) => Promise<string>,
+): Promise<GatewayTransfer> => {
+  const { result } = await withGatewayFailover(
+    { currency: transfer.currency },
+    async (gateway) =>
+      gateway.initiateTransfer({
+        ...transfer,
+        recipient: await resolveRecipient(gateway.provider),
+      }),
+  );
+  return result;
+};
+
+export const getPaymentGatewayHealth = (now: Date = new Date()) => {
+  const providers = PAYMENT_PROVIDERS.map((provider) => {
+    const health = gatewayHealth[provider];
+    return {
+      provider,
+      configured: GATEWAYS[provider].isConfigured(),
+      status: !GATEWAYS[provider].isConfigured()
+        ? "disabled"
+        : isGatewayDegraded(gatewayHealth, provider, now)
+          ? "degraded"
+          : "healthy",
+      consecutiveFailures: health.consecutiveFailures,
+      degradedUntil: health.degradedUntil?.toISOString() ?? null,
+      lastFailureAt: health.lastFailureAt?.toISOString() ?? null,
+      lastError: health.lastError,
+    };
+  });
+
+  return {
+    status: providers.some((provider) => provider.status === "degraded")
+      ? "degraded"
+      : "healthy",
+    defaultProvider: getDefaultPaymentProvider(),
+    providers,
+  };
+};
+
+/**
+ * Refund part or all of a payment through the gateway that collected it.
+ */
+export const refundPayment = async (
+  payment: {
+    method: PaymentMethod | null;
+    reference: string | null;
+    providerTransactionId?: string | null;
+    currency: string;
+  },
+  amount?: number,
+): Promise<GatewayRefund> => {
+  const reference = payment.reference || payment.providerTransactionId;
+  if (!reference) {
+    throw new Error("Cannot process refund without transaction reference");
+  }
+
+  return trackGatewayCall(getGatewayForPayment(payment), (gateway) =>
+    gateway.refund({
+      reference,
+      providerTransactionId: payment.providerTransactionId,
+      amount,
+      currency: payment.currency,
+    }),
+  );
+};
@@ -0,0 +1,284 @@
+import {
+  GATEWAY_DEGRADED_COOLDOWN_MS,
+  GATEWAY_FAILURE_THRESHOLD,
+  PaymentGateway,
+  PaymentGatewayError,
+  PaymentProvider,
+  createGatewayHealthState,
+  gatewayTransactionMismatch,
+  isGatewayDegraded,
+  isLocalCard,
+  normalizeFlutterwaveTransaction,
+  normalizePaystackGatewayTransaction,
+  orderGateways,
+  parseFlutterwaveWebhook,
+  parsePaystackWebhook,
+  recordGatewayFailure,
+  runWithFailover,
+} from "./paymentGatewayRules";
+
+const notUsed = () => Promise.reject(new Error("not used in this test"));
+
+const fakeGateway = (
+  provider: PaymentProvider,
+  overrides: Partial<PaymentGateway> = {}
+): PaymentGateway => ({
+  provider,
+  supportedCurrencies: ["NGN", "GHS"],
+  isConfigured: () => true,
+  initializeTransaction: async (input) => ({
+    provider,
+    reference: input.reference,
+    authorizationUrl: `https://${provider.toLowerCase()}.test/pay`,
+    accessCode: null,
+    publicKey: "pk_test",
+  }),
+  verifyTransaction: notUsed,
+  chargeAuthorization: notUsed,
+  refund: notUsed,
+  createTransferRecipient: notUsed,
+  initiateTransfer: notUsed,
+  verifyTransfer: notUsed,
+  listBanks: notUsed,
+  resolveAccount: notUsed,
+  verifyWebhookSignature: () => true,
+  parseWebhookEvent: () => {
+    throw new Error("not used in this test");
+  },
+  ...overrides,
+});
+
+const paystack = fakeGateway("PAYSTACK");
+const flutterwave = fakeGateway("FLUTTERWAVE");
+const now = new Date("2026-05-01T10:00:00.000Z");
+
+const degrade = (
+  health: ReturnType<typeof createGatewayHealthState>,
+  provider: PaymentProvider
+) => {
+  for (let i = 0; i < GATEWAY_FAILURE_THRESHOLD; i += 1) {
+    recordGatewayFailure(health, provider, new Error("timeout"), now);
+  }
+};
+
+const initialize = (gateway: PaymentGateway) =>
+  gateway.initializeTransaction({
+    email: "guest@example.com",
+    amount: 1000,
+    currency: "NGN",
+    reference: "ref-1",
+    callbackUrl: "https://stayza.test/callback",
+  });
+
+describe("paymentGatewayRules", () => {
+  it("puts the preferred gateway first", () => {
+    const health = createGatewayHealthState();
+
+    expect(
+      orderGateways([paystack, flutterwave], {
+        currency: "NGN",
+        preferred: "FLUTTERWAVE",
+        health,
+        now,
+      }).map((gateway) => gateway.provider)
+    ).toEqual(["FLUTTERWAVE", "PAYSTACK"]);
+  });
+
+  it("moves a degraded gateway to the end until its cooldown passes", () => {
+    const health = createGatewayHealthState();
+    degrade(health, "PAYSTACK");
+
+    expect(isGatewayDegraded(health, "PAYSTACK", now)).toBe(true);
+    expect(
+      orderGateways([paystack, flutterwave], {
+        currency: "NGN",
+        preferred: "PAYSTACK",
+        health,
+        now,
+      }).map((gateway) => gateway.provider)
+    ).toEqual(["FLUTTERWAVE", "PAYSTACK"]);
+
+    const later = new Date(now.getTime() + GATEWAY_DEGRADED_COOLDOWN_MS + 1);
+    expect(isGatewayDegraded(health, "PAYSTACK", later)).toBe(false);
+  });
+
+  it("skips gateways that are not configured or lack the currency", () => {
+    const health = createGatewayHealthState();
+    const gateways = [
+      fakeGateway("PAYSTACK", { supportedCurrencies: ["NGN"] }),
+      fakeGateway("FLUTTERWAVE", { isConfigured: () => false }),
+    ];
+
+    expect(
+      orderGateways(gateways, {
+        currency: "GHS",
+        preferred: "PAYSTACK",
+        health,
+      })
+    ).toEqual([]);
+  });
+
+  it("fails over to the next gateway on a retryable error", async () => {
+    const health = createGatewayHealthState();
+    const failing = fakeGateway("PAYSTACK", {
+      initializeTransaction: () =>
+        Promise.reject(
+          new PaymentGatewayError("Service unavailable", "PAYSTACK", true)
+        ),
+    });
+
+    const outcome = await runWithFailover(
+      [failing, flutterwave],
+      health,
+      initialize,
+      () => now
+    );
+
+    expect(outcome.gateway.provider).toBe("FLUTTERWAVE");
+    expect(outcome.result.authorizationUrl).toBe(
+      "https://flutterwave.test/pay"
+    );
+    expect(health.PAYSTACK.consecutiveFailures).toBe(1);
+    expect(health.PAYSTACK.lastError).toBe("Service unavailable");
+  });
+
+  it("does not fail over when the request itself is rejected", async () => {
+    const health = createGatewayHealthState();
+    const rejecting = fakeGateway("PAYSTACK", {
+      initializeTransaction: () =>
+        Promise.reject(
+          new PaymentGatewayError("Invalid email", "PAYSTACK", false)
+        ),
+    });
+    const fallback = jest.fn(initialize);
+
+    await expect(
+      runWithFailover([rejecting, flutterwave], health, (gateway) =>
+        gateway.provider === "PAYSTACK"
+          ? initialize(gateway)
+          : fallback(gateway)
+      )
+    ).rejects.toThrow("Invalid email");
+    expect(fallback).not.toHaveBeenCalled();
+    expect(health.PAYSTACK.consecutiveFailures).toBe(0);
+  });
+
+  it("clears failures after a successful call", async () => {
+    const health = createGatewayHealthState();
+    degrade(health, "PAYSTACK");
+
+    await runWithFailover([paystack], health, initialize, () => now);
+
+    expect(health.PAYSTACK.consecutiveFailures).toBe(0);
+    expect(isGatewayDegraded(health, "PAYSTACK", now)).toBe(false);
+  });
+
+  it("normalizes Paystack amounts from kobo", () => {
+    const transaction = normalizePaystackGatewayTransaction({
+      id: 9001,
+      reference: "ref-1",
+      status: "success",
+      amount: 1500050,
+      fees: 22500,
+      currency: "NGN",
+      gateway_response: "Approved",
+      authorization: {
+        authorization_code: "AUTH_1",
+        reusable: true,
+        country_code: "ng",
+      },
+    });
+
+    expect(transaction).toMatchObject({
+      provider: "PAYSTACK",
+      providerTransactionId: "9001",
+      status: "success",
+      amount: 15000.5,
+      fees: 225,
+      cardCountry: "NG",
+      authorization: { authorizationCode: "AUTH_1", reusable: true },
+    });
+  });
+
+  it("normalizes Flutterwave amounts, status and card country", () => {
+    const transaction = normalizeFlutterwaveTransaction({
+      id: 4512,
+      tx_ref: "ref-2",
+      status: "successful",
+      amount: 15000.5,
+      app_fee: 210.25,
+      currency: "NGN",
+      processor_response: "Approved",
+      card: { country: "NIGERIA NG", token: "flw-t1", last_4digits: "4242" },
+    });
+
+    expect(transaction).toMatchObject({
+      provider: "FLUTTERWAVE",
+      reference: "ref-2",
+      providerTransactionId: "4512",
+      status: "success",
+      amount: 15000.5,
+      fees: 210.25,
+      cardCountry: "NG",
+      authorization: { authorizationCode: "flw-t1", last4: "4242" },
+    });
+    expect(isLocalCard(transaction.cardCountry, "NG")).toBe(true);
+    expect(isLocalCard("GH", "NG")).toBe(false);
+  });
+
+  it("maps webhook payloads from both providers to the same event kinds", () => {
+    const paystackEvent = parsePaystackWebhook(
+      Buffer.from(
+        JSON.stringify({
+          event: "charge.success",
+          data: { reference: "ref-1", amount: 100000, currency: "NGN" },
+        })
+      )
+    );
+    const flutterwaveEvent = parseFlutterwaveWebhook(
+      Buffer.from(
+        JSON.stringify({
+          event: "charge.completed",
+          data: { id: 77, tx_ref: "ref-2", status: "failed", amount: 1000 },
+        })
+      )
+    );
+
+    expect(paystackEvent).toMatchObject({
+      eventId: "paystack-charge.success-ref-1",
+      kind: "CHARGE_SUCCESS",
+      reference: "ref-1",
+      transaction: { amount: 1000 },
+    });
+    expect(flutterwaveEvent).toMatchObject({
+      eventId: "flutterwave-charge.completed-failed-77",
+      kind: "CHARGE_FAILED",
+      reference: "ref-2",
+      transaction: { status: "failed" },
+    });
+  });
+
+  it("only accepts a successful charge of the payment's amount and currency", () => {
+    const transaction = normalizePaystackGatewayTransaction({
+      reference: "ref-1",
+      status: "success",
+      amount: 1500050,
+      currency: "NGN",
+    });
+    const payment = { amount: 15000.5, currency: "NGN" };
+
+    expect(gatewayTransactionMismatch(payment, transaction)).toBeNull();
+    expect(
+      gatewayTransactionMismatch({ ...payment, amount: 15000 }, transaction)
+    ).toMatch(/Amount mismatch/);
+    expect(
+      gatewayTransactionMismatch({ ...payment, currency: "GHS" }, transaction)
+    ).toMatch(/Currency mismatch/);
+    expect(
+      gatewayTransactionMismatch(payment, {
+        ...transaction,
+        status: "pending",
+      })
+    ).toBe("Transaction is pending");
+  });
+});
@@ -0,0 +1,580 @@
+import type { IncomingHttpHeaders } from "http";
+import { isRetryableError } from "@/utils/retry";
+import {
+  formatMoney,
+  fromMinorUnits,
+  settlementCurrencyOf,
+  toMinorUnits,
+} from "@/services/currency";
+
+export const PAYMENT_PROVIDERS = ["PAYSTACK", "FLUTTERWAVE"] as const;
+export type PaymentProvider = (typeof PAYMENT_PROVIDERS)[number];
+
+export const isPaymentProvider = (value: unknown): value is PaymentProvider =>
+  typeof value === "string" &&
+  (PAYMENT_PROVIDERS as readonly string[]).includes(value);
+
+/**
+ * Everything below is in major currency units; each gateway converts to
+ * its own wire format (kobo for Paystack, major units for Flutterwave).
+ */
+export interface GatewayInitializeInput {
+  email: string;
+  customerName?: string;
+  amount: number;
+  currency: string;
+  reference: string;
+  callbackUrl: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface GatewayInitializeResult {
+  provider: PaymentProvider;
+  reference: string;
+  authorizationUrl: string;
+  accessCode: string | null;
+  publicKey: string;
+}
+
+export interface GatewayAuthorization {
+  authorizationCode: string | null;
+  reusable: boolean;
+  last4: string | null;
+  brand: string | null;
+  countryCode: string | null;
+}
+
+export interface GatewayTransaction {
+  provider: PaymentProvider;
+  reference: string;
+  providerTransactionId: string | null;
+  status: "success" | "failed" | "pending";
+  amount: number;
+  currency: string;
+  fees: number | null;
+  cardCountry: string | null;
+  gatewayResponse: string | null;
+  authorization: GatewayAuthorization | null;
+  raw: Record<string, any>;
+}
+
+export interface GatewayChargeInput {
+  authorizationCode: string;
+  email: string;
+  amount: number;
+  currency: string;
+  reference: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface GatewayRefundInput {
+  reference: string;
+  providerTransactionId?: string | null;
+  amount?: number;
+  currency: string;
+}
+
+export interface GatewayRefund {
+  provider: PaymentProvider;
+  refundId: string | null;
+  status: string;
+  raw: Record<string, any>;
+}
+
+export interface GatewayRecipientInput {
+  name: string;
+  accountNumber: string;
+  bankCode: string;
+  currency: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface GatewayRecipient {
+  provider: PaymentProvider;
+  recipientCode: string;
+  raw: Record<string, any>;
+}
+
+export interface GatewayTransferInput {
+  amount: number;
+  currency: string;
+  recipient: string;
+  reason: string;
+  reference: string;
+}
+
+export interface GatewayTransfer {
+  provider: PaymentProvider;
+  reference: string;
+  transferId: string | null;
+  status: "success" | "failed" | "pending" | "reversed";
+  raw: Record<string, any>;
+}
+
+export interface GatewayBank {
+  name: string;
+  code: string;
+}
+
+export interface GatewayResolvedAccount {
+  accountNumber: string;
+  accountName: string;
+}
+
+export type GatewayWebhookEventKind =
+  | "CHARGE_SUCCESS"
+  | "CHARGE_FAILED"
+  | "TRANSFER_SUCCESS"
+  | "TRANSFER_FAILED"
+  | "TRANSFER_REVERSED"
+  | "UNHANDLED";
+
+export interface GatewayWebhookEvent {
+  eventId: string;
+  eventType: string;
+  kind: GatewayWebhookEventKind;
+  reference: string;
+  transaction: GatewayTransaction | null;
+  data: Record<string, any>;
+  payload: Record<string, any>;
+}
+
+export interface PaymentGateway {
+  provider: PaymentProvider;
+  supportedCurrencies: readonly string[];
+  isConfigured(): boolean;
+  initializeTransaction(
+    input: GatewayInitializeInput,
+  ): Promise<GatewayInitializeResult>;
+  verifyTransaction(reference: string): Promise<GatewayTransaction>;
+  chargeAuthorization(input: GatewayChargeInput): Promise<GatewayTransaction>;
+  refund(input: GatewayRefundInput): Promise<GatewayRefund>;
+  createTransferRecipient(
+    input: GatewayRecipientInput,
+  ): Promise<GatewayRecipient>;
+  initiateTransfer(input: GatewayTransferInput): Promise<GatewayTransfer>;
+  verifyTransfer(reference: string): Promise<GatewayTransfer>;
+  listBanks(currency: string): Promise<GatewayBank[]>;
+  resolveAccount(
+    accountNumber: string,
+    bankCode: string,
+  ): Promise<GatewayResolvedAccount>;
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders,
+  ): boolean;
+  parseWebhookEvent(rawBody: Buffer): GatewayWebhookEvent;
+}
+
+/**
+ * Error raised by a gateway call. `retryable` marks failures of the
+ * provider itself (timeouts, 5xx, rate limits) rather than of the request,
+ * and is what decides whether another provider may be tried.
+ */
+export class PaymentGatewayError extends Error {
+  constructor(
+    message: string,
+    public provider: PaymentProvider,
+    public retryable: boolean,
+    public details?: unknown,
+  ) {
+    super(message);
+    this.name = "PaymentGatewayError";
+  }
+}
+
+export const toPaymentGatewayError = (
+  error: any,
+  provider: PaymentProvider,
+  fallbackMessage: string,
+): PaymentGatewayError => {
+  if (error instanceof PaymentGatewayError) {
+    return error;
+  }
+  return new PaymentGatewayError(
+    error?.response?.data?.message || fallbackMessage,
+    provider,
+    isRetryableError(error),
+    error?.response?.data || error?.message,
+  );
+};
+
+export const GATEWAY_FAILURE_THRESHOLD = 3;
+export const GATEWAY_DEGRADED_COOLDOWN_MS = 5 * 60 * 1000;
+
+export interface GatewayHealth {
+  consecutiveFailures: number;
+  degradedUntil: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+}
+
+export type GatewayHealthState = Record<PaymentProvider, GatewayHealth>;
+
+export const createGatewayHealthState = (): GatewayHealthState => ({
+  PAYSTACK: {
+    consecutiveFailures: 0,
+    degradedUntil: null,
+    lastFailureAt: null,
+    lastError: null,
+  },
+  FLUTTERWAVE: {
+    consecutiveFailures: 0,
+    degradedUntil: null,
+    lastFailureAt: null,
+    lastError: null,
+  },
+});
+
+export const recordGatewaySuccess = (
+  state: GatewayHealthState,
+  provider: PaymentProvider,
+): void => {
+  state[provider] = {
+    ...state[provider],
+    consecutiveFailures: 0,
+    degradedUntil: null,
+  };
+};
+
+/**
+ * Count a provider failure. After GATEWAY_FAILURE_THRESHOLD failures in a
+ * row the provider is degraded for the cooldown, then gets one trial call
+ * and is degraded again straight away if that fails too.
+ */
+export const recordGatewayFailure = (
+  state: GatewayHealthState,
+  provider: PaymentProvider,
+  error: unknown,
+  now: Date = new Date(),
+): void => {
+  const consecutiveFailures = state[provider].consecutiveFailures + 1;
+  state[provider] = {
+    consecutiveFailures,
+    degradedUntil:
+      consecutiveFailures >= GATEWAY_FAILURE_THRESHOLD
+        ? new Date(now.getTime() + GATEWAY_DEGRADED_COOLDOWN_MS)
+        : state[provider].degradedUntil,
+    lastFailureAt: now,
+    lastError: error instanceof Error ? error.message : String(error),
+  };
+};
+
+export const isGatewayDegraded = (
+  state: GatewayHealthState,
+  provider: PaymentProvider,
+  now: Date = new Date(),
+): boolean => {
+  const { degradedUntil } = state[provider];
+  return Boolean(degradedUntil && degradedUntil.getTime() > now.getTime());
+};
+
+/**
+ * Gateways that can collect a payment in the currency, in the order they
+ * should be tried: the preferred provider first unless it is degraded,
+ * then the others. Degraded providers stay at the end as a last resort.
+ */
+export const orderGateways = (
+  gateways: PaymentGateway[],
+  params: {
+    currency: string;
+    preferred: PaymentProvider;
+    health: GatewayHealthState;
+    now?: Date;
+  },
+): PaymentGateway[] => {
+  const now = params.now ?? new Date();
+  const eligible = gateways.filter(
+    (gateway) =>
+      gateway.isConfigured() &&
+      gateway.supportedCurrencies.includes(params.currency),
+  );
+  const rank = (gateway: PaymentGateway) =>
+    (isGatewayDegraded(params.health, gateway.provider, now) ? 2 : 0) +
+    (gateway.provider === params.preferred ? 0 : 1);
+
+  return eligible
+    .map((gateway, index) => ({ gateway, index }))
+    .sort((a, b) => rank(a.gateway) - rank(b.gateway) || a.index - b.index)
+    .map(({ gateway }) => gateway);
+};
+
+/**
+ * Run an operation against the gateways in order until one succeeds.
+ * Only retryable gateway errors move on to the next provider; anything
+ * else means the request itself was rejected and is thrown as is.
+ */
+export const runWithFailover = async <T>(
+  gateways: PaymentGateway[],
+  health: GatewayHealthState,
+  operation: (gateway: PaymentGateway) => Promise<T>,
+  now: () => Date = () => new Date(),
+): Promise<{ gateway: PaymentGateway; result: T }> => {
+  if (gateways.length === 0) {
+    throw new Error("No payment provider is available for this currency");
+  }
+
+  let lastError: unknown;
+  for (const gateway of gateways) {
+    try {
+      const result = await operation(gateway);
+      recordGatewaySuccess(health, gateway.provider);
+      return { gateway, result };
+    } catch (error) {
+      const retryable =
+        error instanceof PaymentGatewayError
+          ? error.retryable
+          : isRetryableError(error);
+      if (!retryable) {
+        throw error;
+      }
+      recordGatewayFailure(health, gateway.provider, error, now());
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+};
+
+const stringOrNull = (value: unknown): string | null =>
+  value === undefined || value === null || value === "" ? null : String(value);
+
+const objectOrEmpty = (value: unknown): Record<string, any> =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, any>)
+    : {};
+
+const toTransactionStatus = (status: unknown): GatewayTransaction["status"] => {
+  const normalized = String(status || "").toLowerCase();
+  if (normalized === "success" || normalized === "successful") {
+    return "success";
+  }
+  if (["failed", "abandoned", "reversed", "cancelled"].includes(normalized)) {
+    return "failed";
+  }
+  return "pending";
+};
+
+const toTransferStatus = (status: unknown): GatewayTransfer["status"] => {
+  const normalized = String(status || "").toLowerCase();
+  if (normalized === "success" || normalized === "successful") {
+    return "success";
+  }
+  if (normalized === "reversed") {
+    return "reversed";
+  }
+  if (normalized === "failed" || normalized === "abandoned") {
+    return "failed";
+  }
+  return "pending";
+};
+
+/** Paystack transaction from /transaction/verify, a charge or a webhook. */
+export const normalizePaystackGatewayTransaction = (
+  raw: Record<string, any>,
+): GatewayTransaction => {
+  const currency = settlementCurrencyOf(raw.currency);
+  const authorization = objectOrEmpty(raw.authorization);
+  const countryCode = stringOrNull(authorization.country_code);
+
+  return {
+    provider: "PAYSTACK",
+    reference: String(raw.reference || ""),
+    providerTransactionId: stringOrNull(raw.id),
+    status: toTransactionStatus(raw.status),
+    amount: fromMinorUnits(Number(raw.amount || 0), currency),
+    currency,
+    fees:
+      typeof raw.fees === "number" ? fromMinorUnits(raw.fees, currency) : null,
+    cardCountry: countryCode ? countryCode.toUpperCase() : null,
+    gatewayResponse: stringOrNull(raw.gateway_response),
+    authorization: Object.keys(authorization).length
+      ? {
+          authorizationCode: stringOrNull(authorization.authorization_code),
+          reusable: authorization.reusable === true,
+          last4: stringOrNull(authorization.last4),
+          brand: stringOrNull(authorization.brand),
+          countryCode,
+        }
+      : null,
+    raw,
+  };
+};
+
+/** Flutterwave transaction from verify_by_reference, a charge or a webhook. */
+export const normalizeFlutterwaveTransaction = (
+  raw: Record<string, any>,
+): GatewayTransaction => {
+  const card = objectOrEmpty(raw.card);
+  // Card country comes as "NG" or "NIGERIA NG"; the code is the last word
+  const countryCode =
+    stringOrNull(card.country)?.trim().split(/\s+/).pop()?.toUpperCase() ??
+    null;
+  const fees = raw.app_fee ?? raw.appfee;
+
+  return {
+    provider: "FLUTTERWAVE",
+    reference: String(raw.tx_ref || raw.txRef || ""),
+    providerTransactionId: stringOrNull(raw.id),
+    status: toTransactionStatus(raw.status),
+    amount: Number(raw.amount || 0),
+    currency: settlementCurrencyOf(raw.currency),
+    fees: fees === undefined || fees === null ? null : Number(fees),
+    cardCountry: countryCode,
+    gatewayResponse: stringOrNull(raw.processor_response),
+    authorization: card.token
+      ? {
+          authorizationCode: String(card.token),
+          reusable: true,
+          last4: stringOrNull(card.last_4digits),
+          brand: stringOrNull(card.type),
+          countryCode,
+        }
+      : null,
+    raw,
+  };
+};
+
+export const normalizePaystackTransfer = (
+  raw: Record<string, any>,
+): GatewayTransfer => ({
+  provider: "PAYSTACK",
+  reference: String(raw.reference || ""),
+  transferId: stringOrNull(raw.transfer_code || raw.id),
+  status: toTransferStatus(raw.status),
+  raw,
+});
+
+export const normalizeFlutterwaveTransfer = (
+  raw: Record<string, any>,
+): GatewayTransfer => ({
+  provider: "FLUTTERWAVE",
+  reference: String(raw.reference || ""),
+  transferId: stringOrNull(raw.id),
+  status: toTransferStatus(raw.status),
+  raw,
+});
+
+const parseWebhookBody = (
+  rawBody: Buffer,
+): {
+  event: string;
+  data: Record<string, any>;
+  payload: Record<string, any>;
+} => {
+  const payload = JSON.parse(rawBody.toString("utf8")) as Record<string, any>;
+  const event =
+    typeof payload.event === "string"
+      ? payload.event
+      : typeof payload["event.type"] === "string"
+        ? payload["event.type"]
+        : "";
+
+  if (!event) {
+    throw new Error("Webhook payload missing event type");
+  }
+
+  return { event, data: objectOrEmpty(payload.data), payload };
+};
+
+const PAYSTACK_WEBHOOK_KINDS: Record<string, GatewayWebhookEventKind> = {
+  "charge.success": "CHARGE_SUCCESS",
+  "charge.failed": "CHARGE_FAILED",
+  "transfer.success": "TRANSFER_SUCCESS",
+  "transfer.failed": "TRANSFER_FAILED",
+  "transfer.reversed": "TRANSFER_REVERSED",
+};
+
+export const parsePaystackWebhook = (rawBody: Buffer): GatewayWebhookEvent => {
+  const { event, data, payload } = parseWebhookBody(rawBody);
+  const kind = PAYSTACK_WEBHOOK_KINDS[event] ?? "UNHANDLED";
+
+  return {
+    eventId: `paystack-${event}-${data.reference || data.id}`,
+    eventType: event,
+    kind,
+    reference: String(data.reference || ""),
+    transaction: event.startsWith("charge.")
+      ? normalizePaystackGatewayTransaction(data)
+      : null,
+    data,
+    payload,
+  };
+};
+
+/**
+ * Flutterwave sends one event per outcome (charge.completed,
+ * transfer.completed) and puts the result in data.status, so the status
+ * is part of the event id.
+ */
+export const parseFlutterwaveWebhook = (
+  rawBody: Buffer,
+): GatewayWebhookEvent => {
+  const { event, data, payload } = parseWebhookBody(rawBody);
+  const status = String(data.status || "").toLowerCase();
+
+  let kind: GatewayWebhookEventKind = "UNHANDLED";
+  if (event === "charge.completed") {
+    kind =
+      status === "successful"
+        ? "CHARGE_SUCCESS"
+        : status === "failed"
+          ? "CHARGE_FAILED"
+          : "UNHANDLED";
+  } else if (event === "transfer.completed") {
+    kind =
+      status === "successful"
+        ? "TRANSFER_SUCCESS"
+        : status === "failed"
+          ? "TRANSFER_FAILED"
+          : "UNHANDLED";
+  }
+
+  const isCharge = event.startsWith("charge.");
+  return {
+    eventId: `flutterwave-${event}-${status}-${data.id}`,
+    eventType: event,
+    kind,
+    reference: String((isCharge ? data.tx_ref : data.reference) || ""),
+    transaction: isCharge ? normalizeFlutterwaveTransaction(data) : null,
+    data,
+    payload,
+  };
+};
+
+/**
+ * Whether a card charged in a settlement country counts as local for the
+ * processing fee, e.g. a Nigerian card paying in naira.
+ */
+export const isLocalCard = (
+  cardCountry: string | null,
+  settlementCountry: string,
+): boolean => !cardCountry || cardCountry.toUpperCase() === settlementCountry;
+
+/**
+ * Why a transaction verified with the gateway cannot settle a payment, or
+ * null when it is a successful charge of the payment's amount and currency.
+ */
+export const gatewayTransactionMismatch = (
+  payment: { amount: number; currency: string | null },
+  transaction: GatewayTransaction,
+): string | null => {
+  if (transaction.status !== "success") {
+    return `Transaction is ${transaction.status}`;
+  }
+
+  const currency = settlementCurrencyOf(payment.currency);
+  if (transaction.currency !== currency) {
+    return `Currency mismatch: expected ${currency}, got ${transaction.currency}`;
+  }
+  if (
+    toMinorUnits(transaction.amount, currency) !==
+    toMinorUnits(payment.amount, currency)
+  ) {
+    return `Amount mismatch: expected ${formatMoney(
+      payment.amount,
+      currency,
+    )}, got ${formatMoney(transaction.amount, currency)}`;
+  }
+  return null;
+};
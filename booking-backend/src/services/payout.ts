@@ -20,7 +20,8 @@ interface TransferRecipient {
 
 interface TransferRequest {
   source: "balance";
-  amount: number; // In kobo for NGN
+  amount: number; // In minor units of the currency
+  currency?: string;
   recipient: string; // Recipient code
   reason: string;
   reference: string;
@@ -85,6 +86,8 @@ export const processBookingPayout = async (bookingId: string) => {
       checkInDate: true,
       checkOutDate: true,
       totalPrice: true,
+      currency: true,
+      roomFee: true,
       payoutStatus: true,
       payment: true,
       property: {
@@ -137,7 +140,9 @@ export const processBookingPayout = async (bookingId: string) => {
       (1000 * 60 * 60 * 24),
   );
   const pricePerNight = Number(booking.property.pricePerNight);
-  const propertyBaseAmount = pricePerNight * nights;
+  // Prefer the quoted room fee: nightly pricing rules may have changed since
+  const propertyBaseAmount =
+    Number(booking.roomFee) > 0 ? Number(booking.roomFee) : pricePerNight * nights;
 
   // Platform takes 10% of property base amount
   const platformCommission =
@@ -177,6 +182,7 @@ export const processBookingPayout = async (bookingId: string) => {
 
     const recipientCode = await ensureRealtorTransferRecipientCode(
       booking.property.realtor.id,
+      booking.currency,
     );
 
     // Initiate transfer via Paystack
@@ -185,6 +191,7 @@ export const processBookingPayout = async (bookingId: string) => {
     const transferResult = await initiateTransfer({
       source: "balance",
       amount: Math.round(realtorPayout * 100), // Convert to kobo
+      currency: booking.currency,
       recipient: recipientCode,
       reason: `Booking payout for ${booking.property.title}`,
       reference: transferReference,
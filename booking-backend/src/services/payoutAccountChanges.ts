@@ -0,0 +1,468 @@
+import { createHash, randomBytes } from "crypto";
+import {
+  Prisma,
+  SessionRevokeReason,
+  WithdrawalRequestStatus,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { config } from "@/config";
+import { AppError } from "@/middleware/errorHandler";
+import { revokeUserSessions } from "@/services/authSessions";
+import { sendPayoutAccountChangedEmail } from "@/services/email";
+import { maskAccountNumber } from "@/services/payoutAccountService";
+import {
+  canFreezeWithLink,
+  payoutAccountHoldUntil,
+  payoutChangeRecipients,
+  withdrawalHoldReason,
+} from "@/services/payoutHoldRules";
+import { getSmsProvider, normalizePhoneNumber } from "@/services/sms";
+import * as withdrawalService from "@/services/withdrawalService";
+import { logger } from "@/utils/logger";
+
+const hashFreezeToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+const changeSelect = {
+  id: true,
+  realtorId: true,
+  changedById: true,
+  previousBankName: true,
+  previousAccountNumber: true,
+  previousAccountName: true,
+  previousCurrency: true,
+  newBankName: true,
+  newAccountNumber: true,
+  newAccountName: true,
+  newCurrency: true,
+  ipAddress: true,
+  holdUntil: true,
+  frozenAt: true,
+  createdAt: true,
+} satisfies Prisma.PayoutAccountChangeSelect;
+
+const describeAccount = (
+  bankName: string | null,
+  maskedAccountNumber: string | null,
+) =>
+  maskedAccountNumber
+    ? `${bankName || "Bank"} ${maskedAccountNumber}`.trim()
+    : null;
+
+export interface RecordPayoutAccountChangeParams {
+  realtor: {
+    id: string;
+    businessName: string;
+    payoutBankName: string | null;
+    payoutAccountNumber: string | null;
+    payoutAccountName: string | null;
+    payoutCurrency: string;
+    user: { email: string; firstName: string; phone: string | null };
+  };
+  isUpdate: boolean;
+  next: {
+    bankName: string;
+    accountNumber: string;
+    accountName: string;
+    currency: string;
+  };
+  changedById: string;
+  ipAddress?: string;
+  userAgent?: string;
+  now?: Date;
+}
+
+/**
+ * Add a payout account save to the realtor's history. Replacing an account
+ * starts the cooling-off period, holds withdrawals still waiting to go out
+ * and warns the realtor's current and previous contact channels with a
+ * "this wasn't me" link. `realtor` is the record as it was before the save.
+ */
+export const recordPayoutAccountChange = async (
+  params: RecordPayoutAccountChangeParams,
+) => {
+  const now = params.now ?? new Date();
+  const { realtor } = params;
+
+  const previousChange = await prisma.payoutAccountChange.findFirst({
+    where: { realtorId: realtor.id },
+    orderBy: { createdAt: "desc" },
+    select: { notifiedEmail: true, notifiedPhone: true },
+  });
+
+  const token = randomBytes(24).toString("base64url");
+  const holdUntil = payoutAccountHoldUntil(
+    now,
+    params.isUpdate,
+    config.PAYOUT_ACCOUNT_CHANGE_HOLD_HOURS,
+  );
+  const phone = normalizePhoneNumber(realtor.user.phone);
+
+  const change = await prisma.$transaction(async (tx) => {
+    const created = await tx.payoutAccountChange.create({
+      data: {
+        realtorId: realtor.id,
+        changedById: params.changedById,
+        previousBankName: params.isUpdate ? realtor.payoutBankName : null,
+        previousAccountNumber: params.isUpdate
+          ? maskAccountNumber(realtor.payoutAccountNumber)
+          : null,
+        previousAccountName: params.isUpdate ? realtor.payoutAccountName : null,
+        previousCurrency: params.isUpdate ? realtor.payoutCurrency : null,
+        newBankName: params.next.bankName,
+        newAccountNumber:
+          maskAccountNumber(params.next.accountNumber) ??
+          params.next.accountNumber,
+        newAccountName: params.next.accountName,
+        newCurrency: params.next.currency,
+        notifiedEmail: realtor.user.email,
+        notifiedPhone: phone,
+        ipAddress: params.ipAddress,
+        userAgent: params.userAgent,
+        holdUntil,
+        freezeTokenHash: hashFreezeToken(token),
+      },
+      select: changeSelect,
+    });
+
+    if (holdUntil) {
+      await tx.realtor.update({
+        where: { id: realtor.id },
+        data: { payoutHoldUntil: holdUntil },
+      });
+      // Anything not yet sent would now go to the new account
+      await tx.withdrawalRequest.updateMany({
+        where: {
+          realtorId: realtor.id,
+          status: WithdrawalRequestStatus.PENDING,
+        },
+        data: {
+          status: WithdrawalRequestStatus.ON_HOLD,
+          heldAt: now,
+          holdReason: "PAYOUT_ACCOUNT_CHANGED",
+        },
+      });
+    }
+
+    return created;
+  });
+
+  if (params.isUpdate) {
+    await notifyPayoutAccountChange({
+      realtor,
+      change,
+      freezeUrl: `${config.FRONTEND_URL}/realtor/payout-freeze?token=${token}`,
+      recipients: payoutChangeRecipients(
+        { email: realtor.user.email, phone },
+        previousChange
+          ? {
+              email: previousChange.notifiedEmail,
+              phone: previousChange.notifiedPhone,
+            }
+          : null,
+      ),
+    });
+  }
+
+  return change;
+};
+
+const notifyPayoutAccountChange = async (input: {
+  realtor: RecordPayoutAccountChangeParams["realtor"];
+  change: Prisma.PayoutAccountChangeGetPayload<{ select: typeof changeSelect }>;
+  freezeUrl: string;
+  recipients: { emails: string[]; phones: string[] };
+}) => {
+  const { realtor, change, freezeUrl, recipients } = input;
+  const newAccount =
+    describeAccount(change.newBankName, change.newAccountNumber) ||
+    change.newBankName;
+
+  for (const email of recipients.emails) {
+    await sendPayoutAccountChangedEmail({
+      to: email,
+      name: realtor.user.firstName || realtor.businessName,
+      businessName: realtor.businessName,
+      previousAccount: describeAccount(
+        change.previousBankName,
+        change.previousAccountNumber,
+      ),
+      newAccount,
+      changedAt: change.createdAt,
+      holdUntil: change.holdUntil,
+      freezeUrl,
+    }).catch((error) =>
+      logger.error("Failed to send payout account change email", {
+        payoutAccountChangeId: change.id,
+        error: error instanceof Error ? error.message : error,
+      }),
+    );
+  }
+
+  for (const phone of recipients.phones) {
+    await getSmsProvider()
+      .send(
+        phone,
+        `Stayza: payout account changed to ${change.newAccountNumber}. Not you? Freeze payouts: ${freezeUrl}`,
+      )
+      .catch((error) =>
+        logger.error("Failed to send payout account change SMS", {
+          payoutAccountChangeId: change.id,
+          error: error instanceof Error ? error.message : error,
+        }),
+      );
+  }
+};
+
+/**
+ * Freeze a realtor's payouts from a "this wasn't me" link. Every withdrawal
+ * that hasn't been sent is held, automatic payouts pause, and the owner and
+ * whoever made the change are signed out everywhere. Only an admin can lift
+ * the freeze.
+ */
+export const freezePayoutsWithLink = async (
+  token: string,
+  now: Date = new Date(),
+) => {
+  const change = await prisma.payoutAccountChange.findUnique({
+    where: { freezeTokenHash: hashFreezeToken(token) },
+    select: {
+      id: true,
+      realtorId: true,
+      changedById: true,
+      createdAt: true,
+      frozenAt: true,
+      realtor: { select: { userId: true, payoutsFrozenAt: true } },
+    },
+  });
+  if (!change) {
+    throw new AppError("This link is not valid", 404);
+  }
+  if (change.frozenAt) {
+    throw new AppError("This link has already been used", 410);
+  }
+  if (!canFreezeWithLink(change, now)) {
+    throw new AppError(
+      "This link has expired. Contact support to secure your account.",
+      410,
+    );
+  }
+
+  const heldWithdrawals = await prisma.$transaction(async (tx) => {
+    await tx.payoutAccountChange.update({
+      where: { id: change.id },
+      data: { frozenAt: now },
+    });
+    if (!change.realtor.payoutsFrozenAt) {
+      await tx.realtor.update({
+        where: { id: change.realtorId },
+        data: { payoutsFrozenAt: now },
+      });
+    }
+
+    const alreadyHeld = await tx.withdrawalRequest.updateMany({
+      where: {
+        realtorId: change.realtorId,
+        status: WithdrawalRequestStatus.ON_HOLD,
+      },
+      data: { holdReason: "PAYOUTS_FROZEN" },
+    });
+    const held = await tx.withdrawalRequest.updateMany({
+      where: {
+        realtorId: change.realtorId,
+        status: WithdrawalRequestStatus.PENDING,
+      },
+      data: {
+        status: WithdrawalRequestStatus.ON_HOLD,
+        heldAt: now,
+        holdReason: "PAYOUTS_FROZEN",
+      },
+    });
+    return held.count + alreadyHeld.count;
+  });
+
+  const userIds = new Set([change.realtor.userId, change.changedById]);
+  for (const userId of userIds) {
+    await revokeUserSessions(userId, SessionRevokeReason.PAYOUTS_FROZEN);
+  }
+
+  return {
+    payoutAccountChangeId: change.id,
+    realtorId: change.realtorId,
+    userId: change.realtor.userId,
+    heldWithdrawals,
+  };
+};
+
+/**
+ * Payout account history for the admin review queue, newest first.
+ */
+export const listPayoutAccountChanges = async (filters: {
+  realtorId?: string;
+  frozenOnly?: boolean;
+  page: number;
+  limit: number;
+}) => {
+  const where: Prisma.PayoutAccountChangeWhereInput = {
+    ...(filters.realtorId ? { realtorId: filters.realtorId } : {}),
+    ...(filters.frozenOnly ? { frozenAt: { not: null } } : {}),
+  };
+
+  const [changes, total] = await Promise.all([
+    prisma.payoutAccountChange.findMany({
+      where,
+      select: {
+        ...changeSelect,
+        realtor: {
+          select: {
+            businessName: true,
+            payoutHoldUntil: true,
+            payoutsFrozenAt: true,
+            user: { select: { email: true, firstName: true, lastName: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.payoutAccountChange.count({ where }),
+  ]);
+
+  return {
+    changes,
+    pagination: {
+      page: filters.page,
+      limit: filters.limit,
+      total,
+      totalPages: Math.ceil(total / filters.limit),
+    },
+  };
+};
+
+/**
+ * Let a held withdrawal go out before its cooling-off ends, after an admin
+ * has checked the new account. Withdrawals of a frozen realtor stay held
+ * until the freeze is lifted.
+ */
+export const releaseHeldWithdrawal = async (
+  withdrawalRequestId: string,
+  adminId: string,
+  now: Date = new Date(),
+) => {
+  const withdrawal = await prisma.withdrawalRequest.findUnique({
+    where: { id: withdrawalRequestId },
+    select: {
+      id: true,
+      status: true,
+      holdReason: true,
+      realtor: { select: { payoutsFrozenAt: true } },
+    },
+  });
+  if (!withdrawal) {
+    throw new AppError("Withdrawal not found", 404);
+  }
+  if (withdrawal.status !== WithdrawalRequestStatus.ON_HOLD) {
+    throw new AppError("This withdrawal is not on hold", 400);
+  }
+  if (withdrawal.realtor.payoutsFrozenAt) {
+    throw new AppError(
+      "Payouts for this realtor are frozen. Lift the freeze before releasing withdrawals.",
+      409,
+    );
+  }
+
+  const released = await prisma.withdrawalRequest.updateMany({
+    where: { id: withdrawal.id, status: WithdrawalRequestStatus.ON_HOLD },
+    data: {
+      status: WithdrawalRequestStatus.PENDING,
+      holdReleasedAt: now,
+      holdReleasedById: adminId,
+    },
+  });
+  if (released.count === 0) {
+    throw new AppError("This withdrawal is not on hold", 409);
+  }
+
+  return {
+    withdrawalRequestId: withdrawal.id,
+    holdReason: withdrawal.holdReason,
+  };
+};
+
+/**
+ * Lift a realtor's payout freeze once the account has been checked.
+ * Withdrawals held by the freeze stay held for an admin to release one by
+ * one, and the cooling-off period still runs its course.
+ */
+export const liftPayoutFreeze = async (realtorId: string) => {
+  const realtor = await prisma.realtor.findUnique({
+    where: { id: realtorId },
+    select: { id: true, payoutsFrozenAt: true, payoutHoldUntil: true },
+  });
+  if (!realtor) {
+    throw new AppError("Realtor not found", 404);
+  }
+  if (!realtor.payoutsFrozenAt) {
+    throw new AppError("Payouts for this realtor are not frozen", 400);
+  }
+
+  await prisma.realtor.update({
+    where: { id: realtorId },
+    data: { payoutsFrozenAt: null },
+  });
+
+  return { realtorId, frozenAt: realtor.payoutsFrozenAt };
+};
+
+/**
+ * Send withdrawals whose cooling-off period has ended. Holds from a freeze
+ * are never released here.
+ */
+export const releaseLapsedWithdrawalHolds = async (now: Date = new Date()) => {
+  const held = await prisma.withdrawalRequest.findMany({
+    where: {
+      status: WithdrawalRequestStatus.ON_HOLD,
+      holdReason: "PAYOUT_ACCOUNT_CHANGED",
+      realtor: { payoutsFrozenAt: null },
+    },
+    select: {
+      id: true,
+      realtor: { select: { payoutHoldUntil: true, payoutsFrozenAt: true } },
+    },
+    orderBy: { requestedAt: "asc" },
+    take: 50,
+  });
+
+  const result = { checked: held.length, released: 0, failed: 0 };
+
+  for (const withdrawal of held) {
+    if (withdrawalHoldReason(withdrawal.realtor, now)) {
+      continue;
+    }
+
+    const released = await prisma.withdrawalRequest.updateMany({
+      where: { id: withdrawal.id, status: WithdrawalRequestStatus.ON_HOLD },
+      data: { status: WithdrawalRequestStatus.PENDING, holdReleasedAt: now },
+    });
+    if (released.count === 0) {
+      continue;
+    }
+    result.released++;
+
+    // Failures are picked up by the withdrawal retry job
+    const outcome = await withdrawalService.processWithdrawal(
+      withdrawal.id,
+      false,
+    );
+    if (!outcome.success) {
+      result.failed++;
+      logger.warn("[Payout Holds] Released withdrawal did not complete", {
+        withdrawalRequestId: withdrawal.id,
+        error: outcome.message,
+      });
+    }
+  }
+
+  return result;
+};
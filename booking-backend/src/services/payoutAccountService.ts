@@ -1,11 +1,20 @@
 import { prisma } from "@/config/database";
 import {
   createSubAccount,
-  createTransferRecipient,
   getSubAccount,
   listBanks,
 } from "@/services/paystack";
+import {
+  getPaymentGateway,
+  initiatePayoutTransfer,
+} from "@/services/paymentGateway";
+import type {
+  GatewayTransfer,
+  GatewayTransferInput,
+  PaymentProvider,
+} from "@/services/paymentGatewayRules";
 import { logger } from "@/utils/logger";
+import { SettlementCurrency, settlementCurrencyOf } from "@/services/currency";
 
 export interface UpsertRealtorPayoutAccountInput {
   realtorId: string;
@@ -15,6 +24,7 @@ export interface UpsertRealtorPayoutAccountInput {
   bankName: string;
   accountNumber: string;
   accountName: string;
+  currency: SettlementCurrency;
 }
 
 export interface UpsertRealtorPayoutAccountResult {
@@ -22,11 +32,21 @@ export interface UpsertRealtorPayoutAccountResult {
   subAccountCode: string | null;
 }
 
+// Where each provider's recipient for the realtor's payout account is kept
+const RECIPIENT_CODE_FIELDS: Record<
+  PaymentProvider,
+  "paystackTransferRecipientCode" | "flutterwaveTransferRecipientCode"
+> = {
+  PAYSTACK: "paystackTransferRecipientCode",
+  FLUTTERWAVE: "flutterwaveTransferRecipientCode",
+};
+
 const normalizeText = (value?: string | null): string =>
   (value || "").trim().toLowerCase().replace(/\s+/g, " ");
 
 const resolveBankByName = async (
-  bankName: string
+  bankName: string,
+  currency: SettlementCurrency
 ): Promise<{ code: string; name: string } | null> => {
   if (!bankName) return null;
 
@@ -34,7 +54,7 @@ const resolveBankByName = async (
   if (!normalizedTarget) return null;
 
   try {
-    const banks = await listBanks();
+    const banks = await listBanks(currency);
     const exact = banks.find(
       (bank: any) => normalizeText(bank?.name) === normalizedTarget
     );
@@ -73,25 +93,23 @@ const createRecipient = async (params: {
   accountNumber: string;
   bankCode: string;
   bankName?: string;
+  currency: SettlementCurrency;
+  provider?: PaymentProvider;
 }) => {
-  const recipient = await createTransferRecipient({
-    type: "nuban",
+  const recipient = await getPaymentGateway(
+    params.provider || "PAYSTACK"
+  ).createTransferRecipient({
     name: params.accountName,
-    account_number: params.accountNumber,
-    bank_code: params.bankCode,
-    currency: "NGN",
+    accountNumber: params.accountNumber,
+    bankCode: params.bankCode,
+    currency: params.currency,
     metadata: {
       realtor_id: params.realtorId,
       bank_name: params.bankName,
     },
   });
 
-  const recipientCode = recipient?.recipient_code;
-  if (!recipientCode) {
-    throw new Error("Paystack did not return a transfer recipient code");
-  }
-
-  return recipientCode as string;
+  return recipient.recipientCode;
 };
 
 export const maskAccountNumber = (
@@ -129,6 +147,7 @@ export const upsertRealtorPayoutAccount = async (
     accountNumber: input.accountNumber,
     bankCode: input.bankCode,
     bankName: input.bankName,
+    currency: input.currency,
   });
 
   let subAccountCode: string | null = null;
@@ -150,10 +169,13 @@ export const upsertRealtorPayoutAccount = async (
 
   const updateData: Record<string, any> = {
     paystackTransferRecipientCode: transferRecipientCode,
+    // Other providers register the new account on its next payout
+    flutterwaveTransferRecipientCode: null,
     payoutBankCode: input.bankCode,
     payoutBankName: input.bankName,
     payoutAccountNumber: input.accountNumber,
     payoutAccountName: input.accountName,
+    payoutCurrency: input.currency,
   };
 
   if (subAccountCode) {
@@ -172,23 +194,29 @@ export const upsertRealtorPayoutAccount = async (
 };
 
 /**
- * Ensure realtor has a transfer recipient code usable for /transfer payouts.
+ * Ensure realtor has a transfer recipient code usable for payouts on `provider`.
  * Supports older data by creating recipient from stored bank fields or subaccount.
+ * When `currency` is given the payout account must be in that currency.
  */
 export const ensureRealtorTransferRecipientCode = async (
-  realtorId: string
+  realtorId: string,
+  currency?: string,
+  provider: PaymentProvider = "PAYSTACK"
 ): Promise<string> => {
+  const recipientCodeField = RECIPIENT_CODE_FIELDS[provider];
   const realtor = await prisma.realtor.findUnique({
     where: { id: realtorId },
     select: {
       id: true,
       businessName: true,
       paystackTransferRecipientCode: true,
+      flutterwaveTransferRecipientCode: true,
       paystackSubAccountCode: true,
       payoutBankCode: true,
       payoutBankName: true,
       payoutAccountNumber: true,
       payoutAccountName: true,
+      payoutCurrency: true,
     },
   });
 
@@ -196,8 +224,16 @@ export const ensureRealtorTransferRecipientCode = async (
     throw new Error("Realtor profile not found");
   }
 
-  if (realtor.paystackTransferRecipientCode) {
-    return realtor.paystackTransferRecipientCode;
+  const payoutCurrency = settlementCurrencyOf(realtor.payoutCurrency);
+  if (currency && settlementCurrencyOf(currency) !== payoutCurrency) {
+    throw new Error(
+      `Payout account receives ${payoutCurrency}; ${currency} funds cannot be paid out to it`
+    );
+  }
+
+  const existingRecipientCode = realtor[recipientCodeField];
+  if (existingRecipientCode) {
+    return existingRecipientCode;
   }
 
   // Preferred fallback: local bank details already stored in DB.
@@ -208,12 +244,14 @@ export const ensureRealtorTransferRecipientCode = async (
       accountNumber: realtor.payoutAccountNumber,
       bankCode: realtor.payoutBankCode,
       bankName: realtor.payoutBankName || undefined,
+      currency: payoutCurrency,
+      provider,
     });
 
     await prisma.realtor.update({
       where: { id: realtor.id },
       data: {
-        paystackTransferRecipientCode: recipientCode,
+        [recipientCodeField]: recipientCode,
       },
     });
 
@@ -236,7 +274,10 @@ export const ensureRealtorTransferRecipientCode = async (
     let bankName = settlementBankName;
 
     if (!bankCode && settlementBankName) {
-      const resolved = await resolveBankByName(settlementBankName);
+      const resolved = await resolveBankByName(
+        settlementBankName,
+        payoutCurrency
+      );
       if (resolved) {
         bankCode = resolved.code;
         bankName = resolved.name;
@@ -260,12 +301,14 @@ export const ensureRealtorTransferRecipientCode = async (
       accountNumber,
       bankCode,
       bankName: bankName || undefined,
+      currency: payoutCurrency,
+      provider,
     });
 
     await prisma.realtor.update({
       where: { id: realtor.id },
       data: {
-        paystackTransferRecipientCode: recipientCode,
+        [recipientCodeField]: recipientCode,
         payoutBankCode: realtor.payoutBankCode || bankCode,
         payoutBankName: realtor.payoutBankName || bankName || null,
         payoutAccountNumber: realtor.payoutAccountNumber || accountNumber,
@@ -280,3 +323,16 @@ export const ensureRealtorTransferRecipientCode = async (
     "Payout account is not configured. Please add or update your payout settings."
   );
 };
+
+/**
+ * Pay the realtor's payout account through the gateway layer. The transfer
+ * fails over between providers like new payments, and the recipient is
+ * registered on whichever provider sends it.
+ */
+export const transferToRealtor = (
+  realtorId: string,
+  transfer: Omit<GatewayTransferInput, "recipient">
+): Promise<GatewayTransfer> =>
+  initiatePayoutTransfer(transfer, (provider) =>
+    ensureRealtorTransferRecipientCode(realtorId, transfer.currency, provider)
+  );
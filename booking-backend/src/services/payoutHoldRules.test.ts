@@ -0,0 +1,85 @@
+import {
+  PAYOUT_FREEZE_LINK_TTL_DAYS,
+  canFreezeWithLink,
+  payoutAccountHoldUntil,
+  payoutChangeRecipients,
+  withdrawalHoldReason,
+} from "./payoutHoldRules";
+
+const changedAt = new Date("2026-04-14T10:00:00Z");
+
+describe("payoutHoldRules", () => {
+  it("only holds withdrawals after an account is replaced", () => {
+    expect(payoutAccountHoldUntil(changedAt, true, 48)).toEqual(
+      new Date("2026-04-16T10:00:00Z")
+    );
+    expect(payoutAccountHoldUntil(changedAt, false, 48)).toBeNull();
+    expect(payoutAccountHoldUntil(changedAt, true, 0)).toBeNull();
+  });
+
+  it("holds withdrawals until the cooling-off period ends", () => {
+    const state = {
+      payoutHoldUntil: new Date("2026-04-16T10:00:00Z"),
+      payoutsFrozenAt: null,
+    };
+
+    expect(withdrawalHoldReason(state, new Date("2026-04-15T10:00:00Z"))).toBe(
+      "PAYOUT_ACCOUNT_CHANGED"
+    );
+    expect(
+      withdrawalHoldReason(state, new Date("2026-04-16T10:00:00Z"))
+    ).toBeNull();
+  });
+
+  it("keeps a freeze in place after the cooling-off period", () => {
+    expect(
+      withdrawalHoldReason(
+        {
+          payoutHoldUntil: new Date("2026-04-16T10:00:00Z"),
+          payoutsFrozenAt: new Date("2026-04-14T12:00:00Z"),
+        },
+        new Date("2026-05-01T00:00:00Z")
+      )
+    ).toBe("PAYOUTS_FROZEN");
+  });
+
+  it("accepts a freeze link once and only while it is fresh", () => {
+    const lastValid = new Date(
+      changedAt.getTime() + PAYOUT_FREEZE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000
+    );
+
+    expect(
+      canFreezeWithLink({ createdAt: changedAt, frozenAt: null }, lastValid)
+    ).toBe(true);
+    expect(
+      canFreezeWithLink(
+        { createdAt: changedAt, frozenAt: null },
+        new Date(lastValid.getTime() + 1)
+      )
+    ).toBe(false);
+    expect(
+      canFreezeWithLink(
+        { createdAt: changedAt, frozenAt: changedAt },
+        changedAt
+      )
+    ).toBe(false);
+  });
+
+  it("warns replaced contact channels as well as the current ones", () => {
+    expect(
+      payoutChangeRecipients(
+        { email: "new@example.com", phone: "2348012345678" },
+        { email: "old@example.com", phone: "2348012345678" }
+      )
+    ).toEqual({
+      emails: ["new@example.com", "old@example.com"],
+      phones: ["2348012345678"],
+    });
+    expect(
+      payoutChangeRecipients(
+        { email: "Host@example.com", phone: null },
+        { email: "host@example.com", phone: null }
+      )
+    ).toEqual({ emails: ["Host@example.com"], phones: [] });
+  });
+});
@@ -0,0 +1,87 @@
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A "this wasn't me" link works for this long after the change it reports
+export const PAYOUT_FREEZE_LINK_TTL_DAYS = 30;
+
+export type WithdrawalHoldReason = "PAYOUTS_FROZEN" | "PAYOUT_ACCOUNT_CHANGED";
+
+export const WITHDRAWAL_HOLD_MESSAGES: Record<WithdrawalHoldReason, string> = {
+  PAYOUTS_FROZEN:
+    "Payouts are frozen after a payout account change was reported. Our team will contact you.",
+  PAYOUT_ACCOUNT_CHANGED:
+    "Your payout account was changed recently, so withdrawals are held until the cooling-off period ends.",
+};
+
+export interface PayoutHoldState {
+  payoutHoldUntil: Date | null;
+  payoutsFrozenAt: Date | null;
+}
+
+/**
+ * When the cooling-off period for a payout account change ends. The first
+ * account a realtor adds isn't held: there is nothing to divert money from.
+ */
+export const payoutAccountHoldUntil = (
+  changedAt: Date,
+  isUpdate: boolean,
+  holdHours: number,
+): Date | null =>
+  isUpdate && holdHours > 0
+    ? new Date(changedAt.getTime() + holdHours * HOUR_MS)
+    : null;
+
+/**
+ * Why a realtor's withdrawals are held right now, or null when they can go
+ * out. A freeze lasts until an admin lifts it; a cooling-off period lapses
+ * on its own.
+ */
+export const withdrawalHoldReason = (
+  state: PayoutHoldState,
+  now: Date,
+): WithdrawalHoldReason | null => {
+  if (state.payoutsFrozenAt) {
+    return "PAYOUTS_FROZEN";
+  }
+  if (state.payoutHoldUntil && state.payoutHoldUntil > now) {
+    return "PAYOUT_ACCOUNT_CHANGED";
+  }
+  return null;
+};
+
+/**
+ * Whether a "this wasn't me" link can still freeze payouts. Links stop
+ * working once used and after PAYOUT_FREEZE_LINK_TTL_DAYS.
+ */
+export const canFreezeWithLink = (
+  change: { createdAt: Date; frozenAt: Date | null },
+  now: Date,
+): boolean =>
+  !change.frozenAt &&
+  now.getTime() - change.createdAt.getTime() <=
+    PAYOUT_FREEZE_LINK_TTL_DAYS * DAY_MS;
+
+/**
+ * Contact channels to tell about a payout account change: the current ones
+ * and any recorded at the previous change that have since been replaced, so
+ * someone who took over the login and changed the email or phone first
+ * can't silence the warning.
+ */
+export const payoutChangeRecipients = (
+  current: { email: string | null; phone: string | null },
+  previous: { email: string | null; phone: string | null } | null,
+): { emails: string[]; phones: string[] } => {
+  const unique = (values: Array<string | null | undefined>) =>
+    values.filter(
+      (value, index, all): value is string =>
+        !!value &&
+        all.findIndex(
+          (other) => other?.toLowerCase() === value.toLowerCase(),
+        ) === index,
+    );
+
+  return {
+    emails: unique([current.email, previous?.email]),
+    phones: unique([current.phone, previous?.phone]),
+  };
+};
@@ -0,0 +1,133 @@
+import { PayoutScheduleFrequency, RealtorStatus } from "@prisma/client";
+import { DEFAULT_FINANCE_CONFIG } from "./financeConfig";
+import {
+  nextPayoutRunAt,
+  payoutPauseReason,
+  planScheduledPayout,
+  upcomingPayoutRuns,
+} from "./payoutScheduleRules";
+
+const calendar = (
+  frequency: PayoutScheduleFrequency,
+  extra: { weekday?: number; dayOfMonth?: number } = {}
+) => ({
+  frequency,
+  weekday: extra.weekday ?? null,
+  dayOfMonth: extra.dayOfMonth ?? null,
+});
+
+describe("payoutScheduleRules", () => {
+  it("runs daily schedules at the payout hour", () => {
+    const schedule = calendar(PayoutScheduleFrequency.DAILY);
+
+    expect(nextPayoutRunAt(schedule, new Date("2026-03-10T06:00:00Z"))).toEqual(
+      new Date("2026-03-10T08:00:00Z")
+    );
+    expect(nextPayoutRunAt(schedule, new Date("2026-03-10T08:00:00Z"))).toEqual(
+      new Date("2026-03-11T08:00:00Z")
+    );
+  });
+
+  it("runs weekly schedules on the chosen weekday", () => {
+    // 2026-03-10 is a Tuesday; weekday 5 is Friday
+    const schedule = calendar(PayoutScheduleFrequency.WEEKLY, { weekday: 5 });
+
+    expect(
+      upcomingPayoutRuns(schedule, new Date("2026-03-10T12:00:00Z"), 2)
+    ).toEqual([
+      new Date("2026-03-13T08:00:00Z"),
+      new Date("2026-03-20T08:00:00Z"),
+    ]);
+  });
+
+  it("rolls monthly schedules into the next month and year", () => {
+    const schedule = calendar(PayoutScheduleFrequency.MONTHLY, {
+      dayOfMonth: 15,
+    });
+
+    expect(nextPayoutRunAt(schedule, new Date("2026-12-20T00:00:00Z"))).toEqual(
+      new Date("2027-01-15T08:00:00Z")
+    );
+    expect(
+      upcomingPayoutRuns(
+        calendar(PayoutScheduleFrequency.THRESHOLD),
+        new Date("2026-12-20T00:00:00Z")
+      )
+    ).toEqual([]);
+  });
+
+  it("pays out everything above the reserve with the withdrawal fee", () => {
+    const plan = planScheduledPayout(
+      {
+        frequency: PayoutScheduleFrequency.DAILY,
+        thresholdAmount: null,
+        minimumReserve: 5000,
+      },
+      105000,
+      DEFAULT_FINANCE_CONFIG
+    );
+
+    expect(plan.status).toBe("DUE");
+    if (plan.status === "DUE") {
+      expect(plan.amount).toBe(100000);
+      expect(plan.netAmount).toBeCloseTo(plan.amount - plan.feeAmount, 2);
+    }
+  });
+
+  it("waits for thresholds and skips amounts below the minimum", () => {
+    const threshold = {
+      frequency: PayoutScheduleFrequency.THRESHOLD,
+      thresholdAmount: 50000,
+      minimumReserve: 0,
+    };
+
+    expect(
+      planScheduledPayout(threshold, 50000, DEFAULT_FINANCE_CONFIG)
+    ).toEqual({ status: "SKIPPED", reason: "BELOW_THRESHOLD" });
+    expect(
+      planScheduledPayout(threshold, 60000, DEFAULT_FINANCE_CONFIG).status
+    ).toBe("DUE");
+    expect(
+      planScheduledPayout(
+        { ...threshold, frequency: PayoutScheduleFrequency.DAILY },
+        DEFAULT_FINANCE_CONFIG.withdrawalFee.minimumWithdrawal - 1,
+        DEFAULT_FINANCE_CONFIG
+      )
+    ).toEqual({ status: "SKIPPED", reason: "BELOW_MINIMUM" });
+  });
+
+  it("pauses for suspensions, then payout holds, then deposit disputes", () => {
+    expect(
+      payoutPauseReason({
+        realtorStatus: RealtorStatus.SUSPENDED,
+        payoutHold: "PAYOUTS_FROZEN",
+        openDepositDisputes: 2,
+        hasPayoutAccount: true,
+      })
+    ).toBe("REALTOR_SUSPENDED");
+    expect(
+      payoutPauseReason({
+        realtorStatus: RealtorStatus.APPROVED,
+        payoutHold: "PAYOUT_ACCOUNT_CHANGED",
+        openDepositDisputes: 1,
+        hasPayoutAccount: true,
+      })
+    ).toBe("PAYOUT_ACCOUNT_CHANGED");
+    expect(
+      payoutPauseReason({
+        realtorStatus: RealtorStatus.APPROVED,
+        payoutHold: null,
+        openDepositDisputes: 1,
+        hasPayoutAccount: true,
+      })
+    ).toBe("OPEN_DEPOSIT_DISPUTES");
+    expect(
+      payoutPauseReason({
+        realtorStatus: RealtorStatus.APPROVED,
+        payoutHold: null,
+        openDepositDisputes: 0,
+        hasPayoutAccount: true,
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { PayoutScheduleFrequency, RealtorStatus } from "@prisma/client";
+import { FinanceConfig } from "@/services/financeConfig";
+import { roundMoney } from "@/services/ledgerRules";
+import { computeWithdrawalFee } from "@/services/pricingEngine";
+import {
+  WITHDRAWAL_HOLD_MESSAGES,
+  WithdrawalHoldReason,
+} from "@/services/payoutHoldRules";
+
+// Scheduled payouts go out at 09:00 Lagos time
+export const PAYOUT_RUN_HOUR_UTC = 8;
+export const PAYOUT_PREVIEW_RUNS = 3;
+export const MAX_PAYOUT_DAY_OF_MONTH = 28;
+
+export interface PayoutScheduleSettings {
+  frequency: PayoutScheduleFrequency;
+  weekday: number | null;
+  dayOfMonth: number | null;
+  thresholdAmount: number | null;
+  minimumReserve: number;
+}
+
+export type PayoutPauseReason =
+  | "REALTOR_SUSPENDED"
+  | WithdrawalHoldReason
+  | "OPEN_DEPOSIT_DISPUTES"
+  | "PAYOUT_ACCOUNT_MISSING";
+
+export const PAYOUT_PAUSE_MESSAGES: Record<PayoutPauseReason, string> = {
+  REALTOR_SUSPENDED: "Payouts are paused while your account is suspended",
+  ...WITHDRAWAL_HOLD_MESSAGES,
+  OPEN_DEPOSIT_DISPUTES:
+    "Payouts are paused until your open security deposit disputes are resolved",
+  PAYOUT_ACCOUNT_MISSING:
+    "Add a payout account in this currency to receive scheduled payouts",
+};
+
+export type ScheduledPayoutPlan =
+  | {
+      status: "DUE";
+      amount: number;
+      feeAmount: number;
+      netAmount: number;
+    }
+  | {
+      status: "SKIPPED";
+      reason: "BELOW_THRESHOLD" | "BELOW_MINIMUM";
+    };
+
+const atRunHour = (year: number, month: number, day: number): Date =>
+  new Date(Date.UTC(year, month, day, PAYOUT_RUN_HOUR_UTC));
+
+/**
+ * The first scheduled run strictly after `after`. Null for THRESHOLD
+ * schedules, which have no calendar and are checked on every job run.
+ */
+export const nextPayoutRunAt = (
+  schedule: Pick<
+    PayoutScheduleSettings,
+    "frequency" | "weekday" | "dayOfMonth"
+  >,
+  after: Date,
+): Date | null => {
+  const year = after.getUTCFullYear();
+  const month = after.getUTCMonth();
+  const day = after.getUTCDate();
+
+  switch (schedule.frequency) {
+    case PayoutScheduleFrequency.DAILY: {
+      const today = atRunHour(year, month, day);
+      return today > after ? today : atRunHour(year, month, day + 1);
+    }
+    case PayoutScheduleFrequency.WEEKLY: {
+      const weekday = schedule.weekday ?? 1;
+      const daysAhead = (weekday - after.getUTCDay() + 7) % 7;
+      const candidate = atRunHour(year, month, day + daysAhead);
+      return candidate > after
+        ? candidate
+        : atRunHour(year, month, day + daysAhead + 7);
+    }
+    case PayoutScheduleFrequency.MONTHLY: {
+      const dayOfMonth = Math.min(
+        schedule.dayOfMonth ?? 1,
+        MAX_PAYOUT_DAY_OF_MONTH,
+      );
+      const candidate = atRunHour(year, month, dayOfMonth);
+      return candidate > after
+        ? candidate
+        : atRunHour(year, month + 1, dayOfMonth);
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * The next `count` run times after `from`, for the realtor's preview.
+ */
+export const upcomingPayoutRuns = (
+  schedule: Pick<
+    PayoutScheduleSettings,
+    "frequency" | "weekday" | "dayOfMonth"
+  >,
+  from: Date,
+  count: number = PAYOUT_PREVIEW_RUNS,
+): Date[] => {
+  const runs: Date[] = [];
+  let cursor = from;
+  while (runs.length < count) {
+    const next = nextPayoutRunAt(schedule, cursor);
+    if (!next) break;
+    runs.push(next);
+    cursor = next;
+  }
+  return runs;
+};
+
+/**
+ * What a due run would withdraw: everything above the reserve, with the
+ * usual withdrawal fee. THRESHOLD schedules only pay out once the available
+ * balance is above their threshold.
+ */
+export const planScheduledPayout = (
+  schedule: Pick<
+    PayoutScheduleSettings,
+    "frequency" | "thresholdAmount" | "minimumReserve"
+  >,
+  available: number,
+  financeConfig: FinanceConfig,
+): ScheduledPayoutPlan => {
+  if (
+    schedule.frequency === PayoutScheduleFrequency.THRESHOLD &&
+    available <= (schedule.thresholdAmount ?? 0)
+  ) {
+    return { status: "SKIPPED", reason: "BELOW_THRESHOLD" };
+  }
+
+  const amount = roundMoney(available - schedule.minimumReserve);
+  const preview = computeWithdrawalFee(Math.max(0, amount), financeConfig);
+  if (
+    preview.requestedAmount < preview.minimumWithdrawal ||
+    preview.netAmount <= 0
+  ) {
+    return { status: "SKIPPED", reason: "BELOW_MINIMUM" };
+  }
+
+  return {
+    status: "DUE",
+    amount: preview.requestedAmount,
+    feeAmount: preview.feeAmount,
+    netAmount: preview.netAmount,
+  };
+};
+
+/**
+ * Why a realtor's scheduled payouts are on hold, or null when they can go
+ * out. Suspension takes precedence over payout holds, and holds over
+ * disputes.
+ */
+export const payoutPauseReason = (state: {
+  realtorStatus: RealtorStatus;
+  payoutHold: WithdrawalHoldReason | null;
+  openDepositDisputes: number;
+  hasPayoutAccount: boolean;
+}): PayoutPauseReason | null => {
+  if (state.realtorStatus === RealtorStatus.SUSPENDED) {
+    return "REALTOR_SUSPENDED";
+  }
+  if (state.payoutHold) {
+    return state.payoutHold;
+  }
+  if (state.openDepositDisputes > 0) {
+    return "OPEN_DEPOSIT_DISPUTES";
+  }
+  if (!state.hasPayoutAccount) {
+    return "PAYOUT_ACCOUNT_MISSING";
+  }
+  return null;
+};
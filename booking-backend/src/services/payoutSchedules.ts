@@ -0,0 +1,318 @@
+import {
+  DisputeStatus,
+  DisputeSubject,
+  PayoutSchedule,
+  PayoutScheduleFrequency,
+  Prisma,
+  WalletOwnerType,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import { logger } from "@/utils/logger";
+import { SettlementCurrency, settlementCurrencyOf } from "@/services/currency";
+import { loadFinanceConfig } from "@/services/financeConfig";
+import { hasConfiguredPayoutAccount } from "@/services/payoutAccountService";
+import { withdrawalHoldReason } from "@/services/payoutHoldRules";
+import * as withdrawalService from "@/services/withdrawalService";
+import {
+  PAYOUT_PAUSE_MESSAGES,
+  PayoutScheduleSettings,
+  nextPayoutRunAt,
+  payoutPauseReason,
+  planScheduledPayout,
+  upcomingPayoutRuns,
+} from "@/services/payoutScheduleRules";
+
+const OPEN_DISPUTE_STATUSES = [
+  DisputeStatus.OPEN,
+  DisputeStatus.AWAITING_RESPONSE,
+  DisputeStatus.ESCALATED,
+];
+
+export interface PayoutScheduleInput {
+  currency: SettlementCurrency;
+  frequency: PayoutScheduleFrequency;
+  weekday?: number;
+  dayOfMonth?: number;
+  thresholdAmount?: number;
+  minimumReserve: number;
+}
+
+const toSettings = (schedule: PayoutSchedule): PayoutScheduleSettings => ({
+  frequency: schedule.frequency,
+  weekday: schedule.weekday,
+  dayOfMonth: schedule.dayOfMonth,
+  thresholdAmount:
+    schedule.thresholdAmount === null ? null : Number(schedule.thresholdAmount),
+  minimumReserve: Number(schedule.minimumReserve),
+});
+
+const loadPayoutState = async (
+  realtorId: string,
+  currency: SettlementCurrency,
+  now: Date,
+) => {
+  const [realtor, openDepositDisputes, wallet] = await Promise.all([
+    prisma.realtor.findUniqueOrThrow({
+      where: { id: realtorId },
+      select: {
+        status: true,
+        businessName: true,
+        payoutCurrency: true,
+        paystackTransferRecipientCode: true,
+        paystackSubAccountCode: true,
+        payoutAccountNumber: true,
+        payoutHoldUntil: true,
+        payoutsFrozenAt: true,
+        user: { select: { email: true, firstName: true } },
+      },
+    }),
+    prisma.dispute.count({
+      where: {
+        disputeSubject: DisputeSubject.SECURITY_DEPOSIT,
+        status: { in: OPEN_DISPUTE_STATUSES },
+        booking: { property: { realtorId } },
+      },
+    }),
+    prisma.wallet.findUnique({
+      where: {
+        ownerType_ownerId_currency: {
+          ownerType: WalletOwnerType.REALTOR,
+          ownerId: realtorId,
+          currency,
+        },
+      },
+      select: { id: true, balanceAvailable: true },
+    }),
+  ]);
+
+  const pausedReason = payoutPauseReason({
+    realtorStatus: realtor.status,
+    payoutHold: withdrawalHoldReason(realtor, now),
+    openDepositDisputes,
+    hasPayoutAccount:
+      hasConfiguredPayoutAccount(realtor) &&
+      settlementCurrencyOf(realtor.payoutCurrency) === currency,
+  });
+
+  return {
+    realtor,
+    wallet,
+    available: wallet ? Number(wallet.balanceAvailable) : 0,
+    pausedReason,
+  };
+};
+
+/**
+ * A realtor's schedule for one wallet with a preview of the next runs: when
+ * they fall, what the current balance would pay out, and whether payouts
+ * are on hold.
+ */
+export const getPayoutSchedulePreview = async (
+  realtorId: string,
+  currency: SettlementCurrency,
+  now: Date = new Date(),
+) => {
+  const schedule = await prisma.payoutSchedule.findUnique({
+    where: { realtorId_currency: { realtorId, currency } },
+  });
+  if (!schedule) {
+    return { schedule: null, preview: null };
+  }
+
+  const settings = toSettings(schedule);
+  const [state, financeConfig] = await Promise.all([
+    loadPayoutState(realtorId, currency, now),
+    loadFinanceConfig(currency),
+  ]);
+
+  return {
+    schedule,
+    preview: {
+      available: state.available,
+      minimumReserve: settings.minimumReserve,
+      pausedReason: state.pausedReason,
+      pauseMessage: state.pausedReason
+        ? PAYOUT_PAUSE_MESSAGES[state.pausedReason]
+        : null,
+      upcomingRuns: schedule.isActive
+        ? upcomingPayoutRuns(settings, schedule.nextRunAt ?? now)
+        : [],
+      nextPayout: planScheduledPayout(settings, state.available, financeConfig),
+    },
+  };
+};
+
+export const savePayoutSchedule = async (
+  realtorId: string,
+  input: PayoutScheduleInput,
+  now: Date = new Date(),
+) => {
+  const data = {
+    frequency: input.frequency,
+    weekday:
+      input.frequency === PayoutScheduleFrequency.WEEKLY
+        ? (input.weekday ?? null)
+        : null,
+    dayOfMonth:
+      input.frequency === PayoutScheduleFrequency.MONTHLY
+        ? (input.dayOfMonth ?? null)
+        : null,
+    thresholdAmount:
+      input.frequency === PayoutScheduleFrequency.THRESHOLD &&
+      input.thresholdAmount !== undefined
+        ? new Prisma.Decimal(input.thresholdAmount)
+        : null,
+    minimumReserve: new Prisma.Decimal(input.minimumReserve),
+    isActive: true,
+    pausedReason: null,
+  };
+  const nextRunAt = nextPayoutRunAt(data, now);
+
+  return prisma.payoutSchedule.upsert({
+    where: { realtorId_currency: { realtorId, currency: input.currency } },
+    create: { realtorId, currency: input.currency, ...data, nextRunAt },
+    update: { ...data, nextRunAt },
+  });
+};
+
+export const disablePayoutSchedule = async (
+  realtorId: string,
+  currency: SettlementCurrency,
+) => {
+  const schedule = await prisma.payoutSchedule.findUnique({
+    where: { realtorId_currency: { realtorId, currency } },
+  });
+  if (!schedule || !schedule.isActive) {
+    throw new AppError("No active payout schedule for this currency", 404);
+  }
+
+  return prisma.payoutSchedule.update({
+    where: { id: schedule.id },
+    data: { isActive: false, nextRunAt: null, pausedReason: null },
+  });
+};
+
+type ScheduleRunOutcome = "CREATED" | "PAUSED" | "SKIPPED";
+
+const runPayoutSchedule = async (
+  schedule: PayoutSchedule,
+  now: Date,
+): Promise<ScheduleRunOutcome> => {
+  const currency = settlementCurrencyOf(schedule.currency);
+  const settings = toSettings(schedule);
+  const state = await loadPayoutState(schedule.realtorId, currency, now);
+
+  // Stay due while paused so the payout goes out once the hold lifts
+  if (state.pausedReason) {
+    if (schedule.pausedReason !== state.pausedReason) {
+      await prisma.payoutSchedule.update({
+        where: { id: schedule.id },
+        data: { pausedReason: state.pausedReason },
+      });
+    }
+    return "PAUSED";
+  }
+
+  const financeConfig = await loadFinanceConfig(currency);
+  const plan = planScheduledPayout(settings, state.available, financeConfig);
+  const advance = {
+    lastRunAt: now,
+    nextRunAt: nextPayoutRunAt(settings, now),
+    pausedReason: null,
+  };
+
+  // A threshold that hasn't been crossed isn't a run, so nothing advances
+  if (plan.status === "SKIPPED" && plan.reason === "BELOW_THRESHOLD") {
+    if (schedule.pausedReason) {
+      await prisma.payoutSchedule.update({
+        where: { id: schedule.id },
+        data: { pausedReason: null },
+      });
+    }
+    return "SKIPPED";
+  }
+
+  if (plan.status === "SKIPPED" || !state.wallet) {
+    await prisma.payoutSchedule.update({
+      where: { id: schedule.id },
+      data: advance,
+    });
+    return "SKIPPED";
+  }
+
+  const withdrawal = await withdrawalService.createWithdrawalRequest({
+    walletId: state.wallet.id,
+    realtorId: schedule.realtorId,
+    amount: plan.amount,
+    feeAmount: plan.feeAmount,
+    netAmount: plan.netAmount,
+    feeConfigVersion: financeConfig.version,
+    currency,
+    email: state.realtor.user.email,
+    displayName: state.realtor.user.firstName || state.realtor.businessName,
+    payoutScheduleId: schedule.id,
+  });
+
+  await prisma.payoutSchedule.update({
+    where: { id: schedule.id },
+    data: advance,
+  });
+
+  // One transfer at a time; failures are picked up by the withdrawal retry job
+  const result = await withdrawalService.processWithdrawal(
+    withdrawal.id,
+    false,
+  );
+  if (!result.success) {
+    logger.warn("[Payout Schedules] Scheduled withdrawal did not complete", {
+      withdrawalRequestId: withdrawal.id,
+      error: result.message,
+    });
+  }
+
+  return "CREATED";
+};
+
+/**
+ * Create withdrawals for every schedule that is due. Calendar schedules are
+ * due once nextRunAt has passed; THRESHOLD schedules are checked every run.
+ */
+export const runDuePayoutSchedules = async (now: Date = new Date()) => {
+  const schedules = await prisma.payoutSchedule.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { frequency: PayoutScheduleFrequency.THRESHOLD },
+        { nextRunAt: { lte: now } },
+      ],
+    },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  const result = {
+    checked: schedules.length,
+    created: 0,
+    paused: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  for (const schedule of schedules) {
+    try {
+      const outcome = await runPayoutSchedule(schedule, now);
+      if (outcome === "CREATED") result.created++;
+      else if (outcome === "PAUSED") result.paused++;
+      else result.skipped++;
+    } catch (error) {
+      result.failed++;
+      logger.error("[Payout Schedules] Failed to run payout schedule", {
+        payoutScheduleId: schedule.id,
+        realtorId: schedule.realtorId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  return result;
+};
@@ -3,6 +3,19 @@ import crypto from "crypto";
 import { config } from "@/config";
 import { logger } from "@/utils/logger";
 import { withPaymentRetry } from "@/utils/retry";
+import {
+  SETTLEMENT_CURRENCIES,
+  SETTLEMENT_CURRENCY_DEFINITIONS,
+  settlementCurrencyOf,
+  toMinorUnits,
+} from "@/services/currency";
+import {
+  PaymentGateway,
+  normalizePaystackGatewayTransaction,
+  normalizePaystackTransfer,
+  parsePaystackWebhook,
+  toPaymentGatewayError,
+} from "@/services/paymentGatewayRules";
 
 const PAYSTACK_BASE_URL = "https://api.paystack.co";
 
@@ -218,11 +231,13 @@ export const getSubAccount = async (subAccountCode: string) => {
 };
 
 /**
- * List Nigerian banks for subaccount creation
+ * List banks that accept payouts in the given currency
  */
-export const listBanks = async () => {
+export const listBanks = async (currency = "NGN") => {
   try {
-    const response = await paystackClient.get("/bank?country=nigeria");
+    const response = await paystackClient.get("/bank", {
+      params: { currency },
+    });
     return response.data.data;
   } catch (error: any) {
     logger.error("Error listing banks", {
@@ -260,15 +275,28 @@ export const resolveAccount = async (
  * Verify webhook signature
  */
 export const verifyWebhookSignature = (
-  payload: string,
-  signature: string
+  payload: string | Buffer,
+  signature: unknown
 ): boolean => {
-  const hash = crypto
+  if (typeof signature !== "string") {
+    return false;
+  }
+
+  const expectedSignature = crypto
     .createHmac("sha512", config.PAYSTACK_WEBHOOK_SECRET)
-    .update(payload, "utf8")
+    .update(payload)
     .digest("hex");
 
-  return hash === signature;
+  try {
+    const providedBuffer = Buffer.from(signature, "hex");
+    const expectedBuffer = Buffer.from(expectedSignature, "hex");
+    return (
+      providedBuffer.length === expectedBuffer.length &&
+      crypto.timingSafeEqual(providedBuffer, expectedBuffer)
+    );
+  } catch {
+    return false;
+  }
 };
 
 /**
@@ -282,11 +310,13 @@ export const initializePaystackTransaction = async (data: {
   metadata?: any;
   subaccount?: string | null;
   transaction_charge?: number;
+  currency?: string;
 }) => {
   try {
     const payload: any = {
       email: data.email,
       amount: data.amount,
+      currency: data.currency || "NGN",
       reference: data.reference,
       callback_url: data.callback_url,
       metadata: data.metadata,
@@ -308,8 +338,10 @@ export const initializePaystackTransaction = async (data: {
       "Paystack initialization error:",
       error.response?.data || error
     );
-    throw new Error(
-      error.response?.data?.message || "Payment initialization failed"
+    throw toPaymentGatewayError(
+      error,
+      "PAYSTACK",
+      "Payment initialization failed"
     );
   }
 };
@@ -324,12 +356,14 @@ export const chargeAuthorization = async (data: {
   amount: number;
   reference: string;
   metadata?: any;
+  currency?: string;
 }) => {
   try {
     const payload = {
       authorization_code: data.authorizationCode,
       email: data.email,
       amount: data.amount, // kobo
+      currency: data.currency || "NGN",
       reference: data.reference,
       metadata: data.metadata,
     };
@@ -349,8 +383,10 @@ export const chargeAuthorization = async (data: {
       stack: error.stack,
     });
 
-    throw new Error(
-      error.response?.data?.message || "Failed to charge saved payment method"
+    throw toPaymentGatewayError(
+      error,
+      "PAYSTACK",
+      "Failed to charge saved payment method"
     );
   }
 };
@@ -366,8 +402,10 @@ export const verifyPaystackTransaction = async (reference: string) => {
     return response.data;
   } catch (error: any) {
     logger.error("Paystack verification error:", error.response?.data || error);
-    throw new Error(
-      error.response?.data?.message || "Payment verification failed"
+    throw toPaymentGatewayError(
+      error,
+      "PAYSTACK",
+      "Payment verification failed"
     );
   }
 };
@@ -380,11 +418,13 @@ export const initiateTransfer = async (data: {
   recipient: string;
   reason: string;
   reference?: string;
+  currency?: string;
 }) => {
   try {
     const payload = {
       source: "balance",
       amount: Math.round(data.amount * 100), // Convert to kobo
+      currency: data.currency || "NGN",
       recipient: data.recipient,
       reason: data.reason,
       reference: data.reference || `transfer_${Date.now()}`,
@@ -404,8 +444,10 @@ export const initiateTransfer = async (data: {
       reference: data.reference,
       stack: error.stack,
     });
-    throw new Error(
-      error.response?.data?.message || "Failed to initiate transfer"
+    throw toPaymentGatewayError(
+      error,
+      "PAYSTACK",
+      "Failed to initiate transfer"
     );
   }
 };
@@ -440,8 +482,10 @@ export const createTransferRecipient = async (data: {
       bankCode: data.bank_code,
       stack: error.stack,
     });
-    throw new Error(
-      error.response?.data?.message || "Failed to create transfer recipient"
+    throw toPaymentGatewayError(
+      error,
+      "PAYSTACK",
+      "Failed to create transfer recipient"
     );
   }
 };
@@ -465,6 +509,74 @@ export const verifyTransfer = async (reference: string) => {
   }
 };
 
+/**
+ * List transactions created in a date range, one page at a time
+ */
+export const listTransactions = async (params: {
+  from: Date;
+  to: Date;
+  page?: number;
+  perPage?: number;
+}) => {
+  try {
+    const response = await paystackClient.get("/transaction", {
+      params: {
+        from: params.from.toISOString(),
+        to: params.to.toISOString(),
+        page: params.page || 1,
+        perPage: params.perPage || 100,
+      },
+    });
+    return {
+      data: response.data.data as any[],
+      pageCount: Number(response.data.meta?.pageCount || 1),
+    };
+  } catch (error: any) {
+    logger.error("Paystack list transactions error", {
+      error: error.response?.data || error.message,
+      page: params.page,
+      stack: error.stack,
+    });
+    throw new Error(
+      error.response?.data?.message || "Failed to list transactions"
+    );
+  }
+};
+
+/**
+ * List transfers created in a date range, one page at a time
+ */
+export const listTransfers = async (params: {
+  from: Date;
+  to: Date;
+  page?: number;
+  perPage?: number;
+}) => {
+  try {
+    const response = await paystackClient.get("/transfer", {
+      params: {
+        from: params.from.toISOString(),
+        to: params.to.toISOString(),
+        page: params.page || 1,
+        perPage: params.perPage || 100,
+      },
+    });
+    return {
+      data: response.data.data as any[],
+      pageCount: Number(response.data.meta?.pageCount || 1),
+    };
+  } catch (error: any) {
+    logger.error("Paystack list transfers error", {
+      error: error.response?.data || error.message,
+      page: params.page,
+      stack: error.stack,
+    });
+    throw new Error(
+      error.response?.data?.message || "Failed to list transfers"
+    );
+  }
+};
+
 export const paystackService = {
   createSubAccount,
   initializeSplitPayment,
@@ -479,4 +591,140 @@ export const paystackService = {
   initiateTransfer,
   createTransferRecipient,
   verifyTransfer,
+  listTransactions,
+  listTransfers,
+};
+
+/**
+ * Paystack behind the PaymentGateway interface. Amounts are converted to
+ * and from the currency's minor units here; the functions above keep
+ * Paystack's own shapes for reconciliation and payout account setup.
+ */
+export const paystackGateway: PaymentGateway = {
+  provider: "PAYSTACK",
+  supportedCurrencies: SETTLEMENT_CURRENCIES,
+
+  isConfigured: () => Boolean(config.PAYSTACK_SECRET_KEY),
+
+  async initializeTransaction(input) {
+    const currency = settlementCurrencyOf(input.currency);
+    const response = await initializePaystackTransaction({
+      email: input.email,
+      amount: toMinorUnits(input.amount, currency),
+      reference: input.reference,
+      currency,
+      callback_url: input.callbackUrl,
+      metadata: input.metadata,
+    });
+
+    return {
+      provider: "PAYSTACK",
+      reference: input.reference,
+      authorizationUrl: response.data.authorization_url,
+      accessCode: response.data.access_code || null,
+      publicKey: config.PAYSTACK_PUBLIC_KEY,
+    };
+  },
+
+  async verifyTransaction(reference) {
+    const response = await verifyPaystackTransaction(reference);
+    return normalizePaystackGatewayTransaction({
+      reference,
+      ...(response.data || {}),
+    });
+  },
+
+  async chargeAuthorization(input) {
+    const currency = settlementCurrencyOf(input.currency);
+    const response = await chargeAuthorization({
+      authorizationCode: input.authorizationCode,
+      email: input.email,
+      amount: toMinorUnits(input.amount, currency),
+      reference: input.reference,
+      currency,
+      metadata: input.metadata,
+    });
+    const transaction = normalizePaystackGatewayTransaction({
+      reference: input.reference,
+      ...(response?.data || {}),
+    });
+
+    return response?.status === true
+      ? transaction
+      : {
+          ...transaction,
+          status: "failed",
+          gatewayResponse: response?.message || transaction.gatewayResponse,
+        };
+  },
+
+  async refund(input) {
+    const result = await processRefund(
+      input.providerTransactionId || input.reference,
+      input.amount
+    );
+    return {
+      provider: "PAYSTACK",
+      refundId: result?.id ? String(result.id) : null,
+      status: String(result?.status || "pending"),
+      raw: result || {},
+    };
+  },
+
+  async createTransferRecipient(input) {
+    const currency = settlementCurrencyOf(input.currency);
+    const recipient = await createTransferRecipient({
+      type: SETTLEMENT_CURRENCY_DEFINITIONS[currency].paystackRecipientType,
+      name: input.name,
+      account_number: input.accountNumber,
+      bank_code: input.bankCode,
+      currency,
+      metadata: input.metadata,
+    });
+    if (!recipient?.recipient_code) {
+      throw new Error("Paystack did not return a transfer recipient code");
+    }
+
+    return {
+      provider: "PAYSTACK",
+      recipientCode: String(recipient.recipient_code),
+      raw: recipient,
+    };
+  },
+
+  async initiateTransfer(input) {
+    const transfer = await initiateTransfer(input);
+    return normalizePaystackTransfer({
+      reference: input.reference,
+      ...(transfer || {}),
+    });
+  },
+
+  async verifyTransfer(reference) {
+    return normalizePaystackTransfer({
+      reference,
+      ...((await verifyTransfer(reference)) || {}),
+    });
+  },
+
+  async listBanks(currency) {
+    const banks = await listBanks(currency);
+    return (banks || []).map((bank: any) => ({
+      name: String(bank.name),
+      code: String(bank.code),
+    }));
+  },
+
+  async resolveAccount(accountNumber, bankCode) {
+    const account = await resolveAccount(accountNumber, bankCode);
+    return {
+      accountNumber: String(account?.account_number || accountNumber),
+      accountName: String(account?.account_name || ""),
+    };
+  },
+
+  verifyWebhookSignature: (rawBody, headers) =>
+    verifyWebhookSignature(rawBody, headers["x-paystack-signature"]),
+
+  parseWebhookEvent: parsePaystackWebhook,
 };
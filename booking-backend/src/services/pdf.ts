@@ -2,6 +2,7 @@ import PDFDocument from "pdfkit";
 import * as fs from "fs";
 import * as path from "path";
 import { config } from "@/config";
+import { StatementContent, StatementPeriod } from "@/services/statementRules";
 
 export class PDFService {
   static async generateBookingReceipt(
@@ -540,6 +541,219 @@ export class PDFService {
     });
   }
 
+  static async generateRealtorStatement(
+    realtor: { businessName: string; businessEmail?: string | null },
+    period: StatementPeriod,
+    content: StatementContent,
+    currency: string,
+    generatedAt: Date
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({
+          margin: 50,
+          info: {
+            Title: `Statement ${period.label}`,
+            CreationDate: generatedAt,
+          },
+        });
+        const buffers: Buffer[] = [];
+
+        doc.on("data", buffers.push.bind(buffers));
+        doc.on("end", () => {
+          const pdfBuffer = Buffer.concat(buffers);
+          resolve(pdfBuffer);
+        });
+
+        const money = (amount: number) =>
+          `${currency} ${amount.toLocaleString("en-US", {
+            minimumFractionDigits: 2,
+            maximumFractionDigits: 2,
+          })}`;
+        const day = (date: Date) => date.toISOString().slice(0, 10);
+        let currentY = 0;
+        const ensureSpace = (height: number) => {
+          if (currentY + height > 740) {
+            doc.addPage();
+            currentY = 50;
+          }
+        };
+        const sectionTitle = (title: string) => {
+          ensureSpace(60);
+          currentY += 15;
+          doc
+            .fillColor("#1f2937")
+            .fontSize(14)
+            .font("Helvetica-Bold")
+            .text(title, 50, currentY);
+          currentY += 25;
+        };
+        const row = (cells: Array<[string, number, number?]>, bold = false) => {
+          ensureSpace(20);
+          doc
+            .fillColor(bold ? "#6b7280" : "#374151")
+            .fontSize(9)
+            .font(bold ? "Helvetica-Bold" : "Helvetica");
+          cells.forEach(([text, x, width]) =>
+            doc.text(text, x, currentY, {
+              width: width ?? 75,
+              align: x > 200 ? "right" : "left",
+              lineBreak: false,
+              ellipsis: true,
+            })
+          );
+          currentY += bold ? 16 : 15;
+        };
+
+        // Header
+        doc
+          .fillColor("#3b82f6")
+          .fontSize(20)
+          .font("Helvetica-Bold")
+          .text("STATEMENT", 50, 50);
+
+        doc
+          .fillColor("#6b7280")
+          .fontSize(12)
+          .font("Helvetica")
+          .text(
+            `${period.label} (${day(period.periodStart)} to ${day(
+              new Date(period.periodEnd.getTime() - 1)
+            )}, UTC)`,
+            50,
+            80
+          )
+          .text(`Generated: ${day(generatedAt)}`, 50, 95);
+
+        doc
+          .fillColor("#374151")
+          .fontSize(12)
+          .text(`Business Name: ${realtor.businessName}`, 50, 120)
+          .text(`Email: ${realtor.businessEmail || "N/A"}`, 50, 135);
+        currentY = 155;
+
+        // Summary
+        sectionTitle("Summary");
+        const { totals } = content;
+        const summaryRows: Array<[string, number]> = [
+          ["Opening balance", content.openingBalance],
+          ["Room fees credited", totals.roomFeesCredited],
+          ["Cleaning fees credited", totals.cleaningFeesCredited],
+          ["Security deposits credited", totals.depositsCredited],
+          ["Adjustments", totals.adjustments],
+          ["Withdrawals", -totals.withdrawals],
+          ["Closing balance", content.closingBalance],
+        ];
+        summaryRows.forEach(([label, amount], index) =>
+          row(
+            [
+              [label, 50, 200],
+              [money(amount), 400, 145],
+            ],
+            index === 0 || index === summaryRows.length - 1
+          )
+        );
+        currentY += 5;
+        row([
+          ["Commission (included above)", 50, 200],
+          [money(totals.commission), 400, 145],
+        ]);
+        row([
+          ["Guest refunds", 50, 200],
+          [money(totals.refunds), 400, 145],
+        ]);
+        row([
+          ["Dispute deductions", 50, 200],
+          [money(totals.disputeDeductions), 400, 145],
+        ]);
+        row([
+          ["Withdrawal fees", 50, 200],
+          [money(totals.withdrawalFees), 400, 145],
+        ]);
+
+        // Bookings
+        sectionTitle("Bookings");
+        const bookingHeader: Array<[string, number, number?]> = [
+          ["Check-in", 50, 55],
+          ["Property", 105, 100],
+          ["Room fee", 205, 60],
+          ["Cleaning", 265, 55],
+          ["Commission", 320, 70],
+          ["Refunds", 390, 50],
+          ["Disputes", 440, 50],
+          ["Credited", 490, 60],
+        ];
+        if (content.bookings.length === 0) {
+          row([["No bookings credited in this period", 50, 300]]);
+        } else {
+          row(bookingHeader, true);
+          content.bookings.forEach((booking) =>
+            row([
+              [day(booking.checkInDate), 50, 55],
+              [booking.propertyTitle, 105, 100],
+              [booking.roomFee.toFixed(2), 205, 60],
+              [booking.cleaningFee.toFixed(2), 265, 55],
+              [
+                booking.commissionRate === null
+                  ? booking.commission.toFixed(2)
+                  : `${booking.commission.toFixed(2)} (${(
+                      booking.commissionRate * 100
+                    ).toFixed(2)}%)`,
+                320,
+                70,
+              ],
+              [booking.refunds.toFixed(2), 390, 50],
+              [booking.disputeDeductions.toFixed(2), 440, 50],
+              [booking.credited.toFixed(2), 490, 60],
+            ])
+          );
+        }
+
+        // Withdrawals
+        sectionTitle("Withdrawals");
+        if (content.withdrawals.length === 0) {
+          row([["No withdrawals paid in this period", 50, 300]]);
+        } else {
+          row(
+            [
+              ["Date", 50, 70],
+              ["Reference", 120, 150],
+              ["Amount", 290, 85],
+              ["Fee", 375, 85],
+              ["Net payout", 460, 85],
+            ],
+            true
+          );
+          content.withdrawals.forEach((withdrawal) =>
+            row([
+              [day(withdrawal.paidAt), 50, 70],
+              [withdrawal.reference || "-", 120, 150],
+              [withdrawal.amount.toFixed(2), 290, 85],
+              [withdrawal.fee.toFixed(2), 375, 85],
+              [withdrawal.netAmount.toFixed(2), 460, 85],
+            ])
+          );
+        }
+
+        // Adjustments
+        if (content.adjustments.length > 0) {
+          sectionTitle("Adjustments");
+          content.adjustments.forEach((adjustment) =>
+            row([
+              [day(adjustment.postedAt), 50, 70],
+              [adjustment.source || adjustment.type, 120, 150],
+              [adjustment.amount.toFixed(2), 460, 85],
+            ])
+          );
+        }
+
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
   // Helper to save PDF to file system (optional)
   static async savePDFToFile(
     pdfBuffer: Buffer,
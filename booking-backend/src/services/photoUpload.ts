@@ -287,10 +287,63 @@ export const uploadMessageAttachments = multer({
   { name: "voiceNote", maxCount: 1 },
 ]);
 
+// =====================================================
+// SUPPORT TICKET ATTACHMENTS (Screenshots, Documents)
+// =====================================================
+
+const supportAttachmentsStorage = new CloudinaryStorage({
+  cloudinary: cloudinary,
+  params: ((req: Request, file: Express.Multer.File) => {
+    const isImage = file.mimetype.startsWith("image/");
+
+    return {
+      folder: isImage ? "stayza/support/images" : "stayza/support/documents",
+      resource_type: isImage ? "image" : "raw",
+      allowed_formats: isImage
+        ? ["jpg", "jpeg", "png", "webp", "gif"]
+        : ["pdf", "doc", "docx", "txt"],
+    };
+  }) as any,
+});
+
+export const uploadSupportAttachments = multer({
+  storage: supportAttachmentsStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per file
+    files: 5, // Maximum 5 files per ticket or reply
+  },
+  fileFilter: (req: Request, file: Express.Multer.File, cb: any) => {
+    const allowedMimes = [
+      "image/jpeg",
+      "image/jpg",
+      "image/png",
+      "image/webp",
+      "image/gif",
+      "application/pdf",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "text/plain",
+    ];
+
+    if (allowedMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(
+        new AppError(
+          `Invalid file type: ${file.mimetype}. Allowed: images, PDFs, Word documents, and text files.`,
+          400
+        ),
+        false
+      );
+    }
+  },
+}).array("attachments", 5);
+
 export default {
   uploadReviewPhotos,
   uploadSinglePhoto,
   uploadMessageAttachments,
+  uploadSupportAttachments,
   deleteCloudinaryImage,
   uploadBase64Image,
   processReviewPhotos,
@@ -1,23 +1,44 @@
-import { DEFAULT_FINANCE_CONFIG } from "./financeConfig";
-import { computeGuestServiceFee } from "./pricingEngine";
+import {
+  DEFAULT_FINANCE_CONFIG,
+  DEFAULT_FINANCE_CONFIGS,
+} from "./financeConfig";
+import {
+  buildNightlyBreakdown,
+  computeGuestServiceFee,
+  computeModificationAdjustment,
+  getStayLengthViolation,
+  quoteBooking,
+} from "./pricingEngine";
 
 describe("pricingEngine service fee cap triggers", () => {
   it("does not apply stayza cap below configured trigger", () => {
-    const result = computeGuestServiceFee(133332, "LOCAL", DEFAULT_FINANCE_CONFIG);
+    const result = computeGuestServiceFee(
+      133332,
+      "LOCAL",
+      DEFAULT_FINANCE_CONFIG
+    );
 
     expect(result.stayzaCapApplied).toBe(false);
     expect(result.stayza).toBeCloseTo(1433.32, 2);
   });
 
   it("applies stayza cap once trigger is reached", () => {
-    const result = computeGuestServiceFee(133333, "LOCAL", DEFAULT_FINANCE_CONFIG);
+    const result = computeGuestServiceFee(
+      133333,
+      "LOCAL",
+      DEFAULT_FINANCE_CONFIG
+    );
 
     expect(result.stayzaCapApplied).toBe(true);
     expect(result.stayza).toBe(1433);
   });
 
   it("applies local processing cap only after trigger and when variable exceeds cap", () => {
-    const result = computeGuestServiceFee(200000, "LOCAL", DEFAULT_FINANCE_CONFIG);
+    const result = computeGuestServiceFee(
+      200000,
+      "LOCAL",
+      DEFAULT_FINANCE_CONFIG
+    );
 
     expect(result.processingCapApplied).toBe(true);
     expect(result.processing).toBe(2100);
@@ -34,3 +55,175 @@ describe("pricingEngine service fee cap triggers", () => {
     expect(result.processing).toBeGreaterThan(19000);
   });
 });
+
+describe("pricingEngine per-currency configs", () => {
+  it("applies the cedi fee caps and tiers to cedi bookings", () => {
+    const fee = computeGuestServiceFee(
+      2000,
+      "LOCAL",
+      DEFAULT_FINANCE_CONFIGS.GHS
+    );
+
+    expect(fee.stayzaCapApplied).toBe(true);
+    expect(fee.stayza).toBe(14);
+    expect(fee.processingCapApplied).toBe(false);
+    expect(fee.processing).toBe(39);
+  });
+});
+
+describe("pricingEngine nightly pricing rules", () => {
+  const quotedAt = new Date("2026-05-01T09:00:00Z");
+
+  it("keeps the flat nightly price when no rules are set", () => {
+    const quote = quoteBooking(
+      {
+        pricePerNight: 20000,
+        numberOfNights: 3,
+        checkInDate: new Date("2026-06-01T00:00:00Z"),
+        quotedAt,
+      },
+      DEFAULT_FINANCE_CONFIG
+    );
+
+    expect(quote.roomFee).toBe(60000);
+    expect(quote.nightlyBreakdown.map((line) => line.date)).toEqual([
+      "2026-06-01",
+      "2026-06-02",
+      "2026-06-03",
+    ]);
+    expect(quote.pricingRulesSnapshot).toEqual({
+      basePricePerNight: 20000,
+      rules: null,
+      leadTimeDays: 31,
+      quotedAt: quotedAt.toISOString(),
+    });
+  });
+
+  it("prices weekend nights and seasons per night", () => {
+    // Thu 2026-06-04 to Mon 2026-06-08: Thu, Fri, Sat, Sun nights
+    const { lines } = buildNightlyBreakdown({
+      pricePerNight: 20000,
+      numberOfNights: 4,
+      checkInDate: "2026-06-04",
+      quotedAt,
+      pricingRules: {
+        weekendPrice: 25000,
+        seasonalRates: [
+          {
+            name: "Sallah",
+            startDate: "2026-06-07",
+            endDate: "2026-06-07",
+            adjustmentRate: 0.5,
+          },
+        ],
+      },
+    });
+
+    expect(lines.map((line) => [line.rateSource, line.price])).toEqual([
+      ["BASE", 20000],
+      ["WEEKEND", 25000],
+      ["WEEKEND", 25000],
+      ["SEASONAL", 30000],
+    ]);
+    expect(lines[3].seasonName).toBe("Sallah");
+  });
+
+  it("stacks length-of-stay and lead-time adjustments", () => {
+    const quote = quoteBooking(
+      {
+        pricePerNight: 10000,
+        numberOfNights: 7,
+        checkInDate: "2026-05-03",
+        quotedAt,
+        pricingRules: {
+          weeklyDiscountRate: 0.1,
+          monthlyDiscountRate: 0.2,
+          lastMinute: { days: 3, adjustmentRate: -0.05 },
+          earlyBird: { days: 60, adjustmentRate: -0.1 },
+        },
+      },
+      DEFAULT_FINANCE_CONFIG
+    );
+
+    // 10,000 less 10% weekly, then 5% last-minute
+    expect(quote.nightlyBreakdown[0].adjustments).toEqual([
+      { type: "WEEKLY_DISCOUNT", rate: -0.1, amount: -1000 },
+      { type: "LAST_MINUTE", rate: -0.05, amount: -450 },
+    ]);
+    expect(quote.nightlyBreakdown[0].price).toBe(8550);
+    expect(quote.roomFee).toBe(59850);
+  });
+
+  it("reports minimum and maximum night violations", () => {
+    const rules = { minNights: 2, maxNights: 14 };
+
+    expect(getStayLengthViolation(rules, 1)).toBe(
+      "This property requires a minimum stay of 2 nights"
+    );
+    expect(getStayLengthViolation(rules, 15)).toBe(
+      "This property allows a maximum stay of 14 nights"
+    );
+    expect(getStayLengthViolation(rules, 7)).toBeNull();
+    expect(getStayLengthViolation(null, 1)).toBeNull();
+  });
+});
+
+describe("pricingEngine booking modification adjustment", () => {
+  it("charges the extra room fee plus service fee on the difference", () => {
+    const adjustment = computeModificationAdjustment(
+      { currentRoomFee: 60000, newRoomFee: 80000, effectiveRate: 0.1 },
+      DEFAULT_FINANCE_CONFIG
+    );
+    const serviceFee = computeGuestServiceFee(
+      20000,
+      "LOCAL",
+      DEFAULT_FINANCE_CONFIG
+    );
+
+    expect(adjustment.roomFeeDifference).toBe(20000);
+    expect(adjustment.additionalServiceFee?.total).toBe(serviceFee.total);
+    expect(adjustment.amountDue).toBe(20000 + serviceFee.total);
+    expect(adjustment.refundAmount).toBe(0);
+    expect(adjustment.platformFee).toBe(8000);
+  });
+
+  it("refunds only the room fee difference when the stay gets cheaper", () => {
+    const adjustment = computeModificationAdjustment(
+      { currentRoomFee: 60000, newRoomFee: 45000.5, effectiveRate: 0.1 },
+      DEFAULT_FINANCE_CONFIG
+    );
+
+    expect(adjustment.additionalServiceFee).toBeNull();
+    expect(adjustment.amountDue).toBe(0);
+    expect(adjustment.refundAmount).toBe(14999.5);
+    expect(adjustment.retainedRoomFee).toBe(0);
+    expect(adjustment.platformFee).toBe(4500.05);
+  });
+
+  it("retains the share of a lower room fee the policy does not refund", () => {
+    const partial = computeModificationAdjustment(
+      {
+        currentRoomFee: 70000,
+        newRoomFee: 10000,
+        effectiveRate: 0.1,
+        refundRate: 0.5,
+      },
+      DEFAULT_FINANCE_CONFIG
+    );
+    const nonRefundable = computeModificationAdjustment(
+      {
+        currentRoomFee: 70000,
+        newRoomFee: 10000,
+        effectiveRate: 0.1,
+        refundRate: 0,
+      },
+      DEFAULT_FINANCE_CONFIG
+    );
+
+    expect(partial.refundAmount).toBe(30000);
+    expect(partial.retainedRoomFee).toBe(30000);
+    expect(nonRefundable.refundAmount).toBe(0);
+    expect(nonRefundable.retainedRoomFee).toBe(60000);
+    expect(nonRefundable.amountDue).toBe(0);
+  });
+});
@@ -1,4 +1,10 @@
 import { FinanceConfig } from "@/services/financeConfig";
+import {
+  DEFAULT_CURRENCY,
+  SettlementCurrency,
+  fromMinorUnits,
+  toMinorUnits,
+} from "@/services/currency";
 
 export type PaystackMode = "LOCAL" | "INTERNATIONAL";
 export type ProcessingFeeMode =
@@ -38,6 +44,65 @@ export interface MonthlyVolumeProgress {
   nextReduction: number | null;
 }
 
+/**
+ * Realtor-defined nightly pricing. Rates are fractions (0.1 = 10%);
+ * adjustment rates are signed, so -0.15 is a 15% discount and 0.2 a 20%
+ * surcharge. Night dates are UTC YYYY-MM-DD keys.
+ */
+export interface SeasonalRate {
+  name: string;
+  startDate: string;
+  endDate: string; // Last night of the season (inclusive)
+  pricePerNight?: number | null; // Replaces the weekday/weekend rate
+  adjustmentRate?: number | null; // Applied to the weekday/weekend rate
+}
+
+export interface LeadTimeAdjustment {
+  days: number;
+  adjustmentRate: number;
+}
+
+export interface PricingRules {
+  weekdayPrice?: number | null;
+  weekendPrice?: number | null;
+  weekendNights?: number[]; // Day of week the night starts on, 0 = Sunday
+  seasonalRates?: SeasonalRate[];
+  weeklyDiscountRate?: number | null; // Stays of 7+ nights
+  monthlyDiscountRate?: number | null; // Stays of 28+ nights, replaces weekly
+  lastMinute?: LeadTimeAdjustment | null; // Check-in within `days`
+  earlyBird?: LeadTimeAdjustment | null; // Check-in at least `days` away
+  minNights?: number | null;
+  maxNights?: number | null;
+}
+
+export type NightlyRateSource = "BASE" | "WEEKEND" | "SEASONAL";
+
+export type NightlyAdjustmentType =
+  | "WEEKLY_DISCOUNT"
+  | "MONTHLY_DISCOUNT"
+  | "LAST_MINUTE"
+  | "EARLY_BIRD";
+
+export interface NightlyPriceLine {
+  date: string | null;
+  rateSource: NightlyRateSource;
+  seasonName?: string;
+  baseRate: number;
+  adjustments: Array<{
+    type: NightlyAdjustmentType;
+    rate: number;
+    amount: number;
+  }>;
+  price: number;
+}
+
+export interface PricingRulesSnapshot {
+  basePricePerNight: number;
+  rules: PricingRules | null;
+  leadTimeDays: number | null;
+  quotedAt: string;
+}
+
 export interface QuoteBookingParams {
   pricePerNight: number;
   numberOfNights: number;
@@ -45,6 +110,18 @@ export interface QuoteBookingParams {
   securityDeposit?: number;
   monthlyVolume?: number;
   paystackMode?: PaystackMode;
+  checkInDate?: Date | string;
+  pricingRules?: PricingRules | null;
+  quotedAt?: Date;
+}
+
+export interface ModificationAdjustment {
+  roomFeeDifference: number;
+  additionalServiceFee: ServiceFeeBreakdown | null;
+  platformFee: number;
+  amountDue: number;
+  refundAmount: number;
+  retainedRoomFee: number;
 }
 
 export interface BookingQuoteResult {
@@ -60,14 +137,10 @@ export interface BookingQuoteResult {
   estimatedNetPayout: number;
   monthlyVolumeProgress: MonthlyVolumeProgress;
   nights: number;
+  nightlyBreakdown: NightlyPriceLine[];
+  pricingRulesSnapshot: PricingRulesSnapshot;
 }
 
-const toKobo = (naira: number): number =>
-  Math.round((Number(naira) + Number.EPSILON) * 100);
-
-const fromKobo = (kobo: number): number =>
-  Number((Math.round(kobo) / 100).toFixed(2));
-
 const clamp = (value: number, min: number, max: number): number =>
   Math.min(Math.max(value, min), max);
 
@@ -76,40 +149,59 @@ const toNumber = (value: unknown, fallback = 0): number => {
   return Number.isFinite(parsed) ? parsed : fallback;
 };
 
-const computeFeeComponentInKobo = (
-  subtotalKobo: number,
-  component: FinanceConfig["serviceFee"]["stayza"]
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKLY_STAY_NIGHTS = 7;
+const MONTHLY_STAY_NIGHTS = 28;
+// Friday and Saturday nights
+export const DEFAULT_WEEKEND_NIGHTS = [5, 6];
+
+const toUtcDateStart = (value: Date | string): Date => {
+  const date = new Date(value);
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+};
+
+const positiveOrNull = (value: unknown): number | null => {
+  const parsed = toNumber(value, NaN);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const computeFeeComponentInMinorUnits = (
+  subtotalMinor: number,
+  component: FinanceConfig["serviceFee"]["stayza"],
+  currency: SettlementCurrency
 ): {
-  totalKobo: number;
+  totalMinor: number;
   capApplied: boolean;
 } => {
   const percent = toNumber(component.percent, 0);
-  const fixedKobo = toKobo(toNumber(component.fixed, 0));
-  const variableRawKobo = Math.round(subtotalKobo * percent);
+  const fixedMinor = toMinorUnits(toNumber(component.fixed, 0), currency);
+  const variableRawMinor = Math.round(subtotalMinor * percent);
 
   if (component.noCap) {
     return {
-      totalKobo: variableRawKobo + fixedKobo,
+      totalMinor: variableRawMinor + fixedMinor,
       capApplied: false,
     };
   }
 
-  const variableCapKobo =
+  const variableCapMinor =
     component.capVariable !== undefined
-      ? toKobo(toNumber(component.capVariable, 0))
+      ? toMinorUnits(toNumber(component.capVariable, 0), currency)
       : Number.POSITIVE_INFINITY;
-  const capTriggerKobo =
+  const capTriggerMinor =
     component.capTrigger !== undefined
-      ? toKobo(toNumber(component.capTrigger, 0))
+      ? toMinorUnits(toNumber(component.capTrigger, 0), currency)
       : null;
-  const canApplyCap = capTriggerKobo === null || subtotalKobo >= capTriggerKobo;
-  const variableCappedKobo = canApplyCap
-    ? Math.min(variableRawKobo, variableCapKobo)
-    : variableRawKobo;
+  const canApplyCap = capTriggerMinor === null || subtotalMinor >= capTriggerMinor;
+  const variableCappedMinor = canApplyCap
+    ? Math.min(variableRawMinor, variableCapMinor)
+    : variableRawMinor;
 
   return {
-    totalKobo: variableCappedKobo + fixedKobo,
-    capApplied: canApplyCap && variableCappedKobo !== variableRawKobo,
+    totalMinor: variableCappedMinor + fixedMinor,
+    capApplied: canApplyCap && variableCappedMinor !== variableRawMinor,
   };
 };
 
@@ -145,16 +237,16 @@ export const computeCommissionSnapshot = (
   );
   const effectiveRate = clamp(applicableTier.rate - cappedReduction, 0, 1);
 
-  const roomFeeKobo = toKobo(normalizedRoomFee);
-  const commissionKobo = Math.round(roomFeeKobo * effectiveRate);
-  const realtorRoomKobo = roomFeeKobo - commissionKobo;
+  const roomFeeMinor = toMinorUnits(normalizedRoomFee, config.currency);
+  const commissionMinor = Math.round(roomFeeMinor * effectiveRate);
+  const realtorRoomMinor = roomFeeMinor - commissionMinor;
 
   return {
     baseRate: applicableTier.rate,
     volumeReductionRate: cappedReduction,
     effectiveRate,
-    commissionAmount: fromKobo(commissionKobo),
-    realtorRoomPayout: fromKobo(realtorRoomKobo),
+    commissionAmount: fromMinorUnits(commissionMinor, config.currency),
+    realtorRoomPayout: fromMinorUnits(realtorRoomMinor, config.currency),
   };
 };
 
@@ -180,34 +272,241 @@ export const computeGuestServiceFee = (
   config: FinanceConfig,
   quoteMode: "QUOTED" | "ACTUAL" = "QUOTED"
 ): ServiceFeeBreakdown => {
-  const subtotalKobo = toKobo(Math.max(0, toNumber(chargeableSubtotal, 0)));
-  const stayzaPart = computeFeeComponentInKobo(subtotalKobo, config.serviceFee.stayza);
+  const { currency } = config;
+  const subtotalMinor = toMinorUnits(
+    Math.max(0, toNumber(chargeableSubtotal, 0)),
+    currency
+  );
+  const stayzaPart = computeFeeComponentInMinorUnits(
+    subtotalMinor,
+    config.serviceFee.stayza,
+    currency
+  );
   const processingSource =
     paystackMode === "INTERNATIONAL"
       ? config.serviceFee.processing.international
       : config.serviceFee.processing.local;
-  const processingPart = computeFeeComponentInKobo(subtotalKobo, processingSource);
+  const processingPart = computeFeeComponentInMinorUnits(
+    subtotalMinor,
+    processingSource,
+    currency
+  );
 
   const modePrefix = paystackMode === "INTERNATIONAL" ? "INTERNATIONAL" : "LOCAL";
   const processingMode = `${modePrefix}_${quoteMode}` as ProcessingFeeMode;
 
   return {
-    total: fromKobo(stayzaPart.totalKobo + processingPart.totalKobo),
-    stayza: fromKobo(stayzaPart.totalKobo),
-    processing: fromKobo(processingPart.totalKobo),
+    total: fromMinorUnits(
+      stayzaPart.totalMinor + processingPart.totalMinor,
+      currency
+    ),
+    stayza: fromMinorUnits(stayzaPart.totalMinor, currency),
+    processing: fromMinorUnits(processingPart.totalMinor, currency),
     processingMode,
     stayzaCapApplied: stayzaPart.capApplied,
     processingCapApplied: processingPart.capApplied,
   };
 };
 
+/**
+ * Whole days between the quote date and check-in, both taken as UTC dates.
+ */
+export const computeLeadTimeDays = (
+  checkInDate: Date | string,
+  quotedAt: Date = new Date()
+): number =>
+  Math.round(
+    (toUtcDateStart(checkInDate).getTime() - toUtcDateStart(quotedAt).getTime()) /
+      DAY_MS
+  );
+
+/**
+ * Returns a guest-facing reason when the stay length breaks the realtor's
+ * minimum/maximum night rules, otherwise null.
+ */
+export const getStayLengthViolation = (
+  rules: PricingRules | null | undefined,
+  nights: number
+): string | null => {
+  const minNights = positiveOrNull(rules?.minNights);
+  const maxNights = positiveOrNull(rules?.maxNights);
+
+  if (minNights && nights < minNights) {
+    return `This property requires a minimum stay of ${minNights} night${
+      minNights === 1 ? "" : "s"
+    }`;
+  }
+
+  if (maxNights && nights > maxNights) {
+    return `This property allows a maximum stay of ${maxNights} night${
+      maxNights === 1 ? "" : "s"
+    }`;
+  }
+
+  return null;
+};
+
+const resolveNightlyBaseRate = (
+  dateKey: string | null,
+  dayOfWeek: number | null,
+  pricePerNight: number,
+  rules: PricingRules | null,
+  currency: SettlementCurrency
+): Pick<NightlyPriceLine, "rateSource" | "seasonName" | "baseRate"> => {
+  const weekendNights = rules?.weekendNights?.length
+    ? rules.weekendNights
+    : DEFAULT_WEEKEND_NIGHTS;
+  const weekendPrice = positiveOrNull(rules?.weekendPrice);
+  const isWeekend =
+    dayOfWeek !== null && weekendPrice !== null && weekendNights.includes(dayOfWeek);
+
+  const standardRate = isWeekend
+    ? (weekendPrice as number)
+    : positiveOrNull(rules?.weekdayPrice) ?? pricePerNight;
+
+  // First matching season wins
+  const season = dateKey
+    ? (rules?.seasonalRates || []).find(
+        (item) => dateKey >= item.startDate && dateKey <= item.endDate
+      )
+    : undefined;
+
+  if (season) {
+    const seasonPrice = positiveOrNull(season.pricePerNight);
+    const baseRate =
+      seasonPrice ??
+      Math.max(0, standardRate * (1 + toNumber(season.adjustmentRate, 0)));
+    return {
+      rateSource: "SEASONAL",
+      seasonName: season.name,
+      baseRate: fromMinorUnits(toMinorUnits(baseRate, currency), currency),
+    };
+  }
+
+  return {
+    rateSource: isWeekend ? "WEEKEND" : "BASE",
+    baseRate: fromMinorUnits(toMinorUnits(standardRate, currency), currency),
+  };
+};
+
+const resolveStayAdjustments = (
+  nights: number,
+  leadTimeDays: number | null,
+  rules: PricingRules | null
+): Array<{ type: NightlyAdjustmentType; rate: number }> => {
+  const adjustments: Array<{ type: NightlyAdjustmentType; rate: number }> = [];
+  if (!rules) {
+    return adjustments;
+  }
+
+  const monthlyDiscount = positiveOrNull(rules.monthlyDiscountRate);
+  const weeklyDiscount = positiveOrNull(rules.weeklyDiscountRate);
+  if (monthlyDiscount && nights >= MONTHLY_STAY_NIGHTS) {
+    adjustments.push({ type: "MONTHLY_DISCOUNT", rate: -monthlyDiscount });
+  } else if (weeklyDiscount && nights >= WEEKLY_STAY_NIGHTS) {
+    adjustments.push({ type: "WEEKLY_DISCOUNT", rate: -weeklyDiscount });
+  }
+
+  if (leadTimeDays !== null) {
+    if (rules.lastMinute && leadTimeDays <= rules.lastMinute.days) {
+      adjustments.push({
+        type: "LAST_MINUTE",
+        rate: toNumber(rules.lastMinute.adjustmentRate, 0),
+      });
+    }
+    if (rules.earlyBird && leadTimeDays >= rules.earlyBird.days) {
+      adjustments.push({
+        type: "EARLY_BIRD",
+        rate: toNumber(rules.earlyBird.adjustmentRate, 0),
+      });
+    }
+  }
+
+  return adjustments.filter((adjustment) => adjustment.rate !== 0);
+};
+
+/**
+ * Prices every night of a stay. Without a check-in date all nights fall
+ * back to the flat base rate, as before pricing rules existed.
+ */
+export const buildNightlyBreakdown = (params: {
+  pricePerNight: number;
+  numberOfNights: number;
+  checkInDate?: Date | string;
+  pricingRules?: PricingRules | null;
+  quotedAt?: Date;
+  currency?: SettlementCurrency;
+}): { lines: NightlyPriceLine[]; leadTimeDays: number | null } => {
+  const currency = params.currency || DEFAULT_CURRENCY;
+  const nights = Math.max(1, Math.floor(toNumber(params.numberOfNights, 1)));
+  const pricePerNight = Math.max(0, toNumber(params.pricePerNight, 0));
+  const rules = params.pricingRules || null;
+  const checkIn =
+    params.checkInDate !== undefined ? toUtcDateStart(params.checkInDate) : null;
+  const hasValidCheckIn = checkIn !== null && !Number.isNaN(checkIn.getTime());
+  const leadTimeDays = hasValidCheckIn
+    ? computeLeadTimeDays(checkIn as Date, params.quotedAt)
+    : null;
+  const stayAdjustments = resolveStayAdjustments(nights, leadTimeDays, rules);
+
+  const lines: NightlyPriceLine[] = [];
+  for (let index = 0; index < nights; index++) {
+    const night = hasValidCheckIn
+      ? new Date((checkIn as Date).getTime() + index * DAY_MS)
+      : null;
+    const dateKey = night ? night.toISOString().slice(0, 10) : null;
+    const base = resolveNightlyBaseRate(
+      dateKey,
+      night ? night.getUTCDay() : null,
+      pricePerNight,
+      rules,
+      currency
+    );
+
+    let priceMinor = toMinorUnits(base.baseRate, currency);
+    const adjustments = stayAdjustments.map((adjustment) => {
+      const adjustedMinor = Math.max(
+        0,
+        Math.round(priceMinor * (1 + adjustment.rate))
+      );
+      const amount = fromMinorUnits(adjustedMinor - priceMinor, currency);
+      priceMinor = adjustedMinor;
+      return { ...adjustment, amount };
+    });
+
+    lines.push({
+      date: dateKey,
+      ...base,
+      adjustments,
+      price: fromMinorUnits(priceMinor, currency),
+    });
+  }
+
+  return { lines, leadTimeDays };
+};
+
 export const quoteBooking = (
   params: QuoteBookingParams,
   config: FinanceConfig
 ): BookingQuoteResult => {
   const nights = Math.max(1, Math.floor(toNumber(params.numberOfNights, 1)));
   const pricePerNight = Math.max(0, toNumber(params.pricePerNight, 0));
-  const roomFee = Number((pricePerNight * nights).toFixed(2));
+  const quotedAt = params.quotedAt || new Date();
+  const { lines: nightlyBreakdown, leadTimeDays } = buildNightlyBreakdown({
+    pricePerNight,
+    numberOfNights: nights,
+    checkInDate: params.checkInDate,
+    pricingRules: params.pricingRules,
+    quotedAt,
+    currency: config.currency,
+  });
+  const roomFee = fromMinorUnits(
+    nightlyBreakdown.reduce(
+      (sum, line) => sum + toMinorUnits(line.price, config.currency),
+      0
+    ),
+    config.currency
+  );
   const cleaningFee = Number(
     Math.max(0, toNumber(params.cleaningFee, 0)).toFixed(2)
   );
@@ -254,6 +553,13 @@ export const quoteBooking = (
     estimatedNetPayout,
     monthlyVolumeProgress: buildMonthlyVolumeProgress(monthlyVolume, config),
     nights,
+    nightlyBreakdown,
+    pricingRulesSnapshot: {
+      basePricePerNight: pricePerNight,
+      rules: params.pricingRules || null,
+      leadTimeDays,
+      quotedAt: quotedAt.toISOString(),
+    },
   };
 };
 
@@ -278,31 +584,71 @@ export const computeWithdrawalFee = (
 
 export const computeCommissionReversal = (
   refundedRoomFee: number,
-  effectiveRate: number
+  effectiveRate: number,
+  currency: SettlementCurrency = DEFAULT_CURRENCY
 ): number => {
-  const refundedKobo = toKobo(Math.max(0, toNumber(refundedRoomFee, 0)));
+  const refundedMinor = toMinorUnits(
+    Math.max(0, toNumber(refundedRoomFee, 0)),
+    currency
+  );
   const rate = clamp(toNumber(effectiveRate, 0), 0, 1);
-  return fromKobo(Math.round(refundedKobo * rate));
+  return fromMinorUnits(Math.round(refundedMinor * rate), currency);
 };
 
-export const getCurrentLagosMonthBounds = (
-  referenceDate = new Date()
-): { start: Date; end: Date } => {
-  const parts = new Intl.DateTimeFormat("en-CA", {
-    timeZone: "Africa/Lagos",
-    year: "numeric",
-    month: "2-digit",
-  }).formatToParts(referenceDate);
-
-  const year = Number(parts.find((part) => part.type === "year")?.value);
-  const month = Number(parts.find((part) => part.type === "month")?.value);
-  const lagosOffsetMs = 60 * 60 * 1000; // Africa/Lagos = UTC+1 (no DST)
-
-  const startUtc = new Date(Date.UTC(year, month - 1, 1) - lagosOffsetMs);
-  const endUtc = new Date(Date.UTC(year, month, 1) - lagosOffsetMs);
+/**
+ * Money movement for a date change. A higher room fee is charged with the
+ * service fee on the difference; of a lower one the guest gets back
+ * `refundRate` (the booking's cancellation terms, all of it by default) and
+ * the rest is retained, while service fees already collected stay
+ * non-refundable. Commission keeps the booking's original effective rate.
+ */
+export const computeModificationAdjustment = (
+  params: {
+    currentRoomFee: number;
+    newRoomFee: number;
+    effectiveRate: number;
+    refundRate?: number;
+    paystackMode?: PaystackMode;
+  },
+  config: FinanceConfig
+): ModificationAdjustment => {
+  const { currency } = config;
+  const currentMinor = toMinorUnits(
+    Math.max(0, toNumber(params.currentRoomFee, 0)),
+    currency
+  );
+  const newMinor = toMinorUnits(
+    Math.max(0, toNumber(params.newRoomFee, 0)),
+    currency
+  );
+  const differenceMinor = newMinor - currentMinor;
+  const rate = clamp(toNumber(params.effectiveRate, 0), 0, 1);
+  const refundRate = clamp(toNumber(params.refundRate ?? 1, 1), 0, 1);
+  const removedMinor = Math.max(0, -differenceMinor);
+  const refundMinor = Math.round(removedMinor * refundRate);
+  const additionalServiceFee =
+    differenceMinor > 0
+      ? computeGuestServiceFee(
+          fromMinorUnits(differenceMinor, currency),
+          params.paystackMode || "LOCAL",
+          config,
+          "QUOTED"
+        )
+      : null;
 
   return {
-    start: startUtc,
-    end: endUtc,
+    roomFeeDifference: fromMinorUnits(differenceMinor, currency),
+    additionalServiceFee,
+    platformFee: fromMinorUnits(Math.round(newMinor * rate), currency),
+    amountDue:
+      differenceMinor > 0
+        ? fromMinorUnits(
+            differenceMinor +
+              toMinorUnits(additionalServiceFee?.total || 0, currency),
+            currency
+          )
+        : 0,
+    refundAmount: fromMinorUnits(refundMinor, currency),
+    retainedRoomFee: fromMinorUnits(removedMinor - refundMinor, currency),
   };
 };
@@ -0,0 +1,243 @@
+import { Prisma } from "@prisma/client";
+import { AppError } from "@/middleware/errorHandler";
+import {
+  DEFAULT_WEEKEND_NIGHTS,
+  LeadTimeAdjustment,
+  PricingRules,
+  SeasonalRate,
+} from "@/services/pricingEngine";
+
+export const MAX_SEASONAL_RATES = 24;
+const MAX_SEASON_NAME_LENGTH = 80;
+const MAX_STAY_NIGHTS = 365;
+// Surcharges are capped so a typo cannot multiply a price tenfold
+const MAX_SURCHARGE_RATE = 3;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isBlank = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+const parseOptionalPrice = (value: unknown, field: string): number | null => {
+  if (isBlank(value)) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new AppError(`${field} must be a positive amount`, 400);
+  }
+
+  return Number(parsed.toFixed(2));
+};
+
+const parseDiscountRate = (value: unknown, field: string): number | null => {
+  if (isBlank(value)) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed >= 1) {
+    throw new AppError(`${field} must be between 0 and 1`, 400);
+  }
+
+  return parsed === 0 ? null : parsed;
+};
+
+const parseAdjustmentRate = (value: unknown, field: string): number => {
+  const parsed = Number(value);
+  if (
+    isBlank(value) ||
+    !Number.isFinite(parsed) ||
+    parsed <= -1 ||
+    parsed > MAX_SURCHARGE_RATE
+  ) {
+    throw new AppError(
+      `${field} must be greater than -1 and at most ${MAX_SURCHARGE_RATE}`,
+      400,
+    );
+  }
+
+  return parsed;
+};
+
+const parseNightCount = (value: unknown, field: string): number | null => {
+  if (isBlank(value)) {
+    return null;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_STAY_NIGHTS) {
+    throw new AppError(
+      `${field} must be a whole number between 1 and ${MAX_STAY_NIGHTS}`,
+      400,
+    );
+  }
+
+  return parsed;
+};
+
+const parseDateKey = (value: unknown, field: string): string => {
+  const text = typeof value === "string" ? value.trim().slice(0, 10) : "";
+  if (
+    !DATE_KEY_PATTERN.test(text) ||
+    Number.isNaN(new Date(`${text}T00:00:00Z`).getTime())
+  ) {
+    throw new AppError(`${field} must be a YYYY-MM-DD date`, 400);
+  }
+  return text;
+};
+
+const parseLeadTimeAdjustment = (
+  value: unknown,
+  field: string,
+): LeadTimeAdjustment | null => {
+  if (isBlank(value)) {
+    return null;
+  }
+  if (!isRecord(value)) {
+    throw new AppError(`${field} must be an object`, 400);
+  }
+
+  const days = Number(value.days);
+  if (!Number.isInteger(days) || days < 0 || days > MAX_STAY_NIGHTS) {
+    throw new AppError(
+      `${field}.days must be a whole number between 0 and ${MAX_STAY_NIGHTS}`,
+      400,
+    );
+  }
+
+  return {
+    days,
+    adjustmentRate: parseAdjustmentRate(
+      value.adjustmentRate,
+      `${field}.adjustmentRate`,
+    ),
+  };
+};
+
+const parseSeasonalRates = (value: unknown): SeasonalRate[] => {
+  if (isBlank(value)) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new AppError("seasonalRates must be a list", 400);
+  }
+  if (value.length > MAX_SEASONAL_RATES) {
+    throw new AppError(
+      `A property can have at most ${MAX_SEASONAL_RATES} seasonal rates`,
+      400,
+    );
+  }
+
+  return value.map((item, index) => {
+    const field = `seasonalRates[${index}]`;
+    if (!isRecord(item)) {
+      throw new AppError(`${field} must be an object`, 400);
+    }
+
+    const name = typeof item.name === "string" ? item.name.trim() : "";
+    if (!name || name.length > MAX_SEASON_NAME_LENGTH) {
+      throw new AppError(
+        `${field}.name is required (max ${MAX_SEASON_NAME_LENGTH} characters)`,
+        400,
+      );
+    }
+
+    const startDate = parseDateKey(item.startDate, `${field}.startDate`);
+    const endDate = parseDateKey(item.endDate, `${field}.endDate`);
+    if (endDate < startDate) {
+      throw new AppError(`${field}.endDate must not be before startDate`, 400);
+    }
+
+    const pricePerNight = parseOptionalPrice(
+      item.pricePerNight,
+      `${field}.pricePerNight`,
+    );
+    const adjustmentRate = isBlank(item.adjustmentRate)
+      ? null
+      : parseAdjustmentRate(item.adjustmentRate, `${field}.adjustmentRate`);
+
+    if (pricePerNight === null && adjustmentRate === null) {
+      throw new AppError(
+        `${field} needs either pricePerNight or adjustmentRate`,
+        400,
+      );
+    }
+
+    return { name, startDate, endDate, pricePerNight, adjustmentRate };
+  });
+};
+
+const parseWeekendNights = (value: unknown): number[] => {
+  if (isBlank(value)) {
+    return DEFAULT_WEEKEND_NIGHTS;
+  }
+
+  if (
+    !Array.isArray(value) ||
+    value.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+  ) {
+    throw new AppError(
+      "weekendNights must list days of the week from 0 (Sunday) to 6",
+      400,
+    );
+  }
+
+  return Array.from(new Set(value as number[])).sort();
+};
+
+/**
+ * Validates a realtor's pricing rules payload. Empty values switch a rule
+ * off; the returned object only contains normalized fields.
+ */
+export const parsePricingRulesInput = (body: unknown): PricingRules => {
+  if (!isRecord(body)) {
+    throw new AppError("Pricing rules must be an object", 400);
+  }
+
+  const rules: PricingRules = {
+    weekdayPrice: parseOptionalPrice(body.weekdayPrice, "weekdayPrice"),
+    weekendPrice: parseOptionalPrice(body.weekendPrice, "weekendPrice"),
+    weekendNights: parseWeekendNights(body.weekendNights),
+    seasonalRates: parseSeasonalRates(body.seasonalRates),
+    weeklyDiscountRate: parseDiscountRate(
+      body.weeklyDiscountRate,
+      "weeklyDiscountRate",
+    ),
+    monthlyDiscountRate: parseDiscountRate(
+      body.monthlyDiscountRate,
+      "monthlyDiscountRate",
+    ),
+    lastMinute: parseLeadTimeAdjustment(body.lastMinute, "lastMinute"),
+    earlyBird: parseLeadTimeAdjustment(body.earlyBird, "earlyBird"),
+    minNights: parseNightCount(body.minNights, "minNights"),
+    maxNights: parseNightCount(body.maxNights, "maxNights"),
+  };
+
+  if (rules.minNights && rules.maxNights && rules.minNights > rules.maxNights) {
+    throw new AppError("minNights cannot be greater than maxNights", 400);
+  }
+
+  return rules;
+};
+
+/**
+ * Reads rules stored on a property. Stored JSON was validated on write, so
+ * anything unreadable is treated as "no rules" rather than failing a quote.
+ */
+export const readPricingRules = (
+  value: Prisma.JsonValue | null | undefined,
+): PricingRules | null => {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  try {
+    return parsePricingRulesInput(value);
+  } catch {
+    return null;
+  }
+};
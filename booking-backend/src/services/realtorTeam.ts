@@ -0,0 +1,445 @@
+import { createHash, randomBytes } from "crypto";
+import {
+  BookingStatus,
+  Prisma,
+  RealtorTeamRole,
+  SessionRevokeReason,
+  User,
+  UserRole,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { config } from "@/config";
+import { AppError } from "@/middleware/errorHandler";
+import { revokeUserSessions } from "@/services/authSessions";
+import { sendRealtorTeamInviteEmail } from "@/services/email";
+import { hasAdminPermission } from "@/services/adminPermissionRules";
+import {
+  ADMIN_PERMISSION_FOR_REALTOR_ACTION,
+  REALTOR_TEAM_INVITE_TTL_DAYS,
+  REALTOR_TEAM_ROLE_LABELS,
+  RealtorAccess,
+  RealtorTeamPermission,
+  hasRealtorTeamPermission,
+} from "@/services/realtorTeamRules";
+import { hashPassword } from "@/utils/auth";
+import { logger } from "@/utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The realtor account a user works on: the one they own, or the one whose
+ * team they belong to. Null for everyone else.
+ */
+export const resolveRealtorAccess = async (
+  userId: string,
+): Promise<RealtorAccess | null> => {
+  const owned = await prisma.realtor.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+  if (owned) {
+    return { realtorId: owned.id, userId, teamRole: null, memberId: null };
+  }
+
+  const member = await prisma.realtorTeamMember.findUnique({
+    where: { userId },
+    select: { id: true, realtorId: true, role: true },
+  });
+  if (!member) {
+    return null;
+  }
+
+  return {
+    realtorId: member.realtorId,
+    userId,
+    teamRole: member.role,
+    memberId: member.id,
+  };
+};
+
+/**
+ * Replacement for `realtor.userId !== user.id` ownership checks. Admins need
+ * the matching admin permission; anyone else must work for the realtor with
+ * a role that grants the permission. Returns the caller's access (null for
+ * admins).
+ */
+export const assertRealtorPermission = async (
+  user: Pick<User, "id" | "role" | "adminRole">,
+  realtorId: string,
+  permission: RealtorTeamPermission,
+  message = "You do not have access to this realtor account",
+): Promise<RealtorAccess | null> => {
+  if (user.role === UserRole.ADMIN) {
+    if (
+      !hasAdminPermission(user, ADMIN_PERMISSION_FOR_REALTOR_ACTION[permission])
+    ) {
+      throw new AppError("Your admin role does not allow this action", 403);
+    }
+    return null;
+  }
+
+  const access = await resolveRealtorAccess(user.id);
+  if (!access || access.realtorId !== realtorId) {
+    throw new AppError(message, 403);
+  }
+  if (!hasRealtorTeamPermission(access, permission)) {
+    throw new AppError("Your team role does not allow this action", 403);
+  }
+
+  return access;
+};
+
+/**
+ * Whether a user works for the realtor with a role that grants the
+ * permission. For checks that fall back to other roles (the booking's guest,
+ * an admin) rather than failing outright.
+ */
+export const actsForRealtor = async (
+  userId: string,
+  realtorId: string,
+  permission: RealtorTeamPermission,
+): Promise<boolean> => {
+  const access = await resolveRealtorAccess(userId);
+  return (
+    !!access &&
+    access.realtorId === realtorId &&
+    hasRealtorTeamPermission(access, permission)
+  );
+};
+
+const hashInviteToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+const memberSelect = {
+  id: true,
+  role: true,
+  createdAt: true,
+  user: {
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      twoFactorEnabled: true,
+    },
+  },
+} satisfies Prisma.RealtorTeamMemberSelect;
+
+const inviteSelect = {
+  id: true,
+  email: true,
+  role: true,
+  expiresAt: true,
+  createdAt: true,
+  invitedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.RealtorTeamInviteSelect;
+
+const pendingInviteWhere = (now: Date): Prisma.RealtorTeamInviteWhereInput => ({
+  acceptedAt: null,
+  revokedAt: null,
+  expiresAt: { gt: now },
+});
+
+export const listRealtorTeam = async (
+  realtorId: string,
+  now: Date = new Date(),
+) => {
+  const [realtor, members, invites] = await Promise.all([
+    prisma.realtor.findUniqueOrThrow({
+      where: { id: realtorId },
+      select: {
+        user: {
+          select: { id: true, email: true, firstName: true, lastName: true },
+        },
+      },
+    }),
+    prisma.realtorTeamMember.findMany({
+      where: { realtorId },
+      select: memberSelect,
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.realtorTeamInvite.findMany({
+      where: { realtorId, ...pendingInviteWhere(now) },
+      select: inviteSelect,
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  return { owner: realtor.user, members, invites };
+};
+
+/**
+ * Invite someone to a realtor's team. A new invite for the same email
+ * replaces any that are still pending for this realtor.
+ */
+export const createRealtorTeamInvite = async (params: {
+  realtorId: string;
+  email: string;
+  role: RealtorTeamRole;
+  invitedBy: { id: string; firstName: string; lastName: string };
+  now?: Date;
+}) => {
+  const now = params.now ?? new Date();
+  const email = params.email.trim().toLowerCase();
+
+  const existingUser = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: "insensitive" } },
+    select: { id: true },
+  });
+  if (existingUser) {
+    throw new AppError("An account with this email already exists", 409);
+  }
+
+  const realtor = await prisma.realtor.findUniqueOrThrow({
+    where: { id: params.realtorId },
+    select: { businessName: true },
+  });
+
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(
+    now.getTime() + REALTOR_TEAM_INVITE_TTL_DAYS * DAY_MS,
+  );
+
+  const invite = await prisma.$transaction(async (tx) => {
+    await tx.realtorTeamInvite.updateMany({
+      where: { realtorId: params.realtorId, email, ...pendingInviteWhere(now) },
+      data: { revokedAt: now },
+    });
+
+    return tx.realtorTeamInvite.create({
+      data: {
+        realtorId: params.realtorId,
+        email,
+        role: params.role,
+        tokenHash: hashInviteToken(token),
+        invitedById: params.invitedBy.id,
+        expiresAt,
+      },
+      select: inviteSelect,
+    });
+  });
+
+  try {
+    await sendRealtorTeamInviteEmail({
+      to: email,
+      inviterName:
+        `${params.invitedBy.firstName} ${params.invitedBy.lastName}`.trim(),
+      businessName: realtor.businessName,
+      roleLabel: REALTOR_TEAM_ROLE_LABELS[params.role],
+      inviteUrl: `${config.FRONTEND_URL}/realtor/team-invite?token=${token}`,
+      expiresAt,
+    });
+  } catch (error) {
+    logger.error("Failed to send realtor team invite email", {
+      inviteId: invite.id,
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+
+  return invite;
+};
+
+export const revokeRealtorTeamInvite = async (
+  realtorId: string,
+  inviteId: string,
+  now: Date = new Date(),
+) => {
+  const revoked = await prisma.realtorTeamInvite.updateMany({
+    where: { id: inviteId, realtorId, acceptedAt: null, revokedAt: null },
+    data: { revokedAt: now },
+  });
+  if (revoked.count === 0) {
+    throw new AppError("Invite not found or no longer pending", 404);
+  }
+
+  return prisma.realtorTeamInvite.findUniqueOrThrow({
+    where: { id: inviteId },
+    select: inviteSelect,
+  });
+};
+
+const loadPendingInvite = async (token: string, now: Date) => {
+  const invite = await prisma.realtorTeamInvite.findUnique({
+    where: { tokenHash: hashInviteToken(token) },
+    include: { realtor: { select: { businessName: true } } },
+  });
+  if (!invite || invite.revokedAt) {
+    throw new AppError("This invitation is not valid", 404);
+  }
+  if (invite.acceptedAt) {
+    throw new AppError("This invitation has already been used", 410);
+  }
+  if (invite.expiresAt <= now) {
+    throw new AppError("This invitation has expired", 410);
+  }
+  return invite;
+};
+
+export const getRealtorTeamInvite = async (
+  token: string,
+  now: Date = new Date(),
+) => {
+  const invite = await loadPendingInvite(token, now);
+  return {
+    email: invite.email,
+    role: invite.role,
+    roleLabel: REALTOR_TEAM_ROLE_LABELS[invite.role],
+    businessName: invite.realtor.businessName,
+    expiresAt: invite.expiresAt,
+  };
+};
+
+/**
+ * Create the team member's own login for an invite. The invite is claimed
+ * in the same transaction so a token can only ever create one account.
+ */
+export const acceptRealtorTeamInvite = async (params: {
+  token: string;
+  firstName: string;
+  lastName: string;
+  password: string;
+  now?: Date;
+}) => {
+  const now = params.now ?? new Date();
+  const invite = await loadPendingInvite(params.token, now);
+  const password = await hashPassword(params.password);
+
+  return prisma.$transaction(async (tx) => {
+    const existingUser = await tx.user.findFirst({
+      where: { email: { equals: invite.email, mode: "insensitive" } },
+      select: { id: true },
+    });
+    if (existingUser) {
+      throw new AppError("An account with this email already exists", 409);
+    }
+
+    const user = await tx.user.create({
+      data: {
+        email: invite.email,
+        password,
+        firstName: params.firstName,
+        lastName: params.lastName,
+        fullName: `${params.firstName} ${params.lastName}`.trim(),
+        role: UserRole.REALTOR,
+        isEmailVerified: true,
+      },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        role: true,
+      },
+    });
+
+    const claimed = await tx.realtorTeamInvite.updateMany({
+      where: { id: invite.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: now, acceptedById: user.id },
+    });
+    if (claimed.count === 0) {
+      throw new AppError("This invitation has already been used", 410);
+    }
+
+    const member = await tx.realtorTeamMember.create({
+      data: {
+        realtorId: invite.realtorId,
+        userId: user.id,
+        role: invite.role,
+        addedById: invite.invitedById,
+      },
+      select: { id: true, role: true },
+    });
+
+    return {
+      user,
+      member,
+      realtorId: invite.realtorId,
+      inviteId: invite.id,
+      invitedById: invite.invitedById,
+    };
+  });
+};
+
+const loadMember = async (realtorId: string, memberId: string) => {
+  const member = await prisma.realtorTeamMember.findFirst({
+    where: { id: memberId, realtorId },
+    select: { id: true, userId: true, role: true },
+  });
+  if (!member) {
+    throw new AppError("Team member not found", 404);
+  }
+  return member;
+};
+
+export const updateRealtorTeamMemberRole = async (
+  realtorId: string,
+  memberId: string,
+  role: RealtorTeamRole,
+) => {
+  const existing = await loadMember(realtorId, memberId);
+  const member = await prisma.realtorTeamMember.update({
+    where: { id: existing.id },
+    data: { role },
+    select: memberSelect,
+  });
+
+  return { member, previousRole: existing.role };
+};
+
+/**
+ * Take a member off the team. Their login stays but drops back to a guest
+ * account, and every signed-in session is ended so access stops right away.
+ */
+export const removeRealtorTeamMember = async (
+  realtorId: string,
+  memberId: string,
+) => {
+  const existing = await loadMember(realtorId, memberId);
+
+  const member = await prisma.$transaction(async (tx) => {
+    const removed = await tx.realtorTeamMember.delete({
+      where: { id: existing.id },
+      select: memberSelect,
+    });
+    await tx.user.update({
+      where: { id: existing.userId },
+      data: { role: UserRole.GUEST },
+    });
+    return removed;
+  });
+
+  await revokeUserSessions(
+    existing.userId,
+    SessionRevokeReason.TEAM_ACCESS_REMOVED,
+  );
+
+  return member;
+};
+
+/**
+ * Upcoming stays across the realtor's properties, without guest contact or
+ * price details, for staff who only need to know when units turn over.
+ */
+export const getRealtorTeamSchedule = async (
+  realtorId: string,
+  range: { from: Date; to: Date },
+) =>
+  prisma.booking.findMany({
+    where: {
+      property: { realtorId },
+      status: { in: [BookingStatus.ACTIVE, BookingStatus.DISPUTED] },
+      checkOutDate: { gte: range.from },
+      checkInDate: { lte: range.to },
+    },
+    select: {
+      id: true,
+      checkInDate: true,
+      checkOutDate: true,
+      totalGuests: true,
+      stayStatus: true,
+      property: {
+        select: { id: true, title: true, address: true, city: true },
+      },
+    },
+    orderBy: { checkInDate: "asc" },
+  });
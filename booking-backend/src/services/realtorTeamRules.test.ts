@@ -0,0 +1,83 @@
+import { AdminRole, RealtorTeamRole, UserRole } from "@prisma/client";
+import { hasAdminPermission } from "./adminPermissionRules";
+import {
+  ADMIN_PERMISSION_FOR_REALTOR_ACTION,
+  REALTOR_TEAM_PERMISSIONS,
+  getRealtorTeamPermissions,
+  hasRealtorTeamPermission,
+  isRealtorTeamRole,
+  realtorAccessWhere,
+} from "./realtorTeamRules";
+
+describe("realtorTeamRules", () => {
+  it("gives the realtor's own login every permission", () => {
+    expect(getRealtorTeamPermissions(null)).toEqual(REALTOR_TEAM_PERMISSIONS);
+    expect(hasRealtorTeamPermission({ teamRole: null }, "team.manage")).toBe(
+      true
+    );
+  });
+
+  it("keeps payout accounts and the team with the owner", () => {
+    const permissions = getRealtorTeamPermissions(RealtorTeamRole.MANAGER);
+
+    expect(permissions).toContain("bookings.manage");
+    expect(permissions).toContain("payouts.manage");
+    expect(permissions).not.toContain("payouts.account");
+    expect(permissions).not.toContain("team.manage");
+  });
+
+  it("limits front desk staff to check-ins and messages", () => {
+    const frontDesk = { teamRole: RealtorTeamRole.FRONT_DESK };
+
+    expect(hasRealtorTeamPermission(frontDesk, "checkins.manage")).toBe(true);
+    expect(hasRealtorTeamPermission(frontDesk, "messages.manage")).toBe(true);
+    expect(hasRealtorTeamPermission(frontDesk, "finance.read")).toBe(false);
+    expect(hasRealtorTeamPermission(frontDesk, "bookings.manage")).toBe(false);
+  });
+
+  it("gives finance staff payouts and statements but not guest messages", () => {
+    const finance = { teamRole: RealtorTeamRole.FINANCE };
+
+    expect(hasRealtorTeamPermission(finance, "finance.read")).toBe(true);
+    expect(hasRealtorTeamPermission(finance, "payouts.manage")).toBe(true);
+    expect(hasRealtorTeamPermission(finance, "messages.manage")).toBe(false);
+  });
+
+  it("lets cleaners read the schedule and nothing else", () => {
+    expect(getRealtorTeamPermissions(RealtorTeamRole.CLEANER)).toEqual([
+      "schedule.read",
+    ]);
+  });
+
+  it("matches the owned realtor or the one the user works for", () => {
+    expect(realtorAccessWhere("user-1")).toEqual({
+      OR: [
+        { userId: "user-1" },
+        { teamMembers: { some: { userId: "user-1" } } },
+      ],
+    });
+    expect(isRealtorTeamRole("CLEANER")).toBe(true);
+    expect(isRealtorTeamRole("OWNER")).toBe(false);
+  });
+
+  it("needs an admin permission for admins acting on a realtor account", () => {
+    const admin = (adminRole: AdminRole) => ({
+      role: UserRole.ADMIN,
+      adminRole,
+    });
+    const canDo = (
+      adminRole: AdminRole,
+      permission: keyof typeof ADMIN_PERMISSION_FOR_REALTOR_ACTION
+    ) =>
+      hasAdminPermission(
+        admin(adminRole),
+        ADMIN_PERMISSION_FOR_REALTOR_ACTION[permission]
+      );
+
+    expect(canDo(AdminRole.SUPER_ADMIN, "properties.manage")).toBe(true);
+    expect(canDo(AdminRole.TRUST_AND_SAFETY, "properties.manage")).toBe(true);
+    expect(canDo(AdminRole.ANALYST, "properties.manage")).toBe(false);
+    expect(canDo(AdminRole.SUPPORT, "properties.manage")).toBe(false);
+    expect(canDo(AdminRole.ANALYST, "properties.read")).toBe(true);
+  });
+});
@@ -0,0 +1,123 @@
+import { Prisma, RealtorTeamRole } from "@prisma/client";
+import type { AdminPermission } from "@/services/adminPermissionRules";
+
+/**
+ * Everything a realtor team member can be allowed to do. The realtor's own
+ * login (the owner) always holds all of them.
+ */
+export const REALTOR_TEAM_PERMISSIONS = [
+  "properties.read",
+  "properties.manage",
+  "bookings.read",
+  "bookings.manage",
+  "checkins.manage",
+  "schedule.read",
+  "messages.manage",
+  "reviews.manage",
+  "refunds.manage",
+  "disputes.manage",
+  "analytics.read",
+  "finance.read",
+  "payouts.manage",
+  "payouts.account",
+  "profile.manage",
+  "team.manage",
+] as const;
+
+export type RealtorTeamPermission = (typeof REALTOR_TEAM_PERMISSIONS)[number];
+
+export const REALTOR_TEAM_ROLE_PERMISSIONS: Record<
+  RealtorTeamRole,
+  readonly RealtorTeamPermission[]
+> = {
+  // Payout bank details and the team itself stay with the owner
+  [RealtorTeamRole.MANAGER]: REALTOR_TEAM_PERMISSIONS.filter(
+    (permission) =>
+      permission !== "payouts.account" && permission !== "team.manage",
+  ),
+  [RealtorTeamRole.FRONT_DESK]: [
+    "properties.read",
+    "bookings.read",
+    "checkins.manage",
+    "schedule.read",
+    "messages.manage",
+  ],
+  [RealtorTeamRole.FINANCE]: [
+    "properties.read",
+    "bookings.read",
+    "refunds.manage",
+    "analytics.read",
+    "finance.read",
+    "payouts.manage",
+  ],
+  [RealtorTeamRole.CLEANER]: ["schedule.read"],
+};
+
+/**
+ * Admin permission needed to do the same thing on any realtor's account.
+ * Admins never pass on their user role alone.
+ */
+export const ADMIN_PERMISSION_FOR_REALTOR_ACTION: Record<
+  RealtorTeamPermission,
+  AdminPermission
+> = {
+  "properties.read": "realtors.read",
+  "properties.manage": "realtors.manage",
+  "bookings.read": "bookings.read",
+  "bookings.manage": "bookings.manage",
+  "checkins.manage": "bookings.manage",
+  "schedule.read": "bookings.read",
+  "messages.manage": "support.manage",
+  "reviews.manage": "reviews.moderate",
+  "refunds.manage": "refunds.manage",
+  "disputes.manage": "disputes.resolve",
+  "analytics.read": "analytics.read",
+  "finance.read": "ledger.read",
+  "payouts.manage": "payouts.manage",
+  "payouts.account": "payouts.manage",
+  "profile.manage": "realtors.manage",
+  "team.manage": "realtors.manage",
+};
+
+export const REALTOR_TEAM_ROLE_LABELS: Record<RealtorTeamRole, string> = {
+  [RealtorTeamRole.MANAGER]: "Manager",
+  [RealtorTeamRole.FRONT_DESK]: "Front desk",
+  [RealtorTeamRole.FINANCE]: "Finance",
+  [RealtorTeamRole.CLEANER]: "Cleaner",
+};
+
+export const REALTOR_TEAM_INVITE_TTL_DAYS = 7;
+
+/**
+ * Who is acting for a realtor account. teamRole is null for the owner.
+ */
+export interface RealtorAccess {
+  realtorId: string;
+  userId: string;
+  teamRole: RealtorTeamRole | null;
+  memberId: string | null;
+}
+
+export const isRealtorTeamRole = (value: unknown): value is RealtorTeamRole =>
+  typeof value === "string" &&
+  (Object.values(RealtorTeamRole) as string[]).includes(value);
+
+export const getRealtorTeamPermissions = (
+  teamRole: RealtorTeamRole | null,
+): readonly RealtorTeamPermission[] =>
+  teamRole ? REALTOR_TEAM_ROLE_PERMISSIONS[teamRole] : REALTOR_TEAM_PERMISSIONS;
+
+export const hasRealtorTeamPermission = (
+  access: Pick<RealtorAccess, "teamRole">,
+  permission: RealtorTeamPermission,
+): boolean => getRealtorTeamPermissions(access.teamRole).includes(permission);
+
+/**
+ * Matches the realtor a user owns or works for. Use it wherever a query used
+ * to filter on `realtor: { userId }`.
+ */
+export const realtorAccessWhere = (
+  userId: string,
+): Prisma.RealtorWhereInput => ({
+  OR: [{ userId }, { teamMembers: { some: { userId } } }],
+});
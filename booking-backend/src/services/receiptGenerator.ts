@@ -81,6 +81,34 @@ const formatAmount = (amount: number, currency: string): string => {
   }).format(amount);
 };
 
+/**
+ * Groups the quoted nightly prices, e.g. "3 x ₦20,000.00, 2 x ₦25,000.00".
+ */
+const summarizeNightlyRates = (
+  nightlyBreakdown: Prisma.JsonValue | null | undefined,
+  currency: string,
+): string | null => {
+  if (!Array.isArray(nightlyBreakdown) || nightlyBreakdown.length === 0) {
+    return null;
+  }
+
+  const counts = new Map<number, number>();
+  for (const line of nightlyBreakdown) {
+    const price = Number((line as { price?: unknown })?.price);
+    if (Number.isFinite(price)) {
+      counts.set(price, (counts.get(price) || 0) + 1);
+    }
+  }
+
+  if (counts.size < 2) {
+    return null;
+  }
+
+  return Array.from(counts.entries())
+    .map(([price, count]) => `${count} x ${formatAmount(price, currency)}`)
+    .join(", ");
+};
+
 const getStatusBadgeStyle = (status: string) => {
   const normalized = status.toUpperCase();
   if (["HELD", "PARTIALLY_RELEASED", "SETTLED"].includes(normalized)) {
@@ -136,6 +164,11 @@ export class ReceiptGenerator {
             ),
           );
 
+    const nightlyRates = summarizeNightlyRates(
+      payment.booking.nightlyBreakdown,
+      currency,
+    );
+
     // Brand header block
     doc.save();
     doc.rect(0, 0, pageWidth, 118).fill(BRAND_PRIMARY);
@@ -202,7 +235,13 @@ export class ReceiptGenerator {
     doc
       .fontSize(10)
       .fillColor(TEXT_MUTED)
-      .text(`Stay length: ${nights} night${nights === 1 ? "" : "s"}`, 64, summaryY + 44);
+      .text(
+        `Stay length: ${nights} night${nights === 1 ? "" : "s"}${
+          nightlyRates ? ` (${nightlyRates})` : ""
+        }`,
+        64,
+        summaryY + 44,
+      );
 
     doc.y += 92;
 
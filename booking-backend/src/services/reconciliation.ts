@@ -0,0 +1,659 @@
+import {
+  JournalEntryType,
+  LedgerAccount,
+  Prisma,
+  ReconciliationItem,
+  ReconciliationItemStatus,
+  ReconciliationMismatchType,
+  ReconciliationRunStatus,
+  WalletOwnerType,
+  WalletTransactionSource,
+  WithdrawalRequestStatus,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import { logger } from "@/utils/logger";
+import {
+  listTransactions,
+  listTransfers,
+  verifyTransaction,
+  verifyTransfer,
+} from "@/services/paystack";
+import { finalizeGatewayPayment } from "@/services/paymentFinalization";
+import { normalizePaystackGatewayTransaction } from "@/services/paymentGatewayRules";
+import { postJournalEntry } from "@/services/ledgerService";
+import {
+  PLATFORM_SUBLEDGER_ID,
+  credit,
+  debit,
+  roundMoney,
+} from "@/services/ledgerRules";
+import {
+  creditWallet,
+  debitWallet,
+  getOrCreateWallet,
+} from "@/services/walletService";
+import { sendWithdrawalFailedEmail } from "@/services/email";
+import {
+  ProviderTransaction,
+  ProviderTransfer,
+  ReconciliationFinding,
+  classifyTransactions,
+  classifyTransfers,
+  normalizePaystackTransaction,
+  normalizePaystackTransfer,
+  reconciliationItemsToCsv,
+} from "@/services/reconciliationRules";
+
+/**
+ * Where reconciliation reads provider records from. The default reads
+ * Paystack; pass another source to run against recorded or fake data
+ * locally.
+ */
+export interface ReconciliationSource {
+  listTransactions(from: Date, to: Date): Promise<ProviderTransaction[]>;
+  listTransfers(from: Date, to: Date): Promise<ProviderTransfer[]>;
+  verifyTransaction(reference: string): Promise<{
+    transaction: ProviderTransaction;
+    raw: Record<string, unknown>;
+  }>;
+  verifyTransfer(reference: string): Promise<ProviderTransfer>;
+}
+
+// 50 pages of 100 records is far beyond a day's volume
+const MAX_PROVIDER_PAGES = 50;
+
+const fetchAllPages = async (
+  fetchPage: (page: number) => Promise<{ data: any[]; pageCount: number }>,
+): Promise<any[]> => {
+  const records: any[] = [];
+  for (let page = 1; page <= MAX_PROVIDER_PAGES; page++) {
+    const { data, pageCount } = await fetchPage(page);
+    records.push(...(data || []));
+    if (page >= pageCount || !data?.length) {
+      return records;
+    }
+  }
+  logger.warn("Reconciliation stopped paging at the page limit", {
+    maxPages: MAX_PROVIDER_PAGES,
+  });
+  return records;
+};
+
+export const paystackReconciliationSource: ReconciliationSource = {
+  async listTransactions(from, to) {
+    const records = await fetchAllPages((page) =>
+      listTransactions({ from, to, page }),
+    );
+    return records.map(normalizePaystackTransaction);
+  },
+  async listTransfers(from, to) {
+    const records = await fetchAllPages((page) =>
+      listTransfers({ from, to, page }),
+    );
+    return records.map(normalizePaystackTransfer);
+  },
+  async verifyTransaction(reference) {
+    const raw = await verifyTransaction(reference);
+    return { transaction: normalizePaystackTransaction(raw), raw };
+  },
+  async verifyTransfer(reference) {
+    return normalizePaystackTransfer(await verifyTransfer(reference));
+  },
+};
+
+const getObjectMetadata = (value: unknown): Record<string, unknown> => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+  return value as Record<string, unknown>;
+};
+
+const toNumberOrNull = (value: Prisma.Decimal | null): number | null =>
+  value === null ? null : value.toNumber();
+
+const chargeWebhookEventId = (reference: string) =>
+  `paystack-charge.success-${reference}`;
+
+const loadLocalRecords = async (
+  transactions: ProviderTransaction[],
+  transfers: ProviderTransfer[],
+) => {
+  const transactionReferences = transactions.map((item) => item.reference);
+  const transferReferences = transfers.map((item) => item.reference);
+
+  // An empty `in` or `OR` matches nothing
+  const [payments, withdrawals, webhookEvents] = await Promise.all([
+    prisma.payment.findMany({
+      where: { reference: { in: transactionReferences } },
+      select: {
+        id: true,
+        reference: true,
+        status: true,
+        amount: true,
+        serviceFeeProcessingQuotedAmount: true,
+        serviceFeeProcessingActualAmount: true,
+      },
+    }),
+    prisma.withdrawalRequest.findMany({
+      where: {
+        OR: transferReferences.map((reference) => ({
+          metadata: { path: ["transferReference"], equals: reference },
+        })),
+      },
+      select: { id: true, status: true, netAmount: true, metadata: true },
+    }),
+    prisma.webhookEvent.findMany({
+      where: {
+        eventId: { in: transactionReferences.map(chargeWebhookEventId) },
+      },
+      select: { eventId: true, status: true },
+    }),
+  ]);
+
+  const webhookStatuses = new Map(
+    webhookEvents.map((event) => [
+      event.eventId.slice(chargeWebhookEventId("").length),
+      event.status,
+    ]),
+  );
+
+  return {
+    payments: payments.map((payment) => ({
+      id: payment.id,
+      reference: payment.reference as string,
+      status: payment.status,
+      amount: payment.amount.toNumber(),
+      processingFeeQuoted: toNumberOrNull(
+        payment.serviceFeeProcessingQuotedAmount,
+      ),
+      processingFeeActual: toNumberOrNull(
+        payment.serviceFeeProcessingActualAmount,
+      ),
+    })),
+    withdrawals: withdrawals.map((withdrawal) => ({
+      id: withdrawal.id,
+      transferReference: String(
+        getObjectMetadata(withdrawal.metadata).transferReference,
+      ),
+      status: withdrawal.status,
+      netAmount: withdrawal.netAmount.toNumber(),
+    })),
+    webhookStatuses,
+  };
+};
+
+const toItemData = (
+  runId: string,
+  finding: ReconciliationFinding,
+): Prisma.ReconciliationItemCreateManyInput => ({
+  runId,
+  type: finding.type,
+  reference: finding.reference,
+  paymentId: finding.paymentId,
+  withdrawalRequestId: finding.withdrawalRequestId,
+  providerStatus: finding.providerStatus,
+  localStatus: finding.localStatus,
+  providerAmount:
+    finding.providerAmount === null
+      ? null
+      : new Prisma.Decimal(finding.providerAmount),
+  localAmount:
+    finding.localAmount === null
+      ? null
+      : new Prisma.Decimal(finding.localAmount),
+  remediable: finding.remediable,
+  details: JSON.parse(JSON.stringify(finding.details)),
+});
+
+/**
+ * Pull Paystack transactions and transfers created in the period, match
+ * them against payments, withdrawals and webhook events, and persist the
+ * mismatches as a report.
+ */
+export const runReconciliation = async (
+  params: { from: Date; to: Date; triggeredById?: string | null },
+  source: ReconciliationSource = paystackReconciliationSource,
+) => {
+  const run = await prisma.reconciliationRun.create({
+    data: {
+      periodStart: params.from,
+      periodEnd: params.to,
+      triggeredById: params.triggeredById ?? null,
+    },
+  });
+
+  try {
+    const [transactions, transfers] = await Promise.all([
+      source.listTransactions(params.from, params.to),
+      source.listTransfers(params.from, params.to),
+    ]);
+    const { payments, withdrawals, webhookStatuses } = await loadLocalRecords(
+      transactions,
+      transfers,
+    );
+
+    const findings = [
+      ...classifyTransactions(transactions, payments, webhookStatuses),
+      ...classifyTransfers(transfers, withdrawals),
+    ];
+
+    if (findings.length > 0) {
+      await prisma.reconciliationItem.createMany({
+        data: findings.map((finding) => toItemData(run.id, finding)),
+      });
+    }
+
+    return prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        status: ReconciliationRunStatus.COMPLETED,
+        transactionCount: transactions.length,
+        transferCount: transfers.length,
+        mismatchCount: findings.length,
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    await prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: {
+        status: ReconciliationRunStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+};
+
+export const listReconciliationRuns = async (filters: {
+  page: number;
+  limit: number;
+}) => {
+  const [runs, total] = await Promise.all([
+    prisma.reconciliationRun.findMany({
+      include: {
+        _count: {
+          select: {
+            items: { where: { status: ReconciliationItemStatus.OPEN } },
+          },
+        },
+      },
+      orderBy: { startedAt: "desc" },
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.reconciliationRun.count(),
+  ]);
+
+  return {
+    runs: runs.map(({ _count, ...run }) => ({
+      ...run,
+      openItemCount: _count.items,
+    })),
+    total,
+  };
+};
+
+export const getReconciliationRun = async (
+  runId: string,
+  filters: {
+    status?: ReconciliationItemStatus;
+    type?: ReconciliationMismatchType;
+  } = {},
+) => {
+  const run = await prisma.reconciliationRun.findUnique({
+    where: { id: runId },
+    include: {
+      items: {
+        where: {
+          ...(filters.status ? { status: filters.status } : {}),
+          ...(filters.type ? { type: filters.type } : {}),
+        },
+        orderBy: [{ remediable: "desc" }, { createdAt: "asc" }],
+      },
+    },
+  });
+
+  if (!run) {
+    throw new AppError("Reconciliation run not found", 404);
+  }
+  return run;
+};
+
+export const exportReconciliationRunCsv = async (runId: string) => {
+  const run = await getReconciliationRun(runId);
+
+  return reconciliationItemsToCsv(
+    run.items.map((item) => ({
+      ...item,
+      providerAmount: toNumberOrNull(item.providerAmount),
+      localAmount: toNumberOrNull(item.localAmount),
+    })),
+  );
+};
+
+const remediateUnrecordedPayment = async (
+  item: ReconciliationItem,
+  source: ReconciliationSource,
+): Promise<string> => {
+  const payment = await prisma.payment.findUnique({
+    where: { id: item.paymentId ?? "" },
+    select: { id: true, amount: true },
+  });
+  if (!payment) {
+    throw new AppError("Payment not found", 404);
+  }
+
+  const { transaction, raw } = await source.verifyTransaction(item.reference);
+  if (transaction.status !== "success") {
+    throw new AppError(
+      `Paystack now reports this charge as ${transaction.status}`,
+      409,
+    );
+  }
+  if (
+    roundMoney(transaction.amount) !== roundMoney(payment.amount.toNumber())
+  ) {
+    throw new AppError("Paystack amount does not match the payment", 409);
+  }
+
+  const result = await finalizeGatewayPayment({
+    paymentId: payment.id,
+    source: "RECONCILIATION",
+    transaction: normalizePaystackGatewayTransaction(raw),
+    extraMetadata: { reconciliationItemId: item.id },
+  });
+
+  return result.alreadyFinalized
+    ? "Payment had already been finalized"
+    : "Payment finalized from Paystack verification";
+};
+
+const remediateProcessingFeeDrift = async (
+  item: ReconciliationItem,
+  source: ReconciliationSource,
+): Promise<string> => {
+  const payment = await prisma.payment.findUnique({
+    where: { id: item.paymentId ?? "" },
+    select: {
+      id: true,
+      bookingId: true,
+      reference: true,
+      currency: true,
+      serviceFeeProcessingQuotedAmount: true,
+      serviceFeeProcessingActualAmount: true,
+    },
+  });
+  if (!payment || payment.serviceFeeProcessingActualAmount === null) {
+    throw new AppError("Payment has no recorded processing fee", 404);
+  }
+
+  const { transaction } = await source.verifyTransaction(item.reference);
+  if (transaction.fees === null) {
+    throw new AppError("Paystack did not report a processing fee", 409);
+  }
+
+  const previousFee = payment.serviceFeeProcessingActualAmount.toNumber();
+  const fee = roundMoney(transaction.fees);
+  const delta = roundMoney(fee - previousFee);
+  if (delta === 0) {
+    return "Processing fee already matches Paystack";
+  }
+  const quotedFee = payment.serviceFeeProcessingQuotedAmount?.toNumber() ?? 0;
+
+  await prisma.$transaction(async (tx) => {
+    // Guard on the fee we read so a concurrent correction is not doubled
+    const updated = await tx.payment.updateMany({
+      where: {
+        id: payment.id,
+        serviceFeeProcessingActualAmount:
+          payment.serviceFeeProcessingActualAmount,
+      },
+      data: {
+        serviceFeeProcessingActualAmount: new Prisma.Decimal(fee),
+        serviceFeeProcessingVarianceAmount: new Prisma.Decimal(
+          roundMoney(fee - quotedFee),
+        ),
+      },
+    });
+    if (updated.count === 0) {
+      throw new AppError("Payment changed during remediation; retry", 409);
+    }
+
+    await tx.booking.update({
+      where: { id: payment.bookingId },
+      data: { serviceFeeProcessing: new Prisma.Decimal(fee) },
+    });
+
+    await postJournalEntry(tx, {
+      type: JournalEntryType.RECONCILIATION_ADJUSTMENT,
+      reference: payment.reference,
+      bookingId: payment.bookingId,
+      description: "Processing fee corrected to the amount Paystack charged",
+      metadata: {
+        paymentId: payment.id,
+        reconciliationItemId: item.id,
+        previousFee,
+        fee,
+      },
+      currency: payment.currency,
+      lines:
+        delta > 0
+          ? [
+              debit(LedgerAccount.PROCESSING_FEES, delta),
+              credit(LedgerAccount.GATEWAY_BALANCE, delta),
+            ]
+          : [
+              debit(LedgerAccount.GATEWAY_BALANCE, -delta),
+              credit(LedgerAccount.PROCESSING_FEES, -delta),
+            ],
+    });
+  });
+
+  return `Processing fee corrected from ${previousFee.toFixed(2)} to ${fee.toFixed(2)}`;
+};
+
+const remediateReversedTransfer = async (
+  item: ReconciliationItem,
+  source: ReconciliationSource,
+): Promise<string> => {
+  const withdrawal = await prisma.withdrawalRequest.findUnique({
+    where: { id: item.withdrawalRequestId ?? "" },
+    include: {
+      realtor: {
+        include: { user: { select: { email: true, firstName: true } } },
+      },
+      wallet: { select: { currency: true } },
+    },
+  });
+  if (!withdrawal) {
+    throw new AppError("Withdrawal request not found", 404);
+  }
+  if (withdrawal.status !== WithdrawalRequestStatus.COMPLETED) {
+    throw new AppError(
+      `Withdrawal is ${withdrawal.status}, not COMPLETED`,
+      409,
+    );
+  }
+
+  const transfer = await source.verifyTransfer(item.reference);
+  if (transfer.status !== "reversed" && transfer.status !== "failed") {
+    throw new AppError(
+      `Paystack now reports this transfer as ${transfer.status}`,
+      409,
+    );
+  }
+
+  const grossAmount = withdrawal.amount.toNumber();
+  const feeAmount = withdrawal.feeAmount.toNumber();
+  const failureReason = `Transfer ${transfer.status} at Paystack`;
+  const walletMetadata = {
+    withdrawalRequestId: withdrawal.id,
+    reconciliationItemId: item.id,
+    reason: failureReason,
+  };
+
+  await prisma.$transaction(async (tx) => {
+    const failedAt = new Date();
+    const updated = await tx.withdrawalRequest.updateMany({
+      where: { id: withdrawal.id, status: WithdrawalRequestStatus.COMPLETED },
+      data: {
+        status: WithdrawalRequestStatus.FAILED,
+        failedAt,
+        failureReason,
+        metadata: {
+          ...getObjectMetadata(withdrawal.metadata),
+          fundsRestored: true,
+          reversedAt: failedAt.toISOString(),
+          reconciliationItemId: item.id,
+        } as Prisma.InputJsonObject,
+      },
+    });
+    if (updated.count === 0) {
+      throw new AppError("Withdrawal changed during remediation; retry", 409);
+    }
+
+    // The transfer came back to the gateway: return the gross amount to
+    // the realtor and take back the withdrawal fee the platform earned
+    await creditWallet(
+      withdrawal.walletId,
+      grossAmount,
+      WalletTransactionSource.ADJUSTMENT,
+      item.reference,
+      walletMetadata,
+      tx,
+    );
+    if (feeAmount > 0) {
+      const platformWallet = await getOrCreateWallet(
+        WalletOwnerType.PLATFORM,
+        PLATFORM_SUBLEDGER_ID,
+        tx,
+        withdrawal.wallet.currency,
+      );
+      await debitWallet(
+        platformWallet.id,
+        feeAmount,
+        WalletTransactionSource.ADJUSTMENT,
+        item.reference,
+        walletMetadata,
+        tx,
+      );
+    }
+  });
+
+  await sendWithdrawalFailedEmail(
+    withdrawal.realtor.user.email,
+    withdrawal.realtor.user.firstName || withdrawal.realtor.businessName,
+    grossAmount,
+    "Your bank transfer was reversed. The funds are back in your wallet.",
+    withdrawal.wallet.currency,
+  ).catch((error) =>
+    logger.error("Failed to send reversed withdrawal email", error),
+  );
+
+  return `Withdrawal marked failed and ${grossAmount.toFixed(2)} returned to the realtor wallet`;
+};
+
+const REMEDIATIONS: Partial<
+  Record<
+    ReconciliationMismatchType,
+    (item: ReconciliationItem, source: ReconciliationSource) => Promise<string>
+  >
+> = {
+  PAYMENT_NOT_RECORDED: remediateUnrecordedPayment,
+  PROCESSING_FEE_DRIFT: remediateProcessingFeeDrift,
+  TRANSFER_REVERSED: remediateReversedTransfer,
+};
+
+const getOpenItem = async (itemId: string) => {
+  const item = await prisma.reconciliationItem.findUnique({
+    where: { id: itemId },
+  });
+  if (!item) {
+    throw new AppError("Reconciliation item not found", 404);
+  }
+  if (item.status !== ReconciliationItemStatus.OPEN) {
+    throw new AppError(`Item is already ${item.status.toLowerCase()}`, 409);
+  }
+  return item;
+};
+
+/**
+ * Close an item together with the same mismatch reported by overlapping
+ * runs.
+ */
+const closeMatchingItems = async (
+  item: ReconciliationItem,
+  status: ReconciliationItemStatus,
+  adminId: string,
+  note: string,
+) => {
+  await prisma.reconciliationItem.updateMany({
+    where: {
+      type: item.type,
+      reference: item.reference,
+      status: ReconciliationItemStatus.OPEN,
+    },
+    data: {
+      status,
+      resolvedAt: new Date(),
+      resolvedById: adminId,
+      resolutionNote: note,
+    },
+  });
+
+  return prisma.reconciliationItem.findUnique({ where: { id: item.id } });
+};
+
+/**
+ * Apply the fix for a remediable mismatch. Each fix re-checks Paystack
+ * first and refuses to act if the provider state has changed.
+ */
+export const remediateReconciliationItem = async (
+  itemId: string,
+  adminId: string,
+  note?: string,
+  source: ReconciliationSource = paystackReconciliationSource,
+) => {
+  const item = await getOpenItem(itemId);
+  const remediate = REMEDIATIONS[item.type];
+  if (!item.remediable || !remediate) {
+    throw new AppError("This mismatch needs manual investigation", 400);
+  }
+
+  const outcome = await remediate(item, source);
+  logger.info("Reconciliation item remediated", {
+    itemId: item.id,
+    type: item.type,
+    reference: item.reference,
+    adminId,
+    outcome,
+  });
+
+  return {
+    item: await closeMatchingItems(
+      item,
+      ReconciliationItemStatus.RESOLVED,
+      adminId,
+      note ? `${outcome}. ${note}` : outcome,
+    ),
+    outcome,
+  };
+};
+
+export const dismissReconciliationItem = async (
+  itemId: string,
+  adminId: string,
+  note?: string,
+) => {
+  const item = await getOpenItem(itemId);
+
+  return closeMatchingItems(
+    item,
+    ReconciliationItemStatus.DISMISSED,
+    adminId,
+    note || "Dismissed",
+  );
+};
@@ -0,0 +1,195 @@
+import {
+  PaymentStatus,
+  ReconciliationMismatchType,
+  WithdrawalRequestStatus,
+} from "@prisma/client";
+import {
+  LocalPaymentRecord,
+  classifyTransactions,
+  classifyTransfers,
+  normalizePaystackTransaction,
+  reconciliationItemsToCsv,
+} from "./reconciliationRules";
+import { toCsvCell } from "@/utils/csv";
+
+const payment = (
+  overrides: Partial<LocalPaymentRecord> = {}
+): LocalPaymentRecord => ({
+  id: "payment-1",
+  reference: "ref-1",
+  status: PaymentStatus.HELD,
+  amount: 50000,
+  processingFeeQuoted: 750,
+  processingFeeActual: 750,
+  ...overrides,
+});
+
+const success = { status: "success", amount: 50000, fees: 750, paidAt: null };
+
+describe("reconciliationRules", () => {
+  it("converts Paystack amounts and fees from kobo", () => {
+    expect(
+      normalizePaystackTransaction({
+        reference: "ref-1",
+        status: "Success",
+        amount: 5000050,
+        fees: 75025,
+        paid_at: "2026-04-01T10:00:00.000Z",
+      })
+    ).toEqual({
+      reference: "ref-1",
+      status: "success",
+      amount: 50000.5,
+      fees: 750.25,
+      paidAt: "2026-04-01T10:00:00.000Z",
+    });
+  });
+
+  it("flags successful charges stuck INITIATED as remediable", () => {
+    const findings = classifyTransactions(
+      [{ reference: "ref-1", ...success }],
+      [payment({ status: PaymentStatus.INITIATED })],
+      new Map()
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        type: ReconciliationMismatchType.PAYMENT_NOT_RECORDED,
+        paymentId: "payment-1",
+        remediable: true,
+        details: { webhookStatus: null, paidAt: null },
+      }),
+    ]);
+  });
+
+  it("reports fee drift and missing webhooks on finalized payments", () => {
+    const findings = classifyTransactions(
+      [
+        { reference: "ref-1", ...success, fees: 800 },
+        { reference: "ref-2", ...success },
+        { reference: "ref-3", ...success },
+      ],
+      [payment(), payment({ id: "payment-2", reference: "ref-2" })],
+      new Map([
+        ["ref-1", "PROCESSED"],
+        ["ref-2", "PROCESSED"],
+      ])
+    );
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        type: ReconciliationMismatchType.PROCESSING_FEE_DRIFT,
+        reference: "ref-1",
+        providerAmount: 800,
+        localAmount: 750,
+        remediable: true,
+        details: { processingFeeQuoted: 750, drift: 50 },
+      }),
+      expect.objectContaining({
+        type: ReconciliationMismatchType.PAYMENT_UNKNOWN,
+        reference: "ref-3",
+        remediable: false,
+      }),
+    ]);
+
+    expect(
+      classifyTransactions(
+        [{ reference: "ref-1", ...success }],
+        [payment()],
+        new Map([["ref-1", "FAILED"]])
+      ).map((item) => item.type)
+    ).toEqual([ReconciliationMismatchType.WEBHOOK_MISSING]);
+  });
+
+  it("reports amount and status mismatches without remediation", () => {
+    const findings = classifyTransactions(
+      [
+        { reference: "ref-1", ...success, amount: 49000 },
+        { reference: "ref-2", ...success, status: "failed" },
+        { reference: "ref-3", ...success, status: "ongoing" },
+      ],
+      [
+        payment(),
+        payment({ id: "payment-2", reference: "ref-2" }),
+        payment({ id: "payment-3", reference: "ref-3" }),
+      ],
+      new Map()
+    );
+
+    expect(findings.map((item) => [item.type, item.remediable])).toEqual([
+      [ReconciliationMismatchType.AMOUNT_MISMATCH, false],
+      [ReconciliationMismatchType.PAYMENT_STATUS_MISMATCH, false],
+    ]);
+  });
+
+  it("classifies withdrawal transfers and skips unrelated transfers", () => {
+    const findings = classifyTransfers(
+      [
+        { reference: "TXN_1", status: "reversed", amount: 9900 },
+        { reference: "TXN_2", status: "success", amount: 9900 },
+        { reference: "TXN_3", status: "success", amount: 9000 },
+        { reference: "escrow_payout", status: "reversed", amount: 100 },
+      ],
+      [
+        {
+          id: "w1",
+          transferReference: "TXN_1",
+          status: WithdrawalRequestStatus.COMPLETED,
+          netAmount: 9900,
+        },
+        {
+          id: "w2",
+          transferReference: "TXN_2",
+          status: WithdrawalRequestStatus.FAILED,
+          netAmount: 9900,
+        },
+        {
+          id: "w3",
+          transferReference: "TXN_3",
+          status: WithdrawalRequestStatus.COMPLETED,
+          netAmount: 9900,
+        },
+      ]
+    );
+
+    expect(
+      findings.map((item) => [
+        item.type,
+        item.withdrawalRequestId,
+        item.remediable,
+      ])
+    ).toEqual([
+      [ReconciliationMismatchType.TRANSFER_REVERSED, "w1", true],
+      [ReconciliationMismatchType.TRANSFER_STATUS_MISMATCH, "w2", false],
+      [ReconciliationMismatchType.AMOUNT_MISMATCH, "w3", false],
+    ]);
+  });
+
+  it("quotes CSV cells and neutralises formulas", () => {
+    expect(toCsvCell('say "hi", ok')).toBe('"say ""hi"", ok"');
+    expect(toCsvCell("=SUM(A1)")).toBe("'=SUM(A1)");
+    expect(toCsvCell("-12.50")).toBe("-12.50");
+    expect(toCsvCell(null)).toBe("");
+
+    expect(
+      reconciliationItemsToCsv([
+        {
+          type: "TRANSFER_REVERSED",
+          status: "OPEN",
+          reference: "TXN_1",
+          paymentId: null,
+          withdrawalRequestId: "w1",
+          providerStatus: "reversed",
+          localStatus: "COMPLETED",
+          providerAmount: 9900,
+          localAmount: 9900,
+          remediable: true,
+          resolutionNote: null,
+          createdAt: new Date("2026-04-02T02:30:00.000Z"),
+        },
+      ]).split("\n")[1]
+    ).toBe(
+      "TRANSFER_REVERSED,OPEN,TXN_1,,w1,reversed,COMPLETED,9900.00,9900.00,yes,,2026-04-02T02:30:00.000Z"
+    );
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  PaymentStatus,
+  ReconciliationMismatchType,
+  WithdrawalRequestStatus,
+} from "@prisma/client";
+import { CsvColumn, toCsv } from "@/utils/csv";
+
+export interface ProviderTransaction {
+  reference: string;
+  status: string;
+  amount: number;
+  fees: number | null;
+  paidAt: string | null;
+}
+
+export interface ProviderTransfer {
+  reference: string;
+  status: string;
+  amount: number;
+}
+
+export interface LocalPaymentRecord {
+  id: string;
+  reference: string;
+  status: PaymentStatus;
+  amount: number;
+  processingFeeQuoted: number | null;
+  processingFeeActual: number | null;
+}
+
+export interface LocalWithdrawalRecord {
+  id: string;
+  transferReference: string;
+  status: WithdrawalRequestStatus;
+  netAmount: number;
+}
+
+export interface ReconciliationFinding {
+  type: ReconciliationMismatchType;
+  reference: string;
+  paymentId: string | null;
+  withdrawalRequestId: string | null;
+  providerStatus: string | null;
+  localStatus: string | null;
+  providerAmount: number | null;
+  localAmount: number | null;
+  remediable: boolean;
+  details: Record<string, unknown>;
+}
+
+export interface ReconciliationCsvItem {
+  type: string;
+  status: string;
+  reference: string;
+  paymentId: string | null;
+  withdrawalRequestId: string | null;
+  providerStatus: string | null;
+  localStatus: string | null;
+  providerAmount: number | null;
+  localAmount: number | null;
+  remediable: boolean;
+  resolutionNote: string | null;
+  createdAt: Date;
+}
+
+export const RECONCILIATION_MISMATCH_LABELS: Record<
+  ReconciliationMismatchType,
+  string
+> = {
+  PAYMENT_NOT_RECORDED: "Paid at Paystack, not recorded locally",
+  PAYMENT_UNKNOWN: "Paystack transaction with no local payment",
+  PAYMENT_STATUS_MISMATCH: "Payment status differs from Paystack",
+  AMOUNT_MISMATCH: "Amount differs from Paystack",
+  PROCESSING_FEE_DRIFT: "Processing fee differs from Paystack",
+  TRANSFER_REVERSED: "Withdrawal completed locally, reversed at Paystack",
+  TRANSFER_STATUS_MISMATCH: "Transfer status differs from Paystack",
+  WEBHOOK_MISSING: "No processed webhook for a successful charge",
+};
+
+/** Local statuses of a payment whose charge has been recorded as paid. */
+const FINALIZED_PAYMENT_STATUSES = new Set<PaymentStatus>([
+  PaymentStatus.HELD,
+  PaymentStatus.PARTIALLY_RELEASED,
+  PaymentStatus.SETTLED,
+  PaymentStatus.REFUNDED,
+]);
+
+const UNSUCCESSFUL_TRANSACTION_STATUSES = new Set([
+  "failed",
+  "abandoned",
+  "reversed",
+]);
+
+const UNSUCCESSFUL_TRANSFER_STATUSES = new Set(["failed", "reversed"]);
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+// Paystack reports amounts and fees in kobo
+const fromMinorUnits = (value: unknown): number =>
+  Math.round(Number(value) || 0) / 100;
+
+export const normalizePaystackTransaction = (
+  raw: Record<string, any>,
+): ProviderTransaction => ({
+  reference: String(raw.reference ?? ""),
+  status: String(raw.status ?? "").toLowerCase(),
+  amount: fromMinorUnits(raw.amount),
+  fees: typeof raw.fees === "number" ? fromMinorUnits(raw.fees) : null,
+  paidAt: raw.paid_at ?? raw.paidAt ?? null,
+});
+
+export const normalizePaystackTransfer = (
+  raw: Record<string, any>,
+): ProviderTransfer => ({
+  reference: String(raw.reference ?? ""),
+  status: String(raw.status ?? "").toLowerCase(),
+  amount: fromMinorUnits(raw.amount),
+});
+
+const finding = (
+  type: ReconciliationMismatchType,
+  fields: Partial<ReconciliationFinding> & { reference: string },
+): ReconciliationFinding => ({
+  type,
+  paymentId: null,
+  withdrawalRequestId: null,
+  providerStatus: null,
+  localStatus: null,
+  providerAmount: null,
+  localAmount: null,
+  remediable: false,
+  details: {},
+  ...fields,
+});
+
+/**
+ * Compare Paystack transactions with local payments. `webhookStatuses`
+ * maps a reference to the status of its `charge.success` webhook event.
+ * Transactions still pending at Paystack are skipped.
+ */
+export const classifyTransactions = (
+  transactions: ProviderTransaction[],
+  payments: LocalPaymentRecord[],
+  webhookStatuses: Map<string, string>,
+): ReconciliationFinding[] => {
+  const paymentsByReference = new Map(
+    payments.map((payment) => [payment.reference, payment]),
+  );
+  const findings: ReconciliationFinding[] = [];
+
+  for (const transaction of transactions) {
+    const payment = paymentsByReference.get(transaction.reference);
+    const base = {
+      reference: transaction.reference,
+      paymentId: payment?.id ?? null,
+      providerStatus: transaction.status,
+      localStatus: payment?.status ?? null,
+      providerAmount: transaction.amount,
+      localAmount: payment?.amount ?? null,
+    };
+
+    if (transaction.status === "success") {
+      const webhookStatus = webhookStatuses.get(transaction.reference) ?? null;
+
+      if (!payment) {
+        findings.push(
+          finding(ReconciliationMismatchType.PAYMENT_UNKNOWN, base),
+        );
+        continue;
+      }
+      if (toCents(transaction.amount) !== toCents(payment.amount)) {
+        findings.push(
+          finding(ReconciliationMismatchType.AMOUNT_MISMATCH, base),
+        );
+        continue;
+      }
+      if (payment.status === PaymentStatus.INITIATED) {
+        findings.push(
+          finding(ReconciliationMismatchType.PAYMENT_NOT_RECORDED, {
+            ...base,
+            remediable: true,
+            details: { webhookStatus, paidAt: transaction.paidAt },
+          }),
+        );
+        continue;
+      }
+      if (!FINALIZED_PAYMENT_STATUSES.has(payment.status)) {
+        findings.push(
+          finding(ReconciliationMismatchType.PAYMENT_STATUS_MISMATCH, {
+            ...base,
+            details: { webhookStatus },
+          }),
+        );
+        continue;
+      }
+
+      if (
+        transaction.fees !== null &&
+        payment.processingFeeActual !== null &&
+        toCents(transaction.fees) !== toCents(payment.processingFeeActual)
+      ) {
+        findings.push(
+          finding(ReconciliationMismatchType.PROCESSING_FEE_DRIFT, {
+            ...base,
+            providerAmount: transaction.fees,
+            localAmount: payment.processingFeeActual,
+            remediable: true,
+            details: {
+              processingFeeQuoted: payment.processingFeeQuoted,
+              drift:
+                (toCents(transaction.fees) -
+                  toCents(payment.processingFeeActual)) /
+                100,
+            },
+          }),
+        );
+      }
+      if (webhookStatus !== "PROCESSED") {
+        findings.push(
+          finding(ReconciliationMismatchType.WEBHOOK_MISSING, {
+            ...base,
+            details: { webhookStatus },
+          }),
+        );
+      }
+      continue;
+    }
+
+    if (
+      UNSUCCESSFUL_TRANSACTION_STATUSES.has(transaction.status) &&
+      payment &&
+      FINALIZED_PAYMENT_STATUSES.has(payment.status)
+    ) {
+      findings.push(
+        finding(ReconciliationMismatchType.PAYMENT_STATUS_MISMATCH, base),
+      );
+    }
+  }
+
+  return findings;
+};
+
+/**
+ * Compare Paystack transfers with local withdrawals. Transfers with no
+ * matching withdrawal (escrow payouts and retries) are not withdrawals
+ * and are skipped.
+ */
+export const classifyTransfers = (
+  transfers: ProviderTransfer[],
+  withdrawals: LocalWithdrawalRecord[],
+): ReconciliationFinding[] => {
+  const withdrawalsByReference = new Map(
+    withdrawals.map((withdrawal) => [withdrawal.transferReference, withdrawal]),
+  );
+  const findings: ReconciliationFinding[] = [];
+
+  for (const transfer of transfers) {
+    const withdrawal = withdrawalsByReference.get(transfer.reference);
+    if (!withdrawal) {
+      continue;
+    }
+
+    const base = {
+      reference: transfer.reference,
+      withdrawalRequestId: withdrawal.id,
+      providerStatus: transfer.status,
+      localStatus: withdrawal.status,
+      providerAmount: transfer.amount,
+      localAmount: withdrawal.netAmount,
+    };
+
+    if (UNSUCCESSFUL_TRANSFER_STATUSES.has(transfer.status)) {
+      if (withdrawal.status === WithdrawalRequestStatus.COMPLETED) {
+        findings.push(
+          finding(ReconciliationMismatchType.TRANSFER_REVERSED, {
+            ...base,
+            remediable: true,
+          }),
+        );
+      }
+      continue;
+    }
+
+    if (transfer.status !== "success") {
+      continue;
+    }
+    if (withdrawal.status !== WithdrawalRequestStatus.COMPLETED) {
+      findings.push(
+        finding(ReconciliationMismatchType.TRANSFER_STATUS_MISMATCH, base),
+      );
+    } else if (toCents(transfer.amount) !== toCents(withdrawal.netAmount)) {
+      findings.push(finding(ReconciliationMismatchType.AMOUNT_MISMATCH, base));
+    }
+  }
+
+  return findings;
+};
+
+const CSV_COLUMNS: CsvColumn<ReconciliationCsvItem>[] = [
+  ["Type", (item) => item.type],
+  ["Status", (item) => item.status],
+  ["Reference", (item) => item.reference],
+  ["Payment ID", (item) => item.paymentId],
+  ["Withdrawal ID", (item) => item.withdrawalRequestId],
+  ["Paystack status", (item) => item.providerStatus],
+  ["Local status", (item) => item.localStatus],
+  ["Paystack amount", (item) => item.providerAmount?.toFixed(2)],
+  ["Local amount", (item) => item.localAmount?.toFixed(2)],
+  ["Remediable", (item) => (item.remediable ? "yes" : "no")],
+  ["Resolution note", (item) => item.resolutionNote],
+  ["Found at", (item) => item.createdAt.toISOString()],
+];
+
+export const reconciliationItemsToCsv = (
+  items: ReconciliationCsvItem[],
+): string => toCsv(CSV_COLUMNS, items);
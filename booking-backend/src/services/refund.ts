@@ -1,6 +1,7 @@
 import { PrismaClient, RefundTier, PaymentStatus } from "@prisma/client";
 import { config } from "../config";
-import { processRefund as paystackProcessRefund } from "./paystack";
+import { refundPayment } from "./paymentGateway";
+import type { GatewayRefund } from "./paymentGatewayRules";
 import { logger } from "../utils/logger";
 
 const prisma = new PrismaClient();
@@ -167,34 +168,36 @@ export const processBookingRefund = async (bookingId: string) => {
     },
   });
 
-  // Only process Paystack refund if customer actually gets money back
-  let paystackRefundData = null;
+  // Only process the gateway refund if customer actually gets money back
+  let gatewayRefund: GatewayRefund | null = null;
   if (refundSplit.customerRefund > 0 && booking.payment.reference) {
     try {
-      logger.info("💳 Initiating Paystack refund", {
+      logger.info("💳 Initiating gateway refund", {
+        provider: booking.payment.method,
         reference: booking.payment.reference,
         amount: refundSplit.customerRefund,
         tier: refundSplit.tier,
         breakdown: refundSplit.breakdown,
       });
 
-      paystackRefundData = await paystackProcessRefund(
-        booking.payment.reference,
+      gatewayRefund = await refundPayment(
+        booking.payment,
         refundSplit.customerRefund,
       );
 
-      logger.info("✅ Paystack refund successful", {
-        refundId: paystackRefundData.id,
-        amount: paystackRefundData.amount,
-        status: paystackRefundData.status,
+      logger.info("✅ Gateway refund successful", {
+        provider: gatewayRefund.provider,
+        refundId: gatewayRefund.refundId,
+        amount: refundSplit.customerRefund,
+        status: gatewayRefund.status,
       });
     } catch (error: any) {
-      logger.error("❌ Paystack refund failed", {
+      logger.error("❌ Gateway refund failed", {
         error: error.message,
         reference: booking.payment.reference,
         amount: refundSplit.customerRefund,
       });
-      // Continue with database updates even if Paystack fails
+      // Continue with database updates even if the gateway fails
       // Admin can manually process the refund later
     }
   }
@@ -213,10 +216,10 @@ export const processBookingRefund = async (bookingId: string) => {
         refundBreakdown: refundSplit.breakdown,
         refundTier: refundSplit.tier,
         // Note: Cleaning & service fees NOT refunded (already in wallets)
-        ...(paystackRefundData && {
-          paystackRefundId: paystackRefundData.id,
-          paystackRefundStatus: paystackRefundData.status,
-          paystackRefundReference: paystackRefundData.transaction_reference,
+        ...(gatewayRefund && {
+          refundProvider: gatewayRefund.provider,
+          providerRefundId: gatewayRefund.refundId,
+          providerRefundStatus: gatewayRefund.status,
         }),
       },
     },
@@ -227,7 +230,7 @@ export const processBookingRefund = async (bookingId: string) => {
     refundSplit,
     tier: refundSplit.tier,
     breakdown: refundSplit.breakdown,
-    paystackRefund: paystackRefundData,
+    gatewayRefund,
   };
 };
 
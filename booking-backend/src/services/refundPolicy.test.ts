@@ -0,0 +1,112 @@
+import { Prisma } from "@prisma/client";
+import {
+  CANCELLATION_POLICY_PRESETS,
+  calculateCancellationRefund,
+  readCancellationPolicy,
+  splitRetainedRoomFee,
+} from "./refundPolicy";
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+const buildBooking = (
+  hoursBeforeCheckIn: number,
+  cancellationPolicySnapshot: Prisma.JsonValue | null,
+) => ({
+  checkInDate: new Date(NOW.getTime() + hoursBeforeCheckIn * HOUR),
+  roomFee: new Prisma.Decimal(100000),
+  securityDeposit: new Prisma.Decimal(20000),
+  serviceFee: new Prisma.Decimal(5000),
+  cleaningFee: new Prisma.Decimal(10000),
+  cancellationPolicySnapshot,
+});
+
+describe("refundPolicy cancellation policies", () => {
+  it("keeps the legacy 90/7/3 split for bookings without a snapshot", () => {
+    const result = calculateCancellationRefund({
+      booking: buildBooking(48, null),
+      now: NOW,
+    });
+
+    expect(result.tier).toBe("EARLY");
+    expect(result.policy.type).toBe("FLEXIBLE");
+    expect(result.customerRoomRefund).toBe(90000);
+    expect(result.realtorRoomPortion).toBe(7000);
+    expect(result.platformRoomPortion).toBe(3000);
+    expect(result.totalCustomerRefund).toBe(110000);
+  });
+
+  it("uses the partial tier of a snapshotted moderate policy", () => {
+    const result = calculateCancellationRefund({
+      booking: buildBooking(
+        72,
+        CANCELLATION_POLICY_PRESETS.MODERATE as unknown as Prisma.JsonValue,
+      ),
+      now: NOW,
+    });
+
+    expect(result.tier).toBe("MEDIUM");
+    expect(result.customerRoomRefund).toBe(50000);
+    expect(result.realtorRoomPortion).toBe(35000);
+    expect(result.platformRoomPortion).toBe(15000);
+  });
+
+  it("refunds only the deposit when no strict tier applies", () => {
+    const result = calculateCancellationRefund({
+      booking: buildBooking(
+        100,
+        CANCELLATION_POLICY_PRESETS.STRICT as unknown as Prisma.JsonValue,
+      ),
+      now: NOW,
+    });
+
+    expect(result.tier).toBe("LATE");
+    expect(result.customerRoomRefund).toBe(0);
+    expect(result.totalCustomerRefund).toBe(20000);
+    expect(result.totalRealtorPortion).toBe(70000);
+    expect(result.totalPlatformPortion).toBe(30000);
+  });
+
+  it("does not allow cancellation inside 24 hours whatever the policy", () => {
+    const result = calculateCancellationRefund({
+      booking: buildBooking(10, {
+        type: "CUSTOM",
+        name: "Custom",
+        tiers: [{ minHoursBeforeCheckIn: 24, refundRate: 1 }],
+      }),
+      now: NOW,
+    });
+
+    expect(result.tier).toBe("NONE");
+    expect(result.customerRoomRefund).toBe(0);
+    expect(result.realtorRoomPortion).toBe(0);
+  });
+
+  it("sorts stored custom tiers and drops invalid ones", () => {
+    const policy = readCancellationPolicy({
+      type: "CUSTOM",
+      name: "Two-step",
+      tiers: [
+        { minHoursBeforeCheckIn: 48, refundRate: 0.25 },
+        { minHoursBeforeCheckIn: 240, refundRate: 1 },
+        { minHoursBeforeCheckIn: 96, refundRate: 4 },
+      ],
+    });
+
+    expect(policy.tiers).toEqual([
+      { minHoursBeforeCheckIn: 240, refundRate: 1 },
+      { minHoursBeforeCheckIn: 48, refundRate: 0.25 },
+    ]);
+  });
+
+  it("splits retained room fee 70/30 with the remainder to the platform", () => {
+    expect(splitRetainedRoomFee(100000)).toEqual({
+      realtorPortion: 70000,
+      platformPortion: 30000,
+    });
+    expect(splitRetainedRoomFee(10.01)).toEqual({
+      realtorPortion: 7.01,
+      platformPortion: 3,
+    });
+  });
+});
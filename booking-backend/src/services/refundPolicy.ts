@@ -1,8 +1,32 @@
-import { Booking, RefundTier } from "@prisma/client";
+import { Booking, Prisma, RefundTier } from "@prisma/client";
+
+export type CancellationPolicyType =
+  | "FLEXIBLE"
+  | "MODERATE"
+  | "STRICT"
+  | "NON_REFUNDABLE"
+  | "CUSTOM";
+
+/**
+ * A guest cancelling at least `minHoursBeforeCheckIn` hours before check-in
+ * gets `refundRate` (a fraction) of the room fee back.
+ */
+export interface CancellationPolicyTier {
+  minHoursBeforeCheckIn: number;
+  refundRate: number;
+}
+
+export interface CancellationPolicy {
+  type: CancellationPolicyType;
+  name: string;
+  tiers: CancellationPolicyTier[]; // Most generous first
+}
 
 export interface RefundCalculation {
   tier: RefundTier;
   hoursUntilCheckIn: number;
+  policy: CancellationPolicy;
+  refundRate: number; // Share of the room fee returned to the guest
 
   // Room fee breakdown (only component that gets refunded based on tier)
   roomFee: number;
@@ -27,21 +51,183 @@ export interface RefundCalculation {
 }
 
 interface CalculateRefundParams {
-  booking: Booking;
+  booking: Pick<
+    Booking,
+    | "checkInDate"
+    | "roomFee"
+    | "securityDeposit"
+    | "serviceFee"
+    | "cleaningFee"
+    | "cancellationPolicySnapshot"
+  >;
   now?: Date;
 }
 
-// Refund tier threshold (hours before check-in)
-const EARLY_HOURS = 24; // 24+ hours required for cancellation
+// Guests cannot cancel inside this window under any policy
+export const CANCELLATION_CUTOFF_HOURS = 24;
+
+// The room fee the guest does not get back is split 70/30 realtor/platform
+const RETAINED_REALTOR_SHARE = 0.7;
 
-// Refund tier split: customer 90%, realtor 7%, platform 3%
-const TIER_SPLITS = {
-  EARLY: { customer: 0.9, realtor: 0.07, platform: 0.03 },
+export const CANCELLATION_POLICY_PRESETS: Record<
+  Exclude<CancellationPolicyType, "CUSTOM">,
+  CancellationPolicy
+> = {
+  FLEXIBLE: {
+    type: "FLEXIBLE",
+    name: "Flexible",
+    tiers: [{ minHoursBeforeCheckIn: 24, refundRate: 0.9 }],
+  },
+  MODERATE: {
+    type: "MODERATE",
+    name: "Moderate",
+    tiers: [
+      { minHoursBeforeCheckIn: 120, refundRate: 0.9 },
+      { minHoursBeforeCheckIn: 24, refundRate: 0.5 },
+    ],
+  },
+  STRICT: {
+    type: "STRICT",
+    name: "Strict",
+    tiers: [
+      { minHoursBeforeCheckIn: 336, refundRate: 0.9 },
+      { minHoursBeforeCheckIn: 168, refundRate: 0.5 },
+    ],
+  },
+  NON_REFUNDABLE: {
+    type: "NON_REFUNDABLE",
+    name: "Non-refundable",
+    tiers: [],
+  },
 };
 
+// Bookings made before policies existed were sold under these terms
+export const DEFAULT_CANCELLATION_POLICY = CANCELLATION_POLICY_PRESETS.FLEXIBLE;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
 /**
- * Calculate refund amounts based on cancellation timing
- * - Room fee: Split according to tier (customer/realtor/platform)
+ * Reads a stored policy (property setting or booking snapshot). Unreadable
+ * values fall back to the default so a cancellation can always be priced.
+ */
+export function readCancellationPolicy(
+  value: Prisma.JsonValue | null | undefined,
+): CancellationPolicy {
+  if (!isRecord(value) || !Array.isArray(value.tiers)) {
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+
+  const tiers = (value.tiers as unknown[])
+    .filter(isRecord)
+    .map((tier) => ({
+      minHoursBeforeCheckIn: Number(tier.minHoursBeforeCheckIn),
+      refundRate: Number(tier.refundRate),
+    }))
+    .filter(
+      (tier) =>
+        Number.isFinite(tier.minHoursBeforeCheckIn) &&
+        Number.isFinite(tier.refundRate) &&
+        tier.refundRate >= 0 &&
+        tier.refundRate <= 1,
+    )
+    .sort((a, b) => b.minHoursBeforeCheckIn - a.minHoursBeforeCheckIn);
+
+  const type =
+    typeof value.type === "string" &&
+    (value.type === "CUSTOM" || value.type in CANCELLATION_POLICY_PRESETS)
+      ? (value.type as CancellationPolicyType)
+      : "CUSTOM";
+
+  return {
+    type,
+    name: typeof value.name === "string" && value.name ? value.name : "Custom",
+    tiers,
+  };
+}
+
+/**
+ * Human-readable schedule, e.g. "90% of the room fee back if you cancel at
+ * least 5 days before check-in".
+ */
+export function describeCancellationPolicy(
+  policy: CancellationPolicy,
+): string[] {
+  if (policy.tiers.length === 0) {
+    return ["The room fee is non-refundable"];
+  }
+
+  return policy.tiers.map((tier) => {
+    const hours = tier.minHoursBeforeCheckIn;
+    const window =
+      hours % 24 === 0
+        ? `${hours / 24} day${hours === 24 ? "" : "s"}`
+        : `${hours} hours`;
+    return `${Math.round(tier.refundRate * 100)}% of the room fee back if you cancel at least ${window} before check-in`;
+  });
+}
+
+/**
+ * Tier a cancellation falls in: EARLY is the policy's best tier, MEDIUM any
+ * later one, LATE a cancellation no tier covers, NONE inside the cutoff.
+ */
+export function matchCancellationTier(
+  policy: CancellationPolicy,
+  hoursUntilCheckIn: number,
+): { tier: RefundTier; refundRate: number; reason: string } {
+  if (hoursUntilCheckIn < CANCELLATION_CUTOFF_HOURS) {
+    return {
+      tier: RefundTier.NONE,
+      refundRate: 0,
+      reason: `Cancellation within ${CANCELLATION_CUTOFF_HOURS}h of check-in - not allowed`,
+    };
+  }
+
+  const matchedIndex = policy.tiers.findIndex(
+    (policyTier) => hoursUntilCheckIn >= policyTier.minHoursBeforeCheckIn,
+  );
+  if (matchedIndex === -1) {
+    return {
+      tier: RefundTier.LATE,
+      refundRate: 0,
+      reason: `${policy.name} policy: no room fee refund ${hoursUntilCheckIn.toFixed(
+        1,
+      )}h before check-in`,
+    };
+  }
+
+  const refundRate = policy.tiers[matchedIndex].refundRate;
+  return {
+    tier: matchedIndex === 0 ? RefundTier.EARLY : RefundTier.MEDIUM,
+    refundRate,
+    reason: `${policy.name} policy: ${Math.round(
+      refundRate * 100,
+    )}% room fee refund (${hoursUntilCheckIn.toFixed(1)}h before check-in)`,
+  };
+}
+
+/**
+ * Splits the room fee the guest does not get back 70/30 realtor/platform; the
+ * platform takes the rounding remainder.
+ */
+export function splitRetainedRoomFee(retainedRoomFee: number): {
+  realtorPortion: number;
+  platformPortion: number;
+} {
+  const realtorPortion = Number(
+    (retainedRoomFee * RETAINED_REALTOR_SHARE).toFixed(2),
+  );
+  return {
+    realtorPortion,
+    platformPortion: Number((retainedRoomFee - realtorPortion).toFixed(2)),
+  };
+}
+
+/**
+ * Calculate refund amounts from the cancellation policy snapshotted on the
+ * booking (the default policy for older bookings)
+ * - Room fee: the matching tier's rate goes to the customer; the rest is
+ *   split 70/30 realtor/platform
  * - Security deposit: Always 100% to customer
  * - Service fee & Cleaning fee: Never refunded
  */
@@ -51,25 +237,12 @@ export function calculateCancellationRefund({
 }: CalculateRefundParams): RefundCalculation {
   const msUntilCheckIn = booking.checkInDate.getTime() - now.getTime();
   const hoursUntilCheckIn = msUntilCheckIn / (1000 * 60 * 60);
+  const policy = readCancellationPolicy(booking.cancellationPolicySnapshot);
 
-  // Determine refund tier
-  let tier: RefundTier;
-  let reason: string;
-
-  if (hoursUntilCheckIn >= EARLY_HOURS) {
-    tier = RefundTier.EARLY;
-    reason = `Early cancellation (${hoursUntilCheckIn.toFixed(
-      1,
-    )}h before check-in)`;
-  } else {
-    tier = RefundTier.NONE;
-    reason = `Cancellation within 24h of check-in - not allowed`;
-  }
-
-  const split =
-    tier === RefundTier.EARLY
-      ? TIER_SPLITS.EARLY
-      : { customer: 0, realtor: 0, platform: 0 };
+  const { tier, refundRate, reason } = matchCancellationTier(
+    policy,
+    hoursUntilCheckIn,
+  );
 
   // Extract fee components
   const roomFee = Number(booking.roomFee);
@@ -78,9 +251,12 @@ export function calculateCancellationRefund({
   const cleaningFee = Number(booking.cleaningFee);
 
   // Calculate room fee split according to tier
-  const customerRoomRefund = roomFee * split.customer;
-  const realtorRoomPortion = roomFee * split.realtor;
-  const platformRoomPortion = roomFee * split.platform;
+  const retainedRate = tier === RefundTier.NONE ? 0 : 1 - refundRate;
+  const customerRoomRefund = Number((roomFee * refundRate).toFixed(2));
+  const {
+    realtorPortion: realtorRoomPortion,
+    platformPortion: platformRoomPortion,
+  } = splitRetainedRoomFee(roomFee * retainedRate);
 
   // Security deposit always 100% to customer
   const securityDepositRefund = securityDeposit;
@@ -96,6 +272,8 @@ export function calculateCancellationRefund({
   return {
     tier,
     hoursUntilCheckIn,
+    policy,
+    refundRate,
 
     roomFee,
     customerRoomRefund,
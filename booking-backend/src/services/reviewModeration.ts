@@ -0,0 +1,356 @@
+import {
+  Prisma,
+  ReviewReportKind,
+  ReviewReportReason,
+  ReviewReportStatus,
+  UserRole,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import {
+  createAdminNotification,
+  notificationHelpers,
+  NotificationService,
+} from "@/services/notificationService";
+import { actsForRealtor } from "@/services/realtorTeam";
+import {
+  buildReportResolution,
+  describeReportReason,
+  getReportBlocker,
+  getReportKind,
+  getReportQueueOrder,
+} from "@/services/reviewModerationRules";
+import { logger } from "@/utils/logger";
+import { updateAllRatings } from "@/utils/ratingCalculator";
+
+export interface ReviewReporter {
+  id: string;
+  role: UserRole;
+}
+
+export interface ReportReviewInput {
+  reason: ReviewReportReason;
+  details?: string;
+}
+
+export interface ReviewReportFilters {
+  status?: ReviewReportStatus;
+  kind?: ReviewReportKind;
+  reason?: ReviewReportReason;
+  page: number;
+  limit: number;
+}
+
+const REVIEW_REPORT_INCLUDE = {
+  reporter: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      role: true,
+    },
+  },
+  resolvedBy: { select: { id: true, firstName: true, lastName: true } },
+  review: {
+    select: {
+      id: true,
+      rating: true,
+      comment: true,
+      isVisible: true,
+      createdAt: true,
+      author: {
+        select: { id: true, firstName: true, lastName: true, email: true },
+      },
+      property: {
+        select: {
+          id: true,
+          title: true,
+          realtor: { select: { id: true, businessName: true } },
+        },
+      },
+      _count: { select: { reports: true } },
+    },
+  },
+} satisfies Prisma.ReviewReportInclude;
+
+const parseEnumValue = <T extends string>(
+  value: unknown,
+  allowed: Record<string, T>,
+  label: string,
+): T => {
+  const key = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (!Object.values(allowed).includes(key as T)) {
+    throw new AppError(
+      `${label} must be one of: ${Object.values(allowed).join(", ")}`,
+      400,
+    );
+  }
+  return key as T;
+};
+
+export const parseReviewReportStatus = (value: unknown) =>
+  parseEnumValue(value, ReviewReportStatus, "Status");
+
+export const parseReviewReportKind = (value: unknown) =>
+  parseEnumValue(value, ReviewReportKind, "Kind");
+
+export const parseReviewReportReason = (value: unknown) =>
+  parseEnumValue(value, ReviewReportReason, "Reason");
+
+const sendNotification = async (
+  data: Parameters<NotificationService["createAndSendNotification"]>[0],
+) => {
+  try {
+    await NotificationService.getInstance().createAndSendNotification(data);
+  } catch (error) {
+    logger.error("Failed to send review moderation notification:", error);
+  }
+};
+
+/**
+ * Show or hide a review and recompute the property and realtor ratings.
+ * The only path that changes visibility of a published review.
+ */
+export const setReviewVisibility = async (
+  reviewId: string,
+  isVisible: boolean,
+) => {
+  const review = await prisma.review.update({
+    where: { id: reviewId },
+    data: { isVisible },
+    include: {
+      author: { select: { firstName: true, lastName: true } },
+      property: { select: { title: true, realtorId: true } },
+    },
+  });
+
+  try {
+    await updateAllRatings(review.propertyId, review.property.realtorId);
+  } catch (ratingError) {
+    logger.error("Failed to update ratings:", ratingError);
+  }
+
+  await sendNotification({
+    userId: review.authorId,
+    reviewId: review.id,
+    ...notificationHelpers.createReviewModerationNotification(
+      review.property.title,
+      isVisible ? "restored" : "removed by Stayza moderation",
+    ),
+  });
+
+  return review;
+};
+
+/**
+ * Report a review to the moderation queue. A report from the realtor who
+ * owns the property is recorded as a removal request.
+ */
+export const reportReview = async (
+  reporter: ReviewReporter,
+  reviewId: string,
+  input: ReportReviewInput,
+) => {
+  const review = await prisma.review.findUnique({
+    where: { id: reviewId },
+    select: {
+      id: true,
+      authorId: true,
+      isVisible: true,
+      revealedAt: true,
+      property: {
+        select: { title: true, realtorId: true },
+      },
+    },
+  });
+
+  const blocker = getReportBlocker(review, reporter.id);
+  if (!review || blocker) {
+    throw new AppError(
+      blocker?.message ?? "Review not found",
+      blocker?.statusCode ?? 404,
+    );
+  }
+
+  const kind = getReportKind(
+    await actsForRealtor(
+      reporter.id,
+      review.property.realtorId,
+      "reviews.manage",
+    ),
+  );
+
+  let report;
+  try {
+    report = await prisma.reviewReport.create({
+      data: {
+        reviewId,
+        reporterId: reporter.id,
+        kind,
+        reason: input.reason,
+        details: input.details || null,
+      },
+    });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      throw new AppError("You have already reported this review", 409);
+    }
+    throw error;
+  }
+
+  await createAdminNotification({
+    type: "REVIEW_FLAGGED",
+    title:
+      kind === ReviewReportKind.REMOVAL_REQUEST
+        ? "Review Removal Requested"
+        : "Review Reported",
+    message: `A review of "${review.property.title}" was reported (${describeReportReason(
+      input.reason,
+    )}).`,
+    data: { reviewId, reportId: report.id, kind, reason: input.reason },
+  });
+
+  return report;
+};
+
+export const listReviewReports = async (filters: ReviewReportFilters) => {
+  const where: Prisma.ReviewReportWhereInput = {
+    ...(filters.status && { status: filters.status }),
+    ...(filters.kind && { kind: filters.kind }),
+    ...(filters.reason && { reason: filters.reason }),
+  };
+
+  const [reports, total, pending, removalRequests] = await Promise.all([
+    prisma.reviewReport.findMany({
+      where,
+      include: REVIEW_REPORT_INCLUDE,
+      orderBy: getReportQueueOrder(filters.status),
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.reviewReport.count({ where }),
+    prisma.reviewReport.count({
+      where: { status: ReviewReportStatus.PENDING },
+    }),
+    prisma.reviewReport.count({
+      where: {
+        status: ReviewReportStatus.PENDING,
+        kind: ReviewReportKind.REMOVAL_REQUEST,
+      },
+    }),
+  ]);
+
+  return { reports, total, stats: { pending, removalRequests } };
+};
+
+const getPendingReport = async (reportId: string) => {
+  const report = await prisma.reviewReport.findUnique({
+    where: { id: reportId },
+    include: {
+      review: {
+        select: { isVisible: true, property: { select: { title: true } } },
+      },
+    },
+  });
+
+  if (!report) {
+    throw new AppError("Report not found", 404);
+  }
+
+  if (report.status !== ReviewReportStatus.PENDING) {
+    throw new AppError("This report has already been resolved", 409);
+  }
+
+  return report;
+};
+
+const notifyReporters = async (
+  reporters: Array<{ reporterId: string; kind: ReviewReportKind }>,
+  reviewId: string,
+  propertyTitle: string,
+  upheld: boolean,
+) => {
+  for (const { reporterId, kind } of reporters) {
+    await sendNotification(
+      notificationHelpers.reviewReportResolved(
+        reporterId,
+        reviewId,
+        propertyTitle,
+        upheld,
+        kind === ReviewReportKind.REMOVAL_REQUEST,
+      ),
+    );
+  }
+};
+
+/**
+ * Uphold a report: hide the review and resolve every pending report on it,
+ * since they all asked for the same outcome.
+ */
+export const upholdReviewReport = async (
+  reportId: string,
+  adminId: string,
+  note?: string,
+) => {
+  const report = await getPendingReport(reportId);
+
+  const pendingReports = await prisma.reviewReport.findMany({
+    where: { reviewId: report.reviewId, status: ReviewReportStatus.PENDING },
+    select: { reporterId: true, kind: true },
+  });
+
+  await prisma.reviewReport.updateMany({
+    where: { reviewId: report.reviewId, status: ReviewReportStatus.PENDING },
+    data: buildReportResolution(ReviewReportStatus.UPHELD, adminId, note),
+  });
+
+  // An admin may already have hidden it directly
+  if (report.review.isVisible) {
+    await setReviewVisibility(report.reviewId, false);
+  }
+
+  await notifyReporters(
+    pendingReports,
+    report.reviewId,
+    report.review.property.title,
+    true,
+  );
+
+  return {
+    report: await prisma.reviewReport.findUniqueOrThrow({
+      where: { id: reportId },
+      include: REVIEW_REPORT_INCLUDE,
+    }),
+    resolvedCount: pendingReports.length,
+  };
+};
+
+/**
+ * Dismiss a single report; the review stays published
+ */
+export const dismissReviewReport = async (
+  reportId: string,
+  adminId: string,
+  note?: string,
+) => {
+  const report = await getPendingReport(reportId);
+
+  const updated = await prisma.reviewReport.update({
+    where: { id: reportId },
+    data: buildReportResolution(ReviewReportStatus.DISMISSED, adminId, note),
+    include: REVIEW_REPORT_INCLUDE,
+  });
+
+  await notifyReporters(
+    [report],
+    report.reviewId,
+    report.review.property.title,
+    false,
+  );
+
+  return updated;
+};
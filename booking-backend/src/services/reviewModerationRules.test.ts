@@ -0,0 +1,90 @@
+import {
+  buildReportResolution,
+  describeReportReason,
+  getReportBlocker,
+  getReportKind,
+  getReportQueueOrder,
+  summarizeRatings,
+} from "./reviewModerationRules";
+
+const published = {
+  authorId: "guest-1",
+  isVisible: true,
+  revealedAt: new Date("2026-03-20T00:00:00Z"),
+};
+
+describe("reviewModerationRules", () => {
+  it("lets other users report a published review", () => {
+    expect(getReportBlocker(published, "guest-2")).toBeNull();
+    expect(getReportBlocker(published, "guest-1")).toEqual({
+      message: "You cannot report your own review",
+      statusCode: 400,
+    });
+    expect(
+      getReportBlocker({ ...published, isVisible: false }, "guest-2")
+    ).toEqual({ message: "This review is already hidden", statusCode: 409 });
+  });
+
+  it("hides blind reviews from reporters", () => {
+    expect(
+      getReportBlocker({ ...published, revealedAt: null }, "guest-2")
+    ).toEqual({ message: "Review not found", statusCode: 404 });
+    expect(getReportBlocker(null, "guest-2")).toEqual({
+      message: "Review not found",
+      statusCode: 404,
+    });
+  });
+
+  it("files reports from the property's realtor as removal requests", () => {
+    expect(getReportKind(true)).toBe("REMOVAL_REQUEST");
+    expect(getReportKind(false)).toBe("FLAG");
+    expect(describeReportReason("PERSONAL_INFORMATION")).toBe(
+      "personal information"
+    );
+  });
+
+  it("queues pending reports oldest first and resolves them", () => {
+    const now = new Date("2026-03-25T10:00:00Z");
+
+    expect(getReportQueueOrder("PENDING")).toEqual({ createdAt: "asc" });
+    expect(getReportQueueOrder()).toEqual({ updatedAt: "desc" });
+    expect(buildReportResolution("UPHELD", "admin-1", "", now)).toEqual({
+      status: "UPHELD",
+      resolvedById: "admin-1",
+      resolutionNote: null,
+      resolvedAt: now,
+    });
+  });
+
+  it("recomputes ratings from the remaining reviews", () => {
+    expect(
+      summarizeRatings([
+        { rating: 5, cleanlinessRating: 4, valueRating: null },
+        { rating: 4, cleanlinessRating: null, valueRating: 3 },
+        { rating: 4, cleanlinessRating: 5, valueRating: null },
+      ])
+    ).toEqual({
+      averageRating: 4.33,
+      reviewCount: 3,
+      cleanlinessRating: 4.5,
+      communicationRating: 0,
+      checkInRating: 0,
+      accuracyRating: 0,
+      locationRating: 0,
+      valueRating: 3,
+    });
+  });
+
+  it("resets ratings once the last visible review is removed", () => {
+    expect(summarizeRatings([])).toEqual({
+      averageRating: 0,
+      reviewCount: 0,
+      cleanlinessRating: 0,
+      communicationRating: 0,
+      checkInRating: 0,
+      accuracyRating: 0,
+      locationRating: 0,
+      valueRating: 0,
+    });
+  });
+});
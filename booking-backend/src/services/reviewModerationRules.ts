@@ -0,0 +1,131 @@
+import {
+  Prisma,
+  ReviewReportKind,
+  ReviewReportReason,
+  ReviewReportStatus,
+} from "@prisma/client";
+
+export interface ReportableReview {
+  authorId: string;
+  isVisible: boolean;
+  revealedAt: Date | null;
+}
+
+export interface ReportBlocker {
+  message: string;
+  statusCode: number;
+}
+
+export type RatedReview = {
+  rating: number;
+  cleanlinessRating?: number | null;
+  communicationRating?: number | null;
+  checkInRating?: number | null;
+  accuracyRating?: number | null;
+  locationRating?: number | null;
+  valueRating?: number | null;
+};
+
+const DETAILED_RATING_FIELDS = [
+  "cleanlinessRating",
+  "communicationRating",
+  "checkInRating",
+  "accuracyRating",
+  "locationRating",
+  "valueRating",
+] as const;
+
+export type RatingSummary = {
+  averageRating: number;
+  reviewCount: number;
+} & Record<(typeof DETAILED_RATING_FIELDS)[number], number>;
+
+const roundRating = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Why the user cannot report this review, or null when they can. Blind
+ * reviews are invisible to everyone but their author, so they read as
+ * missing.
+ */
+export const getReportBlocker = (
+  review: ReportableReview | null,
+  reporterId: string,
+): ReportBlocker | null => {
+  if (!review || (!review.revealedAt && review.authorId !== reporterId)) {
+    return { message: "Review not found", statusCode: 404 };
+  }
+
+  if (review.authorId === reporterId) {
+    return { message: "You cannot report your own review", statusCode: 400 };
+  }
+
+  if (!review.isVisible) {
+    return { message: "This review is already hidden", statusCode: 409 };
+  }
+
+  return null;
+};
+
+/**
+ * A report from someone who manages the reviewed property asks for the
+ * review to be removed; anyone else flags it.
+ */
+export const getReportKind = (managesProperty: boolean): ReviewReportKind =>
+  managesProperty ? ReviewReportKind.REMOVAL_REQUEST : ReviewReportKind.FLAG;
+
+export const describeReportReason = (reason: ReviewReportReason) =>
+  reason.toLowerCase().replace(/_/g, " ");
+
+// Oldest pending reports first; resolved ones most recent first
+export const getReportQueueOrder = (
+  status?: ReviewReportStatus,
+): Prisma.ReviewReportOrderByWithRelationInput =>
+  status === ReviewReportStatus.PENDING
+    ? { createdAt: "asc" }
+    : { updatedAt: "desc" };
+
+/**
+ * Fields written when an admin closes a report
+ */
+export const buildReportResolution = (
+  status: Exclude<ReviewReportStatus, "PENDING">,
+  adminId: string,
+  note: string | undefined,
+  now: Date = new Date(),
+) => ({
+  status,
+  resolvedById: adminId,
+  resolutionNote: note || null,
+  resolvedAt: now,
+});
+
+/**
+ * Ratings shown for a property or realtor, from its visible reviews and
+ * rounded to two decimals. Detailed ratings only average the reviews that
+ * gave them; with no reviews everything is 0.
+ */
+export const summarizeRatings = (reviews: RatedReview[]): RatingSummary => {
+  const average = (values: number[]) =>
+    values.length
+      ? roundRating(
+          values.reduce((sum, value) => sum + value, 0) / values.length,
+        )
+      : 0;
+
+  const detailed = Object.fromEntries(
+    DETAILED_RATING_FIELDS.map((field) => [
+      field,
+      average(
+        reviews
+          .map((review) => review[field])
+          .filter((value): value is number => typeof value === "number"),
+      ),
+    ]),
+  ) as Record<(typeof DETAILED_RATING_FIELDS)[number], number>;
+
+  return {
+    averageRating: average(reviews.map((review) => review.rating)),
+    reviewCount: reviews.length,
+    ...detailed,
+  };
+};
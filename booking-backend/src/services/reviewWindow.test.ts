@@ -0,0 +1,71 @@
+import {
+  buildGuestRatingSummary,
+  getReviewWindowClosesAt,
+  shouldRevealReviews,
+} from "./reviewWindow";
+
+const checkOutDate = new Date("2026-03-10T11:00:00Z");
+
+describe("reviewWindow", () => {
+  it("closes the review window 14 days after checkout", () => {
+    expect(getReviewWindowClosesAt(checkOutDate)).toEqual(
+      new Date("2026-03-24T11:00:00Z")
+    );
+  });
+
+  it("keeps a single review blind while the window is open", () => {
+    const now = new Date("2026-03-15T00:00:00Z");
+
+    expect(
+      shouldRevealReviews({
+        hasPropertyReview: true,
+        hasGuestReview: false,
+        checkOutDate,
+        now,
+      })
+    ).toBe(false);
+    expect(
+      shouldRevealReviews({
+        hasPropertyReview: true,
+        hasGuestReview: true,
+        checkOutDate,
+        now,
+      })
+    ).toBe(true);
+  });
+
+  it("reveals whatever was submitted once the window closes", () => {
+    expect(
+      shouldRevealReviews({
+        hasPropertyReview: false,
+        hasGuestReview: true,
+        checkOutDate,
+        now: new Date("2026-03-24T11:00:00Z"),
+      })
+    ).toBe(true);
+  });
+
+  it("averages category ratings into an overall guest rating", () => {
+    expect(
+      buildGuestRatingSummary({
+        reviewCount: 3,
+        cleanlinessRating: 4.666666,
+        communicationRating: 5,
+        houseRulesRating: 4,
+      })
+    ).toEqual({
+      averageRating: 4.56,
+      reviewCount: 3,
+      cleanlinessRating: 4.67,
+      communicationRating: 5,
+      houseRulesRating: 4,
+    });
+    expect(buildGuestRatingSummary({ reviewCount: 0 })).toEqual({
+      averageRating: null,
+      reviewCount: 0,
+      cleanlinessRating: null,
+      communicationRating: null,
+      houseRulesRating: null,
+    });
+  });
+});
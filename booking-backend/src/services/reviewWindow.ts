@@ -0,0 +1,75 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Double-blind review rules. A guest's review of the stay and the realtor's
+ * review of the guest stay hidden until both are in or the review window
+ * after checkout closes, so neither side can retaliate.
+ */
+
+export const REVIEW_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Realtor-facing review queries must not leak blind reviews
+export const REVEALED_REVIEW_FILTER = {
+  revealedAt: { not: null },
+} satisfies Prisma.ReviewWhereInput;
+
+export interface GuestRatingSummary {
+  averageRating: number | null;
+  reviewCount: number;
+  cleanlinessRating: number | null;
+  communicationRating: number | null;
+  houseRulesRating: number | null;
+}
+
+export const getReviewWindowClosesAt = (checkOutDate: Date): Date =>
+  new Date(checkOutDate.getTime() + REVIEW_WINDOW_DAYS * DAY_MS);
+
+export const isReviewWindowOpen = (
+  checkOutDate: Date,
+  now: Date = new Date(),
+): boolean => now < getReviewWindowClosesAt(checkOutDate);
+
+export const shouldRevealReviews = (input: {
+  hasPropertyReview: boolean;
+  hasGuestReview: boolean;
+  checkOutDate: Date;
+  now?: Date;
+}): boolean =>
+  (input.hasPropertyReview && input.hasGuestReview) ||
+  !isReviewWindowOpen(input.checkOutDate, input.now);
+
+const roundRating = (value: number | null | undefined) =>
+  value === null || value === undefined ? null : Math.round(value * 100) / 100;
+
+/**
+ * Build a guest's rating summary from averaged category ratings. The overall
+ * rating is the mean of the three categories.
+ */
+export const buildGuestRatingSummary = (input: {
+  reviewCount: number;
+  cleanlinessRating?: number | null;
+  communicationRating?: number | null;
+  houseRulesRating?: number | null;
+}): GuestRatingSummary => {
+  const categories = [
+    input.cleanlinessRating,
+    input.communicationRating,
+    input.houseRulesRating,
+  ].filter((value): value is number => typeof value === "number");
+
+  return {
+    averageRating:
+      input.reviewCount > 0 && categories.length > 0
+        ? roundRating(
+            categories.reduce((sum, value) => sum + value, 0) /
+              categories.length,
+          )
+        : null,
+    reviewCount: input.reviewCount,
+    cleanlinessRating: roundRating(input.cleanlinessRating),
+    communicationRating: roundRating(input.communicationRating),
+    houseRulesRating: roundRating(input.houseRulesRating),
+  };
+};
@@ -0,0 +1,113 @@
+import {
+  getBookingMessageRows,
+  getDueMessageAction,
+  getMessageReschedule,
+  getMessageRetry,
+  RETRY_BASE_DELAY_MS,
+} from "./scheduledMessageRules";
+
+const now = new Date("2026-03-17T09:00:00Z");
+
+const stay = {
+  status: "ACTIVE" as const,
+  checkInDate: new Date("2026-03-20T14:00:00Z"),
+  checkOutDate: new Date("2026-03-23T11:00:00Z"),
+};
+
+describe("scheduledMessageRules", () => {
+  it("queues stay messages only once the booking is paid", () => {
+    expect(
+      getBookingMessageRows({ ...stay, paymentStatus: "INITIATED" }, now)
+    ).toEqual([{ type: "BOOKING_CONFIRMED", dueAt: now }]);
+
+    expect(
+      getBookingMessageRows({ ...stay, paymentStatus: "HELD" }, now)
+    ).toEqual([
+      { type: "BOOKING_CONFIRMED", dueAt: now },
+      { type: "PAYMENT_CONFIRMED", dueAt: now },
+      { type: "HOUSE_RULES", dueAt: now },
+      {
+        type: "CHECKIN_INSTRUCTIONS",
+        dueAt: new Date("2026-03-19T14:00:00Z"),
+      },
+      { type: "CHECKOUT_REMINDER", dueAt: new Date("2026-03-22T11:00:00Z") },
+      {
+        type: "CHECKOUT_INSTRUCTIONS",
+        dueAt: new Date("2026-03-23T11:00:00Z"),
+      },
+    ]);
+  });
+
+  it("sends due messages for the booking's current dates", () => {
+    const dayBeforeCheckIn = new Date("2026-03-19T15:00:00Z");
+
+    expect(
+      getDueMessageAction("CHECKIN_INSTRUCTIONS", stay, dayBeforeCheckIn)
+    ).toEqual({ action: "send" });
+    expect(getDueMessageAction("HOUSE_RULES", stay, now)).toEqual({
+      action: "send",
+    });
+  });
+
+  it("cancels messages of cancelled or missing bookings", () => {
+    expect(
+      getDueMessageAction("HOUSE_RULES", { ...stay, status: "CANCELLED" }, now)
+    ).toEqual({ action: "cancel" });
+    expect(getDueMessageAction("HOUSE_RULES", null, now)).toEqual({
+      action: "cancel",
+    });
+  });
+
+  it("pushes back messages whose stay moved later and drops stale ones", () => {
+    expect(getDueMessageAction("CHECKIN_INSTRUCTIONS", stay, now)).toEqual({
+      action: "reschedule",
+      dueAt: new Date("2026-03-19T14:00:00Z"),
+    });
+    expect(
+      getDueMessageAction(
+        "CHECKOUT_REMINDER",
+        stay,
+        new Date("2026-03-24T12:00:00Z")
+      )
+    ).toEqual({
+      action: "cancel",
+      reason: "Message is no longer relevant for this stay",
+    });
+  });
+
+  it("requeues sent messages when new stay dates are still ahead", () => {
+    const later = new Date("2026-03-25T14:00:00Z");
+
+    expect(getMessageReschedule(later, now)).toEqual({
+      statuses: ["PENDING", "SENT"],
+      data: {
+        status: "PENDING",
+        dueAt: later,
+        attempts: 0,
+        lastError: null,
+        sentAt: null,
+      },
+    });
+    expect(getMessageReschedule(new Date("2026-03-16T14:00:00Z"), now)).toEqual(
+      {
+        statuses: ["PENDING"],
+        data: { dueAt: new Date("2026-03-16T14:00:00Z") },
+      }
+    );
+  });
+
+  it("backs off exponentially and fails after the last attempt", () => {
+    expect(getMessageRetry(0, 5, now)).toEqual({
+      attempts: 1,
+      dueAt: new Date(now.getTime() + RETRY_BASE_DELAY_MS),
+    });
+    expect(getMessageRetry(2, 5, now)).toEqual({
+      attempts: 3,
+      dueAt: new Date(now.getTime() + 4 * RETRY_BASE_DELAY_MS),
+    });
+    expect(getMessageRetry(4, 5, now)).toEqual({
+      attempts: 5,
+      status: "FAILED",
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  BookingStatus,
+  PaymentStatus,
+  ScheduledMessageStatus,
+  ScheduledMessageType,
+} from "@prisma/client";
+
+/**
+ * Timing rules for the system message queue: which messages a booking gets,
+ * when the date-driven ones fall due, and how failed sends back off.
+ */
+
+export const DEFERRED_MESSAGE_TYPES = [
+  ScheduledMessageType.CHECKIN_INSTRUCTIONS,
+  ScheduledMessageType.CHECKOUT_REMINDER,
+  ScheduledMessageType.CHECKOUT_INSTRUCTIONS,
+] as const;
+
+export type DeferredMessageType = (typeof DEFERRED_MESSAGE_TYPES)[number];
+
+// Date-driven messages still undelivered this long after their due time are dropped
+export const STALE_MESSAGE_MS = 24 * 60 * 60 * 1000;
+export const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PAID_STATUSES: PaymentStatus[] = [
+  PaymentStatus.HELD,
+  PaymentStatus.PARTIALLY_RELEASED,
+  PaymentStatus.SETTLED,
+];
+
+export const isDeferredMessageType = (
+  type: ScheduledMessageType,
+): type is DeferredMessageType =>
+  (DEFERRED_MESSAGE_TYPES as readonly ScheduledMessageType[]).includes(type);
+
+/**
+ * Due time of each date-driven message for the given stay dates
+ */
+export const getDeferredDueTimes = (
+  checkInDate: Date,
+  checkOutDate: Date,
+): Record<DeferredMessageType, Date> => ({
+  [ScheduledMessageType.CHECKIN_INSTRUCTIONS]: new Date(
+    new Date(checkInDate).getTime() - DAY_MS,
+  ),
+  [ScheduledMessageType.CHECKOUT_REMINDER]: new Date(
+    new Date(checkOutDate).getTime() - DAY_MS,
+  ),
+  [ScheduledMessageType.CHECKOUT_INSTRUCTIONS]: new Date(checkOutDate),
+});
+
+/**
+ * Messages to queue for a booking. The confirmation always goes out; the
+ * address, house rules and stay instructions wait for a paid booking.
+ */
+export const getBookingMessageRows = (
+  booking: {
+    paymentStatus: PaymentStatus | null;
+    checkInDate: Date;
+    checkOutDate: Date;
+  },
+  now: Date,
+): Array<{ type: ScheduledMessageType; dueAt: Date }> => {
+  const rows: Array<{ type: ScheduledMessageType; dueAt: Date }> = [
+    { type: ScheduledMessageType.BOOKING_CONFIRMED, dueAt: now },
+  ];
+
+  if (
+    !booking.paymentStatus ||
+    !PAID_STATUSES.includes(booking.paymentStatus)
+  ) {
+    return rows;
+  }
+
+  rows.push(
+    { type: ScheduledMessageType.PAYMENT_CONFIRMED, dueAt: now },
+    { type: ScheduledMessageType.HOUSE_RULES, dueAt: now },
+  );
+
+  const dueTimes = getDeferredDueTimes(
+    booking.checkInDate,
+    booking.checkOutDate,
+  );
+  for (const type of DEFERRED_MESSAGE_TYPES) {
+    rows.push({ type, dueAt: dueTimes[type] });
+  }
+
+  return rows;
+};
+
+export type DueMessageAction =
+  | { action: "send" }
+  | { action: "cancel"; reason?: string }
+  | { action: "reschedule"; dueAt: Date };
+
+/**
+ * What to do with a queued message picked up as due. Dates may have changed
+ * through a path that did not reschedule, so date-driven messages are
+ * checked against the booking's current stay.
+ */
+export const getDueMessageAction = (
+  type: ScheduledMessageType,
+  booking: {
+    status: BookingStatus;
+    checkInDate: Date;
+    checkOutDate: Date;
+  } | null,
+  now: Date,
+): DueMessageAction => {
+  if (!booking || booking.status === BookingStatus.CANCELLED) {
+    return { action: "cancel" };
+  }
+
+  if (!isDeferredMessageType(type)) {
+    return { action: "send" };
+  }
+
+  const dueAt = getDeferredDueTimes(booking.checkInDate, booking.checkOutDate)[
+    type
+  ];
+
+  if (dueAt > now) {
+    return { action: "reschedule", dueAt };
+  }
+
+  if (now.getTime() - dueAt.getTime() > STALE_MESSAGE_MS) {
+    return {
+      action: "cancel",
+      reason: "Message is no longer relevant for this stay",
+    };
+  }
+
+  return { action: "send" };
+};
+
+/**
+ * How a date-driven message follows new stay dates. When the new due time
+ * is still ahead, a message already sent for the old dates is queued again;
+ * otherwise only a pending one moves.
+ */
+export const getMessageReschedule = (
+  dueAt: Date,
+  now: Date,
+): {
+  statuses: ScheduledMessageStatus[];
+  data: {
+    dueAt: Date;
+    status?: ScheduledMessageStatus;
+    attempts?: number;
+    lastError?: null;
+    sentAt?: null;
+  };
+} =>
+  dueAt > now
+    ? {
+        statuses: [ScheduledMessageStatus.PENDING, ScheduledMessageStatus.SENT],
+        data: {
+          status: ScheduledMessageStatus.PENDING,
+          dueAt,
+          attempts: 0,
+          lastError: null,
+          sentAt: null,
+        },
+      }
+    : { statuses: [ScheduledMessageStatus.PENDING], data: { dueAt } };
+
+/**
+ * State after a failed send: retried with exponential backoff, or FAILED
+ * once the attempts run out.
+ */
+export const getMessageRetry = (
+  previousAttempts: number,
+  maxAttempts: number,
+  now: Date,
+): { attempts: number; status?: ScheduledMessageStatus; dueAt?: Date } => {
+  const attempts = previousAttempts + 1;
+
+  if (attempts >= maxAttempts) {
+    return { attempts, status: ScheduledMessageStatus.FAILED };
+  }
+
+  return {
+    attempts,
+    dueAt: new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+  };
+};
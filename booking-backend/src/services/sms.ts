@@ -0,0 +1,137 @@
+import axios from "axios";
+import { config } from "@/config";
+
+export interface SmsSendResult {
+  provider: string;
+  messageId?: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  send(to: string, body: string): Promise<SmsSendResult>;
+}
+
+export interface LocalSmsMessage {
+  to: string;
+  body: string;
+  sentAt: Date;
+}
+
+// Single-segment GSM length; longer bodies are truncated rather than billed
+// as multi-part messages
+export const SMS_MAX_LENGTH = 160;
+
+const DEFAULT_COUNTRY_CODE = "234";
+
+/**
+ * Normalize a phone number to international digits without the leading "+"
+ * (e.g. 08012345678 -> 2348012345678). Local numbers are assumed to be
+ * Nigerian. Returns null when the result cannot be a valid E.164 number.
+ */
+export const normalizePhoneNumber = (
+  raw: string | null | undefined,
+): string | null => {
+  const trimmed = String(raw || "").trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  let digits = trimmed.replace(/[^\d+]/g, "");
+  if (digits.startsWith("+")) {
+    digits = digits.slice(1);
+  } else if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith("0")) {
+    digits = `${DEFAULT_COUNTRY_CODE}${digits.slice(1)}`;
+  }
+
+  if (!/^\d{10,15}$/.test(digits)) {
+    return null;
+  }
+
+  return digits;
+};
+
+/**
+ * Keeps messages in memory instead of sending them. Used when no SMS
+ * provider is configured and in tests.
+ */
+export class LocalSmsTransport implements SmsProvider {
+  readonly name = "LOCAL";
+  readonly messages: LocalSmsMessage[] = [];
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    this.messages.push({ to, body, sentAt: new Date() });
+    return {
+      provider: this.name,
+      messageId: `local-${this.messages.length}`,
+    };
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
+
+export class TermiiSmsProvider implements SmsProvider {
+  readonly name = "TERMII";
+
+  constructor(
+    private apiKey: string,
+    private senderId: string,
+    private baseUrl: string,
+  ) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const response = await axios.post(
+      `${this.baseUrl.replace(/\/+$/, "")}/api/sms/send`,
+      {
+        api_key: this.apiKey,
+        to,
+        from: this.senderId,
+        sms: body,
+        type: "plain",
+        channel: "generic",
+      },
+      { timeout: 15000 },
+    );
+
+    return {
+      provider: this.name,
+      messageId: response.data?.message_id
+        ? String(response.data.message_id)
+        : undefined,
+    };
+  }
+}
+
+let smsProvider: SmsProvider | null = null;
+
+export const getSmsProvider = (): SmsProvider => {
+  if (smsProvider) {
+    return smsProvider;
+  }
+
+  if (config.SMS_PROVIDER === "termii") {
+    if (!config.TERMII_API_KEY) {
+      throw new Error("TERMII_API_KEY is required when SMS_PROVIDER=termii");
+    }
+
+    smsProvider = new TermiiSmsProvider(
+      config.TERMII_API_KEY,
+      config.TERMII_SENDER_ID,
+      config.TERMII_BASE_URL,
+    );
+  } else {
+    smsProvider = new LocalSmsTransport();
+  }
+
+  return smsProvider;
+};
+
+/**
+ * Swap the active provider (tests use a LocalSmsTransport to inspect sends)
+ */
+export const setSmsProvider = (provider: SmsProvider | null): void => {
+  smsProvider = provider;
+};
@@ -0,0 +1,228 @@
+import {
+  JournalDirection,
+  JournalEntryType,
+  LedgerAccount,
+  StatementPeriodType,
+} from "@prisma/client";
+import {
+  StatementJournalEntry,
+  buildStatement,
+  previousMonthPeriod,
+  realtorWalletMovement,
+  statementBookingIds,
+  statementPeriod,
+  statementToCsv,
+} from "./statementRules";
+
+const line = (
+  account: LedgerAccount,
+  direction: JournalDirection,
+  amount: number,
+  subledgerId: string | null = "realtor-1"
+) => ({ account, subledgerId, direction, amount });
+
+const walletCredit = (
+  source: string,
+  amount: number,
+  bookingId: string
+): StatementJournalEntry => ({
+  id: `${source}-${bookingId}`,
+  type: JournalEntryType.WALLET_CREDIT,
+  reference: bookingId,
+  metadata: { walletId: "wallet-1", source },
+  createdAt: new Date("2026-03-05T10:00:00.000Z"),
+  lines: [
+    line(LedgerAccount.ESCROW, JournalDirection.DEBIT, amount, bookingId),
+    line(LedgerAccount.REALTOR_PAYABLE, JournalDirection.CREDIT, amount),
+  ],
+});
+
+const entries: StatementJournalEntry[] = [
+  walletCredit("ROOM_FEE", 90000, "booking-1"),
+  walletCredit("CLEANING_FEE", 5000, "booking-1"),
+  {
+    id: "lock",
+    type: JournalEntryType.WITHDRAWAL_LOCKED,
+    reference: "TXN_1",
+    metadata: { walletId: "wallet-1" },
+    createdAt: new Date("2026-03-10T10:00:00.000Z"),
+    lines: [
+      line(LedgerAccount.REALTOR_PAYABLE, JournalDirection.DEBIT, 50000),
+      line(LedgerAccount.PAYOUT_CLEARING, JournalDirection.CREDIT, 50000),
+    ],
+  },
+  {
+    id: "paid",
+    type: JournalEntryType.WITHDRAWAL_COMPLETED,
+    reference: "TXN_1",
+    metadata: { withdrawalRequestId: "w1", walletId: "wallet-1" },
+    createdAt: new Date("2026-03-10T10:05:00.000Z"),
+    lines: [
+      line(LedgerAccount.PAYOUT_CLEARING, JournalDirection.DEBIT, 50000),
+      line(LedgerAccount.GATEWAY_BALANCE, JournalDirection.CREDIT, 49900, null),
+      line(
+        LedgerAccount.PLATFORM_REVENUE,
+        JournalDirection.CREDIT,
+        100,
+        "platform"
+      ),
+    ],
+  },
+  {
+    id: "debit",
+    type: JournalEntryType.WALLET_DEBIT,
+    reference: "booking-1",
+    metadata: { walletId: "wallet-1", source: "ADJUSTMENT" },
+    createdAt: new Date("2026-03-20T10:00:00.000Z"),
+    lines: [
+      line(LedgerAccount.REALTOR_PAYABLE, JournalDirection.DEBIT, 250),
+      line(LedgerAccount.GATEWAY_BALANCE, JournalDirection.CREDIT, 250, null),
+    ],
+  },
+];
+
+describe("statementRules", () => {
+  it("bounds monthly and annual periods in UTC", () => {
+    expect(statementPeriod(StatementPeriodType.MONTHLY, 2026, 2)).toEqual({
+      periodType: StatementPeriodType.MONTHLY,
+      periodStart: new Date("2026-02-01T00:00:00.000Z"),
+      periodEnd: new Date("2026-03-01T00:00:00.000Z"),
+      label: "February 2026",
+    });
+    expect(statementPeriod(StatementPeriodType.ANNUAL, 2025).periodEnd).toEqual(
+      new Date("2026-01-01T00:00:00.000Z")
+    );
+    expect(
+      previousMonthPeriod(new Date("2026-01-01T02:00:00.000Z")).label
+    ).toBe("December 2025");
+  });
+
+  it("ignores moves between available and clearing balances", () => {
+    expect(realtorWalletMovement(entries[2], "realtor-1")).toBe(0);
+    expect(realtorWalletMovement(entries[3], "realtor-1")).toBe(-50000);
+    expect(realtorWalletMovement(entries[0], "realtor-2")).toBe(0);
+    expect(statementBookingIds(entries)).toEqual(["booking-1"]);
+  });
+
+  it("builds balances, booking lines and withdrawals from the journal", () => {
+    const statement = buildStatement({
+      realtorId: "realtor-1",
+      openingBalance: 1000,
+      entries,
+      bookings: [
+        {
+          id: "booking-1",
+          propertyTitle: "Lekki loft",
+          checkInDate: new Date("2026-03-04T14:00:00.000Z"),
+          checkOutDate: new Date("2026-03-06T11:00:00.000Z"),
+          roomFee: 100000,
+          cleaningFee: 5000,
+          platformFee: 10000,
+          commissionRate: 0.085,
+          refunds: 0,
+          disputeDeductions: 1500,
+        },
+      ],
+    });
+
+    expect(statement.closingBalance).toBe(45750);
+    expect(statement.totals).toEqual({
+      roomFeesCredited: 90000,
+      cleaningFeesCredited: 5000,
+      depositsCredited: 0,
+      adjustments: -250,
+      commission: 8500,
+      refunds: 0,
+      disputeDeductions: 1500,
+      withdrawals: 50000,
+      withdrawalFees: 100,
+      netPayouts: 49900,
+    });
+    expect(statement.bookings[0]).toMatchObject({
+      bookingId: "booking-1",
+      commissionRate: 0.085,
+      commission: 8500,
+      credited: 95000,
+    });
+    expect(statement.withdrawals).toEqual([
+      {
+        reference: "TXN_1",
+        paidAt: new Date("2026-03-10T10:05:00.000Z"),
+        amount: 50000,
+        fee: 100,
+        netAmount: 49900,
+      },
+    ]);
+    expect(statement.adjustments).toEqual([
+      expect.objectContaining({ source: "ADJUSTMENT", amount: -250 }),
+    ]);
+  });
+
+  it("falls back to the platform fee when no rate was snapshotted", () => {
+    const statement = buildStatement({
+      realtorId: "realtor-1",
+      openingBalance: 0,
+      entries: [],
+      bookings: [
+        {
+          id: "booking-legacy",
+          propertyTitle: "Ikoyi flat",
+          checkInDate: new Date("2026-03-01T14:00:00.000Z"),
+          checkOutDate: new Date("2026-03-02T11:00:00.000Z"),
+          roomFee: 20000,
+          cleaningFee: 0,
+          platformFee: 2000,
+          commissionRate: null,
+          refunds: 500,
+          disputeDeductions: 0,
+        },
+      ],
+    });
+
+    expect(statement.bookings[0]).toMatchObject({
+      commission: 2000,
+      refunds: 500,
+      credited: 0,
+    });
+  });
+
+  it("writes the statement as a single CSV table", () => {
+    const period = statementPeriod(StatementPeriodType.MONTHLY, 2026, 3);
+    const rows = statementToCsv(
+      period,
+      buildStatement({
+        realtorId: "realtor-1",
+        openingBalance: 1000,
+        entries,
+        bookings: [
+          {
+            id: "booking-1",
+            propertyTitle: "Loft, Lekki",
+            checkInDate: new Date("2026-03-04T14:00:00.000Z"),
+            checkOutDate: new Date("2026-03-06T11:00:00.000Z"),
+            roomFee: 100000,
+            cleaningFee: 5000,
+            platformFee: 10000,
+            commissionRate: 0.085,
+            refunds: 0,
+            disputeDeductions: 0,
+          },
+        ],
+      })
+    ).split("\n");
+
+    expect(rows).toHaveLength(6);
+    expect(rows[1]).toBe(
+      "Opening balance,2026-03-01,,March 2026,,,,,,,1000.00,,"
+    );
+    expect(rows[2]).toBe(
+      'Booking,2026-03-04,booking-1,"Loft, Lekki",100000.00,5000.00,0.0850,8500.00,0.00,0.00,95000.00,,'
+    );
+    expect(rows[3]).toBe(
+      "Withdrawal,2026-03-10,TXN_1,Payout to bank account,,,,,,,-50000.00,100.00,49900.00"
+    );
+    expect(rows[5]).toBe(
+      "Closing balance,2026-03-31,,March 2026,,,,,,,45750.00,,"
+    );
+  });
+});
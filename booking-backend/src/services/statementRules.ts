@@ -0,0 +1,435 @@
+import {
+  JournalDirection,
+  JournalEntryType,
+  LedgerAccount,
+  StatementPeriodType,
+  WalletTransactionSource,
+} from "@prisma/client";
+import { CsvColumn, toCsv } from "@/utils/csv";
+
+export interface StatementPeriod {
+  periodType: StatementPeriodType;
+  periodStart: Date;
+  periodEnd: Date;
+  label: string;
+}
+
+export interface StatementJournalEntry {
+  id: string;
+  type: JournalEntryType;
+  reference: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+  lines: Array<{
+    account: LedgerAccount;
+    subledgerId: string | null;
+    direction: JournalDirection;
+    amount: number;
+  }>;
+}
+
+export interface StatementBookingRecord {
+  id: string;
+  propertyTitle: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+  roomFee: number;
+  cleaningFee: number;
+  platformFee: number;
+  commissionRate: number | null;
+  refunds: number;
+  disputeDeductions: number;
+}
+
+export interface StatementBookingLine {
+  bookingId: string;
+  propertyTitle: string;
+  checkInDate: Date;
+  checkOutDate: Date;
+  roomFee: number;
+  cleaningFee: number;
+  commissionRate: number | null;
+  commission: number;
+  refunds: number;
+  disputeDeductions: number;
+  credited: number;
+}
+
+export interface StatementWithdrawalLine {
+  reference: string | null;
+  paidAt: Date;
+  amount: number;
+  fee: number;
+  netAmount: number;
+}
+
+export interface StatementAdjustmentLine {
+  type: JournalEntryType;
+  source: string | null;
+  reference: string | null;
+  postedAt: Date;
+  amount: number;
+}
+
+export interface StatementTotals {
+  roomFeesCredited: number;
+  cleaningFeesCredited: number;
+  depositsCredited: number;
+  adjustments: number;
+  commission: number;
+  refunds: number;
+  disputeDeductions: number;
+  withdrawals: number;
+  withdrawalFees: number;
+  netPayouts: number;
+}
+
+export interface StatementContent {
+  openingBalance: number;
+  closingBalance: number;
+  totals: StatementTotals;
+  bookings: StatementBookingLine[];
+  withdrawals: StatementWithdrawalLine[];
+  adjustments: StatementAdjustmentLine[];
+}
+
+/**
+ * Accounts holding a realtor's wallet money: the available balance and
+ * withdrawals in flight. Moves between the two (withdrawal locks and
+ * releases) do not change the wallet balance on a statement.
+ */
+const REALTOR_WALLET_ACCOUNTS = new Set<LedgerAccount>([
+  LedgerAccount.REALTOR_PAYABLE,
+  LedgerAccount.PAYOUT_CLEARING,
+]);
+
+const BOOKING_CREDIT_SOURCES = new Set<string>([
+  WalletTransactionSource.ROOM_FEE,
+  WalletTransactionSource.CLEANING_FEE,
+  WalletTransactionSource.SECURITY_DEPOSIT,
+]);
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const toCents = (value: number): number => Math.round(value * 100);
+
+const roundMoney = (value: number): number => toCents(value) / 100;
+
+/**
+ * Bounds of a statement period in UTC. `periodEnd` is exclusive. `month`
+ * is 1-12 and ignored for annual statements.
+ */
+export const statementPeriod = (
+  periodType: StatementPeriodType,
+  year: number,
+  month?: number,
+): StatementPeriod => {
+  if (periodType === StatementPeriodType.ANNUAL) {
+    return {
+      periodType,
+      periodStart: new Date(Date.UTC(year, 0, 1)),
+      periodEnd: new Date(Date.UTC(year + 1, 0, 1)),
+      label: String(year),
+    };
+  }
+
+  return {
+    periodType,
+    periodStart: new Date(Date.UTC(year, month - 1, 1)),
+    periodEnd: new Date(Date.UTC(year, month, 1)),
+    label: `${MONTH_NAMES[month - 1]} ${year}`,
+  };
+};
+
+/** The most recent month that has fully closed at `now`. */
+export const previousMonthPeriod = (now: Date): StatementPeriod => {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  return month === 0
+    ? statementPeriod(StatementPeriodType.MONTHLY, year - 1, 12)
+    : statementPeriod(StatementPeriodType.MONTHLY, year, month);
+};
+
+/**
+ * Change to a realtor's wallet balance made by one journal entry:
+ * credits to their wallet accounts add, debits subtract.
+ */
+export const realtorWalletMovement = (
+  entry: Pick<StatementJournalEntry, "lines">,
+  realtorId: string,
+): number =>
+  roundMoney(
+    entry.lines.reduce((sum, line) => {
+      if (
+        line.subledgerId !== realtorId ||
+        !REALTOR_WALLET_ACCOUNTS.has(line.account)
+      ) {
+        return sum;
+      }
+      return line.direction === JournalDirection.CREDIT
+        ? sum + line.amount
+        : sum - line.amount;
+    }, 0),
+  );
+
+const walletSource = (entry: StatementJournalEntry): string | null =>
+  typeof entry.metadata?.source === "string" ? entry.metadata.source : null;
+
+/**
+ * Commission on a booking's room fee at the rate snapshotted when it
+ * was priced. Bookings priced before the snapshot existed fall back to
+ * the recorded platform fee.
+ */
+export const bookingCommission = (
+  booking: Pick<
+    StatementBookingRecord,
+    "roomFee" | "platformFee" | "commissionRate"
+  >,
+): number =>
+  booking.commissionRate === null
+    ? roundMoney(booking.platformFee)
+    : roundMoney(booking.roomFee * booking.commissionRate);
+
+/** Bookings referenced by the wallet credits of a statement's entries. */
+export const statementBookingIds = (
+  entries: StatementJournalEntry[],
+): string[] => [
+  ...new Set(
+    entries
+      .filter(
+        (entry) =>
+          entry.type === JournalEntryType.WALLET_CREDIT &&
+          entry.reference &&
+          BOOKING_CREDIT_SOURCES.has(walletSource(entry) ?? ""),
+      )
+      .map((entry) => entry.reference as string),
+  ),
+];
+
+/**
+ * Build a statement from the realtor's journal entries in the period,
+ * ordered by posting time, and the bookings those entries credit.
+ */
+export const buildStatement = (params: {
+  realtorId: string;
+  openingBalance: number;
+  entries: StatementJournalEntry[];
+  bookings: StatementBookingRecord[];
+}): StatementContent => {
+  const { realtorId, entries } = params;
+  const totals: StatementTotals = {
+    roomFeesCredited: 0,
+    cleaningFeesCredited: 0,
+    depositsCredited: 0,
+    adjustments: 0,
+    commission: 0,
+    refunds: 0,
+    disputeDeductions: 0,
+    withdrawals: 0,
+    withdrawalFees: 0,
+    netPayouts: 0,
+  };
+  const creditedByBooking = new Map<string, number>();
+  const withdrawals: StatementWithdrawalLine[] = [];
+  const adjustments: StatementAdjustmentLine[] = [];
+  let balance = params.openingBalance;
+
+  for (const entry of entries) {
+    const movement = realtorWalletMovement(entry, realtorId);
+    balance += movement;
+    const source = walletSource(entry);
+
+    if (
+      entry.type === JournalEntryType.WALLET_CREDIT &&
+      BOOKING_CREDIT_SOURCES.has(source ?? "")
+    ) {
+      if (source === WalletTransactionSource.ROOM_FEE) {
+        totals.roomFeesCredited += movement;
+      } else if (source === WalletTransactionSource.CLEANING_FEE) {
+        totals.cleaningFeesCredited += movement;
+      } else {
+        totals.depositsCredited += movement;
+      }
+      if (entry.reference) {
+        creditedByBooking.set(
+          entry.reference,
+          (creditedByBooking.get(entry.reference) ?? 0) + movement,
+        );
+      }
+      continue;
+    }
+
+    if (entry.type === JournalEntryType.WITHDRAWAL_COMPLETED) {
+      // The gross leaves payout clearing; the platform's share is the fee
+      const fee = entry.lines
+        .filter(
+          (line) =>
+            line.account === LedgerAccount.PLATFORM_REVENUE &&
+            line.direction === JournalDirection.CREDIT,
+        )
+        .reduce((sum, line) => sum + line.amount, 0);
+      const amount = -movement;
+      withdrawals.push({
+        reference: entry.reference,
+        paidAt: entry.createdAt,
+        amount: roundMoney(amount),
+        fee: roundMoney(fee),
+        netAmount: roundMoney(amount - fee),
+      });
+      totals.withdrawals += amount;
+      totals.withdrawalFees += fee;
+      totals.netPayouts += amount - fee;
+      continue;
+    }
+
+    if (movement !== 0) {
+      adjustments.push({
+        type: entry.type,
+        source,
+        reference: entry.reference,
+        postedAt: entry.createdAt,
+        amount: movement,
+      });
+      totals.adjustments += movement;
+    }
+  }
+
+  const bookings = params.bookings
+    .map((booking) => ({
+      bookingId: booking.id,
+      propertyTitle: booking.propertyTitle,
+      checkInDate: booking.checkInDate,
+      checkOutDate: booking.checkOutDate,
+      roomFee: roundMoney(booking.roomFee),
+      cleaningFee: roundMoney(booking.cleaningFee),
+      commissionRate: booking.commissionRate,
+      commission: bookingCommission(booking),
+      refunds: roundMoney(booking.refunds),
+      disputeDeductions: roundMoney(booking.disputeDeductions),
+      credited: roundMoney(creditedByBooking.get(booking.id) ?? 0),
+    }))
+    .sort((a, b) => a.checkInDate.getTime() - b.checkInDate.getTime());
+
+  for (const booking of bookings) {
+    totals.commission += booking.commission;
+    totals.refunds += booking.refunds;
+    totals.disputeDeductions += booking.disputeDeductions;
+  }
+
+  return {
+    openingBalance: roundMoney(params.openingBalance),
+    closingBalance: roundMoney(balance),
+    totals: Object.fromEntries(
+      Object.entries(totals).map(([key, value]) => [key, roundMoney(value)]),
+    ) as unknown as StatementTotals,
+    bookings,
+    withdrawals,
+    adjustments,
+  };
+};
+
+const toDay = (value: Date): string => value.toISOString().slice(0, 10);
+
+const money = (value: number | null | undefined): string | null =>
+  value === null || value === undefined ? null : value.toFixed(2);
+
+type StatementCsvRow = {
+  section: string;
+  date: Date;
+  reference: string | null;
+  description: string;
+  roomFee?: number;
+  cleaningFee?: number;
+  commissionRate?: number | null;
+  commission?: number;
+  refunds?: number;
+  disputeDeductions?: number;
+  amount: number;
+  fee?: number;
+  net?: number;
+};
+
+const STATEMENT_CSV_COLUMNS: CsvColumn<StatementCsvRow>[] = [
+  ["Section", (row) => row.section],
+  ["Date", (row) => toDay(row.date)],
+  ["Reference", (row) => row.reference],
+  ["Description", (row) => row.description],
+  ["Room fee", (row) => money(row.roomFee)],
+  ["Cleaning fee", (row) => money(row.cleaningFee)],
+  ["Commission rate", (row) => row.commissionRate?.toFixed(4)],
+  ["Commission", (row) => money(row.commission)],
+  ["Refunds", (row) => money(row.refunds)],
+  ["Dispute deductions", (row) => money(row.disputeDeductions)],
+  ["Amount", (row) => money(row.amount)],
+  ["Withdrawal fee", (row) => money(row.fee)],
+  ["Net payout", (row) => money(row.net)],
+];
+
+/**
+ * One CSV for the whole statement: the opening balance, a row per
+ * booking, withdrawal and adjustment, then the closing balance, so it
+ * imports into a spreadsheet as a single table. Booking amounts are
+ * what was credited to the wallet in the period.
+ */
+export const statementToCsv = (
+  period: StatementPeriod,
+  content: StatementContent,
+): string =>
+  toCsv(STATEMENT_CSV_COLUMNS, [
+    {
+      section: "Opening balance",
+      date: period.periodStart,
+      reference: null,
+      description: period.label,
+      amount: content.openingBalance,
+    },
+    ...content.bookings.map((booking) => ({
+      section: "Booking",
+      date: booking.checkInDate,
+      reference: booking.bookingId,
+      description: booking.propertyTitle,
+      roomFee: booking.roomFee,
+      cleaningFee: booking.cleaningFee,
+      commissionRate: booking.commissionRate,
+      commission: booking.commission,
+      refunds: booking.refunds,
+      disputeDeductions: booking.disputeDeductions,
+      amount: booking.credited,
+    })),
+    ...content.withdrawals.map((withdrawal) => ({
+      section: "Withdrawal",
+      date: withdrawal.paidAt,
+      reference: withdrawal.reference,
+      description: "Payout to bank account",
+      amount: -withdrawal.amount,
+      fee: withdrawal.fee,
+      net: withdrawal.netAmount,
+    })),
+    ...content.adjustments.map((adjustment) => ({
+      section: "Adjustment",
+      date: adjustment.postedAt,
+      reference: adjustment.reference,
+      description: adjustment.source ?? adjustment.type,
+      amount: adjustment.amount,
+    })),
+    {
+      section: "Closing balance",
+      date: new Date(period.periodEnd.getTime() - 1),
+      reference: null,
+      description: period.label,
+      amount: content.closingBalance,
+    },
+  ]);
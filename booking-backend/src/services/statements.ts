@@ -0,0 +1,490 @@
+import {
+  BookingModificationStatus,
+  DisputeFinalOutcome,
+  DisputeSubject,
+  LedgerAccount,
+  Prisma,
+  RefundRequestStatus,
+  StatementPeriodType,
+  WalletOwnerType,
+} from "@prisma/client";
+import { createHash } from "crypto";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import { logger } from "@/utils/logger";
+import { PDFService } from "@/services/pdf";
+import { sendRealtorStatementEmail } from "@/services/email";
+import {
+  StatementBookingRecord,
+  StatementContent,
+  StatementJournalEntry,
+  StatementPeriod,
+  buildStatement,
+  realtorWalletMovement,
+  statementBookingIds,
+  statementToCsv,
+} from "@/services/statementRules";
+import {
+  DEFAULT_CURRENCY,
+  SettlementCurrency,
+  settlementCurrencyOf,
+} from "@/services/currency";
+
+const REALTOR_WALLET_ACCOUNTS = [
+  LedgerAccount.REALTOR_PAYABLE,
+  LedgerAccount.PAYOUT_CLEARING,
+];
+
+// Dispute outcomes that returned part of the room fee to the guest
+const ROOM_FEE_REFUND_OUTCOMES = [
+  DisputeFinalOutcome.FULL_REFUND_EXECUTED,
+  DisputeFinalOutcome.PARTIAL_REFUND_EXECUTED,
+];
+
+const statementListSelect = {
+  id: true,
+  periodType: true,
+  periodStart: true,
+  periodEnd: true,
+  currency: true,
+  openingBalance: true,
+  closingBalance: true,
+  summary: true,
+  checksum: true,
+  generatedAt: true,
+  emailedAt: true,
+} satisfies Prisma.RealtorStatementSelect;
+
+const toNumber = (value: Prisma.Decimal | null | undefined): number =>
+  value ? value.toNumber() : 0;
+
+// Naira statements keep their original filenames
+export const statementFilename = (
+  statement: {
+    periodType: StatementPeriodType;
+    periodStart: Date;
+    currency: string;
+  },
+  extension: "pdf" | "csv",
+): string => {
+  const period =
+    statement.periodType === StatementPeriodType.ANNUAL
+      ? statement.periodStart.toISOString().slice(0, 4)
+      : statement.periodStart.toISOString().slice(0, 7);
+  const suffix =
+    statement.currency === DEFAULT_CURRENCY
+      ? ""
+      : `-${statement.currency.toLowerCase()}`;
+  return `stayza-statement-${period}${suffix}.${extension}`;
+};
+
+/**
+ * The realtor's wallet balance in one currency before `before`, from
+ * their journal lines in the available and clearing accounts.
+ */
+const getRealtorBalanceAt = async (
+  realtorId: string,
+  currency: SettlementCurrency,
+  before: Date,
+): Promise<number> => {
+  const rows = await prisma.journalLine.groupBy({
+    by: ["account", "subledgerId", "direction"],
+    where: {
+      account: { in: REALTOR_WALLET_ACCOUNTS },
+      subledgerId: realtorId,
+      currency,
+      createdAt: { lt: before },
+    },
+    _sum: { amount: true },
+  });
+
+  return realtorWalletMovement(
+    {
+      lines: rows.map((row) => ({
+        account: row.account,
+        subledgerId: row.subledgerId,
+        direction: row.direction,
+        amount: toNumber(row._sum.amount),
+      })),
+    },
+    realtorId,
+  );
+};
+
+const getPeriodEntries = async (
+  realtorId: string,
+  currency: SettlementCurrency,
+  period: StatementPeriod,
+): Promise<StatementJournalEntry[]> => {
+  const entries = await prisma.journalEntry.findMany({
+    where: {
+      createdAt: { gte: period.periodStart, lt: period.periodEnd },
+      lines: {
+        some: {
+          account: { in: REALTOR_WALLET_ACCOUNTS },
+          subledgerId: realtorId,
+          currency,
+        },
+      },
+    },
+    include: { lines: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return entries.map((entry) => ({
+    id: entry.id,
+    type: entry.type,
+    reference: entry.reference,
+    metadata:
+      entry.metadata && typeof entry.metadata === "object"
+        ? (entry.metadata as Record<string, unknown>)
+        : null,
+    createdAt: entry.createdAt,
+    lines: entry.lines.map((line) => ({
+      account: line.account,
+      subledgerId: line.subledgerId,
+      direction: line.direction,
+      amount: line.amount.toNumber(),
+    })),
+  }));
+};
+
+const getStatementBookings = async (
+  realtorId: string,
+  bookingIds: string[],
+): Promise<StatementBookingRecord[]> => {
+  const bookings = await prisma.booking.findMany({
+    where: { id: { in: bookingIds }, property: { realtorId } },
+    select: {
+      id: true,
+      checkInDate: true,
+      checkOutDate: true,
+      roomFee: true,
+      cleaningFee: true,
+      platformFee: true,
+      commissionEffectiveRate: true,
+      property: { select: { title: true } },
+      payment: { select: { commissionEffectiveRate: true } },
+      refundRequests: {
+        where: { status: RefundRequestStatus.COMPLETED },
+        select: { actualRefundAmount: true },
+      },
+      modifications: {
+        where: { status: BookingModificationStatus.COMPLETED },
+        select: { refundAmount: true },
+      },
+      disputes: {
+        where: {
+          disputeSubject: DisputeSubject.ROOM_FEE,
+          finalOutcome: { in: ROOM_FEE_REFUND_OUTCOMES },
+        },
+        select: { guestRefundAmount: true },
+      },
+    },
+  });
+
+  return bookings.map((booking) => {
+    const rate =
+      booking.commissionEffectiveRate ??
+      booking.payment?.commissionEffectiveRate;
+
+    return {
+      id: booking.id,
+      propertyTitle: booking.property.title,
+      checkInDate: booking.checkInDate,
+      checkOutDate: booking.checkOutDate,
+      roomFee: toNumber(booking.roomFee),
+      cleaningFee: toNumber(booking.cleaningFee),
+      platformFee: toNumber(booking.platformFee),
+      commissionRate: rate ? rate.toNumber() : null,
+      refunds:
+        booking.refundRequests.reduce(
+          (sum, refund) => sum + toNumber(refund.actualRefundAmount),
+          0,
+        ) +
+        booking.modifications.reduce(
+          (sum, modification) => sum + toNumber(modification.refundAmount),
+          0,
+        ),
+      disputeDeductions: booking.disputes.reduce(
+        (sum, dispute) => sum + toNumber(dispute.guestRefundAmount),
+        0,
+      ),
+    };
+  });
+};
+
+const findStatement = (
+  realtorId: string,
+  period: StatementPeriod,
+  currency: SettlementCurrency,
+) =>
+  prisma.realtorStatement.findUnique({
+    where: {
+      realtorId_periodType_periodStart_currency: {
+        realtorId,
+        periodType: period.periodType,
+        periodStart: period.periodStart,
+        currency,
+      },
+    },
+    select: statementListSelect,
+  });
+
+/**
+ * Generate and archive a realtor's statement for a closed period and one
+ * wallet currency. A statement is rendered once; asking again for the
+ * same period returns the archived copy unchanged.
+ */
+export const generateRealtorStatement = async (
+  realtorId: string,
+  period: StatementPeriod,
+  currency: SettlementCurrency = DEFAULT_CURRENCY,
+  now: Date = new Date(),
+) => {
+  if (period.periodEnd > now) {
+    throw new AppError(
+      "Statements can only be generated for periods that have closed",
+      400,
+    );
+  }
+
+  const existing = await findStatement(realtorId, period, currency);
+  if (existing) {
+    return { statement: existing, created: false };
+  }
+
+  const realtor = await prisma.realtor.findUnique({
+    where: { id: realtorId },
+    select: { businessName: true },
+  });
+  if (!realtor) {
+    throw new AppError("Realtor not found", 404);
+  }
+
+  const [openingBalance, entries] = await Promise.all([
+    getRealtorBalanceAt(realtorId, currency, period.periodStart),
+    getPeriodEntries(realtorId, currency, period),
+  ]);
+  const bookings = await getStatementBookings(
+    realtorId,
+    statementBookingIds(entries),
+  );
+  const content: StatementContent = buildStatement({
+    realtorId,
+    openingBalance,
+    entries,
+    bookings,
+  });
+
+  const generatedAt = new Date();
+  const pdf = await PDFService.generateRealtorStatement(
+    { businessName: realtor.businessName },
+    period,
+    content,
+    currency,
+    generatedAt,
+  );
+
+  try {
+    const statement = await prisma.realtorStatement.create({
+      data: {
+        realtorId,
+        periodType: period.periodType,
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        currency,
+        openingBalance: new Prisma.Decimal(content.openingBalance),
+        closingBalance: new Prisma.Decimal(content.closingBalance),
+        summary: JSON.parse(
+          JSON.stringify({
+            label: period.label,
+            totals: content.totals,
+            bookings: content.bookings,
+            withdrawals: content.withdrawals,
+            adjustments: content.adjustments,
+          }),
+        ),
+        pdf,
+        csv: statementToCsv(period, content),
+        checksum: createHash("sha256").update(pdf).digest("hex"),
+        generatedAt,
+      },
+      select: statementListSelect,
+    });
+
+    return { statement, created: true };
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      // Generated concurrently by the monthly job or another request
+      return {
+        statement: await findStatement(realtorId, period, currency),
+        created: false,
+      };
+    }
+    throw error;
+  }
+};
+
+export const listRealtorStatements = async (
+  realtorId: string,
+  filters: {
+    periodType?: StatementPeriodType;
+    currency?: SettlementCurrency;
+    page: number;
+    limit: number;
+  },
+) => {
+  const where: Prisma.RealtorStatementWhereInput = {
+    realtorId,
+    ...(filters.periodType ? { periodType: filters.periodType } : {}),
+    ...(filters.currency ? { currency: filters.currency } : {}),
+  };
+
+  const [statements, total] = await Promise.all([
+    prisma.realtorStatement.findMany({
+      where,
+      select: statementListSelect,
+      orderBy: [{ periodStart: "desc" }, { periodType: "asc" }],
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.realtorStatement.count({ where }),
+  ]);
+
+  return { statements, total };
+};
+
+export const getRealtorStatementFile = async (
+  realtorId: string,
+  statementId: string,
+  format: "pdf" | "csv",
+) => {
+  const statement = await prisma.realtorStatement.findFirst({
+    where: { id: statementId, realtorId },
+    select: {
+      periodType: true,
+      periodStart: true,
+      currency: true,
+      pdf: format === "pdf",
+      csv: format === "csv",
+    },
+  });
+  if (!statement) {
+    throw new AppError("Statement not found", 404);
+  }
+
+  return {
+    filename: statementFilename(statement, format),
+    content:
+      format === "pdf" ? Buffer.from(statement.pdf) : (statement.csv as string),
+  };
+};
+
+/**
+ * Generate the statement for a closed month for every realtor wallet
+ * that moved or held a balance in it, one per currency, and email each
+ * one the PDF. Statements already emailed are skipped, so a rerun only
+ * retries failures.
+ */
+export const generateMonthlyStatements = async (period: StatementPeriod) => {
+  const [activeRows, balanceRows] = await Promise.all([
+    prisma.journalLine.findMany({
+      where: {
+        account: { in: REALTOR_WALLET_ACCOUNTS },
+        createdAt: { gte: period.periodStart, lt: period.periodEnd },
+        subledgerId: { not: null },
+      },
+      distinct: ["subledgerId", "currency"],
+      select: { subledgerId: true, currency: true },
+    }),
+    prisma.wallet.findMany({
+      where: {
+        ownerType: WalletOwnerType.REALTOR,
+        OR: [{ balanceAvailable: { not: 0 } }, { balancePending: { not: 0 } }],
+      },
+      select: { ownerId: true, currency: true },
+    }),
+  ]);
+  const candidates = new Map<string, SettlementCurrency[]>();
+  for (const [realtorId, currency] of [
+    ...activeRows.map((row) => [row.subledgerId as string, row.currency]),
+    ...balanceRows.map((row) => [row.ownerId, row.currency]),
+  ]) {
+    const currencies = candidates.get(realtorId) ?? [];
+    if (!currencies.includes(settlementCurrencyOf(currency))) {
+      currencies.push(settlementCurrencyOf(currency));
+    }
+    candidates.set(realtorId, currencies);
+  }
+  const realtors = await prisma.realtor.findMany({
+    where: { id: { in: [...candidates.keys()] } },
+    select: { id: true, businessName: true, user: { select: { email: true } } },
+  });
+  const wallets = realtors.flatMap((realtor) =>
+    (candidates.get(realtor.id) ?? []).map((currency) => ({
+      realtor,
+      currency,
+    })),
+  );
+
+  let generated = 0;
+  let emailed = 0;
+  let failed = 0;
+
+  for (const { realtor, currency } of wallets) {
+    try {
+      const { statement, created } = await generateRealtorStatement(
+        realtor.id,
+        period,
+        currency,
+      );
+      if (created) {
+        generated += 1;
+      }
+      if (!statement || statement.emailedAt || !realtor.user?.email) {
+        continue;
+      }
+
+      const { content } = await getRealtorStatementFile(
+        realtor.id,
+        statement.id,
+        "pdf",
+      );
+      await sendRealtorStatementEmail({
+        to: realtor.user.email,
+        businessName: realtor.businessName,
+        periodLabel: period.label,
+        openingBalance: statement.openingBalance.toNumber(),
+        closingBalance: statement.closingBalance.toNumber(),
+        currency: statement.currency,
+        filename: statementFilename(statement, "pdf"),
+        pdf: content as Buffer,
+      });
+      await prisma.realtorStatement.update({
+        where: { id: statement.id },
+        data: { emailedAt: new Date() },
+      });
+      emailed += 1;
+    } catch (error) {
+      failed += 1;
+      logger.error("Failed to generate or send realtor statement", {
+        realtorId: realtor.id,
+        period: period.label,
+        currency,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return {
+    realtors: realtors.length,
+    statements: wallets.length,
+    generated,
+    emailed,
+    failed,
+  };
+};
@@ -0,0 +1,82 @@
+import { SupportTicketPriority, SupportTicketStatus } from "@prisma/client";
+import {
+  canTransitionSupportTicket,
+  getNewSupportSlaBreaches,
+  getSupportSlaDeadlines,
+} from "./supportSla";
+
+describe("supportSla", () => {
+  const openedAt = new Date("2026-03-15T09:00:00.000Z");
+
+  it("sets deadlines from the ticket priority", () => {
+    const high = getSupportSlaDeadlines(SupportTicketPriority.HIGH, openedAt);
+    expect(high.firstResponseDueAt.toISOString()).toBe(
+      "2026-03-15T13:00:00.000Z"
+    );
+    expect(high.resolutionDueAt.toISOString()).toBe("2026-03-16T09:00:00.000Z");
+
+    const low = getSupportSlaDeadlines(SupportTicketPriority.LOW, openedAt);
+    expect(low.firstResponseDueAt.toISOString()).toBe(
+      "2026-03-16T09:00:00.000Z"
+    );
+  });
+
+  it("only allows reopening from resolved or closed", () => {
+    expect(
+      canTransitionSupportTicket(
+        SupportTicketStatus.CLOSED,
+        SupportTicketStatus.OPEN
+      )
+    ).toBe(true);
+    expect(
+      canTransitionSupportTicket(
+        SupportTicketStatus.CLOSED,
+        SupportTicketStatus.RESOLVED
+      )
+    ).toBe(false);
+    expect(
+      canTransitionSupportTicket(
+        SupportTicketStatus.RESOLVED,
+        SupportTicketStatus.IN_PROGRESS
+      )
+    ).toBe(false);
+  });
+
+  it("reports each missed deadline once while the ticket is active", () => {
+    const deadlines = getSupportSlaDeadlines(
+      SupportTicketPriority.HIGH,
+      openedAt
+    );
+    const ticket = {
+      status: SupportTicketStatus.OPEN,
+      ...deadlines,
+      firstRespondedAt: null,
+      firstResponseBreachedAt: null,
+      resolutionBreachedAt: null,
+    };
+    const afterBoth = new Date("2026-03-16T10:00:00.000Z");
+
+    expect(getNewSupportSlaBreaches(ticket, afterBoth)).toEqual({
+      firstResponse: true,
+      resolution: true,
+    });
+    expect(
+      getNewSupportSlaBreaches(
+        { ...ticket, firstResponseBreachedAt: afterBoth },
+        afterBoth
+      )
+    ).toEqual({ firstResponse: false, resolution: true });
+    expect(
+      getNewSupportSlaBreaches(
+        { ...ticket, firstRespondedAt: openedAt },
+        new Date("2026-03-15T14:00:00.000Z")
+      )
+    ).toEqual({ firstResponse: false, resolution: false });
+    expect(
+      getNewSupportSlaBreaches(
+        { ...ticket, status: SupportTicketStatus.RESOLVED },
+        afterBoth
+      )
+    ).toEqual({ firstResponse: false, resolution: false });
+  });
+});
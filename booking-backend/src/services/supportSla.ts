@@ -0,0 +1,90 @@
+import {
+  SupportTicketPriority,
+  SupportTicketStatus,
+} from "@prisma/client";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Hours allowed for the first admin reply and for resolving a ticket.
+ */
+export const SUPPORT_SLA_HOURS: Record<
+  SupportTicketPriority,
+  { firstResponse: number; resolution: number }
+> = {
+  [SupportTicketPriority.HIGH]: { firstResponse: 4, resolution: 24 },
+  [SupportTicketPriority.MEDIUM]: { firstResponse: 12, resolution: 72 },
+  [SupportTicketPriority.LOW]: { firstResponse: 24, resolution: 120 },
+};
+
+// Resolved tickets with no further activity are closed after this long
+export const SUPPORT_AUTO_CLOSE_DAYS = 7;
+
+const ALLOWED_TRANSITIONS: Record<SupportTicketStatus, SupportTicketStatus[]> =
+  {
+    [SupportTicketStatus.OPEN]: [
+      SupportTicketStatus.IN_PROGRESS,
+      SupportTicketStatus.RESOLVED,
+      SupportTicketStatus.CLOSED,
+    ],
+    [SupportTicketStatus.IN_PROGRESS]: [
+      SupportTicketStatus.OPEN,
+      SupportTicketStatus.RESOLVED,
+      SupportTicketStatus.CLOSED,
+    ],
+    [SupportTicketStatus.RESOLVED]: [
+      SupportTicketStatus.OPEN,
+      SupportTicketStatus.CLOSED,
+    ],
+    [SupportTicketStatus.CLOSED]: [SupportTicketStatus.OPEN],
+  };
+
+export const isSupportTicketActive = (status: SupportTicketStatus): boolean =>
+  status === SupportTicketStatus.OPEN ||
+  status === SupportTicketStatus.IN_PROGRESS;
+
+export const canTransitionSupportTicket = (
+  from: SupportTicketStatus,
+  to: SupportTicketStatus,
+): boolean => ALLOWED_TRANSITIONS[from].includes(to);
+
+export const getSupportSlaDeadlines = (
+  priority: SupportTicketPriority,
+  from: Date = new Date(),
+) => {
+  const hours = SUPPORT_SLA_HOURS[priority];
+  return {
+    firstResponseDueAt: new Date(from.getTime() + hours.firstResponse * HOUR_MS),
+    resolutionDueAt: new Date(from.getTime() + hours.resolution * HOUR_MS),
+  };
+};
+
+export interface SupportSlaState {
+  status: SupportTicketStatus;
+  firstResponseDueAt: Date;
+  resolutionDueAt: Date;
+  firstRespondedAt: Date | null;
+  firstResponseBreachedAt: Date | null;
+  resolutionBreachedAt: Date | null;
+}
+
+/**
+ * Deadlines the ticket has missed as of `now` that have not been recorded
+ * yet. Only active tickets can breach.
+ */
+export const getNewSupportSlaBreaches = (
+  ticket: SupportSlaState,
+  now: Date = new Date(),
+) => {
+  if (!isSupportTicketActive(ticket.status)) {
+    return { firstResponse: false, resolution: false };
+  }
+
+  return {
+    firstResponse:
+      !ticket.firstRespondedAt &&
+      !ticket.firstResponseBreachedAt &&
+      ticket.firstResponseDueAt <= now,
+    resolution: !ticket.resolutionBreachedAt && ticket.resolutionDueAt <= now,
+  };
+};
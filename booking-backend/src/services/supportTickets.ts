@@ -0,0 +1,822 @@
+import {
+  Prisma,
+  SupportTicketCategory,
+  SupportTicketPriority,
+  SupportTicketStatus,
+  UserRole,
+} from "@prisma/client";
+import { prisma } from "@/config/database";
+import { AppError } from "@/middleware/errorHandler";
+import {
+  createAdminNotification,
+  NotificationService,
+} from "@/services/notificationService";
+import {
+  canTransitionSupportTicket,
+  getNewSupportSlaBreaches,
+  getSupportSlaDeadlines,
+  isSupportTicketActive,
+  SUPPORT_AUTO_CLOSE_DAYS,
+  SUPPORT_SLA_HOURS,
+} from "@/services/supportSla";
+import {
+  adminRolesWithPermission,
+  hasAdminPermission,
+} from "@/services/adminPermissionRules";
+import { actsForRealtor } from "@/services/realtorTeam";
+import { logger } from "@/utils/logger";
+
+const MAX_SUBJECT_LENGTH = 150;
+const MAX_CONTENT_LENGTH = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SupportActor {
+  id: string;
+  role: UserRole;
+}
+
+export interface CreateSupportTicketInput {
+  subject?: unknown;
+  description?: unknown;
+  category?: unknown;
+  priority?: unknown;
+  bookingId?: unknown;
+  disputeId?: unknown;
+}
+
+export interface UpdateSupportTicketInput {
+  priority?: unknown;
+  category?: unknown;
+  bookingId?: unknown;
+  disputeId?: unknown;
+}
+
+export interface AdminSupportTicketFilters {
+  status?: SupportTicketStatus;
+  priority?: SupportTicketPriority;
+  category?: SupportTicketCategory;
+  // "me", "unassigned" or an admin user id
+  assignedTo?: string;
+  breachedOnly?: boolean;
+  search?: string;
+  page: number;
+  limit: number;
+}
+
+const BOOKING_SUMMARY_SELECT = {
+  id: true,
+  checkInDate: true,
+  checkOutDate: true,
+  property: { select: { id: true, title: true } },
+  guest: { select: { firstName: true, lastName: true, email: true } },
+} satisfies Prisma.BookingSelect;
+
+// Requesters never see internal admin notes or who is handling the ticket
+const requesterTicketInclude = {
+  booking: { select: BOOKING_SUMMARY_SELECT },
+  attachments: { where: { messageId: null }, orderBy: { createdAt: "asc" } },
+  messages: {
+    where: { isInternal: false },
+    orderBy: { createdAt: "asc" },
+    include: { attachments: true },
+  },
+} satisfies Prisma.SupportTicketInclude;
+
+const adminTicketInclude = {
+  requester: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      role: true,
+    },
+  },
+  assignedAdmin: {
+    select: { id: true, firstName: true, lastName: true, email: true },
+  },
+  booking: { select: BOOKING_SUMMARY_SELECT },
+  dispute: { select: { id: true, status: true, category: true } },
+  attachments: { where: { messageId: null }, orderBy: { createdAt: "asc" } },
+  messages: {
+    orderBy: { createdAt: "asc" },
+    include: {
+      attachments: true,
+      author: {
+        select: { id: true, firstName: true, lastName: true, role: true },
+      },
+    },
+  },
+} satisfies Prisma.SupportTicketInclude;
+
+const adminQueueInclude = {
+  requester: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      role: true,
+    },
+  },
+  assignedAdmin: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  booking: { select: { id: true, property: { select: { title: true } } } },
+  _count: { select: { messages: true } },
+} satisfies Prisma.SupportTicketInclude;
+
+const parseEnumValue = <T extends string>(
+  value: unknown,
+  allowed: Record<string, T>,
+  label: string,
+): T => {
+  const key = typeof value === "string" ? value.trim().toUpperCase() : "";
+  if (!Object.values(allowed).includes(key as T)) {
+    throw new AppError(
+      `${label} must be one of: ${Object.values(allowed).join(", ")}`,
+      400,
+    );
+  }
+  return key as T;
+};
+
+export const parseSupportCategory = (value: unknown) =>
+  parseEnumValue(value, SupportTicketCategory, "Category");
+
+export const parseSupportPriority = (value: unknown) =>
+  parseEnumValue(value, SupportTicketPriority, "Priority");
+
+export const parseSupportStatus = (value: unknown) =>
+  parseEnumValue(value, SupportTicketStatus, "Status");
+
+const requireText = (value: unknown, label: string, maxLength: number) => {
+  const text = typeof value === "string" ? value.trim() : "";
+  if (!text) {
+    throw new AppError(`${label} is required`, 400);
+  }
+  if (text.length > maxLength) {
+    throw new AppError(
+      `${label} cannot exceed ${maxLength} characters`,
+      400,
+    );
+  }
+  return text;
+};
+
+const optionalId = (value: unknown) =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const toAttachmentRows = (
+  files: Express.Multer.File[] | undefined,
+  ticketId: string,
+  uploadedById: string,
+  messageId?: string,
+): Prisma.SupportAttachmentCreateManyInput[] =>
+  (files ?? []).map((file) => ({
+    ticketId,
+    messageId,
+    uploadedById,
+    name: file.originalname,
+    url: file.path,
+    size: file.size,
+    mimeType: file.mimetype,
+  }));
+
+const notifySafely = async (
+  notification: Parameters<NotificationService["createAndSendNotification"]>[0],
+) => {
+  try {
+    await NotificationService.getInstance().createAndSendNotification(
+      notification,
+    );
+  } catch (error) {
+    logger.error("Failed to send support ticket notification", {
+      ticketId: notification.data?.ticketId,
+      error,
+    });
+  }
+};
+
+/**
+ * Check a booking/dispute link on a ticket. Guests and realtors may only
+ * link their own bookings; a dispute implies its booking.
+ */
+const resolveTicketLinks = async (
+  actor: SupportActor,
+  bookingIdInput: unknown,
+  disputeIdInput: unknown,
+) => {
+  let bookingId = optionalId(bookingIdInput);
+  const disputeId = optionalId(disputeIdInput);
+
+  if (disputeId) {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id: disputeId },
+      select: { bookingId: true },
+    });
+    if (!dispute) {
+      throw new AppError("Dispute not found", 404);
+    }
+    if (bookingId && bookingId !== dispute.bookingId) {
+      throw new AppError("Dispute does not belong to this booking", 400);
+    }
+    bookingId = dispute.bookingId;
+  }
+
+  if (bookingId) {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: {
+        guestId: true,
+        property: { select: { realtorId: true } },
+      },
+    });
+    if (!booking) {
+      throw new AppError("Booking not found", 404);
+    }
+    if (
+      actor.role !== UserRole.ADMIN &&
+      booking.guestId !== actor.id &&
+      !(await actsForRealtor(
+        actor.id,
+        booking.property.realtorId,
+        "bookings.read",
+      ))
+    ) {
+      throw new AppError("You can only link your own bookings", 403);
+    }
+  }
+
+  return { bookingId, disputeId };
+};
+
+const loadTicket = async (ticketId: string) => {
+  const ticket = await prisma.supportTicket.findUnique({
+    where: { id: ticketId },
+  });
+  if (!ticket) {
+    throw new AppError("Support ticket not found", 404);
+  }
+  return ticket;
+};
+
+const loadRequesterTicket = async (ticketId: string, userId: string) => {
+  const ticket = await loadTicket(ticketId);
+  // Same 404 for other users' tickets so ids can't be probed
+  if (ticket.requesterId !== userId) {
+    throw new AppError("Support ticket not found", 404);
+  }
+  return ticket;
+};
+
+export const getRequesterSupportTicket = async (
+  ticketId: string,
+  userId: string,
+) => {
+  await loadRequesterTicket(ticketId, userId);
+  return prisma.supportTicket.findUniqueOrThrow({
+    where: { id: ticketId },
+    include: requesterTicketInclude,
+  });
+};
+
+export const getAdminSupportTicket = async (ticketId: string) => {
+  await loadTicket(ticketId);
+  return prisma.supportTicket.findUniqueOrThrow({
+    where: { id: ticketId },
+    include: adminTicketInclude,
+  });
+};
+
+export const createSupportTicket = async (
+  actor: SupportActor,
+  input: CreateSupportTicketInput,
+  files?: Express.Multer.File[],
+) => {
+  const subject = requireText(input.subject, "Subject", MAX_SUBJECT_LENGTH);
+  const description = requireText(
+    input.description,
+    "Description",
+    MAX_CONTENT_LENGTH,
+  );
+  const category = parseSupportCategory(input.category);
+  const priority =
+    input.priority === undefined || input.priority === ""
+      ? SupportTicketPriority.MEDIUM
+      : parseSupportPriority(input.priority);
+  const links = await resolveTicketLinks(
+    actor,
+    input.bookingId,
+    input.disputeId,
+  );
+
+  const ticket = await prisma.$transaction(async (tx) => {
+    const created = await tx.supportTicket.create({
+      data: {
+        subject,
+        description,
+        category,
+        priority,
+        requesterId: actor.id,
+        ...links,
+        ...getSupportSlaDeadlines(priority),
+      },
+    });
+
+    const attachments = toAttachmentRows(files, created.id, actor.id);
+    if (attachments.length > 0) {
+      await tx.supportAttachment.createMany({ data: attachments });
+    }
+
+    return created;
+  });
+
+  await createAdminNotification({
+    type: "SUPPORT_TICKET_UPDATE",
+    title: "New Support Ticket",
+    message: `${subject} (${priority.toLowerCase()} priority)`,
+    data: { ticketId: ticket.id, category, priority },
+    priority: priority === SupportTicketPriority.HIGH ? "high" : "normal",
+  });
+
+  return getRequesterSupportTicket(ticket.id, actor.id);
+};
+
+export const listRequesterSupportTickets = async (
+  userId: string,
+  options: { status?: SupportTicketStatus; page: number; limit: number },
+) => {
+  const where: Prisma.SupportTicketWhereInput = {
+    requesterId: userId,
+    ...(options.status && { status: options.status }),
+  };
+
+  const [tickets, total] = await Promise.all([
+    prisma.supportTicket.findMany({
+      where,
+      include: requesterTicketInclude,
+      orderBy: { lastActivityAt: "desc" },
+      skip: (options.page - 1) * options.limit,
+      take: options.limit,
+    }),
+    prisma.supportTicket.count({ where }),
+  ]);
+
+  return { tickets, total };
+};
+
+export const listAdminSupportTickets = async (
+  adminId: string,
+  filters: AdminSupportTicketFilters,
+) => {
+  const where: Prisma.SupportTicketWhereInput = {
+    ...(filters.status && { status: filters.status }),
+    ...(filters.priority && { priority: filters.priority }),
+    ...(filters.category && { category: filters.category }),
+  };
+
+  if (filters.assignedTo === "me") {
+    where.assignedAdminId = adminId;
+  } else if (filters.assignedTo === "unassigned") {
+    where.assignedAdminId = null;
+  } else if (filters.assignedTo) {
+    where.assignedAdminId = filters.assignedTo;
+  }
+
+  if (filters.breachedOnly) {
+    where.OR = [
+      { firstResponseBreachedAt: { not: null } },
+      { resolutionBreachedAt: { not: null } },
+    ];
+  }
+
+  if (filters.search) {
+    where.AND = [
+      {
+        OR: [
+          { id: filters.search },
+          { bookingId: filters.search },
+          { subject: { contains: filters.search, mode: "insensitive" } },
+          {
+            requester: {
+              email: { contains: filters.search, mode: "insensitive" },
+            },
+          },
+        ],
+      },
+    ];
+  }
+
+  const activeStatuses = [
+    SupportTicketStatus.OPEN,
+    SupportTicketStatus.IN_PROGRESS,
+  ];
+
+  const [tickets, total, open, inProgress, unassigned, breached] =
+    await Promise.all([
+      prisma.supportTicket.findMany({
+        where,
+        include: adminQueueInclude,
+        // Most urgent first: nearest resolution deadline
+        orderBy: [{ status: "asc" }, { resolutionDueAt: "asc" }],
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.supportTicket.count({ where }),
+      prisma.supportTicket.count({
+        where: { status: SupportTicketStatus.OPEN },
+      }),
+      prisma.supportTicket.count({
+        where: { status: SupportTicketStatus.IN_PROGRESS },
+      }),
+      prisma.supportTicket.count({
+        where: { status: { in: activeStatuses }, assignedAdminId: null },
+      }),
+      prisma.supportTicket.count({
+        where: {
+          status: { in: activeStatuses },
+          OR: [
+            { firstResponseBreachedAt: { not: null } },
+            { resolutionBreachedAt: { not: null } },
+          ],
+        },
+      }),
+    ]);
+
+  return {
+    tickets,
+    total,
+    stats: { open, inProgress, unassigned, breached },
+  };
+};
+
+// A reopened ticket gets a fresh resolution window
+const reopenedTicketFields = (
+  priority: SupportTicketPriority,
+  now: Date,
+): Prisma.SupportTicketUpdateInput => ({
+  status: SupportTicketStatus.OPEN,
+  resolvedAt: null,
+  closedAt: null,
+  resolutionBreachedAt: null,
+  resolutionDueAt: getSupportSlaDeadlines(priority, now).resolutionDueAt,
+});
+
+/**
+ * Add a reply. A requester replying to a resolved ticket reopens it; the
+ * first public admin reply stops the first-response SLA timer.
+ */
+export const replyToSupportTicket = async (
+  ticketId: string,
+  actor: SupportActor,
+  input: { message?: unknown; isInternal?: unknown },
+  files?: Express.Multer.File[],
+) => {
+  const isAdmin = actor.role === UserRole.ADMIN;
+  const ticket = isAdmin
+    ? await loadTicket(ticketId)
+    : await loadRequesterTicket(ticketId, actor.id);
+  const hasFiles = Boolean(files?.length);
+  const content = hasFiles
+    ? typeof input.message === "string"
+      ? input.message.trim().slice(0, MAX_CONTENT_LENGTH)
+      : ""
+    : requireText(input.message, "Message", MAX_CONTENT_LENGTH);
+  const isInternal =
+    isAdmin && (input.isInternal === true || input.isInternal === "true");
+
+  if (ticket.status === SupportTicketStatus.CLOSED && !isInternal) {
+    throw new AppError("Reopen this ticket before replying", 400);
+  }
+
+  const now = new Date();
+  const data: Prisma.SupportTicketUpdateInput = { lastActivityAt: now };
+
+  if (!isAdmin && ticket.status === SupportTicketStatus.RESOLVED) {
+    Object.assign(data, reopenedTicketFields(ticket.priority, now));
+  }
+
+  if (isAdmin && !isInternal) {
+    if (!ticket.firstRespondedAt) {
+      data.firstRespondedAt = now;
+    }
+    if (ticket.status === SupportTicketStatus.OPEN) {
+      data.status = SupportTicketStatus.IN_PROGRESS;
+    }
+  }
+
+  const message = await prisma.$transaction(async (tx) => {
+    const created = await tx.supportMessage.create({
+      data: {
+        ticketId,
+        authorId: actor.id,
+        content,
+        isFromUser: !isAdmin,
+        isInternal,
+      },
+    });
+
+    const attachments = toAttachmentRows(
+      files,
+      ticketId,
+      actor.id,
+      created.id,
+    );
+    if (attachments.length > 0) {
+      await tx.supportAttachment.createMany({ data: attachments });
+    }
+
+    await tx.supportTicket.update({ where: { id: ticketId }, data });
+
+    return tx.supportMessage.findUniqueOrThrow({
+      where: { id: created.id },
+      include: { attachments: true },
+    });
+  });
+
+  if (isAdmin && !isInternal) {
+    await notifySafely({
+      userId: ticket.requesterId,
+      type: "SUPPORT_TICKET_UPDATE",
+      title: "Support replied to your ticket",
+      message: ticket.subject,
+      data: { ticketId },
+      bookingId: ticket.bookingId ?? undefined,
+    });
+  } else if (!isAdmin && ticket.assignedAdminId) {
+    await notifySafely({
+      userId: ticket.assignedAdminId,
+      type: "SUPPORT_TICKET_UPDATE",
+      title: "New reply on support ticket",
+      message: ticket.subject,
+      data: { ticketId },
+      emailEnabled: false,
+    });
+  }
+
+  return message;
+};
+
+export const addSupportTicketAttachments = async (
+  ticketId: string,
+  actor: SupportActor,
+  files?: Express.Multer.File[],
+) => {
+  if (!files?.length) {
+    throw new AppError("At least one file is required", 400);
+  }
+
+  const ticket =
+    actor.role === UserRole.ADMIN
+      ? await loadTicket(ticketId)
+      : await loadRequesterTicket(ticketId, actor.id);
+
+  if (ticket.status === SupportTicketStatus.CLOSED) {
+    throw new AppError("Cannot add files to a closed ticket", 400);
+  }
+
+  await prisma.$transaction([
+    prisma.supportAttachment.createMany({
+      data: toAttachmentRows(files, ticketId, actor.id),
+    }),
+    prisma.supportTicket.update({
+      where: { id: ticketId },
+      data: { lastActivityAt: new Date() },
+    }),
+  ]);
+
+  return prisma.supportAttachment.findMany({
+    where: { ticketId, messageId: null },
+    orderBy: { createdAt: "asc" },
+  });
+};
+
+/**
+ * Move a ticket to a new status. Requesters can only close or reopen their
+ * own tickets; admins can make any allowed transition.
+ */
+export const updateSupportTicketStatus = async (
+  ticketId: string,
+  actor: SupportActor,
+  status: SupportTicketStatus,
+) => {
+  const isAdmin = actor.role === UserRole.ADMIN;
+  const ticket = isAdmin
+    ? await loadTicket(ticketId)
+    : await loadRequesterTicket(ticketId, actor.id);
+
+  if (
+    !isAdmin &&
+    status !== SupportTicketStatus.CLOSED &&
+    status !== SupportTicketStatus.OPEN
+  ) {
+    throw new AppError("You can only close or reopen your ticket", 403);
+  }
+
+  // Reopening a ticket that is still being worked is a no-op
+  if (
+    ticket.status === status ||
+    (!isAdmin &&
+      status === SupportTicketStatus.OPEN &&
+      isSupportTicketActive(ticket.status))
+  ) {
+    return ticket;
+  }
+
+  if (!canTransitionSupportTicket(ticket.status, status)) {
+    throw new AppError(
+      `Cannot move a ${ticket.status.toLowerCase()} ticket to ${status.toLowerCase()}`,
+      400,
+    );
+  }
+
+  const now = new Date();
+  let data: Prisma.SupportTicketUpdateInput = { status, lastActivityAt: now };
+
+  if (status === SupportTicketStatus.OPEN) {
+    data = { ...data, ...reopenedTicketFields(ticket.priority, now) };
+  } else if (status === SupportTicketStatus.RESOLVED) {
+    data.resolvedAt = now;
+  } else if (status === SupportTicketStatus.CLOSED) {
+    data.closedAt = now;
+    data.resolvedAt = ticket.resolvedAt ?? now;
+  }
+
+  const updated = await prisma.supportTicket.update({
+    where: { id: ticketId },
+    data,
+  });
+
+  if (isAdmin && ticket.requesterId !== actor.id) {
+    await notifySafely({
+      userId: ticket.requesterId,
+      type: "SUPPORT_TICKET_UPDATE",
+      title: "Support ticket updated",
+      message: `"${ticket.subject}" is now ${status.toLowerCase().replace("_", " ")}.`,
+      data: { ticketId, status },
+      bookingId: ticket.bookingId ?? undefined,
+    });
+  }
+
+  return updated;
+};
+
+export const assignSupportTicket = async (
+  ticketId: string,
+  assigneeId: string | null,
+) => {
+  await loadTicket(ticketId);
+
+  if (assigneeId) {
+    const assignee = await prisma.user.findUnique({
+      where: { id: assigneeId },
+      select: { role: true, adminRole: true },
+    });
+    if (!assignee || !hasAdminPermission(assignee, "support.manage")) {
+      throw new AppError(
+        "Tickets can only be assigned to admins who handle support",
+        400,
+      );
+    }
+  }
+
+  const ticket = await prisma.supportTicket.update({
+    where: { id: ticketId },
+    data: { assignedAdminId: assigneeId, lastActivityAt: new Date() },
+  });
+
+  if (assigneeId) {
+    await notifySafely({
+      userId: assigneeId,
+      type: "SUPPORT_TICKET_UPDATE",
+      title: "Support ticket assigned to you",
+      message: ticket.subject,
+      data: { ticketId },
+      emailEnabled: false,
+    });
+  }
+
+  return ticket;
+};
+
+/**
+ * Admin edits to triage fields. A priority change moves the SLA deadlines
+ * (measured from when the ticket was opened); recorded breaches stay.
+ */
+export const updateSupportTicketDetails = async (
+  ticketId: string,
+  actor: SupportActor,
+  input: UpdateSupportTicketInput,
+) => {
+  const ticket = await loadTicket(ticketId);
+  const data: Prisma.SupportTicketUncheckedUpdateInput = {};
+
+  if (input.category !== undefined) {
+    data.category = parseSupportCategory(input.category);
+  }
+
+  if (input.priority !== undefined) {
+    const priority = parseSupportPriority(input.priority);
+    if (priority !== ticket.priority) {
+      data.priority = priority;
+      Object.assign(data, getSupportSlaDeadlines(priority, ticket.createdAt));
+    }
+  }
+
+  if (input.bookingId !== undefined || input.disputeId !== undefined) {
+    const links = await resolveTicketLinks(
+      actor,
+      input.bookingId === undefined ? ticket.bookingId : input.bookingId,
+      input.disputeId === undefined ? ticket.disputeId : input.disputeId,
+    );
+    data.bookingId = links.bookingId;
+    data.disputeId = links.disputeId;
+  }
+
+  return prisma.supportTicket.update({ where: { id: ticketId }, data });
+};
+
+export const listSupportAgents = () =>
+  prisma.user.findMany({
+    where: {
+      role: UserRole.ADMIN,
+      adminRole: { in: adminRolesWithPermission("support.manage") },
+    },
+    select: { id: true, firstName: true, lastName: true, email: true },
+    orderBy: { firstName: "asc" },
+  });
+
+/**
+ * Record missed SLA deadlines (alerting admins once per deadline) and close
+ * resolved tickets that have been quiet for SUPPORT_AUTO_CLOSE_DAYS.
+ */
+export const enforceSupportSlas = async (now: Date = new Date()) => {
+  const candidates = await prisma.supportTicket.findMany({
+    where: {
+      status: { in: [SupportTicketStatus.OPEN, SupportTicketStatus.IN_PROGRESS] },
+      OR: [
+        {
+          firstRespondedAt: null,
+          firstResponseBreachedAt: null,
+          firstResponseDueAt: { lte: now },
+        },
+        { resolutionBreachedAt: null, resolutionDueAt: { lte: now } },
+      ],
+    },
+    select: {
+      id: true,
+      subject: true,
+      status: true,
+      priority: true,
+      assignedAdminId: true,
+      firstResponseDueAt: true,
+      resolutionDueAt: true,
+      firstRespondedAt: true,
+      firstResponseBreachedAt: true,
+      resolutionBreachedAt: true,
+    },
+  });
+
+  let breached = 0;
+
+  for (const ticket of candidates) {
+    const breaches = getNewSupportSlaBreaches(ticket, now);
+    if (!breaches.firstResponse && !breaches.resolution) {
+      continue;
+    }
+
+    await prisma.supportTicket.update({
+      where: { id: ticket.id },
+      data: {
+        ...(breaches.firstResponse && { firstResponseBreachedAt: now }),
+        ...(breaches.resolution && { resolutionBreachedAt: now }),
+      },
+    });
+    breached += 1;
+
+    const missed = breaches.resolution
+      ? `resolution within ${SUPPORT_SLA_HOURS[ticket.priority].resolution}h`
+      : `first response within ${SUPPORT_SLA_HOURS[ticket.priority].firstResponse}h`;
+
+    await createAdminNotification({
+      type: "SUPPORT_TICKET_UPDATE",
+      title: "Support SLA Breached",
+      message: `"${ticket.subject}" missed its ${missed} target.`,
+      data: { ticketId: ticket.id, assignedAdminId: ticket.assignedAdminId },
+      priority: "high",
+    });
+  }
+
+  const autoClosed = await prisma.supportTicket.updateMany({
+    where: {
+      status: SupportTicketStatus.RESOLVED,
+      lastActivityAt: {
+        lt: new Date(now.getTime() - SUPPORT_AUTO_CLOSE_DAYS * DAY_MS),
+      },
+    },
+    data: { status: SupportTicketStatus.CLOSED, closedAt: now },
+  });
+
+  return { breached, autoClosed: autoClosed.count };
+};
@@ -13,10 +13,26 @@
  * - Immutable
  * - Always sent at the right time
  * - Visible to admin during disputes
+ *
+ * Every message is persisted in the ScheduledMessage queue (one row per booking
+ * and type) and delivered by the scheduled message job, so pending messages
+ * survive restarts and deploys.
  */
 
-import { BookingStatus, PaymentStatus } from "@prisma/client";
+import {
+  ScheduledMessage,
+  ScheduledMessageStatus,
+  ScheduledMessageType,
+} from "@prisma/client";
 import { prisma } from "@/config/database";
+import {
+  DEFERRED_MESSAGE_TYPES,
+  getBookingMessageRows,
+  getDeferredDueTimes,
+  getDueMessageAction,
+  getMessageReschedule,
+  getMessageRetry,
+} from "@/services/scheduledMessageRules";
 import { logger } from "@/utils/logger";
 
 export enum SystemMessageType {
@@ -57,46 +73,9 @@ interface SystemMessageData {
   };
 }
 
-const MAX_TIMEOUT_MS = 2_147_483_647;
+type ScheduledMessageOutcome = "sent" | "rescheduled" | "cancelled" | "skipped";
 
 export class SystemMessageService {
-  private static getLogDetailType(details: unknown): string | null {
-    if (
-      details &&
-      typeof details === "object" &&
-      "type" in (details as Record<string, unknown>) &&
-      typeof (details as Record<string, unknown>).type === "string"
-    ) {
-      return (details as Record<string, unknown>).type as string;
-    }
-    return null;
-  }
-
-  private static async hasAuditLogForType(params: {
-    action: string;
-    bookingId: string;
-    type: SystemMessageType;
-  }): Promise<boolean> {
-    const logs = await prisma.auditLog.findMany({
-      where: {
-        action: params.action,
-        entityType: "BOOKING",
-        entityId: params.bookingId,
-      },
-      select: {
-        details: true,
-      },
-      orderBy: {
-        timestamp: "desc",
-      },
-      take: 100,
-    });
-
-    return logs.some(
-      (log) => this.getLogDetailType(log.details) === params.type,
-    );
-  }
-
   /**
    * Generate booking confirmation message
    */
@@ -251,149 +230,49 @@ Thank you for staying with us! We'd love to hear about your experience - please
   }
 
   /**
-   * Send system message (creates in database)
+   * Render the content of a queued system message
    */
-  static async sendSystemMessage(
-    type: SystemMessageType,
+  private static renderMessage(
+    type: ScheduledMessageType,
     data: SystemMessageData,
-  ): Promise<void> {
-    const alreadySent = await this.hasAuditLogForType({
-      action: "SYSTEM_MESSAGE_SENT",
-      bookingId: data.bookingId,
-      type,
-    });
-
-    if (alreadySent) {
-      return;
-    }
-
-    let content = "";
-
+  ): string {
     switch (type) {
-      case SystemMessageType.BOOKING_CONFIRMED:
-        content = this.generateBookingConfirmed(data);
-        break;
-      case SystemMessageType.PAYMENT_CONFIRMED:
-        content = this.generatePaymentConfirmed(data);
-        break;
-      case SystemMessageType.CHECKIN_INSTRUCTIONS:
-        content = this.generateCheckInInstructions(data);
-        break;
-      case SystemMessageType.HOUSE_RULES:
-        content = this.generateHouseRules(data);
-        break;
-      case SystemMessageType.CHECKOUT_REMINDER:
-        content = this.generateCheckOutReminder(data);
-        break;
-      case SystemMessageType.CHECKOUT_INSTRUCTIONS:
-        content = this.generateCheckOutInstructions(data);
-        break;
+      case ScheduledMessageType.BOOKING_CONFIRMED:
+        return this.generateBookingConfirmed(data);
+      case ScheduledMessageType.PAYMENT_CONFIRMED:
+        return this.generatePaymentConfirmed(data);
+      case ScheduledMessageType.CHECKIN_INSTRUCTIONS:
+        return this.generateCheckInInstructions(data);
+      case ScheduledMessageType.HOUSE_RULES:
+        return this.generateHouseRules(data);
+      case ScheduledMessageType.CHECKOUT_REMINDER:
+        return this.generateCheckOutReminder(data);
+      case ScheduledMessageType.CHECKOUT_INSTRUCTIONS:
+        return this.generateCheckOutInstructions(data);
       default:
         throw new Error(`Unknown system message type: ${type}`);
     }
-
-    await prisma.message.create({
-      data: {
-        bookingId: data.bookingId,
-        senderId: data.realtorUserId,
-        recipientId: data.guestId,
-        content,
-        type: "SYSTEM",
-        isRead: false,
-        createdAt: new Date(),
-        wasFiltered: false,
-        violations: [],
-      },
-    });
-
-    await prisma.auditLog.create({
-      data: {
-        action: "SYSTEM_MESSAGE_SENT",
-        entityType: "BOOKING",
-        entityId: data.bookingId,
-        details: {
-          type,
-          recipientId: data.guestId,
-        },
-      },
-    });
-
-    logger.info("System message sent", {
-      bookingId: data.bookingId,
-      recipientId: data.guestId,
-      type,
-    });
   }
 
   static getScheduledMessageTimes(checkInDate: Date, checkOutDate: Date) {
+    const dueTimes = getDeferredDueTimes(checkInDate, checkOutDate);
     return {
-      checkInInstructionsAt: new Date(
-        new Date(checkInDate).getTime() - 24 * 60 * 60 * 1000,
-      ),
-      checkOutReminderAt: new Date(
-        new Date(checkOutDate).getTime() - 24 * 60 * 60 * 1000,
-      ),
-      checkOutInstructionsAt: new Date(checkOutDate),
+      checkInInstructionsAt:
+        dueTimes[ScheduledMessageType.CHECKIN_INSTRUCTIONS],
+      checkOutReminderAt: dueTimes[ScheduledMessageType.CHECKOUT_REMINDER],
+      checkOutInstructionsAt:
+        dueTimes[ScheduledMessageType.CHECKOUT_INSTRUCTIONS],
     };
   }
 
-  private static async scheduleMessageDispatch(params: {
-    bookingId: string;
-    type: SystemMessageType;
-    data: SystemMessageData;
-    runAt: Date;
-  }) {
-    const delayMs = params.runAt.getTime() - Date.now();
-
-    await prisma.auditLog.create({
-      data: {
-        action: "SYSTEM_MESSAGE_SCHEDULED",
-        entityType: "BOOKING",
-        entityId: params.bookingId,
-        details: {
-          type: params.type,
-          runAt: params.runAt.toISOString(),
-          delayMs,
-        },
-      },
-    });
-
-    if (delayMs <= 0) {
-      await this.sendSystemMessage(params.type, params.data);
-      return;
-    }
-
-    if (delayMs > MAX_TIMEOUT_MS) {
-      logger.warn("System message schedule exceeds timer limit; skipping", {
-        bookingId: params.bookingId,
-        type: params.type,
-        runAt: params.runAt.toISOString(),
-      });
-      return;
-    }
-
-    setTimeout(() => {
-      this.sendSystemMessage(params.type, params.data).catch((error) => {
-        logger.error("Failed to send scheduled system message", {
-          bookingId: params.bookingId,
-          type: params.type,
-          error: error instanceof Error ? error.message : error,
-        });
-      });
-    }, delayMs);
-  }
-
-  /**
-   * Schedule system messages for a new booking
-   */
-  static async scheduleBookingMessages(bookingId: string): Promise<void> {
-    // Fetch booking data
+  private static async loadBookingMessageContext(bookingId: string) {
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
       select: {
         id: true,
         propertyId: true,
         guestId: true,
+        status: true,
         checkInDate: true,
         checkOutDate: true,
         paymentStatus: true,
@@ -418,7 +297,7 @@ Thank you for staying with us! We'd love to hear about your experience - please
     });
 
     if (!booking) {
-      throw new Error("Booking not found");
+      return null;
     }
 
     const data: SystemMessageData = {
@@ -446,82 +325,240 @@ Thank you for staying with us! We'd love to hear about your experience - please
       },
     };
 
-    // Send immediate messages
-    await this.sendSystemMessage(SystemMessageType.BOOKING_CONFIRMED, data);
+    return { booking, data };
+  }
+
+  /**
+   * Queue system messages for a booking and send the ones already due.
+   * Safe to call repeatedly: each (booking, type) is only ever queued once.
+   */
+  static async scheduleBookingMessages(bookingId: string): Promise<void> {
+    const context = await this.loadBookingMessageContext(bookingId);
 
-    if (
-      booking.paymentStatus === PaymentStatus.HELD ||
-      booking.paymentStatus === PaymentStatus.PARTIALLY_RELEASED ||
-      booking.paymentStatus === PaymentStatus.SETTLED
-    ) {
-      await this.sendSystemMessage(SystemMessageType.PAYMENT_CONFIRMED, data);
-      await this.sendSystemMessage(SystemMessageType.HOUSE_RULES, data);
+    if (!context) {
+      throw new Error("Booking not found");
     }
 
-    const schedule = this.getScheduledMessageTimes(
+    const { booking } = context;
+    const now = new Date();
+
+    await prisma.scheduledMessage.createMany({
+      data: getBookingMessageRows(booking, now).map((row) => ({
+        bookingId: booking.id,
+        ...row,
+      })),
+      skipDuplicates: true,
+    });
+
+    await this.processDueMessages({ bookingId: booking.id, now });
+  }
+
+  /**
+   * Move pending date-driven messages to the booking's current stay dates.
+   * Messages already sent for the old dates are queued again when their new
+   * due time is still ahead, so the guest gets instructions for the new stay.
+   */
+  static async rescheduleBookingMessages(bookingId: string): Promise<void> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: { checkInDate: true, checkOutDate: true },
+    });
+
+    if (!booking) {
+      return;
+    }
+
+    const now = new Date();
+    const dueTimes = getDeferredDueTimes(
       booking.checkInDate,
       booking.checkOutDate,
     );
 
-    await this.scheduleMessageDispatch({
-      bookingId: booking.id,
-      type: SystemMessageType.CHECKIN_INSTRUCTIONS,
-      data,
-      runAt: schedule.checkInInstructionsAt,
+    for (const type of DEFERRED_MESSAGE_TYPES) {
+      const { statuses, data } = getMessageReschedule(dueTimes[type], now);
+      await prisma.scheduledMessage.updateMany({
+        where: { bookingId, type, status: { in: statuses } },
+        data,
+      });
+    }
+
+    logger.info("System messages rescheduled", { bookingId });
+  }
+
+  /**
+   * Cancel every message still waiting to be sent for a booking
+   */
+  static async cancelBookingMessages(bookingId: string): Promise<number> {
+    const result = await prisma.scheduledMessage.updateMany({
+      where: { bookingId, status: ScheduledMessageStatus.PENDING },
+      data: {
+        status: ScheduledMessageStatus.CANCELLED,
+        cancelledAt: new Date(),
+      },
     });
 
-    await this.scheduleMessageDispatch({
-      bookingId: booking.id,
-      type: SystemMessageType.CHECKOUT_REMINDER,
-      data,
-      runAt: schedule.checkOutReminderAt,
+    if (result.count > 0) {
+      logger.info("Pending system messages cancelled", {
+        bookingId,
+        count: result.count,
+      });
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Deliver one queued message. The PENDING -> SENT transition and the chat
+   * message are written in one transaction, so concurrent workers can never
+   * deliver the same message twice.
+   */
+  private static async deliverScheduledMessage(
+    message: ScheduledMessage,
+    now: Date,
+  ): Promise<ScheduledMessageOutcome> {
+    const context = await this.loadBookingMessageContext(message.bookingId);
+    const next = getDueMessageAction(
+      message.type,
+      context?.booking ?? null,
+      now,
+    );
+
+    if (next.action === "reschedule") {
+      await prisma.scheduledMessage.updateMany({
+        where: { id: message.id, status: ScheduledMessageStatus.PENDING },
+        data: { dueAt: next.dueAt },
+      });
+      return "rescheduled";
+    }
+
+    if (next.action === "cancel" || !context) {
+      await prisma.scheduledMessage.updateMany({
+        where: { id: message.id, status: ScheduledMessageStatus.PENDING },
+        data: {
+          status: ScheduledMessageStatus.CANCELLED,
+          cancelledAt: now,
+          ...(next.action === "cancel" && next.reason
+            ? { lastError: next.reason }
+            : {}),
+        },
+      });
+      return "cancelled";
+    }
+
+    const { data } = context;
+    const content = this.renderMessage(message.type, data);
+
+    const delivered = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.scheduledMessage.updateMany({
+        where: { id: message.id, status: ScheduledMessageStatus.PENDING },
+        data: {
+          status: ScheduledMessageStatus.SENT,
+          sentAt: now,
+          attempts: { increment: 1 },
+          lastError: null,
+        },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await tx.message.create({
+        data: {
+          bookingId: data.bookingId,
+          senderId: data.realtorUserId,
+          recipientId: data.guestId,
+          content,
+          type: "SYSTEM",
+          isRead: false,
+          createdAt: now,
+          wasFiltered: false,
+          violations: [],
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: "SYSTEM_MESSAGE_SENT",
+          entityType: "BOOKING",
+          entityId: data.bookingId,
+          details: {
+            type: message.type,
+            scheduledMessageId: message.id,
+            recipientId: data.guestId,
+          },
+        },
+      });
+
+      return true;
     });
 
-    await this.scheduleMessageDispatch({
-      bookingId: booking.id,
-      type: SystemMessageType.CHECKOUT_INSTRUCTIONS,
-      data,
-      runAt: schedule.checkOutInstructionsAt,
+    if (!delivered) {
+      return "skipped";
+    }
+
+    logger.info("System message sent", {
+      bookingId: data.bookingId,
+      recipientId: data.guestId,
+      type: message.type,
     });
+
+    return "sent";
   }
 
-  static async rehydrateScheduledMessages(): Promise<void> {
-    const now = new Date();
-    const lookbackWindow = new Date(now.getTime() - 48 * 60 * 60 * 1000);
+  /**
+   * Send every queued message that is due, retrying failures with backoff
+   */
+  static async processDueMessages(
+    options: { bookingId?: string; now?: Date; limit?: number } = {},
+  ): Promise<Record<ScheduledMessageOutcome | "failed", number>> {
+    const now = options.now ?? new Date();
+    const summary: Record<ScheduledMessageOutcome | "failed", number> = {
+      sent: 0,
+      rescheduled: 0,
+      cancelled: 0,
+      skipped: 0,
+      failed: 0,
+    };
 
-    const candidateBookings = await prisma.booking.findMany({
+    const dueMessages = await prisma.scheduledMessage.findMany({
       where: {
-        checkOutDate: { gte: lookbackWindow },
-        status: {
-          in: [
-            BookingStatus.PENDING,
-            BookingStatus.ACTIVE,
-            BookingStatus.COMPLETED,
-          ],
-        },
+        status: ScheduledMessageStatus.PENDING,
+        dueAt: { lte: now },
+        ...(options.bookingId ? { bookingId: options.bookingId } : {}),
       },
-      select: {
-        id: true,
-      },
-      orderBy: {
-        checkInDate: "asc",
-      },
-      take: 500,
+      orderBy: { dueAt: "asc" },
+      take: options.limit ?? 100,
     });
 
-    for (const booking of candidateBookings) {
+    for (const message of dueMessages) {
       try {
-        await this.scheduleBookingMessages(booking.id);
+        summary[await this.deliverScheduledMessage(message, now)] += 1;
       } catch (error) {
-        logger.error("Failed to rehydrate booking system messages", {
-          bookingId: booking.id,
-          error: error instanceof Error ? error.message : error,
+        summary.failed += 1;
+        const retry = getMessageRetry(
+          message.attempts,
+          message.maxAttempts,
+          now,
+        );
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+
+        await prisma.scheduledMessage.updateMany({
+          where: { id: message.id, status: ScheduledMessageStatus.PENDING },
+          data: { ...retry, lastError: errorMessage.slice(0, 500) },
+        });
+
+        logger.error("Failed to send scheduled system message", {
+          bookingId: message.bookingId,
+          type: message.type,
+          attempts: retry.attempts,
+          exhausted: retry.status === ScheduledMessageStatus.FAILED,
+          error: errorMessage,
         });
       }
     }
 
-    logger.info("System message rehydration complete", {
-      count: candidateBookings.length,
-    });
+    return summary;
   }
 }
@@ -0,0 +1,417 @@
+import { Request } from "express";
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import * as jwt from "jsonwebtoken";
+import QRCode from "qrcode";
+import { UserRole } from "@prisma/client";
+import { prisma } from "@/config/database";
+import { config } from "@/config";
+import { AppError } from "@/middleware/errorHandler";
+import { auditLogger } from "@/services/auditLogger";
+import {
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from "@/utils/totp";
+import { logger } from "@/utils/logger";
+
+export const RECOVERY_CODE_COUNT = 10;
+export const STEP_UP_WINDOW_MS = config.TWO_FACTOR_STEP_UP_MINUTES * 60 * 1000;
+const CHALLENGE_TTL = "10m";
+const CHALLENGE_AUDIENCE = "two-factor-challenge";
+
+// Admins hold the keys to disputes, withdrawals and finance settings, so
+// they cannot sign in without an authenticator. Realtors may opt in.
+const TWO_FACTOR_REQUIRED_ROLES: UserRole[] = [UserRole.ADMIN];
+const TWO_FACTOR_ALLOWED_ROLES: UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.REALTOR,
+];
+
+export type SecondFactorMethod = "TOTP" | "RECOVERY_CODE";
+
+interface TwoFactorUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  twoFactorEnabled: boolean;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  // The account has no authenticator yet and must enroll before signing in
+  setupRequired: boolean;
+  challengeToken: string;
+  user: { email: string; firstName: string; role: UserRole };
+}
+
+export const isTwoFactorRequired = (role: UserRole) =>
+  TWO_FACTOR_REQUIRED_ROLES.includes(role);
+
+export const canUseTwoFactor = (role: UserRole) =>
+  TWO_FACTOR_ALLOWED_ROLES.includes(role);
+
+const encryptionKey = () =>
+  createHash("sha256").update(config.TWO_FACTOR_ENCRYPTION_KEY).digest();
+
+// AES-256-GCM; stored as iv.tag.ciphertext in base64
+const encryptSecret = (secret: string) => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(secret, "utf8"),
+    cipher.final(),
+  ]);
+  return [iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => part.toString("base64"))
+    .join(".");
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, tag, ciphertext] = stored
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(ciphertext),
+    decipher.final(),
+  ]).toString("utf8");
+};
+
+const normalizeRecoveryCode = (code: string) =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+const hashRecoveryCode = (code: string) =>
+  createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+// 10 base32 characters (50 bits), shown as xxxxx-xxxxx
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const replaceRecoveryCodes = (userId: string, codes: string[]) => [
+  prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  prisma.twoFactorRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+  }),
+];
+
+const countRecoveryCodes = (userId: string) =>
+  prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } });
+
+const challengeSecret = () => `${config.JWT_SECRET}:two-factor`;
+
+/**
+ * Short-lived proof that the password (or email code) step of a sign-in
+ * succeeded. Exchanged for a session once the second factor checks out.
+ */
+export const createTwoFactorChallenge = (
+  user: TwoFactorUser & { firstName: string },
+): TwoFactorChallenge => {
+  const setupRequired = !user.twoFactorEnabled;
+  const challengeToken = jwt.sign(
+    { id: user.id, setup: setupRequired },
+    challengeSecret(),
+    { expiresIn: CHALLENGE_TTL, audience: CHALLENGE_AUDIENCE },
+  );
+
+  return {
+    twoFactorRequired: true,
+    setupRequired,
+    challengeToken,
+    user: { email: user.email, firstName: user.firstName, role: user.role },
+  };
+};
+
+export const readTwoFactorChallenge = (challengeToken: string) => {
+  try {
+    const payload = jwt.verify(challengeToken, challengeSecret(), {
+      audience: CHALLENGE_AUDIENCE,
+    }) as { id: string; setup: boolean };
+    return { userId: payload.id, setupRequired: Boolean(payload.setup) };
+  } catch {
+    throw new AppError(
+      "Your sign-in attempt has expired. Please sign in again.",
+      401,
+    );
+  }
+};
+
+export const getTwoFactorStatus = async (
+  user: Pick<TwoFactorUser, "id" | "role">,
+) => {
+  const record = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: { twoFactorEnabled: true, twoFactorEnabledAt: true },
+  });
+
+  return {
+    enabled: Boolean(record?.twoFactorEnabled),
+    enabledAt: record?.twoFactorEnabledAt ?? null,
+    required: isTwoFactorRequired(user.role),
+    available: canUseTwoFactor(user.role),
+    recoveryCodesRemaining: record?.twoFactorEnabled
+      ? await countRecoveryCodes(user.id)
+      : 0,
+  };
+};
+
+/**
+ * Generates a new authenticator secret. It stays pending until a code from
+ * the app is confirmed, so a half-finished setup never locks anyone out.
+ */
+export const beginTwoFactorEnrollment = async (user: TwoFactorUser) => {
+  if (!canUseTwoFactor(user.role)) {
+    throw new AppError(
+      "Two-factor authentication is not available for this account",
+      403,
+    );
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new AppError("Two-factor authentication is already enabled", 409);
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorPendingSecret: encryptSecret(secret) },
+  });
+
+  const otpauthUrl = buildOtpAuthUri({
+    secret,
+    accountName: user.email,
+    issuer: config.TWO_FACTOR_ISSUER,
+  });
+
+  return {
+    secret,
+    otpauthUrl,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl, { margin: 1 }),
+  };
+};
+
+/**
+ * Activates the pending secret once the user proves their app generates
+ * matching codes. Returns the recovery codes; they are only shown this once.
+ */
+export const confirmTwoFactorEnrollment = async (
+  userId: string,
+  code: string,
+  req?: Request,
+) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabled: true, twoFactorPendingSecret: true },
+  });
+
+  if (!user) {
+    throw new AppError("User not found", 404);
+  }
+
+  if (user.twoFactorEnabled) {
+    throw new AppError("Two-factor authentication is already enabled", 409);
+  }
+
+  if (!user.twoFactorPendingSecret) {
+    throw new AppError("Start two-factor setup before confirming a code", 400);
+  }
+
+  const step = verifyTotp(decryptSecret(user.twoFactorPendingSecret), code);
+  if (step === null) {
+    throw new AppError(
+      "That code doesn't match. Check the time on your phone and try again.",
+      400,
+      "INVALID_TWO_FACTOR_CODE",
+    );
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: null,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastUsedStep: step,
+      },
+    }),
+    ...replaceRecoveryCodes(userId, recoveryCodes),
+  ]);
+
+  auditLogger
+    .log("TWO_FACTOR_ENABLE", "USER", { entityId: userId, userId, req })
+    .catch(() => {});
+
+  return recoveryCodes;
+};
+
+/**
+ * Checks an authenticator code or, failing that, an unused recovery code.
+ * Each TOTP step and each recovery code is accepted only once.
+ */
+export const verifySecondFactor = async (
+  userId: string,
+  code: string,
+  req?: Request,
+): Promise<{ method: SecondFactorMethod }> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorEnabled: true,
+      twoFactorSecret: true,
+      twoFactorLastUsedStep: true,
+    },
+  });
+
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+    throw new AppError("Two-factor authentication is not enabled", 400);
+  }
+
+  const input = String(code ?? "").trim();
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), input);
+
+  if (step !== null) {
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { lt: step } },
+        ],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+
+    if (claimed.count > 0) {
+      return { method: "TOTP" };
+    }
+  } else if (input) {
+    const redeemed = await prisma.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: hashRecoveryCode(input), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (redeemed.count > 0) {
+      const remaining = await countRecoveryCodes(userId);
+      auditLogger
+        .log("TWO_FACTOR_RECOVERY_CODE_USED", "USER", {
+          entityId: userId,
+          userId,
+          details: { remaining },
+          req,
+        })
+        .catch(() => {});
+      return { method: "RECOVERY_CODE" };
+    }
+  }
+
+  logger.warn("Two-factor verification failed", { userId });
+  auditLogger
+    .log("TWO_FACTOR_FAILED", "USER", { entityId: userId, userId, req })
+    .catch(() => {});
+
+  // 400 rather than 401 so clients don't treat it as an expired session
+  throw new AppError(
+    "Invalid authentication code",
+    400,
+    "INVALID_TWO_FACTOR_CODE",
+  );
+};
+
+export const disableTwoFactor = async (
+  user: TwoFactorUser,
+  code: string,
+  req?: Request,
+) => {
+  if (isTwoFactorRequired(user.role)) {
+    throw new AppError(
+      "Two-factor authentication is mandatory for admin accounts",
+      403,
+    );
+  }
+
+  await verifySecondFactor(user.id, code, req);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorPendingSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+      },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: user.id } }),
+  ]);
+
+  auditLogger
+    .log("TWO_FACTOR_DISABLE", "USER", {
+      entityId: user.id,
+      userId: user.id,
+      req,
+    })
+    .catch(() => {});
+};
+
+export const regenerateRecoveryCodes = async (
+  userId: string,
+  code: string,
+  req?: Request,
+) => {
+  await verifySecondFactor(userId, code, req);
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.$transaction(replaceRecoveryCodes(userId, recoveryCodes));
+
+  auditLogger
+    .log("TWO_FACTOR_RECOVERY_CODES_REGENERATE", "USER", {
+      entityId: userId,
+      userId,
+      req,
+    })
+    .catch(() => {});
+
+  return recoveryCodes;
+};
+
+/**
+ * Records a fresh second-factor check on the session; sensitive actions are
+ * allowed for STEP_UP_WINDOW_MS afterwards.
+ */
+export const markStepUpVerified = async (sessionId: string) => {
+  const verifiedAt = new Date();
+  await prisma.userSession.update({
+    where: { id: sessionId },
+    data: { stepUpVerifiedAt: verifiedAt },
+  });
+  return new Date(verifiedAt.getTime() + STEP_UP_WINDOW_MS);
+};
+
+export const hasRecentStepUp = async (sessionId: string | undefined) => {
+  if (!sessionId) {
+    return false;
+  }
+
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: { stepUpVerifiedAt: true },
+  });
+
+  return Boolean(
+    session?.stepUpVerifiedAt &&
+      Date.now() - session.stepUpVerifiedAt.getTime() < STEP_UP_WINDOW_MS,
+  );
+};
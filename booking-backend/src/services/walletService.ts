@@ -1,5 +1,7 @@
 import { prisma } from "@/config/database";
 import {
+  JournalEntryType,
+  LedgerAccount,
   WalletOwnerType,
   WalletTransactionType,
   WalletTransactionSource,
@@ -7,6 +9,14 @@ import {
   Prisma,
 } from "@prisma/client";
 import { logger } from "@/utils/logger";
+import { postJournalEntry } from "@/services/ledgerService";
+import { DEFAULT_CURRENCY } from "@/services/currency";
+import {
+  credit,
+  debit,
+  walletLedgerAccount,
+  walletOffsetLeg,
+} from "@/services/ledgerRules";
 
 type WalletDbClient = Prisma.TransactionClient | typeof prisma;
 
@@ -22,20 +32,23 @@ const withTransaction = async <T>(
 };
 
 /**
- * Get or create wallet for realtor or platform
+ * Get or create wallet for realtor or platform. Owners hold a separate
+ * wallet per currency; balances never mix currencies.
  */
 export const getOrCreateWallet = async (
   ownerType: WalletOwnerType,
   ownerId: string,
-  txClient?: Prisma.TransactionClient
+  txClient?: Prisma.TransactionClient,
+  currency: string = DEFAULT_CURRENCY
 ) => {
   const db: WalletDbClient = txClient || prisma;
 
   let wallet = await db.wallet.findUnique({
     where: {
-      ownerType_ownerId: {
+      ownerType_ownerId_currency: {
         ownerType,
         ownerId,
+        currency,
       },
     },
   });
@@ -45,12 +58,18 @@ export const getOrCreateWallet = async (
       data: {
         ownerType,
         ownerId,
+        currency,
         balanceAvailable: 0,
         balancePending: 0,
       },
     });
 
-    logger.info("Wallet created", { ownerType, ownerId, walletId: wallet.id });
+    logger.info("Wallet created", {
+      ownerType,
+      ownerId,
+      currency,
+      walletId: wallet.id,
+    });
   }
 
   return wallet;
@@ -83,6 +102,20 @@ export const creditWallet = async (
       },
     });
 
+    // Post the credit against the account implied by the source
+    const offset = walletOffsetLeg(source, wallet.ownerId, referenceId);
+    await postJournalEntry(tx, {
+      type: JournalEntryType.WALLET_CREDIT,
+      reference: referenceId,
+      description: `${source} credited to ${wallet.ownerType.toLowerCase()} wallet`,
+      metadata: { walletId, source },
+      currency: wallet.currency,
+      lines: [
+        debit(offset.account, amount, offset.subledgerId),
+        credit(walletLedgerAccount(wallet.ownerType), amount, wallet.ownerId),
+      ],
+    });
+
     // Create transaction record
     const transaction = await tx.walletTransaction.create({
       data: {
@@ -159,6 +192,19 @@ export const debitWallet = async (
       },
     });
 
+    const offset = walletOffsetLeg(source, wallet.ownerId, referenceId);
+    await postJournalEntry(tx, {
+      type: JournalEntryType.WALLET_DEBIT,
+      reference: referenceId,
+      description: `${source} debited from ${wallet.ownerType.toLowerCase()} wallet`,
+      metadata: { walletId, source },
+      currency: wallet.currency,
+      lines: [
+        debit(walletLedgerAccount(wallet.ownerType), amount, wallet.ownerId),
+        credit(offset.account, amount, offset.subledgerId),
+      ],
+    });
+
     // Create transaction record
     const transaction = await tx.walletTransaction.create({
       data: {
@@ -235,6 +281,18 @@ export const lockFundsForWithdrawal = async (
       },
     });
 
+    await postJournalEntry(tx, {
+      type: JournalEntryType.WITHDRAWAL_LOCKED,
+      reference: referenceId,
+      description: "Withdrawal funds moved to payout clearing",
+      metadata: { walletId },
+      currency: wallet.currency,
+      lines: [
+        debit(walletLedgerAccount(wallet.ownerType), amount, wallet.ownerId),
+        credit(LedgerAccount.PAYOUT_CLEARING, amount, wallet.ownerId),
+      ],
+    });
+
     // Create PENDING transaction record
     const transaction = await tx.walletTransaction.create({
       data: {
@@ -297,7 +355,7 @@ export const completeWithdrawal = async (
     });
 
     // Remove from pending balance
-    await tx.wallet.update({
+    const wallet = await tx.wallet.update({
       where: { id: transaction.walletId },
       data: {
         balancePending: {
@@ -305,6 +363,22 @@ export const completeWithdrawal = async (
         },
       },
     });
+
+    await postJournalEntry(tx, {
+      type: JournalEntryType.WITHDRAWAL_COMPLETED,
+      reference: transaction.referenceId,
+      description: "Withdrawal paid out from the gateway",
+      metadata: { walletId: wallet.id, transactionId },
+      currency: wallet.currency,
+      lines: [
+        debit(
+          LedgerAccount.PAYOUT_CLEARING,
+          transaction.amount.toNumber(),
+          wallet.ownerId
+        ),
+        credit(LedgerAccount.GATEWAY_BALANCE, transaction.amount.toNumber()),
+      ],
+    });
   });
 
   logger.info("Withdrawal completed", { transactionId });
@@ -349,7 +423,7 @@ export const failWithdrawal = async (
     });
 
     // Return funds to available balance
-    await tx.wallet.update({
+    const wallet = await tx.wallet.update({
       where: { id: transaction.walletId },
       data: {
         balanceAvailable: {
@@ -360,6 +434,26 @@ export const failWithdrawal = async (
         },
       },
     });
+
+    await postJournalEntry(tx, {
+      type: JournalEntryType.WITHDRAWAL_RELEASED,
+      reference: transaction.referenceId,
+      description: "Failed withdrawal returned to wallet",
+      metadata: { walletId: wallet.id, transactionId, reason },
+      currency: wallet.currency,
+      lines: [
+        debit(
+          LedgerAccount.PAYOUT_CLEARING,
+          transaction.amount.toNumber(),
+          wallet.ownerId
+        ),
+        credit(
+          walletLedgerAccount(wallet.ownerType),
+          transaction.amount.toNumber(),
+          wallet.ownerId
+        ),
+      ],
+    });
   });
 
   logger.info("Withdrawal failed, funds returned", { transactionId, reason });
@@ -380,6 +474,7 @@ export const getWalletBalance = async (walletId: string) => {
   }
 
   return {
+    currency: wallet.currency,
     available: wallet.balanceAvailable.toNumber(),
     pending: wallet.balancePending.toNumber(),
     total:
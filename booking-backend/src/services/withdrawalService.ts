@@ -1,12 +1,24 @@
 import { prisma } from "@/config/database";
 import { logger } from "@/utils/logger";
-import * as paystackService from "@/services/paystack";
-import { ensureRealtorTransferRecipientCode } from "@/services/payoutAccountService";
+import { transferToRealtor } from "@/services/payoutAccountService";
+import * as walletService from "@/services/walletService";
 import {
   sendWithdrawalCompletedEmail,
   sendWithdrawalFailedEmail,
+  sendWithdrawalRequestedEmail,
 } from "@/services/email";
+import { postJournalEntry } from "@/services/ledgerService";
 import {
+  PLATFORM_SUBLEDGER_ID,
+  credit,
+  debit,
+  roundMoney,
+} from "@/services/ledgerRules";
+import { SettlementCurrency } from "@/services/currency";
+import { withdrawalHoldReason } from "@/services/payoutHoldRules";
+import {
+  JournalEntryType,
+  LedgerAccount,
   Prisma,
   WithdrawalRequestStatus,
   WalletOwnerType,
@@ -27,8 +39,96 @@ const getWithdrawalReference = (metadata: unknown): string | null => {
   return typeof record.reference === "string" ? record.reference : null;
 };
 
+export interface CreateWithdrawalRequestParams {
+  walletId: string;
+  realtorId: string;
+  amount: number;
+  feeAmount: number;
+  netAmount: number;
+  feeConfigVersion?: string;
+  currency: SettlementCurrency;
+  email: string;
+  displayName: string;
+  payoutScheduleId?: string;
+}
+
 /**
- * Process a pending withdrawal by transferring funds via Paystack
+ * Lock the gross amount in the wallet and record a pending withdrawal, or
+ * an ON_HOLD one while the realtor's payout account is cooling off or
+ * frozen. Callers decide when to process it.
+ */
+export const createWithdrawalRequest = async ({
+  walletId,
+  realtorId,
+  amount,
+  feeAmount,
+  netAmount,
+  feeConfigVersion,
+  currency,
+  email,
+  displayName,
+  payoutScheduleId,
+}: CreateWithdrawalRequestParams) => {
+  const withdrawalReference = `WITHDRAWAL_${Date.now()}_${realtorId.slice(-8)}`;
+  const now = new Date();
+  const realtor = await prisma.realtor.findUniqueOrThrow({
+    where: { id: realtorId },
+    select: { payoutHoldUntil: true, payoutsFrozenAt: true },
+  });
+  const holdReason = withdrawalHoldReason(realtor, now);
+
+  await walletService.lockFundsForWithdrawal(
+    walletId,
+    amount,
+    withdrawalReference
+  );
+
+  const withdrawalRequest = await prisma.withdrawalRequest.create({
+    data: {
+      walletId,
+      realtorId,
+      amount,
+      feeAmount,
+      netAmount,
+      feeConfigVersion,
+      status: holdReason ? "ON_HOLD" : "PENDING",
+      requestedAt: now,
+      heldAt: holdReason ? now : null,
+      holdReason,
+      payoutScheduleId,
+      metadata: {
+        reference: withdrawalReference,
+        grossAmount: amount,
+        feeAmount,
+        netAmount,
+        ...(payoutScheduleId ? { trigger: "SCHEDULE" } : {}),
+      },
+    },
+  });
+
+  logger.info("Withdrawal request created", {
+    realtorId,
+    amount,
+    withdrawalRequestId: withdrawalRequest.id,
+    payoutScheduleId,
+    holdReason,
+  });
+
+  await sendWithdrawalRequestedEmail(
+    email,
+    displayName,
+    amount,
+    withdrawalReference,
+    currency
+  ).catch((error) =>
+    logger.error("Failed to send withdrawal requested email", error)
+  );
+
+  return withdrawalRequest;
+};
+
+/**
+ * Process a pending withdrawal by transferring funds to the payout account
  */
 export const processWithdrawal = async (
   withdrawalRequestId: string,
@@ -75,6 +175,20 @@ export const processWithdrawal = async (
       };
     }
 
+    // Retries of failed withdrawals would also go to the new account; only
+    // an admin can send one during the cooling-off, and none while frozen
+    const holdReason = withdrawalHoldReason(withdrawal.realtor, new Date());
+    if (
+      withdrawal.status === "ON_HOLD" ||
+      holdReason === "PAYOUTS_FROZEN" ||
+      (holdReason && !isManualRetry)
+    ) {
+      return {
+        success: false,
+        message: "Withdrawal is on hold after a payout account change",
+      };
+    }
+
     const metadata = getObjectMetadata(withdrawal.metadata);
     const withdrawalReference = getWithdrawalReference(metadata);
     const grossAmount = Number(withdrawal.amount);
@@ -107,10 +221,6 @@ export const processWithdrawal = async (
       );
     }
 
-    const recipientCode = await ensureRealtorTransferRecipientCode(
-      withdrawal.realtorId
-    );
-
     // Generate transfer reference
     const transferReference = `TXN_${Date.now()}_${withdrawal.realtorId.slice(
       -8
@@ -126,17 +236,18 @@ export const processWithdrawal = async (
       isManualRetry,
     });
 
-    // Initiate Paystack transfer
-    const transferResult = await paystackService.initiateTransfer({
+    // Withdrawals only go to a payout account in the wallet's currency
+    const transferResult = await transferToRealtor(withdrawal.realtorId, {
       amount: netAmount,
-      recipient: recipientCode,
+      currency: withdrawal.wallet.currency,
       reason: `Withdrawal for ${withdrawal.realtor.businessName}`,
       reference: transferReference,
     });
 
-    logger.info("Paystack transfer initiated successfully", {
+    logger.info("Withdrawal transfer initiated successfully", {
       withdrawalId: withdrawalRequestId,
       transferReference,
+      provider: transferResult.provider,
       transferStatus: transferResult.status,
     });
 
@@ -150,7 +261,8 @@ export const processWithdrawal = async (
           ...metadata,
           transferReference,
           transferStatus: transferResult.status,
-          transferCode: transferResult.transfer_code,
+          transferCode: transferResult.transferId,
+          transferProvider: transferResult.provider,
           grossAmount,
           feeAmount,
           netAmount,
@@ -208,9 +320,10 @@ export const processWithdrawal = async (
         // Credit platform wallet with withdrawal fee margin
         const platformWallet = await tx.wallet.upsert({
           where: {
-            ownerType_ownerId: {
+            ownerType_ownerId_currency: {
               ownerType: WalletOwnerType.PLATFORM,
               ownerId: "platform",
+              currency: withdrawal.wallet.currency,
             },
           },
           update: {
@@ -221,6 +334,7 @@ export const processWithdrawal = async (
           create: {
             ownerType: WalletOwnerType.PLATFORM,
             ownerId: "platform",
+            currency: withdrawal.wallet.currency,
             balanceAvailable: new Prisma.Decimal(feeAmount),
             balancePending: new Prisma.Decimal(0),
           },
@@ -242,6 +356,32 @@ export const processWithdrawal = async (
           },
         });
       }
+
+      // Clear the locked gross amount: net leaves the gateway, the fee is
+      // platform revenue
+      await postJournalEntry(tx, {
+        type: JournalEntryType.WITHDRAWAL_COMPLETED,
+        reference: transferReference,
+        description: "Withdrawal paid out to realtor",
+        metadata: { withdrawalRequestId, walletId: withdrawal.walletId },
+        currency: withdrawal.wallet.currency,
+        lines: [
+          debit(
+            LedgerAccount.PAYOUT_CLEARING,
+            grossAmount,
+            withdrawal.wallet.ownerId
+          ),
+          credit(
+            LedgerAccount.GATEWAY_BALANCE,
+            roundMoney(grossAmount - feeAmount)
+          ),
+          credit(
+            LedgerAccount.PLATFORM_REVENUE,
+            feeAmount,
+            PLATFORM_SUBLEDGER_ID
+          ),
+        ],
+      });
     });
 
     // Send success email to realtor
@@ -249,7 +389,8 @@ export const processWithdrawal = async (
       withdrawal.realtor.user.email,
       withdrawal.realtor.user.firstName || withdrawal.realtor.businessName,
       netAmount,
-      transferReference
+      transferReference,
+      withdrawal.wallet.currency
     );
 
     logger.info("Withdrawal processed successfully", {
@@ -269,7 +410,7 @@ export const processWithdrawal = async (
       stack: error.stack,
     });
 
-    // Map Paystack errors to user-friendly messages
+    // Map gateway errors to user-friendly messages
     let userMessage = error.message;
 
     if (error.message?.includes("third party payouts")) {
@@ -304,6 +445,7 @@ export const processWithdrawal = async (
             },
           },
         },
+        wallet: { select: { currency: true } },
       },
     });
 
@@ -341,6 +483,26 @@ export const processWithdrawal = async (
               },
             });
 
+            await postJournalEntry(tx, {
+              type: JournalEntryType.WITHDRAWAL_RELEASED,
+              reference: lockTransaction.referenceId,
+              description: "Failed withdrawal returned to wallet",
+              metadata: { withdrawalRequestId, walletId: withdrawal.walletId },
+              currency: withdrawal.wallet.currency,
+              lines: [
+                debit(
+                  LedgerAccount.PAYOUT_CLEARING,
+                  amount,
+                  withdrawal.realtorId
+                ),
+                credit(
+                  LedgerAccount.REALTOR_PAYABLE,
+                  amount,
+                  withdrawal.realtorId
+                ),
+              ],
+            });
+
             await tx.walletTransaction.update({
               where: { id: lockTransaction.id },
               data: {
@@ -387,7 +549,8 @@ export const processWithdrawal = async (
         withdrawal.realtor.user.email,
         withdrawal.realtor.user.firstName || withdrawal.realtor.businessName,
         Number(withdrawal.amount),
-        userMessage
+        userMessage,
+        withdrawal.wallet.currency
       ).catch((emailError) =>
         logger.error("Failed to send withdrawal failed email", emailError)
       );
@@ -479,6 +642,7 @@ export const getWithdrawalsForAdmin = async (filters?: {
     "COMPLETED",
     "FAILED",
     "CANCELLED",
+    "ON_HOLD",
   ]);
 
   const statusFilter = filters?.status;
@@ -1,6 +1,7 @@
 import { Request } from "express";
 import { User, UserRole } from "@prisma/client";
 import "multer";
+import type { RealtorAccess } from "@/services/realtorTeamRules";
 
 // Extend Express Request with user authentication
 export interface AuthenticatedRequest extends Request {
@@ -10,6 +11,8 @@ export interface AuthenticatedRequest extends Request {
     status: string;
     businessName: string;
   };
+  realtorAccess?: RealtorAccess; // Set once the caller's realtor account is resolved
+  sessionId?: string; // Set by authenticate from the access token
   // Explicitly include Express properties to avoid TypeScript errors
   body: any;
   params: any;
@@ -23,6 +26,7 @@ export interface JWTPayload {
   id: string;
   email: string;
   role: UserRole;
+  sid?: string; // UserSession id; absent on tokens minted before sessions
   iat?: number;
   exp?: number;
 }
@@ -45,6 +49,10 @@ export interface PropertySearchQuery extends PaginationQuery {
   checkIn?: string;
   checkOut?: string;
   amenities?: string;
+  lat?: string;
+  lng?: string;
+  radiusKm?: string;
+  bbox?: string;
 }
 
 export interface BookingSearchQuery extends PaginationQuery {
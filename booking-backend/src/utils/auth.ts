@@ -1,22 +1,31 @@
 import * as jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
-import { randomBytes } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
 import { config } from "@/config";
 import { JWTPayload } from "@/types";
 
-export const generateTokens = (payload: Omit<JWTPayload, "iat" | "exp">) => {
+// Both tokens carry the session id so a revoked session rejects them.
+// Use services/authSessions rather than calling this directly.
+export const generateTokens = (
+  payload: Omit<JWTPayload, "iat" | "exp" | "sid">,
+  sessionId: string
+) => {
   const tokenPayload = {
     id: payload.id,
     email: payload.email,
     role: payload.role,
+    sid: sessionId,
   };
 
   const accessToken = jwt.sign(tokenPayload, config.JWT_SECRET, {
     expiresIn: config.JWT_EXPIRES_IN as any,
   });
 
+  // jwtid keeps two refreshes within the same second from minting identical
+  // tokens
   const refreshToken = jwt.sign(tokenPayload, config.JWT_REFRESH_SECRET, {
     expiresIn: config.JWT_REFRESH_EXPIRES_IN as any,
+    jwtid: randomUUID(),
   });
 
   return { accessToken, refreshToken };
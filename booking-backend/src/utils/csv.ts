@@ -0,0 +1,24 @@
+/**
+ * Quote a CSV cell. Text that a spreadsheet would evaluate as a formula
+ * is prefixed with an apostrophe.
+ */
+export const toCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  let text = String(value);
+  if (/^[=+@\t\r]/.test(text) || /^-(?!\d)/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export type CsvColumn<T> = [string, (row: T) => unknown];
+
+export const toCsv = <T>(columns: CsvColumn<T>[], rows: T[]): string =>
+  [
+    columns.map(([header]) => header),
+    ...rows.map((row) => columns.map(([, value]) => value(row))),
+  ]
+    .map((cells) => cells.map(toCsvCell).join(","))
+    .join("\n");
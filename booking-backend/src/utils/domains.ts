@@ -190,6 +190,31 @@ export function buildSubdomainUrl(
   return url;
 }
 
+export interface RealtorSite {
+  slug: string;
+  // Verified custom domain, if the realtor has one
+  customDomain?: string | null;
+}
+
+/**
+ * Build URL on a realtor's booking website: their verified custom domain
+ * when they have one, otherwise their subdomain. Use this for links guests
+ * follow from emails.
+ */
+export function buildRealtorSiteUrl(
+  site: RealtorSite,
+  path: string = "",
+  requestHost?: string,
+): string {
+  if (!site.customDomain) {
+    return buildSubdomainUrl(site.slug, path, requestHost);
+  }
+
+  const { protocol } = getDomainConfig(requestHost);
+  const cleanPath = path.startsWith("/") ? path : `/${path}`;
+  return `${protocol}://${site.customDomain}${cleanPath}`;
+}
+
 /**
  * Get email verification URL based on user type and context
  */
@@ -317,10 +342,111 @@ export async function validateRealtorSubdomain(
   }
 }
 
+const CUSTOM_DOMAIN_CACHE_MS = 60 * 1000;
+// Misses are cached too and any host can reach the API, so keep only the
+// most recently used answers
+const CUSTOM_DOMAIN_CACHE_MAX_ENTRIES = 500;
+const customDomainCache = new Map<
+  string,
+  { slug: string | null; expiresAt: number }
+>();
+
+const rememberCustomDomain = (hostname: string, slug: string | null) => {
+  customDomainCache.delete(hostname);
+  if (customDomainCache.size >= CUSTOM_DOMAIN_CACHE_MAX_ENTRIES) {
+    const oldest = customDomainCache.keys().next().value;
+    if (oldest !== undefined) {
+      customDomainCache.delete(oldest);
+    }
+  }
+  customDomainCache.set(hostname, {
+    slug,
+    expiresAt: Date.now() + CUSTOM_DOMAIN_CACHE_MS,
+  });
+};
+
+/**
+ * Slug of the approved realtor whose verified custom domain a host is, or
+ * null. Answers are cached briefly: every page load and CORS check from a
+ * custom domain asks.
+ */
+export async function findRealtorSlugByCustomDomain(
+  host: string,
+): Promise<string | null> {
+  const hostname = toSafeHost(host);
+  if (!hostname) {
+    return null;
+  }
+
+  const cached = customDomainCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) {
+    // Re-insert so the Map's insertion order tracks recent use
+    customDomainCache.delete(hostname);
+    customDomainCache.set(hostname, cached);
+    return cached.slug;
+  }
+
+  try {
+    const domain = await prisma.realtorCustomDomain.findFirst({
+      where: { hostname, status: "VERIFIED" },
+      select: {
+        realtor: { select: { slug: true, status: true, isActive: true } },
+      },
+    });
+
+    const slug =
+      domain?.realtor.isActive && domain.realtor.status === "APPROVED"
+        ? domain.realtor.slug
+        : null;
+    rememberCustomDomain(hostname, slug);
+    return slug;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Forget cached custom domain answers after a domain is verified or removed
+ */
+export function clearCustomDomainCache(hostname?: string | null): void {
+  if (hostname) {
+    customDomainCache.delete(toSafeHost(hostname));
+  } else {
+    customDomainCache.clear();
+  }
+}
+
+/**
+ * Resolve the realtor a request host belongs to, either by slug subdomain or
+ * by verified custom domain. Returns the realtor's slug.
+ */
+export async function resolveRealtorSlugFromHost(
+  host: string,
+): Promise<string | null> {
+  const subdomain = extractSubdomain(host);
+  if (subdomain) {
+    return (await validateRealtorSubdomain(subdomain))
+      ? subdomain.trim().toLowerCase()
+      : null;
+  }
+
+  return findRealtorSlugByCustomDomain(host);
+}
+
+/**
+ * Whether a browser origin is a realtor's verified custom domain
+ */
+export async function isCustomDomainOrigin(origin: string): Promise<boolean> {
+  return (await findRealtorSlugByCustomDomain(origin)) !== null;
+}
+
 /**
- * Get CORS origin patterns for multi-domain setup
+ * Get CORS origin patterns for multi-domain setup. Pass verified custom
+ * domains to allow them too (see isCustomDomainOrigin for per-request checks).
  */
-export function getCorsOriginPatterns(): (string | RegExp)[] {
+export function getCorsOriginPatterns(
+  customDomains: string[] = [],
+): (string | RegExp)[] {
   const { protocol, baseDomain } = getDomainConfig();
 
   return [
@@ -328,5 +454,6 @@ export function getCorsOriginPatterns(): (string | RegExp)[] {
     new RegExp(
       `^${protocol}://[a-zA-Z0-9-]+\\.${baseDomain.replace(".", "\\.")}$`
     ),
+    ...customDomains.map((hostname) => `${protocol}://${toSafeHost(hostname)}`),
   ];
 }
@@ -0,0 +1,140 @@
+import {
+  buildICalendar,
+  detectBookingConflicts,
+  fetchICalendar,
+  isPublicAddress,
+  parseICalendar,
+  signCalendarFeed,
+  verifyCalendarFeedToken,
+} from "./ical";
+
+const AIRBNB_FIXTURE = [
+  "BEGIN:VCALENDAR",
+  "PRODID:-//Airbnb Inc//Hosting Calendar 0.8.8//EN",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "DTEND;VALUE=DATE:20260505",
+  "DTSTART;VALUE=DATE:20260501",
+  "UID:1418fb94e984-a1b2@airbnb.com",
+  "SUMMARY:Reserved",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;TZID=Africa/Lagos:20260510T140000",
+  "DTEND;TZID=Africa/Lagos:20260512T110000",
+  "UID:long-uid-that-is-",
+  " folded@example.com",
+  "SUMMARY:Airbnb (Not available)",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20260520",
+  "DTEND;VALUE=DATE:20260522",
+  "UID:cancelled@example.com",
+  "STATUS:CANCELLED",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+describe("ical", () => {
+  it("parses an external feed into blocked nights", () => {
+    expect(parseICalendar(AIRBNB_FIXTURE)).toEqual([
+      {
+        uid: "1418fb94e984-a1b2@airbnb.com",
+        start: new Date("2026-05-01T00:00:00Z"),
+        end: new Date("2026-05-05T00:00:00Z"),
+        summary: "Reserved",
+      },
+      {
+        uid: "long-uid-that-is-folded@example.com",
+        start: new Date("2026-05-10T00:00:00Z"),
+        end: new Date("2026-05-12T00:00:00Z"),
+        summary: "Airbnb (Not available)",
+      },
+    ]);
+  });
+
+  it("tells public addresses from internal ones", () => {
+    expect(isPublicAddress("8.8.8.8")).toBe(true);
+    expect(isPublicAddress("2606:4700:4700::1111")).toBe(true);
+    expect(isPublicAddress("127.0.0.1")).toBe(false);
+    expect(isPublicAddress("10.1.2.3")).toBe(false);
+    expect(isPublicAddress("172.20.0.1")).toBe(false);
+    expect(isPublicAddress("192.168.1.1")).toBe(false);
+    expect(isPublicAddress("169.254.169.254")).toBe(false);
+    expect(isPublicAddress("::1")).toBe(false);
+    expect(isPublicAddress("fd00::1")).toBe(false);
+    expect(isPublicAddress("fe80::1")).toBe(false);
+    expect(isPublicAddress("::ffff:127.0.0.1")).toBe(false);
+    expect(isPublicAddress("localhost")).toBe(false);
+  });
+
+  it("refuses feeds that are not on public https hosts", async () => {
+    await expect(
+      fetchICalendar("http://calendar.example.com/listing.ics")
+    ).rejects.toThrow("Calendar feeds must be served over https");
+    await expect(
+      fetchICalendar("https://169.254.169.254/latest/meta-data")
+    ).rejects.toThrow("Calendar feed host is not a public address");
+    await expect(
+      fetchICalendar("https://[::1]:8443/listing.ics")
+    ).rejects.toThrow("Calendar feed host is not a public address");
+    await expect(
+      fetchICalendar("https://localhost:8443/listing.ics")
+    ).rejects.toThrow("Calendar feed host localhost is not a public address");
+  });
+
+  it("reports imported events that overlap held bookings", () => {
+    const events = parseICalendar(AIRBNB_FIXTURE);
+    const conflicts = detectBookingConflicts(events, [
+      {
+        id: "booking-overlap",
+        checkInDate: new Date("2026-05-04T00:00:00Z"),
+        checkOutDate: new Date("2026-05-06T00:00:00Z"),
+      },
+      {
+        // Checks in on the external check-out day: no overlap
+        id: "booking-adjacent",
+        checkInDate: new Date("2026-05-12T00:00:00Z"),
+        checkOutDate: new Date("2026-05-14T00:00:00Z"),
+      },
+    ]);
+
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        uid: "1418fb94e984-a1b2@airbnb.com",
+        bookingId: "booking-overlap",
+      }),
+    ]);
+  });
+
+  it("exports a feed that round-trips through the parser", () => {
+    const ics = buildICalendar("Stayza - Lekki; Loft", [
+      {
+        uid: "booking-1@stayza.pro",
+        start: new Date("2026-06-01T00:00:00Z"),
+        end: new Date("2026-06-03T00:00:00Z"),
+        summary: "Reserved",
+      },
+    ]);
+
+    expect(ics).toContain("X-WR-CALNAME:Stayza - Lekki\\; Loft");
+    expect(ics.split("\r\n")).toContain("DTSTART;VALUE=DATE:20260601");
+    expect(parseICalendar(ics)).toEqual([
+      {
+        uid: "booking-1@stayza.pro",
+        start: new Date("2026-06-01T00:00:00Z"),
+        end: new Date("2026-06-03T00:00:00Z"),
+        summary: "Reserved",
+      },
+    ]);
+  });
+
+  it("invalidates feed tokens when the nonce rotates", () => {
+    const token = signCalendarFeed("property-1", null);
+
+    expect(verifyCalendarFeedToken("property-1", null, token)).toBe(true);
+    expect(verifyCalendarFeedToken("property-2", null, token)).toBe(false);
+    expect(verifyCalendarFeedToken("property-1", "rotated", token)).toBe(false);
+    expect(verifyCalendarFeedToken("property-1", null, "")).toBe(false);
+  });
+});
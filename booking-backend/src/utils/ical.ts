@@ -0,0 +1,360 @@
+import crypto from "crypto";
+import dns from "dns";
+import https from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+import axios from "axios";
+import { config } from "@/config";
+
+/**
+ * iCalendar (RFC 5545) helpers for channel calendar sync. Only the subset
+ * OTAs use for availability is handled: all-day or timed VEVENTs, read as
+ * whole blocked nights.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ICAL_BYTES = 2 * 1024 * 1024;
+const MAX_ICAL_REDIRECTS = 5;
+
+export interface ICalEvent {
+  uid: string;
+  // Both normalized to UTC midnight; end is exclusive (check-out day)
+  start: Date;
+  end: Date;
+  summary?: string;
+}
+
+export interface ICalExportEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+}
+
+export interface CalendarConflict {
+  uid: string;
+  bookingId: string;
+  start: Date;
+  end: Date;
+}
+
+export const toUtcMidnight = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter(Boolean);
+
+const unescapeText = (value: string): string =>
+  value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+
+const escapeText = (value: string): string =>
+  value.replace(/([,;\\])/g, "\\$1").replace(/\r?\n/g, "\\n");
+
+/**
+ * Parses DATE (20260501) and DATE-TIME (20260501T140000[Z]) values.
+ * Floating and TZID times are read as UTC; only the calendar day matters
+ * because imported events are blocked as whole nights.
+ */
+const parseICalDate = (value: string): Date | null => {
+  const matched = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?Z?)?$/);
+  if (!matched) {
+    return null;
+  }
+
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] =
+    matched;
+  const parsed = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second),
+    ),
+  );
+
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const formatICalDate = (date: Date): string =>
+  date.toISOString().slice(0, 10).replace(/-/g, "");
+
+const formatICalDateTime = (date: Date): string =>
+  `${date.toISOString().replace(/[-:]/g, "").split(".")[0]}Z`;
+
+/**
+ * Extracts VEVENTs as blocked night ranges. Cancelled events and events
+ * without a usable start date are skipped.
+ */
+export const parseICalendar = (text: string): ICalEvent[] => {
+  const events: ICalEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of unfoldLines(text)) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+
+    if (line === "END:VEVENT") {
+      if (current) {
+        const event = toICalEvent(current);
+        if (event) {
+          events.push(event);
+        }
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator <= 0) {
+      continue;
+    }
+
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    current[name] = line.slice(separator + 1);
+  }
+
+  return events;
+};
+
+const toICalEvent = (fields: Record<string, string>): ICalEvent | null => {
+  if ((fields.STATUS || "").toUpperCase() === "CANCELLED") {
+    return null;
+  }
+
+  const rawStart = fields.DTSTART ? parseICalDate(fields.DTSTART) : null;
+  if (!rawStart) {
+    return null;
+  }
+
+  const start = toUtcMidnight(rawStart);
+  const rawEnd = fields.DTEND ? parseICalDate(fields.DTEND) : null;
+  let end = rawEnd ? toUtcMidnight(rawEnd) : new Date(start.getTime() + DAY_MS);
+  if (end <= start) {
+    end = new Date(start.getTime() + DAY_MS);
+  }
+
+  return {
+    uid:
+      unescapeText(fields.UID || "") ||
+      `${formatICalDate(start)}-${formatICalDate(end)}`,
+    start,
+    end,
+    summary: fields.SUMMARY ? unescapeText(fields.SUMMARY) : undefined,
+  };
+};
+
+export const buildICalendar = (
+  calendarName: string,
+  events: ICalExportEvent[],
+  now: Date = new Date(),
+): string => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Stayza//Booking Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatICalDateTime(now)}`,
+      `DTSTART;VALUE=DATE:${formatICalDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatICalDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.join("\r\n");
+};
+
+/**
+ * Imported nights that overlap bookings still holding the property.
+ */
+export const detectBookingConflicts = (
+  events: ICalEvent[],
+  bookings: { id: string; checkInDate: Date; checkOutDate: Date }[],
+): CalendarConflict[] => {
+  const conflicts: CalendarConflict[] = [];
+
+  for (const event of events) {
+    for (const booking of bookings) {
+      if (
+        event.start < new Date(booking.checkOutDate) &&
+        event.end > new Date(booking.checkInDate)
+      ) {
+        conflicts.push({
+          uid: event.uid,
+          bookingId: booking.id,
+          start: event.start,
+          end: event.end,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+};
+
+export const signCalendarFeed = (
+  propertyId: string,
+  nonce: string | null,
+): string =>
+  crypto
+    .createHmac("sha256", config.ICAL_FEED_SECRET)
+    .update(`${propertyId}:${nonce || ""}`)
+    .digest("hex");
+
+export const verifyCalendarFeedToken = (
+  propertyId: string,
+  nonce: string | null,
+  token: string,
+): boolean => {
+  const expected = Buffer.from(signCalendarFeed(propertyId, nonce));
+  const provided = Buffer.from(String(token || ""));
+  return (
+    expected.length === provided.length &&
+    crypto.timingSafeEqual(expected, provided)
+  );
+};
+
+// Feed URLs come from realtors, so fetches must never reach the server's own
+// network: loopback, private, link-local (cloud metadata) and other
+// non-routable ranges are refused.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+(
+  [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv4"),
+);
+(
+  [
+    ["::", 128],
+    ["::1", 128],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const
+).forEach(([network, prefix]) =>
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, "ipv6"),
+);
+
+/**
+ * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses
+ * are checked against the IPv4 ranges; anything that is not an IP is not
+ * public.
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (!family) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+/**
+ * Throws unless the URL is https and, when its host is an IP literal, that
+ * address is public. Hostnames are checked when they resolve.
+ */
+const assertFetchableCalendarUrl = (protocol: string, hostname: string) => {
+  if (protocol !== "https:") {
+    throw new Error("Calendar feeds must be served over https");
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new Error("Calendar feed host is not a public address");
+  }
+};
+
+// Resolves like dns.lookup but fails when any address for the host is not
+// public, so DNS rebinding and redirects cannot reach internal services.
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+
+    if (
+      !addresses.length ||
+      addresses.some(({ address }) => !isPublicAddress(address))
+    ) {
+      callback(
+        new Error(`Calendar feed host ${hostname} is not a public address`),
+        "",
+        0,
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const calendarFetchAgent = new https.Agent({ lookup: lookupPublicAddress });
+
+export const fetchICalendar = async (url: string): Promise<string> => {
+  const target = new URL(url);
+  assertFetchableCalendarUrl(target.protocol, target.hostname);
+
+  const response = await axios.get<string>(target.toString(), {
+    responseType: "text",
+    timeout: config.ICAL_FETCH_TIMEOUT_MS,
+    maxContentLength: MAX_ICAL_BYTES,
+    headers: { Accept: "text/calendar, text/plain;q=0.9" },
+    transformResponse: (data) => data,
+    httpsAgent: calendarFetchAgent,
+    maxRedirects: MAX_ICAL_REDIRECTS,
+    // Every hop must stay on https, where the guarded lookup applies
+    beforeRedirect: (options) =>
+      assertFetchableCalendarUrl(options.protocol, options.hostname),
+  });
+
+  const body = String(response.data || "");
+  if (!body.includes("BEGIN:VCALENDAR")) {
+    throw new Error("Response is not an iCalendar document");
+  }
+
+  return body;
+};
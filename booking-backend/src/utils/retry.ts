@@ -101,7 +101,10 @@ export async function withRetry<T>(
 /**
  * Check if an error is retryable
  */
-function isRetryableError(error: any, retryableErrors: string[]): boolean {
+export function isRetryableError(
+  error: any,
+  retryableErrors: string[] = DEFAULT_OPTIONS.retryableErrors
+): boolean {
   // Network errors
   if (error.code && retryableErrors.includes(error.code)) {
     return true;
@@ -157,7 +160,7 @@ function sleep(ms: number): Promise<void> {
 export async function withPaymentRetry<T>(
   operation: () => Promise<T>,
   operationName: string,
-  provider: "paystack"
+  provider: "paystack" | "flutterwave"
 ): Promise<T> {
   return withRetry(operation, `${provider.toUpperCase()} ${operationName}`, {
     maxRetries: 3,
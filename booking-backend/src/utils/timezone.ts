@@ -96,3 +96,39 @@ export function hasPassed(date: Date): boolean {
 export function isFuture(date: Date): boolean {
   return isAfter(date, getCurrentUTC());
 }
+
+/**
+ * Combine a stay date with the property's "HH:mm" check-in/out time,
+ * falling back to the given hour and minute when the time is missing or invalid
+ */
+export function buildSnapshotDateTime(
+  baseDate: Date,
+  propertyTime: string | null | undefined,
+  fallbackHour: number,
+  fallbackMinute: number,
+): Date {
+  const snapshot = new Date(baseDate);
+  snapshot.setHours(fallbackHour, fallbackMinute, 0, 0);
+
+  if (!propertyTime) {
+    return snapshot;
+  }
+
+  const normalized = propertyTime.trim();
+  const matched = normalized.match(/^(\d{1,2}):(\d{2})$/);
+  if (!matched) {
+    return snapshot;
+  }
+
+  const hour = Number(matched[1]);
+  const minute = Number(matched[2]);
+  if (!Number.isFinite(hour) || !Number.isFinite(minute)) {
+    return snapshot;
+  }
+  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+    return snapshot;
+  }
+
+  snapshot.setHours(hour, minute, 0, 0);
+  return snapshot;
+}
@@ -0,0 +1,62 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from "./totp";
+
+// RFC 6238 appendix B SHA1 seed, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890", "ascii"));
+
+describe("totp", () => {
+  it("round-trips base32", () => {
+    const bytes = Buffer.from([0, 1, 2, 253, 254, 255, 42]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+  });
+
+  it("matches the RFC 6238 test vectors", () => {
+    const vectors: Array<[number, string]> = [
+      [59, "94287082"],
+      [1111111109, "07081804"],
+      [1111111111, "14050471"],
+      [1234567890, "89005924"],
+      [2000000000, "69279037"],
+    ];
+
+    for (const [seconds, expected] of vectors) {
+      expect(generateTotp(RFC_SECRET, new Date(seconds * 1000), 8)).toBe(
+        expected,
+      );
+    }
+  });
+
+  it("accepts codes from the neighbouring steps only", () => {
+    const secret = generateTotpSecret();
+    const now = new Date("2026-03-13T09:00:10Z");
+    const step = getTotpStep(now);
+
+    const previous = generateTotp(secret, new Date(now.getTime() - 30000));
+    const tooOld = generateTotp(secret, new Date(now.getTime() - 90000));
+
+    expect(verifyTotp(secret, generateTotp(secret, now), now)).toBe(step);
+    expect(verifyTotp(secret, previous, now)).toBe(step - 1);
+    expect(verifyTotp(secret, tooOld, now)).toBeNull();
+    expect(verifyTotp(secret, "12ab56", now)).toBeNull();
+  });
+
+  it("builds an otpauth URI for authenticator apps", () => {
+    const uri = buildOtpAuthUri({
+      secret: "JBSWY3DPEHPK3PXP",
+      accountName: "ada@example.com",
+      issuer: "Stayza",
+    });
+
+    expect(uri).toBe(
+      "otpauth://totp/Stayza%3Aada%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Stayza&algorithm=SHA1&digits=6&period=30",
+    );
+  });
+});
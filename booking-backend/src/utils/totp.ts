@@ -0,0 +1,151 @@
+import crypto from "crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238) as used by Google Authenticator,
+ * 1Password, Authy and friends: HMAC-SHA1, 6 digits, 30 second steps.
+ */
+
+export const TOTP_DIGITS = 6;
+export const TOTP_STEP_SECONDS = 30;
+// Accept the previous and next step to absorb clock drift on the phone
+export const TOTP_DRIFT_STEPS = 1;
+
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.replace(/[\s=-]/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string =>
+  base32Encode(crypto.randomBytes(SECRET_BYTES));
+
+export const getTotpStep = (now: Date = new Date()): number =>
+  Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+
+/**
+ * HOTP (RFC 4226) value for a counter, zero-padded to `digits`.
+ */
+export const generateHotp = (
+  secret: string,
+  counter: number,
+  digits: number = TOTP_DIGITS,
+): string => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(counterBuffer)
+    .digest();
+
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, "0");
+};
+
+export const generateTotp = (
+  secret: string,
+  now: Date = new Date(),
+  digits: number = TOTP_DIGITS,
+): string => generateHotp(secret, getTotpStep(now), digits);
+
+/**
+ * Checks a code against the current step and its neighbours. Returns the
+ * matching time step so callers can reject a code that was already used, or
+ * null when the code does not match.
+ */
+export const verifyTotp = (
+  secret: string,
+  code: string,
+  now: Date = new Date(),
+): number | null => {
+  const normalized = String(code).replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(now);
+  for (
+    let step = currentStep - TOTP_DRIFT_STEPS;
+    step <= currentStep + TOTP_DRIFT_STEPS;
+    step++
+  ) {
+    const expected = generateHotp(secret, step);
+    if (
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))
+    ) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * otpauth:// URI understood by authenticator apps, usually shown as a QR
+ * code during enrollment.
+ */
+export const buildOtpAuthUri = ({
+  secret,
+  accountName,
+  issuer,
+}: {
+  secret: string;
+  accountName: string;
+  issuer: string;
+}): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
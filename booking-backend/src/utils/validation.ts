@@ -1,4 +1,15 @@
 import Joi from "joi";
+import {
+  AdminRole,
+  PayoutScheduleFrequency,
+  RealtorTeamRole,
+} from "@prisma/client";
+import {
+  DEFAULT_CURRENCY,
+  DISPLAY_CURRENCIES,
+  SETTLEMENT_CURRENCIES,
+} from "@/services/currency";
+import { MAX_PAYOUT_DAY_OF_MONTH } from "@/services/payoutScheduleRules";
 
 // User validation schemas
 export const registerSchema = Joi.object({
@@ -97,7 +108,9 @@ export const createPropertySchema = Joi.object({
     )
     .required(),
   pricePerNight: Joi.number().positive().required(),
-  currency: Joi.string().valid("NGN").default("NGN"),
+  currency: Joi.string()
+    .valid(...SETTLEMENT_CURRENCIES)
+    .default("NGN"),
   maxGuests: Joi.number().integer().positive().max(20).required(),
   bedrooms: Joi.number().integer().min(0).required(),
   bathrooms: Joi.number().integer().positive().required(),
@@ -114,7 +127,7 @@ export const createPropertySchema = Joi.object({
   securityDeposit: Joi.number().positive().optional(),
   checkInTime: Joi.string().allow("", null).optional(),
   checkOutTime: Joi.string().allow("", null).optional(),
-});
+}).and("latitude", "longitude");
 
 export const updatePropertySchema = Joi.object({
   title: Joi.string().min(10).max(200).optional(),
@@ -132,7 +145,9 @@ export const updatePropertySchema = Joi.object({
     )
     .optional(),
   pricePerNight: Joi.number().positive().optional(),
-  currency: Joi.string().valid("NGN").optional(),
+  currency: Joi.string()
+    .valid(...SETTLEMENT_CURRENCIES)
+    .optional(),
   maxGuests: Joi.number().integer().positive().max(20).optional(),
   bedrooms: Joi.number().integer().min(0).optional(),
   bathrooms: Joi.number().integer().positive().optional(),
@@ -150,7 +165,7 @@ export const updatePropertySchema = Joi.object({
   isActive: Joi.boolean().optional(),
   checkInTime: Joi.string().allow("", null).optional(),
   checkOutTime: Joi.string().allow("", null).optional(),
-});
+}).and("latitude", "longitude");
 
 // Booking validation schemas
 export const createBookingSchema = Joi.object({
@@ -159,6 +174,9 @@ export const createBookingSchema = Joi.object({
   checkOutDate: Joi.date().greater(Joi.ref("checkInDate")).required(),
   totalGuests: Joi.number().integer().positive().required(),
   specialRequests: Joi.string().max(500).allow("").optional(),
+  displayCurrency: Joi.string()
+    .valid(...DISPLAY_CURRENCIES)
+    .optional(),
 });
 
 // Review validation schemas
@@ -173,3 +191,179 @@ export const updateReviewSchema = Joi.object({
   comment: Joi.string().min(10).max(1000).optional(),
   isVisible: Joi.boolean().optional(),
 });
+
+export const createGuestReviewSchema = Joi.object({
+  bookingId: Joi.string().required(),
+  cleanlinessRating: Joi.number().integer().min(1).max(5).required(),
+  communicationRating: Joi.number().integer().min(1).max(5).required(),
+  houseRulesRating: Joi.number().integer().min(1).max(5).required(),
+  comment: Joi.string().trim().max(1000).allow("").optional(),
+});
+
+export const reportReviewSchema = Joi.object({
+  reason: Joi.string()
+    .valid(
+      "SPAM",
+      "OFFENSIVE",
+      "HARASSMENT",
+      "PERSONAL_INFORMATION",
+      "NOT_ABOUT_STAY",
+      "FALSE_INFORMATION",
+      "OTHER",
+    )
+    .required(),
+  details: Joi.string()
+    .trim()
+    .max(1000)
+    .allow("")
+    .when("reason", { is: "OTHER", then: Joi.required().invalid("") })
+    .messages({
+      "any.required": "Please describe the problem with this review",
+      "any.invalid": "Please describe the problem with this review",
+    }),
+});
+
+export const resolveReviewReportSchema = Joi.object({
+  note: Joi.string().trim().max(1000).allow("").optional(),
+});
+
+// Reconciliation validation schemas
+export const startReconciliationRunSchema = Joi.object({
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().greater(Joi.ref("from")).optional(),
+});
+
+export const resolveReconciliationItemSchema = Joi.object({
+  note: Joi.string().trim().max(1000).allow("").optional(),
+});
+
+// Statement validation schemas
+export const generateStatementSchema = Joi.object({
+  periodType: Joi.string().valid("MONTHLY", "ANNUAL").required(),
+  year: Joi.number().integer().min(2020).max(2100).required(),
+  month: Joi.number().integer().min(1).max(12).when("periodType", {
+    is: "MONTHLY",
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  currency: Joi.string()
+    .valid(...SETTLEMENT_CURRENCIES)
+    .default(DEFAULT_CURRENCY),
+});
+
+// Notification validation schemas
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+export const notificationPreferencesSchema = Joi.object({
+  emailEnabled: Joi.boolean(),
+  emailBookingUpdates: Joi.boolean(),
+  emailPaymentUpdates: Joi.boolean(),
+  emailReviews: Joi.boolean(),
+  emailMarketing: Joi.boolean(),
+  emailSystemAlerts: Joi.boolean(),
+  pushEnabled: Joi.boolean(),
+  pushBookingUpdates: Joi.boolean(),
+  pushPaymentUpdates: Joi.boolean(),
+  pushReviews: Joi.boolean(),
+  pushSystemAlerts: Joi.boolean(),
+  smsEnabled: Joi.boolean(),
+  smsBookingUpdates: Joi.boolean(),
+  smsPaymentUpdates: Joi.boolean(),
+  smsSystemAlerts: Joi.boolean(),
+  digestFrequency: Joi.string().valid("never", "hourly", "daily", "weekly"),
+  quietHoursStart: timeOfDay.allow(null),
+  quietHoursEnd: timeOfDay.allow(null),
+  timezone: Joi.string()
+    .max(64)
+    .custom((value, helpers) => {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: value });
+        return value;
+      } catch {
+        return helpers.error("any.invalid");
+      }
+    }),
+})
+  .min(1)
+  // Clients may send back the whole preferences object, including id/userId
+  .options({ stripUnknown: true });
+
+export const pushSubscriptionSchema = Joi.object({
+  endpoint: Joi.string()
+    .uri({ scheme: ["https"] })
+    .max(2048)
+    .required(),
+  keys: Joi.object({
+    p256dh: Joi.string().max(256).required(),
+    auth: Joi.string().max(64).required(),
+  }).required(),
+  expirationTime: Joi.number().allow(null).optional(),
+});
+
+// Admin team validation schemas
+const adminRole = Joi.string().valid(...Object.values(AdminRole));
+
+export const createAdminInviteSchema = Joi.object({
+  email: Joi.string().email().trim().lowercase().required(),
+  adminRole: adminRole.required(),
+});
+
+export const updateAdminRoleSchema = Joi.object({
+  adminRole: adminRole.required(),
+});
+
+export const acceptAdminInviteSchema = Joi.object({
+  token: Joi.string().trim().required(),
+  firstName: Joi.string().trim().min(2).max(50).required(),
+  lastName: Joi.string().trim().min(2).max(50).required(),
+  password: Joi.string().min(8).required(),
+});
+
+// Realtor team validation schemas
+const realtorTeamRole = Joi.string().valid(...Object.values(RealtorTeamRole));
+
+export const createRealtorTeamInviteSchema = Joi.object({
+  email: Joi.string().email().trim().lowercase().required(),
+  role: realtorTeamRole.required(),
+});
+
+export const updateRealtorTeamRoleSchema = Joi.object({
+  role: realtorTeamRole.required(),
+});
+
+export const acceptRealtorTeamInviteSchema = acceptAdminInviteSchema;
+
+// Custom domain validation schemas
+export const customDomainSchema = Joi.object({
+  hostname: Joi.string().trim().max(255).required(),
+});
+
+// Payout schedule validation schemas
+export const payoutScheduleSchema = Joi.object({
+  currency: Joi.string()
+    .valid(...SETTLEMENT_CURRENCIES)
+    .optional(),
+  frequency: Joi.string()
+    .valid(...Object.values(PayoutScheduleFrequency))
+    .required(),
+  weekday: Joi.number().integer().min(0).max(6).when("frequency", {
+    is: PayoutScheduleFrequency.WEEKLY,
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  dayOfMonth: Joi.number()
+    .integer()
+    .min(1)
+    .max(MAX_PAYOUT_DAY_OF_MONTH)
+    .when("frequency", {
+      is: PayoutScheduleFrequency.MONTHLY,
+      then: Joi.required(),
+      otherwise: Joi.forbidden(),
+    }),
+  thresholdAmount: Joi.number().positive().precision(2).when("frequency", {
+    is: PayoutScheduleFrequency.THRESHOLD,
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  minimumReserve: Joi.number().min(0).precision(2).default(0),
+});
@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import {
+  buildVapidAuthorization,
+  encryptPushPayload,
+  fromBase64Url,
+  generateVapidKeys,
+  toBase64Url,
+  WebPushError,
+} from "./webPush";
+
+const hkdf = (
+  salt: Buffer,
+  ikm: Buffer,
+  info: string | Buffer,
+  length: number
+) => Buffer.from(crypto.hkdfSync("sha256", ikm, salt, info, length));
+
+// Receiver side of RFC 8291, as a browser would run it
+const decryptPushPayload = (
+  body: Buffer,
+  receiver: crypto.ECDH,
+  authSecret: Buffer
+): Buffer => {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const senderPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = receiver.computeSecret(senderPublicKey);
+  const ikm = hkdf(
+    authSecret,
+    sharedSecret,
+    Buffer.concat([
+      Buffer.from("WebPush: info\0"),
+      receiver.getPublicKey(),
+      senderPublicKey,
+    ]),
+    32
+  );
+  const contentKey = hkdf(salt, ikm, "Content-Encoding: aes128gcm\0", 16);
+  const nonce = hkdf(salt, ikm, "Content-Encoding: nonce\0", 12);
+
+  const decipher = crypto.createDecipheriv("aes-128-gcm", contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const padded = Buffer.concat([
+    decipher.update(ciphertext.subarray(0, ciphertext.length - 16)),
+    decipher.final(),
+  ]);
+
+  expect(padded[padded.length - 1]).toBe(2);
+  return padded.subarray(0, padded.length - 1);
+};
+
+describe("webPush", () => {
+  it("encrypts payloads the subscriber can decrypt", () => {
+    const receiver = crypto.createECDH("prime256v1");
+    receiver.generateKeys();
+    const authSecret = crypto.randomBytes(16);
+
+    const body = encryptPushPayload(
+      Buffer.from('{"title":"Booking confirmed"}'),
+      {
+        p256dh: toBase64Url(receiver.getPublicKey()),
+        auth: toBase64Url(authSecret),
+      }
+    );
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(decryptPushPayload(body, receiver, authSecret).toString()).toBe(
+      '{"title":"Booking confirmed"}'
+    );
+  });
+
+  it("rejects payloads larger than one record", () => {
+    const receiver = crypto.createECDH("prime256v1");
+    receiver.generateKeys();
+
+    expect(() =>
+      encryptPushPayload(Buffer.alloc(5000), {
+        p256dh: toBase64Url(receiver.getPublicKey()),
+        auth: toBase64Url(crypto.randomBytes(16)),
+      })
+    ).toThrow(WebPushError);
+  });
+
+  it("signs VAPID tokens for the push service origin", () => {
+    const keys = generateVapidKeys();
+    const now = new Date("2026-03-21T09:00:00Z");
+    const header = buildVapidAuthorization(
+      "https://fcm.googleapis.com/fcm/send/abc123",
+      { ...keys, subject: "mailto:support@stayza.pro" },
+      now
+    );
+
+    const match = header.match(/^vapid t=([^.]+)\.([^.]+)\.([^,]+), k=(.+)$/);
+    expect(match).not.toBeNull();
+    const [, encodedHeader, encodedClaims, signature, publicKey] = match!;
+
+    expect(publicKey).toBe(keys.publicKey);
+    expect(JSON.parse(fromBase64Url(encodedClaims).toString())).toEqual({
+      aud: "https://fcm.googleapis.com",
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: "mailto:support@stayza.pro",
+    });
+
+    const rawPublicKey = fromBase64Url(keys.publicKey);
+    const verifier = crypto.createPublicKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: toBase64Url(rawPublicKey.subarray(1, 33)),
+        y: toBase64Url(rawPublicKey.subarray(33, 65)),
+      },
+      format: "jwk",
+    });
+    expect(
+      crypto.verify(
+        "sha256",
+        Buffer.from(`${encodedHeader}.${encodedClaims}`),
+        { key: verifier, dsaEncoding: "ieee-p1363" },
+        fromBase64Url(signature)
+      )
+    ).toBe(true);
+  });
+
+  it("flags gone subscriptions", () => {
+    expect(new WebPushError("gone", 410).isSubscriptionGone).toBe(true);
+    expect(new WebPushError("missing", 404).isSubscriptionGone).toBe(true);
+    expect(new WebPushError("busy", 429).isSubscriptionGone).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+import axios from "axios";
+import crypto from "crypto";
+
+/**
+ * Minimal Web Push sender: VAPID authentication (RFC 8292) and aes128gcm
+ * payload encryption (RFC 8291) on top of node's crypto module.
+ */
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export interface WebPushOptions {
+  ttlSeconds?: number;
+  urgency?: "very-low" | "low" | "normal" | "high";
+  timeoutMs?: number;
+}
+
+export class WebPushError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+  ) {
+    super(message);
+    this.name = "WebPushError";
+  }
+
+  // The push service no longer knows this subscription; it should be deleted
+  get isSubscriptionGone(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+}
+
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+export const toBase64Url = (buffer: Buffer): string =>
+  buffer
+    .toString("base64")
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+export const fromBase64Url = (value: string): Buffer =>
+  Buffer.from(value.replace(/-/g, "+").replace(/_/g, "/"), "base64");
+
+const hkdf = (salt: Buffer, ikm: Buffer, info: Buffer, length: number) =>
+  Buffer.from(crypto.hkdfSync("sha256", ikm, salt, info, length));
+
+/**
+ * Encrypt a payload for one subscription. Returns the request body including
+ * the aes128gcm header (salt, record size and the sender's public key).
+ */
+export const encryptPushPayload = (
+  payload: Buffer,
+  subscription: Pick<PushSubscriptionKeys, "p256dh" | "auth">,
+): Buffer => {
+  const userAgentPublicKey = fromBase64Url(subscription.p256dh);
+  const authSecret = fromBase64Url(subscription.auth);
+
+  const sender = crypto.createECDH("prime256v1");
+  const senderPublicKey = sender.generateKeys();
+  const sharedSecret = sender.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([
+    Buffer.from("WebPush: info\0"),
+    userAgentPublicKey,
+    senderPublicKey,
+  ]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+
+  const salt = crypto.randomBytes(16);
+  const contentKey = hkdf(
+    salt,
+    ikm,
+    Buffer.from("Content-Encoding: aes128gcm\0"),
+    16,
+  );
+  const nonce = hkdf(salt, ikm, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  // Single record: payload followed by the 0x02 last-record delimiter
+  const cipher = crypto.createCipheriv("aes-128-gcm", contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  if (ciphertext.length > RECORD_SIZE) {
+    throw new WebPushError("Push payload is too large");
+  }
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(senderPublicKey.length, 20);
+
+  return Buffer.concat([header, senderPublicKey, ciphertext]);
+};
+
+/**
+ * `Authorization` header value for a push service origin
+ */
+export const buildVapidAuthorization = (
+  endpoint: string,
+  vapid: VapidKeys,
+  now: Date = new Date(),
+): string => {
+  const publicKey = fromBase64Url(vapid.publicKey);
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: vapid.privateKey,
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  });
+
+  const header = toBase64Url(
+    Buffer.from(JSON.stringify({ typ: "JWT", alg: "ES256" })),
+  );
+  const claims = toBase64Url(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+        sub: vapid.subject,
+      }),
+    ),
+  );
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key: privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+
+  return `vapid t=${header}.${claims}.${toBase64Url(signature)}, k=${vapid.publicKey}`;
+};
+
+/**
+ * Generate a VAPID key pair in the base64url format expected by browsers
+ */
+export const generateVapidKeys = (): Omit<VapidKeys, "subject"> => {
+  const ecdh = crypto.createECDH("prime256v1");
+  ecdh.generateKeys();
+
+  return {
+    publicKey: toBase64Url(ecdh.getPublicKey()),
+    // Left-pad: JWK "d" must be exactly 32 bytes
+    privateKey: toBase64Url(
+      Buffer.concat([Buffer.alloc(32), ecdh.getPrivateKey()]).subarray(-32),
+    ),
+  };
+};
+
+export const sendWebPush = async (
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  vapid: VapidKeys,
+  options: WebPushOptions = {},
+): Promise<void> => {
+  const body = encryptPushPayload(Buffer.from(payload), subscription);
+
+  try {
+    await axios.post(subscription.endpoint, body, {
+      timeout: options.timeoutMs ?? 10000,
+      headers: {
+        Authorization: buildVapidAuthorization(subscription.endpoint, vapid),
+        "Content-Encoding": "aes128gcm",
+        "Content-Type": "application/octet-stream",
+        TTL: String(options.ttlSeconds ?? 24 * 60 * 60),
+        Urgency: options.urgency ?? "normal",
+      },
+    });
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new WebPushError(
+        `Push service responded with ${error.response?.status ?? error.code}`,
+        error.response?.status,
+      );
+    }
+    throw error;
+  }
+};
@@ -1,6 +1,13 @@
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 import { isAllowedMainDomainPath } from "./src/lib/mainDomainRoutes";
+import {
+  CUSTOM_DOMAIN_SLUG_COOKIE,
+  CUSTOM_DOMAIN_SLUG_HEADER,
+  MAIN_DOMAIN,
+  isAllowedCustomDomainPath,
+  isPlatformHostname,
+} from "./src/lib/customDomains";
 
 const SUBDOMAIN_LOGIN_PATHS = new Set(["/login", "/realtor/login"]);
 const LOCALE_ROOT_PATHS = new Set(["/en", "/fr", "/pt"]);
@@ -24,11 +31,109 @@ const getRootDomain = (hostname: string): string => {
   return hostname;
 };
 
-export function middleware(request: NextRequest) {
+const API_URL = (
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:5050/api"
+).replace(/\/+$/, "");
+
+const CUSTOM_DOMAIN_CACHE_MS = 60 * 1000;
+// Any Host header reaches this lookup and misses are cached too, so only the
+// most recently used answers are kept
+const CUSTOM_DOMAIN_CACHE_MAX_ENTRIES = 500;
+const customDomainSlugs = new Map<
+  string,
+  { slug: string | null; expiresAt: number }
+>();
+
+const rememberCustomDomainSlug = (hostname: string, slug: string | null) => {
+  customDomainSlugs.delete(hostname);
+  if (customDomainSlugs.size >= CUSTOM_DOMAIN_CACHE_MAX_ENTRIES) {
+    const oldest = customDomainSlugs.keys().next().value;
+    if (oldest !== undefined) {
+      customDomainSlugs.delete(oldest);
+    }
+  }
+  customDomainSlugs.set(hostname, {
+    slug,
+    expiresAt: Date.now() + CUSTOM_DOMAIN_CACHE_MS,
+  });
+};
+
+// Realtor slug for a verified custom domain, from the public branding API
+const resolveCustomDomainSlug = async (
+  hostname: string,
+): Promise<string | null> => {
+  const cached = customDomainSlugs.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) {
+    // Re-insert so the Map's insertion order tracks recent use
+    customDomainSlugs.delete(hostname);
+    customDomainSlugs.set(hostname, cached);
+    return cached.slug;
+  }
+
+  try {
+    const response = await fetch(
+      `${API_URL}/branding/domain/${encodeURIComponent(hostname)}`,
+    );
+    const body = response.ok ? await response.json() : null;
+    const slug: string | null = body?.data?.subdomain || null;
+    rememberCustomDomainSlug(hostname, slug);
+    return slug;
+  } catch {
+    // API unreachable: don't cache, try again on the next request
+    return null;
+  }
+};
+
+const serveCustomDomain = (
+  request: NextRequest,
+  hostname: string,
+  slug: string,
+) => {
+  const url = request.nextUrl.clone();
+
+  if (url.pathname === "/" || LOCALE_ROOT_PATHS.has(url.pathname)) {
+    url.pathname = "/guest-landing";
+    return NextResponse.redirect(url, 307);
+  }
+
+  // Dashboard and auth pages live on the realtor's subdomain
+  if (!isAllowedCustomDomainPath(url.pathname)) {
+    url.hostname = `${slug}.${MAIN_DOMAIN}`;
+    url.port = "";
+    return NextResponse.redirect(url, 307);
+  }
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(CUSTOM_DOMAIN_SLUG_HEADER, slug);
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.cookies.set(CUSTOM_DOMAIN_SLUG_COOKIE, slug, {
+    path: "/",
+    sameSite: "lax",
+  });
+  response.headers.set("x-subdomain", slug);
+  response.headers.set("x-tenant-type", "realtor");
+  response.headers.set("x-is-subdomain", "false");
+  response.headers.set("x-realtor-subdomain", slug);
+  response.headers.set("x-custom-domain", hostname);
+
+  return response;
+};
+
+export async function middleware(request: NextRequest) {
   const hostHeader = request.headers.get("host") || request.nextUrl.host;
   const hostname = getHostname(hostHeader);
   const url = request.nextUrl.clone();
 
+  // Realtor booking websites on their own domains. Hosts that don't resolve
+  // fall through to the usual subdomain handling.
+  if (!isPlatformHostname(hostname)) {
+    const slug = await resolveCustomDomainSlug(hostname);
+    if (slug) {
+      return serveCustomDomain(request, hostname, slug);
+    }
+  }
+
   const hostParts = hostname.split(".");
   const isLocalhost = isLocalhostHost(hostname);
 
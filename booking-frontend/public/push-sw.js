@@ -0,0 +1,42 @@
+/* Web Push service worker: shows notifications sent by the API and opens
+ * the related page when one is clicked. */
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch (error) {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  const title = payload.title || "Stayza";
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || "",
+      tag: payload.tag,
+      icon: "/apple-touch-icon.png",
+      badge: "/favicon.ico",
+      data: { url: payload.url || "/", ...(payload.data || {}) },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(
+    (event.notification.data && event.notification.data.url) || "/",
+    self.location.origin
+  ).href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const existing = clients.find((client) => client.url === url);
+        if (existing) {
+          return existing.focus();
+        }
+        return self.clients.openWindow(url);
+      })
+  );
+});
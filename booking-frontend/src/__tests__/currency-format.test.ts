@@ -0,0 +1,21 @@
+import { formatCurrency } from "@/utils/formatters";
+import { formatPrice } from "@/utils/currency";
+
+describe("currency formatting", () => {
+  it("formats amounts in the listing's currency", () => {
+    expect(formatCurrency(1250, "NGN")).toBe("₦1,250.00");
+    expect(formatCurrency(1250, "GHS")).toBe("GH₵1,250.00");
+    expect(formatCurrency(1250, "KES")).toBe("KSh1,250.00");
+  });
+
+  it("rounds currencies without minor units to whole amounts", () => {
+    // The group separator for fr-SN is a narrow no-break space
+    expect(formatPrice(1250.6, "XOF")).toMatch(/^CFA1\s?251$/);
+    expect(formatPrice(1250.5, "GHS")).toBe("GH₵1,250.5");
+  });
+
+  it("falls back to naira for unknown currencies", () => {
+    expect(formatCurrency(10, "ZZZ")).toBe("₦10.00");
+    expect(formatPrice("abc")).toBe("₦0");
+  });
+});
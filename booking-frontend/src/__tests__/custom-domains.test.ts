@@ -0,0 +1,34 @@
+import {
+  isAllowedCustomDomainPath,
+  isPlatformHostname,
+  readCustomDomainSlug,
+} from "@/lib/customDomains";
+
+describe("custom domain hosts", () => {
+  it("tells platform hosts from realtor domains", () => {
+    expect(isPlatformHostname("stayza.pro", "stayza.pro")).toBe(true);
+    expect(isPlatformHostname("acme.stayza.pro", "stayza.pro")).toBe(true);
+    expect(isPlatformHostname("acme.localhost", "stayza.pro")).toBe(true);
+    expect(isPlatformHostname("book.example.com", "stayza.pro")).toBe(false);
+    expect(isPlatformHostname("stayza.pro.example.com", "stayza.pro")).toBe(
+      false,
+    );
+  });
+
+  it("serves guest pages and sends dashboard pages to the subdomain", () => {
+    expect(isAllowedCustomDomainPath("/")).toBe(true);
+    expect(isAllowedCustomDomainPath("/guest-landing")).toBe(true);
+    expect(isAllowedCustomDomainPath("/booking/cml123/checkout")).toBe(true);
+    expect(isAllowedCustomDomainPath("/dashboard")).toBe(false);
+    expect(isAllowedCustomDomainPath("/settings")).toBe(false);
+    expect(isAllowedCustomDomainPath("/guestbook")).toBe(false);
+  });
+
+  it("reads the realtor slug cookie", () => {
+    expect(
+      readCustomDomainSlug("theme=dark; stayza_site_slug=acme-homes"),
+    ).toBe("acme-homes");
+    expect(readCustomDomainSlug("theme=dark")).toBeNull();
+    expect(readCustomDomainSlug("stayza_site_slug=%3Cscript%3E")).toBeNull();
+  });
+});
@@ -25,6 +25,10 @@ import { BookingStatus } from "@/types";
 import { canDownloadReceipt, formatPaymentStatus } from "@/utils/bookingEnums";
 import { EscrowStatusSection } from "@/components/booking/EscrowStatusSection";
 import BookingLifecycleActions from "@/components/booking/BookingLifecycleActions";
+import BookingModificationPanel from "@/components/booking/BookingModificationPanel";
+import GuestReviewPanel, {
+  GuestRatingBadge,
+} from "@/components/booking/GuestReviewPanel";
 import { toast as showToast } from "react-hot-toast";
 
 const DISPLAY_TIMEZONE = "Africa/Lagos";
@@ -347,6 +351,7 @@ export default function RealtorBookingDetailsPage() {
                 <p className="font-medium text-gray-900">
                   {booking.guest?.firstName} {booking.guest?.lastName}
                 </p>
+                <GuestRatingBadge rating={booking.guestRating} />
               </div>
 
               <div>
@@ -517,6 +522,17 @@ export default function RealtorBookingDetailsPage() {
             role="REALTOR"
             onRefresh={handleLifecycleRefresh}
           />
+
+          <BookingModificationPanel
+            booking={booking}
+            role="REALTOR"
+            onRefresh={handleLifecycleRefresh}
+          />
+
+          <GuestReviewPanel
+            booking={booking}
+            onRefresh={handleLifecycleRefresh}
+          />
         </div>
 
         {/* Sidebar Actions */}
@@ -20,6 +20,7 @@ import {
   Eye,
 } from "lucide-react";
 import { format } from "date-fns";
+import { GuestRatingBadge } from "@/components/booking/GuestReviewPanel";
 
 export default function RealtorBookingsPage() {
   const router = useRouter();
@@ -314,6 +315,7 @@ export default function RealtorBookingsPage() {
                                 {booking.guest?.firstName}{" "}
                                 {booking.guest?.lastName}
                               </p>
+                              <GuestRatingBadge rating={booking.guestRating} />
                             </div>
                           </div>
 
@@ -6,6 +6,9 @@ import { propertyService } from "@/services/properties";
 import { Property, PropertyFormData } from "@/types";
 import { useAlert } from "@/context/AlertContext";
 import PropertyCalendarManager from "@/components/realtor/PropertyCalendarManager";
+import PropertyCalendarSyncPanel from "@/components/realtor/PropertyCalendarSyncPanel";
+import PropertyPricingRulesEditor from "@/components/realtor/PropertyPricingRulesEditor";
+import PropertyCancellationPolicyEditor from "@/components/realtor/PropertyCancellationPolicyEditor";
 import {
   ArrowLeft,
   Save,
@@ -555,6 +558,9 @@ export default function EditPropertyPage() {
           </div>
 
           <PropertyCalendarManager propertyId={propertyId} />
+          <PropertyCalendarSyncPanel propertyId={propertyId} />
+          <PropertyPricingRulesEditor propertyId={propertyId} />
+          <PropertyCancellationPolicyEditor propertyId={propertyId} />
         </div>
 
         {/* Actions */}
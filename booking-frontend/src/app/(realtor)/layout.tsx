@@ -28,6 +28,7 @@ import {
   AlertCircle,
   MessageCircle,
   QrCode,
+  FileText,
   Menu,
   X,
 } from "lucide-react";
@@ -65,6 +66,8 @@ const resolveActiveNav = (currentPath: string): string => {
     return "wallet";
   } else if (currentPath.includes("/payouts")) {
     return "payouts";
+  } else if (currentPath.includes("/statements")) {
+    return "statements";
   } else if (currentPath.includes("/notifications")) {
     return "notifications";
   } else if (currentPath.includes("/settings")) {
@@ -309,6 +312,12 @@ export default function RealtorLayout({
       href: "/dashboard/payments",
     },
     { id: "payouts", label: "Payouts", icon: DollarSign, href: "/payouts" },
+    {
+      id: "statements",
+      label: "Statements",
+      icon: FileText,
+      href: "/statements",
+    },
     {
       id: "notifications",
       label: "Notifications",
@@ -22,8 +22,10 @@ import {
   X,
   ShieldCheck,
   Mail,
+  Lock,
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { formatCurrency as formatMoney } from "@/utils/formatters";
 import walletService, {
   WalletBalance,
   WalletTransaction,
@@ -31,6 +33,7 @@ import walletService, {
   EarningsSummary,
   WithdrawalFeePreview,
 } from "@/services/wallet";
+import AutoPayoutSettings from "@/components/realtor/AutoPayoutSettings";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5050/api";
 
@@ -58,6 +61,8 @@ export default function PayoutsPage() {
   const [walletBalance, setWalletBalance] = useState<WalletBalance | null>(
     null
   );
+  // Empty shows the payout currency's wallet
+  const [walletCurrency, setWalletCurrency] = useState("");
   const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
   const [withdrawals, setWithdrawals] = useState<WithdrawalRequest[]>([]);
   const [earnings, setEarnings] = useState<EarningsSummary | null>(null);
@@ -126,14 +131,14 @@ export default function PayoutsPage() {
   const fetchWalletData = useCallback(async () => {
     try {
       const [balanceData, earningsData] = await Promise.all([
-        walletService.getWalletBalance(),
-        walletService.getEarningsSummary(),
+        walletService.getWalletBalance(walletCurrency || undefined),
+        walletService.getEarningsSummary(walletCurrency || undefined),
       ]);
       setWalletBalance(balanceData);
       setEarnings(earningsData);
     } catch {
     }
-  }, []);
+  }, [walletCurrency]);
 
   const loadTransactions = useCallback(async () => {
     try {
@@ -141,13 +146,15 @@ export default function PayoutsPage() {
       const response = await walletService.getWalletTransactions(
         txPage,
         20,
-        type
+        type,
+        undefined,
+        walletCurrency || undefined
       );
       setTransactions(response.data);
       setTxTotalPages(response.pagination.totalPages);
     } catch {
     }
-  }, [txFilter, txPage]);
+  }, [txFilter, txPage, walletCurrency]);
 
   const fetchPayoutData = useCallback(async () => {
     try {
@@ -333,8 +340,15 @@ export default function PayoutsPage() {
 
     try {
       setIsWithdrawing(true);
-      await walletService.confirmWithdrawal(otpAmount, withdrawOtp.trim());
-      showSuccess("Withdrawal request submitted successfully!");
+      const withdrawal = await walletService.confirmWithdrawal(
+        otpAmount,
+        withdrawOtp.trim()
+      );
+      showSuccess(
+        withdrawal.status === "ON_HOLD"
+          ? "Withdrawal submitted and placed on hold after your recent payout account change."
+          : "Withdrawal request submitted successfully!"
+      );
       closeWithdrawModal();
       await fetchWalletData();
       await loadTransactions();
@@ -351,12 +365,15 @@ export default function PayoutsPage() {
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-NG", {
-      style: "currency",
-      currency: "NGN",
-    }).format(amount);
-  };
+  const formatCurrency = (
+    amount: number,
+    currency: string = walletBalance?.currency || "NGN"
+  ) => formatMoney(amount, currency);
+
+  // Withdrawals are only paid out from the payout currency's wallet
+  const canWithdrawFromWallet =
+    !walletBalance?.payoutCurrency ||
+    walletBalance.currency === walletBalance.payoutCurrency;
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
@@ -371,6 +388,7 @@ export default function PayoutsPage() {
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
       PENDING: "bg-yellow-100 text-yellow-800",
+      ON_HOLD: "bg-orange-100 text-orange-800",
       PROCESSING: "bg-blue-100 text-blue-800",
       COMPLETED: "bg-green-100 text-green-800",
       FAILED: "bg-red-100 text-red-800",
@@ -383,6 +401,8 @@ export default function PayoutsPage() {
     switch (status) {
       case "PENDING":
         return <Clock className="w-4 h-4 text-yellow-500" />;
+      case "ON_HOLD":
+        return <Lock className="w-4 h-4 text-orange-500" />;
       case "PROCESSING":
         return <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />;
       case "COMPLETED":
@@ -401,6 +421,7 @@ export default function PayoutsPage() {
       { color: string; bg: string; icon: React.ElementType }
     > = {
       PENDING: { color: "text-yellow-700", bg: "bg-yellow-100", icon: Clock },
+      ON_HOLD: { color: "text-orange-700", bg: "bg-orange-100", icon: Lock },
       PROCESSING: {
         color: "text-blue-700",
         bg: "bg-blue-100",
@@ -494,6 +515,50 @@ export default function PayoutsPage() {
           </motion.div>
         )}
 
+        {(walletBalance?.currencies?.length ?? 0) > 1 && (
+          <div className="flex flex-wrap items-center justify-end gap-2 text-sm text-gray-600">
+            <span>Wallet</span>
+            {walletBalance?.currencies?.map((code) => (
+              <button
+                key={code}
+                onClick={() => {
+                  setWalletCurrency(code);
+                  setTxPage(1);
+                }}
+                className={`px-3 py-1 rounded-lg border text-xs font-medium transition-colors ${
+                  walletBalance.currency === code
+                    ? "border-gray-900 bg-gray-900 text-white"
+                    : "border-gray-300 bg-white hover:bg-gray-50"
+                }`}
+              >
+                {code}
+              </button>
+            ))}
+            {!canWithdrawFromWallet && (
+              <span className="w-full text-right text-xs text-gray-500">
+                Withdrawals are paid from your {walletBalance?.payoutCurrency}{" "}
+                wallet. Change your payout account to withdraw{" "}
+                {walletBalance?.currency}.
+              </span>
+            )}
+          </div>
+        )}
+
+        {walletBalance?.payoutHold && (
+          <div className="flex items-start gap-3 rounded-lg border border-orange-200 bg-orange-50 p-4 text-sm text-orange-800">
+            <Lock className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            <div>
+              <p>{walletBalance.payoutHold.message}</p>
+              {walletBalance.payoutHold.until && (
+                <p className="mt-1 text-orange-700">
+                  New withdrawals will go out after{" "}
+                  {new Date(walletBalance.payoutHold.until).toLocaleString()}.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Balance Cards */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {/* Available Balance */}
@@ -511,7 +576,8 @@ export default function PayoutsPage() {
               </div>
               <button
                 onClick={() => setShowWithdrawModal(true)}
-                className="bg-white/20 hover:bg-white/30 px-3 py-1 rounded-lg text-xs font-medium transition-colors"
+                disabled={!canWithdrawFromWallet}
+                className="bg-white/20 hover:bg-white/30 px-3 py-1 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Withdraw
               </button>
@@ -592,7 +658,11 @@ export default function PayoutsPage() {
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
             onClick={() => setShowWithdrawModal(true)}
-            disabled={!walletBalance || walletBalance.availableBalance <= 0}
+            disabled={
+              !walletBalance ||
+              walletBalance.availableBalance <= 0 ||
+              !canWithdrawFromWallet
+            }
             style={{ backgroundColor: brandColor }}
             className="px-8 py-3 text-white rounded-lg font-semibold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transition-all"
           >
@@ -601,6 +671,10 @@ export default function PayoutsPage() {
           </motion.button>
         </div>
 
+        {hasPayoutAccount && (
+          <AutoPayoutSettings currency={walletCurrency || undefined} />
+        )}
+
         {/* Transactions Section */}
         <div className="bg-white rounded-lg shadow">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -736,7 +810,10 @@ export default function PayoutsPage() {
                           {withdrawal.status}
                         </span>
                         <span className="text-lg font-semibold text-gray-900">
-                          {formatCurrency(withdrawal.amount)}
+                          {formatCurrency(
+                            withdrawal.amount,
+                            withdrawal.wallet?.currency
+                          )}
                         </span>
                       </div>
                       <p className="text-xs text-gray-500 mt-2">
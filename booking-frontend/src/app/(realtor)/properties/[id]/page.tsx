@@ -5,7 +5,11 @@ import { useRouter, useParams } from "next/navigation";
 import { useAlert } from "@/context/AlertContext";
 import { propertyService } from "@/services/properties";
 import { Property, PropertyFormData } from "@/types";
+import { SETTLEMENT_CURRENCIES, currencyFormat } from "@/utils/currency";
 import PropertyCalendarManager from "@/components/realtor/PropertyCalendarManager";
+import PropertyCalendarSyncPanel from "@/components/realtor/PropertyCalendarSyncPanel";
+import PropertyPricingRulesEditor from "@/components/realtor/PropertyPricingRulesEditor";
+import PropertyCancellationPolicyEditor from "@/components/realtor/PropertyCancellationPolicyEditor";
 import {
   ArrowLeft,
   Save,
@@ -404,7 +408,7 @@ export default function EditPropertyPage() {
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Price per Night ({formData.currency || "₦"}) *
+                    Price per Night ({currencyFormat(formData.currency).symbol}) *
                   </label>
                   <input
                     type="number"
@@ -430,7 +434,11 @@ export default function EditPropertyPage() {
                     onChange={(e) => updateFormData("currency", e.target.value)}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   >
-                    <option value="NGN">₦ Naira</option>
+                    {SETTLEMENT_CURRENCIES.map((code) => (
+                      <option key={code} value={code}>
+                        {currencyFormat(code).symbol} {currencyFormat(code).name}
+                      </option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -631,6 +639,9 @@ export default function EditPropertyPage() {
           </div>
 
           <PropertyCalendarManager propertyId={propertyId} />
+          <PropertyCalendarSyncPanel propertyId={propertyId} />
+          <PropertyPricingRulesEditor propertyId={propertyId} />
+          <PropertyCancellationPolicyEditor propertyId={propertyId} />
         </div>
 
         {/* Actions */}
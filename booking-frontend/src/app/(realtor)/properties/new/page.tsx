@@ -7,6 +7,7 @@ import { useBranding } from "@/hooks/useBranding";
 import { propertyService } from "@/services/properties";
 import { PropertyFormData, PropertyType, PropertyAmenity } from "@/types";
 import { AnimatedTimeInput } from "@/components/ui";
+import { SETTLEMENT_CURRENCIES, currencyFormat } from "@/utils/currency";
 import toast, { Toaster } from "react-hot-toast";
 import {
   MapPin,
@@ -224,10 +225,6 @@ const AMENITIES_OPTIONS: {
 ];
 
 // Currency symbols mapping
-const CURRENCY_SYMBOLS: { [key: string]: string } = {
-  NGN: "\u20A6",
-};
-
 export default function AddPropertyPage() {
   const router = useRouter();
   const { branding } = useBranding();
@@ -356,6 +353,13 @@ export default function AddPropertyPage() {
           toast.error("Please fill in all required location fields");
           return false;
         }
+        if (
+          (formData.latitude === undefined) !==
+          (formData.longitude === undefined)
+        ) {
+          toast.error("Please provide both latitude and longitude");
+          return false;
+        }
         return true;
       case "pricing":
         if (!formData.pricePerNight || formData.pricePerNight <= 0) {
@@ -438,6 +442,8 @@ export default function AddPropertyPage() {
         city: formData.city,
         state: formData.state,
         country: formData.country || "Nigeria",
+        latitude: formData.latitude,
+        longitude: formData.longitude,
         // Optional fees
         cleaningFee: formData.cleaningFee,
         securityDeposit: formData.securityDeposit,
@@ -761,6 +767,46 @@ export default function AddPropertyPage() {
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Latitude
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  value={formData.latitude ?? ""}
+                  onChange={(e) =>
+                    updateFormData(
+                      "latitude",
+                      e.target.value ? parseFloat(e.target.value) : undefined,
+                    )
+                  }
+                  placeholder="6.5244"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:border-transparent transition-all"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Longitude
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  value={formData.longitude ?? ""}
+                  onChange={(e) =>
+                    updateFormData(
+                      "longitude",
+                      e.target.value ? parseFloat(e.target.value) : undefined,
+                    )
+                  }
+                  placeholder="3.3792"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:border-transparent transition-all"
+                />
+              </div>
+            </div>
+
             <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
               <div className="flex items-start space-x-3">
                 <AlertCircle className="h-5 w-5 text-blue-600 mt-0.5" />
@@ -771,7 +817,8 @@ export default function AddPropertyPage() {
                   <p className="text-xs text-blue-700 mt-1">
                     Provide accurate location details. This helps guests find
                     your property easily and improves your listing&apos;s
-                    visibility.
+                    visibility. Guests only see an approximate map pin until
+                    their booking is paid.
                   </p>
                 </div>
               </div>
@@ -786,9 +833,20 @@ export default function AddPropertyPage() {
               <label className="block text-sm font-semibold text-gray-700 mb-2">
                 Currency
               </label>
-              <div className="w-full px-4 py-3 border border-gray-300 rounded-xl bg-gray-50 text-gray-700 font-medium">
-                {"\u20A6"} Naira
-              </div>
+              <select
+                value={formData.currency || "NGN"}
+                onChange={(e) => updateFormData("currency", e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl bg-white text-gray-700 font-medium focus:ring-2 focus:border-transparent"
+              >
+                {SETTLEMENT_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {currencyFormat(code).symbol} {currencyFormat(code).name}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Guests pay and you are paid out in this currency
+              </p>
             </div>
 
             <div>
@@ -797,7 +855,7 @@ export default function AddPropertyPage() {
               </label>
               <div className="relative">
                 <div className="absolute left-4 top-1/2 transform -translate-y-1/2 text-xl font-semibold text-gray-600">
-                  {CURRENCY_SYMBOLS[formData.currency || "NGN"]}
+                  {currencyFormat(formData.currency).symbol}
                 </div>
                 <input
                   type="number"
@@ -841,7 +899,7 @@ export default function AddPropertyPage() {
                   </label>
                   <div className="relative">
                     <div className="absolute left-4 top-1/2 transform -translate-y-1/2 text-lg text-gray-600">
-                      {CURRENCY_SYMBOLS[formData.currency || "NGN"]}
+                      {currencyFormat(formData.currency).symbol}
                     </div>
                     <input
                       type="number"
@@ -871,7 +929,7 @@ export default function AddPropertyPage() {
                   </label>
                   <div className="relative">
                     <div className="absolute left-4 top-1/2 transform -translate-y-1/2 text-lg text-gray-600">
-                      {CURRENCY_SYMBOLS[formData.currency || "NGN"]}
+                      {currencyFormat(formData.currency).symbol}
                     </div>
                     <input
                       type="number"
@@ -1250,7 +1308,7 @@ export default function AddPropertyPage() {
                 <div>
                   <p className="text-gray-500">Price Per Night</p>
                   <p className="font-medium">
-                    {CURRENCY_SYMBOLS[formData.currency || "NGN"]}
+                    {currencyFormat(formData.currency).symbol}
                     {formData.pricePerNight ?? 0}
                   </p>
                 </div>
@@ -1260,7 +1318,7 @@ export default function AddPropertyPage() {
                       <div>
                         <p className="text-gray-500">Cleaning Fee</p>
                         <p className="font-medium">
-                          {CURRENCY_SYMBOLS[formData.currency || "NGN"]}
+                          {currencyFormat(formData.currency).symbol}
                           {formData.cleaningFee}
                         </p>
                       </div>
@@ -1271,7 +1329,7 @@ export default function AddPropertyPage() {
                           Security Deposit (Refundable)
                         </p>
                         <p className="font-medium">
-                          {CURRENCY_SYMBOLS[formData.currency || "NGN"]}
+                          {currencyFormat(formData.currency).symbol}
                           {formData.securityDeposit}
                         </p>
                       </div>
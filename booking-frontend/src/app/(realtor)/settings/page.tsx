@@ -29,7 +29,18 @@ import { useAlert } from "@/context/AlertContext";
 import { useBranding } from "@/hooks/useBranding";
 import { getRealtorSubdomain, buildSubdomainUrl } from "@/utils/subdomain";
 import { buildMainDomainUrl } from "@/utils/domains";
+import {
+  ActiveSessionsPanel,
+  TwoFactorSettingsPanel,
+} from "@/components/auth";
+import CustomDomainSettings from "@/components/realtor/CustomDomainSettings";
 import { payoutService, Bank } from "@/services/payout";
+import {
+  PAYOUT_ACCOUNT_DIGITS,
+  SETTLEMENT_CURRENCIES,
+  SettlementCurrency,
+  currencyFormat,
+} from "@/utils/currency";
 import type { CacStatus } from "@/types";
 
 // API URL for direct backend calls
@@ -110,6 +121,7 @@ export default function SettingsPage() {
     accountNumber: "",
     accountName: "",
     bankCode: "",
+    currency: "NGN" as SettlementCurrency,
   });
   const [banks, setBanks] = useState<Bank[]>([]);
   const [isVerifyingAccount, setIsVerifyingAccount] = useState(false);
@@ -187,10 +199,9 @@ export default function SettingsPage() {
   const fetchBanksAndPayoutSettings = useCallback(async () => {
     try {
       setIsLoading(true);
-      const [banksData, payoutSettings] = await Promise.all([
-        payoutService.getBanks(),
-        payoutService.getPayoutSettings(),
-      ]);
+      const payoutSettings = await payoutService.getPayoutSettings();
+      const currency = (payoutSettings.currency || "NGN") as SettlementCurrency;
+      const banksData = await payoutService.getBanks(currency);
 
       setBanks(banksData);
       setHasPayoutAccount(payoutSettings.hasPayoutAccount);
@@ -209,6 +220,7 @@ export default function SettingsPage() {
             payoutSettings.maskedAccountNumber ||
             "",
           accountName: payoutSettings.accountName || "",
+          currency,
         });
       } else {
         setPayoutData({
@@ -216,6 +228,7 @@ export default function SettingsPage() {
           bankName: "",
           accountNumber: "",
           accountName: "",
+          currency,
         });
       }
     } catch (error) {
@@ -325,14 +338,40 @@ export default function SettingsPage() {
     }
   };
 
+  const accountDigits = PAYOUT_ACCOUNT_DIGITS[payoutData.currency];
+  const accountDigitsHint =
+    accountDigits.min === accountDigits.max
+      ? `Account number must be ${accountDigits.min} digits`
+      : `Account number must be ${accountDigits.min} to ${accountDigits.max} digits`;
+
+  const handlePayoutCurrencyChange = async (currency: SettlementCurrency) => {
+    setPayoutData((prev) => ({
+      ...prev,
+      currency,
+      bankCode: "",
+      bankName: "",
+      accountNumber: "",
+      accountName: "",
+    }));
+    try {
+      setBanks(await payoutService.getBanks(currency));
+    } catch (error: unknown) {
+      setBanks([]);
+      showError(getErrorMessage(error, "Failed to load banks"));
+    }
+  };
+
   const handleVerifyBankAccount = async () => {
     if (!payoutData.accountNumber || !payoutData.bankCode) {
       showError("Please select a bank and enter account number");
       return;
     }
 
-    if (payoutData.accountNumber.length !== 10) {
-      showError("Account number must be 10 digits");
+    if (
+      payoutData.accountNumber.length < accountDigits.min ||
+      payoutData.accountNumber.length > accountDigits.max
+    ) {
+      showError(accountDigitsHint);
       return;
     }
 
@@ -341,6 +380,7 @@ export default function SettingsPage() {
       const result = await payoutService.verifyBankAccount(
         payoutData.accountNumber,
         payoutData.bankCode,
+        payoutData.currency,
       );
 
       setPayoutData((prev) => ({
@@ -395,6 +435,7 @@ export default function SettingsPage() {
         bankName: payoutData.bankName,
         accountNumber: payoutData.accountNumber,
         accountName: payoutData.accountName,
+        currency: payoutData.currency,
       });
 
       if (!otpChallenge.otpRequired) {
@@ -1112,6 +1153,8 @@ export default function SettingsPage() {
                 )}
               </motion.button>
             </div>
+
+            <CustomDomainSettings />
           </div>
         );
 
@@ -1380,6 +1423,35 @@ export default function SettingsPage() {
             )}
 
             <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Payout Currency *
+                </label>
+                <select
+                  value={payoutData.currency}
+                  onChange={(e) =>
+                    void handlePayoutCurrencyChange(
+                      e.target.value as SettlementCurrency,
+                    )
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                  disabled={
+                    (hasPayoutAccount && !isEditingPayoutAccount) ||
+                    cacStatus?.cacStatus !== "APPROVED"
+                  }
+                >
+                  {SETTLEMENT_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>
+                      {currencyFormat(code).symbol} {currencyFormat(code).name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-500 mt-1">
+                  Withdrawals are paid only from your {payoutData.currency}{" "}
+                  wallet to this account
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Bank Name *
@@ -1421,7 +1493,7 @@ export default function SettingsPage() {
                     onChange={(e) => {
                       const value = e.target.value
                         .replace(/\D/g, "")
-                        .slice(0, 10);
+                        .slice(0, accountDigits.max);
                       setPayoutData({
                         ...payoutData,
                         accountNumber: value,
@@ -1429,7 +1501,7 @@ export default function SettingsPage() {
                       });
                     }}
                     placeholder="0123456789"
-                    maxLength={10}
+                    maxLength={accountDigits.max}
                     className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
                     disabled={
                       (hasPayoutAccount && !isEditingPayoutAccount) ||
@@ -1441,7 +1513,7 @@ export default function SettingsPage() {
                     onClick={handleVerifyBankAccount}
                     disabled={
                       !payoutData.bankCode ||
-                      payoutData.accountNumber.length !== 10 ||
+                      payoutData.accountNumber.length < accountDigits.min ||
                       isVerifyingAccount ||
                       (hasPayoutAccount && !isEditingPayoutAccount) ||
                       cacStatus?.cacStatus !== "APPROVED"
@@ -1457,7 +1529,7 @@ export default function SettingsPage() {
                   </motion.button>
                 </div>
                 <p className="text-sm text-gray-500 mt-1">
-                  Enter a 10-digit account number
+                  {accountDigitsHint}
                 </p>
               </div>
 
@@ -1660,6 +1732,14 @@ export default function SettingsPage() {
               </div>
             </div>
 
+            <TwoFactorSettingsPanel />
+
+            <ActiveSessionsPanel
+              onSignedOutEverywhere={() => {
+                window.location.href = buildMainDomainUrl("/realtor/login");
+              }}
+            />
+
             {/* Delete Account */}
             <div className="border-t border-gray-200 pt-6 mt-6">
               <div className="flex items-start justify-between">
@@ -0,0 +1,8 @@
+"use client";
+
+import React from "react";
+import RealtorStatements from "@/components/realtor/common/RealtorStatements";
+
+export default function StatementsPage() {
+  return <RealtorStatements />;
+}
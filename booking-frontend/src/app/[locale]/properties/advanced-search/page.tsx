@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { useProperties } from "@/hooks/useProperties";
 import {
   PropertyFilters as PropertyFiltersType,
@@ -9,7 +9,10 @@ import {
   PropertyAmenity,
 } from "@/types";
 import { AdvancedSearchFilters } from "@/components/property/AdvancedSearchFilters";
-import { PropertyMapView } from "@/components/property/PropertyMapView";
+import {
+  MapBounds,
+  PropertyMapView,
+} from "@/components/property/PropertyMapView";
 
 import { PropertyCard } from "@/components/property/PropertyCard";
 import { Button } from "@/components/ui";
@@ -86,8 +89,24 @@ export default function AdvancedPropertySearchPage() {
       ...prev,
       limit: viewMode === "map" ? 100 : 20,
     }));
+
+    // The viewport filter only applies while the map is visible
+    if (viewMode !== "map") {
+      setFilters((prev) =>
+        prev.bbox === undefined ? prev : { ...prev, bbox: undefined }
+      );
+    }
   }, [viewMode]);
 
+  const handleBoundsChange = useCallback((bounds: MapBounds) => {
+    const bbox = [bounds.south, bounds.west, bounds.north, bounds.east]
+      .map((value) => value.toFixed(5))
+      .join(",");
+
+    setFilters((prev) => (prev.bbox === bbox ? prev : { ...prev, bbox }));
+    setSearchParams((prev) => ({ ...prev, page: 1 }));
+  }, []);
+
   const handleFiltersChange = (newFilters: any) => {
     // Convert advanced filters to our PropertyFilters format
     const convertedFilters: PropertyFiltersType = {
@@ -104,7 +123,7 @@ export default function AdvancedPropertySearchPage() {
       isApproved: true,
     };
 
-    setFilters(convertedFilters);
+    setFilters((prev) => ({ ...convertedFilters, bbox: prev.bbox }));
     setSearchParams((prev) => ({
       ...prev,
       page: 1, // Reset to first page when filters change
@@ -242,6 +261,7 @@ export default function AdvancedPropertySearchPage() {
                 onPropertyHover={handlePropertyHover}
                 center={{ lat: 6.5244, lng: 3.3792 }} // Lagos default
                 zoom={12}
+                onBoundsChange={handleBoundsChange}
                 className="rounded-xl overflow-hidden shadow-lg"
               />
             </motion.div>
@@ -0,0 +1,176 @@
+"use client";
+
+import React, { Suspense, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { AlertTriangle, ArrowLeft, Shield } from "lucide-react";
+import { serviceUtils } from "@/services";
+import {
+  adminTeamService,
+  AdminInvitePreview,
+} from "@/services/adminTeamService";
+
+// Force dynamic rendering since this page uses search params
+export const dynamic = "force-dynamic";
+
+const inputClassName =
+  "block w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-200 focus:border-red-400";
+
+function AdminInviteContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const [invite, setInvite] = useState<AdminInvitePreview | null>(null);
+  const [loadError, setLoadError] = useState("");
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError("This invitation link is incomplete.");
+      return;
+    }
+    adminTeamService
+      .getInvite(token)
+      .then(setInvite)
+      .catch((error) => setLoadError(serviceUtils.extractErrorMessage(error)));
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await adminTeamService.acceptInvite({
+        token,
+        firstName: firstName.trim(),
+        lastName: lastName.trim(),
+        password,
+      });
+      toast.success("Your admin account is ready. Please sign in.");
+      router.push("/admin/login");
+    } catch (error) {
+      toast.error(serviceUtils.extractErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <Link href="/" className="flex items-center space-x-2">
+              <ArrowLeft className="h-5 w-5 text-gray-600" />
+              <span className="text-gray-600 hover:text-gray-900">
+                Back to Home
+              </span>
+            </Link>
+            <div className="text-2xl font-bold bg-gradient-to-r from-red-600 to-gray-800 bg-clip-text text-transparent">
+              Stayza
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center px-4 sm:px-6 lg:px-8 py-12">
+        <div className="max-w-md w-full space-y-8">
+          <div className="text-center">
+            <div className="mx-auto h-16 w-16 bg-red-100 rounded-full flex items-center justify-center">
+              <Shield className="h-8 w-8 text-red-600" />
+            </div>
+            <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+              Join the admin team
+            </h2>
+            {invite && (
+              <p className="mt-2 text-sm text-gray-600">
+                You&apos;ve been invited as{" "}
+                <span className="font-semibold">{invite.roleLabel}</span> for{" "}
+                {invite.email}
+              </p>
+            )}
+          </div>
+
+          {loadError ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-6 flex items-start">
+              <AlertTriangle className="h-6 w-6 text-red-600 mr-3 mt-1" />
+              <div>
+                <p className="text-sm text-red-700">{loadError}</p>
+                <p className="text-sm text-red-700 mt-2">
+                  Ask the admin who invited you to send a new invitation.
+                </p>
+              </div>
+            </div>
+          ) : !invite ? (
+            <p className="text-center text-sm text-gray-500">
+              Checking your invitation...
+            </p>
+          ) : (
+            <form className="space-y-4" onSubmit={handleSubmit}>
+              <div className="grid grid-cols-2 gap-4">
+                <input
+                  value={firstName}
+                  onChange={(e) => setFirstName(e.target.value)}
+                  placeholder="First name"
+                  required
+                  minLength={2}
+                  className={inputClassName}
+                />
+                <input
+                  value={lastName}
+                  onChange={(e) => setLastName(e.target.value)}
+                  placeholder="Last name"
+                  required
+                  minLength={2}
+                  className={inputClassName}
+                />
+              </div>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password (at least 8 characters)"
+                required
+                minLength={8}
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Confirm password"
+                required
+                className={inputClassName}
+              />
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-3 px-4 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-60"
+              >
+                {isSubmitting ? "Creating account..." : "Create admin account"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function AdminInvitePage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <AdminInviteContent />
+    </Suspense>
+  );
+}
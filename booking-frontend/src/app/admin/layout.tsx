@@ -12,7 +12,7 @@ export default function AdminLayout({
   const pathname = usePathname();
 
   // Pages that don't require authentication
-  const publicPages = ["/admin/login", "/admin/register"];
+  const publicPages = ["/admin/login", "/admin/register", "/admin/invite"];
   const isPublicPage = publicPages.includes(pathname);
 
   // If it's a public page (login/register), render without protection
@@ -18,8 +18,10 @@ import {
 import { motion } from "framer-motion";
 import { palette } from "@/app/(marketing)/content";
 import { LogoLockup } from "@/app/(marketing)/components/LogoLockup";
-import { authService } from "@/services/auth";
+import { authService, isTwoFactorChallenge } from "@/services/auth";
 import { serviceUtils } from "@/services";
+import { TwoFactorChallengeForm } from "@/components/auth";
+import type { TwoFactorChallenge } from "@/types";
 import { TestCredentials } from "@/components/dev/TestCredentials";
 
 // Force dynamic rendering since this page uses search params
@@ -35,6 +37,13 @@ function AdminLoginContent() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+
+  const rejectNonAdmin = () => {
+    toast.error(
+      "This login is for administrators only. Please use the correct login page for your account type.",
+    );
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -50,14 +59,22 @@ function AdminLoginContent() {
         password: trimmedPassword,
       });
 
+      // Admin accounts always finish signing in with an authenticator code
+      if (isTwoFactorChallenge(result)) {
+        if (result.user.role !== "ADMIN") {
+          rejectNonAdmin();
+          return;
+        }
+        setChallenge(result);
+        return;
+      }
+
       if (result.user) {
         // Check if user is an admin
         if (result.user.role !== "ADMIN") {
           localStorage.removeItem("accessToken");
           localStorage.removeItem("refreshToken");
-          toast.error(
-            "This login is for administrators only. Please use the correct login page for your account type.",
-          );
+          rejectNonAdmin();
           return;
         }
 
@@ -177,156 +194,170 @@ function AdminLoginContent() {
               </motion.div>
             )}
 
-            <form className="space-y-6" onSubmit={handleLogin}>
-              <div className="space-y-5">
-                {/* Email */}
+            {challenge ? (
+              <TwoFactorChallengeForm
+                challenge={challenge}
+                onComplete={(response) => {
+                  toast.success(`Welcome back, ${response.user.firstName}!`);
+                  router.push(returnTo);
+                }}
+                onCancel={() => {
+                  setChallenge(null);
+                  setPassword("");
+                }}
+              />
+            ) : (
+              <form className="space-y-6" onSubmit={handleLogin}>
+                <div className="space-y-5">
+                  {/* Email */}
+                  <motion.div
+                    initial={{ opacity: 0, y: 16 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.6, delay: 0.6 }}
+                  >
+                    <label
+                      htmlFor="email"
+                      className="block text-sm font-medium text-white/90 mb-2"
+                    >
+                      Email Address
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                        <Mail className="h-5 w-5 text-white/50" />
+                      </div>
+                      <input
+                        id="email"
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        required
+                        className="block w-full pl-12 pr-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 focus:border-white/40 backdrop-blur transition-all duration-200"
+                        placeholder="admin@stayza.com"
+                        disabled={isLoading}
+                      />
+                    </div>
+                  </motion.div>
+
+                  {/* Password */}
+                  <motion.div
+                    initial={{ opacity: 0, y: 16 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.6, delay: 0.7 }}
+                  >
+                    <label
+                      htmlFor="password"
+                      className="block text-sm font-medium text-white/90 mb-2"
+                    >
+                      Password
+                    </label>
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                        <Lock className="h-5 w-5 text-white/50" />
+                      </div>
+                      <input
+                        id="password"
+                        type={showPassword ? "text" : "password"}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                        className="block w-full pl-12 pr-12 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 focus:border-white/40 backdrop-blur transition-all duration-200"
+                        placeholder="Enter your password"
+                        disabled={isLoading}
+                      />
+                      <button
+                        type="button"
+                        className="absolute inset-y-0 right-0 pr-4 flex items-center"
+                        onClick={() => setShowPassword(!showPassword)}
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-5 w-5 text-white/50 hover:text-white/80 transition-colors" />
+                        ) : (
+                          <Eye className="h-5 w-5 text-white/50 hover:text-white/80 transition-colors" />
+                        )}
+                      </button>
+                    </div>
+                  </motion.div>
+                </div>
+
+                {/* Forgot Password */}
                 <motion.div
-                  initial={{ opacity: 0, y: 16 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ duration: 0.6, delay: 0.6 }}
+                  className="flex items-center justify-end"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ duration: 0.6, delay: 0.8 }}
                 >
-                  <label
-                    htmlFor="email"
-                    className="block text-sm font-medium text-white/90 mb-2"
+                  <Link
+                    href="/forgot-password"
+                    className="text-sm text-white/80 hover:text-white transition-colors font-medium"
                   >
-                    Email Address
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                      <Mail className="h-5 w-5 text-white/50" />
-                    </div>
-                    <input
-                      id="email"
-                      type="email"
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      required
-                      className="block w-full pl-12 pr-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 focus:border-white/40 backdrop-blur transition-all duration-200"
-                      placeholder="admin@stayza.com"
-                      disabled={isLoading}
-                    />
-                  </div>
+                    Forgot your password?
+                  </Link>
                 </motion.div>
 
-                {/* Password */}
+                {/* Submit Button */}
                 <motion.div
                   initial={{ opacity: 0, y: 16 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ duration: 0.6, delay: 0.7 }}
+                  transition={{ duration: 0.6, delay: 0.9 }}
                 >
-                  <label
-                    htmlFor="password"
-                    className="block text-sm font-medium text-white/90 mb-2"
+                  <button
+                    type="submit"
+                    disabled={isLoading}
+                    className="group relative w-full flex justify-center items-center py-4 px-6 border border-transparent text-sm font-semibold rounded-xl text-white transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white/30 focus:ring-offset-2 focus:ring-offset-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+                    style={{
+                      backgroundColor: palette.accent,
+                      boxShadow: "0 10px 25px rgba(249, 115, 22, 0.3)",
+                    }}
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.transform = "translateY(-2px)";
+                      e.currentTarget.style.boxShadow =
+                        "0 15px 35px rgba(249, 115, 22, 0.4)";
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.transform = "translateY(0px)";
+                      e.currentTarget.style.boxShadow =
+                        "0 10px 25px rgba(249, 115, 22, 0.3)";
+                    }}
                   >
-                    Password
-                  </label>
-                  <div className="relative">
-                    <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
-                      <Lock className="h-5 w-5 text-white/50" />
-                    </div>
-                    <input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      required
-                      className="block w-full pl-12 pr-12 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 focus:border-white/40 backdrop-blur transition-all duration-200"
-                      placeholder="Enter your password"
-                      disabled={isLoading}
-                    />
-                    <button
-                      type="button"
-                      className="absolute inset-y-0 right-0 pr-4 flex items-center"
-                      onClick={() => setShowPassword(!showPassword)}
-                    >
-                      {showPassword ? (
-                        <EyeOff className="h-5 w-5 text-white/50 hover:text-white/80 transition-colors" />
-                      ) : (
-                        <Eye className="h-5 w-5 text-white/50 hover:text-white/80 transition-colors" />
-                      )}
-                    </button>
-                  </div>
+                    {isLoading ? (
+                      <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    ) : (
+                      <>
+                        <LogIn className="h-5 w-5 mr-2" />
+                        Sign In
+                      </>
+                    )}
+                  </button>
                 </motion.div>
-              </div>
 
-              {/* Forgot Password */}
-              <motion.div
-                className="flex items-center justify-end"
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ duration: 0.6, delay: 0.8 }}
-              >
-                <Link
-                  href="/forgot-password"
-                  className="text-sm text-white/80 hover:text-white transition-colors font-medium"
-                >
-                  Forgot your password?
-                </Link>
-              </motion.div>
-
-              {/* Submit Button */}
-              <motion.div
-                initial={{ opacity: 0, y: 16 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.6, delay: 0.9 }}
-              >
-                <button
-                  type="submit"
-                  disabled={isLoading}
-                  className="group relative w-full flex justify-center items-center py-4 px-6 border border-transparent text-sm font-semibold rounded-xl text-white transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-white/30 focus:ring-offset-2 focus:ring-offset-transparent disabled:opacity-50 disabled:cursor-not-allowed"
-                  style={{
-                    backgroundColor: palette.accent,
-                    boxShadow: "0 10px 25px rgba(249, 115, 22, 0.3)",
-                  }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.transform = "translateY(-2px)";
-                    e.currentTarget.style.boxShadow =
-                      "0 15px 35px rgba(249, 115, 22, 0.4)";
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.transform = "translateY(0px)";
-                    e.currentTarget.style.boxShadow =
-                      "0 10px 25px rgba(249, 115, 22, 0.3)";
-                  }}
+                {/* Role Switch */}
+                <motion.div
+                  className="text-center pt-6 border-t border-white/20"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ duration: 0.6, delay: 1.0 }}
                 >
-                  {isLoading ? (
-                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                  ) : (
-                    <>
-                      <LogIn className="h-5 w-5 mr-2" />
-                      Sign In
-                    </>
-                  )}
-                </button>
-              </motion.div>
-
-              {/* Role Switch */}
-              <motion.div
-                className="text-center pt-6 border-t border-white/20"
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ duration: 0.6, delay: 1.0 }}
-              >
-                <p className="text-sm text-white/70 mb-3">
-                  Looking for a different login?
-                </p>
-                <div className="flex items-center justify-center space-x-4">
-                  <Link
-                    href="/guest/login"
-                    className="text-sm font-medium text-white/80 hover:text-white transition-colors px-3 py-1.5 rounded-lg hover:bg-white/10"
-                  >
-                    Guest Login
-                  </Link>
-                  <span className="text-white/30">|</span>
-                  <Link
-                    href="/realtor/login"
-                    className="text-sm font-medium text-white/80 hover:text-white transition-colors px-3 py-1.5 rounded-lg hover:bg-white/10"
-                  >
-                    Realtor Login
-                  </Link>
-                </div>
-              </motion.div>
-            </form>
+                  <p className="text-sm text-white/70 mb-3">
+                    Looking for a different login?
+                  </p>
+                  <div className="flex items-center justify-center space-x-4">
+                    <Link
+                      href="/guest/login"
+                      className="text-sm font-medium text-white/80 hover:text-white transition-colors px-3 py-1.5 rounded-lg hover:bg-white/10"
+                    >
+                      Guest Login
+                    </Link>
+                    <span className="text-white/30">|</span>
+                    <Link
+                      href="/realtor/login"
+                      className="text-sm font-medium text-white/80 hover:text-white transition-colors px-3 py-1.5 rounded-lg hover:bg-white/10"
+                    >
+                      Realtor Login
+                    </Link>
+                  </div>
+                </motion.div>
+              </form>
+            )}
           </div>
         </motion.div>
       </div>
@@ -19,6 +19,7 @@ import CommissionSettings from "@/components/admin/settings/CommissionSettings";
 import PayoutSettings from "@/components/admin/settings/PayoutSettings";
 import BookingSettings from "@/components/admin/settings/BookingSettings";
 import PropertySettings from "@/components/admin/settings/PropertySettings";
+import { TwoFactorSettingsPanel } from "@/components/auth";
 
 interface SettingsPageProps {}
 
@@ -354,6 +355,10 @@ const SettingsPage: React.FC<SettingsPageProps> = () => {
               <div className="p-6">{renderCategoryContent()}</div>
             </div>
 
+            <div className="mt-6">
+              <TwoFactorSettingsPanel />
+            </div>
+
             {/* Footer Info */}
             <div className="mt-6 text-center text-sm text-gray-500">
               <p>
@@ -8,6 +8,7 @@ import {
   Activity,
   AlertTriangle,
   Mail,
+  MessageSquare,
   RefreshCw,
   Server,
   Shield,
@@ -16,6 +17,7 @@ import {
   useActiveJobLocks,
   useEmailWorkerHealth,
   useForceReleaseJobLock,
+  useScheduledMessageHealth,
   useSystemHealthStats,
   useWebhookDeliveryStatus,
 } from "@/hooks/useEscrow";
@@ -42,6 +44,11 @@ export default function SystemHealthPage() {
     isLoading: isLoadingEmailHealth,
     error: emailWorkerError,
   } = useEmailWorkerHealth(true);
+  const {
+    data: scheduledMessageHealth,
+    isLoading: isLoadingScheduledMessages,
+    error: scheduledMessageError,
+  } = useScheduledMessageHealth(true);
   const {
     data: webhookTimelinePayload,
     isLoading: isWebhookTimelineLoading,
@@ -76,6 +83,12 @@ export default function SystemHealthPage() {
     (emailWorkerHealth?.queue.stuckProcessing ?? 0) > 0,
   );
 
+  const hasScheduledMessageIssue = Boolean(
+    scheduledMessageError ||
+    (scheduledMessageHealth?.queue.failed ?? 0) > 0 ||
+    (scheduledMessageHealth?.queue.overdue ?? 0) > 0,
+  );
+
   const systemStatusLabel = hasSystemDataIssue ? "Degraded" : "Operational";
   const systemStatusTextClass = hasSystemDataIssue
     ? "text-yellow-600"
@@ -439,6 +452,174 @@ export default function SystemHealthPage() {
             )}
           </Card>
 
+          <Card className="p-6 mt-8">
+            <div className="flex items-start justify-between gap-4 mb-6">
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <MessageSquare className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-lg font-semibold text-gray-900">
+                    Booking System Messages
+                  </h2>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Queued check-in instructions, checkout reminders and other
+                  automated booking messages.
+                </p>
+              </div>
+              <div
+                className={`px-3 py-1 rounded-full text-xs font-medium ${
+                  hasScheduledMessageIssue
+                    ? "bg-red-100 text-red-700"
+                    : "bg-green-100 text-green-700"
+                }`}
+              >
+                {hasScheduledMessageIssue ? "Needs Attention" : "Healthy"}
+              </div>
+            </div>
+
+            {isLoadingScheduledMessages ? (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <RefreshCw className="w-4 h-4 animate-spin" />
+                Loading message queue metrics...
+              </div>
+            ) : scheduledMessageError ? (
+              <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+                {scheduledMessageError.message ||
+                  "Failed to load message queue health data."}
+              </div>
+            ) : scheduledMessageHealth ? (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+                  <div className="rounded-lg border border-gray-200 p-3">
+                    <p className="text-xs text-gray-500">Pending</p>
+                    <p className="text-xl font-semibold text-gray-900">
+                      {scheduledMessageHealth.queue.pending}
+                    </p>
+                  </div>
+                  <div className="rounded-lg border border-gray-200 p-3">
+                    <p className="text-xs text-gray-500">Overdue</p>
+                    <p className="text-xl font-semibold text-orange-600">
+                      {scheduledMessageHealth.queue.overdue}
+                    </p>
+                  </div>
+                  <div className="rounded-lg border border-gray-200 p-3">
+                    <p className="text-xs text-gray-500">Failed</p>
+                    <p className="text-xl font-semibold text-red-600">
+                      {scheduledMessageHealth.queue.failed}
+                    </p>
+                  </div>
+                  <div className="rounded-lg border border-gray-200 p-3">
+                    <p className="text-xs text-gray-500">Cancelled</p>
+                    <p className="text-xl font-semibold text-gray-500">
+                      {scheduledMessageHealth.queue.cancelled}
+                    </p>
+                  </div>
+                  <div className="rounded-lg border border-gray-200 p-3">
+                    <p className="text-xs text-gray-500">Sent</p>
+                    <p className="text-xl font-semibold text-green-600">
+                      {scheduledMessageHealth.queue.sent}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <div className="rounded-lg border border-gray-200 p-4">
+                    <p className="text-sm font-medium text-gray-900 mb-2">
+                      Next Due
+                    </p>
+                    {scheduledMessageHealth.nextPendingMessages.length > 0 ? (
+                      <div className="space-y-2">
+                        {scheduledMessageHealth.nextPendingMessages.map(
+                          (message) => (
+                            <div
+                              key={message.id}
+                              className="flex items-center justify-between text-sm text-gray-700"
+                            >
+                              <span className="truncate pr-3">
+                                {message.type} · {message.bookingId}
+                              </span>
+                              <span className="text-gray-500 whitespace-nowrap">
+                                {formatRelative(message.dueAt)}
+                              </span>
+                            </div>
+                          ),
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        No messages waiting to be sent.
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="rounded-lg border border-gray-200 p-4">
+                    <p className="text-sm font-medium text-gray-900 mb-2">
+                      Latest Sent
+                    </p>
+                    {scheduledMessageHealth.latestSentMessage ? (
+                      <div className="space-y-1 text-sm text-gray-700">
+                        <p>
+                          Type:{" "}
+                          <span className="font-medium">
+                            {scheduledMessageHealth.latestSentMessage.type}
+                          </span>
+                        </p>
+                        <p className="truncate">
+                          Booking:{" "}
+                          {scheduledMessageHealth.latestSentMessage.bookingId}
+                        </p>
+                        <p>
+                          Sent:{" "}
+                          <span className="font-medium">
+                            {scheduledMessageHealth.latestSentMessage.sentAt
+                              ? formatRelative(
+                                  scheduledMessageHealth.latestSentMessage
+                                    .sentAt,
+                                )
+                              : "N/A"}
+                          </span>
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-500">
+                        No system messages sent yet.
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {scheduledMessageHealth.recentFailedMessages.length > 0 && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                      <AlertTriangle className="w-4 h-4 text-red-600" />
+                      <p className="text-sm font-medium text-red-900">
+                        Recent Failed Messages
+                      </p>
+                    </div>
+                    <div className="space-y-2 text-sm text-red-800">
+                      {scheduledMessageHealth.recentFailedMessages
+                        .slice(0, 3)
+                        .map((message) => (
+                          <div key={message.id}>
+                            <p className="font-medium truncate">
+                              {message.type} · {message.bookingId}
+                            </p>
+                            <p className="text-xs text-red-700">
+                              {message.lastError || "Unknown delivery error"}
+                            </p>
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-sm text-gray-500">
+                Message queue health data is currently unavailable.
+              </div>
+            )}
+          </Card>
+
           {/* Footer Info */}
           <div className="mt-8 p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <div className="flex items-start gap-3">
@@ -5,6 +5,8 @@ import { useAuthStore } from "../../../store/authStore";
 import { AdminNavigation } from "../../../components/admin/AdminNavigation";
 import { useRouter } from "next/navigation";
 import adminWithdrawalService, {
+  PayoutAccountChange,
+  PayoutHoldReason,
   WithdrawalRequest,
   WithdrawalStats,
 } from "../../../services/adminWithdrawalService";
@@ -12,17 +14,26 @@ import { formatCurrency } from "../../../utils/formatters";
 import { toast } from "react-hot-toast";
 import { serviceUtils } from "@/services";
 
+const HOLD_REASON_LABELS: Record<PayoutHoldReason, string> = {
+  PAYOUT_ACCOUNT_CHANGED: "Payout account changed",
+  PAYOUTS_FROZEN: "Reported by realtor",
+};
+
 export default function WithdrawalsPage() {
   const { user, isAuthenticated, isLoading } = useAuthStore();
   const router = useRouter();
 
   const [stats, setStats] = useState<WithdrawalStats | null>(null);
   const [withdrawals, setWithdrawals] = useState<WithdrawalRequest[]>([]);
+  const [accountChanges, setAccountChanges] = useState<PayoutAccountChange[]>(
+    [],
+  );
+  const [frozenOnly, setFrozenOnly] = useState(false);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState<string | null>(null);
   const [retrying, setRetrying] = useState(false);
   const [selectedStatus, setSelectedStatus] =
-    useState<string>("PENDING,FAILED");
+    useState<string>("PENDING,ON_HOLD,FAILED");
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
 
@@ -38,6 +49,23 @@ export default function WithdrawalsPage() {
     }
   }, [isAuthenticated, user, selectedStatus, page]);
 
+  useEffect(() => {
+    if (isAuthenticated && user?.role === "ADMIN") {
+      loadAccountChanges();
+    }
+  }, [isAuthenticated, user, frozenOnly]);
+
+  const loadAccountChanges = async () => {
+    try {
+      const result = await adminWithdrawalService.getPayoutAccountChanges({
+        frozenOnly,
+      });
+      setAccountChanges(result.data);
+    } catch (error: any) {
+      toast.error(serviceUtils.extractErrorMessage(error));
+    }
+  };
+
   const loadData = async () => {
     try {
       setLoading(true);
@@ -74,6 +102,53 @@ export default function WithdrawalsPage() {
     }
   };
 
+  const handleRelease = async (id: string) => {
+    if (
+      !confirm(
+        "Release this withdrawal? It will be sent to the realtor's new payout account straight away.",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setProcessing(id);
+      const result = await adminWithdrawalService.releaseWithdrawal(id);
+      if (result.processed) {
+        toast.success("Hold released and withdrawal sent");
+      } else {
+        toast.error("Hold released, but the transfer failed. Retry it below.");
+      }
+      loadData();
+    } catch (error: any) {
+      toast.error(serviceUtils.extractErrorMessage(error));
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const handleUnfreeze = async (realtorId: string) => {
+    if (
+      !confirm(
+        "Lift this realtor's payout freeze? Held withdrawals still need releasing one by one.",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setProcessing(realtorId);
+      await adminWithdrawalService.unfreezeRealtorPayouts(realtorId);
+      toast.success("Payout freeze lifted");
+      loadData();
+      loadAccountChanges();
+    } catch (error: any) {
+      toast.error(serviceUtils.extractErrorMessage(error));
+    } finally {
+      setProcessing(null);
+    }
+  };
+
   const handleRetryAll = async () => {
     if (!confirm("This will retry all failed withdrawals. Continue?")) {
       return;
@@ -112,6 +187,7 @@ export default function WithdrawalsPage() {
   const getStatusBadge = (status: string) => {
     const styles = {
       PENDING: "bg-yellow-100 text-yellow-800",
+      ON_HOLD: "bg-orange-100 text-orange-800",
       COMPLETED: "bg-green-100 text-green-800",
       FAILED: "bg-red-100 text-red-800",
     };
@@ -153,7 +229,7 @@ export default function WithdrawalsPage() {
 
           {/* Statistics Cards */}
           {stats && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6 mb-8">
               <div className="bg-white rounded-lg shadow-sm p-6">
                 <div className="flex items-center justify-between">
                   <div>
@@ -180,6 +256,32 @@ export default function WithdrawalsPage() {
                 </div>
               </div>
 
+              <div className="bg-white rounded-lg shadow-sm p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">On Hold</p>
+                    <p className="text-2xl font-bold text-gray-900 mt-1">
+                      {stats.onHoldCount}
+                    </p>
+                  </div>
+                  <div className="bg-orange-100 p-3 rounded-lg">
+                    <svg
+                      className="w-6 h-6 text-orange-600"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                      />
+                    </svg>
+                  </div>
+                </div>
+              </div>
+
               <div className="bg-white rounded-lg shadow-sm p-6">
                 <div className="flex items-center justify-between">
                   <div>
@@ -304,8 +406,11 @@ export default function WithdrawalsPage() {
                   }}
                   className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 >
-                  <option value="PENDING,FAILED">Pending & Failed</option>
+                  <option value="PENDING,ON_HOLD,FAILED">
+                    Needs Attention
+                  </option>
                   <option value="PENDING">Pending Only</option>
+                  <option value="ON_HOLD">On Hold</option>
                   <option value="FAILED">Failed Only</option>
                   <option value="COMPLETED">Completed</option>
                 </select>
@@ -373,7 +478,7 @@ export default function WithdrawalsPage() {
                         Retries
                       </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Failure Reason
+                        Failure / Hold Reason
                       </th>
                       <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Actions
@@ -422,7 +527,25 @@ export default function WithdrawalsPage() {
                           </span>
                         </td>
                         <td className="px-6 py-4">
-                          {withdrawal.failureReason ? (
+                          {withdrawal.status === "ON_HOLD" ? (
+                            <div className="text-sm text-orange-700 max-w-xs">
+                              {withdrawal.realtor.payoutsFrozenAt
+                                ? HOLD_REASON_LABELS.PAYOUTS_FROZEN
+                                : HOLD_REASON_LABELS[
+                                    withdrawal.holdReason ||
+                                      "PAYOUT_ACCOUNT_CHANGED"
+                                  ]}
+                              {!withdrawal.realtor.payoutsFrozenAt &&
+                                withdrawal.realtor.payoutHoldUntil && (
+                                  <div className="text-xs text-gray-500">
+                                    Until{" "}
+                                    {new Date(
+                                      withdrawal.realtor.payoutHoldUntil,
+                                    ).toLocaleString()}
+                                  </div>
+                                )}
+                            </div>
+                          ) : withdrawal.failureReason ? (
                             <div className="text-sm text-red-600 max-w-xs truncate">
                               {withdrawal.failureReason}
                             </div>
@@ -433,19 +556,43 @@ export default function WithdrawalsPage() {
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           {withdrawal.status !== "COMPLETED" && (
                             <div className="flex justify-end gap-2">
-                              <button
-                                onClick={() => handleProcess(withdrawal.id)}
-                                disabled={processing === withdrawal.id}
-                                className="text-blue-600 hover:text-blue-900 disabled:text-gray-400 disabled:cursor-not-allowed"
-                              >
-                                {processing === withdrawal.id ? (
-                                  <span className="inline-block animate-spin">
-                                    ⟳
-                                  </span>
+                              {withdrawal.status === "ON_HOLD" ? (
+                                withdrawal.realtor.payoutsFrozenAt ? (
+                                  <button
+                                    onClick={() =>
+                                      handleUnfreeze(withdrawal.realtorId)
+                                    }
+                                    disabled={
+                                      processing === withdrawal.realtorId
+                                    }
+                                    className="text-orange-600 hover:text-orange-900 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                  >
+                                    Unfreeze
+                                  </button>
                                 ) : (
-                                  "Process"
-                                )}
-                              </button>
+                                  <button
+                                    onClick={() => handleRelease(withdrawal.id)}
+                                    disabled={processing === withdrawal.id}
+                                    className="text-blue-600 hover:text-blue-900 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                  >
+                                    Release
+                                  </button>
+                                )
+                              ) : (
+                                <button
+                                  onClick={() => handleProcess(withdrawal.id)}
+                                  disabled={processing === withdrawal.id}
+                                  className="text-blue-600 hover:text-blue-900 disabled:text-gray-400 disabled:cursor-not-allowed"
+                                >
+                                  {processing === withdrawal.id ? (
+                                    <span className="inline-block animate-spin">
+                                      ⟳
+                                    </span>
+                                  ) : (
+                                    "Process"
+                                  )}
+                                </button>
+                              )}
                               <button
                                 onClick={() => handleCancel(withdrawal.id)}
                                 disabled={processing === withdrawal.id}
@@ -488,6 +635,127 @@ export default function WithdrawalsPage() {
               </div>
             )}
           </div>
+
+          {/* Payout Account Changes */}
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden mt-8">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 p-4 border-b border-gray-200">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">
+                  Payout Account Changes
+                </h2>
+                <p className="text-sm text-gray-600">
+                  Recent bank detail changes. Withdrawals are held during the
+                  cooling-off period.
+                </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={frozenOnly}
+                  onChange={(e) => setFrozenOnly(e.target.checked)}
+                />
+                Reported by realtor only
+              </label>
+            </div>
+            {accountChanges.length === 0 ? (
+              <p className="p-6 text-sm text-gray-600">
+                No payout account changes found
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Realtor
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        From
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        To
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Changed
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {accountChanges.map((change) => (
+                      <tr key={change.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">
+                            {change.realtor.businessName}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {change.realtor.user.email}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {change.previousAccountNumber ? (
+                            <>
+                              {change.previousBankName}{" "}
+                              {change.previousAccountNumber}
+                              <div className="text-xs text-gray-500">
+                                {change.previousAccountName}
+                              </div>
+                            </>
+                          ) : (
+                            <span className="text-gray-400">First account</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-700">
+                          {change.newBankName} {change.newAccountNumber}
+                          <div className="text-xs text-gray-500">
+                            {change.newAccountName} ({change.newCurrency})
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(change.createdAt).toLocaleString()}
+                          {change.ipAddress && (
+                            <div className="text-xs">{change.ipAddress}</div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {change.frozenAt ? (
+                            <span className="text-red-600">
+                              Reported{" "}
+                              {new Date(change.frozenAt).toLocaleDateString()}
+                            </span>
+                          ) : change.holdUntil &&
+                            new Date(change.holdUntil) > new Date() ? (
+                            <span className="text-orange-700">
+                              Held until{" "}
+                              {new Date(change.holdUntil).toLocaleString()}
+                            </span>
+                          ) : (
+                            <span className="text-gray-500">Settled</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          {change.realtor.payoutsFrozenAt && (
+                            <button
+                              onClick={() => handleUnfreeze(change.realtorId)}
+                              disabled={processing === change.realtorId}
+                              className="text-orange-600 hover:text-orange-900 disabled:text-gray-400 disabled:cursor-not-allowed"
+                            >
+                              Unfreeze payouts
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
         </div>
       </main>
     </div>
@@ -12,13 +12,20 @@ import { useParams, useRouter, useSearchParams } from "next/navigation";
 import { ArrowLeft, Clock, Info, Lock } from "lucide-react";
 import { differenceInDays, format } from "date-fns";
 import { toast } from "react-hot-toast";
+import { useQuery } from "react-query";
 import { AnimatedDateInput, Button, Input, Select } from "@/components/ui";
 import { GuestHeader } from "@/components/guest/sections/GuestHeader";
 import { useProperty, usePropertyAvailability } from "@/hooks/useProperties";
 import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { useRealtorBranding } from "@/hooks/useRealtorBranding";
 import { bookingService, paymentService } from "@/services";
+import { currencyService } from "@/services/currencies";
 import { formatPrice as formatNaira } from "@/utils/currency";
+import {
+  CANCELLATION_POLICY_PRESETS,
+  describeCancellationPolicy,
+} from "@/utils/bookingEnums";
+import type { BookingDisplayAmounts, NightlyPriceLine } from "@/types";
 
 interface GuestInfo {
   firstName: string;
@@ -98,6 +105,10 @@ export default function BookingCheckoutContent() {
   const [guests, setGuests] = useState<number>(
     parseIntegerFromQuery(searchParams.get("guests"), 1, 1),
   );
+  // Empty means prices are shown in the listing's own currency
+  const [displayCurrency, setDisplayCurrency] = useState(
+    searchParams.get("displayCurrency") || "",
+  );
 
   const [guestInfo, setGuestInfo] = useState<GuestInfo>({
     firstName: searchParams.get("firstName") || "",
@@ -115,6 +126,8 @@ export default function BookingCheckoutContent() {
     taxes: number;
     total: number;
     currency: string;
+    nightlyBreakdown?: NightlyPriceLine[];
+    display?: BookingDisplayAmounts | null;
   } | null>(null);
 
   const minCheckInDate = useMemo(() => getTomorrowDateKey(), []);
@@ -188,10 +201,7 @@ export default function BookingCheckoutContent() {
     return differenceInDays(end, start);
   }, [checkIn, checkOut]);
 
-  const minNights = Math.max(
-    1,
-    Number((property as unknown as { minNights?: number })?.minNights || 1),
-  );
+  const minNights = Math.max(1, Number(property?.pricingRules?.minNights || 1));
   const maxGuests = Math.max(1, Number(property?.maxGuests || 1));
 
   const fallbackCurrency = property?.currency || "NGN";
@@ -220,7 +230,31 @@ export default function BookingCheckoutContent() {
     );
   const total = bookingCalculation?.total ?? fallbackTotal + securityDeposit;
 
-  const formatPrice = (amount: number) => formatNaira(amount);
+  const formatPrice = (amount: number) => formatNaira(amount, currency);
+
+  // Only currencies with a configured rate can be shown
+  const { data: currencyList } = useQuery(
+    ["currencies", fallbackCurrency],
+    () => currencyService.getCurrencies(fallbackCurrency),
+    { enabled: Boolean(property), staleTime: 5 * 60 * 1000 },
+  );
+  const displayCurrencyOptions = (currencyList?.currencies || []).filter(
+    (option) => option.rate !== null,
+  );
+  const display =
+    bookingCalculation?.display &&
+    bookingCalculation.display.currency !== currency
+      ? bookingCalculation.display
+      : null;
+
+  // Only worth listing when nights are not all charged the same
+  const nightlyBreakdown = bookingCalculation?.nightlyBreakdown || [];
+  // Snapshotted onto the booking when it is created
+  const cancellationPolicy =
+    property?.cancellationPolicy || CANCELLATION_POLICY_PRESETS.FLEXIBLE;
+  const showNightlyBreakdown =
+    nightlyBreakdown.length > 0 &&
+    nightlyBreakdown.some((line) => line.price !== nightlyBreakdown[0].price);
 
   const validateDates = useCallback((): string | null => {
     if (!checkIn || !checkOut) {
@@ -304,6 +338,7 @@ export default function BookingCheckoutContent() {
           new Date(checkIn),
           new Date(checkOut),
           guests,
+          displayCurrency || undefined,
         );
         setBookingCalculation(calculation);
       } catch (error: unknown) {
@@ -326,6 +361,7 @@ export default function BookingCheckoutContent() {
     checkIn,
     checkOut,
     guests,
+    displayCurrency,
     nights,
     minNights,
     minCheckInDate,
@@ -400,6 +436,7 @@ export default function BookingCheckoutContent() {
           checkOut: new Date(checkOut),
           guests,
           specialRequests: guestInfo.specialRequests,
+          displayCurrency: displayCurrency || undefined,
         });
 
         bookingId = booking.id;
@@ -878,6 +915,24 @@ export default function BookingCheckoutContent() {
                   <span>Subtotal</span>
                   <span>{formatPrice(subtotal)}</span>
                 </div>
+                {showNightlyBreakdown && (
+                  <ul className="space-y-1 border-l-2 border-gray-100 pl-3 text-xs text-gray-500">
+                    {nightlyBreakdown.map((line, index) => (
+                      <li
+                        key={line.date || index}
+                        className="flex justify-between"
+                      >
+                        <span>
+                          {line.date
+                            ? format(new Date(`${line.date}T00:00:00`), "EEE, MMM d")
+                            : `Night ${index + 1}`}
+                          {line.seasonName ? ` · ${line.seasonName}` : ""}
+                        </span>
+                        <span>{formatPrice(line.price)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 <div className="flex justify-between text-gray-700">
                   <span>Cleaning fee</span>
                   <span>{formatPrice(cleaningFee)}</span>
@@ -900,8 +955,57 @@ export default function BookingCheckoutContent() {
                   <span>Total</span>
                   <span>{formatPrice(total)}</span>
                 </div>
-                <div className="text-xs text-gray-500">
-                  Currency: {currency}
+                {display && (
+                  <div className="flex justify-between text-gray-700">
+                    <span>Approx. in {display.currency}</span>
+                    <span>{formatNaira(display.total, display.currency)}</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-3 text-xs text-gray-500">
+                  <span>
+                    {display
+                      ? `You pay in ${currency}. Rate locked at ${format(
+                          new Date(display.lockedAt),
+                          "MMM d, HH:mm",
+                        )}.`
+                      : `Currency: ${currency}`}
+                  </span>
+                  {displayCurrencyOptions.length > 1 && (
+                    <select
+                      aria-label="Show prices in"
+                      value={displayCurrency || currency}
+                      onChange={(event) =>
+                        setDisplayCurrency(
+                          event.target.value === currency
+                            ? ""
+                            : event.target.value,
+                        )
+                      }
+                      className="rounded-md border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700"
+                    >
+                      {displayCurrencyOptions.map((option) => (
+                        <option key={option.code} value={option.code}>
+                          {option.code}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+                <div className="rounded-lg bg-gray-50 p-3 text-xs text-gray-600">
+                  <p className="mb-1 font-medium text-gray-900">
+                    Cancellation policy: {cancellationPolicy.name}
+                  </p>
+                  <ul className="list-disc space-y-0.5 pl-4">
+                    {describeCancellationPolicy(cancellationPolicy).map(
+                      (line) => (
+                        <li key={line}>{line}</li>
+                      )
+                    )}
+                    <li>
+                      Security deposit always refunded; no cancellations
+                      within 24 hours of check-in
+                    </li>
+                  </ul>
                 </div>
               </div>
             </div>
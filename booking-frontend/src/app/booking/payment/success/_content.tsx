@@ -164,7 +164,7 @@ export default function PaymentSuccessContent() {
 
         // If we have a reference, use the standard verification flow
         if (reference) {
-          // Use Paystack verification (Flutterwave has been removed)
+          // The API verifies with whichever provider took the payment
           const result = await paymentService.verifyPaystackPayment({
             reference,
           });
@@ -21,6 +21,7 @@ import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { useRealtorBranding } from "@/hooks/useRealtorBranding";
 import { GuestHeader } from "@/components/guest/sections/GuestHeader";
 import BookingLifecycleActions from "@/components/booking/BookingLifecycleActions";
+import BookingModificationPanel from "@/components/booking/BookingModificationPanel";
 import { Button, Card } from "@/components/ui";
 import AlertModal from "@/components/ui/AlertModal";
 import { normalizeImageUrl } from "@/utils/imageUrl";
@@ -39,6 +40,8 @@ export default function GuestBookingDetailsPage() {
     canCancel: boolean;
     refundInfo?: {
       totals?: { customerRefund?: number };
+      roomFee?: { percentages?: { customer?: number } };
+      policy?: { name?: string };
       currency?: string;
       warning?: string | null;
     };
@@ -529,6 +532,12 @@ export default function GuestBookingDetailsPage() {
               onRefresh={handleLifecycleRefresh}
             />
 
+            <BookingModificationPanel
+              booking={booking}
+              role="GUEST"
+              onRefresh={handleLifecycleRefresh}
+            />
+
             {canCompletePayment && (
               <Button
                 className="w-full h-12 rounded-xl font-semibold text-white mb-4"
@@ -591,7 +600,7 @@ export default function GuestBookingDetailsPage() {
           title="Cancel This Booking?"
           message={`Are you sure you want to cancel your booking for ${booking.property?.title || "this property"}? ${
             previewData?.refundInfo?.totals?.customerRefund != null
-              ? `You will receive a refund of ${previewData.refundInfo.currency || booking.currency || ""} ${previewData.refundInfo.totals.customerRefund.toLocaleString("en-NG", { minimumFractionDigits: 2 })} (90% room fee + full security deposit). `
+              ? `You will receive a refund of ${previewData.refundInfo.currency || booking.currency || ""} ${previewData.refundInfo.totals.customerRefund.toLocaleString("en-NG", { minimumFractionDigits: 2 })} (${previewData.refundInfo.roomFee?.percentages?.customer ?? 0}% room fee${previewData.refundInfo.policy?.name ? ` under the ${previewData.refundInfo.policy.name} policy` : ""} + full security deposit). `
               : ""
           }This action cannot be undone.`}
           confirmText="Yes, Cancel Booking"
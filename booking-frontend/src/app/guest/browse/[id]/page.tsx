@@ -16,9 +16,11 @@ import {
   ChevronRight,
   Star,
   Clock,
+  Flag,
 } from "lucide-react";
 import { AnimatedDateInput, Button } from "@/components/ui";
 import { GuestHeader } from "@/components/guest/sections/GuestHeader";
+import { ReportReviewModal } from "@/components/review";
 import { useProperty, usePropertyAvailability } from "@/hooks/useProperties";
 import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { useRealtorBranding } from "@/hooks/useRealtorBranding";
@@ -66,6 +68,10 @@ export default function GuestPropertyDetailsPage() {
     };
   } | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [reportingReviewId, setReportingReviewId] = useState<string | null>(
+    null,
+  );
+  const [reportedReviewIds, setReportedReviewIds] = useState<string[]>([]);
   const minCheckInDate = useMemo(() => {
     const tomorrow = new Date();
     tomorrow.setDate(tomorrow.getDate() + 1);
@@ -601,6 +607,24 @@ export default function GuestPropertyDetailsPage() {
                       <p className="text-sm text-gray-700">
                         {review.comment || "No written feedback provided."}
                       </p>
+                      {user && review.author?.id !== user.id ? (
+                        <div className="mt-2 flex justify-end">
+                          {reportedReviewIds.includes(review.id) ? (
+                            <span className="text-xs text-gray-500">
+                              Reported
+                            </span>
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={() => setReportingReviewId(review.id)}
+                              className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-red-600"
+                            >
+                              <Flag className="w-3 h-3" />
+                              Report
+                            </button>
+                          )}
+                        </div>
+                      ) : null}
                     </div>
                   ))}
                 </div>
@@ -759,6 +783,14 @@ export default function GuestPropertyDetailsPage() {
           </div>
         </div>
       </main>
+
+      <ReportReviewModal
+        reviewId={reportingReviewId}
+        onClose={() => setReportingReviewId(null)}
+        onReported={(reviewId) =>
+          setReportedReviewIds((current) => [...current, reviewId])
+        }
+      />
     </div>
   );
 }
@@ -12,10 +12,13 @@ import {
 } from "lucide-react";
 import { Input, Card, Button } from "@/components/ui";
 import { GuestHeader } from "@/components/guest/sections/GuestHeader";
+import { SupportTicketsPanel } from "@/components/support";
+import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { useRealtorBranding } from "@/hooks/useRealtorBranding";
 
 export default function HelpPage() {
   const [searchQuery, setSearchQuery] = useState("");
+  const { user, isAuthenticated } = useCurrentUser();
   const {
     brandColor: primaryColor,
     secondaryColor,
@@ -185,6 +188,12 @@ export default function HelpPage() {
           </a>
         </div>
 
+        {isAuthenticated && user?.role !== "ADMIN" ? (
+          <div className="mb-14">
+            <SupportTicketsPanel />
+          </div>
+        ) : null}
+
         <h2 className="font-semibold mb-8 text-[32px] text-gray-900">
           Frequently Asked Questions
         </h2>
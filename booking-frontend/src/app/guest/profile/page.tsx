@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { Camera, Save, Trash2, User } from "lucide-react";
 import { Button, Card, Input } from "@/components/ui";
 import { GuestHeader } from "@/components/guest/sections/GuestHeader";
+import { ActiveSessionsPanel } from "@/components/auth";
 import { useCurrentUser } from "@/hooks/useCurrentUser";
 import { useRealtorBranding } from "@/hooks/useRealtorBranding";
 import { authService } from "@/services";
@@ -381,6 +382,10 @@ export default function ProfilePage() {
               </Button>
             </Card>
 
+            <ActiveSessionsPanel
+              onSignedOutEverywhere={() => router.replace("/guest/login")}
+            />
+
             <Card className="p-8 rounded-2xl border border-red-200 bg-white space-y-4">
               <h3 className="font-semibold text-xl text-red-600">
                 Delete Account
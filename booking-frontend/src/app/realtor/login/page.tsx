@@ -20,7 +20,9 @@ import {
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { useAuthStore } from "@/store/authStore";
-import { serviceUtils } from "@/services";
+import { isTwoFactorChallenge, serviceUtils } from "@/services";
+import { TwoFactorChallengeForm } from "@/components/auth";
+import type { TwoFactorChallenge } from "@/types";
 import { buildSubdomainUrl, getMainDomainUrl } from "@/utils/subdomain";
 
 // Force dynamic rendering since this page uses search params
@@ -85,6 +87,7 @@ function RealtorLoginContent() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
 
   useEffect(() => {
     let isMounted = true;
@@ -156,6 +159,72 @@ function RealtorLoginContent() {
     }
   };
 
+  const rejectNonRealtor = () => {
+    toast.error(
+      "This login is for realtors only. Please use the correct login page for your account type.",
+    );
+  };
+
+  const completeSignIn = (loginResponse: LoginRedirectResponse) => {
+    // Check if user is a realtor after successful login
+    const { user } = useAuthStore.getState();
+    if (user && user.role !== "REALTOR") {
+      rejectNonRealtor();
+      return;
+    }
+
+    toast.success(`Welcome back, ${user?.firstName}!`);
+
+    // Enhanced multi-domain redirect handling
+    let redirectUrl = returnTo;
+
+    // Use backend-provided redirect URL if available
+    if (loginResponse?.redirectUrl) {
+      redirectUrl = loginResponse.redirectUrl;
+      redirectUrl = normalizeBackendRedirectUrl(redirectUrl);
+    } else if (
+      user?.role === "REALTOR" &&
+      user?.realtor?.slug &&
+      user.isEmailVerified
+    ) {
+      // Fallback: Construct realtor subdomain URL
+      redirectUrl = buildSubdomainUrl(user.realtor.slug, "/dashboard");
+    }
+
+    // Handle cross-domain navigation
+    setTimeout(() => {
+      const currentHost = window.location.host;
+      try {
+        const redirectHost = new URL(redirectUrl, window.location.origin)
+          .host;
+
+        if (currentHost !== redirectHost) {
+          // Cross-domain redirect (realtor subdomain)
+
+          // Add authentication tokens to URL for cross-domain transfer
+          const { accessToken, refreshToken } = useAuthStore.getState();
+          if (accessToken && refreshToken) {
+            const redirectUrlObj = new URL(redirectUrl);
+            redirectUrlObj.searchParams.set("token", accessToken);
+            redirectUrlObj.searchParams.set("refresh", refreshToken);
+
+            window.location.href = redirectUrlObj.toString();
+          } else {
+            window.location.href = redirectUrl;
+          }
+        } else {
+          // Same-domain redirect
+
+          router.push(redirectUrl);
+        }
+      } catch {
+        // Fallback for relative URLs
+
+        router.push(redirectUrl);
+      }
+    }, 1000); // Small delay to show success message
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -163,66 +232,17 @@ function RealtorLoginContent() {
     try {
       const response = await login(email, password);
 
-      // Check if user is a realtor after successful login
-      const { user } = useAuthStore.getState();
-      if (user && user.role !== "REALTOR") {
-        toast.error(
-          "This login is for realtors only. Please use the correct login page for your account type.",
-        );
+      // Accounts with an authenticator app finish signing in with a code
+      if (isTwoFactorChallenge(response)) {
+        if (response.user.role !== "REALTOR") {
+          rejectNonRealtor();
+          return;
+        }
+        setChallenge(response);
         return;
       }
 
-      toast.success(`Welcome back, ${user?.firstName}!`);
-
-      // Enhanced multi-domain redirect handling
-      const loginResponse = response as LoginRedirectResponse;
-      let redirectUrl = returnTo;
-
-      // Use backend-provided redirect URL if available
-      if (loginResponse?.redirectUrl) {
-        redirectUrl = loginResponse.redirectUrl;
-        redirectUrl = normalizeBackendRedirectUrl(redirectUrl);
-      } else if (
-        user?.role === "REALTOR" &&
-        user?.realtor?.slug &&
-        user.isEmailVerified
-      ) {
-        // Fallback: Construct realtor subdomain URL
-        redirectUrl = buildSubdomainUrl(user.realtor.slug, "/dashboard");
-      }
-
-      // Handle cross-domain navigation
-      setTimeout(() => {
-        const currentHost = window.location.host;
-        try {
-          const redirectHost = new URL(redirectUrl, window.location.origin)
-            .host;
-
-          if (currentHost !== redirectHost) {
-            // Cross-domain redirect (realtor subdomain)
-
-            // Add authentication tokens to URL for cross-domain transfer
-            const { accessToken, refreshToken } = useAuthStore.getState();
-            if (accessToken && refreshToken) {
-              const redirectUrlObj = new URL(redirectUrl);
-              redirectUrlObj.searchParams.set("token", accessToken);
-              redirectUrlObj.searchParams.set("refresh", refreshToken);
-
-              window.location.href = redirectUrlObj.toString();
-            } else {
-              window.location.href = redirectUrl;
-            }
-          } else {
-            // Same-domain redirect
-
-            router.push(redirectUrl);
-          }
-        } catch {
-          // Fallback for relative URLs
-
-          router.push(redirectUrl);
-        }
-      }, 1000); // Small delay to show success message
+      completeSignIn(response);
     } catch (error: unknown) {
       // Handle different types of errors
       const httpError = error as HttpLikeError;
@@ -476,136 +496,147 @@ function RealtorLoginContent() {
               </AnimatePresence>
 
               {/* Login Form */}
-              <form onSubmit={handleLogin} className="space-y-6">
-                {/* Email Input */}
-                <motion.div
-                  initial={{ x: -20, opacity: 0 }}
-                  animate={{ x: 0, opacity: 1 }}
-                  transition={{ delay: 0.8 }}
-                >
-                  <label
-                    htmlFor="email"
-                    className="block text-sm font-semibold mb-2 text-marketing-foreground"
+              {challenge ? (
+                <TwoFactorChallengeForm
+                  challenge={challenge}
+                  onComplete={completeSignIn}
+                  onCancel={() => {
+                    setChallenge(null);
+                    setPassword("");
+                  }}
+                />
+              ) : (
+                <form onSubmit={handleLogin} className="space-y-6">
+                  {/* Email Input */}
+                  <motion.div
+                    initial={{ x: -20, opacity: 0 }}
+                    animate={{ x: 0, opacity: 1 }}
+                    transition={{ delay: 0.8 }}
                   >
-                    Business Email
-                  </label>
-                  <div className="relative group">
-                    <div className="absolute inset-y-0 left-0 flex items-center pl-4 pointer-events-none z-10">
-                      <Mail className="h-5 w-5 text-marketing-muted transition-colors" />
+                    <label
+                      htmlFor="email"
+                      className="block text-sm font-semibold mb-2 text-marketing-foreground"
+                    >
+                      Business Email
+                    </label>
+                    <div className="relative group">
+                      <div className="absolute inset-y-0 left-0 flex items-center pl-4 pointer-events-none z-10">
+                        <Mail className="h-5 w-5 text-marketing-muted transition-colors" />
+                      </div>
+                      <input
+                        id="email"
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        required
+                        placeholder="realtor@yourcompany.com"
+                        className="w-full pl-12 pr-4 py-3.5 rounded-xl border-2 transition-all duration-200 focus:outline-none focus:ring-2 font-medium bg-marketing-elevated border-marketing-subtle text-marketing-foreground placeholder:text-marketing-muted focus:border-marketing-accent ring-marketing-focus"
+                        disabled={isLoading}
+                      />
                     </div>
-                    <input
-                      id="email"
-                      type="email"
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      required
-                      placeholder="realtor@yourcompany.com"
-                      className="w-full pl-12 pr-4 py-3.5 rounded-xl border-2 transition-all duration-200 focus:outline-none focus:ring-2 font-medium bg-marketing-elevated border-marketing-subtle text-marketing-foreground placeholder:text-marketing-muted focus:border-marketing-accent ring-marketing-focus"
-                      disabled={isLoading}
-                    />
-                  </div>
-                </motion.div>
-
-                {/* Password Input */}
-                <motion.div
-                  initial={{ x: -20, opacity: 0 }}
-                  animate={{ x: 0, opacity: 1 }}
-                  transition={{ delay: 0.9 }}
-                >
-                  <label
-                    htmlFor="password"
-                    className="block text-sm font-semibold mb-2 text-marketing-foreground"
+                  </motion.div>
+
+                  {/* Password Input */}
+                  <motion.div
+                    initial={{ x: -20, opacity: 0 }}
+                    animate={{ x: 0, opacity: 1 }}
+                    transition={{ delay: 0.9 }}
                   >
-                    Password
-                  </label>
-                  <div className="relative group">
-                    <div className="absolute inset-y-0 left-0 flex items-center pl-4 pointer-events-none z-10">
-                      <Lock className="h-5 w-5 text-marketing-muted transition-colors" />
+                    <label
+                      htmlFor="password"
+                      className="block text-sm font-semibold mb-2 text-marketing-foreground"
+                    >
+                      Password
+                    </label>
+                    <div className="relative group">
+                      <div className="absolute inset-y-0 left-0 flex items-center pl-4 pointer-events-none z-10">
+                        <Lock className="h-5 w-5 text-marketing-muted transition-colors" />
+                      </div>
+                      <input
+                        id="password"
+                        type={showPassword ? "text" : "password"}
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                        placeholder="••••••••"
+                        className="w-full pl-12 pr-12 py-3.5 rounded-xl border-2 transition-all duration-200 focus:outline-none focus:ring-2 font-medium bg-marketing-elevated border-marketing-subtle text-marketing-foreground placeholder:text-marketing-muted focus:border-marketing-accent ring-marketing-focus"
+                        disabled={isLoading}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(!showPassword)}
+                        className="absolute inset-y-0 right-0 flex items-center pr-4 text-marketing-muted hover:text-marketing-accent transition-colors z-10"
+                      >
+                        {showPassword ? (
+                          <EyeOff className="h-5 w-5" />
+                        ) : (
+                          <Eye className="h-5 w-5" />
+                        )}
+                      </button>
                     </div>
-                    <input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      required
-                      placeholder="••••••••"
-                      className="w-full pl-12 pr-12 py-3.5 rounded-xl border-2 transition-all duration-200 focus:outline-none focus:ring-2 font-medium bg-marketing-elevated border-marketing-subtle text-marketing-foreground placeholder:text-marketing-muted focus:border-marketing-accent ring-marketing-focus"
-                      disabled={isLoading}
-                    />
-                    <button
-                      type="button"
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute inset-y-0 right-0 flex items-center pr-4 text-marketing-muted hover:text-marketing-accent transition-colors z-10"
+                  </motion.div>
+
+                  {/* Forgot Password Link */}
+                  <motion.div
+                    initial={{ y: 10, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    transition={{ delay: 0.95 }}
+                    className="flex justify-end"
+                  >
+                    <Link
+                      href="/realtor/forgot-password"
+                      className="text-sm font-medium text-marketing-accent hover:text-marketing-primary transition-colors"
                     >
-                      {showPassword ? (
-                        <EyeOff className="h-5 w-5" />
+                      Forgot password?
+                    </Link>
+                  </motion.div>
+
+                  {/* Submit Button */}
+                  <motion.button
+                    initial={{ y: 20, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    transition={{ delay: 1.0 }}
+                    whileHover={{ scale: 1.02, y: -2 }}
+                    whileTap={{ scale: 0.98 }}
+                    type="submit"
+                    disabled={isLoading}
+                    className="marketing-button-primary relative w-full py-4 px-6 font-bold rounded-xl overflow-hidden disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  >
+                    <div className="absolute inset-0 bg-orange-500 opacity-0 hover:opacity-20 transition-opacity" />
+                    <span className="relative flex items-center justify-center space-x-2">
+                      {isLoading ? (
+                        <>
+                          <motion.div
+                            animate={{ rotate: 360 }}
+                            transition={{
+                              duration: 1,
+                              repeat: Infinity,
+                              ease: "linear",
+                            }}
+                          >
+                            <Building2 className="w-5 h-5" />
+                          </motion.div>
+                          <span>Signing in...</span>
+                        </>
                       ) : (
-                        <Eye className="h-5 w-5" />
+                        <>
+                          <span>Access Your Hub</span>
+                          <motion.div
+                            animate={{ x: [0, 4, 0] }}
+                            transition={{
+                              duration: 1.5,
+                              repeat: Infinity,
+                              ease: "easeInOut",
+                            }}
+                          >
+                            <ArrowLeft className="w-5 h-5 rotate-180" />
+                          </motion.div>
+                        </>
                       )}
-                    </button>
-                  </div>
-                </motion.div>
-
-                {/* Forgot Password Link */}
-                <motion.div
-                  initial={{ y: 10, opacity: 0 }}
-                  animate={{ y: 0, opacity: 1 }}
-                  transition={{ delay: 0.95 }}
-                  className="flex justify-end"
-                >
-                  <Link
-                    href="/realtor/forgot-password"
-                    className="text-sm font-medium text-marketing-accent hover:text-marketing-primary transition-colors"
-                  >
-                    Forgot password?
-                  </Link>
-                </motion.div>
-
-                {/* Submit Button */}
-                <motion.button
-                  initial={{ y: 20, opacity: 0 }}
-                  animate={{ y: 0, opacity: 1 }}
-                  transition={{ delay: 1.0 }}
-                  whileHover={{ scale: 1.02, y: -2 }}
-                  whileTap={{ scale: 0.98 }}
-                  type="submit"
-                  disabled={isLoading}
-                  className="marketing-button-primary relative w-full py-4 px-6 font-bold rounded-xl overflow-hidden disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                >
-                  <div className="absolute inset-0 bg-orange-500 opacity-0 hover:opacity-20 transition-opacity" />
-                  <span className="relative flex items-center justify-center space-x-2">
-                    {isLoading ? (
-                      <>
-                        <motion.div
-                          animate={{ rotate: 360 }}
-                          transition={{
-                            duration: 1,
-                            repeat: Infinity,
-                            ease: "linear",
-                          }}
-                        >
-                          <Building2 className="w-5 h-5" />
-                        </motion.div>
-                        <span>Signing in...</span>
-                      </>
-                    ) : (
-                      <>
-                        <span>Access Your Hub</span>
-                        <motion.div
-                          animate={{ x: [0, 4, 0] }}
-                          transition={{
-                            duration: 1.5,
-                            repeat: Infinity,
-                            ease: "easeInOut",
-                          }}
-                        >
-                          <ArrowLeft className="w-5 h-5 rotate-180" />
-                        </motion.div>
-                      </>
-                    )}
-                  </span>
-                </motion.button>
-              </form>
+                    </span>
+                  </motion.button>
+                </form>
+              )}
 
               {/* Register Link */}
               <motion.div
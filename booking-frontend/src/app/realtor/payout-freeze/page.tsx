@@ -0,0 +1,120 @@
+"use client";
+
+import React, { Suspense, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { AlertTriangle, ArrowLeft, CheckCircle, Lock } from "lucide-react";
+import { serviceUtils } from "@/services";
+import walletService from "@/services/wallet";
+
+// Force dynamic rendering since this page uses search params
+export const dynamic = "force-dynamic";
+
+function PayoutFreezeContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState(
+    token
+      ? ""
+      : "This link is incomplete. Contact support to secure your account.",
+  );
+  const [frozenMessage, setFrozenMessage] = useState("");
+
+  // Freezing needs a click so email link scanners can't trigger it
+  const handleFreeze = async () => {
+    setIsSubmitting(true);
+    setError("");
+    try {
+      const result = await walletService.freezePayouts(token);
+      setFrozenMessage(result.message);
+    } catch (err) {
+      setError(serviceUtils.extractErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-gray-50">
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <Link href="/" className="flex items-center space-x-2">
+              <ArrowLeft className="h-5 w-5 text-gray-600" />
+              <span className="text-gray-600 hover:text-gray-900">
+                Back to Home
+              </span>
+            </Link>
+            <div className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-gray-800 bg-clip-text text-transparent">
+              Stayza
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center px-4 sm:px-6 lg:px-8 py-12">
+        <div className="max-w-md w-full space-y-8">
+          <div className="text-center">
+            <div className="mx-auto h-16 w-16 bg-red-100 rounded-full flex items-center justify-center">
+              <Lock className="h-8 w-8 text-red-600" />
+            </div>
+            <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+              Didn&apos;t change your payout account?
+            </h2>
+            <p className="mt-2 text-sm text-gray-600">
+              Freeze payouts and nothing will leave your wallet until our team
+              has checked your account. You will be signed out on every device.
+            </p>
+          </div>
+
+          {frozenMessage ? (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-6 flex items-start">
+              <CheckCircle className="h-6 w-6 text-green-600 mr-3 mt-1" />
+              <div>
+                <p className="text-sm text-green-800">{frozenMessage}</p>
+                <p className="text-sm text-green-800 mt-2">
+                  Reset your password before signing in again.
+                </p>
+                <Link
+                  href="/realtor/forgot-password"
+                  className="inline-block mt-3 text-sm font-semibold text-green-900 underline"
+                >
+                  Reset password
+                </Link>
+              </div>
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-6 flex items-start">
+                  <AlertTriangle className="h-6 w-6 text-red-600 mr-3 mt-1" />
+                  <p className="text-sm text-red-700">{error}</p>
+                </div>
+              )}
+              {token && (
+                <button
+                  type="button"
+                  onClick={handleFreeze}
+                  disabled={isSubmitting}
+                  className="w-full py-3 px-4 text-sm font-semibold text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-60"
+                >
+                  {isSubmitting ? "Freezing payouts..." : "Freeze my payouts"}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function PayoutFreezePage() {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <PayoutFreezeContent />
+    </Suspense>
+  );
+}
@@ -26,6 +26,8 @@ import {
   AlertTriangle,
   MessageSquare,
   Mail,
+  LifeBuoy,
+  Scale,
 } from "lucide-react";
 import { getMainDomainUrl } from "@/utils/subdomain";
 import { deleteCookie } from "@/utils/cookies";
@@ -40,9 +42,11 @@ const navigationItems = [
   { name: "Dashboard", href: "/admin", icon: Home },
   { name: "Bookings", href: "/admin/bookings", icon: Calendar },
   { name: "Disputes", href: "/admin/disputes", icon: AlertTriangle },
+  { name: "Support", href: "/admin/support", icon: LifeBuoy },
   { name: "Reviews", href: "/admin/reviews", icon: MessageSquare },
   { name: "Waitlist", href: "/admin/waitlist", icon: UserPlus },
   { name: "Withdrawals", href: "/admin/withdrawals", icon: DollarSign },
+  { name: "Reconciliation", href: "/admin/reconciliation", icon: Scale },
   { name: "Email Preview", href: "/admin/email-preview", icon: Mail },
   { name: "Finance", href: "/admin/settings", icon: DollarSign },
   { name: "Audit Logs", href: "/admin/audit-logs", icon: FileText },
@@ -109,6 +113,10 @@ export function AdminNavigation() {
         return FileCheck;
       case "PAYOUT_COMPLETED":
         return DollarSign;
+      case "SUPPORT_TICKET_UPDATE":
+        return LifeBuoy;
+      case "REVIEW_FLAGGED":
+        return MessageSquare;
       default:
         return Bell;
     }
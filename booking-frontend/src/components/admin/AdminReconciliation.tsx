@@ -0,0 +1,420 @@
+"use client";
+
+import React from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Download, Loader2, Play, Wrench, X } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Card, Button } from "@/components/ui";
+import { ActionModal } from "@/components/admin/ActionModal";
+import { formatCurrency } from "@/utils/formatters";
+import {
+  ReconciliationItem,
+  ReconciliationItemStatus,
+  ReconciliationMismatchLabels,
+  ReconciliationMismatchType,
+  ReconciliationRun,
+  ReconciliationRunDetail,
+  ReconciliationRunStatus,
+  adminReconciliationService,
+} from "@/services/adminReconciliationService";
+
+const runStatusStyles: Record<ReconciliationRunStatus, string> = {
+  RUNNING: "bg-blue-100 text-blue-700",
+  COMPLETED: "bg-green-100 text-green-700",
+  FAILED: "bg-red-100 text-red-700",
+};
+
+const itemStatusStyles: Record<ReconciliationItemStatus, string> = {
+  OPEN: "bg-amber-100 text-amber-700",
+  RESOLVED: "bg-green-100 text-green-700",
+  DISMISSED: "bg-gray-100 text-gray-600",
+};
+
+const REMEDIATION_DESCRIPTIONS: Partial<
+  Record<ReconciliationMismatchType, string>
+> = {
+  PAYMENT_NOT_RECORDED:
+    "Paystack is checked again and, if the charge still succeeded, the payment is finalized: escrow is funded, the booking confirmed and the guest notified.",
+  PROCESSING_FEE_DRIFT:
+    "Paystack is checked again and the recorded processing fee and variance are corrected, with a matching ledger adjustment.",
+  TRANSFER_REVERSED:
+    "Paystack is checked again and, if the transfer is still reversed, the withdrawal is marked failed, the gross amount returned to the realtor wallet and the withdrawal fee taken back from the platform.",
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const formatAmount = (value?: string | number | null) =>
+  value === null || value === undefined ? "—" : formatCurrency(Number(value));
+
+type PendingAction = {
+  item: ReconciliationItem;
+  action: "remediate" | "dismiss";
+};
+
+export default function AdminReconciliation() {
+  const [runs, setRuns] = React.useState<ReconciliationRun[]>([]);
+  const [labels, setLabels] = React.useState<
+    Partial<ReconciliationMismatchLabels>
+  >({});
+  const [selectedRunId, setSelectedRunId] = React.useState<string | null>(null);
+  const [run, setRun] = React.useState<ReconciliationRunDetail | null>(null);
+  const [loadingRuns, setLoadingRuns] = React.useState(true);
+  const [loadingRun, setLoadingRun] = React.useState(false);
+  const [starting, setStarting] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = React.useState<
+    ReconciliationItemStatus | "all"
+  >("OPEN");
+  const [typeFilter, setTypeFilter] = React.useState<
+    ReconciliationMismatchType | ""
+  >("");
+  const [pendingAction, setPendingAction] =
+    React.useState<PendingAction | null>(null);
+
+  const loadRuns = React.useCallback(async () => {
+    try {
+      setLoadingRuns(true);
+      setError(null);
+      const response = await adminReconciliationService.getRuns({ limit: 30 });
+      setRuns(response.data);
+      setLabels(response.labels || {});
+      setSelectedRunId((current) => current ?? response.data[0]?.id ?? null);
+    } catch (loadError) {
+      setError(errorMessage(loadError, "Failed to load reconciliation runs."));
+    } finally {
+      setLoadingRuns(false);
+    }
+  }, []);
+
+  const loadRun = React.useCallback(async () => {
+    if (!selectedRunId) {
+      setRun(null);
+      return;
+    }
+    try {
+      setLoadingRun(true);
+      const data = await adminReconciliationService.getRun(selectedRunId, {
+        status: statusFilter,
+        type: typeFilter || undefined,
+      });
+      setRun(data);
+    } catch (loadError) {
+      setError(errorMessage(loadError, "Failed to load reconciliation run."));
+    } finally {
+      setLoadingRun(false);
+    }
+  }, [selectedRunId, statusFilter, typeFilter]);
+
+  React.useEffect(() => {
+    void loadRuns();
+  }, [loadRuns]);
+
+  React.useEffect(() => {
+    void loadRun();
+  }, [loadRun]);
+
+  const startRun = async () => {
+    try {
+      setStarting(true);
+      const created = await adminReconciliationService.startRun();
+      toast.success(
+        `Reconciliation complete: ${created.mismatchCount} mismatch(es).`
+      );
+      setSelectedRunId(created.id);
+      await loadRuns();
+    } catch (runError) {
+      toast.error(errorMessage(runError, "Reconciliation failed."));
+      await loadRuns();
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const exportRun = async () => {
+    if (!run) return;
+    try {
+      const blob = await adminReconciliationService.exportRun(run.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `reconciliation-${format(
+        new Date(run.startedAt),
+        "yyyy-MM-dd"
+      )}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (exportError) {
+      toast.error(errorMessage(exportError, "Failed to export report."));
+    }
+  };
+
+  const resolveItem = async (note?: string) => {
+    if (!pendingAction) return;
+    const { item, action } = pendingAction;
+    try {
+      if (action === "remediate") {
+        const { message } = await adminReconciliationService.remediate(
+          item.id,
+          note?.trim() || undefined
+        );
+        toast.success(message || "Mismatch fixed.");
+      } else {
+        await adminReconciliationService.dismiss(
+          item.id,
+          note?.trim() || undefined
+        );
+        toast.success("Mismatch dismissed.");
+      }
+      await Promise.all([loadRun(), loadRuns()]);
+    } catch (actionError) {
+      toast.error(errorMessage(actionError, "Failed to resolve mismatch."));
+      // Keeps the modal open
+      throw actionError;
+    }
+  };
+
+  const items = run?.items ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">
+            Paystack Reconciliation
+          </h1>
+          <p className="mt-1 text-gray-600">
+            Daily comparison of Paystack transactions and transfers with
+            payments, withdrawals and webhooks. Runs automatically at 02:30.
+          </p>
+        </div>
+        <Button onClick={() => void startRun()} disabled={starting}>
+          {starting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Play className="mr-2 h-4 w-4" />
+          )}
+          Run Now
+        </Button>
+      </div>
+
+      {error ? (
+        <Card className="border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </Card>
+      ) : null}
+
+      <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+        <Card className="overflow-hidden">
+          <div className="border-b border-gray-200 px-4 py-3 text-sm font-semibold text-gray-900">
+            Runs
+          </div>
+          {loadingRuns && runs.length === 0 ? (
+            <div className="flex items-center justify-center px-4 py-10 text-gray-500">
+              <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+              Loading runs...
+            </div>
+          ) : runs.length === 0 ? (
+            <div className="px-4 py-10 text-center text-sm text-gray-500">
+              No reconciliation runs yet.
+            </div>
+          ) : (
+            <ul className="max-h-[640px] divide-y divide-gray-200 overflow-y-auto">
+              {runs.map((entry) => (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedRunId(entry.id)}
+                    className={`w-full px-4 py-3 text-left text-sm hover:bg-gray-50 ${
+                      entry.id === selectedRunId ? "bg-gray-100" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-gray-900">
+                        {format(new Date(entry.startedAt), "MMM d, HH:mm")}
+                      </span>
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-semibold ${runStatusStyles[entry.status]}`}
+                      >
+                        {entry.status}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {entry.mismatchCount} mismatch(es) ·{" "}
+                      {entry.openItemCount ?? 0} open
+                      {entry.triggeredById ? " · manual" : ""}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        <div className="space-y-4">
+          {run ? (
+            <Card className="p-6">
+              <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+                <div className="text-sm text-gray-600">
+                  <p>
+                    {format(new Date(run.periodStart), "MMM d, HH:mm")} –{" "}
+                    {format(new Date(run.periodEnd), "MMM d, HH:mm")}
+                  </p>
+                  <p className="mt-1">
+                    {run.transactionCount} transactions · {run.transferCount}{" "}
+                    transfers · {run.mismatchCount} mismatch(es)
+                  </p>
+                  {run.error ? (
+                    <p className="mt-1 text-red-600">{run.error}</p>
+                  ) : null}
+                </div>
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <select
+                    value={statusFilter}
+                    onChange={(event) =>
+                      setStatusFilter(event.target.value as typeof statusFilter)
+                    }
+                    className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                  >
+                    <option value="OPEN">Open</option>
+                    <option value="RESOLVED">Resolved</option>
+                    <option value="DISMISSED">Dismissed</option>
+                    <option value="all">All items</option>
+                  </select>
+                  <select
+                    value={typeFilter}
+                    onChange={(event) =>
+                      setTypeFilter(event.target.value as typeof typeFilter)
+                    }
+                    className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                  >
+                    <option value="">All mismatch types</option>
+                    {Object.entries(labels).map(([type, label]) => (
+                      <option key={type} value={type}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => void exportRun()}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    Export CSV
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ) : null}
+
+          <Card className="overflow-hidden">
+            {loadingRun ? (
+              <div className="flex items-center justify-center px-6 py-12 text-gray-500">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Loading mismatches...
+              </div>
+            ) : !run ? (
+              <div className="px-6 py-12 text-center text-gray-500">
+                Select a run to see its mismatches.
+              </div>
+            ) : items.length === 0 ? (
+              <div className="px-6 py-12 text-center text-gray-500">
+                No mismatches for this filter.
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {items.map((item) => (
+                  <li key={item.id} className="space-y-2 px-6 py-4">
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-1 font-semibold ${itemStatusStyles[item.status]}`}
+                      >
+                        {item.status}
+                      </span>
+                      <span className="font-medium text-gray-900">
+                        {labels[item.type] || item.type}
+                      </span>
+                      <span className="font-mono text-gray-500">
+                        {item.reference}
+                      </span>
+                    </div>
+                    <div className="grid gap-2 text-sm text-gray-700 sm:grid-cols-2">
+                      <p>
+                        Paystack: {item.providerStatus || "—"} ·{" "}
+                        {formatAmount(item.providerAmount)}
+                      </p>
+                      <p>
+                        Local: {item.localStatus || "not found"} ·{" "}
+                        {formatAmount(item.localAmount)}
+                      </p>
+                    </div>
+                    {item.status === "OPEN" ? (
+                      <div className="flex gap-2">
+                        {item.remediable ? (
+                          <Button
+                            size="sm"
+                            onClick={() =>
+                              setPendingAction({ item, action: "remediate" })
+                            }
+                          >
+                            <Wrench className="mr-2 h-4 w-4" />
+                            Fix
+                          </Button>
+                        ) : null}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            setPendingAction({ item, action: "dismiss" })
+                          }
+                        >
+                          <X className="mr-2 h-4 w-4" />
+                          Dismiss
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-gray-500">
+                        {item.resolutionNote}
+                        {item.resolvedAt
+                          ? ` · ${formatDistanceToNow(
+                              new Date(item.resolvedAt),
+                              { addSuffix: true }
+                            )}`
+                          : ""}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      <ActionModal
+        isOpen={Boolean(pendingAction)}
+        onClose={() => setPendingAction(null)}
+        onConfirm={resolveItem}
+        title={
+          pendingAction?.action === "remediate"
+            ? "Fix mismatch"
+            : "Dismiss mismatch"
+        }
+        description={
+          pendingAction?.action === "remediate"
+            ? REMEDIATION_DESCRIPTIONS[pendingAction.item.type] || ""
+            : "No records are changed. The same mismatch in other runs is dismissed too."
+        }
+        confirmText={pendingAction?.action === "remediate" ? "Fix" : "Dismiss"}
+        variant="warning"
+        requiresInput
+        inputLabel="Note (optional)"
+        inputPlaceholder="Visible to other admins in the audit log"
+        inputRequired={false}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Check, Loader2, Star, X } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Card, Button } from "@/components/ui";
+import { ActionModal } from "@/components/admin/ActionModal";
+import { REVIEW_REPORT_REASON_LABELS } from "@/components/review/ReportReviewModal";
+import {
+  AdminReviewQueueResponse,
+  AdminReviewReport,
+  ReviewModerationPerson,
+  adminReviewService,
+} from "@/services/adminReviewService";
+import { ReviewReportKind, ReviewReportStatus } from "@/types";
+
+const statusStyles: Record<ReviewReportStatus, string> = {
+  PENDING: "bg-amber-100 text-amber-700",
+  UPHELD: "bg-red-100 text-red-700",
+  DISMISSED: "bg-gray-100 text-gray-600",
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const personName = (person?: ReviewModerationPerson | null) =>
+  person ? `${person.firstName} ${person.lastName}`.trim() : "—";
+
+type PendingAction = {
+  report: AdminReviewReport;
+  action: "uphold" | "dismiss";
+};
+
+export default function AdminReviewQueue() {
+  const [queue, setQueue] = React.useState<AdminReviewQueueResponse | null>(
+    null
+  );
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = React.useState<
+    ReviewReportStatus | "all"
+  >("PENDING");
+  const [kindFilter, setKindFilter] = React.useState<ReviewReportKind | "">("");
+  const [page, setPage] = React.useState(1);
+  const [pendingAction, setPendingAction] =
+    React.useState<PendingAction | null>(null);
+
+  const loadQueue = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await adminReviewService.getReports({
+        status: statusFilter,
+        kind: kindFilter || undefined,
+        page,
+      });
+      setQueue(data);
+    } catch (loadError) {
+      setError(errorMessage(loadError, "Failed to load review reports."));
+    } finally {
+      setLoading(false);
+    }
+  }, [kindFilter, page, statusFilter]);
+
+  React.useEffect(() => {
+    void loadQueue();
+  }, [loadQueue]);
+
+  const resolveReport = async (note?: string) => {
+    if (!pendingAction) return;
+    const { report, action } = pendingAction;
+    try {
+      if (action === "uphold") {
+        await adminReviewService.uphold(report.id, note?.trim() || undefined);
+        toast.success("Report upheld. The review is now hidden.");
+      } else {
+        await adminReviewService.dismiss(report.id, note?.trim() || undefined);
+        toast.success("Report dismissed.");
+      }
+      await loadQueue();
+    } catch (actionError) {
+      toast.error(errorMessage(actionError, "Failed to resolve report."));
+      // Keeps the modal open
+      throw actionError;
+    }
+  };
+
+  const reports = queue?.data ?? [];
+  const stats = queue?.stats;
+  const pagination = queue?.pagination;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Review Moderation</h1>
+        <p className="mt-1 text-gray-600">
+          Reports from guests and removal requests from hosts. Upholding a
+          report hides the review and recalculates the property rating.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {[
+          { label: "Pending reports", value: stats?.pending },
+          { label: "Host removal requests", value: stats?.removalRequests },
+        ].map((stat) => (
+          <Card key={stat.label} className="p-4">
+            <p className="text-xs uppercase text-gray-500">{stat.label}</p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {stat.value ?? "—"}
+            </p>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="p-6">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <select
+              value={statusFilter}
+              onChange={(event) => {
+                setStatusFilter(event.target.value as typeof statusFilter);
+                setPage(1);
+              }}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="PENDING">Pending</option>
+              <option value="UPHELD">Upheld</option>
+              <option value="DISMISSED">Dismissed</option>
+              <option value="all">All reports</option>
+            </select>
+            <select
+              value={kindFilter}
+              onChange={(event) => {
+                setKindFilter(event.target.value as typeof kindFilter);
+                setPage(1);
+              }}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="">Reports and removal requests</option>
+              <option value="FLAG">User reports</option>
+              <option value="REMOVAL_REQUEST">Host removal requests</option>
+            </select>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => void loadQueue()}>
+            Refresh Queue
+          </Button>
+        </div>
+      </Card>
+
+      {error ? (
+        <Card className="border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </Card>
+      ) : null}
+
+      <Card className="overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center px-6 py-12 text-gray-500">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+            Loading reports...
+          </div>
+        ) : reports.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            No reports found for this filter.
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {reports.map((report) => (
+              <li key={report.id} className="space-y-3 px-6 py-5">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span
+                    className={`inline-flex rounded-full px-2 py-1 font-semibold ${statusStyles[report.status]}`}
+                  >
+                    {report.status}
+                  </span>
+                  {report.kind === "REMOVAL_REQUEST" ? (
+                    <span className="inline-flex rounded-full bg-purple-100 px-2 py-1 font-semibold text-purple-700">
+                      Host removal request
+                    </span>
+                  ) : null}
+                  <span className="font-medium text-gray-900">
+                    {REVIEW_REPORT_REASON_LABELS[report.reason]}
+                  </span>
+                  <span className="text-gray-500">
+                    by {personName(report.reporter)} ·{" "}
+                    {formatDistanceToNow(new Date(report.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                  {report.review._count.reports > 1 ? (
+                    <span className="text-gray-500">
+                      · {report.review._count.reports} reports on this review
+                    </span>
+                  ) : null}
+                </div>
+
+                {report.details ? (
+                  <p className="text-sm text-gray-700">
+                    &ldquo;{report.details}&rdquo;
+                  </p>
+                ) : null}
+
+                <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+                  <div className="mb-1 flex items-center justify-between gap-2 text-sm">
+                    <span className="font-semibold text-gray-900">
+                      {report.review.property.title}
+                    </span>
+                    <span className="inline-flex items-center gap-1 text-amber-500">
+                      <Star className="h-4 w-4 fill-current" />
+                      {report.review.rating}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {personName(report.review.author)} reviewing{" "}
+                    {report.review.property.realtor.businessName}
+                    {report.review.isVisible ? "" : " · hidden"}
+                  </p>
+                  <p className="mt-2 text-sm text-gray-700">
+                    {report.review.comment || "No written feedback."}
+                  </p>
+                </div>
+
+                {report.status === "PENDING" ? (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        setPendingAction({ report, action: "uphold" })
+                      }
+                    >
+                      <Check className="mr-2 h-4 w-4" />
+                      Uphold &amp; Hide Review
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        setPendingAction({ report, action: "dismiss" })
+                      }
+                    >
+                      <X className="mr-2 h-4 w-4" />
+                      Dismiss
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    Resolved by {personName(report.resolvedBy)}
+                    {report.resolvedAt
+                      ? ` ${formatDistanceToNow(new Date(report.resolvedAt), {
+                          addSuffix: true,
+                        })}`
+                      : ""}
+                    {report.resolutionNote ? ` · ${report.resolutionNote}` : ""}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {pagination && pagination.totalPages > 1 ? (
+          <div className="flex items-center justify-between border-t border-gray-200 px-6 py-3 text-sm text-gray-600">
+            <span>
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!pagination.hasPrev}
+                onClick={() => setPage((current) => current - 1)}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!pagination.hasNext}
+                onClick={() => setPage((current) => current + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </Card>
+
+      <ActionModal
+        isOpen={Boolean(pendingAction)}
+        onClose={() => setPendingAction(null)}
+        onConfirm={resolveReport}
+        title={
+          pendingAction?.action === "uphold"
+            ? "Uphold report"
+            : "Dismiss report"
+        }
+        description={
+          pendingAction?.action === "uphold"
+            ? "The review will be hidden, the property and host ratings recalculated, and every pending report on this review resolved."
+            : "The review stays published. The reporter is told it meets the guidelines."
+        }
+        confirmText={pendingAction?.action === "uphold" ? "Uphold" : "Dismiss"}
+        variant={pendingAction?.action === "uphold" ? "danger" : "warning"}
+        requiresInput
+        inputLabel="Note (optional)"
+        inputPlaceholder="Visible to other admins in the audit log"
+        inputRequired={false}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,564 @@
+"use client";
+
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Eye, Loader2, Lock } from "lucide-react";
+import { Card, Button } from "@/components/ui";
+import {
+  SupportAttachmentList,
+  SupportStatusBadge,
+} from "@/components/support";
+import { SUPPORT_CATEGORY_LABELS } from "@/components/support/SupportTicketsPanel";
+import {
+  AdminSupportQueueResponse,
+  AdminSupportTicketDetail,
+  AdminSupportTicketSummary,
+  SupportPerson,
+  SupportTicketPriority,
+  SupportTicketStatus,
+  adminSupportService,
+} from "@/services/adminSupportService";
+
+const priorityStyles: Record<SupportTicketPriority, string> = {
+  HIGH: "bg-red-100 text-red-700",
+  MEDIUM: "bg-blue-100 text-blue-700",
+  LOW: "bg-gray-100 text-gray-600",
+};
+
+const STATUS_ACTIONS: Record<
+  SupportTicketStatus,
+  { label: string; status: SupportTicketStatus }[]
+> = {
+  OPEN: [
+    { label: "Resolve", status: "RESOLVED" },
+    { label: "Close", status: "CLOSED" },
+  ],
+  IN_PROGRESS: [
+    { label: "Resolve", status: "RESOLVED" },
+    { label: "Close", status: "CLOSED" },
+  ],
+  RESOLVED: [
+    { label: "Reopen", status: "OPEN" },
+    { label: "Close", status: "CLOSED" },
+  ],
+  CLOSED: [{ label: "Reopen", status: "OPEN" }],
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const personName = (person?: SupportPerson | null) =>
+  person ? `${person.firstName} ${person.lastName}`.trim() : "Unassigned";
+
+const isBreached = (ticket: AdminSupportTicketSummary) =>
+  Boolean(ticket.firstResponseBreachedAt || ticket.resolutionBreachedAt);
+
+const dueLabel = (ticket: AdminSupportTicketSummary) => {
+  if (ticket.status === "RESOLVED" || ticket.status === "CLOSED") {
+    return "—";
+  }
+  const due = ticket.firstRespondedAt
+    ? ticket.resolutionDueAt
+    : ticket.firstResponseDueAt;
+  return `${ticket.firstRespondedAt ? "Resolve" : "Reply"} ${formatDistanceToNow(
+    new Date(due),
+    { addSuffix: true }
+  )}`;
+};
+
+export default function AdminSupportQueue() {
+  const [queue, setQueue] = React.useState<AdminSupportQueueResponse | null>(
+    null
+  );
+  const [agents, setAgents] = React.useState<SupportPerson[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = React.useState<
+    SupportTicketStatus | "ALL"
+  >("ALL");
+  const [assignedFilter, setAssignedFilter] = React.useState("");
+  const [breachedOnly, setBreachedOnly] = React.useState(false);
+  const [search, setSearch] = React.useState("");
+  const [page, setPage] = React.useState(1);
+  const [selected, setSelected] =
+    React.useState<AdminSupportTicketDetail | null>(null);
+  const [loadingDetailId, setLoadingDetailId] = React.useState<string | null>(
+    null
+  );
+  const [reply, setReply] = React.useState("");
+  const [isInternal, setIsInternal] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+
+  const loadQueue = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await adminSupportService.getTickets({
+        status: statusFilter === "ALL" ? undefined : statusFilter,
+        assignedTo: assignedFilter || undefined,
+        breached: breachedOnly || undefined,
+        search: search.trim() || undefined,
+        page,
+      });
+      setQueue(data);
+    } catch (loadError) {
+      setError(errorMessage(loadError, "Failed to load support tickets."));
+    } finally {
+      setLoading(false);
+    }
+  }, [assignedFilter, breachedOnly, page, search, statusFilter]);
+
+  React.useEffect(() => {
+    void loadQueue();
+  }, [loadQueue]);
+
+  React.useEffect(() => {
+    adminSupportService
+      .getAgents()
+      .then(setAgents)
+      .catch(() => setAgents([]));
+  }, []);
+
+  const tickets = queue?.data ?? [];
+
+  const openTicket = async (ticketId: string) => {
+    try {
+      setLoadingDetailId(ticketId);
+      const detail = await adminSupportService.getTicket(ticketId);
+      setSelected(detail);
+      setReply("");
+      setIsInternal(false);
+    } catch (detailError) {
+      setError(errorMessage(detailError, "Failed to load ticket."));
+    } finally {
+      setLoadingDetailId(null);
+    }
+  };
+
+  // Runs an update against the open ticket, then refreshes it and the queue
+  const runAction = async (action: (ticketId: string) => Promise<void>) => {
+    if (!selected) return;
+    try {
+      setSaving(true);
+      setError(null);
+      await action(selected.id);
+      const [detail] = await Promise.all([
+        adminSupportService.getTicket(selected.id),
+        loadQueue(),
+      ]);
+      setSelected(detail);
+    } catch (actionError) {
+      setError(errorMessage(actionError, "Failed to update ticket."));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sendReply = () =>
+    runAction(async (ticketId) => {
+      await adminSupportService.reply(ticketId, {
+        message: reply.trim(),
+        isInternal,
+      });
+      setReply("");
+    });
+
+  const stats = queue?.stats;
+  const pagination = queue?.pagination;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+        {[
+          { label: "Open", value: stats?.open },
+          { label: "In progress", value: stats?.inProgress },
+          { label: "Unassigned", value: stats?.unassigned },
+          { label: "Past SLA", value: stats?.breached, alert: true },
+        ].map((stat) => (
+          <Card key={stat.label} className="p-4">
+            <p className="text-xs uppercase text-gray-500">{stat.label}</p>
+            <p
+              className={`text-2xl font-semibold ${
+                stat.alert && stat.value ? "text-red-600" : "text-gray-900"
+              }`}
+            >
+              {stat.value ?? "—"}
+            </p>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="p-6">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+          <div className="flex flex-col gap-2 sm:flex-row sm:flex-wrap sm:items-center">
+            <select
+              value={statusFilter}
+              onChange={(event) => {
+                setStatusFilter(event.target.value as typeof statusFilter);
+                setPage(1);
+              }}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="ALL">All statuses</option>
+              <option value="OPEN">Open</option>
+              <option value="IN_PROGRESS">In progress</option>
+              <option value="RESOLVED">Resolved</option>
+              <option value="CLOSED">Closed</option>
+            </select>
+            <select
+              value={assignedFilter}
+              onChange={(event) => {
+                setAssignedFilter(event.target.value);
+                setPage(1);
+              }}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="">Anyone</option>
+              <option value="me">Assigned to me</option>
+              <option value="unassigned">Unassigned</option>
+              {agents.map((agent) => (
+                <option key={agent.id} value={agent.id}>
+                  {personName(agent)}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={breachedOnly}
+                onChange={(event) => {
+                  setBreachedOnly(event.target.checked);
+                  setPage(1);
+                }}
+              />
+              Past SLA only
+            </label>
+            <input
+              type="text"
+              placeholder="Search subject, email, ticket or booking id..."
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") {
+                  setPage(1);
+                  void loadQueue();
+                }
+              }}
+              className="min-w-[260px] rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            />
+          </div>
+          <Button size="sm" variant="outline" onClick={() => void loadQueue()}>
+            Refresh Queue
+          </Button>
+        </div>
+      </Card>
+
+      {error ? (
+        <Card className="border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </Card>
+      ) : null}
+
+      <Card className="overflow-hidden">
+        <div className="border-b border-gray-200 px-6 py-4">
+          <h2 className="text-lg font-semibold text-gray-900">Support Queue</h2>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center px-6 py-12 text-gray-500">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+            Loading tickets...
+          </div>
+        ) : tickets.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">
+            No tickets found for this filter.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Ticket", "Requester", "Priority", "SLA", "Assignee", "Status", "Action"].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-6 py-3 text-left text-xs font-semibold uppercase text-gray-500"
+                      >
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {tickets.map((ticket) => (
+                  <tr key={ticket.id}>
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-semibold text-gray-900">
+                        {ticket.subject}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {SUPPORT_CATEGORY_LABELS[ticket.category]}
+                        {ticket.booking?.property?.title
+                          ? ` · ${ticket.booking.property.title}`
+                          : ""}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {personName(ticket.requester)}
+                      <p className="text-xs text-gray-500">
+                        {ticket.requester.role?.toLowerCase()}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`inline-flex rounded-full px-2 py-1 text-xs font-semibold ${priorityStyles[ticket.priority]}`}
+                      >
+                        {ticket.priority}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {isBreached(ticket) ? (
+                        <span className="inline-flex items-center gap-1 font-medium text-red-600">
+                          <AlertTriangle className="h-4 w-4" />
+                          Past SLA
+                        </span>
+                      ) : (
+                        dueLabel(ticket)
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {personName(ticket.assignedAdmin)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <SupportStatusBadge status={ticket.status} />
+                    </td>
+                    <td className="px-6 py-4">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => void openTicket(ticket.id)}
+                        loading={loadingDetailId === ticket.id}
+                      >
+                        <Eye className="mr-2 h-4 w-4" />
+                        View
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {pagination && pagination.totalPages > 1 ? (
+          <div className="flex items-center justify-between border-t border-gray-200 px-6 py-3 text-sm text-gray-600">
+            <span>
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!pagination.hasPrev}
+                onClick={() => setPage((current) => current - 1)}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!pagination.hasNext}
+                onClick={() => setPage((current) => current + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </Card>
+
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 px-4">
+          <div className="max-h-[92vh] w-full max-w-3xl overflow-y-auto rounded-2xl bg-white p-6 shadow-xl">
+            <div className="mb-5 flex items-start justify-between">
+              <div>
+                <h3 className="text-xl font-semibold text-gray-900">
+                  {selected.subject}
+                </h3>
+                <p className="text-sm text-gray-500">{selected.id}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => !saving && setSelected(null)}
+                className="rounded-lg px-3 py-1 text-sm text-gray-500 hover:bg-gray-100"
+              >
+                Close
+              </button>
+            </div>
+
+            <div className="grid gap-4 rounded-lg border border-gray-200 p-4 text-sm text-gray-700 md:grid-cols-3">
+              <div>
+                <p className="text-xs uppercase text-gray-500">Requester</p>
+                <p className="font-semibold">{personName(selected.requester)}</p>
+                <p className="text-xs text-gray-500">{selected.requester.email}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500">Booking</p>
+                <p className="font-semibold">
+                  {selected.booking?.property?.title || "Not linked"}
+                </p>
+                {selected.bookingId ? (
+                  <p className="text-xs text-gray-500">{selected.bookingId}</p>
+                ) : null}
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500">Dispute</p>
+                <p className="font-semibold">
+                  {selected.dispute
+                    ? `${selected.dispute.category} (${selected.dispute.status})`
+                    : "Not linked"}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500">Priority</p>
+                <select
+                  value={selected.priority}
+                  disabled={saving}
+                  onChange={(event) =>
+                    void runAction((ticketId) =>
+                      adminSupportService.updateTicket(ticketId, {
+                        priority: event.target.value as SupportTicketPriority,
+                      })
+                    )
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                >
+                  <option value="LOW">Low</option>
+                  <option value="MEDIUM">Medium</option>
+                  <option value="HIGH">High</option>
+                </select>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500">Assignee</p>
+                <select
+                  value={selected.assignedAdmin?.id ?? ""}
+                  disabled={saving}
+                  onChange={(event) =>
+                    void runAction((ticketId) =>
+                      adminSupportService.assign(
+                        ticketId,
+                        event.target.value || null
+                      )
+                    )
+                  }
+                  className="mt-1 w-full rounded-lg border border-gray-300 px-2 py-1 text-sm"
+                >
+                  <option value="">Unassigned</option>
+                  {agents.map((agent) => (
+                    <option key={agent.id} value={agent.id}>
+                      {personName(agent)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500">Status</p>
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  <SupportStatusBadge status={selected.status} />
+                  {STATUS_ACTIONS[selected.status].map((action) => (
+                    <Button
+                      key={action.status}
+                      size="sm"
+                      variant="outline"
+                      disabled={saving}
+                      onClick={() =>
+                        void runAction((ticketId) =>
+                          adminSupportService.updateStatus(
+                            ticketId,
+                            action.status
+                          )
+                        )
+                      }
+                    >
+                      {action.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4 rounded-lg border border-gray-200 p-4 text-sm text-gray-700">
+              <p className="mb-1 text-xs uppercase text-gray-500">
+                {SUPPORT_CATEGORY_LABELS[selected.category]} · opened{" "}
+                {new Date(selected.createdAt).toLocaleString()}
+              </p>
+              <p className="whitespace-pre-wrap">{selected.description}</p>
+              <SupportAttachmentList attachments={selected.attachments} />
+            </div>
+
+            <div className="mt-4 space-y-3">
+              {selected.messages.map((message) => (
+                <div
+                  key={message.id}
+                  className={`rounded-lg border p-3 text-sm ${
+                    message.isInternal
+                      ? "border-amber-200 bg-amber-50"
+                      : message.isFromUser
+                      ? "border-gray-200 bg-white"
+                      : "border-blue-100 bg-blue-50"
+                  }`}
+                >
+                  <p className="mb-1 flex items-center gap-1 text-xs text-gray-500">
+                    {message.isInternal ? <Lock className="h-3 w-3" /> : null}
+                    {personName(message.author)} ·{" "}
+                    {new Date(message.createdAt).toLocaleString()}
+                    {message.isInternal ? " · internal note" : ""}
+                  </p>
+                  {message.content ? (
+                    <p className="whitespace-pre-wrap text-gray-800">
+                      {message.content}
+                    </p>
+                  ) : null}
+                  <SupportAttachmentList attachments={message.attachments} />
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-6 space-y-3 rounded-lg border border-gray-200 p-4">
+              <textarea
+                value={reply}
+                onChange={(event) => setReply(event.target.value)}
+                rows={4}
+                placeholder={
+                  isInternal
+                    ? "Internal note, only visible to admins..."
+                    : "Reply to the requester..."
+                }
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={isInternal}
+                    onChange={(event) => setIsInternal(event.target.checked)}
+                  />
+                  Internal note
+                </label>
+                <Button
+                  size="sm"
+                  loading={saving}
+                  disabled={!reply.trim()}
+                  onClick={() => void sendReply()}
+                >
+                  {isInternal ? "Add Note" : "Send Reply"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
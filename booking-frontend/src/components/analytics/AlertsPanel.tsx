@@ -1,443 +1,430 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
 import {
   AlertTriangle,
   AlertCircle,
-  TrendingDown,
-  TrendingUp,
   Calendar,
-  DollarSign,
-  Users,
   Star,
-  X,
   Bell,
   BellOff,
-  Filter,
   Clock,
   CheckCircle,
+  CheckCheck,
+  MessageSquare,
+  Settings,
+  XCircle,
 } from "lucide-react";
-import { PropertyAnalytics } from "@/types/analytics";
+import {
+  AnalyticsAlert,
+  AnalyticsAlertRule,
+  AnalyticsAlertSeverity,
+  AnalyticsAlertType,
+  analyticsAlertService,
+} from "@/services/analyticsAlerts";
 
 interface AlertsPanelProps {
-  analytics: PropertyAnalytics;
   propertyId: string;
 }
 
-type AlertSeverity = "critical" | "warning" | "info";
-type AlertCategory = "occupancy" | "revenue" | "guest" | "review" | "booking";
-
-interface Alert {
-  id: string;
-  severity: AlertSeverity;
-  category: AlertCategory;
-  title: string;
-  message: string;
-  value?: number;
-  threshold?: number;
-  trend?: "up" | "down" | "stable";
-  timestamp: Date;
-  isRead: boolean;
-  actionRequired: boolean;
-}
+type StatusView = "ACTIVE" | "RESOLVED";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+const RULE_COPY: Record<
+  AnalyticsAlertType,
+  { label: string; icon: React.ElementType; threshold: string; window: string }
+> = {
+  LOW_OCCUPANCY: {
+    label: "Low occupancy",
+    icon: Calendar,
+    threshold: "Alert when occupancy is below (%)",
+    window: "Looking ahead (days)",
+  },
+  RATING_DROP: {
+    label: "Rating drop",
+    icon: Star,
+    threshold: "Alert when recent reviews drop by (stars)",
+    window: "Recent reviews from the last (days)",
+  },
+  CANCELLATION_SPIKE: {
+    label: "Cancellation spike",
+    icon: XCircle,
+    threshold: "Alert when cancellations reach (%)",
+    window: "Bookings made in the last (days)",
+  },
+  UNANSWERED_INQUIRIES: {
+    label: "Unanswered inquiries",
+    icon: MessageSquare,
+    threshold: "Alert when unanswered inquiries reach",
+    window: "Without a reply for (days)",
+  },
+};
+
+const getSeverityConfig = (severity: AnalyticsAlertSeverity) =>
+  severity === "CRITICAL"
+    ? {
+        icon: AlertTriangle,
+        color: "text-red-600",
+        bgColor: "bg-red-50",
+        borderColor: "border-red-200",
+        badgeColor: "bg-red-100 text-red-800",
+      }
+    : {
+        icon: AlertCircle,
+        color: "text-yellow-600",
+        bgColor: "bg-yellow-50",
+        borderColor: "border-yellow-200",
+        badgeColor: "bg-yellow-100 text-yellow-800",
+      };
+
+const formatTimeAgo = (value: string) => {
+  const timestamp = new Date(value);
+  const diffMs = Date.now() - timestamp.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+
+  if (diffMins < 60) {
+    return `${diffMins}m ago`;
+  } else if (diffHours < 24) {
+    return `${diffHours}h ago`;
+  } else {
+    return timestamp.toLocaleDateString();
+  }
+};
+
+const AlertRuleRow: React.FC<{
+  rule: AnalyticsAlertRule;
+  onSaved: () => Promise<void>;
+}> = ({ rule, onSaved }) => {
+  const [threshold, setThreshold] = useState(String(rule.threshold));
+  const [windowDays, setWindowDays] = useState(String(rule.windowDays));
+  const copy = RULE_COPY[rule.type];
+  const Icon = copy.icon;
+
+  useEffect(() => {
+    setThreshold(String(rule.threshold));
+    setWindowDays(String(rule.windowDays));
+  }, [rule.threshold, rule.windowDays]);
+
+  const saveMutation = useMutation({
+    mutationFn: (isEnabled: boolean) =>
+      analyticsAlertService.saveRule(rule.propertyId, rule.type, {
+        threshold: Number(threshold),
+        windowDays: Number(windowDays),
+        isEnabled,
+      }),
+    onSuccess: async (_saved, isEnabled) => {
+      toast.success(
+        isEnabled ? `${rule.label} alert saved.` : `${rule.label} alert off.`
+      );
+      await onSaved();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to save alert rule."));
+    },
+  });
+
+  const isDirty =
+    Number(threshold) !== rule.threshold ||
+    Number(windowDays) !== rule.windowDays;
+
+  return (
+    <div className="flex flex-col gap-3 py-4 md:flex-row md:items-end">
+      <div className="flex items-center space-x-3 md:w-56">
+        <Icon className="h-5 w-5 text-gray-500" />
+        <div>
+          <p className="font-medium text-gray-900">{rule.label}</p>
+          <p className="text-xs text-gray-500">
+            {rule.isEnabled ? "On" : "Off"}
+          </p>
+        </div>
+      </div>
+
+      <label className="flex-1 text-xs text-gray-600">
+        {copy.threshold}
+        <input
+          type="number"
+          value={threshold}
+          min={rule.thresholdRange[0]}
+          max={rule.thresholdRange[1]}
+          step={rule.type === "RATING_DROP" ? 0.1 : 1}
+          onChange={(event) => setThreshold(event.target.value)}
+          className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+        />
+      </label>
+
+      <label className="flex-1 text-xs text-gray-600">
+        {copy.window}
+        <input
+          type="number"
+          value={windowDays}
+          min={rule.windowRange[0]}
+          max={rule.windowRange[1]}
+          step={1}
+          onChange={(event) => setWindowDays(event.target.value)}
+          className="mt-1 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+        />
+      </label>
+
+      <div className="flex gap-2">
+        {rule.isEnabled && isDirty ? (
+          <button
+            onClick={() => saveMutation.mutate(true)}
+            disabled={saveMutation.isLoading}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        ) : null}
+        <button
+          onClick={() => saveMutation.mutate(!rule.isEnabled)}
+          disabled={saveMutation.isLoading}
+          className={`rounded-lg border px-4 py-2 text-sm transition-colors disabled:opacity-50 ${
+            rule.isEnabled
+              ? "border-gray-300 text-gray-700 hover:bg-gray-50"
+              : "border-blue-600 text-blue-600 hover:bg-blue-50"
+          }`}
+        >
+          {rule.isEnabled ? "Turn Off" : "Turn On"}
+        </button>
+      </div>
+    </div>
+  );
+};
 
-export const AlertsPanel: React.FC<AlertsPanelProps> = ({
-  analytics,
-  propertyId,
-}) => {
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ propertyId }) => {
+  const queryClient = useQueryClient();
+  const [statusView, setStatusView] = useState<StatusView>("ACTIVE");
   const [selectedSeverity, setSelectedSeverity] = useState<
-    AlertSeverity | "all"
+    AnalyticsAlertSeverity | "all"
   >("all");
-  const [showRead, setShowRead] = useState(false);
-
-  // Generate alerts based on analytics data
-  const generateAlerts = (): Alert[] => {
-    const alerts: Alert[] = [];
-
-    // Occupancy alerts
-    if (analytics.occupancy.currentOccupancy.value < 50) {
-      alerts.push({
-        id: "low-occupancy",
-        severity: "critical",
-        category: "occupancy",
-        title: "Low Occupancy Rate",
-        message: `Current occupancy is ${analytics.occupancy.currentOccupancy.value.toFixed(
-          1
-        )}%, significantly below the target of 75%`,
-        value: analytics.occupancy.currentOccupancy.value,
-        threshold: 75,
-        trend: analytics.occupancy.currentOccupancy.trend,
-        timestamp: new Date(Date.now() - Math.random() * 3600000), // Random time in last hour
-        isRead: false,
-        actionRequired: true,
-      });
-    } else if (analytics.occupancy.currentOccupancy.value < 65) {
-      alerts.push({
-        id: "moderate-occupancy",
-        severity: "warning",
-        category: "occupancy",
-        title: "Below Target Occupancy",
-        message: `Occupancy at ${analytics.occupancy.currentOccupancy.value.toFixed(
-          1
-        )}% is below optimal range`,
-        value: analytics.occupancy.currentOccupancy.value,
-        threshold: 75,
-        trend: analytics.occupancy.currentOccupancy.trend,
-        timestamp: new Date(Date.now() - Math.random() * 7200000),
-        isRead: false,
-        actionRequired: true,
-      });
-    }
-
-    // Revenue alerts
-    if (analytics.revenue.revPAR.value < 90) {
-      alerts.push({
-        id: "low-revpar",
-        severity: "critical",
-        category: "revenue",
-        title: "Low RevPAR Performance",
-        message: `RevPAR of $${analytics.revenue.revPAR.value.toFixed(
-          0
-        )} is below optimal threshold`,
-        value: analytics.revenue.revPAR.value,
-        threshold: 112.5,
-        trend: analytics.revenue.revPAR.trend,
-        timestamp: new Date(Date.now() - Math.random() * 1800000),
-        isRead: false,
-        actionRequired: true,
-      });
-    }
-
-    if (analytics.revenue.averageDailyRate.trend === "down") {
-      alerts.push({
-        id: "declining-adr",
-        severity: "warning",
-        category: "revenue",
-        title: "Declining Average Daily Rate",
-        message: `ADR is trending downward from $${analytics.revenue.averageDailyRate.value.toFixed(
-          0
-        )}`,
-        value: analytics.revenue.averageDailyRate.value,
-        trend: "down",
-        timestamp: new Date(Date.now() - Math.random() * 5400000),
-        isRead: false,
-        actionRequired: false,
-      });
-    }
-
-    // Guest satisfaction alerts
-    if (analytics.guests.guestSatisfaction.rating < 4.0) {
-      alerts.push({
-        id: "low-satisfaction",
-        severity: "critical",
-        category: "guest",
-        title: "Low Guest Satisfaction",
-        message: `Guest satisfaction score of ${analytics.guests.guestSatisfaction.rating.toFixed(
-          1
-        )} needs immediate attention`,
-        value: analytics.guests.guestSatisfaction.rating,
-        threshold: 4.5,
-        trend: analytics.guests.guestSatisfaction.trend,
-        timestamp: new Date(Date.now() - Math.random() * 10800000),
-        isRead: false,
-        actionRequired: true,
-      });
-    } else if (analytics.guests.guestSatisfaction.rating < 4.3) {
-      alerts.push({
-        id: "moderate-satisfaction",
-        severity: "warning",
-        category: "guest",
-        title: "Guest Satisfaction Below Target",
-        message: `Current satisfaction score of ${analytics.guests.guestSatisfaction.rating.toFixed(
-          1
-        )} could be improved`,
-        value: analytics.guests.guestSatisfaction.rating,
-        threshold: 4.5,
-        trend: analytics.guests.guestSatisfaction.trend,
-        timestamp: new Date(Date.now() - Math.random() * 14400000),
-        isRead: false,
-        actionRequired: false,
-      });
-    }
-
-    // Review alerts
-    if (analytics.reviews.averageRating.value < 4.3) {
-      alerts.push({
-        id: "low-reviews",
-        severity:
-          analytics.reviews.averageRating.value < 4.0 ? "critical" : "warning",
-        category: "review",
-        title: "Review Rating Below Target",
-        message: `Average review rating of ${analytics.reviews.averageRating.value.toFixed(
-          1
-        )} may impact bookings`,
-        value: analytics.reviews.averageRating.value,
-        threshold: 4.7,
-        trend: analytics.reviews.averageRating.trend,
-        timestamp: new Date(Date.now() - Math.random() * 18000000),
-        isRead: false,
-        actionRequired: analytics.reviews.averageRating.value < 4.0,
-      });
-    }
-
-    if (analytics.reviews.responseRate.value < 80) {
-      alerts.push({
-        id: "low-response-rate",
-        severity: "warning",
-        category: "review",
-        title: "Low Review Response Rate",
-        message: `Only ${analytics.reviews.responseRate.value.toFixed(
-          1
-        )}% of reviews have responses`,
-        value: analytics.reviews.responseRate.value,
-        threshold: 90,
-        timestamp: new Date(Date.now() - Math.random() * 21600000),
-        isRead: false,
-        actionRequired: false,
-      });
-    }
-
-    // Booking alerts
-    if (analytics.bookings.cancellationRate.value > 10) {
-      alerts.push({
-        id: "high-cancellation",
-        severity:
-          analytics.bookings.cancellationRate.value > 15
-            ? "critical"
-            : "warning",
-        category: "booking",
-        title: "High Cancellation Rate",
-        message: `Cancellation rate of ${analytics.bookings.cancellationRate.value.toFixed(
-          1
-        )}% is above acceptable threshold`,
-        value: analytics.bookings.cancellationRate.value,
-        threshold: 5,
-        trend: analytics.bookings.cancellationRate.trend,
-        timestamp: new Date(Date.now() - Math.random() * 25200000),
-        isRead: false,
-        actionRequired: analytics.bookings.cancellationRate.value > 15,
-      });
-    }
-
-    // Positive alerts (info)
-    if (analytics.occupancy.currentOccupancy.value > 85) {
-      alerts.push({
-        id: "high-occupancy",
-        severity: "info",
-        category: "occupancy",
-        title: "Excellent Occupancy Rate",
-        message: `Outstanding occupancy of ${analytics.occupancy.currentOccupancy.value.toFixed(
-          1
-        )}%`,
-        value: analytics.occupancy.currentOccupancy.value,
-        timestamp: new Date(Date.now() - Math.random() * 28800000),
-        isRead: true,
-        actionRequired: false,
-      });
-    }
-
-    if (analytics.reviews.averageRating.value >= 4.7) {
-      alerts.push({
-        id: "excellent-reviews",
-        severity: "info",
-        category: "review",
-        title: "Excellent Review Rating",
-        message: `Outstanding review rating of ${analytics.reviews.averageRating.value.toFixed(
-          1
-        )}`,
-        value: analytics.reviews.averageRating.value,
-        timestamp: new Date(Date.now() - Math.random() * 32400000),
-        isRead: true,
-        actionRequired: false,
-      });
-    }
-
-    return alerts.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-  };
+  const [showMuted, setShowMuted] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+
+  const alertsQueryKey = [
+    "analytics-alerts",
+    propertyId,
+    statusView,
+    showMuted,
+  ];
+  const rulesQueryKey = ["analytics-alert-rules", propertyId];
+
+  const { data: alertList, isLoading } = useQuery({
+    queryKey: alertsQueryKey,
+    queryFn: () =>
+      analyticsAlertService.getAlerts({
+        propertyId,
+        status: statusView,
+        includeMuted: showMuted,
+        limit: 50,
+      }),
+    enabled: Boolean(propertyId),
+  });
 
-  const alerts = generateAlerts();
+  const { data: rules = [] } = useQuery({
+    queryKey: rulesQueryKey,
+    queryFn: () => analyticsAlertService.getRules(propertyId),
+    enabled: Boolean(propertyId) && showRules,
+  });
 
-  // Filter alerts
-  const filteredAlerts = alerts.filter((alert) => {
-    if (selectedSeverity !== "all" && alert.severity !== selectedSeverity)
-      return false;
-    if (!showRead && alert.isRead) return false;
-    return true;
+  const refreshAlerts = () =>
+    queryClient.invalidateQueries(["analytics-alerts", propertyId]);
+
+  const readMutation = useMutation({
+    mutationFn: (alertId: string) => analyticsAlertService.markRead(alertId),
+    onSuccess: refreshAlerts,
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to update alert."));
+    },
   });
 
-  // Get severity configuration
-  const getSeverityConfig = (severity: AlertSeverity) => {
-    switch (severity) {
-      case "critical":
-        return {
-          icon: AlertTriangle,
-          color: "text-red-600",
-          bgColor: "bg-red-50",
-          borderColor: "border-red-200",
-          badgeColor: "bg-red-100 text-red-800",
-        };
-      case "warning":
-        return {
-          icon: AlertCircle,
-          color: "text-yellow-600",
-          bgColor: "bg-yellow-50",
-          borderColor: "border-yellow-200",
-          badgeColor: "bg-yellow-100 text-yellow-800",
-        };
-      case "info":
-        return {
-          icon: CheckCircle,
-          color: "text-blue-600",
-          bgColor: "bg-blue-50",
-          borderColor: "border-blue-200",
-          badgeColor: "bg-blue-100 text-blue-800",
-        };
-    }
-  };
+  const readAllMutation = useMutation({
+    mutationFn: () => analyticsAlertService.markAllRead(propertyId),
+    onSuccess: refreshAlerts,
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to update alerts."));
+    },
+  });
 
-  // Get category icon
-  const getCategoryIcon = (category: AlertCategory) => {
-    switch (category) {
-      case "occupancy":
-        return Calendar;
-      case "revenue":
-        return DollarSign;
-      case "guest":
-        return Users;
-      case "review":
-        return Star;
-      case "booking":
-        return Calendar;
-    }
-  };
+  const muteMutation = useMutation({
+    mutationFn: ({ alertId, muted }: { alertId: string; muted: boolean }) =>
+      analyticsAlertService.setMuted(alertId, muted),
+    onSuccess: async (_alert, { muted }) => {
+      toast.success(
+        muted
+          ? "Alert muted. You will not be notified if it gets worse."
+          : "Alert unmuted."
+      );
+      await refreshAlerts();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to update alert."));
+    },
+  });
 
-  // Format time ago
-  const formatTimeAgo = (timestamp: Date) => {
-    const now = new Date();
-    const diffMs = now.getTime() - timestamp.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-
-    if (diffMins < 60) {
-      return `${diffMins}m ago`;
-    } else if (diffHours < 24) {
-      return `${diffHours}h ago`;
-    } else {
-      return timestamp.toLocaleDateString();
-    }
+  const handleRuleSaved = async () => {
+    await Promise.all([
+      queryClient.invalidateQueries(rulesQueryKey),
+      refreshAlerts(),
+    ]);
   };
 
-  // Count alerts by severity
+  const alerts = alertList?.data ?? [];
+  const filteredAlerts = alerts.filter(
+    (alert) => selectedSeverity === "all" || alert.severity === selectedSeverity
+  );
+  const isUnread = (alert: AnalyticsAlert) => !alert.readAt;
+
   const alertCounts = {
-    critical: alerts.filter((a) => a.severity === "critical" && !a.isRead)
-      .length,
-    warning: alerts.filter((a) => a.severity === "warning" && !a.isRead).length,
-    info: alerts.filter((a) => a.severity === "info" && !a.isRead).length,
+    critical: alerts.filter((a) => a.severity === "CRITICAL").length,
+    warning: alerts.filter((a) => a.severity === "WARNING").length,
+    unread: alerts.filter(isUnread).length,
   };
 
+  const summaryCards: {
+    id: AnalyticsAlertSeverity | "all";
+    label: string;
+    count: number;
+    icon: React.ElementType;
+    active: string;
+    idle: string;
+    text: string;
+  }[] = [
+    {
+      id: "CRITICAL",
+      label: "Critical",
+      count: alertCounts.critical,
+      icon: AlertTriangle,
+      active: "bg-red-50 border-red-200",
+      idle: "bg-white border-gray-200 hover:bg-red-50",
+      text: "text-red-600",
+    },
+    {
+      id: "WARNING",
+      label: "Warning",
+      count: alertCounts.warning,
+      icon: AlertCircle,
+      active: "bg-yellow-50 border-yellow-200",
+      idle: "bg-white border-gray-200 hover:bg-yellow-50",
+      text: "text-yellow-600",
+    },
+    {
+      id: "all",
+      label: statusView === "ACTIVE" ? "Active Alerts" : "Resolved Alerts",
+      count: alerts.length,
+      icon: Bell,
+      active: "bg-gray-50 border-gray-300",
+      idle: "bg-white border-gray-200 hover:bg-gray-50",
+      text: "text-gray-900",
+    },
+  ];
+
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">
             Alerts & Notifications
           </h2>
           <p className="text-gray-600">
-            Monitor critical issues and performance insights
+            Checked every hour against your alert rules. New and worsening
+            alerts are sent to your notifications.
           </p>
         </div>
 
-        <div className="flex items-center space-x-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={statusView}
+            onChange={(event) =>
+              setStatusView(event.target.value as StatusView)
+            }
+            className="rounded-lg border border-gray-200 px-3 py-2 text-sm"
+          >
+            <option value="ACTIVE">Active</option>
+            <option value="RESOLVED">Resolved</option>
+          </select>
           <button
-            onClick={() => setShowRead(!showRead)}
+            onClick={() => setShowMuted(!showMuted)}
             className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors ${
-              showRead
+              showMuted
                 ? "bg-gray-50 border-gray-300 text-gray-700"
                 : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50"
             }`}
           >
-            {showRead ? (
-              <BellOff className="h-4 w-4" />
-            ) : (
-              <Bell className="h-4 w-4" />
-            )}
+            <BellOff className="h-4 w-4" />
             <span className="text-sm">
-              {showRead ? "Hide Read" : "Show All"}
+              {showMuted ? "Hide Muted" : "Show Muted"}
             </span>
           </button>
+          <button
+            onClick={() => readAllMutation.mutate()}
+            disabled={alertCounts.unread === 0 || readAllMutation.isLoading}
+            className="flex items-center space-x-2 px-4 py-2 rounded-lg border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <CheckCheck className="h-4 w-4" />
+            <span className="text-sm">Mark All Read</span>
+          </button>
+          <button
+            onClick={() => setShowRules(!showRules)}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg border transition-colors ${
+              showRules
+                ? "bg-blue-50 border-blue-200 text-blue-700"
+                : "bg-white border-gray-200 text-gray-600 hover:bg-gray-50"
+            }`}
+          >
+            <Settings className="h-4 w-4" />
+            <span className="text-sm">Alert Rules</span>
+          </button>
         </div>
       </div>
 
-      {/* Summary Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <motion.button
-          onClick={() => setSelectedSeverity("critical")}
-          className={`p-4 rounded-lg border text-left transition-colors ${
-            selectedSeverity === "critical"
-              ? "bg-red-50 border-red-200"
-              : "bg-white border-gray-200 hover:bg-red-50"
-          }`}
-        >
-          <div className="flex items-center justify-between">
-            <AlertTriangle className="h-6 w-6 text-red-600" />
-            <span className="text-2xl font-bold text-red-600">
-              {alertCounts.critical}
-            </span>
-          </div>
-          <p className="text-sm font-medium text-red-800 mt-1">Critical</p>
-        </motion.button>
-
-        <motion.button
-          onClick={() => setSelectedSeverity("warning")}
-          className={`p-4 rounded-lg border text-left transition-colors ${
-            selectedSeverity === "warning"
-              ? "bg-yellow-50 border-yellow-200"
-              : "bg-white border-gray-200 hover:bg-yellow-50"
-          }`}
-        >
-          <div className="flex items-center justify-between">
-            <AlertCircle className="h-6 w-6 text-yellow-600" />
-            <span className="text-2xl font-bold text-yellow-600">
-              {alertCounts.warning}
-            </span>
-          </div>
-          <p className="text-sm font-medium text-yellow-800 mt-1">Warning</p>
-        </motion.button>
-
-        <motion.button
-          onClick={() => setSelectedSeverity("info")}
-          className={`p-4 rounded-lg border text-left transition-colors ${
-            selectedSeverity === "info"
-              ? "bg-blue-50 border-blue-200"
-              : "bg-white border-gray-200 hover:bg-blue-50"
-          }`}
-        >
-          <div className="flex items-center justify-between">
-            <CheckCircle className="h-6 w-6 text-blue-600" />
-            <span className="text-2xl font-bold text-blue-600">
-              {alertCounts.info}
-            </span>
-          </div>
-          <p className="text-sm font-medium text-blue-800 mt-1">Good News</p>
-        </motion.button>
-
-        <motion.button
-          onClick={() => setSelectedSeverity("all")}
-          className={`p-4 rounded-lg border text-left transition-colors ${
-            selectedSeverity === "all"
-              ? "bg-gray-50 border-gray-300"
-              : "bg-white border-gray-200 hover:bg-gray-50"
-          }`}
-        >
-          <div className="flex items-center justify-between">
-            <Bell className="h-6 w-6 text-gray-600" />
-            <span className="text-2xl font-bold text-gray-900">
-              {alertCounts.critical + alertCounts.warning + alertCounts.info}
-            </span>
+      {showRules && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900">Alert Rules</h3>
+          <p className="text-sm text-gray-600">
+            A breach twice as far past your threshold is marked critical.
+          </p>
+          <div className="divide-y divide-gray-100">
+            {rules.map((rule) => (
+              <AlertRuleRow
+                key={rule.type}
+                rule={rule}
+                onSaved={handleRuleSaved}
+              />
+            ))}
           </div>
-          <p className="text-sm font-medium text-gray-800 mt-1">All Alerts</p>
-        </motion.button>
+        </div>
+      )}
+
+      {/* Summary Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {summaryCards.map((card) => {
+          const Icon = card.icon;
+          return (
+            <motion.button
+              key={card.id}
+              onClick={() => setSelectedSeverity(card.id)}
+              className={`p-4 rounded-lg border text-left transition-colors ${
+                selectedSeverity === card.id ? card.active : card.idle
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <Icon className={`h-6 w-6 ${card.text}`} />
+                <span className={`text-2xl font-bold ${card.text}`}>
+                  {card.count}
+                </span>
+              </div>
+              <p className="text-sm font-medium text-gray-800 mt-1">
+                {card.label}
+              </p>
+            </motion.button>
+          );
+        })}
       </div>
 
       {/* Alerts List */}
@@ -445,7 +432,6 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
         <AnimatePresence mode="popLayout">
           {filteredAlerts.map((alert, index) => {
             const severityConfig = getSeverityConfig(alert.severity);
-            const CategoryIcon = getCategoryIcon(alert.category);
             const SeverityIcon = severityConfig.icon;
 
             return (
@@ -457,7 +443,7 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
                 transition={{ delay: index * 0.05 }}
                 className={`bg-white rounded-lg border p-4 ${
                   severityConfig.borderColor
-                } ${alert.isRead ? "opacity-75" : ""}`}
+                } ${isUnread(alert) ? "" : "opacity-75"}`}
               >
                 <div className="flex items-start justify-between">
                   <div className="flex items-start space-x-4 flex-1">
@@ -468,18 +454,23 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
                     </div>
 
                     <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
                         <h3 className="text-lg font-semibold text-gray-900">
-                          {alert.title}
+                          {RULE_COPY[alert.type].label}
                         </h3>
                         <span
                           className={`text-xs font-medium px-2 py-1 rounded-full ${severityConfig.badgeColor}`}
                         >
-                          {alert.severity.toUpperCase()}
+                          {alert.severity}
                         </span>
-                        {alert.actionRequired && (
-                          <span className="text-xs font-medium px-2 py-1 rounded-full bg-red-100 text-red-800">
-                            ACTION REQUIRED
+                        {alert.mutedAt && (
+                          <span className="text-xs font-medium px-2 py-1 rounded-full bg-gray-100 text-gray-600">
+                            MUTED
+                          </span>
+                        )}
+                        {alert.status === "RESOLVED" && (
+                          <span className="text-xs font-medium px-2 py-1 rounded-full bg-green-100 text-green-700">
+                            RESOLVED
                           </span>
                         )}
                       </div>
@@ -487,68 +478,64 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
                       <p className="text-gray-700 mb-2">{alert.message}</p>
 
                       <div className="flex items-center space-x-4 text-sm text-gray-500">
-                        <div className="flex items-center space-x-1">
-                          <CategoryIcon className="h-4 w-4" />
-                          <span className="capitalize">{alert.category}</span>
-                        </div>
                         <div className="flex items-center space-x-1">
                           <Clock className="h-4 w-4" />
-                          <span>{formatTimeAgo(alert.timestamp)}</span>
+                          <span>
+                            Triggered {formatTimeAgo(alert.triggeredAt)}
+                          </span>
                         </div>
-                        {alert.trend && (
+                        {alert.resolvedAt ? (
                           <div className="flex items-center space-x-1">
-                            {alert.trend === "up" ? (
-                              <TrendingUp className="h-4 w-4 text-green-600" />
-                            ) : alert.trend === "down" ? (
-                              <TrendingDown className="h-4 w-4 text-red-600" />
-                            ) : null}
-                            <span className="capitalize">
-                              {alert.trend}ward
+                            <CheckCircle className="h-4 w-4 text-green-600" />
+                            <span>
+                              Resolved {formatTimeAgo(alert.resolvedAt)}
                             </span>
                           </div>
+                        ) : (
+                          <span>
+                            Checked {formatTimeAgo(alert.lastEvaluatedAt)}
+                          </span>
                         )}
                       </div>
-
-                      {alert.value !== undefined &&
-                        alert.threshold !== undefined && (
-                          <div className="mt-3 p-3 bg-gray-50 rounded-lg">
-                            <div className="flex justify-between items-center text-sm">
-                              <span className="font-medium">
-                                Current:{" "}
-                                {alert.category === "revenue"
-                                  ? `$${alert.value.toFixed(0)}`
-                                  : alert.category === "review" ||
-                                    alert.category === "guest"
-                                  ? alert.value.toFixed(1)
-                                  : `${alert.value.toFixed(1)}%`}
-                              </span>
-                              <span className="text-gray-600">
-                                Target:{" "}
-                                {alert.category === "revenue"
-                                  ? `$${alert.threshold.toFixed(0)}`
-                                  : alert.category === "review" ||
-                                    alert.category === "guest"
-                                  ? alert.threshold.toFixed(1)
-                                  : `${alert.threshold.toFixed(1)}%`}
-                              </span>
-                            </div>
-                          </div>
-                        )}
                     </div>
                   </div>
 
-                  {!alert.isRead && (
-                    <button className="p-1 text-gray-400 hover:text-gray-600">
-                      <X className="h-4 w-4" />
-                    </button>
-                  )}
+                  <div className="flex items-center space-x-1">
+                    {isUnread(alert) && (
+                      <button
+                        onClick={() => readMutation.mutate(alert.id)}
+                        className="p-1 text-gray-400 hover:text-gray-600"
+                        title="Mark as read"
+                      >
+                        <CheckCheck className="h-4 w-4" />
+                      </button>
+                    )}
+                    {alert.status === "ACTIVE" && (
+                      <button
+                        onClick={() =>
+                          muteMutation.mutate({
+                            alertId: alert.id,
+                            muted: !alert.mutedAt,
+                          })
+                        }
+                        className="p-1 text-gray-400 hover:text-gray-600"
+                        title={alert.mutedAt ? "Unmute" : "Mute"}
+                      >
+                        {alert.mutedAt ? (
+                          <Bell className="h-4 w-4" />
+                        ) : (
+                          <BellOff className="h-4 w-4" />
+                        )}
+                      </button>
+                    )}
+                  </div>
                 </div>
               </motion.div>
             );
           })}
         </AnimatePresence>
 
-        {filteredAlerts.length === 0 && (
+        {!isLoading && filteredAlerts.length === 0 && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -559,11 +546,9 @@ export const AlertsPanel: React.FC<AlertsPanelProps> = ({
               No alerts to display
             </h3>
             <p className="text-gray-600">
-              {selectedSeverity === "all"
-                ? showRead
-                  ? "All caught up! No alerts at the moment."
-                  : "No unread alerts. Toggle 'Show All' to see read alerts."
-                : `No ${selectedSeverity} alerts to show.`}
+              {statusView === "ACTIVE"
+                ? "All caught up! Turn on alert rules to be told when something needs attention."
+                : "No resolved alerts yet."}
             </p>
           </motion.div>
         )}
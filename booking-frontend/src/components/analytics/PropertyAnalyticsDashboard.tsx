@@ -572,7 +572,7 @@ export const PropertyAnalyticsDashboard: React.FC<
               )}
 
               {activeView === "alerts" && (
-                <AlertsPanel analytics={analytics} propertyId={propertyId} />
+                <AlertsPanel propertyId={propertyId} />
               )}
 
               {activeView === "market" && (
@@ -0,0 +1,166 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import { formatDistanceToNow } from "date-fns";
+import { LogOut, Monitor, Smartphone } from "lucide-react";
+import { authService } from "@/services/auth";
+import { useAuthStore } from "@/store/authStore";
+import { Button, Card } from "@/components/ui";
+
+interface ActiveSessionsPanelProps {
+  // Called after "sign out everywhere" has cleared the local session
+  onSignedOutEverywhere: () => void;
+}
+
+const SESSIONS_QUERY_KEY = ["auth-sessions"];
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Chrome\//, "Chrome"],
+  [/Firefox\//, "Firefox"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return [browser, platform].filter(Boolean).join(" on ") || "Unknown device";
+};
+
+const isMobile = (userAgent: string | null) =>
+  Boolean(userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent));
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+export default function ActiveSessionsPanel({
+  onSignedOutEverywhere,
+}: ActiveSessionsPanelProps) {
+  const queryClient = useQueryClient();
+  const logoutAll = useAuthStore((state) => state.logoutAll);
+
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: SESSIONS_QUERY_KEY,
+    queryFn: authService.getSessions,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (sessionId: string) => authService.revokeSession(sessionId),
+    onSuccess: async () => {
+      toast.success("Device signed out.");
+      await queryClient.invalidateQueries(SESSIONS_QUERY_KEY);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to sign out that device."));
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: logoutAll,
+    onSuccess: () => {
+      toast.success("Signed out of all devices.");
+      onSignedOutEverywhere();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to sign out everywhere."));
+    },
+  });
+
+  const handleLogoutAll = () => {
+    if (
+      window.confirm(
+        "Sign out of every device, including this one? You will need to sign in again."
+      )
+    ) {
+      logoutAllMutation.mutate();
+    }
+  };
+
+  return (
+    <Card className="rounded-2xl border border-gray-200 bg-white p-6">
+      <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Your Devices</h3>
+          <p className="text-sm text-gray-600">
+            Devices currently signed in to your account. Sign out any you do
+            not recognise.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleLogoutAll}
+          loading={logoutAllMutation.isLoading}
+        >
+          <LogOut className="mr-1 h-4 w-4" />
+          Sign out everywhere
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading devices...</p>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sessions.map((session) => {
+            const DeviceIcon = isMobile(session.userAgent)
+              ? Smartphone
+              : Monitor;
+            return (
+              <li
+                key={session.id}
+                className="flex items-center justify-between gap-3 py-3"
+              >
+                <div className="flex items-center gap-3">
+                  <DeviceIcon className="h-5 w-5 text-gray-500" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {describeDevice(session.userAgent)}
+                      {session.current ? (
+                        <span className="ml-2 rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-700">
+                          This device
+                        </span>
+                      ) : null}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress || "Unknown location"} · Active{" "}
+                      {formatDistanceToNow(new Date(session.lastUsedAt), {
+                        addSuffix: true,
+                      })}
+                    </p>
+                  </div>
+                </div>
+                {/* This device signs out through the regular logout */}
+                {session.current ? null : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isLoading}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import React from "react";
+import { toast } from "react-hot-toast";
+import { Copy, Download } from "lucide-react";
+import { Button } from "@/components/ui";
+
+interface RecoveryCodesNoticeProps {
+  codes: string[];
+}
+
+/**
+ * One-time display of freshly generated recovery codes. The server only
+ * keeps hashes, so this is the user's only chance to save them.
+ */
+export default function RecoveryCodesNotice({ codes }: RecoveryCodesNoticeProps) {
+  const text = codes.join("\n");
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success("Recovery codes copied.");
+    } catch {
+      toast.error("Unable to copy. Select the codes and copy them manually.");
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "stayza-recovery-codes.txt";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-xl border border-amber-200 bg-amber-50 p-4">
+      <p className="text-sm font-medium text-amber-900">
+        Save your recovery codes
+      </p>
+      <p className="mb-3 text-xs text-amber-800">
+        Each code signs you in once if you lose your phone. They will not be
+        shown again.
+      </p>
+      <ul className="mb-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <li key={code} className="rounded bg-white px-2 py-1 text-center">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={handleCopy}>
+          <Copy className="mr-1 h-4 w-4" />
+          Copy
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleDownload}>
+          <Download className="mr-1 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
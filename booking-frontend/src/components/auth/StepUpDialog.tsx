@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+import { toast } from "react-hot-toast";
+import { ShieldCheck } from "lucide-react";
+import { authService } from "@/services/auth";
+import { useStepUpStore } from "@/store/stepUpStore";
+import { Button } from "@/components/ui";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/**
+ * Prompt for an authenticator code before payout, withdrawal and finance
+ * setting changes. Mounted once; opened by the API client.
+ */
+export default function StepUpDialog() {
+  const isOpen = useStepUpStore((state) => state.isOpen);
+  const settle = useStepUpStore((state) => state.settle);
+  const [code, setCode] = React.useState("");
+  const [isVerifying, setIsVerifying] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setCode("");
+      setError("");
+    }
+  }, [isOpen]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsVerifying(true);
+    setError("");
+
+    try {
+      await authService.verifyStepUp(code.trim());
+      toast.success("Verified.");
+      settle(true);
+    } catch (verifyError) {
+      setError(getErrorMessage(verifyError, "Invalid authentication code."));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4 backdrop-blur-sm">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm rounded-2xl border border-gray-100 bg-white p-6 shadow-2xl"
+      >
+        <div className="mb-4 flex items-start gap-3">
+          <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-blue-50">
+            <ShieldCheck className="h-5 w-5 text-blue-600" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Confirm it&apos;s you
+            </h3>
+            <p className="text-sm text-gray-600">
+              Enter the 6-digit code from your authenticator app, or one of
+              your recovery codes, to continue.
+            </p>
+          </div>
+        </div>
+
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          autoFocus
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="123456"
+          maxLength={11}
+          className="w-full rounded-lg border border-gray-300 px-3 py-2 text-center font-mono text-lg tracking-widest text-gray-900"
+        />
+        {error ? <p className="mt-2 text-sm text-red-600">{error}</p> : null}
+
+        <div className="mt-5 flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => settle(false)}
+            disabled={isVerifying}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" loading={isVerifying} disabled={!code.trim()}>
+            Verify
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import React from "react";
+import { ShieldCheck } from "lucide-react";
+import { authService, serviceUtils } from "@/services";
+import { useAuthStore } from "@/store/authStore";
+import { AuthResponse, TwoFactorChallenge, TwoFactorEnrollment } from "@/types";
+import { Button } from "@/components/ui";
+import RecoveryCodesNotice from "./RecoveryCodesNotice";
+import TwoFactorEnrollmentDetails from "./TwoFactorEnrollmentDetails";
+
+interface TwoFactorChallengeFormProps {
+  challenge: TwoFactorChallenge;
+  // Called once signed in (after any new recovery codes have been shown)
+  onComplete: (response: AuthResponse) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Second sign-in step for accounts with an authenticator app. Admins who
+ * have not enrolled one yet set it up here before their first session.
+ */
+export default function TwoFactorChallengeForm({
+  challenge,
+  onComplete,
+  onCancel,
+}: TwoFactorChallengeFormProps) {
+  const completeTwoFactorLogin = useAuthStore(
+    (state) => state.completeTwoFactorLogin
+  );
+  const [enrollment, setEnrollment] =
+    React.useState<TwoFactorEnrollment | null>(null);
+  const [code, setCode] = React.useState("");
+  const [error, setError] = React.useState("");
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [signedIn, setSignedIn] = React.useState<AuthResponse | null>(null);
+
+  React.useEffect(() => {
+    if (!challenge.setupRequired) {
+      return;
+    }
+
+    authService
+      .setupTwoFactorChallenge(challenge.challengeToken)
+      .then(setEnrollment)
+      .catch((setupError) =>
+        setError(serviceUtils.extractErrorMessage(setupError))
+      );
+  }, [challenge]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError("");
+
+    try {
+      const response = await completeTwoFactorLogin(
+        challenge.challengeToken,
+        code.trim()
+      );
+      if (response.recoveryCodes?.length) {
+        setSignedIn(response);
+      } else {
+        onComplete(response);
+      }
+    } catch (verifyError) {
+      setError(serviceUtils.extractErrorMessage(verifyError));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (signedIn?.recoveryCodes) {
+    return (
+      <div className="space-y-4 rounded-2xl bg-white p-6 text-left">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Two-factor authentication is on
+        </h3>
+        <RecoveryCodesNotice codes={signedIn.recoveryCodes} />
+        <Button className="w-full" onClick={() => onComplete(signedIn)}>
+          I&apos;ve saved my codes, continue
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="space-y-4 rounded-2xl bg-white p-6 text-left"
+    >
+      <div className="flex items-start gap-3">
+        <ShieldCheck className="mt-0.5 h-6 w-6 flex-shrink-0 text-blue-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {challenge.setupRequired
+              ? "Set up two-factor authentication"
+              : "Two-factor authentication"}
+          </h3>
+          <p className="text-sm text-gray-600">
+            {challenge.setupRequired
+              ? "Admin accounts need an authenticator app. Add this account to your app, then enter the code it shows."
+              : "Enter the 6-digit code from your authenticator app, or a recovery code."}
+          </p>
+        </div>
+      </div>
+
+      {challenge.setupRequired ? (
+        enrollment ? (
+          <TwoFactorEnrollmentDetails enrollment={enrollment} />
+        ) : !error ? (
+          <p className="text-sm text-gray-500">Preparing your QR code...</p>
+        ) : null
+      ) : null}
+
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        autoFocus
+        value={code}
+        onChange={(event) => setCode(event.target.value)}
+        placeholder="123456"
+        maxLength={11}
+        className="w-full rounded-lg border border-gray-300 px-3 py-2 text-center font-mono text-lg tracking-widest text-gray-900"
+      />
+      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={isSubmitting}
+        >
+          Back
+        </Button>
+        <Button
+          type="submit"
+          className="flex-1"
+          loading={isSubmitting}
+          disabled={!code.trim() || (challenge.setupRequired && !enrollment)}
+        >
+          Verify
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import React from "react";
+import { TwoFactorEnrollment } from "@/types";
+
+interface TwoFactorEnrollmentDetailsProps {
+  enrollment: TwoFactorEnrollment;
+}
+
+// Groups of four are easier to type into an app by hand
+const formatSecret = (secret: string) =>
+  secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+
+export default function TwoFactorEnrollmentDetails({
+  enrollment,
+}: TwoFactorEnrollmentDetailsProps) {
+  return (
+    <div className="flex flex-col items-center gap-3 rounded-xl border border-gray-200 bg-gray-50 p-4 text-center">
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={enrollment.qrCodeDataUrl}
+        alt="QR code for your authenticator app"
+        width={180}
+        height={180}
+        className="rounded-lg bg-white p-2"
+      />
+      <p className="text-xs text-gray-600">
+        Scan with Google Authenticator, 1Password, Authy or a similar app.
+        Can&apos;t scan? Enter this key instead:
+      </p>
+      <code className="select-all break-all rounded-lg bg-white px-3 py-2 font-mono text-sm text-gray-900">
+        {formatSecret(enrollment.secret)}
+      </code>
+      <a
+        href={enrollment.otpauthUrl}
+        className="text-xs font-medium text-blue-600 hover:underline"
+      >
+        Open in an authenticator app on this device
+      </a>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import { format } from "date-fns";
+import { ShieldCheck, ShieldAlert } from "lucide-react";
+import { authService } from "@/services/auth";
+import { TwoFactorEnrollment } from "@/types";
+import { Button, Card } from "@/components/ui";
+import RecoveryCodesNotice from "./RecoveryCodesNotice";
+import TwoFactorEnrollmentDetails from "./TwoFactorEnrollmentDetails";
+
+const STATUS_QUERY_KEY = ["two-factor-status"];
+
+// Actions on an enabled authenticator that need a current code first
+type ManageAction = "regenerate" | "disable";
+
+const CODE_INPUT_CLASS =
+  "w-full rounded-lg border border-gray-300 px-3 py-2 text-center font-mono tracking-widest text-gray-900 sm:w-48";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+export default function TwoFactorSettingsPanel() {
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] =
+    React.useState<TwoFactorEnrollment | null>(null);
+  const [action, setAction] = React.useState<ManageAction | null>(null);
+  const [code, setCode] = React.useState("");
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[]>([]);
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: STATUS_QUERY_KEY,
+    queryFn: authService.getTwoFactorStatus,
+  });
+
+  const refreshStatus = () => queryClient.invalidateQueries(STATUS_QUERY_KEY);
+
+  const resetForm = () => {
+    setEnrollment(null);
+    setAction(null);
+    setCode("");
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: authService.setupTwoFactor,
+    onSuccess: (data) => {
+      setRecoveryCodes([]);
+      setEnrollment(data);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to start setup."));
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: (value: string) => authService.confirmTwoFactor(value),
+    onSuccess: async (codes) => {
+      toast.success("Two-factor authentication is on.");
+      setRecoveryCodes(codes);
+      resetForm();
+      await refreshStatus();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "That code doesn't match."));
+    },
+  });
+
+  const manageMutation = useMutation({
+    mutationFn: async ({ kind, value }: { kind: ManageAction; value: string }) =>
+      kind === "regenerate"
+        ? authService.regenerateRecoveryCodes(value)
+        : authService.disableTwoFactor(value).then(() => []),
+    onSuccess: async (codes, { kind }) => {
+      toast.success(
+        kind === "regenerate"
+          ? "New recovery codes generated."
+          : "Two-factor authentication is off."
+      );
+      setRecoveryCodes(codes);
+      resetForm();
+      await refreshStatus();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Invalid authentication code."));
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <Card className="rounded-2xl border border-gray-200 bg-white p-6">
+        <p className="text-sm text-gray-500">Loading two-factor settings...</p>
+      </Card>
+    );
+  }
+
+  if (!status?.available) {
+    return null;
+  }
+
+  const StatusIcon = status.enabled ? ShieldCheck : ShieldAlert;
+
+  return (
+    <Card className="rounded-2xl border border-gray-200 bg-white p-6">
+      <div className="mb-4 flex items-start gap-3">
+        <StatusIcon
+          className={`mt-0.5 h-6 w-6 ${
+            status.enabled ? "text-green-600" : "text-amber-500"
+          }`}
+        />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Two-Factor Authentication
+          </h3>
+          <p className="text-sm text-gray-600">
+            {status.enabled
+              ? `On since ${format(
+                  new Date(status.enabledAt ?? Date.now()),
+                  "d MMM yyyy"
+                )}. You'll be asked for a code when signing in and before changing payout details or withdrawing.`
+              : status.required
+              ? "Required for admin accounts. Set up an authenticator app to keep making sensitive changes."
+              : "Protect your payouts with a code from an authenticator app when signing in and before changing payout details or withdrawing."}
+          </p>
+        </div>
+      </div>
+
+      {recoveryCodes.length > 0 ? (
+        <div className="mb-4">
+          <RecoveryCodesNotice codes={recoveryCodes} />
+        </div>
+      ) : null}
+
+      {!status.enabled ? (
+        enrollment ? (
+          <div className="space-y-3">
+            <TwoFactorEnrollmentDetails enrollment={enrollment} />
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(event) => setCode(event.target.value)}
+                placeholder="123456"
+                maxLength={6}
+                className={CODE_INPUT_CLASS}
+              />
+              <Button
+                onClick={() => confirmMutation.mutate(code.trim())}
+                loading={confirmMutation.isLoading}
+                disabled={!code.trim()}
+              >
+                Turn on
+              </Button>
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => setupMutation.mutate()}
+            loading={setupMutation.isLoading}
+          >
+            Set up authenticator app
+          </Button>
+        )
+      ) : action ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="Authenticator code"
+            maxLength={11}
+            className={CODE_INPUT_CLASS}
+          />
+          <Button
+            variant={action === "disable" ? "destructive" : "primary"}
+            onClick={() =>
+              manageMutation.mutate({ kind: action, value: code.trim() })
+            }
+            loading={manageMutation.isLoading}
+            disabled={!code.trim()}
+          >
+            {action === "disable" ? "Turn off" : "Generate codes"}
+          </Button>
+          <Button variant="outline" onClick={resetForm}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-600">
+            {status.recoveryCodesRemaining} recovery codes left
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setAction("regenerate")}
+          >
+            New recovery codes
+          </Button>
+          {status.required ? null : (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setAction("disable")}
+            >
+              Turn off
+            </Button>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -3,3 +3,7 @@ export { RegisterForm } from "./RegisterForm";
 export { default as ProtectedRoute } from "./ProtectedRoute";
 export { UserProfile } from "./UserProfile";
 export { AuthGuard } from "./AuthGuard";
+export { default as ActiveSessionsPanel } from "./ActiveSessionsPanel";
+export { default as StepUpDialog } from "./StepUpDialog";
+export { default as TwoFactorChallengeForm } from "./TwoFactorChallengeForm";
+export { default as TwoFactorSettingsPanel } from "./TwoFactorSettingsPanel";
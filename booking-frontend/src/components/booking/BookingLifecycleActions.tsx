@@ -113,14 +113,6 @@ const REALTOR_DISPUTE_CATEGORY_OPTIONS: {
   },
 ];
 
-const isBlockedDatesBooking = (specialRequests?: string) => {
-  if (!specialRequests) return false;
-  return (
-    specialRequests.includes("[SYSTEM_BLOCKED_DATES]") ||
-    specialRequests.includes("SYSTEM:BLOCKED_DATES")
-  );
-};
-
 const toLagosDateKey = (value?: string | Date) => {
   if (!value) return "";
   const date = new Date(value);
@@ -187,7 +179,6 @@ export function BookingLifecycleActions({
   const [dragOver, setDragOver] = React.useState(false);
   const dragCounterRef = React.useRef(0);
   const evidenceInputRef = React.useRef<HTMLInputElement>(null);
-  const isBlockedBooking = isBlockedDatesBooking(booking.specialRequests);
 
   React.useEffect(() => {
     setClaimedAmount(Number(booking.securityDeposit || 0));
@@ -195,7 +186,6 @@ export function BookingLifecycleActions({
   }, [booking.id, booking.securityDeposit]);
 
   const checkInBaseReady =
-    !isBlockedBooking &&
     booking.status === "ACTIVE" &&
     booking.stayStatus !== "CHECKED_IN" &&
     booking.stayStatus !== "CHECKED_OUT";
@@ -0,0 +1,418 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import { CalendarClock, Check, X } from "lucide-react";
+import { Booking } from "@/types";
+import {
+  BookingModification,
+  BookingModificationOptions,
+  BookingModificationStatus,
+  bookingService,
+} from "@/services/bookings";
+import { formatPrice } from "@/utils/currency";
+import { Button, Card } from "@/components/ui";
+
+interface BookingModificationPanelProps {
+  booking: Booking;
+  role: "GUEST" | "REALTOR";
+  onRefresh?: () => void | Promise<void>;
+}
+
+// Matches the backend cutoff; same as the free cancellation window
+const MODIFICATION_CUTOFF_HOURS = 24;
+
+const STATUS_STYLES: Record<
+  BookingModificationStatus,
+  { label: string; className: string }
+> = {
+  PENDING_REALTOR_APPROVAL: {
+    label: "Awaiting host",
+    className: "bg-amber-100 text-amber-800",
+  },
+  PROCESSING: {
+    label: "Settling payment",
+    className: "bg-blue-100 text-blue-800",
+  },
+  COMPLETED: { label: "Approved", className: "bg-green-100 text-green-700" },
+  DECLINED: { label: "Declined", className: "bg-gray-100 text-gray-700" },
+  CANCELLED: { label: "Withdrawn", className: "bg-gray-100 text-gray-700" },
+  EXPIRED: { label: "Expired", className: "bg-gray-100 text-gray-700" },
+  FAILED: { label: "Payment failed", className: "bg-red-100 text-red-700" },
+};
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900";
+
+const toDateInput = (value: string | Date) =>
+  new Date(value).toISOString().slice(0, 10);
+
+const formatStayDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+const describeSettlement = (amountDue: number, refundAmount: number) => {
+  if (amountDue > 0) return `${formatPrice(amountDue)} extra to pay`;
+  if (refundAmount > 0) return `${formatPrice(refundAmount)} refund`;
+  return "No price change";
+};
+
+export default function BookingModificationPanel({
+  booking,
+  role,
+  onRefresh,
+}: BookingModificationPanelProps) {
+  const queryClient = useQueryClient();
+  const [newCheckIn, setNewCheckIn] = React.useState(
+    toDateInput(booking.checkInDate)
+  );
+  const [newCheckOut, setNewCheckOut] = React.useState(
+    toDateInput(booking.checkOutDate)
+  );
+  const [guestCount, setGuestCount] = React.useState(booking.totalGuests);
+  const [reason, setReason] = React.useState("");
+  const [responseNote, setResponseNote] = React.useState("");
+  const [preview, setPreview] =
+    React.useState<BookingModificationOptions | null>(null);
+
+  const modificationsQueryKey = ["booking-modifications", booking.id];
+
+  const isEligible =
+    booking.status === "ACTIVE" &&
+    (booking.stayStatus || "NOT_STARTED") === "NOT_STARTED" &&
+    new Date(booking.checkInDate).getTime() - Date.now() >=
+      MODIFICATION_CUTOFF_HOURS * 3_600_000;
+
+  const { data: modifications = [] } = useQuery({
+    queryKey: modificationsQueryKey,
+    queryFn: () => bookingService.getModifications(booking.id),
+    enabled: Boolean(booking.id),
+  });
+
+  const pending = modifications.find(
+    (item) => item.status === "PENDING_REALTOR_APPROVAL"
+  );
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries(modificationsQueryKey);
+    await onRefresh?.();
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: () =>
+      bookingService.getModificationOptions(
+        booking.id,
+        newCheckIn,
+        newCheckOut,
+        guestCount
+      ),
+    onSuccess: (options) => setPreview(options),
+    onError: (error) => {
+      setPreview(null);
+      toast.error(getErrorMessage(error, "Unable to price the new dates."));
+    },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: () =>
+      bookingService.modifyBooking(booking.id, {
+        newCheckInDate: newCheckIn,
+        newCheckOutDate: newCheckOut,
+        newGuestCount: guestCount,
+        reason: reason.trim() || undefined,
+      }),
+    onSuccess: async () => {
+      toast.success("Request sent. Your host will confirm the new dates.");
+      setPreview(null);
+      setReason("");
+      await refresh();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to request the change."));
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (modificationId: string) =>
+      bookingService.cancelModification(booking.id, modificationId),
+    onSuccess: async () => {
+      toast.success("Request withdrawn.");
+      await refresh();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to withdraw the request."));
+    },
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({
+      modificationId,
+      decision,
+    }: {
+      modificationId: string;
+      decision: "approve" | "decline";
+    }) =>
+      decision === "approve"
+        ? bookingService.approveModification(
+            booking.id,
+            modificationId,
+            responseNote.trim() || undefined
+          )
+        : bookingService.declineModification(
+            booking.id,
+            modificationId,
+            responseNote.trim() || undefined
+          ),
+    onSuccess: async (_, { decision }) => {
+      toast.success(
+        decision === "approve"
+          ? "Booking moved to the new dates."
+          : "Request declined."
+      );
+      setResponseNote("");
+      await refresh();
+    },
+    onError: async (error) => {
+      toast.error(getErrorMessage(error, "Unable to respond to the request."));
+      await refresh();
+    },
+  });
+
+  const canRequest = role === "GUEST" && isEligible;
+  if (!pending && modifications.length === 0 && !canRequest) {
+    return null;
+  }
+
+  const renderRequest = (item: BookingModification) => {
+    const status = STATUS_STYLES[item.status];
+    return (
+      <div className="rounded-xl border border-gray-200 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-gray-900">
+            {formatStayDate(item.newCheckInDate)} -{" "}
+            {formatStayDate(item.newCheckOutDate)}
+          </span>
+          <span
+            className={`rounded-full px-2 py-0.5 text-xs font-medium ${status.className}`}
+          >
+            {status.label}
+          </span>
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          Was {formatStayDate(item.previousCheckInDate)} -{" "}
+          {formatStayDate(item.previousCheckOutDate)} ·{" "}
+          {item.newTotalGuests} guest(s) ·{" "}
+          {describeSettlement(
+            Number(item.amountDue),
+            Number(item.refundAmount)
+          )}
+        </p>
+        {item.reason ? (
+          <p className="mt-2 text-sm text-gray-700">{item.reason}</p>
+        ) : null}
+        {item.responseNote ? (
+          <p className="mt-2 text-xs text-gray-600">
+            Host note: {item.responseNote}
+          </p>
+        ) : null}
+        {item.status === "FAILED" && item.failureReason ? (
+          <p className="mt-2 text-xs text-red-700">{item.failureReason}</p>
+        ) : null}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="mb-6 rounded-2xl border border-gray-200 bg-white p-6">
+      <div className="mb-4 flex items-center gap-2">
+        <CalendarClock className="h-5 w-5 text-gray-700" />
+        <h3 className="text-lg font-semibold text-gray-900">Change Dates</h3>
+      </div>
+
+      {pending ? (
+        <div className="space-y-3">
+          {renderRequest(pending)}
+          {role === "GUEST" ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => withdrawMutation.mutate(pending.id)}
+              loading={withdrawMutation.isLoading}
+            >
+              Withdraw Request
+            </Button>
+          ) : (
+            <div className="space-y-3">
+              <textarea
+                value={responseNote}
+                onChange={(event) => setResponseNote(event.target.value)}
+                placeholder="Optional note to the guest"
+                rows={2}
+                maxLength={500}
+                className={INPUT_CLASS}
+              />
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  onClick={() =>
+                    respondMutation.mutate({
+                      modificationId: pending.id,
+                      decision: "approve",
+                    })
+                  }
+                  loading={respondMutation.isLoading}
+                >
+                  <Check className="mr-1 h-4 w-4" />
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    respondMutation.mutate({
+                      modificationId: pending.id,
+                      decision: "decline",
+                    })
+                  }
+                  disabled={respondMutation.isLoading}
+                >
+                  <X className="mr-1 h-4 w-4" />
+                  Decline
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Approving charges the guest&apos;s saved card or refunds the
+                difference from escrow, then updates the booking.
+              </p>
+            </div>
+          )}
+        </div>
+      ) : canRequest ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            Move your stay instead of cancelling. Your host approves the change
+            and any price difference is charged or refunded automatically.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <label className="text-sm text-gray-700">
+              Check-in
+              <input
+                type="date"
+                value={newCheckIn}
+                onChange={(event) => {
+                  setNewCheckIn(event.target.value);
+                  setPreview(null);
+                }}
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Check-out
+              <input
+                type="date"
+                value={newCheckOut}
+                onChange={(event) => {
+                  setNewCheckOut(event.target.value);
+                  setPreview(null);
+                }}
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Guests
+              <input
+                type="number"
+                min={1}
+                value={guestCount}
+                onChange={(event) => {
+                  setGuestCount(Number(event.target.value) || 1);
+                  setPreview(null);
+                }}
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+          </div>
+
+          {preview ? (
+            <div className="rounded-xl border border-gray-200 bg-gray-50 p-4 text-sm">
+              <p className="text-gray-900">
+                {preview.newNights} night(s), room total{" "}
+                {formatPrice(preview.newRoomFee)} (was{" "}
+                {formatPrice(preview.previousRoomFee)})
+              </p>
+              <p className="mt-1 font-medium text-gray-900">
+                {describeSettlement(preview.amountDue, preview.refundAmount)}
+                {preview.additionalServiceFee > 0
+                  ? ` (includes ${formatPrice(
+                      preview.additionalServiceFee
+                    )} service fee)`
+                  : ""}
+              </p>
+              {preview.retainedRoomFee > 0 ? (
+                <p className="mt-1 text-gray-600">
+                  {formatPrice(preview.retainedRoomFee)} of the removed room
+                  fee is not refunded under your cancellation policy
+                </p>
+              ) : null}
+              {!preview.isAvailable ? (
+                <p className="mt-2 text-red-700">{preview.unavailableReason}</p>
+              ) : null}
+              {preview.isAvailable ? (
+                <textarea
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value)}
+                  placeholder="Message to your host (optional)"
+                  rows={2}
+                  maxLength={500}
+                  className={`mt-3 ${INPUT_CLASS}`}
+                />
+              ) : null}
+            </div>
+          ) : null}
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              loading={previewMutation.isLoading}
+            >
+              Check Price
+            </Button>
+            {preview?.isAvailable ? (
+              <Button
+                size="sm"
+                onClick={() => requestMutation.mutate()}
+                loading={requestMutation.isLoading}
+              >
+                Request Change
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {modifications.some((item) => item.id !== pending?.id) ? (
+        <div className="mt-5 space-y-3">
+          <p className="text-sm font-medium text-gray-900">Previous requests</p>
+          {modifications
+            .filter((item) => item.id !== pending?.id)
+            .slice(0, 5)
+            .map((item) => (
+              <React.Fragment key={item.id}>
+                {renderRequest(item)}
+              </React.Fragment>
+            ))}
+        </div>
+      ) : null}
+    </Card>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import React from "react";
+import { useMutation } from "react-query";
+import { toast } from "react-hot-toast";
+import { Star } from "lucide-react";
+import { Booking, GuestRatingSummary } from "@/types";
+import { reviewService } from "@/services/reviews";
+import { Button, Card } from "@/components/ui";
+
+interface GuestReviewPanelProps {
+  booking: Booking;
+  onRefresh?: () => void | Promise<void>;
+}
+
+type RatingField =
+  "cleanlinessRating" | "communicationRating" | "houseRulesRating";
+
+const RATING_FIELDS: Array<{ field: RatingField; label: string }> = [
+  { field: "cleanlinessRating", label: "Cleanliness" },
+  { field: "communicationRating", label: "Communication" },
+  { field: "houseRulesRating", label: "House rules" },
+];
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900";
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+const StarInput = ({
+  value,
+  onChange,
+  label,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  label: string;
+}) => (
+  <div className="flex items-center justify-between">
+    <span className="text-sm text-gray-700">{label}</span>
+    <div className="flex gap-1" role="radiogroup" aria-label={label}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star === 1 ? "" : "s"}`}
+          onClick={() => onChange(star)}
+          className="p-0.5"
+        >
+          <Star
+            className={`h-5 w-5 ${
+              star <= value ? "fill-amber-400 text-amber-400" : "text-gray-300"
+            }`}
+          />
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const GuestRatingBadge = ({
+  rating,
+}: {
+  rating?: GuestRatingSummary;
+}) => {
+  if (!rating || rating.reviewCount === 0 || rating.averageRating === null) {
+    return <span className="text-xs text-gray-500">No guest reviews yet</span>;
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs font-medium text-gray-700">
+      <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
+      {rating.averageRating.toFixed(1)}
+      <span className="font-normal text-gray-500">
+        ({rating.reviewCount} review{rating.reviewCount === 1 ? "" : "s"})
+      </span>
+    </span>
+  );
+};
+
+export default function GuestReviewPanel({
+  booking,
+  onRefresh,
+}: GuestReviewPanelProps) {
+  const [ratings, setRatings] = React.useState<Record<RatingField, number>>({
+    cleanlinessRating: 0,
+    communicationRating: 0,
+    houseRulesRating: 0,
+  });
+  const [comment, setComment] = React.useState("");
+
+  const windowClosesAt = booking.reviewWindowClosesAt;
+  const isWindowOpen =
+    !windowClosesAt || new Date(windowClosesAt).getTime() > Date.now();
+  const canReview =
+    booking.status === "COMPLETED" && !booking.guestReview && isWindowOpen;
+  const isComplete = RATING_FIELDS.every(({ field }) => ratings[field] > 0);
+
+  const submitMutation = useMutation({
+    mutationFn: () =>
+      reviewService.createGuestReview({
+        bookingId: booking.id,
+        ...ratings,
+        comment: comment.trim() || undefined,
+      }),
+    onSuccess: async (review) => {
+      toast.success(
+        review.revealedAt
+          ? "Guest review published."
+          : "Review saved. It stays hidden until the guest reviews their stay."
+      );
+      await onRefresh?.();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to submit your review."));
+    },
+  });
+
+  const rating = booking.guestRating;
+
+  return (
+    <Card className="rounded-2xl border border-gray-200 bg-white p-6">
+      <h2 className="mb-4 flex items-center text-xl font-semibold text-gray-900">
+        <Star className="mr-2 h-5 w-5" />
+        Guest Reviews
+      </h2>
+
+      <div className="mb-4 rounded-xl bg-gray-50 p-4">
+        <p className="mb-1 text-sm text-gray-600">Rating from other hosts</p>
+        <GuestRatingBadge rating={rating} />
+        {rating && rating.reviewCount > 0 ? (
+          <div className="mt-3 grid grid-cols-3 gap-2 text-xs text-gray-600">
+            {RATING_FIELDS.map(({ field, label }) => (
+              <div key={field}>
+                <p>{label}</p>
+                <p className="font-semibold text-gray-900">
+                  {rating[field]?.toFixed(1) ?? "-"}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      {booking.guestReview ? (
+        <div className="rounded-xl border border-gray-200 p-4">
+          <p className="mb-2 text-sm font-medium text-gray-900">Your review</p>
+          <div className="space-y-1 text-sm text-gray-700">
+            {RATING_FIELDS.map(({ field, label }) => (
+              <div key={field} className="flex justify-between">
+                <span>{label}</span>
+                <span>{booking.guestReview?.[field]}/5</span>
+              </div>
+            ))}
+          </div>
+          {booking.guestReview.comment ? (
+            <p className="mt-3 text-sm text-gray-600">
+              {booking.guestReview.comment}
+            </p>
+          ) : null}
+          <p className="mt-3 text-xs text-gray-500">
+            {booking.guestReview.revealedAt
+              ? `Published ${formatDate(booking.guestReview.revealedAt)}`
+              : `Hidden until the guest reviews their stay${
+                  windowClosesAt ? ` or ${formatDate(windowClosesAt)}` : ""
+                }.`}
+          </p>
+        </div>
+      ) : canReview ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">
+            How was this guest? Neither of you sees the other&apos;s review
+            until both are in
+            {windowClosesAt
+              ? ` or the window closes on ${formatDate(windowClosesAt)}`
+              : ""}
+            .
+          </p>
+          {RATING_FIELDS.map(({ field, label }) => (
+            <StarInput
+              key={field}
+              label={label}
+              value={ratings[field]}
+              onChange={(value) =>
+                setRatings((current) => ({ ...current, [field]: value }))
+              }
+            />
+          ))}
+          <textarea
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            placeholder="Notes for other hosts (optional)"
+            rows={3}
+            maxLength={1000}
+            className={INPUT_CLASS}
+          />
+          <Button
+            size="sm"
+            onClick={() => submitMutation.mutate()}
+            loading={submitMutation.isLoading}
+            disabled={!isComplete}
+          >
+            Submit Review
+          </Button>
+        </div>
+      ) : booking.status === "COMPLETED" && windowClosesAt ? (
+        <p className="text-sm text-gray-500">
+          The review window closed on {formatDate(windowClosesAt)}.
+        </p>
+      ) : null}
+    </Card>
+  );
+}
@@ -14,6 +14,7 @@ import {
   AlertCircle,
   MessageSquare,
   FileText,
+  BarChart3,
 } from "lucide-react";
 import { notificationApiService } from "@/services/notifications";
 import { Notification } from "@/types/notifications";
@@ -153,12 +154,16 @@ export function NotificationBell({
       case "REVIEW_RECEIVED":
       case "REVIEW_RESPONSE":
       case "REVIEW_FLAGGED":
+      case "REVIEW_MODERATION":
         return <Star className="h-5 w-5 text-yellow-500" />;
       case "MESSAGE_RECEIVED":
+      case "SUPPORT_TICKET_UPDATE":
         return <MessageSquare className="h-5 w-5 text-indigo-500" />;
       case "CAC_STATUS_UPDATE":
       case "CAC_VERIFICATION":
         return <FileText className="h-5 w-5 text-teal-500" />;
+      case "ANALYTICS_ALERT":
+        return <BarChart3 className="h-5 w-5 text-orange-500" />;
       case "DISPUTE_OPENED":
       case "SYSTEM_ALERT":
         return <AlertCircle className="h-5 w-5 text-red-500" />;
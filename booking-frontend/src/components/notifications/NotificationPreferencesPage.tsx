@@ -9,8 +9,10 @@ import {
   MessageSquare,
   Clock,
   Globe,
+  Monitor,
 } from "lucide-react";
 import { useNotificationPreferences } from "@/hooks/notifications/useNotificationPreferences";
+import { usePushSubscription } from "@/hooks/notifications/usePushSubscription";
 import { NotificationPreferences } from "@/types/notifications";
 import { cn } from "@/lib/utils";
 import toast from "react-hot-toast";
@@ -26,6 +28,7 @@ export function NotificationPreferencesPage({
   const { preferences, isLoading, error, updatePreferences } =
     useNotificationPreferences();
   const [isSaving, setIsSaving] = useState(false);
+  const pushDevice = usePushSubscription();
 
   if (!preferences) {
     return (
@@ -47,6 +50,24 @@ export function NotificationPreferencesPage({
     }
   };
 
+  const handleDevicePushToggle = async (enabled: boolean) => {
+    try {
+      if (enabled) {
+        await pushDevice.subscribe();
+        toast.success("Push notifications enabled on this device");
+      } else {
+        await pushDevice.unsubscribe();
+        toast.success("Push notifications disabled on this device");
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update push notifications on this device"
+      );
+    }
+  };
+
   const handleTimeChange = async (
     field: keyof NotificationPreferences,
     value: string
@@ -264,6 +285,29 @@ export function NotificationPreferencesPage({
                 />
               </PreferenceRow>
 
+              <PreferenceRow
+                icon={Monitor}
+                title="This Device"
+                description={
+                  !pushDevice.isSupported
+                    ? "This browser does not support push notifications"
+                    : pushDevice.permission === "denied"
+                      ? "Notifications are blocked in your browser settings"
+                      : "Show push notifications in this browser"
+                }
+              >
+                <ToggleSwitch
+                  checked={pushDevice.isSubscribed}
+                  onChange={handleDevicePushToggle}
+                  disabled={
+                    !pushDevice.isSupported ||
+                    pushDevice.isBusy ||
+                    pushDevice.permission === "denied" ||
+                    !preferences.pushEnabled
+                  }
+                />
+              </PreferenceRow>
+
               <div
                 className={cn(
                   "space-y-1 transition-opacity",
@@ -340,7 +384,7 @@ export function NotificationPreferencesPage({
               <PreferenceRow
                 icon={MessageSquare}
                 title="SMS Notifications"
-                description="Receive notifications via SMS"
+                description="Receive notifications via SMS at the phone number on your profile"
               >
                 <ToggleSwitch
                   checked={preferences.smsEnabled}
@@ -416,7 +460,7 @@ export function NotificationPreferencesPage({
                     Digest Frequency
                   </h4>
                   <p className="text-sm text-gray-500">
-                    How often to receive summary emails
+                    Bundle non-urgent emails into one summary
                   </p>
                 </div>
                 <select
@@ -428,6 +472,7 @@ export function NotificationPreferencesPage({
                   className="mt-1 block w-32 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                 >
                   <option value="never">Never</option>
+                  <option value="hourly">Hourly</option>
                   <option value="daily">Daily</option>
                   <option value="weekly">Weekly</option>
                 </select>
@@ -452,6 +497,11 @@ export function NotificationPreferencesPage({
                   />
                 </div>
               </div>
+              <p className="text-sm text-gray-500">
+                Non-urgent notifications wait until quiet hours end.
+                High-priority alerts such as payments and disputes are always
+                sent right away.
+              </p>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700">
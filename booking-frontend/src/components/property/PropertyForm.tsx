@@ -4,6 +4,7 @@ import React, { useState } from "react";
 import { Building2 } from "lucide-react";
 import { Button, Input, Card } from "../ui";
 import { PropertyFormData, Property, PropertyAmenity } from "../../types";
+import { SETTLEMENT_CURRENCIES, currencyFormat } from "../../utils/currency";
 
 const propertyTypes: Array<{ value: Property["type"]; label: string }> = [
   { value: "APARTMENT", label: "Apartment" },
@@ -333,7 +334,11 @@ export const PropertyForm: React.FC<PropertyFormProps> = ({
                 disabled={isLoading}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
-                <option value="NGN">₦ Naira</option>
+                {SETTLEMENT_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {currencyFormat(code).symbol} {currencyFormat(code).name}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
@@ -1,6 +1,12 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { Property } from "../../types";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -14,6 +20,13 @@ import {
 } from "lucide-react";
 import { Card } from "../ui";
 
+export interface MapBounds {
+  north: number;
+  west: number;
+  south: number;
+  east: number;
+}
+
 interface MapViewProps {
   properties: Property[];
   selectedProperty?: Property | null;
@@ -23,6 +36,7 @@ interface MapViewProps {
   center?: { lat: number; lng: number };
   zoom?: number;
   showFilters?: boolean;
+  onBoundsChange?: (bounds: MapBounds) => void;
 }
 
 interface MapMarkerProps {
@@ -38,6 +52,12 @@ const TILE_SIZE = 256;
 const MIN_ZOOM = 1;
 const MAX_ZOOM = 19;
 const MAX_LATITUDE = 85.05112878;
+// Markers closer than this many pixels are grouped into a single cluster
+const CLUSTER_CELL_SIZE = 64;
+// Past this zoom level every property gets its own marker
+const CLUSTER_MAX_ZOOM = 16;
+const BOUNDS_CHANGE_DEBOUNCE_MS = 400;
+const DRAG_THRESHOLD_PX = 4;
 
 const clamp = (value: number, min: number, max: number) =>
   Math.min(Math.max(value, min), max);
@@ -152,6 +172,28 @@ const MapMarker: React.FC<MapMarkerProps> = ({
   );
 };
 
+const ClusterMarker: React.FC<{
+  count: number;
+  onClick: () => void;
+}> = ({ count, onClick }) => {
+  const size = count >= 50 ? 56 : count >= 10 ? 48 : 40;
+
+  return (
+    <motion.button
+      type="button"
+      className="absolute -translate-x-1/2 -translate-y-1/2 flex items-center justify-center rounded-full bg-blue-600 text-white text-sm font-semibold shadow-lg ring-4 ring-blue-200/70"
+      style={{ width: size, height: size }}
+      initial={{ scale: 0.8, opacity: 0 }}
+      animate={{ scale: 1, opacity: 1 }}
+      transition={{ duration: 0.2 }}
+      onClick={onClick}
+      aria-label={`Zoom in to ${count} properties`}
+    >
+      {count}
+    </motion.button>
+  );
+};
+
 const PropertyPreviewCard: React.FC<{
   property: Property;
   onClose: () => void;
@@ -245,6 +287,7 @@ export const PropertyMapView: React.FC<MapViewProps> = ({
   center = { lat: 6.5244, lng: 3.3792 },
   zoom = 12,
   showFilters = true,
+  onBoundsChange,
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -252,10 +295,21 @@ export const PropertyMapView: React.FC<MapViewProps> = ({
   const [mapCenter, setMapCenter] = useState(center);
   const [mapZoom, setMapZoom] = useState(clamp(zoom, MIN_ZOOM, MAX_ZOOM));
   const [mapSize, setMapSize] = useState({ width: 0, height: 0 });
+  const [isDragging, setIsDragging] = useState(false);
+  const dragStateRef = useRef<{
+    pointerX: number;
+    pointerY: number;
+    centerX: number;
+    centerY: number;
+    moved: boolean;
+  } | null>(null);
+  const suppressClickRef = useRef(false);
+  const onBoundsChangeRef = useRef(onBoundsChange);
+  onBoundsChangeRef.current = onBoundsChange;
 
   useEffect(() => {
-    setMapCenter(center);
-  }, [center]);
+    setMapCenter({ lat: center.lat, lng: center.lng });
+  }, [center.lat, center.lng]);
 
   useEffect(() => {
     setMapZoom(clamp(zoom, MIN_ZOOM, MAX_ZOOM));
@@ -391,6 +445,100 @@ export const PropertyMapView: React.FC<MapViewProps> = ({
     viewport.width,
   ]);
 
+  const markerGroups = useMemo(() => {
+    if (mapZoom > CLUSTER_MAX_ZOOM) {
+      return visibleProperties.map((marker) => ({
+        id: marker.property.id,
+        x: marker.x,
+        y: marker.y,
+        markers: [marker],
+      }));
+    }
+
+    const cells = new Map<string, typeof visibleProperties>();
+    visibleProperties.forEach((marker) => {
+      const key = `${Math.floor(marker.x / CLUSTER_CELL_SIZE)}:${Math.floor(
+        marker.y / CLUSTER_CELL_SIZE,
+      )}`;
+      cells.set(key, [...(cells.get(key) || []), marker]);
+    });
+
+    return Array.from(cells.entries()).map(([key, markers]) => ({
+      id: markers.length === 1 ? markers[0].property.id : `cluster-${key}`,
+      x: markers.reduce((sum, marker) => sum + marker.x, 0) / markers.length,
+      y: markers.reduce((sum, marker) => sum + marker.y, 0) / markers.length,
+      markers,
+    }));
+  }, [mapZoom, visibleProperties]);
+
+  const zoomIntoCluster = (x: number, y: number) => {
+    setMapCenter(
+      worldToLatLng(viewport.topLeftX + x, viewport.topLeftY + y, mapZoom),
+    );
+    setMapZoom((currentZoom) =>
+      clamp(
+        Math.min(currentZoom + 2, CLUSTER_MAX_ZOOM + 1),
+        MIN_ZOOM,
+        MAX_ZOOM,
+      ),
+    );
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) {
+      return;
+    }
+
+    dragStateRef.current = {
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      centerX: viewport.centerWorld.x,
+      centerY: viewport.centerWorld.y,
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const dragState = dragStateRef.current;
+    if (!dragState) {
+      return;
+    }
+
+    const deltaX = event.clientX - dragState.pointerX;
+    const deltaY = event.clientY - dragState.pointerY;
+    if (
+      !dragState.moved &&
+      Math.abs(deltaX) < DRAG_THRESHOLD_PX &&
+      Math.abs(deltaY) < DRAG_THRESHOLD_PX
+    ) {
+      return;
+    }
+
+    dragState.moved = true;
+    setIsDragging(true);
+    setMapCenter(
+      worldToLatLng(
+        dragState.centerX - deltaX,
+        dragState.centerY - deltaY,
+        mapZoom,
+      ),
+    );
+  };
+
+  const endDrag = useCallback(() => {
+    // A drag that ends over a marker should not also select it
+    suppressClickRef.current = Boolean(dragStateRef.current?.moved);
+    dragStateRef.current = null;
+    setIsDragging(false);
+  }, []);
+
+  const handleClickCapture = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      event.stopPropagation();
+    }
+  };
+
   const handlePropertyHover = (property: Property | null) => {
     setHoveredProperty(property);
     onPropertyHover?.(property);
@@ -443,11 +591,14 @@ export const PropertyMapView: React.FC<MapViewProps> = ({
       mapZoom,
     );
 
+    // Zoomed out past one copy of the world, longitudes wrap around
+    const spansWorld = viewport.width >= 2 ** mapZoom * TILE_SIZE;
+
     return {
       north: northWest.lat,
-      west: northWest.lng,
+      west: spansWorld ? -180 : northWest.lng,
       south: southEast.lat,
-      east: southEast.lng,
+      east: spansWorld ? 180 : southEast.lng,
     };
   }, [
     mapZoom,
@@ -457,6 +608,18 @@ export const PropertyMapView: React.FC<MapViewProps> = ({
     viewport.width,
   ]);
 
+  useEffect(() => {
+    if (!onBoundsChangeRef.current || mapSize.width === 0) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      onBoundsChangeRef.current?.(currentBounds);
+    }, BOUNDS_CHANGE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [currentBounds, mapSize.width]);
+
   return (
     <div
       className={`relative ${
@@ -465,7 +628,15 @@ export const PropertyMapView: React.FC<MapViewProps> = ({
     >
       <div
         ref={mapRef}
-        className="w-full h-full bg-gray-200 rounded-lg overflow-hidden relative"
+        className={`w-full h-full bg-gray-200 rounded-lg overflow-hidden relative touch-none select-none ${
+          isDragging ? "cursor-grabbing" : "cursor-grab"
+        }`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerLeave={endDrag}
+        onPointerCancel={endDrag}
+        onClickCapture={handleClickCapture}
       >
         <div className="absolute inset-0">
           {mapTiles.map((tile) => (
@@ -509,13 +680,32 @@ export const PropertyMapView: React.FC<MapViewProps> = ({
           </button>
         </div>
 
-        {visibleProperties.map(({ property, x, y }) => {
+        {markerGroups.map(({ id, x, y, markers }) => {
+          if (markers.length > 1) {
+            return (
+              <div
+                key={id}
+                className="absolute z-10"
+                style={{
+                  left: x,
+                  top: y,
+                }}
+              >
+                <ClusterMarker
+                  count={markers.length}
+                  onClick={() => zoomIntoCluster(x, y)}
+                />
+              </div>
+            );
+          }
+
+          const { property } = markers[0];
           const isSelected = selectedProperty?.id === property.id;
           const isHovered = hoveredProperty?.id === property.id;
 
           return (
             <div
-              key={property.id}
+              key={id}
               className="absolute"
               style={{
                 left: x,
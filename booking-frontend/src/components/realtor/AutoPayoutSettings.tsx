@@ -0,0 +1,275 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import { AlertTriangle, CalendarClock } from "lucide-react";
+import { serviceUtils } from "@/services";
+import walletService, {
+  PayoutScheduleFrequency,
+  PayoutScheduleInput,
+} from "@/services/wallet";
+import { formatCurrency } from "@/utils/formatters";
+import { Button, Card } from "@/components/ui";
+
+interface AutoPayoutSettingsProps {
+  // Wallet the schedule pays out from; defaults to the payout currency
+  currency?: string;
+}
+
+const FREQUENCY_OPTIONS: Array<{
+  value: PayoutScheduleFrequency;
+  label: string;
+}> = [
+  { value: "DAILY", label: "Every day" },
+  { value: "WEEKLY", label: "Every week" },
+  { value: "MONTHLY", label: "Every month" },
+  { value: "THRESHOLD", label: "When my balance goes above an amount" },
+];
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900";
+
+export default function AutoPayoutSettings({
+  currency,
+}: AutoPayoutSettingsProps) {
+  const queryClient = useQueryClient();
+  const [frequency, setFrequency] =
+    React.useState<PayoutScheduleFrequency>("WEEKLY");
+  const [weekday, setWeekday] = React.useState("5");
+  const [dayOfMonth, setDayOfMonth] = React.useState("1");
+  const [thresholdAmount, setThresholdAmount] = React.useState("");
+  const [minimumReserve, setMinimumReserve] = React.useState("0");
+
+  const queryKey = ["payout-schedule", currency || "default"];
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => walletService.getPayoutSchedule(currency),
+  });
+
+  const schedule = data?.schedule;
+  const preview = data?.preview;
+  const walletCurrency = data?.currency || currency || "NGN";
+
+  React.useEffect(() => {
+    if (schedule) {
+      setFrequency(schedule.frequency);
+      setWeekday(String(schedule.weekday ?? 5));
+      setDayOfMonth(String(schedule.dayOfMonth ?? 1));
+      setThresholdAmount(
+        schedule.thresholdAmount ? String(Number(schedule.thresholdAmount)) : ""
+      );
+      setMinimumReserve(String(Number(schedule.minimumReserve)));
+    }
+  }, [schedule]);
+
+  const onError = (error: unknown) => {
+    toast.error(serviceUtils.extractErrorMessage(error));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: PayoutScheduleInput) =>
+      walletService.savePayoutSchedule(input),
+    onSuccess: async () => {
+      toast.success("Automatic payouts saved.");
+      await queryClient.invalidateQueries(queryKey);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => walletService.disablePayoutSchedule(currency),
+    onSuccess: async () => {
+      toast.success("Automatic payouts turned off.");
+      await queryClient.invalidateQueries(queryKey);
+    },
+    onError,
+  });
+
+  const handleSave = () =>
+    saveMutation.mutate({
+      currency,
+      frequency,
+      minimumReserve: Number(minimumReserve) || 0,
+      ...(frequency === "WEEKLY" ? { weekday: Number(weekday) } : {}),
+      ...(frequency === "MONTHLY" ? { dayOfMonth: Number(dayOfMonth) } : {}),
+      ...(frequency === "THRESHOLD"
+        ? { thresholdAmount: Number(thresholdAmount) }
+        : {}),
+    });
+
+  const isActive = Boolean(schedule?.isActive);
+  const nextPayout = preview?.nextPayout;
+
+  return (
+    <Card className="rounded-lg bg-white p-6 shadow">
+      <div className="mb-5 flex items-start gap-3">
+        <CalendarClock className="mt-1 h-5 w-5 text-gray-500" />
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">
+            Automatic Payouts
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Send your available balance to your payout account on a schedule,
+            keeping a reserve in your wallet. The usual withdrawal fee applies.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading payout schedule...</p>
+      ) : (
+        <div className="space-y-5">
+          {isActive && preview?.pauseMessage && (
+            <div className="flex items-start gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+              <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+              {preview.pauseMessage}
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <label className="text-sm text-gray-700">
+              Pay out
+              <select
+                value={frequency}
+                onChange={(e) =>
+                  setFrequency(e.target.value as PayoutScheduleFrequency)
+                }
+                className={`mt-1 ${INPUT_CLASS}`}
+              >
+                {FREQUENCY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {frequency === "WEEKLY" && (
+              <label className="text-sm text-gray-700">
+                On
+                <select
+                  value={weekday}
+                  onChange={(e) => setWeekday(e.target.value)}
+                  className={`mt-1 ${INPUT_CLASS}`}
+                >
+                  {WEEKDAYS.map((day, index) => (
+                    <option key={day} value={index}>
+                      {day}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {frequency === "MONTHLY" && (
+              <label className="text-sm text-gray-700">
+                On day
+                <input
+                  type="number"
+                  min={1}
+                  max={28}
+                  value={dayOfMonth}
+                  onChange={(e) => setDayOfMonth(e.target.value)}
+                  className={`mt-1 ${INPUT_CLASS}`}
+                />
+              </label>
+            )}
+
+            {frequency === "THRESHOLD" && (
+              <label className="text-sm text-gray-700">
+                Balance above ({walletCurrency})
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={thresholdAmount}
+                  onChange={(e) => setThresholdAmount(e.target.value)}
+                  className={`mt-1 ${INPUT_CLASS}`}
+                />
+              </label>
+            )}
+
+            <label className="text-sm text-gray-700">
+              Always keep ({walletCurrency})
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={minimumReserve}
+                onChange={(e) => setMinimumReserve(e.target.value)}
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+          </div>
+
+          {isActive && preview && (
+            <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700">
+              {nextPayout?.status === "DUE" ? (
+                <p>
+                  At your current balance the next payout would be{" "}
+                  <span className="font-semibold">
+                    {formatCurrency(nextPayout.netAmount, walletCurrency)}
+                  </span>{" "}
+                  after a {formatCurrency(nextPayout.feeAmount, walletCurrency)}{" "}
+                  fee.
+                </p>
+              ) : (
+                <p>
+                  {nextPayout?.reason === "BELOW_THRESHOLD"
+                    ? "Your balance hasn't reached the payout threshold yet."
+                    : "Your balance above the reserve is below the minimum withdrawal, so the next run will be skipped."}
+                </p>
+              )}
+              {preview.upcomingRuns.length > 0 && (
+                <p className="mt-2 text-gray-600">
+                  Upcoming:{" "}
+                  {preview.upcomingRuns
+                    .map((run) =>
+                      new Date(run).toLocaleString(undefined, {
+                        weekday: "short",
+                        day: "numeric",
+                        month: "short",
+                        hour: "numeric",
+                        minute: "2-digit",
+                      })
+                    )
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            <Button onClick={handleSave} disabled={saveMutation.isLoading}>
+              {saveMutation.isLoading
+                ? "Saving..."
+                : isActive
+                  ? "Update schedule"
+                  : "Turn on automatic payouts"}
+            </Button>
+            {isActive && (
+              <Button
+                variant="outline"
+                onClick={() => disableMutation.mutate()}
+                disabled={disableMutation.isLoading}
+              >
+                Turn off
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
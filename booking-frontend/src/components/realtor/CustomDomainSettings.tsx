@@ -0,0 +1,227 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import { AlertTriangle, CheckCircle, Clock, Globe } from "lucide-react";
+import { serviceUtils } from "@/services";
+import {
+  CustomDomainStatus,
+  customDomainService,
+} from "@/services/customDomainService";
+import { Button, Card } from "@/components/ui";
+
+const QUERY_KEY = "custom-domain";
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900";
+
+const STATUS_BADGES: Record<
+  CustomDomainStatus,
+  { label: string; className: string; icon: React.ElementType }
+> = {
+  VERIFIED: {
+    label: "Verified",
+    className: "bg-green-100 text-green-800",
+    icon: CheckCircle,
+  },
+  PENDING: {
+    label: "Waiting for DNS",
+    className: "bg-yellow-100 text-yellow-800",
+    icon: Clock,
+  },
+  FAILED: {
+    label: "Not verified",
+    className: "bg-red-100 text-red-800",
+    icon: AlertTriangle,
+  },
+};
+
+export default function CustomDomainSettings() {
+  const queryClient = useQueryClient();
+  const [hostname, setHostname] = React.useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: QUERY_KEY,
+    queryFn: () => customDomainService.getSettings(),
+  });
+
+  const domain = data?.domain;
+
+  React.useEffect(() => {
+    setHostname(domain?.hostname || "");
+  }, [domain?.hostname]);
+
+  const onError = (error: unknown) => {
+    toast.error(serviceUtils.extractErrorMessage(error));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (value: string) => customDomainService.save(value),
+    onSuccess: async () => {
+      toast.success("Domain saved. Add the DNS records below, then verify.");
+      await queryClient.invalidateQueries(QUERY_KEY);
+    },
+    onError,
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => customDomainService.verify(),
+    onSuccess: async ({ domain: checked, message }) => {
+      if (checked.status === "VERIFIED") {
+        toast.success(message);
+      } else {
+        toast.error(message);
+      }
+      await queryClient.invalidateQueries(QUERY_KEY);
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () => customDomainService.remove(),
+    onSuccess: async () => {
+      toast.success("Custom domain removed.");
+      await queryClient.invalidateQueries(QUERY_KEY);
+    },
+    onError,
+  });
+
+  const badge = domain ? STATUS_BADGES[domain.status] : null;
+  const BadgeIcon = badge?.icon;
+  const trimmedHostname = hostname.trim();
+
+  return (
+    <Card className="rounded-lg bg-white p-6 shadow">
+      <div className="mb-5 flex items-start gap-3">
+        <Globe className="mt-1 h-5 w-5 text-gray-500" />
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Custom Domain</h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Serve your booking website on your own domain, such as
+            book.yourbusiness.com. Your Stayza subdomain keeps working, and your
+            dashboard stays there.
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading custom domain...</p>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex flex-col gap-3 md:flex-row md:items-end">
+            <label className="flex-1 text-sm text-gray-700">
+              Domain
+              <input
+                type="text"
+                value={hostname}
+                onChange={(e) => setHostname(e.target.value)}
+                placeholder={data?.suggestedHostname || "book.yourbusiness.com"}
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <Button
+              onClick={() => saveMutation.mutate(trimmedHostname)}
+              disabled={
+                saveMutation.isLoading ||
+                !trimmedHostname ||
+                trimmedHostname === domain?.hostname
+              }
+            >
+              {saveMutation.isLoading
+                ? "Saving..."
+                : domain
+                  ? "Change domain"
+                  : "Connect domain"}
+            </Button>
+          </div>
+
+          {!domain && data?.suggestedHostname && !hostname && (
+            <button
+              type="button"
+              onClick={() => setHostname(data.suggestedHostname || "")}
+              className="text-sm font-medium text-blue-600 hover:text-blue-700"
+            >
+              Use {data.suggestedHostname}
+            </button>
+          )}
+
+          {domain && badge && BadgeIcon && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-3">
+                <span className="font-medium text-gray-900">
+                  {domain.hostname}
+                </span>
+                <span
+                  className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium ${badge.className}`}
+                >
+                  <BadgeIcon className="h-3.5 w-3.5" />
+                  {badge.label}
+                </span>
+              </div>
+
+              {domain.lastCheckError && (
+                <div className="flex items-start gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                  {domain.lastCheckError}
+                </div>
+              )}
+
+              <div className="overflow-x-auto rounded-lg border border-gray-200">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-4 py-2 font-medium">Type</th>
+                      <th className="px-4 py-2 font-medium">Name</th>
+                      <th className="px-4 py-2 font-medium">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 font-mono text-gray-900">
+                    <tr>
+                      <td className="px-4 py-2">TXT</td>
+                      <td className="select-all px-4 py-2">
+                        {domain.txtRecord.name}
+                      </td>
+                      <td className="select-all px-4 py-2">
+                        {domain.txtRecord.value}
+                      </td>
+                    </tr>
+                    <tr>
+                      <td className="px-4 py-2">CNAME</td>
+                      <td className="select-all px-4 py-2">
+                        {domain.hostname}
+                      </td>
+                      <td className="select-all px-4 py-2">
+                        {domain.cnameTarget}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-sm text-gray-600">
+                Keep the TXT record after verifying. If a later check can&apos;t
+                find it, your domain stops serving your website.
+              </p>
+
+              <div className="flex flex-wrap gap-3">
+                <Button
+                  onClick={() => verifyMutation.mutate()}
+                  disabled={verifyMutation.isLoading}
+                >
+                  {verifyMutation.isLoading ? "Checking DNS..." : "Check DNS"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => removeMutation.mutate()}
+                  disabled={removeMutation.isLoading}
+                >
+                  Remove domain
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
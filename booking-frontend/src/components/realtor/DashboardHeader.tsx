@@ -40,7 +40,7 @@ export function DashboardHeader({ onCopySuccess }: DashboardHeaderProps) {
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat("en-NG", {
       style: "currency",
-      currency: "NGN",
+      currency: walletBalance?.currency || "NGN",
     }).format(amount);
   };
 
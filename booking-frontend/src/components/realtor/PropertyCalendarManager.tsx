@@ -10,10 +10,12 @@ import {
   Lock,
   Unlock,
 } from "lucide-react";
+import { bookingService } from "@/services/bookings";
 import {
-  PropertyBlockedBooking,
-  bookingService,
-} from "@/services/bookings";
+  AvailabilityBlockReason,
+  PropertyAvailabilityBlock,
+  propertyService,
+} from "@/services/properties";
 import { Button, Card } from "@/components/ui";
 
 type ActionMode = "block" | "unblock";
@@ -26,9 +28,33 @@ interface OptimisticBlockRange {
   id: string;
   start: string;
   end: string; // inclusive
-  reason: string;
+  reason: AvailabilityBlockReason;
+  note: string;
 }
 
+type CalendarBlock = Pick<
+  PropertyAvailabilityBlock,
+  "id" | "reason" | "note" | "sourceId"
+> & {
+  start: string;
+  endInclusive: string;
+  endExclusive: string;
+};
+
+const BLOCK_REASON_OPTIONS: Array<{
+  value: AvailabilityBlockReason;
+  label: string;
+}> = [
+  { value: "MAINTENANCE", label: "Maintenance" },
+  { value: "OWNER_STAY", label: "Owner stay" },
+  { value: "EXTERNAL_BOOKING", label: "Booked on another channel" },
+  { value: "OTHER", label: "Other" },
+];
+
+const formatBlockReason = (reason: AvailabilityBlockReason) =>
+  BLOCK_REASON_OPTIONS.find((option) => option.value === reason)?.label ||
+  reason;
+
 const DAY_HEADERS = ["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"];
 const MAX_MONTHS_AHEAD = 11;
 
@@ -70,22 +96,6 @@ const getInclusiveDateRange = (start: string, end: string): string[] => {
   return result;
 };
 
-const isBlockedDatesSpecialRequest = (specialRequests?: string | null) => {
-  if (!specialRequests) return false;
-  return (
-    specialRequests.includes("[SYSTEM_BLOCKED_DATES]") ||
-    specialRequests.includes("SYSTEM:BLOCKED_DATES")
-  );
-};
-
-const extractBlockedReason = (specialRequests?: string | null) => {
-  if (!specialRequests) return "";
-  return specialRequests
-    .replace("[SYSTEM_BLOCKED_DATES]", "")
-    .replace("SYSTEM:BLOCKED_DATES", "")
-    .trim();
-};
-
 const formatRange = (start: string, end: string) => {
   const startDate = parseDateKey(start);
   const endDate = parseDateKey(end);
@@ -116,7 +126,9 @@ export default function PropertyCalendarManager({
   const [selectedBlockedId, setSelectedBlockedId] = React.useState<
     string | null
   >(null);
-  const [blockReason, setBlockReason] = React.useState("Maintenance");
+  const [blockReason, setBlockReason] =
+    React.useState<AvailabilityBlockReason>("MAINTENANCE");
+  const [blockNote, setBlockNote] = React.useState("");
   const [inlineError, setInlineError] = React.useState<string | null>(null);
   const [optimisticBlocks, setOptimisticBlocks] = React.useState<
     OptimisticBlockRange[]
@@ -133,49 +145,41 @@ export default function PropertyCalendarManager({
     refetchOnReconnect: true,
   });
 
-  const { data: blockedBookings = [], isLoading: isBlockedLoading } = useQuery({
-    queryKey: ["property-blocked-bookings", propertyId],
-    queryFn: () => bookingService.getPropertyBlockedBookings(propertyId),
-    enabled: Boolean(propertyId),
-    refetchOnWindowFocus: true,
-    refetchOnReconnect: true,
-  });
+  const { data: availabilityBlocks = [], isLoading: isBlockedLoading } =
+    useQuery({
+      queryKey: ["property-availability-blocks", propertyId],
+      queryFn: () => propertyService.getAvailabilityBlocks(propertyId),
+      enabled: Boolean(propertyId),
+      refetchOnWindowFocus: true,
+      refetchOnReconnect: true,
+    });
 
-  const normalizedBlockedBookings = React.useMemo(() => {
-    return blockedBookings
-      .filter(
-        (booking) =>
-          !optimisticUnblockedIds.has(booking.id) &&
-          isBlockedDatesSpecialRequest(booking.specialRequests),
-      )
-      .map((booking) => {
-        const start = normalizeDateKey(booking.checkInDate);
-        const endExclusive = normalizeDateKey(booking.checkOutDate);
+  const normalizedBlocks = React.useMemo<CalendarBlock[]>(() => {
+    return availabilityBlocks
+      .filter((block) => !optimisticUnblockedIds.has(block.id))
+      .map((block) => {
+        const start = normalizeDateKey(block.startDate);
+        const endExclusive = normalizeDateKey(block.endDate);
         const endInclusive = addDays(endExclusive, -1);
         return {
-          ...booking,
+          id: block.id,
+          reason: block.reason,
+          note: block.note,
+          sourceId: block.sourceId,
           start,
           endInclusive,
           endExclusive,
-          reason: extractBlockedReason(booking.specialRequests) || booking.reason,
         };
       })
-      .filter((booking) => parseDateKey(booking.endInclusive) >= parseDateKey(booking.start));
-  }, [blockedBookings, optimisticUnblockedIds]);
+      .filter((block) => parseDateKey(block.endInclusive) >= parseDateKey(block.start));
+  }, [availabilityBlocks, optimisticUnblockedIds]);
 
   const blockedDateMap = React.useMemo(() => {
-    const map = new Map<
-      string,
-      (PropertyBlockedBooking & {
-        start: string;
-        endInclusive: string;
-        endExclusive: string;
-      })
-    >();
+    const map = new Map<string, CalendarBlock>();
 
-    normalizedBlockedBookings.forEach((booking) => {
-      getInclusiveDateRange(booking.start, booking.endInclusive).forEach((date) => {
-        map.set(date, booking);
+    normalizedBlocks.forEach((block) => {
+      getInclusiveDateRange(block.start, block.endInclusive).forEach((date) => {
+        map.set(date, block);
       });
     });
 
@@ -183,19 +187,17 @@ export default function PropertyCalendarManager({
       getInclusiveDateRange(range.start, range.end).forEach((date) => {
         map.set(date, {
           id: range.id,
-          checkInDate: range.start,
-          checkOutDate: addDays(range.end, 1),
-          status: "ACTIVE",
+          reason: range.reason,
+          note: range.note,
           start: range.start,
           endInclusive: range.end,
           endExclusive: addDays(range.end, 1),
-          reason: range.reason,
         });
       });
     });
 
     return map;
-  }, [normalizedBlockedBookings, optimisticBlocks]);
+  }, [normalizedBlocks, optimisticBlocks]);
 
   const calendarAvailabilityMap = React.useMemo(() => {
     const map = new Map<string, boolean>();
@@ -255,10 +257,10 @@ export default function PropertyCalendarManager({
     return new Set(getInclusiveDateRange(selectedStart, selectedEnd));
   }, [selectedEnd, selectedStart]);
 
-  const selectedBlockedBooking = React.useMemo(() => {
+  const selectedBlock = React.useMemo(() => {
     if (!selectedBlockedId) return null;
-    return normalizedBlockedBookings.find((booking) => booking.id === selectedBlockedId) || null;
-  }, [normalizedBlockedBookings, selectedBlockedId]);
+    return normalizedBlocks.find((block) => block.id === selectedBlockedId) || null;
+  }, [normalizedBlocks, selectedBlockedId]);
 
   const resetSelection = React.useCallback(() => {
     setSelectedStart(null);
@@ -274,17 +276,22 @@ export default function PropertyCalendarManager({
   const refetchCalendarData = React.useCallback(async () => {
     await Promise.all([
       queryClient.invalidateQueries(["property-calendar", propertyId]),
-      queryClient.invalidateQueries(["property-blocked-bookings", propertyId]),
-      queryClient.invalidateQueries(["realtor-bookings"]),
+      queryClient.invalidateQueries(["property-availability-blocks", propertyId]),
     ]);
   }, [propertyId, queryClient]);
 
   const blockMutation = useMutation({
-    mutationFn: async (payload: { start: string; end: string; reason: string }) =>
-      bookingService.blockDates(propertyId, {
+    mutationFn: async (payload: {
+      start: string;
+      end: string;
+      reason: AvailabilityBlockReason;
+      note: string;
+    }) =>
+      propertyService.createAvailabilityBlock(propertyId, {
         startDate: payload.start,
         endDate: addDays(payload.end, 1),
         reason: payload.reason,
+        note: payload.note || undefined,
       }),
     onMutate: async (payload) => {
       const optimisticId = `optimistic-${Date.now()}`;
@@ -295,6 +302,7 @@ export default function PropertyCalendarManager({
           start: payload.start,
           end: payload.end,
           reason: payload.reason,
+          note: payload.note,
         },
       ]);
       return { optimisticId };
@@ -311,6 +319,7 @@ export default function PropertyCalendarManager({
     },
     onSuccess: async () => {
       setOptimisticBlocks([]);
+      setBlockNote("");
       resetSelection();
       toast.success("Dates blocked successfully.");
       await refetchCalendarData();
@@ -319,7 +328,7 @@ export default function PropertyCalendarManager({
 
   const unblockMutation = useMutation({
     mutationFn: async (payload: { id: string }) =>
-      bookingService.unblockDates(payload.id, "Dates unblocked by realtor"),
+      propertyService.deleteAvailabilityBlock(propertyId, payload.id),
     onMutate: async (payload) => {
       setOptimisticUnblockedIds((prev) => {
         const next = new Set(prev);
@@ -363,9 +372,9 @@ export default function PropertyCalendarManager({
         setInlineError("Select a blocked date to unblock.");
         return;
       }
-      const blockedBooking = blockedDateMap.get(dateKey);
-      if (blockedBooking) {
-        setSelectedBlockedId(blockedBooking.id);
+      const block = blockedDateMap.get(dateKey);
+      if (block) {
+        setSelectedBlockedId(block.id);
       }
       return;
     }
@@ -394,24 +403,26 @@ export default function PropertyCalendarManager({
       setInlineError("Select a start and end date to block.");
       return;
     }
-    if (!blockReason.trim()) {
-      setInlineError("Provide a reason for blocking the selected dates.");
-      return;
-    }
-
     blockMutation.mutate({
       start: selectedStart,
       end: selectedEnd,
-      reason: blockReason.trim(),
+      reason: blockReason,
+      note: blockNote.trim(),
     });
   };
 
   const handleUnblockSubmit = () => {
-    if (!selectedBlockedBooking) {
+    if (!selectedBlock) {
       setInlineError("Select a blocked date range to unblock.");
       return;
     }
-    unblockMutation.mutate({ id: selectedBlockedBooking.id });
+    if (selectedBlock.sourceId) {
+      setInlineError(
+        "These dates come from an imported calendar. Free them on that channel or remove the calendar below.",
+      );
+      return;
+    }
+    unblockMutation.mutate({ id: selectedBlock.id });
   };
 
   return (
@@ -510,9 +521,9 @@ export default function PropertyCalendarManager({
               const isBooked = !isBlocked && !isAvailable;
               const isPast = isPastDate(dateKey);
               const isInSelection = selectedRangeDates.has(dateKey);
-              const blockedBooking = blockedDateMap.get(dateKey);
+              const block = blockedDateMap.get(dateKey);
               const isSelectedBlocked =
-                Boolean(selectedBlockedId) && blockedBooking?.id === selectedBlockedId;
+                Boolean(selectedBlockedId) && block?.id === selectedBlockedId;
 
               const buttonClass = [
                 "h-11 w-full rounded-lg border text-sm font-medium transition",
@@ -575,11 +586,25 @@ export default function PropertyCalendarManager({
                   ? `Selected: ${formatRange(selectedStart, selectedEnd)}`
                   : "Pick start and end dates from the calendar."}
               </p>
+              <select
+                value={blockReason}
+                onChange={(event) =>
+                  setBlockReason(event.target.value as AvailabilityBlockReason)
+                }
+                className="mb-3 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900"
+              >
+                {BLOCK_REASON_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
               <input
                 type="text"
-                value={blockReason}
-                onChange={(event) => setBlockReason(event.target.value)}
-                placeholder="Reason (e.g. maintenance)"
+                value={blockNote}
+                onChange={(event) => setBlockNote(event.target.value)}
+                placeholder="Note (optional)"
+                maxLength={500}
                 className="mb-3 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900"
               />
               <Button
@@ -596,17 +621,23 @@ export default function PropertyCalendarManager({
               <p className="mb-3 text-sm font-medium text-gray-900">
                 Unblock selected dates
               </p>
-              {selectedBlockedBooking ? (
+              {selectedBlock ? (
                 <div className="mb-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
                   <p className="font-semibold">
-                    {formatRange(
-                      selectedBlockedBooking.start,
-                      selectedBlockedBooking.endInclusive,
-                    )}
+                    {formatRange(selectedBlock.start, selectedBlock.endInclusive)}
                   </p>
                   <p className="mt-1">
-                    Reason: {selectedBlockedBooking.reason || "No reason provided"}
+                    Reason: {formatBlockReason(selectedBlock.reason)}
                   </p>
+                  {selectedBlock.note ? (
+                    <p className="mt-1">Note: {selectedBlock.note}</p>
+                  ) : null}
+                  {selectedBlock.sourceId ? (
+                    <p className="mt-1">
+                      Imported from an external calendar and updated on every
+                      sync.
+                    </p>
+                  ) : null}
                 </div>
               ) : (
                 <p className="mb-3 text-xs text-gray-600">
@@ -616,7 +647,7 @@ export default function PropertyCalendarManager({
               <Button
                 onClick={handleUnblockSubmit}
                 loading={unblockMutation.isLoading}
-                disabled={!selectedBlockedBooking}
+                disabled={!selectedBlock || Boolean(selectedBlock.sourceId)}
                 variant="outline"
                 size="sm"
               >
@@ -0,0 +1,333 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import {
+  AlertTriangle,
+  Copy,
+  Link2,
+  RefreshCw,
+  Trash2,
+} from "lucide-react";
+import {
+  calendarSyncService,
+  CalendarSyncStatus,
+  ExternalCalendarSource,
+} from "@/services/calendarSync";
+import { Button, Card } from "@/components/ui";
+
+interface PropertyCalendarSyncPanelProps {
+  propertyId: string;
+}
+
+const STATUS_STYLES: Record<
+  CalendarSyncStatus,
+  { label: string; className: string }
+> = {
+  PENDING: { label: "Pending", className: "bg-gray-100 text-gray-700" },
+  SUCCESS: { label: "Synced", className: "bg-green-100 text-green-700" },
+  CONFLICT: { label: "Conflict", className: "bg-amber-100 text-amber-800" },
+  FAILED: { label: "Failed", className: "bg-red-100 text-red-700" },
+};
+
+const formatSyncTime = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      })
+    : "Never";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+export default function PropertyCalendarSyncPanel({
+  propertyId,
+}: PropertyCalendarSyncPanelProps) {
+  const queryClient = useQueryClient();
+  const [sourceName, setSourceName] = React.useState("");
+  const [sourceUrl, setSourceUrl] = React.useState("");
+  const [syncingSourceId, setSyncingSourceId] = React.useState<string | null>(
+    null
+  );
+
+  const settingsQueryKey = ["property-calendar-sync", propertyId];
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: settingsQueryKey,
+    queryFn: () => calendarSyncService.getSettings(propertyId),
+    enabled: Boolean(propertyId),
+  });
+
+  const refreshCalendars = async () => {
+    await Promise.all([
+      queryClient.invalidateQueries(settingsQueryKey),
+      queryClient.invalidateQueries(["property-calendar", propertyId]),
+      queryClient.invalidateQueries([
+        "property-availability-blocks",
+        propertyId,
+      ]),
+    ]);
+  };
+
+  const rotateMutation = useMutation({
+    mutationFn: () => calendarSyncService.rotateFeedUrl(propertyId),
+    onSuccess: async () => {
+      toast.success("Feed link regenerated. Update it on your other channels.");
+      await queryClient.invalidateQueries(settingsQueryKey);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to regenerate feed link."));
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      calendarSyncService.addSource(propertyId, {
+        name: sourceName.trim(),
+        url: sourceUrl.trim(),
+      }),
+    onSuccess: async ({ sync }) => {
+      setSourceName("");
+      setSourceUrl("");
+      if (sync.status === "FAILED") {
+        toast.error(sync.error || "Calendar added, but the first sync failed.");
+      } else {
+        toast.success(`Calendar imported (${sync.eventCount} events).`);
+      }
+      await refreshCalendars();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to import calendar."));
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: (sourceId: string) => calendarSyncService.syncSource(sourceId),
+    onMutate: (sourceId) => setSyncingSourceId(sourceId),
+    onSettled: () => setSyncingSourceId(null),
+    onSuccess: async ({ sync }) => {
+      if (sync.status === "FAILED") {
+        toast.error(sync.error || "Calendar sync failed.");
+      } else {
+        toast.success("Calendar synced.");
+      }
+      await refreshCalendars();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to sync calendar."));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (sourceId: string) => calendarSyncService.deleteSource(sourceId),
+    onSuccess: async () => {
+      toast.success("Calendar removed and its dates released.");
+      await refreshCalendars();
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error, "Unable to remove calendar."));
+    },
+  });
+
+  const handleCopyFeedUrl = async () => {
+    if (!settings?.feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(settings.feedUrl);
+      toast.success("Feed link copied.");
+    } catch {
+      toast.error("Unable to copy feed link.");
+    }
+  };
+
+  const handleRotate = () => {
+    if (
+      window.confirm(
+        "Regenerate the feed link? Channels using the current link will stop receiving updates."
+      )
+    ) {
+      rotateMutation.mutate();
+    }
+  };
+
+  const handleDelete = (source: ExternalCalendarSource) => {
+    if (
+      window.confirm(
+        `Stop importing "${source.name}"? Dates it blocked will become bookable again.`
+      )
+    ) {
+      deleteMutation.mutate(source.id);
+    }
+  };
+
+  const handleAddSource = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!sourceName.trim() || !sourceUrl.trim()) {
+      toast.error("Enter a name and calendar link.");
+      return;
+    }
+    addMutation.mutate();
+  };
+
+  return (
+    <Card className="mt-6 rounded-2xl border border-gray-200 bg-white p-6">
+      <div className="mb-5">
+        <h3 className="text-lg font-semibold text-gray-900">Calendar Sync</h3>
+        <p className="text-sm text-gray-600">
+          Keep Airbnb, Booking.com and other channels in step with Stayza to
+          avoid double bookings.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="rounded-xl border border-gray-200 bg-gray-50 p-6 text-sm text-gray-500">
+          Loading calendar sync settings...
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="rounded-xl border border-gray-200 bg-gray-50 p-4">
+            <p className="mb-1 text-sm font-medium text-gray-900">
+              Export to other channels
+            </p>
+            <p className="mb-3 text-xs text-gray-600">
+              Paste this link into the other channel&apos;s calendar import.
+              It includes your bookings and dates you blocked here.
+            </p>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <input
+                type="text"
+                readOnly
+                value={settings?.feedUrl || ""}
+                className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-xs text-gray-700"
+                onFocus={(event) => event.target.select()}
+              />
+              <Button size="sm" variant="outline" onClick={handleCopyFeedUrl}>
+                <Copy className="mr-1 h-4 w-4" />
+                Copy
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleRotate}
+                loading={rotateMutation.isLoading}
+              >
+                <RefreshCw className="mr-1 h-4 w-4" />
+                Regenerate
+              </Button>
+            </div>
+          </div>
+
+          <div>
+            <p className="mb-3 text-sm font-medium text-gray-900">
+              Imported calendars
+            </p>
+
+            {settings?.sources.length ? (
+              <ul className="space-y-3">
+                {settings.sources.map((source) => {
+                  const status = STATUS_STYLES[source.syncStatus];
+                  return (
+                    <li
+                      key={source.id}
+                      className="rounded-xl border border-gray-200 p-4"
+                    >
+                      <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <Link2 className="h-4 w-4 text-gray-500" />
+                            <span className="font-medium text-gray-900">
+                              {source.name}
+                            </span>
+                            <span
+                              className={`rounded-full px-2 py-0.5 text-xs font-medium ${status.className}`}
+                            >
+                              {status.label}
+                            </span>
+                          </div>
+                          <p className="mt-1 truncate text-xs text-gray-500">
+                            {source.url}
+                          </p>
+                          <p className="mt-1 text-xs text-gray-500">
+                            Last synced {formatSyncTime(source.lastSyncedAt)} ·{" "}
+                            {source.lastEventCount} upcoming events
+                          </p>
+                          {source.syncStatus === "CONFLICT" ? (
+                            <p className="mt-2 inline-flex items-center gap-1 text-xs text-amber-800">
+                              <AlertTriangle className="h-3.5 w-3.5" />
+                              {source.conflictCount} event(s) overlap existing
+                              Stayza bookings.
+                            </p>
+                          ) : null}
+                          {source.syncStatus === "FAILED" &&
+                          source.lastError ? (
+                            <p className="mt-2 text-xs text-red-700">
+                              {source.lastError}
+                            </p>
+                          ) : null}
+                        </div>
+                        <div className="flex shrink-0 gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => syncMutation.mutate(source.id)}
+                            loading={syncingSourceId === source.id}
+                          >
+                            <RefreshCw className="mr-1 h-4 w-4" />
+                            Sync now
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDelete(source)}
+                            disabled={deleteMutation.isLoading}
+                            aria-label={`Remove ${source.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-600">
+                No calendars imported yet.
+              </p>
+            )}
+          </div>
+
+          <form
+            onSubmit={handleAddSource}
+            className="rounded-xl border border-gray-200 bg-gray-50 p-4"
+          >
+            <p className="mb-3 text-sm font-medium text-gray-900">
+              Import a calendar
+            </p>
+            <input
+              type="text"
+              value={sourceName}
+              onChange={(event) => setSourceName(event.target.value)}
+              placeholder="Name (e.g. Airbnb)"
+              maxLength={100}
+              className="mb-3 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900"
+            />
+            <input
+              type="url"
+              value={sourceUrl}
+              onChange={(event) => setSourceUrl(event.target.value)}
+              placeholder="https://www.airbnb.com/calendar/ical/....ics"
+              className="mb-3 w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900"
+            />
+            <Button type="submit" size="sm" loading={addMutation.isLoading}>
+              Import Calendar
+            </Button>
+          </form>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import { Plus, Trash2 } from "lucide-react";
+import { propertyService } from "@/services/properties";
+import { CancellationPolicy, CancellationPolicyType } from "@/types";
+import {
+  CANCELLATION_POLICY_PRESETS,
+  describeCancellationPolicy,
+} from "@/utils/bookingEnums";
+import { Button, Card } from "@/components/ui";
+
+interface PropertyCancellationPolicyEditorProps {
+  propertyId: string;
+}
+
+// Custom tiers are edited in days and whole percentages, saved as hours and
+// fractions.
+interface TierForm {
+  key: string;
+  days: string;
+  refundPercent: string;
+}
+
+const POLICY_OPTIONS: CancellationPolicyType[] = [
+  "FLEXIBLE",
+  "MODERATE",
+  "STRICT",
+  "NON_REFUNDABLE",
+  "CUSTOM",
+];
+
+const MAX_CUSTOM_TIERS = 6;
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900";
+
+const buildTierForms = (policy: CancellationPolicy): TierForm[] =>
+  policy.tiers.map((tier, index) => ({
+    key: `tier-${index}`,
+    days: String(Number((tier.minHoursBeforeCheckIn / 24).toFixed(2))),
+    refundPercent: String(Number((tier.refundRate * 100).toFixed(2))),
+  }));
+
+const buildCustomPolicy = (
+  name: string,
+  tiers: TierForm[]
+): CancellationPolicy => ({
+  type: "CUSTOM",
+  name: name.trim() || "Custom",
+  tiers: tiers.map((tier) => ({
+    minHoursBeforeCheckIn: Math.round(Number(tier.days) * 24),
+    refundRate: Number(tier.refundPercent) / 100,
+  })),
+});
+
+export default function PropertyCancellationPolicyEditor({
+  propertyId,
+}: PropertyCancellationPolicyEditorProps) {
+  const queryClient = useQueryClient();
+  const [type, setType] = React.useState<CancellationPolicyType>("FLEXIBLE");
+  const [customName, setCustomName] = React.useState("");
+  const [customTiers, setCustomTiers] = React.useState<TierForm[]>([]);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["property-cancellation-policy", propertyId],
+    queryFn: () => propertyService.getCancellationPolicy(propertyId),
+    enabled: Boolean(propertyId),
+  });
+
+  React.useEffect(() => {
+    if (data) {
+      setType(data.policy.type);
+      if (data.policy.type === "CUSTOM") {
+        setCustomName(data.policy.name);
+        setCustomTiers(buildTierForms(data.policy));
+      }
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (policy: CancellationPolicy) =>
+      propertyService.updateCancellationPolicy(propertyId, policy),
+    onSuccess: async () => {
+      toast.success("Cancellation policy saved.");
+      await queryClient.invalidateQueries([
+        "property-cancellation-policy",
+        propertyId,
+      ]);
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Unable to save cancellation policy."
+      );
+    },
+  });
+
+  const selectedPolicy =
+    type === "CUSTOM"
+      ? buildCustomPolicy(customName, customTiers)
+      : CANCELLATION_POLICY_PRESETS[type];
+
+  const updateTier = (key: string, changes: Partial<TierForm>) =>
+    setCustomTiers((prev) =>
+      prev.map((tier) => (tier.key === key ? { ...tier, ...changes } : tier))
+    );
+
+  const addTier = () =>
+    setCustomTiers((prev) => [
+      ...prev,
+      { key: `tier-${Date.now()}`, days: "", refundPercent: "" },
+    ]);
+
+  const removeTier = (key: string) =>
+    setCustomTiers((prev) => prev.filter((tier) => tier.key !== key));
+
+  return (
+    <Card className="mt-6 rounded-2xl border border-gray-200 bg-white p-6">
+      <div className="mb-5">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Cancellation Policy
+        </h3>
+        <p className="text-sm text-gray-600">
+          Choose how much of the room fee guests get back when they cancel.
+          Security deposits are always refunded and guests cannot cancel within
+          24 hours of check-in. Existing bookings keep the policy they were
+          booked under.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="rounded-xl border border-gray-200 bg-gray-50 p-6 text-sm text-gray-500">
+          Loading cancellation policy...
+        </div>
+      ) : (
+        <div className="space-y-5">
+          <div className="flex flex-wrap gap-2">
+            {POLICY_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setType(option)}
+                className={`rounded-lg border px-3 py-1.5 text-sm ${
+                  type === option
+                    ? "border-blue-400 bg-blue-50 text-blue-700"
+                    : "border-gray-200 text-gray-600"
+                }`}
+              >
+                {option === "CUSTOM"
+                  ? "Custom"
+                  : CANCELLATION_POLICY_PRESETS[option].name}
+              </button>
+            ))}
+          </div>
+
+          {type === "CUSTOM" ? (
+            <section className="space-y-3">
+              <label className="block text-sm text-gray-700">
+                Policy name
+                <input
+                  type="text"
+                  value={customName}
+                  onChange={(event) => setCustomName(event.target.value)}
+                  placeholder="Custom"
+                  maxLength={60}
+                  className={`mt-1 ${INPUT_CLASS}`}
+                />
+              </label>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-gray-600">
+                  Each tier refunds a % of the room fee when the guest cancels
+                  at least that many days before check-in (1 day minimum).
+                </p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={addTier}
+                  disabled={customTiers.length >= MAX_CUSTOM_TIERS}
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add tier
+                </Button>
+              </div>
+              {customTiers.map((tier) => (
+                <div
+                  key={tier.key}
+                  className="grid gap-2 rounded-xl border border-gray-200 p-3 sm:grid-cols-[1fr_1fr_auto]"
+                >
+                  <input
+                    type="number"
+                    min={1}
+                    value={tier.days}
+                    onChange={(event) =>
+                      updateTier(tier.key, { days: event.target.value })
+                    }
+                    placeholder="Days before check-in"
+                    className={INPUT_CLASS}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={tier.refundPercent}
+                    onChange={(event) =>
+                      updateTier(tier.key, {
+                        refundPercent: event.target.value,
+                      })
+                    }
+                    placeholder="% refunded"
+                    className={INPUT_CLASS}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeTier(tier.key)}
+                    className="rounded-lg border border-gray-200 p-2 text-gray-500 hover:text-red-600"
+                    aria-label="Remove tier"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </section>
+          ) : null}
+
+          <div className="rounded-xl border border-gray-200 bg-gray-50 p-4">
+            <p className="mb-2 text-sm font-medium text-gray-900">
+              Guests will see
+            </p>
+            <ul className="list-disc space-y-1 pl-5 text-sm text-gray-700">
+              {describeCancellationPolicy(selectedPolicy).map((line) => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => saveMutation.mutate(selectedPolicy)}
+              loading={saveMutation.isLoading}
+            >
+              Save Policy
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,505 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import { Plus, Trash2 } from "lucide-react";
+import { propertyService } from "@/services/properties";
+import { PricingRules } from "@/types";
+import { Button, Card } from "@/components/ui";
+
+interface PropertyPricingRulesEditorProps {
+  propertyId: string;
+}
+
+// Form state keeps raw input strings; percentages are whole numbers here
+// and converted to fractions when saving.
+interface SeasonForm {
+  key: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  pricePerNight: string;
+  adjustmentPercent: string;
+}
+
+interface PricingForm {
+  weekdayPrice: string;
+  weekendPrice: string;
+  weekendNights: number[];
+  weeklyDiscountPercent: string;
+  monthlyDiscountPercent: string;
+  lastMinuteDays: string;
+  lastMinuteDiscountPercent: string;
+  earlyBirdDays: string;
+  earlyBirdDiscountPercent: string;
+  minNights: string;
+  maxNights: string;
+  seasons: SeasonForm[];
+}
+
+const WEEKDAY_OPTIONS = [
+  { value: 0, label: "Sun" },
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+];
+
+const DEFAULT_WEEKEND_NIGHTS = [5, 6];
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900";
+
+const toInput = (value?: number | null) =>
+  value === null || value === undefined ? "" : String(value);
+
+const rateToPercentInput = (rate?: number | null) =>
+  rate === null || rate === undefined
+    ? ""
+    : String(Number((rate * 100).toFixed(2)));
+
+const toOptionalNumber = (value: string): number | null =>
+  value.trim() === "" ? null : Number(value);
+
+const percentToRate = (value: string): number | null => {
+  const parsed = toOptionalNumber(value);
+  return parsed === null ? null : parsed / 100;
+};
+
+const buildForm = (rules: PricingRules | null): PricingForm => ({
+  weekdayPrice: toInput(rules?.weekdayPrice),
+  weekendPrice: toInput(rules?.weekendPrice),
+  weekendNights: rules?.weekendNights?.length
+    ? rules.weekendNights
+    : DEFAULT_WEEKEND_NIGHTS,
+  weeklyDiscountPercent: rateToPercentInput(rules?.weeklyDiscountRate),
+  monthlyDiscountPercent: rateToPercentInput(rules?.monthlyDiscountRate),
+  lastMinuteDays: toInput(rules?.lastMinute?.days),
+  lastMinuteDiscountPercent: rules?.lastMinute
+    ? rateToPercentInput(-rules.lastMinute.adjustmentRate)
+    : "",
+  earlyBirdDays: toInput(rules?.earlyBird?.days),
+  earlyBirdDiscountPercent: rules?.earlyBird
+    ? rateToPercentInput(-rules.earlyBird.adjustmentRate)
+    : "",
+  minNights: toInput(rules?.minNights),
+  maxNights: toInput(rules?.maxNights),
+  seasons: (rules?.seasonalRates || []).map((season, index) => ({
+    key: `season-${index}`,
+    name: season.name,
+    startDate: season.startDate,
+    endDate: season.endDate,
+    pricePerNight: toInput(season.pricePerNight),
+    adjustmentPercent: rateToPercentInput(season.adjustmentRate),
+  })),
+});
+
+const buildLeadTimeRule = (days: string, discountPercent: string) => {
+  const parsedDays = toOptionalNumber(days);
+  const discountRate = percentToRate(discountPercent);
+  if (parsedDays === null || discountRate === null) {
+    return null;
+  }
+  return { days: parsedDays, adjustmentRate: -discountRate };
+};
+
+const buildRules = (form: PricingForm): PricingRules => ({
+  weekdayPrice: toOptionalNumber(form.weekdayPrice),
+  weekendPrice: toOptionalNumber(form.weekendPrice),
+  weekendNights: form.weekendNights,
+  weeklyDiscountRate: percentToRate(form.weeklyDiscountPercent),
+  monthlyDiscountRate: percentToRate(form.monthlyDiscountPercent),
+  lastMinute: buildLeadTimeRule(
+    form.lastMinuteDays,
+    form.lastMinuteDiscountPercent
+  ),
+  earlyBird: buildLeadTimeRule(
+    form.earlyBirdDays,
+    form.earlyBirdDiscountPercent
+  ),
+  minNights: toOptionalNumber(form.minNights),
+  maxNights: toOptionalNumber(form.maxNights),
+  seasonalRates: form.seasons.map((season) => ({
+    name: season.name,
+    startDate: season.startDate,
+    endDate: season.endDate,
+    pricePerNight: toOptionalNumber(season.pricePerNight),
+    adjustmentRate: percentToRate(season.adjustmentPercent),
+  })),
+});
+
+export default function PropertyPricingRulesEditor({
+  propertyId,
+}: PropertyPricingRulesEditorProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = React.useState<PricingForm>(() => buildForm(null));
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["property-pricing-rules", propertyId],
+    queryFn: () => propertyService.getPricingRules(propertyId),
+    enabled: Boolean(propertyId),
+  });
+
+  React.useEffect(() => {
+    if (data) {
+      setForm(buildForm(data.rules));
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: (rules: PricingRules | null) =>
+      propertyService.updatePricingRules(propertyId, rules),
+    onSuccess: async () => {
+      toast.success("Pricing rules saved.");
+      await queryClient.invalidateQueries([
+        "property-pricing-rules",
+        propertyId,
+      ]);
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof Error ? error.message : "Unable to save pricing rules."
+      );
+    },
+  });
+
+  const updateField = <K extends keyof PricingForm>(
+    field: K,
+    value: PricingForm[K]
+  ) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  const updateSeason = (key: string, changes: Partial<SeasonForm>) =>
+    setForm((prev) => ({
+      ...prev,
+      seasons: prev.seasons.map((season) =>
+        season.key === key ? { ...season, ...changes } : season
+      ),
+    }));
+
+  const toggleWeekendNight = (day: number) =>
+    updateField(
+      "weekendNights",
+      form.weekendNights.includes(day)
+        ? form.weekendNights.filter((value) => value !== day)
+        : [...form.weekendNights, day].sort()
+    );
+
+  const addSeason = () =>
+    updateField("seasons", [
+      ...form.seasons,
+      {
+        key: `season-${Date.now()}`,
+        name: "",
+        startDate: "",
+        endDate: "",
+        pricePerNight: "",
+        adjustmentPercent: "",
+      },
+    ]);
+
+  const removeSeason = (key: string) =>
+    updateField(
+      "seasons",
+      form.seasons.filter((season) => season.key !== key)
+    );
+
+  const handleReset = () => {
+    if (
+      window.confirm(
+        "Remove all pricing rules and charge the flat nightly price again?"
+      )
+    ) {
+      saveMutation.mutate(null);
+    }
+  };
+
+  const currency = data?.currency || "NGN";
+
+  return (
+    <Card className="mt-6 rounded-2xl border border-gray-200 bg-white p-6">
+      <div className="mb-5">
+        <h3 className="text-lg font-semibold text-gray-900">Pricing Rules</h3>
+        <p className="text-sm text-gray-600">
+          Adjust nightly prices by day, season, stay length and booking lead
+          time. Existing bookings keep the prices they were quoted.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="rounded-xl border border-gray-200 bg-gray-50 p-6 text-sm text-gray-500">
+          Loading pricing rules...
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <section className="grid gap-4 sm:grid-cols-2">
+            <label className="text-sm text-gray-700">
+              Weekday price ({currency})
+              <input
+                type="number"
+                min={0}
+                value={form.weekdayPrice}
+                onChange={(event) =>
+                  updateField("weekdayPrice", event.target.value)
+                }
+                placeholder={
+                  data ? `Default: ${data.pricePerNight}` : "Base price"
+                }
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Weekend price ({currency})
+              <input
+                type="number"
+                min={0}
+                value={form.weekendPrice}
+                onChange={(event) =>
+                  updateField("weekendPrice", event.target.value)
+                }
+                placeholder="Same as weekday"
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <div className="sm:col-span-2">
+              <p className="mb-2 text-sm text-gray-700">Weekend nights</p>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleWeekendNight(option.value)}
+                    className={`rounded-lg border px-3 py-1.5 text-sm ${
+                      form.weekendNights.includes(option.value)
+                        ? "border-blue-400 bg-blue-50 text-blue-700"
+                        : "border-gray-200 text-gray-600"
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          <section className="grid gap-4 sm:grid-cols-2">
+            <label className="text-sm text-gray-700">
+              Weekly discount (7+ nights, %)
+              <input
+                type="number"
+                min={0}
+                max={99}
+                value={form.weeklyDiscountPercent}
+                onChange={(event) =>
+                  updateField("weeklyDiscountPercent", event.target.value)
+                }
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Monthly discount (28+ nights, %)
+              <input
+                type="number"
+                min={0}
+                max={99}
+                value={form.monthlyDiscountPercent}
+                onChange={(event) =>
+                  updateField("monthlyDiscountPercent", event.target.value)
+                }
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <div className="text-sm text-gray-700">
+              Last-minute discount
+              <div className="mt-1 grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={form.lastMinuteDays}
+                  onChange={(event) =>
+                    updateField("lastMinuteDays", event.target.value)
+                  }
+                  placeholder="Within days"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  type="number"
+                  value={form.lastMinuteDiscountPercent}
+                  onChange={(event) =>
+                    updateField("lastMinuteDiscountPercent", event.target.value)
+                  }
+                  placeholder="% off"
+                  className={INPUT_CLASS}
+                />
+              </div>
+            </div>
+            <div className="text-sm text-gray-700">
+              Early-bird discount
+              <div className="mt-1 grid grid-cols-2 gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={form.earlyBirdDays}
+                  onChange={(event) =>
+                    updateField("earlyBirdDays", event.target.value)
+                  }
+                  placeholder="Days ahead"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  type="number"
+                  value={form.earlyBirdDiscountPercent}
+                  onChange={(event) =>
+                    updateField("earlyBirdDiscountPercent", event.target.value)
+                  }
+                  placeholder="% off"
+                  className={INPUT_CLASS}
+                />
+              </div>
+            </div>
+            <label className="text-sm text-gray-700">
+              Minimum nights
+              <input
+                type="number"
+                min={1}
+                value={form.minNights}
+                onChange={(event) =>
+                  updateField("minNights", event.target.value)
+                }
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Maximum nights
+              <input
+                type="number"
+                min={1}
+                value={form.maxNights}
+                onChange={(event) =>
+                  updateField("maxNights", event.target.value)
+                }
+                className={`mt-1 ${INPUT_CLASS}`}
+              />
+            </label>
+          </section>
+
+          <section>
+            <div className="mb-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  Seasonal rates
+                </p>
+                <p className="text-xs text-gray-600">
+                  Set a fixed nightly price or a % change (e.g. 20 or -10).
+                  The first matching season applies.
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={addSeason}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add season
+              </Button>
+            </div>
+            {form.seasons.length === 0 ? (
+              <p className="text-xs text-gray-500">No seasonal rates.</p>
+            ) : (
+              <div className="space-y-3">
+                {form.seasons.map((season) => (
+                  <div
+                    key={season.key}
+                    className="grid gap-2 rounded-xl border border-gray-200 p-3 sm:grid-cols-[1.4fr_1fr_1fr_1fr_1fr_auto]"
+                  >
+                    <input
+                      type="text"
+                      value={season.name}
+                      onChange={(event) =>
+                        updateSeason(season.key, { name: event.target.value })
+                      }
+                      placeholder="Name"
+                      maxLength={80}
+                      className={INPUT_CLASS}
+                    />
+                    <input
+                      type="date"
+                      value={season.startDate}
+                      onChange={(event) =>
+                        updateSeason(season.key, {
+                          startDate: event.target.value,
+                        })
+                      }
+                      aria-label="First night"
+                      className={INPUT_CLASS}
+                    />
+                    <input
+                      type="date"
+                      value={season.endDate}
+                      onChange={(event) =>
+                        updateSeason(season.key, {
+                          endDate: event.target.value,
+                        })
+                      }
+                      aria-label="Last night"
+                      className={INPUT_CLASS}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={season.pricePerNight}
+                      onChange={(event) =>
+                        updateSeason(season.key, {
+                          pricePerNight: event.target.value,
+                        })
+                      }
+                      placeholder={`Price (${currency})`}
+                      className={INPUT_CLASS}
+                    />
+                    <input
+                      type="number"
+                      value={season.adjustmentPercent}
+                      onChange={(event) =>
+                        updateSeason(season.key, {
+                          adjustmentPercent: event.target.value,
+                        })
+                      }
+                      placeholder="or % change"
+                      className={INPUT_CLASS}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeSeason(season.key)}
+                      className="inline-flex items-center justify-center rounded-lg px-2 text-gray-500 hover:text-red-600"
+                      aria-label="Remove season"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <div className="flex flex-wrap gap-3">
+            <Button
+              onClick={() => saveMutation.mutate(buildRules(form))}
+              loading={saveMutation.isLoading}
+              size="sm"
+            >
+              Save Pricing Rules
+            </Button>
+            {data?.rules ? (
+              <Button
+                onClick={handleReset}
+                disabled={saveMutation.isLoading}
+                variant="ghost"
+                size="sm"
+              >
+                Use flat price only
+              </Button>
+            ) : null}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
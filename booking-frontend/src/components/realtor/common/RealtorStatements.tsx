@@ -0,0 +1,314 @@
+"use client";
+
+import React from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns";
+import { Download, FileText, Loader2 } from "lucide-react";
+import { toast } from "react-hot-toast";
+import { Button, Card } from "@/components/ui";
+import { formatCurrency } from "@/utils/formatters";
+import { SETTLEMENT_CURRENCIES } from "@/utils/currency";
+import {
+  RealtorStatement,
+  StatementPeriodType,
+  statementService,
+} from "@/services/statements";
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// Periods are calendar months and years in UTC
+const statementTitle = (statement: RealtorStatement) => {
+  const start = new Date(statement.periodStart);
+  return statement.periodType === "ANNUAL"
+    ? `${start.getUTCFullYear()} annual statement`
+    : `${MONTHS[start.getUTCMonth()]} ${start.getUTCFullYear()}`;
+};
+
+// Matches the API's filenames: naira statements carry no suffix
+const filenameFor = (statement: RealtorStatement, extension: "pdf" | "csv") =>
+  `stayza-statement-${statement.periodStart.slice(
+    0,
+    statement.periodType === "ANNUAL" ? 4 : 7
+  )}${
+    statement.currency === "NGN" ? "" : `-${statement.currency.toLowerCase()}`
+  }.${extension}`;
+
+export default function RealtorStatements() {
+  const now = new Date();
+  const lastClosedMonth = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)
+  );
+  const [statements, setStatements] = React.useState<RealtorStatement[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [generating, setGenerating] = React.useState(false);
+  const [periodFilter, setPeriodFilter] = React.useState<
+    StatementPeriodType | "all"
+  >("all");
+  const [periodType, setPeriodType] =
+    React.useState<StatementPeriodType>("MONTHLY");
+  const [year, setYear] = React.useState(lastClosedMonth.getUTCFullYear());
+  const [month, setMonth] = React.useState(lastClosedMonth.getUTCMonth() + 1);
+  const [currency, setCurrency] = React.useState("NGN");
+
+  const years = Array.from(
+    { length: 5 },
+    (_, index) => now.getUTCFullYear() - index
+  );
+
+  const loadStatements = React.useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await statementService.getStatements({
+        periodType: periodFilter,
+        limit: 50,
+      });
+      setStatements(response.data);
+    } catch (loadError) {
+      toast.error(errorMessage(loadError, "Failed to load statements."));
+    } finally {
+      setLoading(false);
+    }
+  }, [periodFilter]);
+
+  React.useEffect(() => {
+    void loadStatements();
+  }, [loadStatements]);
+
+  const generate = async () => {
+    try {
+      setGenerating(true);
+      await statementService.generate(
+        periodType === "MONTHLY"
+          ? { periodType, year, month, currency }
+          : { periodType, year, currency }
+      );
+      toast.success("Statement ready.");
+      await loadStatements();
+    } catch (generateError) {
+      toast.error(errorMessage(generateError, "Failed to generate statement."));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const download = async (
+    statement: RealtorStatement,
+    fileFormat: "pdf" | "csv"
+  ) => {
+    try {
+      const blob = await statementService.download(statement.id, fileFormat);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filenameFor(statement, fileFormat);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (downloadError) {
+      toast.error(errorMessage(downloadError, "Failed to download statement."));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-5xl mx-auto space-y-8">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-2xl p-8 shadow-sm border border-gray-100"
+        >
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-2xl bg-blue-50 flex items-center justify-center">
+              <FileText className="w-7 h-7 text-blue-600" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Statements</h1>
+              <p className="text-gray-600 mt-1">
+                Monthly and annual statements for your accountant. Each month is
+                emailed to you once it closes; statements never change after
+                they are generated.
+              </p>
+            </div>
+          </div>
+        </motion.div>
+
+        <Card className="p-6 border border-gray-200 shadow-sm">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Generate a statement
+          </h2>
+          <p className="mt-1 text-sm text-gray-600">
+            Only months and years that have already ended can be generated.
+          </p>
+          <div className="mt-4 flex flex-wrap items-end gap-3">
+            <label className="text-sm text-gray-700">
+              Period
+              <select
+                value={periodType}
+                onChange={(event) =>
+                  setPeriodType(event.target.value as StatementPeriodType)
+                }
+                className="mt-1 block rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="MONTHLY">Monthly</option>
+                <option value="ANNUAL">Annual</option>
+              </select>
+            </label>
+            {periodType === "MONTHLY" ? (
+              <label className="text-sm text-gray-700">
+                Month
+                <select
+                  value={month}
+                  onChange={(event) => setMonth(Number(event.target.value))}
+                  className="mt-1 block rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                >
+                  {MONTHS.map((name, index) => (
+                    <option key={name} value={index + 1}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <label className="text-sm text-gray-700">
+              Year
+              <select
+                value={year}
+                onChange={(event) => setYear(Number(event.target.value))}
+                className="mt-1 block rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              >
+                {years.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Wallet
+              <select
+                value={currency}
+                onChange={(event) => setCurrency(event.target.value)}
+                className="mt-1 block rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              >
+                {SETTLEMENT_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>
+                    {code}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button onClick={() => void generate()} disabled={generating}>
+              {generating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : null}
+              Generate
+            </Button>
+          </div>
+        </Card>
+
+        <Card className="p-6 border border-gray-200 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold text-gray-900">Archive</h2>
+            <select
+              value={periodFilter}
+              onChange={(event) =>
+                setPeriodFilter(
+                  event.target.value as StatementPeriodType | "all"
+                )
+              }
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="all">All statements</option>
+              <option value="MONTHLY">Monthly</option>
+              <option value="ANNUAL">Annual</option>
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-10">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : statements.length === 0 ? (
+            <p className="py-10 text-center text-sm text-gray-500">
+              No statements yet. Your first one arrives after your first month
+              with earnings.
+            </p>
+          ) : (
+            <div className="mt-4 divide-y divide-gray-100">
+              {statements.map((statement) => {
+                const { totals } = statement.summary;
+                const money = (amount: number) =>
+                  formatCurrency(amount, statement.currency);
+                return (
+                  <div
+                    key={statement.id}
+                    className="flex flex-col gap-4 py-4 md:flex-row md:items-center md:justify-between"
+                  >
+                    <div>
+                      <p className="font-semibold text-gray-900">
+                        {statementTitle(statement)}
+                        {statement.currency !== "NGN" && (
+                          <span className="ml-2 text-xs font-medium text-gray-500">
+                            {statement.currency}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        Opening {money(Number(statement.openingBalance))} ·
+                        Closing {money(Number(statement.closingBalance))}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Earned{" "}
+                        {money(
+                          totals.roomFeesCredited + totals.cleaningFeesCredited
+                        )}{" "}
+                        · Commission {money(totals.commission)} · Withdrawn{" "}
+                        {money(totals.withdrawals)} · Generated{" "}
+                        {format(new Date(statement.generatedAt), "d MMM yyyy")}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => void download(statement, "pdf")}
+                      >
+                        <Download className="mr-2 h-4 w-4" />
+                        PDF
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => void download(statement, "csv")}
+                      >
+                        <Download className="mr-2 h-4 w-4" />
+                        CSV
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   ExternalLink,
 } from "lucide-react";
 import { Button, Card } from "@/components/ui";
+import { SupportTicketsPanel } from "@/components/support";
 import { buildMainDomainUrl } from "@/utils/domains";
 
 export default function RealtorSupportCenter() {
@@ -108,6 +109,8 @@ export default function RealtorSupportCenter() {
             );
           })}
         </div>
+
+        <SupportTicketsPanel />
       </div>
     </div>
   );
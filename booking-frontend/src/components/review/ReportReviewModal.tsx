@@ -0,0 +1,157 @@
+"use client";
+
+import React from "react";
+import { toast } from "react-hot-toast";
+import { Flag, X } from "lucide-react";
+import { Button } from "@/components/ui";
+import { reviewService } from "@/services/reviews";
+import { ReviewReportReason } from "@/types";
+
+export const REVIEW_REPORT_REASON_LABELS: Record<ReviewReportReason, string> = {
+  SPAM: "Spam or advertising",
+  OFFENSIVE: "Offensive or hateful language",
+  HARASSMENT: "Harassment or threats",
+  PERSONAL_INFORMATION: "Shares personal information",
+  NOT_ABOUT_STAY: "Not about this stay",
+  FALSE_INFORMATION: "False or misleading",
+  OTHER: "Something else",
+};
+
+interface ReportReviewModalProps {
+  reviewId: string | null;
+  // Realtors reporting a review of their own property request removal
+  isRemovalRequest?: boolean;
+  onClose: () => void;
+  onReported?: (reviewId: string, reason: ReviewReportReason) => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+export function ReportReviewModal({
+  reviewId,
+  isRemovalRequest = false,
+  onClose,
+  onReported,
+}: ReportReviewModalProps) {
+  const [reason, setReason] = React.useState<ReviewReportReason | "">("");
+  const [details, setDetails] = React.useState("");
+  const [submitting, setSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    setReason("");
+    setDetails("");
+  }, [reviewId]);
+
+  if (!reviewId) {
+    return null;
+  }
+
+  const needsDetails = reason === "OTHER" && !details.trim();
+
+  const handleSubmit = async () => {
+    if (!reason || needsDetails) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await reviewService.reportReview(reviewId, {
+        reason,
+        details: details.trim() || undefined,
+      });
+      toast.success(
+        isRemovalRequest
+          ? "Removal request sent to our moderation team."
+          : "Thanks, our moderation team will review this report."
+      );
+      onReported?.(reviewId, reason);
+      onClose();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to report review."));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="w-full max-w-md rounded-2xl bg-white shadow-xl">
+        <div className="flex items-start justify-between border-b border-gray-200 p-6">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900">
+            <Flag className="mr-2 h-5 w-5 text-red-500" />
+            {isRemovalRequest ? "Request Review Removal" : "Report Review"}
+          </h3>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            aria-label="Close"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4 p-6">
+          <p className="text-sm text-gray-600">
+            {isRemovalRequest
+              ? "Reviews can only be removed by our moderation team. Tell us which guideline this review breaks."
+              : "Tell us what is wrong with this review. Our moderation team checks every report."}
+          </p>
+
+          <div className="space-y-2">
+            {(
+              Object.keys(REVIEW_REPORT_REASON_LABELS) as ReviewReportReason[]
+            ).map((value) => (
+              <label
+                key={value}
+                className="flex items-center gap-2 text-sm text-gray-700"
+              >
+                <input
+                  type="radio"
+                  name="review-report-reason"
+                  value={value}
+                  checked={reason === value}
+                  onChange={() => setReason(value)}
+                />
+                {REVIEW_REPORT_REASON_LABELS[value]}
+              </label>
+            ))}
+          </div>
+
+          <textarea
+            value={details}
+            onChange={(event) => setDetails(event.target.value)}
+            rows={3}
+            maxLength={1000}
+            placeholder={
+              reason === "OTHER"
+                ? "Describe the problem (required)"
+                : "Add details (optional)"
+            }
+            className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-gray-200 p-6">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onClose}
+            disabled={submitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => void handleSubmit()}
+            loading={submitting}
+            disabled={!reason || needsDetails}
+          >
+            {isRemovalRequest ? "Request Removal" : "Submit Report"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
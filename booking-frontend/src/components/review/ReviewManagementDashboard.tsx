@@ -2,10 +2,11 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import { toast } from "react-hot-toast";
-import { BarChart3, Eye, EyeOff, Filter, MessageSquare, Star } from "lucide-react";
+import { BarChart3, Eye, EyeOff, Filter, Flag, MessageSquare, Star } from "lucide-react";
 import { Card, Button } from "@/components/ui";
 import { ReviewCard } from "@/components/review/ReviewCard";
-import { Review } from "@/types";
+import { ReportReviewModal } from "@/components/review/ReportReviewModal";
+import { Review, ReviewReportReason, ReviewReportSummary } from "@/types";
 import { reviewService } from "@/services/reviews";
 
 type FilterType = "all" | "responded" | "pending";
@@ -37,6 +38,12 @@ const getErrorMessage = (error: unknown, fallback: string) => {
   return fallback;
 };
 
+const REMOVAL_REQUEST_LABELS: Record<ReviewReportSummary["status"], string> = {
+  PENDING: "Removal requested",
+  UPHELD: "Removed by moderation",
+  DISMISSED: "Removal declined",
+};
+
 const calculateAnalytics = (reviews: Review[]): ReviewAnalytics => {
   if (reviews.length === 0) {
     return {
@@ -117,6 +124,7 @@ export const ReviewManagementDashboard: React.FC<ReviewManagementDashboardProps>
   const [responding, setResponding] = useState<string | null>(null);
   const [responseText, setResponseText] = useState("");
   const [actionLoading, setActionLoading] = useState<Record<string, string>>({});
+  const [reportingReviewId, setReportingReviewId] = useState<string | null>(null);
 
   const filteredReviews = useMemo(
     () => applyFilterAndSort(rawReviews, filter, sortBy),
@@ -239,15 +247,11 @@ export const ReviewManagementDashboard: React.FC<ReviewManagementDashboardProps>
 
     try {
       setLoadingAction(review.id, "visibility");
-      if (scope === "admin") {
-        await reviewService.moderateReview(
-          review.id,
-          nextVisible,
-          nextVisible ? "Approved by admin moderation" : "Hidden by admin moderation",
-        );
-      } else {
-        await reviewService.toggleReviewVisibility(review.id, nextVisible);
-      }
+      await reviewService.moderateReview(
+        review.id,
+        nextVisible,
+        nextVisible ? "Approved by admin moderation" : "Hidden by admin moderation",
+      );
       toast.success(
         nextVisible ? "Review is now visible." : "Review has been hidden.",
       );
@@ -278,33 +282,14 @@ export const ReviewManagementDashboard: React.FC<ReviewManagementDashboardProps>
     }
   };
 
-  const handleReportReview = async (reviewId: string) => {
-    try {
-      setLoadingAction(reviewId, "report");
-      await reviewService.reportReview(reviewId, {
-        reason: "Flagged from moderation dashboard",
-      });
-      toast.success("Review reported.");
-    } catch (error) {
-      toast.error(getErrorMessage(error, "Failed to report review."));
-    } finally {
-      setLoadingAction(reviewId, null);
-    }
-  };
-
-  const handleFlagForAdmin = async (reviewId: string) => {
-    try {
-      setLoadingAction(reviewId, "flag");
-      await reviewService.flagReviewForAdmin(
-        reviewId,
-        "Needs admin moderation review",
-      );
-      toast.success("Review flagged for admin.");
-    } catch (error) {
-      toast.error(getErrorMessage(error, "Failed to flag review."));
-    } finally {
-      setLoadingAction(reviewId, null);
-    }
+  // Realtors cannot hide reviews themselves; they file a removal request
+  const handleRemovalRequested = (reviewId: string, reason: ReviewReportReason) => {
+    updateReview(reviewId, (current) => ({
+      ...current,
+      reports: [
+        { id: "", reason, status: "PENDING", createdAt: new Date().toISOString() },
+      ],
+    }));
   };
 
   if (loading && !analytics) {
@@ -429,30 +414,46 @@ export const ReviewManagementDashboard: React.FC<ReviewManagementDashboardProps>
                 >
                   {review.isVisible === false ? "Hidden" : "Visible"}
                 </span>
+                {review.reports?.[0] && (
+                  <span className="inline-flex items-center rounded-full bg-amber-100 px-2.5 py-1 text-xs font-semibold text-amber-700">
+                    {REMOVAL_REQUEST_LABELS[review.reports[0].status]}
+                  </span>
+                )}
                 <span className="text-xs text-gray-500">
                   Helpful: {Number(review.helpfulCount || 0)}
                 </span>
               </div>
 
               <div className="mt-3 flex flex-wrap gap-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  loading={actionLoading[review.id] === "visibility"}
-                  onClick={() => handleVisibilityToggle(review)}
-                >
-                  {review.isVisible === false ? (
-                    <>
-                      <Eye className="mr-2 h-4 w-4" />
-                      Show Review
-                    </>
-                  ) : (
-                    <>
-                      <EyeOff className="mr-2 h-4 w-4" />
-                      Hide Review
-                    </>
-                  )}
-                </Button>
+                {scope === "admin" ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    loading={actionLoading[review.id] === "visibility"}
+                    onClick={() => handleVisibilityToggle(review)}
+                  >
+                    {review.isVisible === false ? (
+                      <>
+                        <Eye className="mr-2 h-4 w-4" />
+                        Show Review
+                      </>
+                    ) : (
+                      <>
+                        <EyeOff className="mr-2 h-4 w-4" />
+                        Hide Review
+                      </>
+                    )}
+                  </Button>
+                ) : review.isVisible !== false && !review.reports?.length ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setReportingReviewId(review.id)}
+                  >
+                    <Flag className="mr-2 h-4 w-4" />
+                    Request Removal
+                  </Button>
+                ) : null}
                 <Button
                   size="sm"
                   variant="outline"
@@ -462,24 +463,6 @@ export const ReviewManagementDashboard: React.FC<ReviewManagementDashboardProps>
                   <Star className="mr-2 h-4 w-4" />
                   Toggle Helpful
                 </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  loading={actionLoading[review.id] === "report"}
-                  onClick={() => handleReportReview(review.id)}
-                >
-                  Report
-                </Button>
-                {scope === "realtor" && (
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    loading={actionLoading[review.id] === "flag"}
-                    onClick={() => handleFlagForAdmin(review.id)}
-                  >
-                    Flag For Admin
-                  </Button>
-                )}
               </div>
 
               {scope === "realtor" && (
@@ -549,6 +532,13 @@ export const ReviewManagementDashboard: React.FC<ReviewManagementDashboardProps>
         </div>
       )}
 
+      <ReportReviewModal
+        reviewId={reportingReviewId}
+        isRemovalRequest={scope === "realtor"}
+        onClose={() => setReportingReviewId(null)}
+        onReported={handleRemovalRequested}
+      />
+
       <div className="flex justify-end">
         <Button
           size="sm"
@@ -2,3 +2,4 @@ export { ReviewForm } from "./ReviewForm";
 export { ReviewCard } from "./ReviewCard";
 export { ReviewList } from "./ReviewList";
 export { RatingDisplay } from "./RatingDisplay";
+export { ReportReviewModal } from "./ReportReviewModal";
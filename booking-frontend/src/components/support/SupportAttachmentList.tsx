@@ -0,0 +1,36 @@
+import React from "react";
+import { Paperclip } from "lucide-react";
+import { SupportAttachment } from "@/services/support";
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export default function SupportAttachmentList({
+  attachments,
+}: {
+  attachments?: SupportAttachment[];
+}) {
+  if (!attachments?.length) {
+    return null;
+  }
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {attachments.map((attachment) => (
+        <li key={attachment.id}>
+          <a
+            href={attachment.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs underline"
+          >
+            <Paperclip className="h-3 w-3" />
+            {attachment.name} ({formatSize(attachment.size)})
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
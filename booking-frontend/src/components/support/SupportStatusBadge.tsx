@@ -0,0 +1,30 @@
+import React from "react";
+import { SupportTicket } from "@/services/support";
+
+const STATUS_STYLES: Record<SupportTicket["status"], string> = {
+  OPEN: "bg-blue-100 text-blue-700",
+  IN_PROGRESS: "bg-yellow-100 text-yellow-700",
+  RESOLVED: "bg-green-100 text-green-700",
+  CLOSED: "bg-gray-100 text-gray-600",
+};
+
+const STATUS_LABELS: Record<SupportTicket["status"], string> = {
+  OPEN: "Open",
+  IN_PROGRESS: "In progress",
+  RESOLVED: "Resolved",
+  CLOSED: "Closed",
+};
+
+export default function SupportStatusBadge({
+  status,
+}: {
+  status: SupportTicket["status"];
+}) {
+  return (
+    <span
+      className={`inline-flex shrink-0 rounded-full px-2 py-1 text-xs font-semibold ${STATUS_STYLES[status]}`}
+    >
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -0,0 +1,463 @@
+"use client";
+
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "react-query";
+import { toast } from "react-hot-toast";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, LifeBuoy, Loader2, Paperclip, Plus } from "lucide-react";
+import { Button, Card } from "@/components/ui";
+import { serviceUtils } from "@/services";
+import {
+  CreateTicketRequest,
+  SupportTicket,
+  buildTicketFormData,
+  supportService,
+} from "@/services/support";
+import SupportAttachmentList from "./SupportAttachmentList";
+import SupportStatusBadge from "./SupportStatusBadge";
+
+export const SUPPORT_CATEGORY_LABELS: Record<SupportTicket["category"], string> =
+  {
+    GUEST_ISSUE: "Guest or stay issue",
+    PROPERTY_DAMAGE: "Property damage",
+    NO_SHOW: "No-show",
+    PAYMENT_ISSUE: "Payment issue",
+    OTHER: "Something else",
+  };
+
+const TICKETS_QUERY_KEY = "support-tickets";
+const MAX_FILES = 5;
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-900 focus:border-gray-500 focus:outline-none";
+
+const EMPTY_FORM: CreateTicketRequest = {
+  subject: "",
+  description: "",
+  category: "OTHER",
+  priority: "MEDIUM",
+  bookingId: "",
+};
+
+interface SupportTicketsPanelProps {
+  // Pre-fills the booking link, e.g. when opened from a booking page
+  defaultBookingId?: string;
+}
+
+const pickFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const files = Array.from(event.target.files ?? []);
+  if (files.length > MAX_FILES) {
+    toast.error(`You can attach up to ${MAX_FILES} files.`);
+  }
+  return files.slice(0, MAX_FILES);
+};
+
+/**
+ * Ticket list, new-ticket form and conversation view for guests and realtors.
+ */
+export default function SupportTicketsPanel({
+  defaultBookingId,
+}: SupportTicketsPanelProps) {
+  const queryClient = useQueryClient();
+  const [view, setView] = React.useState<"list" | "new" | "detail">("list");
+  const [selectedId, setSelectedId] = React.useState<string | null>(null);
+  const [form, setForm] = React.useState<CreateTicketRequest>({
+    ...EMPTY_FORM,
+    bookingId: defaultBookingId ?? "",
+  });
+  const [files, setFiles] = React.useState<File[]>([]);
+  const [reply, setReply] = React.useState("");
+  const [replyFiles, setReplyFiles] = React.useState<File[]>([]);
+
+  const { data: tickets, isLoading } = useQuery(
+    [TICKETS_QUERY_KEY],
+    () => supportService.getTickets({ limit: 20 }),
+    { select: (response) => response.data ?? [] }
+  );
+
+  const { data: ticket, isLoading: ticketLoading } = useQuery(
+    [TICKETS_QUERY_KEY, selectedId],
+    () => supportService.getTicket(selectedId as string),
+    { enabled: Boolean(selectedId) && view === "detail" }
+  );
+
+  const refresh = () => queryClient.invalidateQueries(TICKETS_QUERY_KEY);
+
+  const onError = (error: unknown) => {
+    toast.error(serviceUtils.extractErrorMessage(error));
+  };
+
+  const createMutation = useMutation(
+    () =>
+      supportService.createTicket(
+        buildTicketFormData(
+          {
+            subject: form.subject.trim(),
+            description: form.description.trim(),
+            category: form.category,
+            priority: form.priority,
+            bookingId: form.bookingId?.trim(),
+          },
+          files
+        )
+      ),
+    {
+      onSuccess: async (created) => {
+        toast.success("Ticket submitted. We'll reply here and by email.");
+        setForm({ ...EMPTY_FORM, bookingId: defaultBookingId ?? "" });
+        setFiles([]);
+        await refresh();
+        setSelectedId(created.id);
+        setView("detail");
+      },
+      onError,
+    }
+  );
+
+  const replyMutation = useMutation(
+    () =>
+      supportService.replyToTicket(selectedId as string, {
+        message: reply.trim(),
+        attachments: replyFiles,
+      }),
+    {
+      onSuccess: async () => {
+        setReply("");
+        setReplyFiles([]);
+        await refresh();
+      },
+      onError,
+    }
+  );
+
+  const statusMutation = useMutation(
+    (action: "close" | "reopen") =>
+      action === "close"
+        ? supportService.closeTicket(selectedId as string)
+        : supportService.reopenTicket(selectedId as string),
+    { onSuccess: refresh, onError }
+  );
+
+  const openTicket = (id: string) => {
+    setSelectedId(id);
+    setReply("");
+    setReplyFiles([]);
+    setView("detail");
+  };
+
+  const header = (
+    <div className="mb-4 flex items-center justify-between gap-3">
+      <div className="flex items-center gap-2">
+        {view !== "list" ? (
+          <button
+            type="button"
+            onClick={() => setView("list")}
+            className="rounded-lg p-1 text-gray-500 hover:bg-gray-100"
+            aria-label="Back to tickets"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+        ) : (
+          <LifeBuoy className="h-5 w-5 text-gray-700" />
+        )}
+        <h2 className="text-lg font-semibold text-gray-900">
+          {view === "new" ? "New support ticket" : "Support tickets"}
+        </h2>
+      </div>
+      {view === "list" ? (
+        <Button size="sm" onClick={() => setView("new")}>
+          <Plus className="mr-1 h-4 w-4" />
+          New ticket
+        </Button>
+      ) : null}
+    </div>
+  );
+
+  if (view === "new") {
+    return (
+      <Card className="rounded-2xl border border-gray-200 bg-white p-6">
+        {header}
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <input
+            value={form.subject}
+            onChange={(event) =>
+              setForm({ ...form, subject: event.target.value })
+            }
+            placeholder="Subject"
+            maxLength={150}
+            className={INPUT_CLASS}
+            required
+          />
+          <div className="grid gap-3 sm:grid-cols-3">
+            <select
+              value={form.category}
+              onChange={(event) =>
+                setForm({
+                  ...form,
+                  category: event.target.value as SupportTicket["category"],
+                })
+              }
+              className={INPUT_CLASS}
+            >
+              {Object.entries(SUPPORT_CATEGORY_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={form.priority}
+              onChange={(event) =>
+                setForm({
+                  ...form,
+                  priority: event.target.value as SupportTicket["priority"],
+                })
+              }
+              className={INPUT_CLASS}
+            >
+              <option value="LOW">Low priority</option>
+              <option value="MEDIUM">Normal priority</option>
+              <option value="HIGH">Urgent</option>
+            </select>
+            <input
+              value={form.bookingId}
+              onChange={(event) =>
+                setForm({ ...form, bookingId: event.target.value })
+              }
+              placeholder="Booking ID (optional)"
+              className={INPUT_CLASS}
+            />
+          </div>
+          <textarea
+            value={form.description}
+            onChange={(event) =>
+              setForm({ ...form, description: event.target.value })
+            }
+            placeholder="Tell us what happened and what you need from us"
+            rows={6}
+            maxLength={5000}
+            className={INPUT_CLASS}
+            required
+          />
+          <label className="flex cursor-pointer items-center gap-2 text-sm text-gray-600">
+            <Paperclip className="h-4 w-4" />
+            {files.length
+              ? `${files.length} file(s) attached`
+              : "Attach screenshots or documents (up to 5, 10MB each)"}
+            <input
+              type="file"
+              multiple
+              accept="image/*,.pdf,.doc,.docx,.txt"
+              onChange={(event) => setFiles(pickFiles(event))}
+              className="hidden"
+            />
+          </label>
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setView("list")}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              loading={createMutation.isLoading}
+              disabled={!form.subject.trim() || !form.description.trim()}
+            >
+              Submit ticket
+            </Button>
+          </div>
+        </form>
+      </Card>
+    );
+  }
+
+  if (view === "detail") {
+    const isClosed = ticket?.status === "CLOSED";
+    const canReopen =
+      ticket?.status === "RESOLVED" || ticket?.status === "CLOSED";
+
+    return (
+      <Card className="rounded-2xl border border-gray-200 bg-white p-6">
+        {header}
+        {ticketLoading || !ticket ? (
+          <div className="flex items-center justify-center py-10 text-gray-500">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+            Loading ticket...
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <h3 className="text-base font-semibold text-gray-900">
+                  {ticket.subject}
+                </h3>
+                <p className="text-xs text-gray-500">
+                  {SUPPORT_CATEGORY_LABELS[ticket.category]}
+                  {ticket.booking?.property?.title
+                    ? ` · ${ticket.booking.property.title}`
+                    : ""}
+                  {` · opened ${formatDistanceToNow(new Date(ticket.createdAt), {
+                    addSuffix: true,
+                  })}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <SupportStatusBadge status={ticket.status} />
+                {canReopen ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    loading={statusMutation.isLoading}
+                    onClick={() => statusMutation.mutate("reopen")}
+                  >
+                    Reopen
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    loading={statusMutation.isLoading}
+                    onClick={() => statusMutation.mutate("close")}
+                  >
+                    Close ticket
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="rounded-xl bg-gray-50 p-4 text-sm text-gray-700">
+              <p className="whitespace-pre-wrap">{ticket.description}</p>
+              <SupportAttachmentList attachments={ticket.attachments} />
+            </div>
+
+            <div className="space-y-3">
+              {ticket.messages.map((message) => (
+                <div
+                  key={message.id}
+                  className={`max-w-[85%] rounded-xl p-3 text-sm ${
+                    message.isFromUser
+                      ? "ml-auto bg-gray-900 text-white"
+                      : "bg-blue-50 text-gray-800"
+                  }`}
+                >
+                  <p className="mb-1 text-xs opacity-70">
+                    {message.isFromUser ? "You" : "Stayza Support"} ·{" "}
+                    {formatDistanceToNow(new Date(message.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </p>
+                  {message.content ? (
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                  ) : null}
+                  <SupportAttachmentList attachments={message.attachments} />
+                </div>
+              ))}
+              {ticket.messages.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No replies yet. Our team usually responds within a few hours.
+                </p>
+              ) : null}
+            </div>
+
+            {isClosed ? (
+              <p className="text-sm text-gray-500">
+                This ticket is closed. Reopen it to continue the conversation.
+              </p>
+            ) : (
+              <form
+                className="space-y-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  replyMutation.mutate();
+                }}
+              >
+                <textarea
+                  value={reply}
+                  onChange={(event) => setReply(event.target.value)}
+                  placeholder="Write a reply"
+                  rows={3}
+                  maxLength={5000}
+                  className={INPUT_CLASS}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <label className="flex cursor-pointer items-center gap-2 text-sm text-gray-600">
+                    <Paperclip className="h-4 w-4" />
+                    {replyFiles.length
+                      ? `${replyFiles.length} file(s)`
+                      : "Attach files"}
+                    <input
+                      type="file"
+                      multiple
+                      accept="image/*,.pdf,.doc,.docx,.txt"
+                      onChange={(event) => setReplyFiles(pickFiles(event))}
+                      className="hidden"
+                    />
+                  </label>
+                  <Button
+                    type="submit"
+                    size="sm"
+                    loading={replyMutation.isLoading}
+                    disabled={!reply.trim() && replyFiles.length === 0}
+                  >
+                    Send reply
+                  </Button>
+                </div>
+              </form>
+            )}
+          </div>
+        )}
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="rounded-2xl border border-gray-200 bg-white p-6">
+      {header}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-10 text-gray-500">
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+          Loading tickets...
+        </div>
+      ) : !tickets?.length ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          You have no support tickets. Open one and we&apos;ll get back to you
+          here.
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {tickets.map((item) => (
+            <li key={item.id}>
+              <button
+                type="button"
+                onClick={() => openTicket(item.id)}
+                className="flex w-full items-center justify-between gap-3 py-3 text-left hover:bg-gray-50"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium text-gray-900">
+                    {item.subject}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {SUPPORT_CATEGORY_LABELS[item.category]} · updated{" "}
+                    {formatDistanceToNow(
+                      new Date(item.lastActivityAt ?? item.updatedAt),
+                      { addSuffix: true }
+                    )}
+                  </p>
+                </div>
+                <SupportStatusBadge status={item.status} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
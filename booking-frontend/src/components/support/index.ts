@@ -0,0 +1,3 @@
+export { default as SupportTicketsPanel } from "./SupportTicketsPanel";
+export { default as SupportStatusBadge } from "./SupportStatusBadge";
+export { default as SupportAttachmentList } from "./SupportAttachmentList";
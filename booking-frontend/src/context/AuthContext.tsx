@@ -9,6 +9,7 @@ import {
 } from "react";
 import { Toaster } from "react-hot-toast";
 import { useAuthStore } from "../store/authStore";
+import StepUpDialog from "@/components/auth/StepUpDialog";
 
 interface AuthContextType {
   user: any;
@@ -85,6 +86,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
   return (
     <AuthContext.Provider value={contextValue}>
       {children}
+      <StepUpDialog />
       <Toaster position="top-center" reverseOrder={false} />
     </AuthContext.Provider>
   );
@@ -2,3 +2,4 @@
 export { useNotifications } from "./useNotifications";
 export { useNotificationPreferences } from "./useNotificationPreferences";
 export { useToast } from "./useToast";
+export { usePushSubscription } from "./usePushSubscription";
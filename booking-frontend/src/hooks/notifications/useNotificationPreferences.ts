@@ -52,7 +52,7 @@ export function useNotificationPreferences() {
         smsBookingUpdates: false,
         smsPaymentUpdates: false,
         smsSystemAlerts: false,
-        digestFrequency: "daily",
+        digestFrequency: "never",
         quietHoursStart: "22:00",
         quietHoursEnd: "08:00",
         timezone: "UTC",
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useState } from "react";
+import { notificationApiService } from "@/services/notifications";
+
+const SERVICE_WORKER_PATH = "/push-sw.js";
+
+// PushManager expects the VAPID key as raw bytes
+const urlBase64ToUint8Array = (value: string) => {
+  const padding = "=".repeat((4 - (value.length % 4)) % 4);
+  const base64 = (value + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+const isPushSupported = () =>
+  typeof window !== "undefined" &&
+  "serviceWorker" in navigator &&
+  "PushManager" in window &&
+  "Notification" in window;
+
+/**
+ * Web Push subscription for the current browser. The account-level
+ * pushEnabled preference decides what is sent; this decides whether this
+ * device can receive it.
+ */
+export function usePushSubscription() {
+  const [isSupported] = useState(isPushSupported);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission>(
+    isPushSupported() ? Notification.permission : "default"
+  );
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isSupported) {
+      return;
+    }
+
+    navigator.serviceWorker
+      .getRegistration(SERVICE_WORKER_PATH)
+      .then((registration) => registration?.pushManager.getSubscription())
+      .then((subscription) => setIsSubscribed(Boolean(subscription)))
+      .catch(() => setIsSubscribed(false));
+  }, [isSupported]);
+
+  const subscribe = useCallback(async () => {
+    if (!isSupported) {
+      throw new Error("Push notifications are not supported in this browser");
+    }
+
+    setIsBusy(true);
+    try {
+      const result = await Notification.requestPermission();
+      setPermission(result);
+      if (result !== "granted") {
+        throw new Error("Notification permission was not granted");
+      }
+
+      const publicKey = await notificationApiService.getPushPublicKey();
+      const registration =
+        await navigator.serviceWorker.register(SERVICE_WORKER_PATH);
+      await navigator.serviceWorker.ready;
+
+      const subscription =
+        (await registration.pushManager.getSubscription()) ||
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey),
+        }));
+
+      await notificationApiService.savePushSubscription(subscription.toJSON());
+      setIsSubscribed(true);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [isSupported]);
+
+  const unsubscribe = useCallback(async () => {
+    if (!isSupported) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const registration =
+        await navigator.serviceWorker.getRegistration(SERVICE_WORKER_PATH);
+      const subscription = await registration?.pushManager.getSubscription();
+
+      if (subscription) {
+        await notificationApiService.removePushSubscription(
+          subscription.endpoint
+        );
+        await subscription.unsubscribe();
+      }
+
+      setIsSubscribed(false);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [isSupported]);
+
+  return {
+    isSupported,
+    isSubscribed,
+    permission,
+    isBusy,
+    subscribe,
+    unsubscribe,
+  };
+}
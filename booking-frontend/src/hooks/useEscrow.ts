@@ -4,12 +4,14 @@ import {
   getActiveJobLocks,
   getSystemHealthStats,
   getEmailWorkerHealth,
+  getScheduledMessageHealth,
   forceReleaseJobLock,
   getWebhookDeliveryStatus,
   EscrowEvent,
   JobLock,
   SystemHealthStats,
   EmailWorkerHealth,
+  ScheduledMessageHealth,
 } from "@/services/escrow";
 
 /**
@@ -70,6 +72,19 @@ export function useEmailWorkerHealth(enabled = true) {
   });
 }
 
+/**
+ * Hook to fetch booking system message queue health (admin only)
+ */
+export function useScheduledMessageHealth(enabled = true) {
+  return useQuery<ScheduledMessageHealth, Error>({
+    queryKey: ["scheduled-message-health"],
+    queryFn: getScheduledMessageHealth,
+    enabled,
+    refetchInterval: 15000,
+    staleTime: 8000,
+  });
+}
+
 /**
  * Hook to fetch webhook delivery timeline for a booking (admin only)
  */
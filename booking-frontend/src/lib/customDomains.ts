@@ -0,0 +1,58 @@
+// A realtor's booking website can also be served on their own verified
+// domain (e.g. book.example.com). The middleware resolves the realtor's slug
+// and hands it to pages in this cookie and request header.
+export const CUSTOM_DOMAIN_SLUG_COOKIE = "stayza_site_slug";
+export const CUSTOM_DOMAIN_SLUG_HEADER = "x-custom-domain-slug";
+
+export const MAIN_DOMAIN = process.env.NEXT_PUBLIC_MAIN_DOMAIN || "stayza.pro";
+
+// Guest-facing paths served on a custom domain. Dashboard pages stay on the
+// realtor's subdomain, where the shared auth cookie is readable.
+export const CUSTOM_DOMAIN_ALLOWED_PREFIXES = [
+  "/guest",
+  "/guest-landing",
+  "/booking",
+  "/evidence",
+  "/auth",
+  "/verify-email",
+  "/help",
+  "/legal",
+  "/privacy",
+  "/terms",
+];
+
+/**
+ * Whether a hostname belongs to the platform itself (main domain, its
+ * subdomains, or local development hosts) rather than a realtor's domain.
+ */
+export const isPlatformHostname = (
+  hostname: string,
+  mainDomain: string = MAIN_DOMAIN,
+): boolean =>
+  hostname === "localhost" ||
+  hostname.endsWith(".localhost") ||
+  hostname === "127.0.0.1" ||
+  hostname === mainDomain ||
+  hostname.endsWith(`.${mainDomain}`);
+
+export const isAllowedCustomDomainPath = (pathname: string): boolean =>
+  pathname === "/" ||
+  CUSTOM_DOMAIN_ALLOWED_PREFIXES.some(
+    (prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`),
+  );
+
+/**
+ * Realtor slug the middleware stored for this custom domain, read from a
+ * document.cookie style string
+ */
+export const readCustomDomainSlug = (cookieHeader: string): string | null => {
+  const entry = cookieHeader
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${CUSTOM_DOMAIN_SLUG_COOKIE}=`));
+
+  const slug = entry
+    ? decodeURIComponent(entry.slice(CUSTOM_DOMAIN_SLUG_COOKIE.length + 1))
+    : "";
+  return /^[a-z0-9-]+$/.test(slug) ? slug : null;
+};
@@ -0,0 +1,130 @@
+import api, { apiClient, PaginatedResponse } from "./api";
+
+export type ReconciliationRunStatus = "RUNNING" | "COMPLETED" | "FAILED";
+
+export type ReconciliationItemStatus = "OPEN" | "RESOLVED" | "DISMISSED";
+
+export type ReconciliationMismatchType =
+  | "PAYMENT_NOT_RECORDED"
+  | "PAYMENT_UNKNOWN"
+  | "PAYMENT_STATUS_MISMATCH"
+  | "AMOUNT_MISMATCH"
+  | "PROCESSING_FEE_DRIFT"
+  | "TRANSFER_REVERSED"
+  | "TRANSFER_STATUS_MISMATCH"
+  | "WEBHOOK_MISSING";
+
+export type ReconciliationMismatchLabels = Record<
+  ReconciliationMismatchType,
+  string
+>;
+
+export interface ReconciliationRun {
+  id: string;
+  status: ReconciliationRunStatus;
+  periodStart: string;
+  periodEnd: string;
+  triggeredById?: string | null;
+  transactionCount: number;
+  transferCount: number;
+  mismatchCount: number;
+  error?: string | null;
+  startedAt: string;
+  completedAt?: string | null;
+  openItemCount?: number;
+}
+
+export interface ReconciliationItem {
+  id: string;
+  runId: string;
+  type: ReconciliationMismatchType;
+  status: ReconciliationItemStatus;
+  reference: string;
+  paymentId?: string | null;
+  withdrawalRequestId?: string | null;
+  providerStatus?: string | null;
+  localStatus?: string | null;
+  providerAmount?: string | number | null;
+  localAmount?: string | number | null;
+  remediable: boolean;
+  details?: Record<string, unknown> | null;
+  resolvedAt?: string | null;
+  resolvedById?: string | null;
+  resolutionNote?: string | null;
+  createdAt: string;
+}
+
+export type ReconciliationRunDetail = ReconciliationRun & {
+  items: ReconciliationItem[];
+};
+
+export type ReconciliationRunsResponse =
+  PaginatedResponse<ReconciliationRun> & {
+    labels: ReconciliationMismatchLabels;
+  };
+
+export interface ReconciliationItemFilters {
+  status?: ReconciliationItemStatus | "all";
+  type?: ReconciliationMismatchType;
+}
+
+export const adminReconciliationService = {
+  async getRuns(
+    params: { page?: number; limit?: number } = {}
+  ): Promise<ReconciliationRunsResponse> {
+    const response = await apiClient.get<ReconciliationRun[]>(
+      "/admin/reconciliation/runs",
+      { params }
+    );
+    return response as ReconciliationRunsResponse;
+  },
+
+  async getRun(
+    id: string,
+    filters: ReconciliationItemFilters = {}
+  ): Promise<ReconciliationRunDetail> {
+    const response = await apiClient.get<ReconciliationRunDetail>(
+      `/admin/reconciliation/runs/${id}`,
+      { params: filters }
+    );
+    return response.data;
+  },
+
+  // Defaults to the last 48 hours on the server
+  async startRun(
+    period: { from?: string; to?: string } = {}
+  ): Promise<ReconciliationRun> {
+    const response = await apiClient.post<ReconciliationRun>(
+      "/admin/reconciliation/runs",
+      period
+    );
+    return response.data;
+  },
+
+  async exportRun(id: string): Promise<Blob> {
+    const response = await api.get(`/admin/reconciliation/runs/${id}/export`, {
+      responseType: "blob",
+    });
+    return response.data as Blob;
+  },
+
+  // Re-checks Paystack before changing any records
+  async remediate(
+    id: string,
+    note?: string
+  ): Promise<{ item: ReconciliationItem; message: string }> {
+    const response = await apiClient.post<ReconciliationItem>(
+      `/admin/reconciliation/items/${id}/remediate`,
+      { note }
+    );
+    return { item: response.data, message: response.message || "" };
+  },
+
+  async dismiss(id: string, note?: string): Promise<ReconciliationItem> {
+    const response = await apiClient.post<ReconciliationItem>(
+      `/admin/reconciliation/items/${id}/dismiss`,
+      { note }
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,88 @@
+import { apiClient, PaginatedResponse } from "./api";
+import {
+  ReviewReportKind,
+  ReviewReportReason,
+  ReviewReportStatus,
+} from "../types";
+
+export interface ReviewModerationPerson {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  role?: string;
+}
+
+export interface AdminReviewReport {
+  id: string;
+  reviewId: string;
+  kind: ReviewReportKind;
+  reason: ReviewReportReason;
+  details?: string | null;
+  status: ReviewReportStatus;
+  resolutionNote?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  reporter: ReviewModerationPerson;
+  resolvedBy?: ReviewModerationPerson | null;
+  review: {
+    id: string;
+    rating: number;
+    comment?: string | null;
+    isVisible: boolean;
+    createdAt: string;
+    author: ReviewModerationPerson;
+    property: {
+      id: string;
+      title: string;
+      realtor: { id: string; businessName: string };
+    };
+    _count: { reports: number };
+  };
+}
+
+export interface AdminReviewQueueStats {
+  pending: number;
+  removalRequests: number;
+}
+
+export interface AdminReviewQueueFilters {
+  status?: ReviewReportStatus | "all";
+  kind?: ReviewReportKind;
+  reason?: ReviewReportReason;
+  page?: number;
+  limit?: number;
+}
+
+export type AdminReviewQueueResponse = PaginatedResponse<AdminReviewReport> & {
+  stats: AdminReviewQueueStats;
+};
+
+export const adminReviewService = {
+  async getReports(
+    filters: AdminReviewQueueFilters = {}
+  ): Promise<AdminReviewQueueResponse> {
+    const response = await apiClient.get<AdminReviewReport[]>(
+      "/admin/reviews/reports",
+      { params: filters }
+    );
+    return response as AdminReviewQueueResponse;
+  },
+
+  // Hides the review and resolves every pending report on it
+  async uphold(id: string, note?: string): Promise<AdminReviewReport> {
+    const response = await apiClient.post<AdminReviewReport>(
+      `/admin/reviews/reports/${id}/uphold`,
+      { note }
+    );
+    return response.data;
+  },
+
+  async dismiss(id: string, note?: string): Promise<AdminReviewReport> {
+    const response = await apiClient.post<AdminReviewReport>(
+      `/admin/reviews/reports/${id}/dismiss`,
+      { note }
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,136 @@
+import { apiClient, PaginatedResponse } from "./api";
+import {
+  buildTicketFormData,
+  SupportAttachment,
+  SupportTicket,
+} from "./support";
+
+export type SupportTicketStatus = SupportTicket["status"];
+export type SupportTicketPriority = SupportTicket["priority"];
+export type SupportTicketCategory = SupportTicket["category"];
+
+export interface SupportPerson {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  role?: string;
+}
+
+export interface AdminSupportTicketSummary
+  extends Omit<SupportTicket, "messages" | "attachments"> {
+  requester: SupportPerson;
+  assignedAdmin?: SupportPerson | null;
+  firstResponseBreachedAt?: string | null;
+  resolutionBreachedAt?: string | null;
+  _count?: { messages: number };
+}
+
+export interface AdminSupportMessage {
+  id: string;
+  content: string;
+  isFromUser: boolean;
+  isInternal: boolean;
+  author: SupportPerson;
+  attachments: SupportAttachment[];
+  createdAt: string;
+}
+
+export interface AdminSupportTicketDetail extends AdminSupportTicketSummary {
+  dispute?: { id: string; status: string; category: string } | null;
+  messages: AdminSupportMessage[];
+  attachments: SupportAttachment[];
+}
+
+export interface AdminSupportQueueStats {
+  open: number;
+  inProgress: number;
+  unassigned: number;
+  breached: number;
+}
+
+export interface AdminSupportQueueFilters {
+  status?: SupportTicketStatus;
+  priority?: SupportTicketPriority;
+  category?: SupportTicketCategory;
+  assignedTo?: string;
+  breached?: boolean;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+export type AdminSupportQueueResponse =
+  PaginatedResponse<AdminSupportTicketSummary> & {
+    stats: AdminSupportQueueStats;
+  };
+
+export const adminSupportService = {
+  async getTickets(
+    filters: AdminSupportQueueFilters = {}
+  ): Promise<AdminSupportQueueResponse> {
+    const response = await apiClient.get<AdminSupportTicketSummary[]>(
+      "/admin/support/tickets",
+      { params: filters }
+    );
+    return response as AdminSupportQueueResponse;
+  },
+
+  async getTicket(id: string): Promise<AdminSupportTicketDetail> {
+    const response = await apiClient.get<AdminSupportTicketDetail>(
+      `/admin/support/tickets/${id}`
+    );
+    return response.data;
+  },
+
+  async getAgents(): Promise<SupportPerson[]> {
+    const response = await apiClient.get<SupportPerson[]>(
+      "/admin/support/agents"
+    );
+    return response.data;
+  },
+
+  async reply(
+    id: string,
+    data: { message: string; isInternal?: boolean; attachments?: File[] }
+  ): Promise<void> {
+    if (data.attachments?.length) {
+      await apiClient.post(
+        `/admin/support/tickets/${id}/reply`,
+        buildTicketFormData(
+          {
+            message: data.message,
+            isInternal: data.isInternal ? "true" : undefined,
+          },
+          data.attachments
+        ),
+        { headers: { "Content-Type": "multipart/form-data" } }
+      );
+      return;
+    }
+    await apiClient.post(`/admin/support/tickets/${id}/reply`, {
+      message: data.message,
+      isInternal: data.isInternal ?? false,
+    });
+  },
+
+  async assign(id: string, adminId: string | null): Promise<void> {
+    await apiClient.patch(`/admin/support/tickets/${id}/assign`, { adminId });
+  },
+
+  async updateStatus(id: string, status: SupportTicketStatus): Promise<void> {
+    await apiClient.patch(`/admin/support/tickets/${id}/status`, { status });
+  },
+
+  async updateTicket(
+    id: string,
+    data: {
+      priority?: SupportTicketPriority;
+      category?: SupportTicketCategory;
+      bookingId?: string | null;
+      disputeId?: string | null;
+    }
+  ): Promise<void> {
+    await apiClient.patch(`/admin/support/tickets/${id}`, data);
+  },
+};
@@ -0,0 +1,106 @@
+import { apiClient } from "./api";
+import { AdminRole } from "../types";
+
+export interface AdminTeamMember {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  adminRole: AdminRole | null;
+  twoFactorEnabled: boolean;
+  createdAt: string;
+}
+
+export interface AdminInvite {
+  id: string;
+  email: string;
+  adminRole: AdminRole;
+  expiresAt: string;
+  createdAt: string;
+  invitedBy: { id: string; firstName: string; lastName: string };
+}
+
+export interface AdminRoleDefinition {
+  role: AdminRole;
+  label: string;
+  permissions: string[];
+}
+
+export interface AdminPermissions {
+  adminRole: AdminRole | null;
+  permissions: string[];
+  roles: AdminRoleDefinition[];
+}
+
+export interface AdminInvitePreview {
+  email: string;
+  adminRole: AdminRole;
+  roleLabel: string;
+  expiresAt: string;
+}
+
+export interface AcceptAdminInviteRequest {
+  token: string;
+  firstName: string;
+  lastName: string;
+  password: string;
+}
+
+export const adminTeamService = {
+  // The signed-in admin's permissions, e.g. to hide actions they can't take
+  async getPermissions(): Promise<AdminPermissions> {
+    const response = await apiClient.get<AdminPermissions>(
+      "/admin/team/permissions"
+    );
+    return response.data;
+  },
+
+  async getTeam(): Promise<{
+    members: AdminTeamMember[];
+    invites: AdminInvite[];
+  }> {
+    const response = await apiClient.get<{
+      members: AdminTeamMember[];
+      invites: AdminInvite[];
+    }>("/admin/team");
+    return response.data;
+  },
+
+  async invite(email: string, adminRole: AdminRole): Promise<AdminInvite> {
+    const response = await apiClient.post<AdminInvite>("/admin/team/invites", {
+      email,
+      adminRole,
+    });
+    return response.data;
+  },
+
+  async revokeInvite(id: string): Promise<AdminInvite> {
+    const response = await apiClient.delete<AdminInvite>(
+      `/admin/team/invites/${id}`
+    );
+    return response.data;
+  },
+
+  async updateRole(
+    userId: string,
+    adminRole: AdminRole
+  ): Promise<AdminTeamMember> {
+    const response = await apiClient.patch<AdminTeamMember>(
+      `/admin/team/members/${userId}/role`,
+      { adminRole }
+    );
+    return response.data;
+  },
+
+  // Public: used by the invite link before the invitee has an account
+  async getInvite(token: string): Promise<AdminInvitePreview> {
+    const response = await apiClient.get<AdminInvitePreview>(
+      `/auth/admin-invites/${encodeURIComponent(token)}`
+    );
+    return response.data;
+  },
+
+  async acceptInvite(data: AcceptAdminInviteRequest): Promise<void> {
+    await apiClient.post("/auth/admin-invites/accept", data);
+  },
+};
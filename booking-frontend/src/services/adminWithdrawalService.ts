@@ -9,7 +9,7 @@ export interface WithdrawalRequest {
   walletId: string;
   realtorId: string;
   amount: number;
-  status: "PENDING" | "COMPLETED" | "FAILED";
+  status: "PENDING" | "ON_HOLD" | "COMPLETED" | "FAILED";
   requestedAt: string;
   processedAt?: string;
   completedAt?: string;
@@ -18,10 +18,14 @@ export interface WithdrawalRequest {
   paystackTransferId?: string;
   paystackTransferCode?: string;
   retryCount: number;
+  heldAt?: string | null;
+  holdReason?: PayoutHoldReason | null;
   metadata?: any;
   realtor: {
     id: string;
     businessName: string;
+    payoutHoldUntil?: string | null;
+    payoutsFrozenAt?: string | null;
     user: {
       email: string;
       firstName: string;
@@ -34,8 +38,11 @@ export interface WithdrawalRequest {
   };
 }
 
+export type PayoutHoldReason = "PAYOUT_ACCOUNT_CHANGED" | "PAYOUTS_FROZEN";
+
 export interface WithdrawalStats {
   pendingCount: number;
+  onHoldCount: number;
   failedCount: number;
   completedTodayCount: number;
   pendingAmount: number;
@@ -52,6 +59,34 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface PayoutAccountChange {
+  id: string;
+  realtorId: string;
+  changedById: string;
+  previousBankName: string | null;
+  previousAccountNumber: string | null;
+  previousAccountName: string | null;
+  previousCurrency: string | null;
+  newBankName: string;
+  newAccountNumber: string;
+  newAccountName: string;
+  newCurrency: string;
+  ipAddress: string | null;
+  holdUntil: string | null;
+  frozenAt: string | null;
+  createdAt: string;
+  realtor: {
+    businessName: string;
+    payoutHoldUntil: string | null;
+    payoutsFrozenAt: string | null;
+    user: {
+      email: string;
+      firstName: string;
+      lastName: string;
+    };
+  };
+}
+
 export interface BatchRetryResult {
   processed: number;
   successful: number;
@@ -78,11 +113,12 @@ export const getWithdrawals = async (
       .map((value) => value.trim().toUpperCase())
       .filter(Boolean);
 
-    // Compatibility fallback: backend defaults to PENDING+FAILED when status is omitted.
+    // Compatibility fallback: backend defaults to PENDING+ON_HOLD+FAILED when status is omitted.
     if (
       !(
-        normalizedStatuses.length === 2 &&
+        normalizedStatuses.length === 3 &&
         normalizedStatuses.includes("PENDING") &&
+        normalizedStatuses.includes("ON_HOLD") &&
         normalizedStatuses.includes("FAILED")
       )
     ) {
@@ -149,6 +185,54 @@ export const cancelWithdrawal = async (
   await api.put(`/admin/withdrawals/${id}/cancel`, { reason });
 };
 
+/**
+ * Release a withdrawal held after a payout account change and send it
+ */
+export const releaseWithdrawal = async (
+  id: string
+): Promise<{
+  withdrawalId: string;
+  processed: boolean;
+  transferReference?: string;
+}> => {
+  const response = await api.post(`/admin/withdrawals/${id}/release`);
+  return response.data.data;
+};
+
+/**
+ * Payout account change history, newest first
+ */
+export const getPayoutAccountChanges = async (
+  options: {
+    realtorId?: string;
+    frozenOnly?: boolean;
+    page?: number;
+    limit?: number;
+  } = {}
+): Promise<PaginatedResponse<PayoutAccountChange>> => {
+  const response = await api.get("/admin/withdrawals/payout-account-changes", {
+    params: {
+      page: options.page || 1,
+      limit: options.limit || 10,
+      ...(options.realtorId ? { realtorId: options.realtorId } : {}),
+      ...(options.frozenOnly ? { frozen: "true" } : {}),
+    },
+  });
+  return {
+    data: response.data.data,
+    pagination: response.data.pagination,
+  };
+};
+
+/**
+ * Lift a payout freeze reported with a "this wasn't me" link
+ */
+export const unfreezeRealtorPayouts = async (
+  realtorId: string
+): Promise<void> => {
+  await api.post(`/admin/withdrawals/realtors/${realtorId}/unfreeze`);
+};
+
 const adminWithdrawalService = {
   getWithdrawals,
   getWithdrawalStats,
@@ -156,6 +240,9 @@ const adminWithdrawalService = {
   processWithdrawal,
   retryFailedWithdrawals,
   cancelWithdrawal,
+  releaseWithdrawal,
+  getPayoutAccountChanges,
+  unfreezeRealtorPayouts,
 };
 
 export default adminWithdrawalService;
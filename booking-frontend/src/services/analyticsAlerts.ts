@@ -0,0 +1,120 @@
+import { apiClient, PaginatedResponse } from "./api";
+
+export type AnalyticsAlertType =
+  | "LOW_OCCUPANCY"
+  | "RATING_DROP"
+  | "CANCELLATION_SPIKE"
+  | "UNANSWERED_INQUIRIES";
+
+export type AnalyticsAlertSeverity = "WARNING" | "CRITICAL";
+
+export type AnalyticsAlertStatus = "ACTIVE" | "RESOLVED";
+
+export interface AnalyticsAlert {
+  id: string;
+  ruleId: string;
+  propertyId: string;
+  type: AnalyticsAlertType;
+  severity: AnalyticsAlertSeverity;
+  status: AnalyticsAlertStatus;
+  value: number;
+  threshold: number;
+  message: string;
+  triggeredAt: string;
+  lastEvaluatedAt: string;
+  resolvedAt?: string | null;
+  readAt?: string | null;
+  mutedAt?: string | null;
+  property: { id: string; title: string };
+}
+
+export interface AnalyticsAlertRule {
+  // Null until the realtor saves the rule for the first time
+  id: string | null;
+  propertyId: string;
+  type: AnalyticsAlertType;
+  label: string;
+  direction: "below" | "above";
+  threshold: number;
+  windowDays: number;
+  isEnabled: boolean;
+  thresholdRange: [number, number];
+  windowRange: [number, number];
+}
+
+export interface AnalyticsAlertRulePayload {
+  threshold?: number;
+  windowDays?: number;
+  isEnabled?: boolean;
+}
+
+export interface AnalyticsAlertFilters {
+  propertyId?: string;
+  status?: AnalyticsAlertStatus | "all";
+  includeMuted?: boolean;
+  unreadOnly?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export type AnalyticsAlertListResponse = PaginatedResponse<AnalyticsAlert> & {
+  unread: number;
+};
+
+export const analyticsAlertService = {
+  getAlerts: async (
+    filters: AnalyticsAlertFilters = {}
+  ): Promise<AnalyticsAlertListResponse> => {
+    const response = await apiClient.get<AnalyticsAlert[]>(
+      "/analytics-alerts",
+      { params: filters }
+    );
+    return response as AnalyticsAlertListResponse;
+  },
+
+  markRead: async (id: string): Promise<AnalyticsAlert> => {
+    const response = await apiClient.patch<AnalyticsAlert>(
+      `/analytics-alerts/${id}/read`
+    );
+    return response.data;
+  },
+
+  markAllRead: async (propertyId?: string): Promise<number> => {
+    const response = await apiClient.patch<{ count: number }>(
+      "/analytics-alerts/read-all",
+      undefined,
+      { params: { propertyId } }
+    );
+    return response.data.count;
+  },
+
+  // Muted alerts stay listed but stop notifying
+  setMuted: async (id: string, muted: boolean): Promise<AnalyticsAlert> => {
+    const response = await apiClient.patch<AnalyticsAlert>(
+      `/analytics-alerts/${id}/mute`,
+      { muted }
+    );
+    return response.data;
+  },
+
+  getRules: async (propertyId: string): Promise<AnalyticsAlertRule[]> => {
+    const response = await apiClient.get<AnalyticsAlertRule[]>(
+      `/analytics-alerts/properties/${propertyId}/rules`
+    );
+    return response.data;
+  },
+
+  saveRule: async (
+    propertyId: string,
+    type: AnalyticsAlertType,
+    payload: AnalyticsAlertRulePayload
+  ) => {
+    const response = await apiClient.put<
+      Pick<
+        AnalyticsAlertRule,
+        "id" | "propertyId" | "type" | "threshold" | "windowDays" | "isEnabled"
+      >
+    >(`/analytics-alerts/properties/${propertyId}/rules/${type}`, payload);
+    return response.data;
+  },
+};
@@ -59,9 +59,79 @@ api.interceptors.request.use(
   },
 );
 
+// Refresh tokens are single-use: the server rotates them and treats a spent
+// token as stolen. Concurrent 401s therefore share one refresh call.
+let refreshInFlight: Promise<{
+  accessToken: string;
+  refreshToken: string;
+}> | null = null;
+
+const readStoredRefreshToken = async (): Promise<string | null> => {
+  // localStorage first: another tab may have rotated the token since this
+  // tab's store was hydrated
+  let refreshToken = localStorage.getItem("refreshToken");
+
+  if (!refreshToken && typeof window !== "undefined") {
+    const { useAuthStore } = await import("@/store/authStore");
+    refreshToken = useAuthStore.getState().refreshToken;
+  }
+
+  if (!refreshToken && typeof window !== "undefined") {
+    refreshToken = getCookie("refreshToken");
+    if (refreshToken) {
+      localStorage.setItem("refreshToken", refreshToken);
+    }
+  }
+
+  return refreshToken;
+};
+
+const requestTokenRefresh = async () => {
+  const refreshToken = await readStoredRefreshToken();
+
+  if (!refreshToken) {
+    throw new Error("No refresh token available");
+  }
+
+  const response = await axios.post(`${API_URL}/auth/refresh`, {
+    refreshToken,
+  });
+
+  const tokens = response.data?.data as {
+    accessToken: string;
+    refreshToken: string;
+  };
+  localStorage.setItem("accessToken", tokens.accessToken);
+  localStorage.setItem("refreshToken", tokens.refreshToken);
+
+  // Keep cookies in sync for subdomain access
+  setCookie("accessToken", tokens.accessToken, 7);
+  setCookie("refreshToken", tokens.refreshToken, 30);
+
+  if (typeof window !== "undefined") {
+    const { useAuthStore } = await import("@/store/authStore");
+    useAuthStore.setState({
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    });
+  }
+
+  return tokens;
+};
+
+export const refreshSessionTokens = () => {
+  if (!refreshInFlight) {
+    refreshInFlight = requestTokenRefresh().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
 // Response interceptor for handling errors and token refresh
 interface RetryableAxiosRequestConfig extends AxiosRequestConfig {
   _retry?: boolean;
+  _stepUpRetry?: boolean;
 }
 
 api.interceptors.response.use(
@@ -76,7 +146,9 @@ api.interceptors.response.use(
       originalRequest.url?.includes("/auth/register-passwordless") ||
       originalRequest.url?.includes("/auth/request-otp") ||
       originalRequest.url?.includes("/auth/verify-registration") ||
-      originalRequest.url?.includes("/auth/verify-login");
+      originalRequest.url?.includes("/auth/verify-login") ||
+      originalRequest.url?.includes("/auth/2fa/challenge") ||
+      originalRequest.url?.includes("/auth/refresh");
 
     if (
       error.response?.status === 401 &&
@@ -86,44 +158,7 @@ api.interceptors.response.use(
       originalRequest._retry = true;
 
       try {
-        // Try to get refresh token from authStore first, then localStorage/cookies
-        let refreshToken: string | null = null;
-
-        if (typeof window !== "undefined") {
-          const { useAuthStore } = await import("@/store/authStore");
-          const storeRefreshToken = useAuthStore.getState().refreshToken;
-          refreshToken =
-            storeRefreshToken || localStorage.getItem("refreshToken");
-
-          if (!refreshToken) {
-            refreshToken = getCookie("refreshToken");
-            if (refreshToken) {
-              localStorage.setItem("refreshToken", refreshToken);
-            }
-          }
-        } else {
-          refreshToken = localStorage.getItem("refreshToken");
-        }
-
-        if (!refreshToken) {
-          throw new Error("No refresh token available");
-        }
-
-        const response = await axios.post(`${API_URL}/auth/refresh`, {
-          refreshToken,
-        });
-
-        const { accessToken } = response.data;
-        localStorage.setItem("accessToken", accessToken);
-
-        // Keep cookie in sync for subdomain access
-        setCookie("accessToken", accessToken, 7);
-
-        // Also update authStore with new access token
-        if (typeof window !== "undefined") {
-          const { useAuthStore } = await import("@/store/authStore");
-          useAuthStore.setState({ accessToken });
-        }
+        const { accessToken } = await refreshSessionTokens();
 
         // Retry original request with new token
         if (originalRequest.headers) {
@@ -159,6 +194,24 @@ api.interceptors.response.use(
       }
     }
 
+    // Payout, withdrawal and finance setting changes need a fresh
+    // authenticator code: prompt for it, then retry once
+    const errorCode = (
+      error.response?.data as { statusCode?: string } | undefined
+    )?.statusCode;
+    if (
+      error.response?.status === 403 &&
+      errorCode === "STEP_UP_REQUIRED" &&
+      !originalRequest._stepUpRetry &&
+      typeof window !== "undefined"
+    ) {
+      originalRequest._stepUpRetry = true;
+      const { useStepUpStore } = await import("@/store/stepUpStore");
+      if (await useStepUpStore.getState().requestStepUp()) {
+        return api(originalRequest);
+      }
+    }
+
     // Handle other errors
     const message =
       serviceUtils.extractErrorMessage(error) || "An error occurred";
@@ -1,4 +1,4 @@
-import { apiClient } from "./api";
+import { apiClient, refreshSessionTokens } from "./api";
 import {
   User,
   LoginCredentials,
@@ -6,6 +6,10 @@ import {
   AuthResponse,
   RefreshTokenResponse,
   ApiResponse,
+  UserSession,
+  TwoFactorChallenge,
+  TwoFactorEnrollment,
+  TwoFactorStatus,
 } from "../types";
 
 export interface PasswordlessRegisterPayload {
@@ -28,6 +32,25 @@ export interface GuestDeleteVerifyPayload {
   reason?: string;
 }
 
+export const isTwoFactorChallenge = (
+  response: AuthResponse | TwoFactorChallenge,
+): response is TwoFactorChallenge =>
+  (response as TwoFactorChallenge).twoFactorRequired === true;
+
+// Store tokens with cross-domain support
+const persistLoginTokens = (data: AuthResponse) => {
+  localStorage.setItem("accessToken", data.accessToken);
+  localStorage.setItem("refreshToken", data.refreshToken);
+
+  // Set cross-domain cookies for realtor subdomains
+  try {
+    const domain =
+      window.location.hostname === "localhost" ? "localhost" : ".stayza.pro";
+    document.cookie = `accessToken=${data.accessToken}; domain=${domain}; path=/; Secure; SameSite=None`;
+    document.cookie = `refreshToken=${data.refreshToken}; domain=${domain}; path=/; Secure; SameSite=None`;
+  } catch (cookieError) {}
+};
+
 export const authService = {
   // Register new user
   register: async (data: RegisterData): Promise<AuthResponse> => {
@@ -42,36 +65,97 @@ export const authService = {
     return response.data;
   },
 
-  // Login user
-  login: async (credentials: LoginCredentials): Promise<AuthResponse> => {
+  // Login user. Accounts with 2FA get a challenge instead of tokens; finish
+  // it with completeTwoFactorChallenge.
+  login: async (
+    credentials: LoginCredentials,
+  ): Promise<AuthResponse | TwoFactorChallenge> => {
     // Clear any existing tokens to avoid interference
     localStorage.removeItem("accessToken");
     localStorage.removeItem("refreshToken");
 
-    const response = await apiClient.post<AuthResponse>(
+    const response = await apiClient.post<AuthResponse | TwoFactorChallenge>(
       "/auth/login",
       credentials,
     );
 
-    // Store tokens with cross-domain support
-    if (response.data.accessToken) {
-      localStorage.setItem("accessToken", response.data.accessToken);
-      localStorage.setItem("refreshToken", response.data.refreshToken);
+    if (!isTwoFactorChallenge(response.data) && response.data.accessToken) {
+      persistLoginTokens(response.data);
+    }
 
-      // Set cross-domain cookies for realtor subdomains
-      try {
-        const domain =
-          window.location.hostname === "localhost"
-            ? "localhost"
-            : ".stayza.pro";
-        document.cookie = `accessToken=${response.data.accessToken}; domain=${domain}; path=/; Secure; SameSite=None`;
-        document.cookie = `refreshToken=${response.data.refreshToken}; domain=${domain}; path=/; Secure; SameSite=None`;
-      } catch (cookieError) {}
+    return response.data;
+  },
+
+  // Enroll an authenticator during sign-in (admins who have none yet)
+  setupTwoFactorChallenge: async (
+    challengeToken: string,
+  ): Promise<TwoFactorEnrollment> => {
+    const response = await apiClient.post<TwoFactorEnrollment>(
+      "/auth/2fa/challenge/setup",
+      { challengeToken },
+    );
+    return response.data;
+  },
+
+  // Finish a 2FA sign-in with an authenticator or recovery code
+  completeTwoFactorChallenge: async (
+    challengeToken: string,
+    code: string,
+  ): Promise<AuthResponse> => {
+    const response = await apiClient.post<AuthResponse>(
+      "/auth/2fa/challenge",
+      { challengeToken, code },
+    );
+
+    if (response.data.accessToken) {
+      persistLoginTokens(response.data);
     }
 
     return response.data;
   },
 
+  getTwoFactorStatus: async (): Promise<TwoFactorStatus> => {
+    const response = await apiClient.get<TwoFactorStatus>("/auth/2fa/status");
+    return response.data;
+  },
+
+  setupTwoFactor: async (): Promise<TwoFactorEnrollment> => {
+    const response = await apiClient.post<TwoFactorEnrollment>(
+      "/auth/2fa/setup",
+    );
+    return response.data;
+  },
+
+  // Returns the recovery codes; they are not shown again
+  confirmTwoFactor: async (code: string): Promise<string[]> => {
+    const response = await apiClient.post<{ recoveryCodes: string[] }>(
+      "/auth/2fa/confirm",
+      { code },
+    );
+    return response.data.recoveryCodes;
+  },
+
+  disableTwoFactor: async (code: string): Promise<void> => {
+    await apiClient.post("/auth/2fa/disable", { code });
+  },
+
+  regenerateRecoveryCodes: async (code: string): Promise<string[]> => {
+    const response = await apiClient.post<{ recoveryCodes: string[] }>(
+      "/auth/2fa/recovery-codes",
+      { code },
+    );
+    return response.data.recoveryCodes;
+  },
+
+  // Re-verify the current session before a sensitive action
+  verifyStepUp: async (code: string): Promise<string> => {
+    const response = await apiClient.post<{ stepUpExpiresAt: string }>(
+      "/auth/2fa/step-up",
+      { code },
+    );
+    return response.data.stepUpExpiresAt;
+  },
+
   // Logout user
   logout: async (): Promise<void> => {
     const refreshToken = localStorage.getItem("refreshToken");
@@ -87,27 +171,32 @@ export const authService = {
     }
   },
 
-  // Refresh access token
+  // Refresh access token (also rotates and stores the refresh token)
   refreshToken: async (): Promise<RefreshTokenResponse> => {
-    const refreshToken = localStorage.getItem("refreshToken");
-
-    if (!refreshToken) {
-      throw new Error("No refresh token available");
-    }
+    return refreshSessionTokens();
+  },
 
-    const response = await apiClient.post<RefreshTokenResponse>(
-      "/auth/refresh",
-      {
-        refreshToken,
-      },
+  // Signed-in devices for the current user
+  getSessions: async (): Promise<UserSession[]> => {
+    const response = await apiClient.get<{ sessions: UserSession[] }>(
+      "/auth/sessions",
     );
+    return response.data.sessions;
+  },
 
-    // Update stored token
-    if (response.data.accessToken) {
-      localStorage.setItem("accessToken", response.data.accessToken);
-    }
+  // Sign out a single device
+  revokeSession: async (sessionId: string): Promise<void> => {
+    await apiClient.delete(`/auth/sessions/${sessionId}`);
+  },
 
-    return response.data;
+  // Sign out every device, including this one
+  logoutAll: async (): Promise<void> => {
+    try {
+      await apiClient.post("/auth/logout-all");
+    } finally {
+      localStorage.removeItem("accessToken");
+      localStorage.removeItem("refreshToken");
+    }
   },
 
   // Get current user profile
@@ -228,13 +317,13 @@ export const authService = {
   // Verify login OTP
   verifyLoginOtp: async (
     data: PasswordlessOtpPayload,
-  ): Promise<AuthResponse> => {
-    const response = await apiClient.post<AuthResponse>(
+  ): Promise<AuthResponse | TwoFactorChallenge> => {
+    const response = await apiClient.post<AuthResponse | TwoFactorChallenge>(
       "/auth/verify-login",
       data,
     );
 
-    if (response.data.accessToken) {
+    if (!isTwoFactorChallenge(response.data) && response.data.accessToken) {
       localStorage.setItem("accessToken", response.data.accessToken);
       localStorage.setItem("refreshToken", response.data.refreshToken);
     }
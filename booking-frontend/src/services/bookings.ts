@@ -1,8 +1,11 @@
 import { apiClient, PaginatedResponse } from "./api";
 import {
   Booking,
+  BookingDisplayAmounts,
   BookingFormData,
   BookingStatus,
+  CancellationPolicy,
+  NightlyPriceLine,
   SearchParams,
 } from "../types";
 
@@ -26,15 +29,60 @@ export interface VerifiedBookingArtifact {
   message?: string;
 }
 
+export type BookingModificationStatus =
+  | "PENDING_REALTOR_APPROVAL"
+  | "PROCESSING"
+  | "COMPLETED"
+  | "DECLINED"
+  | "CANCELLED"
+  | "EXPIRED"
+  | "FAILED";
+
 export interface BookingModificationOptions {
+  bookingId: string;
+  currency: string;
+  previousCheckInDate: string;
+  previousCheckOutDate: string;
+  newCheckInDate: string;
+  newCheckOutDate: string;
+  newTotalGuests: number;
   oldNights: number;
   newNights: number;
-  pricePerNight: number;
-  oldSubtotal: number;
-  newSubtotal: number;
-  difference: number;
-  requiresPayment: boolean;
+  previousRoomFee: number;
+  newRoomFee: number;
+  roomFeeDifference: number;
+  additionalServiceFee: number;
+  amountDue: number;
   refundAmount: number;
+  retainedRoomFee: number;
+  requiresPayment: boolean;
+  isAvailable: boolean;
+  unavailableReason: string | null;
+  nightlyBreakdown: NightlyPriceLine[];
+  expiresAt: string;
+}
+
+export interface BookingModification {
+  id: string;
+  bookingId: string;
+  status: BookingModificationStatus;
+  reason?: string | null;
+  previousCheckInDate: string;
+  previousCheckOutDate: string;
+  previousTotalGuests: number;
+  newCheckInDate: string;
+  newCheckOutDate: string;
+  newTotalGuests: number;
+  previousRoomFee: number | string;
+  newRoomFee: number | string;
+  amountDue: number | string;
+  refundAmount: number | string;
+  expiresAt: string;
+  responseNote?: string | null;
+  failureReason?: string | null;
+  respondedAt?: string | null;
+  completedAt?: string | null;
+  createdAt: string;
 }
 
 export interface BookingModifyPayload {
@@ -45,16 +93,17 @@ export interface BookingModifyPayload {
 }
 
 export interface BookingModifyResult {
+  modification: BookingModification;
   priceDifference: number;
   requiresPayment: boolean;
+  amountDue: number;
   refundAmount: number;
 }
 
 export interface BookingExtensionResult {
+  modification: BookingModification;
   newCheckOutDate: string;
   additionalCost: number;
-  paymentReference: string;
-  booking: Booking;
 }
 
 export type RoomFeeDisputeCategory =
@@ -98,6 +147,7 @@ export interface PropertyCalendarDay {
   date: string;
   available: boolean;
   status?: string;
+  blockReason?: string;
 }
 
 export interface PropertyAvailabilityCalendar {
@@ -106,25 +156,6 @@ export interface PropertyAvailabilityCalendar {
   calendar: PropertyCalendarDay[];
 }
 
-export interface BlockDatesPayload {
-  startDate: string;
-  endDate: string;
-  reason: string;
-}
-
-export interface BlockedDateBooking {
-  id: string;
-  checkInDate: string;
-  checkOutDate: string;
-  status: string;
-}
-
-export interface PropertyBlockedBooking extends BlockedDateBooking {
-  propertyId?: string;
-  specialRequests?: string | null;
-  reason?: string | null;
-}
-
 export const bookingService = {
   // Create new booking
   createBooking: async (data: BookingFormData): Promise<Booking> => {
@@ -134,6 +165,7 @@ export const bookingService = {
       checkOutDate: data.checkOut.toISOString().split("T")[0],
       totalGuests: data.guests, // Backend expects totalGuests, not guests
       specialRequests: data.specialRequests,
+      displayCurrency: data.displayCurrency,
     });
     return response.data;
   },
@@ -220,11 +252,15 @@ export const bookingService = {
     id: string,
     newCheckInDate: string,
     newCheckOutDate: string,
+    newGuestCount?: number,
   ): Promise<BookingModificationOptions> => {
     const params = new URLSearchParams({
       newCheckIn: newCheckInDate,
       newCheckOut: newCheckOutDate,
     });
+    if (newGuestCount) {
+      params.set("newGuestCount", String(newGuestCount));
+    }
     const response = await apiClient.get<BookingModificationOptions | { data: BookingModificationOptions }>(
       `/bookings/${id}/modification-options?${params.toString()}`,
     );
@@ -241,6 +277,45 @@ export const bookingService = {
     return ((response as any)?.data || response) as BookingModifyResult;
   },
 
+  // Date change requests for a booking, newest first
+  getModifications: async (id: string): Promise<BookingModification[]> => {
+    const response = await apiClient.get<BookingModification[]>(
+      `/bookings/${id}/modifications`,
+    );
+    return response.data;
+  },
+
+  approveModification: async (
+    id: string,
+    modificationId: string,
+    note?: string,
+  ): Promise<void> => {
+    await apiClient.post(
+      `/bookings/${id}/modifications/${modificationId}/approve`,
+      { note },
+    );
+  },
+
+  declineModification: async (
+    id: string,
+    modificationId: string,
+    note?: string,
+  ): Promise<void> => {
+    await apiClient.post(
+      `/bookings/${id}/modifications/${modificationId}/decline`,
+      { note },
+    );
+  },
+
+  cancelModification: async (
+    id: string,
+    modificationId: string,
+  ): Promise<void> => {
+    await apiClient.post(
+      `/bookings/${id}/modifications/${modificationId}/cancel`,
+    );
+  },
+
   extendBooking: async (
     id: string,
     additionalNights: number,
@@ -373,6 +448,7 @@ export const bookingService = {
       hoursUntilCheckIn: number;
       totalAmount: number;
       currency: string;
+      policy?: CancellationPolicy & { schedule: string[] };
     };
     bookingDetails?: {
       id: string;
@@ -420,6 +496,7 @@ export const bookingService = {
           realtorPortion: number;
           platformPortion: number;
         };
+        policy?: CancellationPolicy & { schedule: string[] };
         currency: string;
         reason: string;
         warning?: string | null;
@@ -485,76 +562,6 @@ export const bookingService = {
     return ((response as any)?.data || response) as PropertyAvailabilityCalendar;
   },
 
-  blockDates: async (
-    propertyId: string,
-    payload: BlockDatesPayload,
-  ): Promise<BlockedDateBooking> => {
-    const response = await apiClient.post<
-      { blockedBooking: BlockedDateBooking } | { data: { blockedBooking: BlockedDateBooking } }
-    >(`/bookings/properties/${propertyId}/block-dates`, payload);
-    const data = (response as any)?.data || response;
-    return (data?.blockedBooking || data?.data?.blockedBooking) as BlockedDateBooking;
-  },
-
-  unblockDates: async (
-    blockedBookingId: string,
-    reason = "Dates unblocked by host",
-  ): Promise<void> => {
-    await apiClient.put(`/bookings/${blockedBookingId}/cancel`, { reason });
-  },
-
-  getPropertyBlockedBookings: async (
-    propertyId: string,
-    limit = 250,
-  ): Promise<PropertyBlockedBooking[]> => {
-    const response = await apiClient.get<Booking[] | { data: Booking[] }>(
-      `/bookings/realtor-bookings?propertyId=${encodeURIComponent(
-        propertyId,
-      )}&status=ACTIVE&page=1&limit=${Math.max(50, Math.min(limit, 500))}&sortBy=checkInDate&sortOrder=asc`,
-    );
-
-    const payload = (response as any)?.data || response;
-    const bookings: Booking[] = Array.isArray(payload)
-      ? (payload as Booking[])
-      : Array.isArray((payload as any)?.data)
-        ? ((payload as any).data as Booking[])
-        : [];
-
-    return bookings
-      .filter((booking) => {
-        const specialRequests =
-          typeof booking?.specialRequests === "string"
-            ? booking.specialRequests
-            : "";
-        return (
-          specialRequests.includes("[SYSTEM_BLOCKED_DATES]") ||
-          specialRequests.includes("SYSTEM:BLOCKED_DATES")
-        );
-      })
-      .map((booking) => {
-        const specialRequests =
-          typeof booking?.specialRequests === "string"
-            ? booking.specialRequests
-            : null;
-        const reason = specialRequests
-          ? specialRequests
-              .replace("[SYSTEM_BLOCKED_DATES]", "")
-              .replace("SYSTEM:BLOCKED_DATES", "")
-              .trim() || null
-          : null;
-
-        return {
-          id: booking.id,
-          propertyId: booking.propertyId,
-          checkInDate: String(booking.checkInDate),
-          checkOutDate: String(booking.checkOutDate),
-          status: booking.status,
-          specialRequests,
-          reason,
-        } as PropertyBlockedBooking;
-      });
-  },
-
   // Get booking statistics (for dashboards)
   getBookingStats: async (
     period = "30d",
@@ -613,6 +620,7 @@ export const bookingService = {
     checkInDate: Date,
     checkOutDate: Date,
     guests: number,
+    displayCurrency?: string,
   ): Promise<{
     subtotal: number;
     serviceFee: number;
@@ -623,6 +631,7 @@ export const bookingService = {
     total: number;
     currency: string;
     nights: number;
+    nightlyBreakdown?: NightlyPriceLine[];
     serviceFeeBreakdown?: {
       total: number;
       stayza: number;
@@ -643,6 +652,7 @@ export const bookingService = {
       nextThreshold: number | null;
       nextReduction: number | null;
     };
+    display?: BookingDisplayAmounts | null;
   }> => {
     const response = await apiClient.post<{
       success: boolean;
@@ -657,6 +667,7 @@ export const bookingService = {
         total: number;
         currency: string;
         nights: number;
+        nightlyBreakdown?: NightlyPriceLine[];
         serviceFeeBreakdown?: {
           total: number;
           stayza: number;
@@ -677,6 +688,7 @@ export const bookingService = {
           nextThreshold: number | null;
           nextReduction: number | null;
         };
+        display?: BookingDisplayAmounts | null;
         breakdown?: {
           pricePerNight: number;
           serviceFee: number;
@@ -691,6 +703,7 @@ export const bookingService = {
       checkInDate: checkInDate.toISOString().split("T")[0],
       checkOutDate: checkOutDate.toISOString().split("T")[0],
       guests,
+      displayCurrency,
     });
 
     // API returns data directly in response.data (already unwrapped by axios)
@@ -0,0 +1,99 @@
+import { apiClient } from "./api";
+
+export type CalendarSyncStatus = "PENDING" | "SUCCESS" | "CONFLICT" | "FAILED";
+
+export interface ExternalCalendarSource {
+  id: string;
+  propertyId: string;
+  name: string;
+  url: string;
+  isActive: boolean;
+  syncStatus: CalendarSyncStatus;
+  lastSyncAttemptAt?: string | null;
+  lastSyncedAt?: string | null;
+  lastError?: string | null;
+  lastEventCount: number;
+  conflictCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CalendarSyncSettings {
+  propertyId: string;
+  feedUrl: string;
+  sources: ExternalCalendarSource[];
+}
+
+export interface CalendarSyncResult {
+  sourceId: string;
+  status: CalendarSyncStatus;
+  eventCount: number;
+  conflicts: Array<{
+    uid: string;
+    bookingId: string;
+    start: string;
+    end: string;
+  }>;
+  error?: string;
+}
+
+export interface CalendarSourcePayload {
+  name: string;
+  url: string;
+}
+
+export const calendarSyncService = {
+  // Export feed URL and imported calendars for a property (hosts only)
+  getSettings: async (propertyId: string): Promise<CalendarSyncSettings> => {
+    const response = await apiClient.get<CalendarSyncSettings>(
+      `/calendar-sync/properties/${propertyId}`
+    );
+    return response.data;
+  },
+
+  // Invalidate the current export feed URL and issue a new one
+  rotateFeedUrl: async (propertyId: string): Promise<string> => {
+    const response = await apiClient.post<{ feedUrl: string }>(
+      `/calendar-sync/properties/${propertyId}/feed/rotate`
+    );
+    return response.data.feedUrl;
+  },
+
+  // Import an Airbnb / Booking.com / other iCal calendar
+  addSource: async (
+    propertyId: string,
+    payload: CalendarSourcePayload
+  ): Promise<{ source: ExternalCalendarSource; sync: CalendarSyncResult }> => {
+    const response = await apiClient.post<{
+      source: ExternalCalendarSource;
+      sync: CalendarSyncResult;
+    }>(`/calendar-sync/properties/${propertyId}/sources`, payload);
+    return response.data;
+  },
+
+  updateSource: async (
+    sourceId: string,
+    payload: Partial<CalendarSourcePayload> & { isActive?: boolean }
+  ): Promise<ExternalCalendarSource> => {
+    const response = await apiClient.patch<ExternalCalendarSource>(
+      `/calendar-sync/sources/${sourceId}`,
+      payload
+    );
+    return response.data;
+  },
+
+  // Stop importing a calendar; its blocked dates are released
+  deleteSource: async (sourceId: string): Promise<void> => {
+    await apiClient.delete(`/calendar-sync/sources/${sourceId}`);
+  },
+
+  syncSource: async (
+    sourceId: string
+  ): Promise<{ source: ExternalCalendarSource; sync: CalendarSyncResult }> => {
+    const response = await apiClient.post<{
+      source: ExternalCalendarSource;
+      sync: CalendarSyncResult;
+    }>(`/calendar-sync/sources/${sourceId}/sync`);
+    return response.data;
+  },
+};
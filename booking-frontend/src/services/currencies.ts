@@ -0,0 +1,27 @@
+import { apiClient } from "./api";
+
+export interface CurrencyOption {
+  code: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  // Listings, payments and payouts can use settlement currencies
+  settlement: boolean;
+  // Units per one unit of the base currency; null when no rate is set
+  rate: number | null;
+}
+
+export interface CurrencyList {
+  base: string;
+  ratesUpdatedAt: string | null;
+  currencies: CurrencyOption[];
+}
+
+export const currencyService = {
+  async getCurrencies(base: string = "NGN"): Promise<CurrencyList> {
+    const response = await apiClient.get<CurrencyList>("/currencies", {
+      params: { base },
+    });
+    return response.data;
+  },
+};
@@ -0,0 +1,48 @@
+import { apiClient } from "./api";
+
+export type CustomDomainStatus = "PENDING" | "VERIFIED" | "FAILED";
+
+export interface CustomDomain {
+  hostname: string;
+  status: CustomDomainStatus;
+  verifiedAt: string | null;
+  lastCheckedAt: string | null;
+  lastCheckError: string | null;
+  // DNS records the realtor needs to publish
+  txtRecord: { name: string; value: string };
+  cnameTarget: string;
+}
+
+export interface CustomDomainSettings {
+  domain: CustomDomain | null;
+  // Based on the realtor's website URL, e.g. book.example.com
+  suggestedHostname: string | null;
+}
+
+export const customDomainService = {
+  async getSettings(): Promise<CustomDomainSettings> {
+    const response = await apiClient.get<CustomDomainSettings>(
+      "/realtors/custom-domain",
+    );
+    return response.data;
+  },
+
+  async save(hostname: string): Promise<CustomDomain> {
+    const response = await apiClient.put<CustomDomain>(
+      "/realtors/custom-domain",
+      { hostname },
+    );
+    return response.data;
+  },
+
+  async verify(): Promise<{ domain: CustomDomain; message: string }> {
+    const response = await apiClient.post<CustomDomain>(
+      "/realtors/custom-domain/verify",
+    );
+    return { domain: response.data, message: response.message || "" };
+  },
+
+  async remove(): Promise<void> {
+    await apiClient.delete("/realtors/custom-domain");
+  },
+};
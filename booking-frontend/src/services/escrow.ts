@@ -113,6 +113,43 @@ export interface EmailWorkerHealth {
   checkedAt: string;
 }
 
+export type ScheduledMessageType =
+  | "BOOKING_CONFIRMED"
+  | "PAYMENT_CONFIRMED"
+  | "HOUSE_RULES"
+  | "CHECKIN_INSTRUCTIONS"
+  | "CHECKOUT_REMINDER"
+  | "CHECKOUT_INSTRUCTIONS";
+
+export interface ScheduledMessageSummary {
+  id: string;
+  bookingId: string;
+  type: ScheduledMessageType;
+  dueAt: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+}
+
+export interface ScheduledMessageHealth {
+  queue: {
+    pending: number;
+    overdue: number;
+    sent: number;
+    failed: number;
+    cancelled: number;
+  };
+  latestSentMessage: {
+    id: string;
+    bookingId: string;
+    type: ScheduledMessageType;
+    sentAt: string | null;
+  } | null;
+  nextPendingMessages: ScheduledMessageSummary[];
+  recentFailedMessages: Array<ScheduledMessageSummary & { updatedAt: string }>;
+  checkedAt: string;
+}
+
 // New Escrow Tracker Types
 export interface FundStatus {
   status: string;
@@ -210,6 +247,14 @@ export async function getEmailWorkerHealth(): Promise<EmailWorkerHealth> {
   return response.data?.data ?? response.data;
 }
 
+/**
+ * Get booking system message queue health (admin only)
+ */
+export async function getScheduledMessageHealth(): Promise<ScheduledMessageHealth> {
+  const response = await api.get("/admin/system/scheduled-messages-health");
+  return response.data?.data ?? response.data;
+}
+
 /**
  * Force release an expired job lock (admin only)
  */
@@ -241,6 +286,7 @@ export const escrowService = {
   getActiveJobLocks,
   getSystemHealthStats,
   getEmailWorkerHealth,
+  getScheduledMessageHealth,
   forceReleaseJobLock,
   getWebhookDeliveryStatus,
   getEscrowStatus,
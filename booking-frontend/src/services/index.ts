@@ -1,5 +1,5 @@
 // Export all services
-export { authService } from "./auth";
+export { authService, isTwoFactorChallenge } from "./auth";
 export { propertyService } from "./properties";
 export { bookingService } from "./bookings";
 export { paymentService } from "./payments";
@@ -171,6 +171,39 @@ class NotificationApiService {
       throw error;
     }
   }
+
+  // Web Push VAPID public key (404/503 when push is not configured)
+  async getPushPublicKey(): Promise<string> {
+    const response = await axios.get<{ data: { publicKey: string } }>(
+      `${API_BASE_URL}/notifications/push/public-key`,
+      { headers: this.getAuthHeaders() },
+    );
+
+    return response.data.data.publicKey;
+  }
+
+  // Register this browser's push subscription
+  async savePushSubscription(
+    subscription: PushSubscriptionJSON,
+  ): Promise<void> {
+    await axios.post(
+      `${API_BASE_URL}/notifications/push/subscriptions`,
+      {
+        endpoint: subscription.endpoint,
+        expirationTime: subscription.expirationTime ?? null,
+        keys: subscription.keys,
+      },
+      { headers: this.getAuthHeaders() },
+    );
+  }
+
+  // Remove this browser's push subscription
+  async removePushSubscription(endpoint: string): Promise<void> {
+    await axios.delete(`${API_BASE_URL}/notifications/push/subscriptions`, {
+      headers: this.getAuthHeaders(),
+      data: { endpoint },
+    });
+  }
 }
 
 export const notificationApiService = new NotificationApiService();
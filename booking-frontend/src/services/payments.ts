@@ -2,9 +2,13 @@ import { apiClient } from "./api";
 import { getCookie } from "@/utils/cookies";
 import { Booking, Payment } from "../types";
 
+export type PaymentProvider = "PAYSTACK" | "FLUTTERWAVE";
+
 export interface PaystackInitializationRequest {
   bookingId: string;
   originUrl?: string;
+  // Preferred provider; the API may fail over to another one
+  provider?: PaymentProvider;
 }
 
 export interface PaystackInitializationResponse {
@@ -12,6 +16,7 @@ export interface PaystackInitializationResponse {
   reference?: string;
   paymentId: string;
   paymentStatus?: Payment["status"];
+  provider?: PaymentProvider;
 }
 
 export interface PaystackVerificationRequest {
@@ -173,7 +178,7 @@ const normalizePaymentsList = (
 };
 
 export const paymentService = {
-  // Initialize Paystack split payment for a booking
+  // Initialize a payment for a booking with the selected provider
   initializePaystackPayment: async (
     data: PaystackInitializationRequest,
   ): Promise<PaystackInitializationResponse> => {
@@ -185,8 +190,9 @@ export const paymentService = {
         reference?: string;
         paymentId: string;
         paymentStatus?: Payment["status"];
+        provider?: PaymentProvider;
       };
-    }>("/payments/initialize-paystack", data);
+    }>("/payments/initialize", data);
 
     if (!response || !response.data) {
       throw new Error("Invalid response from payment API");
@@ -210,10 +216,11 @@ export const paymentService = {
       reference: responseData.reference,
       paymentId: responseData.paymentId,
       paymentStatus: responseData.paymentStatus,
+      provider: responseData.provider,
     };
   },
 
-  // Verify Paystack payment manually (fallback if webhook missed)
+  // Verify a payment manually (fallback if webhook missed)
   verifyPaystackPayment: async (
     data: PaystackVerificationRequest,
   ): Promise<PaystackVerificationResponse> => {
@@ -221,7 +228,7 @@ export const paymentService = {
     const response = await apiClient.post<{
       payment?: PaymentVerificationData["payment"];
       booking?: PaymentVerificationData["booking"];
-    }>("/payments/verify-paystack", data);
+    }>("/payments/verify", data);
 
     return {
       success: response.success ?? false,
@@ -31,6 +31,8 @@ export interface PayoutSettings {
   maskedAccountNumber?: string;
   accountName?: string;
   otpRequiredForEdit?: boolean;
+  // Withdrawals are paid out only from the wallet in this currency
+  currency?: string;
 }
 
 export interface PayoutAccountOtpChallenge {
@@ -41,10 +43,12 @@ export interface PayoutAccountOtpChallenge {
 
 export const payoutService = {
   /**
-   * Get list of Nigerian banks
+   * Get list of banks that receive payouts in a currency
    */
-  getBanks: async (): Promise<Bank[]> => {
-    const response = await api.get("/realtors/payout/banks");
+  getBanks: async (currency: string = "NGN"): Promise<Bank[]> => {
+    const response = await api.get("/realtors/payout/banks", {
+      params: { currency },
+    });
     return response.data.data;
   },
 
@@ -53,11 +57,13 @@ export const payoutService = {
    */
   verifyBankAccount: async (
     accountNumber: string,
-    bankCode: string
+    bankCode: string,
+    currency?: string
   ): Promise<BankAccountVerification> => {
     const response = await api.post("/realtors/payout/verify", {
       accountNumber,
       bankCode,
+      currency,
     });
     return response.data.data;
   },
@@ -70,6 +76,7 @@ export const payoutService = {
     bankName: string;
     accountNumber: string;
     accountName: string;
+    currency?: string;
     otp?: string;
   }) => {
     const response = await api.post("/realtors/payout/account", data);
@@ -84,6 +91,7 @@ export const payoutService = {
     bankName: string;
     accountNumber: string;
     accountName: string;
+    currency?: string;
   }): Promise<PayoutAccountOtpChallenge> => {
     const response = await api.post("/realtors/payout/account/request-otp", data);
     return response.data.data;
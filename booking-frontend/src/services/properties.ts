@@ -1,5 +1,7 @@
 import { apiClient, PaginatedResponse } from "./api";
 import {
+  PricingRules,
+  CancellationPolicy,
   Property,
   PropertyFilters,
   SearchParams,
@@ -7,6 +9,33 @@ import {
   Review,
 } from "../types";
 
+export type AvailabilityBlockReason =
+  | "MAINTENANCE"
+  | "OWNER_STAY"
+  | "EXTERNAL_BOOKING"
+  | "OTHER";
+
+export interface PropertyAvailabilityBlock {
+  id: string;
+  propertyId: string;
+  startDate: string;
+  // Exclusive, like a booking check-out date
+  endDate: string;
+  reason: AvailabilityBlockReason;
+  note?: string | null;
+  // Set when imported from an external iCal calendar
+  sourceId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AvailabilityBlockPayload {
+  startDate: string;
+  endDate: string;
+  reason: AvailabilityBlockReason;
+  note?: string;
+}
+
 export const propertyService = {
   // Get all properties with filtering and pagination
   getProperties: async (
@@ -188,6 +217,101 @@ export const propertyService = {
     };
   },
 
+  // Nightly pricing rules (hosts only); null means the flat nightly price
+  getPricingRules: async (
+    propertyId: string
+  ): Promise<{
+    pricePerNight: number;
+    currency: string;
+    rules: PricingRules | null;
+  }> => {
+    const response = await apiClient.get<{
+      pricePerNight: number;
+      currency: string;
+      rules: PricingRules | null;
+    }>(`/properties/${propertyId}/pricing-rules`);
+    return response.data;
+  },
+
+  updatePricingRules: async (
+    propertyId: string,
+    rules: PricingRules | null
+  ): Promise<PricingRules | null> => {
+    const response = await apiClient.put<{ rules: PricingRules | null }>(
+      `/properties/${propertyId}/pricing-rules`,
+      { rules }
+    );
+    return response.data.rules;
+  },
+
+  // Cancellation policy (hosts only); Flexible when none has been chosen
+  getCancellationPolicy: async (
+    propertyId: string
+  ): Promise<{ policy: CancellationPolicy; schedule: string[] }> => {
+    const response = await apiClient.get<{
+      policy: CancellationPolicy;
+      schedule: string[];
+    }>(`/properties/${propertyId}/cancellation-policy`);
+    return response.data;
+  },
+
+  updateCancellationPolicy: async (
+    propertyId: string,
+    policy: Pick<CancellationPolicy, "type"> &
+      Partial<Omit<CancellationPolicy, "type">>
+  ): Promise<{ policy: CancellationPolicy; schedule: string[] }> => {
+    const response = await apiClient.put<{
+      policy: CancellationPolicy;
+      schedule: string[];
+    }>(`/properties/${propertyId}/cancellation-policy`, { policy });
+    return response.data;
+  },
+
+  // List availability blocks (hosts only)
+  getAvailabilityBlocks: async (
+    propertyId: string
+  ): Promise<PropertyAvailabilityBlock[]> => {
+    const response = await apiClient.get<{
+      blocks: PropertyAvailabilityBlock[];
+    }>(`/properties/${propertyId}/availability-blocks`);
+    return response.data?.blocks || [];
+  },
+
+  // Block a date range (hosts only)
+  createAvailabilityBlock: async (
+    propertyId: string,
+    payload: AvailabilityBlockPayload
+  ): Promise<PropertyAvailabilityBlock> => {
+    const response = await apiClient.post<PropertyAvailabilityBlock>(
+      `/properties/${propertyId}/availability-blocks`,
+      payload
+    );
+    return response.data;
+  },
+
+  // Update a blocked range (hosts only)
+  updateAvailabilityBlock: async (
+    propertyId: string,
+    blockId: string,
+    payload: Partial<AvailabilityBlockPayload>
+  ): Promise<PropertyAvailabilityBlock> => {
+    const response = await apiClient.patch<PropertyAvailabilityBlock>(
+      `/properties/${propertyId}/availability-blocks/${blockId}`,
+      payload
+    );
+    return response.data;
+  },
+
+  // Remove a blocked range (hosts only)
+  deleteAvailabilityBlock: async (
+    propertyId: string,
+    blockId: string
+  ): Promise<void> => {
+    await apiClient.delete(
+      `/properties/${propertyId}/availability-blocks/${blockId}`
+    );
+  },
+
   // Set property unavailable dates (hosts only)
   setUnavailableDates: async (
     propertyId: string,
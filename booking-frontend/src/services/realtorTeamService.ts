@@ -0,0 +1,146 @@
+import { apiClient } from "./api";
+import { RealtorTeamRole } from "../types";
+
+export interface RealtorTeamPerson {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface RealtorTeamMember {
+  id: string;
+  role: RealtorTeamRole;
+  createdAt: string;
+  user: RealtorTeamPerson & { twoFactorEnabled: boolean };
+}
+
+export interface RealtorTeamInvite {
+  id: string;
+  email: string;
+  role: RealtorTeamRole;
+  expiresAt: string;
+  createdAt: string;
+  invitedBy: { id: string; firstName: string; lastName: string };
+}
+
+export interface RealtorTeamRoleDefinition {
+  role: RealtorTeamRole;
+  label: string;
+  permissions: string[];
+}
+
+export interface RealtorTeamPermissions {
+  realtorId: string;
+  // Null for the realtor's own login, which holds every permission
+  teamRole: RealtorTeamRole | null;
+  permissions: string[];
+  roles: RealtorTeamRoleDefinition[];
+}
+
+export interface RealtorTeamScheduleStay {
+  id: string;
+  checkInDate: string;
+  checkOutDate: string;
+  totalGuests: number;
+  stayStatus: string;
+  property: { id: string; title: string; address: string; city: string };
+}
+
+export interface RealtorTeamInvitePreview {
+  email: string;
+  role: RealtorTeamRole;
+  roleLabel: string;
+  businessName: string;
+  expiresAt: string;
+}
+
+export interface AcceptRealtorTeamInviteRequest {
+  token: string;
+  firstName: string;
+  lastName: string;
+  password: string;
+}
+
+export const realtorTeamService = {
+  // The signed-in user's team permissions, e.g. to hide dashboard sections
+  async getPermissions(): Promise<RealtorTeamPermissions> {
+    const response = await apiClient.get<RealtorTeamPermissions>(
+      "/realtors/team/permissions",
+    );
+    return response.data;
+  },
+
+  async getSchedule(params?: {
+    from?: string;
+    to?: string;
+  }): Promise<{ from: string; to: string; stays: RealtorTeamScheduleStay[] }> {
+    const response = await apiClient.get<{
+      from: string;
+      to: string;
+      stays: RealtorTeamScheduleStay[];
+    }>("/realtors/team/schedule", { params });
+    return response.data;
+  },
+
+  async getTeam(): Promise<{
+    owner: RealtorTeamPerson;
+    members: RealtorTeamMember[];
+    invites: RealtorTeamInvite[];
+  }> {
+    const response = await apiClient.get<{
+      owner: RealtorTeamPerson;
+      members: RealtorTeamMember[];
+      invites: RealtorTeamInvite[];
+    }>("/realtors/team");
+    return response.data;
+  },
+
+  async invite(
+    email: string,
+    role: RealtorTeamRole,
+  ): Promise<RealtorTeamInvite> {
+    const response = await apiClient.post<RealtorTeamInvite>(
+      "/realtors/team/invites",
+      { email, role },
+    );
+    return response.data;
+  },
+
+  async revokeInvite(id: string): Promise<RealtorTeamInvite> {
+    const response = await apiClient.delete<RealtorTeamInvite>(
+      `/realtors/team/invites/${id}`,
+    );
+    return response.data;
+  },
+
+  async updateRole(
+    memberId: string,
+    role: RealtorTeamRole,
+  ): Promise<RealtorTeamMember> {
+    const response = await apiClient.patch<RealtorTeamMember>(
+      `/realtors/team/members/${memberId}/role`,
+      { role },
+    );
+    return response.data;
+  },
+
+  async removeMember(memberId: string): Promise<RealtorTeamMember> {
+    const response = await apiClient.delete<RealtorTeamMember>(
+      `/realtors/team/members/${memberId}`,
+    );
+    return response.data;
+  },
+
+  // Public: used by the invite link before the invitee has an account
+  async getInvite(token: string): Promise<RealtorTeamInvitePreview> {
+    const response = await apiClient.get<RealtorTeamInvitePreview>(
+      `/auth/team-invites/${encodeURIComponent(token)}`,
+    );
+    return response.data;
+  },
+
+  async acceptInvite(data: AcceptRealtorTeamInviteRequest): Promise<void> {
+    await apiClient.post("/auth/team-invites/accept", data);
+  },
+};
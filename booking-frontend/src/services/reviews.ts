@@ -1,5 +1,14 @@
 import { apiClient, PaginatedResponse } from "./api";
-import { Review, ReviewFormData, ReviewResponse, SearchParams } from "../types";
+import {
+  GuestRatingSummary,
+  GuestReview,
+  GuestReviewFormData,
+  Review,
+  ReviewFormData,
+  ReviewReportFormData,
+  ReviewResponse,
+  SearchParams,
+} from "../types";
 import { serviceUtils } from "./utils";
 
 export const reviewService = {
@@ -9,6 +18,35 @@ export const reviewService = {
     return response.data;
   },
 
+  // Review a guest after checkout (realtor only, double-blind)
+  createGuestReview: async (
+    data: GuestReviewFormData,
+  ): Promise<GuestReview> => {
+    const response = await apiClient.post<GuestReview>("/reviews/guests", data);
+    return response.data;
+  },
+
+  // Get a guest's published reviews and rating summary
+  getGuestReviews: async (
+    guestId: string,
+    params?: { page?: number; limit?: number },
+  ): Promise<{ summary: GuestRatingSummary; reviews: GuestReview[] }> => {
+    const query = new URLSearchParams();
+    if (params?.page) query.append("page", String(params.page));
+    if (params?.limit) query.append("limit", String(params.limit));
+    const queryString = query.toString();
+
+    const response = await apiClient.get<{
+      summary: GuestRatingSummary;
+      reviews: GuestReview[];
+    }>(
+      queryString
+        ? `/reviews/guests/${guestId}?${queryString}`
+        : `/reviews/guests/${guestId}`,
+    );
+    return response.data;
+  },
+
   // Get review by ID
   getReview: async (id: string): Promise<Review> => {
     const response = await apiClient.get<Review>(`/reviews/${id}`);
@@ -124,15 +162,13 @@ export const reviewService = {
     return response.data;
   },
 
-  // Report a review (inappropriate content)
+  // Report a review to the moderation queue. For the property's own realtor
+  // this files a removal request.
   reportReview: async (
     reviewId: string,
-    reasonData: string | { reason: string },
+    data: ReviewReportFormData,
   ): Promise<void> => {
-    const payload =
-      typeof reasonData === "string" ? { reason: reasonData } : reasonData;
-
-    await apiClient.post(`/reviews/${reviewId}/report`, payload);
+    await apiClient.post(`/reviews/${reviewId}/report`, data);
   },
 
   // Get review statistics for property
@@ -408,18 +444,6 @@ export const reviewService = {
     return response as PaginatedResponse<Review>;
   },
 
-  // Toggle review visibility (realtor only)
-  toggleReviewVisibility: async (
-    reviewId: string,
-    visible: boolean,
-  ): Promise<Review> => {
-    const response = await apiClient.patch<Review>(
-      `/reviews/${reviewId}/visibility`,
-      { isVisible: visible },
-    );
-    return response.data;
-  },
-
   // Helper functions for realtor moderation
   canModerateReview: (review: Review, realtorId: string): boolean => {
     return review.property?.realtorId === realtorId;
@@ -477,14 +501,6 @@ export const reviewService = {
     return "none";
   },
 
-  // Additional missing methods for moderation dashboard
-  flagReviewForAdmin: async (
-    reviewId: string,
-    reason: string,
-  ): Promise<void> => {
-    await apiClient.post(`/reviews/${reviewId}/flag`, { reason });
-  },
-
   extractErrorMessage: (error: any): string => {
     if (typeof error === "string") return error;
     return serviceUtils.extractErrorMessage(error);
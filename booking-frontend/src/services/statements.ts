@@ -0,0 +1,95 @@
+import api, { apiClient, PaginatedResponse } from "./api";
+
+export type StatementPeriodType = "MONTHLY" | "ANNUAL";
+
+export interface StatementTotals {
+  roomFeesCredited: number;
+  cleaningFeesCredited: number;
+  depositsCredited: number;
+  adjustments: number;
+  commission: number;
+  refunds: number;
+  disputeDeductions: number;
+  withdrawals: number;
+  withdrawalFees: number;
+  netPayouts: number;
+}
+
+export interface StatementSummary {
+  label: string;
+  totals: StatementTotals;
+  bookings: Array<{
+    bookingId: string;
+    propertyTitle: string;
+    checkInDate: string;
+    checkOutDate: string;
+    roomFee: number;
+    cleaningFee: number;
+    commissionRate: number | null;
+    commission: number;
+    refunds: number;
+    disputeDeductions: number;
+    credited: number;
+  }>;
+  withdrawals: Array<{
+    reference: string | null;
+    paidAt: string;
+    amount: number;
+    fee: number;
+    netAmount: number;
+  }>;
+}
+
+export interface RealtorStatement {
+  id: string;
+  periodType: StatementPeriodType;
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  // Decimal columns arrive as strings
+  openingBalance: number | string;
+  closingBalance: number | string;
+  summary: StatementSummary;
+  checksum: string;
+  generatedAt: string;
+  emailedAt?: string | null;
+}
+
+export interface GenerateStatementPayload {
+  periodType: StatementPeriodType;
+  year: number;
+  month?: number;
+  // Wallet currency the statement covers; NGN when omitted
+  currency?: string;
+}
+
+export const statementService = {
+  async getStatements(
+    params: {
+      periodType?: StatementPeriodType | "all";
+      page?: number;
+      limit?: number;
+    } = {}
+  ): Promise<PaginatedResponse<RealtorStatement>> {
+    const response = await apiClient.get<RealtorStatement[]>("/statements", {
+      params,
+    });
+    return response as PaginatedResponse<RealtorStatement>;
+  },
+
+  // Returns the archived statement when the period was already generated
+  async generate(payload: GenerateStatementPayload): Promise<RealtorStatement> {
+    const response = await apiClient.post<RealtorStatement>(
+      "/statements",
+      payload
+    );
+    return response.data;
+  },
+
+  async download(id: string, format: "pdf" | "csv"): Promise<Blob> {
+    const response = await api.get(`/statements/${id}/${format}`, {
+      responseType: "blob",
+    });
+    return response.data as Blob;
+  },
+};
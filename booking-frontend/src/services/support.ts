@@ -13,6 +13,7 @@ export interface SupportTicket {
   priority: "LOW" | "MEDIUM" | "HIGH";
   status: "OPEN" | "IN_PROGRESS" | "RESOLVED" | "CLOSED";
   bookingId?: string;
+  disputeId?: string;
   booking?: {
     id: string;
     property?: {
@@ -26,9 +27,14 @@ export interface SupportTicket {
   };
   messages: SupportMessage[];
   attachments: SupportAttachment[];
+  firstResponseDueAt: string;
+  resolutionDueAt: string;
+  firstRespondedAt?: string;
+  lastActivityAt: string;
   createdAt: string;
   updatedAt: string;
   resolvedAt?: string;
+  closedAt?: string;
 }
 
 export interface SupportMessage {
@@ -53,12 +59,28 @@ export interface CreateTicketRequest {
   category: SupportTicket["category"];
   priority: SupportTicket["priority"];
   bookingId?: string;
+  disputeId?: string;
+  attachments?: File[];
 }
 
 export interface ReplyToTicketRequest {
   message: string;
+  attachments?: File[];
 }
 
+// Builds the multipart body the ticket endpoints expect
+export const buildTicketFormData = (
+  fields: Record<string, string | undefined>,
+  files: File[] = []
+): FormData => {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value) formData.append(key, value);
+  });
+  files.forEach((file) => formData.append("attachments", file));
+  return formData;
+};
+
 export const supportService = {
   // Get support tickets for current user
   getTickets: async (
@@ -68,13 +90,10 @@ export const supportService = {
       status?: string;
     } = {}
   ): Promise<PaginatedResponse<SupportTicket>> => {
-    const response = await apiClient.get<PaginatedResponse<SupportTicket>>(
-      "/support/tickets",
-      {
-        params,
-      }
-    );
-    return response.data;
+    const response = await apiClient.get<SupportTicket[]>("/support/tickets", {
+      params,
+    });
+    return response as PaginatedResponse<SupportTicket>;
   },
 
   // Get single ticket with full details
@@ -104,7 +123,30 @@ export const supportService = {
     id: string,
     data: ReplyToTicketRequest
   ): Promise<void> => {
-    await apiClient.post(`/support/tickets/${id}/reply`, data);
+    if (data.attachments?.length) {
+      await apiClient.post(
+        `/support/tickets/${id}/reply`,
+        buildTicketFormData({ message: data.message }, data.attachments),
+        { headers: { "Content-Type": "multipart/form-data" } }
+      );
+      return;
+    }
+    await apiClient.post(`/support/tickets/${id}/reply`, {
+      message: data.message,
+    });
+  },
+
+  // Attach more files to a ticket
+  addAttachments: async (
+    id: string,
+    files: File[]
+  ): Promise<SupportAttachment[]> => {
+    const response = await apiClient.post<SupportAttachment[]>(
+      `/support/tickets/${id}/attachments`,
+      buildTicketFormData({}, files),
+      { headers: { "Content-Type": "multipart/form-data" } }
+    );
+    return response.data;
   },
 
   // Close ticket
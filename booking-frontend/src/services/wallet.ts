@@ -7,6 +7,16 @@ export interface WalletBalance {
   pendingBalance: number;
   totalBalance: number;
   currency: string;
+  // Currencies the realtor holds a wallet in
+  currencies?: string[];
+  // Withdrawals are only allowed from the wallet in this currency
+  payoutCurrency?: string;
+  // Set while new withdrawals are held after a payout account change
+  payoutHold?: {
+    reason: "PAYOUT_ACCOUNT_CHANGED" | "PAYOUTS_FROZEN";
+    message: string;
+    until: string | null;
+  } | null;
 }
 
 export interface WalletTransaction {
@@ -31,10 +41,17 @@ export interface WithdrawalRequest {
   feeAmount?: number;
   netAmount?: number;
   feeConfigVersion?: string;
-  status: "PENDING" | "PROCESSING" | "COMPLETED" | "FAILED" | "CANCELLED";
+  status:
+    | "PENDING"
+    | "ON_HOLD"
+    | "PROCESSING"
+    | "COMPLETED"
+    | "FAILED"
+    | "CANCELLED";
   requestedAt: string;
   processedAt?: string;
   metadata?: any;
+  wallet?: { currency: string };
 }
 
 export interface PaginatedResponse<T> {
@@ -72,11 +89,61 @@ export interface WithdrawalOtpChallenge {
   fee?: WithdrawalFeePreview;
 }
 
+export type PayoutScheduleFrequency =
+  | "DAILY"
+  | "WEEKLY"
+  | "MONTHLY"
+  | "THRESHOLD";
+
+export interface PayoutSchedule {
+  id: string;
+  currency: string;
+  frequency: PayoutScheduleFrequency;
+  weekday: number | null;
+  dayOfMonth: number | null;
+  thresholdAmount: string | null;
+  minimumReserve: string;
+  isActive: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  pausedReason: string | null;
+}
+
+export interface PayoutSchedulePreview {
+  available: number;
+  minimumReserve: number;
+  pausedReason: string | null;
+  pauseMessage: string | null;
+  upcomingRuns: string[];
+  nextPayout:
+    | { status: "DUE"; amount: number; feeAmount: number; netAmount: number }
+    | { status: "SKIPPED"; reason: "BELOW_THRESHOLD" | "BELOW_MINIMUM" };
+}
+
+export interface PayoutScheduleState {
+  currency: string;
+  schedule: PayoutSchedule | null;
+  preview: PayoutSchedulePreview | null;
+}
+
+export interface PayoutScheduleInput {
+  currency?: string;
+  frequency: PayoutScheduleFrequency;
+  weekday?: number;
+  dayOfMonth?: number;
+  thresholdAmount?: number;
+  minimumReserve: number;
+}
+
 /**
- * Get wallet balance
+ * Get wallet balance, by default for the payout currency's wallet
  */
-export const getWalletBalance = async (): Promise<WalletBalance> => {
-  const response = await api.get("/wallets/balance");
+export const getWalletBalance = async (
+  currency?: string
+): Promise<WalletBalance> => {
+  const response = await api.get("/wallets/balance", {
+    params: currency ? { currency } : undefined,
+  });
   return response.data.data;
 };
 
@@ -87,11 +154,13 @@ export const getWalletTransactions = async (
   page: number = 1,
   limit: number = 20,
   type?: "CREDIT" | "DEBIT",
-  status?: string
+  status?: string,
+  currency?: string
 ): Promise<PaginatedResponse<WalletTransaction>> => {
   const params: any = { page, limit };
   if (type) params.type = type;
   if (status) params.status = status;
+  if (currency) params.currency = currency;
 
   const response = await api.get("/wallets/transactions", { params });
   return {
@@ -205,11 +274,65 @@ export const getWithdrawalHistory = async (
 /**
  * Get earnings summary by source
  */
-export const getEarningsSummary = async (): Promise<EarningsSummary> => {
-  const response = await api.get("/wallets/earnings-summary");
+export const getEarningsSummary = async (
+  currency?: string
+): Promise<EarningsSummary> => {
+  const response = await api.get("/wallets/earnings-summary", {
+    params: currency ? { currency } : undefined,
+  });
+  return response.data.data;
+};
+
+/**
+ * Get the automatic payout schedule and upcoming payout preview
+ */
+export const getPayoutSchedule = async (
+  currency?: string
+): Promise<PayoutScheduleState> => {
+  const response = await api.get("/wallets/payout-schedule", {
+    params: currency ? { currency } : undefined,
+  });
+  return response.data.data;
+};
+
+/**
+ * Turn on or change automatic payouts
+ */
+export const savePayoutSchedule = async (
+  input: PayoutScheduleInput
+): Promise<PayoutScheduleState> => {
+  const response = await api.put("/wallets/payout-schedule", input);
   return response.data.data;
 };
 
+/**
+ * Turn off automatic payouts
+ */
+export const disablePayoutSchedule = async (
+  currency?: string
+): Promise<PayoutSchedule> => {
+  const response = await api.delete("/wallets/payout-schedule", {
+    params: currency ? { currency } : undefined,
+  });
+  return response.data.data;
+};
+
+/**
+ * Freeze payouts from the "this wasn't me" link in a payout account change
+ * alert. Public: the link itself is the credential.
+ */
+export const freezePayouts = async (
+  token: string
+): Promise<{ message: string; heldWithdrawals: number }> => {
+  const response = await api.post("/realtors/payout/account/freeze", {
+    token,
+  });
+  return {
+    message: response.data.message,
+    heldWithdrawals: response.data.data.heldWithdrawals,
+  };
+};
+
 const walletService = {
   getWalletBalance,
   getWalletTransactions,
@@ -220,6 +343,10 @@ const walletService = {
   requestWithdrawalLegacy,
   getWithdrawalHistory,
   getEarningsSummary,
+  getPayoutSchedule,
+  savePayoutSchedule,
+  disablePayoutSchedule,
+  freezePayouts,
 };
 
 export default walletService;
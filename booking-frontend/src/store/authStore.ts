@@ -1,7 +1,11 @@
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
-import { User } from "../types";
-import { authService, serviceUtils } from "../services";
+import { AuthResponse, TwoFactorChallenge, User } from "../types";
+import {
+  authService,
+  isTwoFactorChallenge,
+  serviceUtils,
+} from "../services";
 import { setCookie, getCookie, deleteCookie } from "../utils/cookies";
 
 interface AuthState {
@@ -14,7 +18,14 @@ interface AuthState {
 }
 
 interface AuthActions {
-  login: (email: string, password: string) => Promise<any>;
+  login: (
+    email: string,
+    password: string
+  ) => Promise<AuthResponse | TwoFactorChallenge>;
+  completeTwoFactorLogin: (
+    challengeToken: string,
+    code: string
+  ) => Promise<AuthResponse>;
   register: (userData: {
     email: string;
     password: string;
@@ -24,6 +35,7 @@ interface AuthActions {
     dateOfBirth?: string;
   }) => Promise<void>;
   logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
   refreshUserToken: () => Promise<void>;
   updateProfile: (userData: Partial<User>) => Promise<User>;
   clearError: () => void;
@@ -54,7 +66,12 @@ export const useAuthStore = create<AuthState & AuthActions>()(
           
           const response = await authService.login({ email, password });
 
-          
+          // The caller collects the 2FA code and finishes with
+          // completeTwoFactorLogin
+          if (isTwoFactorChallenge(response)) {
+            set({ isLoading: false });
+            return response;
+          }
 
           // Set cookies for cross-subdomain access
           if (typeof window !== "undefined") {
@@ -87,6 +104,29 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         }
       },
 
+      completeTwoFactorLogin: async (challengeToken: string, code: string) => {
+        const response = await authService.completeTwoFactorChallenge(
+          challengeToken,
+          code
+        );
+
+        if (typeof window !== "undefined") {
+          setCookie("accessToken", response.accessToken, 7);
+          setCookie("refreshToken", response.refreshToken, 30);
+        }
+
+        set({
+          user: response.user,
+          accessToken: response.accessToken,
+          refreshToken: response.refreshToken,
+          isAuthenticated: true,
+          isLoading: false,
+          error: null,
+        });
+
+        return response;
+      },
+
       register: async (userData) => {
         try {
           set({ isLoading: true, error: null });
@@ -139,6 +179,26 @@ export const useAuthStore = create<AuthState & AuthActions>()(
         }
       },
 
+      logoutAll: async () => {
+        try {
+          await authService.logoutAll();
+        } finally {
+          if (typeof window !== "undefined") {
+            deleteCookie("accessToken");
+            deleteCookie("refreshToken");
+          }
+
+          set({
+            user: null,
+            accessToken: null,
+            refreshToken: null,
+            isAuthenticated: false,
+            isLoading: false,
+            error: null,
+          });
+        }
+      },
+
       refreshUserToken: async () => {
         try {
           const { refreshToken } = get();
@@ -150,6 +210,7 @@ export const useAuthStore = create<AuthState & AuthActions>()(
 
           set({
             accessToken: response.accessToken,
+            refreshToken: response.refreshToken,
           });
         } catch (error: unknown) {
           // If refresh fails, logout user
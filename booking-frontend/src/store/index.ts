@@ -2,6 +2,7 @@
 export { useAuthStore } from "./authStore";
 export { useBookingStore } from "./bookingStore";
 export { useUIStore } from "./uiStore";
+export { useStepUpStore } from "./stepUpStore";
 
 // Export store types for convenience
 export type { BookingStep } from "./bookingStore";
@@ -0,0 +1,43 @@
+import { create } from "zustand";
+
+// Sensitive API calls answer 403 STEP_UP_REQUIRED until the session is
+// re-verified with an authenticator code. The API client asks this store to
+// prompt for the code, then retries the request.
+interface StepUpState {
+  isOpen: boolean;
+  pending: Promise<boolean> | null;
+  resolve: ((verified: boolean) => void) | null;
+}
+
+interface StepUpActions {
+  // Resolves true once the session is verified, false if the user cancels.
+  // Concurrent callers share one prompt.
+  requestStepUp: () => Promise<boolean>;
+  settle: (verified: boolean) => void;
+}
+
+export const useStepUpStore = create<StepUpState & StepUpActions>()(
+  (set, get) => ({
+    isOpen: false,
+    pending: null,
+    resolve: null,
+
+    requestStepUp: () => {
+      const { pending } = get();
+      if (pending) {
+        return pending;
+      }
+
+      const next = new Promise<boolean>((resolve) => {
+        set({ isOpen: true, resolve });
+      });
+      set({ pending: next });
+      return next;
+    },
+
+    settle: (verified) => {
+      get().resolve?.(verified);
+      set({ isOpen: false, pending: null, resolve: null });
+    },
+  })
+);
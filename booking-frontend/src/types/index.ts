@@ -3,6 +3,13 @@
 // ========================
 
 export type UserRole = "GUEST" | "REALTOR" | "ADMIN";
+export type AdminRole =
+  | "SUPER_ADMIN"
+  | "FINANCE"
+  | "TRUST_AND_SAFETY"
+  | "SUPPORT"
+  | "ANALYST";
+export type RealtorTeamRole = "MANAGER" | "FRONT_DESK" | "FINANCE" | "CLEANER";
 export type RealtorStatus = "PENDING" | "APPROVED" | "REJECTED" | "SUSPENDED";
 export type CacStatus = "PENDING" | "APPROVED" | "REJECTED" | "SUSPENDED";
 export type PropertyStatus = "DRAFT" | "ACTIVE" | "INACTIVE";
@@ -82,10 +89,29 @@ export type PayoutStatus =
 
 // Refund tier based on cancellation timing (matches backend Prisma schema)
 export type RefundTier =
-  | "EARLY" // 24+ hours before check-in (90% customer / 7% realtor / 3% platform)
-  | "MEDIUM" // 12-24 hours before check-in (70% customer / 20% realtor / 10% platform)
-  | "LATE" // 0-12 hours before check-in (0% customer / 80% realtor / 20% platform)
-  | "NONE"; // After check-in - no room fee refund
+  | "EARLY" // Policy's most generous tier; retained room fee splits 70/30 realtor/platform
+  | "MEDIUM" // A later policy tier (partial refund)
+  | "LATE" // 24h+ before check-in but no tier applies - no room fee refund
+  | "NONE"; // Within 24h of check-in - cancellation not allowed
+
+export type CancellationPolicyType =
+  | "FLEXIBLE"
+  | "MODERATE"
+  | "STRICT"
+  | "NON_REFUNDABLE"
+  | "CUSTOM";
+
+// Guests cancelling at least minHoursBeforeCheckIn hours out get refundRate of the room fee
+export interface CancellationPolicyTier {
+  minHoursBeforeCheckIn: number;
+  refundRate: number;
+}
+
+export interface CancellationPolicy {
+  type: CancellationPolicyType;
+  name: string;
+  tiers: CancellationPolicyTier[]; // Most generous first
+}
 
 // Cancellation refund breakdown
 export interface RefundFeeBreakdown {
@@ -162,7 +188,9 @@ export interface User {
   lastName?: string;
   phone?: string;
   role: UserRole;
+  adminRole?: AdminRole | null; // Admins only; decides their permissions
   isEmailVerified: boolean;
+  twoFactorEnabled?: boolean;
   avatar?: string;
   country?: string;
   city?: string;
@@ -220,6 +248,42 @@ export interface Realtor {
   properties?: Property[];
 }
 
+// Realtor-defined nightly pricing. Rates are fractions (0.1 = 10%);
+// adjustment rates are signed (-0.15 = 15% off).
+export interface SeasonalRate {
+  name: string;
+  startDate: string;
+  endDate: string; // Last night of the season (inclusive)
+  pricePerNight?: number | null;
+  adjustmentRate?: number | null;
+}
+
+export interface PricingRules {
+  weekdayPrice?: number | null;
+  weekendPrice?: number | null;
+  weekendNights?: number[];
+  seasonalRates?: SeasonalRate[];
+  weeklyDiscountRate?: number | null;
+  monthlyDiscountRate?: number | null;
+  lastMinute?: { days: number; adjustmentRate: number } | null;
+  earlyBird?: { days: number; adjustmentRate: number } | null;
+  minNights?: number | null;
+  maxNights?: number | null;
+}
+
+export interface NightlyPriceLine {
+  date: string | null;
+  rateSource: "BASE" | "WEEKEND" | "SEASONAL";
+  seasonName?: string;
+  baseRate: number;
+  adjustments: Array<{
+    type: "WEEKLY_DISCOUNT" | "MONTHLY_DISCOUNT" | "LAST_MINUTE" | "EARLY_BIRD";
+    rate: number;
+    amount: number;
+  }>;
+  price: number;
+}
+
 export interface Property {
   id: string;
   realtorId: string;
@@ -252,6 +316,8 @@ export interface Property {
   serviceFee?: number;
   cleaningFee?: number;
   securityDeposit?: number;
+  pricingRules?: PricingRules | null;
+  cancellationPolicy?: CancellationPolicy | null;
 
   // Relations
   realtor?: Realtor;
@@ -264,6 +330,7 @@ export interface Property {
   reviewCount?: number;
   views?: number; // Total property views
   bookingCount?: number; // Total bookings for this property
+  distanceKm?: number | null; // Only set on radius searches
 }
 
 export interface PropertyImage {
@@ -277,6 +344,19 @@ export interface PropertyImage {
   property?: Property;
 }
 
+// Prices converted for the guest with a rate locked when quoted or booked
+export interface BookingDisplayAmounts {
+  currency: string;
+  rate: number;
+  rateSource: string;
+  lockedAt: string;
+  roomFee: number;
+  cleaningFee: number;
+  serviceFee: number;
+  securityDeposit: number;
+  total: number;
+}
+
 export interface Booking {
   id: string;
   propertyId: string;
@@ -289,6 +369,11 @@ export interface Booking {
   totalGuests: number;
   totalPrice: number;
   currency: string;
+  // Guest display currency and the rate locked at booking time
+  displayCurrency?: string | null;
+  fxRate?: number | string | null;
+  fxRateLockedAt?: Date | string | null;
+  displayTotalPrice?: number | string | null;
   status: BookingStatus;
   paymentStatus: PaymentStatus;
   specialRequests?: string;
@@ -302,6 +387,8 @@ export interface Booking {
   guest?: User;
   payment?: Payment;
   reviews?: Review[];
+  review?: Pick<Review, "id"> & Partial<Review>;
+  guestReview?: GuestReview | null;
 
   // Computed fields
   nights?: number;
@@ -310,6 +397,10 @@ export interface Booking {
   sensitiveDetailsUnlocked?: boolean;
   hasVerifiedArtifact?: boolean;
   bookingVerificationCode?: string;
+  // Double-blind reviews close this long after checkout
+  reviewWindowClosesAt?: string;
+  // Realtor view only
+  guestRating?: GuestRatingSummary;
 
   // Financial snapshots
   roomFee?: number;
@@ -434,6 +525,9 @@ export interface Review {
   // Host response
   hostResponse?: ReviewResponse;
 
+  // Removal requests filed by the viewing realtor
+  reports?: ReviewReportSummary[];
+
   // Relations
   booking?: Booking;
   author?: User;
@@ -444,6 +538,69 @@ export interface Review {
   userDisliked?: boolean;
 }
 
+export type ReviewReportReason =
+  | "SPAM"
+  | "OFFENSIVE"
+  | "HARASSMENT"
+  | "PERSONAL_INFORMATION"
+  | "NOT_ABOUT_STAY"
+  | "FALSE_INFORMATION"
+  | "OTHER";
+
+export type ReviewReportStatus = "PENDING" | "UPHELD" | "DISMISSED";
+
+// Reports filed by the property's own realtor are removal requests
+export type ReviewReportKind = "FLAG" | "REMOVAL_REQUEST";
+
+export interface ReviewReportSummary {
+  id: string;
+  reason: ReviewReportReason;
+  status: ReviewReportStatus;
+  createdAt: string;
+  resolvedAt?: string | null;
+}
+
+export interface ReviewReportFormData {
+  reason: ReviewReportReason;
+  details?: string;
+}
+
+// A realtor's review of a guest. Hidden from the guest until they review the
+// stay or the review window closes.
+export interface GuestReview {
+  id: string;
+  bookingId?: string;
+  cleanlinessRating: number;
+  communicationRating: number;
+  houseRulesRating: number;
+  comment?: string | null;
+  revealedAt?: string | null;
+  createdAt: string;
+  booking?: {
+    id: string;
+    checkInDate: string;
+    checkOutDate: string;
+    property?: { id: string; title: string };
+  };
+  realtor?: { id: string; businessName: string; logoUrl?: string | null };
+}
+
+export interface GuestRatingSummary {
+  averageRating: number | null;
+  reviewCount: number;
+  cleanlinessRating: number | null;
+  communicationRating: number | null;
+  houseRulesRating: number | null;
+}
+
+export interface GuestReviewFormData {
+  bookingId: string;
+  cleanlinessRating: number;
+  communicationRating: number;
+  houseRulesRating: number;
+  comment?: string;
+}
+
 export interface ReviewPhoto {
   id: string;
   reviewId: string;
@@ -549,10 +706,48 @@ export interface AuthResponse {
   user: User;
   accessToken: string;
   refreshToken: string;
+  redirectUrl?: string;
+  // Only when the sign-in also enrolled an authenticator app
+  recoveryCodes?: string[];
+}
+
+// Returned by login instead of tokens when a 2FA code is still needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  // Admin without an authenticator yet: enroll before signing in
+  setupRequired: boolean;
+  challengeToken: string;
+  user: Pick<User, "email" | "firstName" | "role">;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  available: boolean;
+  recoveryCodesRemaining: number;
 }
 
 export interface RefreshTokenResponse {
   accessToken: string;
+  refreshToken: string; // Rotated on every refresh; the old one is spent
+}
+
+// A signed-in device (GET /auth/sessions)
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
 }
 
 export interface PropertyFormData {
@@ -589,6 +784,7 @@ export interface BookingFormData {
   checkOut: Date;
   guests: number;
   specialRequests?: string;
+  displayCurrency?: string;
 }
 
 export interface ReviewFormData {
@@ -621,6 +817,11 @@ export interface PropertyFilters {
   amenities?: PropertyAmenity[];
   isActive?: boolean;
   isApproved?: boolean;
+  lat?: number;
+  lng?: number;
+  radiusKm?: number;
+  // Map viewport as "south,west,north,east"
+  bbox?: string;
 }
 
 export interface SearchParams {
@@ -14,7 +14,7 @@ export type NotificationType =
 
 export type NotificationPriority = "normal" | "high" | "urgent";
 
-export type DigestFrequency = "never" | "daily" | "weekly";
+export type DigestFrequency = "never" | "hourly" | "daily" | "weekly";
 
 export interface Notification {
   id: string;
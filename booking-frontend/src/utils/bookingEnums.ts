@@ -7,6 +7,8 @@
 
 import {
   BookingStatus,
+  CancellationPolicy,
+  CancellationPolicyType,
   PaymentStatus,
   PayoutStatus,
   RefundTier,
@@ -320,7 +322,8 @@ export const getPayoutStatusColor = (
 // ========================
 
 /**
- * Refund percentage splits for each tier (Room fee only)
+ * Refund percentage splits for each tier (Room fee only) under the default
+ * Flexible policy; bookings on other policies use the cancel preview instead
  * Format: [Customer%, Realtor%, Platform%]
  * Note: Security deposit always 100% to customer
  *       Service fee and cleaning fee never refunded
@@ -328,9 +331,9 @@ export const getPayoutStatusColor = (
 export const REFUND_TIER_SPLITS: Record<RefundTier, [number, number, number]> =
   {
     EARLY: [90, 7, 3], // 24+ hours before check-in
-    MEDIUM: [90, 7, 3], // mapped to EARLY (legacy - not used)
-    LATE: [0, 0, 0], // under 24h - not allowed
-    NONE: [0, 0, 0], // After check-in - no cancellation allowed
+    MEDIUM: [90, 7, 3], // Flexible has a single tier
+    LATE: [0, 70, 30], // no tier applies - room fee retained
+    NONE: [0, 0, 0], // within 24h - no cancellation allowed
   };
 
 /**
@@ -401,9 +404,9 @@ export const calculateRefundAmounts = (
  */
 export const formatRefundTier = (tier: RefundTier): string => {
   const tierMap: Record<RefundTier, string> = {
-    EARLY: "Early Cancellation (90% room fee refund)",
-    MEDIUM: "Early Cancellation (90% room fee refund)",
-    LATE: "Cancellation Not Allowed (within 24h of check-in)",
+    EARLY: "Early Cancellation (best refund under the policy)",
+    MEDIUM: "Partial Refund Cancellation",
+    LATE: "Late Cancellation (room fee not refunded)",
     NONE: "No Cancellation Allowed",
   };
   return tierMap[tier] || tier;
@@ -415,11 +418,11 @@ export const formatRefundTier = (tier: RefundTier): string => {
 export const getRefundTierDescription = (tier: RefundTier): string => {
   const descMap: Record<RefundTier, string> = {
     EARLY:
-      "Cancelled 24+ hours before check-in. You'll receive 90% of room fee + 100% security deposit.",
+      "Cancelled early enough for the policy's full refund rate on the room fee + 100% security deposit.",
     MEDIUM:
-      "Cancelled 24+ hours before check-in. You'll receive 90% of room fee + 100% security deposit.",
-    LATE: "Cancellation not allowed within 24 hours of check-in.",
-    NONE: "Booking already started. Cancellation not available.",
+      "Cancelled within a partial refund window of the policy. Part of the room fee + 100% security deposit is refunded.",
+    LATE: "Cancelled after the policy's last refund window. Only the security deposit is refunded.",
+    NONE: "Cancellation not allowed within 24 hours of check-in.",
   };
   return descMap[tier] || "";
 };
@@ -429,14 +432,74 @@ export const getRefundTierDescription = (tier: RefundTier): string => {
  */
 export const getCustomerRefundSummary = (tier: RefundTier): string => {
   const summaryMap: Record<RefundTier, string> = {
-    EARLY: "90% of room fee + full security deposit",
-    MEDIUM: "90% of room fee + full security deposit",
-    LATE: "No refund (cancellation not allowed within 24h)",
+    EARLY: "Policy refund rate on room fee + full security deposit",
+    MEDIUM: "Partial room fee refund + full security deposit",
+    LATE: "Full security deposit only",
     NONE: "No refund available",
   };
   return summaryMap[tier] || "";
 };
 
+// ========================
+// Cancellation Policy Utilities
+// ========================
+
+/**
+ * Named cancellation policies (mirror backend refundPolicy.ts presets).
+ * Guests can never cancel within 24 hours of check-in.
+ */
+export const CANCELLATION_POLICY_PRESETS: Record<
+  Exclude<CancellationPolicyType, "CUSTOM">,
+  CancellationPolicy
+> = {
+  FLEXIBLE: {
+    type: "FLEXIBLE",
+    name: "Flexible",
+    tiers: [{ minHoursBeforeCheckIn: 24, refundRate: 0.9 }],
+  },
+  MODERATE: {
+    type: "MODERATE",
+    name: "Moderate",
+    tiers: [
+      { minHoursBeforeCheckIn: 120, refundRate: 0.9 },
+      { minHoursBeforeCheckIn: 24, refundRate: 0.5 },
+    ],
+  },
+  STRICT: {
+    type: "STRICT",
+    name: "Strict",
+    tiers: [
+      { minHoursBeforeCheckIn: 336, refundRate: 0.9 },
+      { minHoursBeforeCheckIn: 168, refundRate: 0.5 },
+    ],
+  },
+  NON_REFUNDABLE: {
+    type: "NON_REFUNDABLE",
+    name: "Non-refundable",
+    tiers: [],
+  },
+};
+
+/**
+ * Human-readable refund schedule for a policy, one line per tier
+ */
+export const describeCancellationPolicy = (
+  policy: CancellationPolicy,
+): string[] => {
+  if (policy.tiers.length === 0) {
+    return ["The room fee is non-refundable"];
+  }
+
+  return policy.tiers.map((tier) => {
+    const hours = tier.minHoursBeforeCheckIn;
+    const window =
+      hours % 24 === 0
+        ? `${hours / 24} day${hours === 24 ? "" : "s"}`
+        : `${hours} hours`;
+    return `${Math.round(tier.refundRate * 100)}% of the room fee back if you cancel at least ${window} before check-in`;
+  });
+};
+
 // ========================
 // Combined Utilities
 // ========================
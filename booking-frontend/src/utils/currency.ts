@@ -1,22 +1,63 @@
-﻿/**
+﻿export interface CurrencyFormat {
+  name: string;
+  symbol: string;
+  locale: string;
+  decimals: number;
+}
+
+/**
+ * Currencies the API prices in. Listings, payments and payouts use the
+ * settlement currencies; the others are only for showing guests a
+ * converted price.
+ */
+export const CURRENCY_FORMATS: Record<string, CurrencyFormat> = {
+  NGN: { name: "Naira", symbol: "₦", locale: "en-NG", decimals: 2 },
+  GHS: { name: "Cedi", symbol: "GH₵", locale: "en-GH", decimals: 2 },
+  KES: { name: "Shilling", symbol: "KSh", locale: "en-KE", decimals: 2 },
+  USD: { name: "US dollar", symbol: "$", locale: "en-US", decimals: 2 },
+  EUR: { name: "Euro", symbol: "€", locale: "en-IE", decimals: 2 },
+  XOF: { name: "CFA franc", symbol: "CFA", locale: "fr-SN", decimals: 0 },
+};
+
+export const SETTLEMENT_CURRENCIES = ["NGN", "GHS", "KES"] as const;
+export type SettlementCurrency = (typeof SETTLEMENT_CURRENCIES)[number];
+
+// Digits a payout account number has in each settlement country
+export const PAYOUT_ACCOUNT_DIGITS: Record<
+  SettlementCurrency,
+  { min: number; max: number }
+> = {
+  NGN: { min: 10, max: 10 },
+  GHS: { min: 10, max: 16 },
+  KES: { min: 8, max: 16 },
+};
+
+// Unknown codes fall back to naira, the only currency before listings
+// could be priced in others
+export const currencyFormat = (currency?: string | null): CurrencyFormat =>
+  (currency && CURRENCY_FORMATS[currency]) || CURRENCY_FORMATS.NGN;
+
+/**
  * Format price with proper decimal precision
- * Handles floating-point precision issues by rounding to 2 decimal places
+ * Handles floating-point precision issues by rounding to the currency's
+ * decimal places
  */
 export function formatPrice(
   price: number | string,
-  _currency: string = "NGN"
+  currency: string = "NGN"
 ): string {
-  void _currency;
+  const { symbol, locale, decimals } = currencyFormat(currency);
   const numPrice = typeof price === "string" ? parseFloat(price) : price;
   if (!Number.isFinite(numPrice)) {
-    return "₦0";
+    return `${symbol}0`;
   }
 
-  const rounded = Math.round(numPrice * 100) / 100;
+  const factor = 10 ** decimals;
+  const rounded = Math.round(numPrice * factor) / factor;
 
-  return `₦${rounded.toLocaleString("en-NG", {
+  return `${symbol}${rounded.toLocaleString(locale, {
     minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
+    maximumFractionDigits: decimals,
   })}`;
 }
 
@@ -1,3 +1,5 @@
+import { isPlatformHostname, readCustomDomainSlug } from "@/lib/customDomains";
+
 /**
  * Multi-domain utility functions for Stayza platform
  * Handles transitions between main domain and subdomains for different user types
@@ -83,6 +85,14 @@ export function getCurrentSubdomain(): string | null {
   const hostname = window.location.hostname;
   const parts = hostname.split(".");
 
+  // A realtor's custom domain stands in for their subdomain
+  if (!isPlatformHostname(hostname)) {
+    const customDomainSlug = readCustomDomainSlug(document.cookie);
+    if (customDomainSlug) {
+      return customDomainSlug;
+    }
+  }
+
   // For localhost:3000 format, subdomain is first part
   if (hostname.includes("localhost")) {
     if (parts.length > 1 && parts[0] !== "localhost") {
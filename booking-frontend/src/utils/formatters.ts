@@ -1,15 +1,17 @@
-﻿/**
- * Format number as currency (Naira)
+﻿import { currencyFormat } from "./currency";
+
+/**
+ * Format number as currency
  */
 export const formatCurrency = (
   amount: number,
-  _currency: string = "NGN",
+  currency: string = "NGN",
 ): string => {
-  void _currency;
+  const { symbol, locale, decimals } = currencyFormat(currency);
   const safeAmount = Number.isFinite(amount) ? amount : 0;
-  return `₦${safeAmount.toLocaleString("en-NG", {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+  return `${symbol}${safeAmount.toLocaleString(locale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
   })}`;
 };
 
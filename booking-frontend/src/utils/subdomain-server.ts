@@ -1,11 +1,22 @@
 import { headers } from "next/headers";
 import type { TenantInfo } from "./subdomain";
+import { CUSTOM_DOMAIN_SLUG_HEADER } from "@/lib/customDomains";
 
 // Server-side only function for use in Server Components
 export function getSubdomainInfoServer(): TenantInfo {
   const headersList = headers();
   const host = headersList.get("host") || "";
 
+  // Set by the middleware when serving a realtor's custom domain
+  const customDomainSlug = headersList.get(CUSTOM_DOMAIN_SLUG_HEADER);
+  if (customDomainSlug) {
+    return {
+      subdomain: customDomainSlug,
+      type: "realtor",
+      isMultiTenant: true,
+    };
+  }
+
   // Parse subdomain from host header
   const hostname = host.split(":")[0]; // Remove port if present
   const subdomain = hostname.split(".")[0];
@@ -1,3 +1,5 @@
+import { isPlatformHostname, readCustomDomainSlug } from "@/lib/customDomains";
+
 export interface TenantInfo {
   subdomain: string;
   type: "admin" | "realtor" | "main";
@@ -17,6 +19,19 @@ export function getSubdomainInfo(): TenantInfo {
 
   // Client-side subdomain detection
   const hostname = window.location.hostname;
+
+  // On a realtor's custom domain the middleware stores their slug
+  const customDomainSlug = isPlatformHostname(hostname)
+    ? null
+    : readCustomDomainSlug(document.cookie);
+  if (customDomainSlug) {
+    return {
+      subdomain: customDomainSlug,
+      type: "realtor",
+      isMultiTenant: true,
+    };
+  }
+
   const subdomain = hostname.split(".")[0];
 
   if (subdomain === "admin") {